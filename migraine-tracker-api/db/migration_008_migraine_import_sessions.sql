@@ -0,0 +1,50 @@
+-- Migration: Add import session tracking for migraine diary imports
+-- This allows users to bulk import historical episodes from CSV and roll back an import
+
+-- Create migraine_import_sessions table
+CREATE TABLE IF NOT EXISTS migraine_import_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    filename VARCHAR(255) NOT NULL,
+    file_size BIGINT NOT NULL,
+    preset VARCHAR(100), -- e.g., 'generic', 'migraine_mapper', 'migraine_buddy'
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    imported_rows INTEGER NOT NULL DEFAULT 0,
+    skipped_rows INTEGER NOT NULL DEFAULT 0,
+    error_rows INTEGER NOT NULL DEFAULT 0,
+    column_mapping JSONB,
+    error_details JSONB,
+    status VARCHAR(50) DEFAULT 'completed', -- 'processing', 'completed', 'partial', 'failed'
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Add import_session_id to migraine_entries table
+ALTER TABLE migraine_entries
+ADD COLUMN IF NOT EXISTS import_session_id UUID REFERENCES migraine_import_sessions(id) ON DELETE CASCADE;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_migraine_import_sessions_user_id ON migraine_import_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_migraine_import_sessions_created_at ON migraine_import_sessions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_migraine_entries_import_session_id ON migraine_entries(import_session_id);
+
+-- Add trigger for updated_at
+DROP TRIGGER IF EXISTS update_migraine_import_sessions_updated_at ON migraine_import_sessions;
+CREATE TRIGGER update_migraine_import_sessions_updated_at
+    BEFORE UPDATE ON migraine_import_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE migraine_import_sessions IS 'Tracks bulk CSV imports of migraine diary entries';
+COMMENT ON COLUMN migraine_import_sessions.filename IS 'Original filename of imported CSV';
+COMMENT ON COLUMN migraine_import_sessions.file_size IS 'File size in bytes';
+COMMENT ON COLUMN migraine_import_sessions.preset IS 'Column mapping preset used for the import';
+COMMENT ON COLUMN migraine_import_sessions.total_rows IS 'Total number of data rows in CSV';
+COMMENT ON COLUMN migraine_import_sessions.imported_rows IS 'Number of entries created';
+COMMENT ON COLUMN migraine_import_sessions.skipped_rows IS 'Number of rows skipped as duplicates of existing entries';
+COMMENT ON COLUMN migraine_import_sessions.error_rows IS 'Number of rows that failed validation';
+COMMENT ON COLUMN migraine_import_sessions.column_mapping IS 'JSON mapping of CSV columns to diary fields';
+COMMENT ON COLUMN migraine_import_sessions.error_details IS 'Per-row validation errors (row number and messages)';
+COMMENT ON COLUMN migraine_import_sessions.status IS 'Import status: processing, completed, partial, or failed';
+COMMENT ON COLUMN migraine_entries.import_session_id IS 'Reference to the import session that created this entry';
@@ -0,0 +1,62 @@
+-- Migration: Add structured medication tracking
+-- Per-user medication catalog and per-episode intake records (dose, time taken, 2-hour relief)
+
+-- Create medications table (user's medication catalog)
+CREATE TABLE IF NOT EXISTS medications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    medication_class VARCHAR(50) NOT NULL DEFAULT 'other' CHECK (medication_class IN (
+        'triptan', 'nsaid', 'simple_analgesic', 'combination_analgesic', 'ergot',
+        'opioid', 'gepant', 'ditan', 'antiemetic', 'preventive', 'other'
+    )),
+    default_dose VARCHAR(100), -- e.g., '50 mg', '400 mg'
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, name)
+);
+
+-- Create medication_intakes table (one row per dose taken during an episode)
+CREATE TABLE IF NOT EXISTS medication_intakes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    migraine_entry_id UUID NOT NULL REFERENCES migraine_entries(id) ON DELETE CASCADE,
+    medication_id UUID NOT NULL REFERENCES medications(id) ON DELETE CASCADE,
+    taken_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    dose VARCHAR(100),
+    relief_2h INTEGER CHECK (relief_2h >= 0 AND relief_2h <= 3),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_medications_user_id ON medications(user_id);
+CREATE INDEX IF NOT EXISTS idx_medication_intakes_user_taken_at ON medication_intakes(user_id, taken_at DESC);
+CREATE INDEX IF NOT EXISTS idx_medication_intakes_migraine_entry_id ON medication_intakes(migraine_entry_id);
+CREATE INDEX IF NOT EXISTS idx_medication_intakes_medication_id ON medication_intakes(medication_id);
+
+-- Add triggers for updated_at
+DROP TRIGGER IF EXISTS update_medications_updated_at ON medications;
+CREATE TRIGGER update_medications_updated_at
+    BEFORE UPDATE ON medications
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_medication_intakes_updated_at ON medication_intakes;
+CREATE TRIGGER update_medication_intakes_updated_at
+    BEFORE UPDATE ON medication_intakes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE medications IS 'Per-user medication catalog';
+COMMENT ON COLUMN medications.medication_class IS 'Drug class used for medication-overuse monitoring (ICHD-3 8.2)';
+COMMENT ON COLUMN medications.default_dose IS 'Dose pre-filled when logging an intake';
+COMMENT ON COLUMN medications.is_active IS 'Inactive medications stay in history but are hidden from pickers';
+COMMENT ON TABLE medication_intakes IS 'Medication doses taken during a migraine episode';
+COMMENT ON COLUMN medication_intakes.taken_at IS 'When the dose was taken';
+COMMENT ON COLUMN medication_intakes.dose IS 'Dose actually taken (defaults to the catalog dose)';
+COMMENT ON COLUMN medication_intakes.relief_2h IS 'Relief 2 hours after intake: 0=none, 1=some, 2=good, 3=pain free';
@@ -0,0 +1,42 @@
+-- Migration: Add per-user trigger and symptom vocabularies
+-- Free-text triggers/symptoms are resolved to canonical terms (with aliases and categories)
+-- and linked to entries, so statistics group "Stress", "stress " and "work stress" together
+
+-- Create vocabulary_terms table (canonical trigger/symptom names per user)
+CREATE TABLE IF NOT EXISTS vocabulary_terms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('trigger', 'symptom')),
+    name VARCHAR(100) NOT NULL, -- Canonical display name
+    category VARCHAR(50) NOT NULL DEFAULT 'other', -- e.g., 'stress', 'sleep', 'diet' for triggers
+    aliases TEXT[] NOT NULL DEFAULT '{}', -- Normalized (lowercase) alternative spellings
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create migraine_entry_terms table (which terms were recorded for an entry)
+CREATE TABLE IF NOT EXISTS migraine_entry_terms (
+    migraine_entry_id UUID NOT NULL REFERENCES migraine_entries(id) ON DELETE CASCADE,
+    term_id UUID NOT NULL REFERENCES vocabulary_terms(id) ON DELETE CASCADE,
+    PRIMARY KEY (migraine_entry_id, term_id)
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vocabulary_terms_user_kind_name ON vocabulary_terms(user_id, kind, LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_vocabulary_terms_user_id ON vocabulary_terms(user_id);
+CREATE INDEX IF NOT EXISTS idx_migraine_entry_terms_term_id ON migraine_entry_terms(term_id);
+
+-- Add trigger for updated_at
+DROP TRIGGER IF EXISTS update_vocabulary_terms_updated_at ON vocabulary_terms;
+CREATE TRIGGER update_vocabulary_terms_updated_at
+    BEFORE UPDATE ON vocabulary_terms
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE vocabulary_terms IS 'Per-user canonical trigger and symptom names with aliases and categories';
+COMMENT ON COLUMN vocabulary_terms.kind IS 'Whether the term is a trigger or a symptom';
+COMMENT ON COLUMN vocabulary_terms.aliases IS 'Normalized alternative spellings that resolve to this term';
+COMMENT ON TABLE migraine_entry_terms IS 'Links migraine entries to the vocabulary terms recorded for them';
+COMMENT ON COLUMN migraine_entries.triggers IS 'Comma-separated canonical trigger names (kept in sync with migraine_entry_terms)';
+COMMENT ON COLUMN migraine_entries.symptoms IS 'Comma-separated canonical symptom names (kept in sync with migraine_entry_terms)';
@@ -0,0 +1,42 @@
+-- Migration: Create daily_checkins table for the daily headache diary
+-- One lightweight check-in per day, recorded on headache and headache-free days alike,
+-- so "no migraine" can be told apart from "nothing recorded"
+
+-- Create daily_checkins table
+CREATE TABLE IF NOT EXISTS daily_checkins (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    had_headache BOOLEAN NOT NULL,
+    -- Lifestyle factors (all optional)
+    sleep_hours NUMERIC(4, 2) CHECK (sleep_hours >= 0 AND sleep_hours <= 24),
+    caffeine_servings INTEGER CHECK (caffeine_servings >= 0 AND caffeine_servings <= 30),
+    alcohol_units NUMERIC(4, 1) CHECK (alcohol_units >= 0 AND alcohol_units <= 50),
+    menstruation BOOLEAN,
+    mood INTEGER CHECK (mood >= 1 AND mood <= 5), -- 1 = very low, 5 = very good
+    water_liters NUMERIC(4, 2) CHECK (water_liters >= 0 AND water_liters <= 15),
+    screen_time_hours NUMERIC(4, 2) CHECK (screen_time_hours >= 0 AND screen_time_hours <= 24),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, date)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_daily_checkins_user_id ON daily_checkins(user_id);
+CREATE INDEX IF NOT EXISTS idx_daily_checkins_user_date ON daily_checkins(user_id, date DESC);
+
+-- Add trigger for updated_at
+DROP TRIGGER IF EXISTS update_daily_checkins_updated_at ON daily_checkins;
+CREATE TRIGGER update_daily_checkins_updated_at
+    BEFORE UPDATE ON daily_checkins
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE daily_checkins IS 'Daily headache diary check-ins (one per user per day)';
+COMMENT ON COLUMN daily_checkins.had_headache IS 'Whether the user had any headache that day; false confirms a headache-free day';
+COMMENT ON COLUMN daily_checkins.caffeine_servings IS 'Caffeinated drinks (cups of coffee, tea, energy drinks)';
+COMMENT ON COLUMN daily_checkins.alcohol_units IS 'Standard alcohol units';
+COMMENT ON COLUMN daily_checkins.mood IS 'Self-rated mood (1-5)';
+COMMENT ON COLUMN daily_checkins.screen_time_hours IS 'Hours of screen time';
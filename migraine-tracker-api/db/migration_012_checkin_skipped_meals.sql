@@ -0,0 +1,8 @@
+-- Migration: Add skipped_meals to daily_checkins
+-- Lets the lifestyle correlation analysis compare skipped meals on migraine and headache-free days
+
+ALTER TABLE daily_checkins
+ADD COLUMN IF NOT EXISTS skipped_meals BOOLEAN;
+
+-- Add comments for documentation
+COMMENT ON COLUMN daily_checkins.skipped_meals IS 'Whether the user skipped or significantly delayed a meal that day';
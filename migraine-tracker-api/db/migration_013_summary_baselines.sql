@@ -0,0 +1,11 @@
+-- Migration: Add personal baselines and anomaly flags to summary_indicators
+-- Each daily summary stores the user's rolling 28-day baseline (median and MAD per metric)
+-- and the metrics that deviated from it, so risk factors are relative to the person
+
+ALTER TABLE summary_indicators
+ADD COLUMN IF NOT EXISTS baseline JSONB,
+ADD COLUMN IF NOT EXISTS anomalies JSONB;
+
+-- Add comments for documentation
+COMMENT ON COLUMN summary_indicators.baseline IS 'Rolling personal baseline per metric from the 28 days before the period: {metric: {median, mad, days}}';
+COMMENT ON COLUMN summary_indicators.anomalies IS 'JSON array of metrics whose robust z-score versus the baseline is 2 or more';
@@ -0,0 +1,36 @@
+-- Migration: Create risk_assessments table for persisted risk predictions
+-- Every dashboard risk analysis (local model or LLM provider) is stored with its input window,
+-- so predictions can be plotted over time and checked against migraine_day_markers
+
+-- Create risk_assessments table
+CREATE TABLE IF NOT EXISTS risk_assessments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- Wearable data window the prediction was based on
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    window_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    engine VARCHAR(20) NOT NULL CHECK (engine IN ('local', 'llm')),
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(100),
+    prompt_hash VARCHAR(64),
+    risk_level INTEGER CHECK (risk_level >= 0 AND risk_level <= 100),
+    risk_category VARCHAR(20),
+    confidence_level VARCHAR(20),
+    analysis JSONB NOT NULL,
+    is_simulated BOOLEAN NOT NULL DEFAULT false,
+    simulated_data JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_user_id ON risk_assessments(user_id);
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_user_created ON risk_assessments(user_id, created_at DESC);
+
+-- Add comments for documentation
+COMMENT ON TABLE risk_assessments IS 'Stored migraine risk predictions from the dashboard analysis';
+COMMENT ON COLUMN risk_assessments.engine IS 'local = deterministic local model, llm = language model provider';
+COMMENT ON COLUMN risk_assessments.provider IS 'local, digitalocean, openai, ollama or mock';
+COMMENT ON COLUMN risk_assessments.prompt_hash IS 'SHA-256 of the prompt sent to the LLM (NULL for the local model)';
+COMMENT ON COLUMN risk_assessments.analysis IS 'Parsed AIAnalysisResponse (risk level, factors, recommendations, full text)';
+COMMENT ON COLUMN risk_assessments.is_simulated IS 'Whether the prediction used simulated instead of recorded wearable data';
+COMMENT ON COLUMN risk_assessments.simulated_data IS 'Simulated metrics used as input, when is_simulated';
@@ -0,0 +1,90 @@
+-- Migration: Background jobs, scheduled risk forecasts and notifications
+-- The in-process job runner claims rows from jobs; the scheduler enqueues a morning and an evening
+-- risk forecast per user once new wearable data has arrived, and alerts are delivered to the in-app
+-- inbox (notifications) and, when enabled, by web push and email
+
+-- Create jobs table (persistent queue for the in-process job runner)
+CREATE TABLE IF NOT EXISTS jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type VARCHAR(50) NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    -- Prevents the same job (e.g. one user's morning forecast for a day) from being enqueued twice
+    dedupe_key VARCHAR(255) UNIQUE,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    result JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create notification_settings table (one row per user; defaults apply without a row)
+CREATE TABLE IF NOT EXISTS notification_settings (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    forecasts_enabled BOOLEAN NOT NULL DEFAULT true,
+    forecast_engine VARCHAR(20) NOT NULL DEFAULT 'local' CHECK (forecast_engine IN ('local', 'llm')),
+    morning_hour INTEGER NOT NULL DEFAULT 7 CHECK (morning_hour >= 0 AND morning_hour <= 23),
+    evening_hour INTEGER NOT NULL DEFAULT 19 CHECK (evening_hour >= 0 AND evening_hour <= 23),
+    risk_threshold INTEGER NOT NULL DEFAULT 60 CHECK (risk_threshold >= 1 AND risk_threshold <= 100),
+    push_enabled BOOLEAN NOT NULL DEFAULT false,
+    email_enabled BOOLEAN NOT NULL DEFAULT false,
+    email_address VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create notifications table (in-app inbox)
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    type VARCHAR(50) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL,
+    data JSONB,
+    -- Outcome per external channel, e.g. {"push": "sent", "email": "failed: ..."}
+    deliveries JSONB NOT NULL DEFAULT '{}',
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create push_subscriptions table (one row per browser that enabled web push)
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Record whether a risk assessment was requested on the dashboard or made by the scheduler
+ALTER TABLE risk_assessments
+    ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'scheduled'));
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_user_id ON jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_user_source ON risk_assessments(user_id, source, created_at DESC);
+
+-- Add comments for documentation
+COMMENT ON TABLE jobs IS 'Persistent queue for the in-process background job runner';
+COMMENT ON COLUMN jobs.type IS 'Job handler name, e.g. risk_forecast';
+COMMENT ON COLUMN jobs.dedupe_key IS 'Unique key so a scheduled job is only enqueued once (e.g. risk_forecast:<user>:<date>:morning)';
+COMMENT ON COLUMN jobs.locked_at IS 'When a runner claimed the job; running jobs with an old lock are retried after a restart';
+COMMENT ON TABLE notification_settings IS 'Per-user scheduled forecast and alert preferences';
+COMMENT ON COLUMN notification_settings.morning_hour IS 'Hour (UTC) of the morning forecast';
+COMMENT ON COLUMN notification_settings.evening_hour IS 'Hour (UTC) of the evening forecast';
+COMMENT ON COLUMN notification_settings.risk_threshold IS 'Risk % at or above which a scheduled forecast raises an alert';
+COMMENT ON COLUMN notification_settings.email_address IS 'Alert address (NULL = the account email)';
+COMMENT ON TABLE notifications IS 'In-app notification inbox';
+COMMENT ON TABLE push_subscriptions IS 'Web push subscriptions (endpoint and keys from PushManager.subscribe)';
+COMMENT ON COLUMN risk_assessments.source IS 'manual = requested on the dashboard, scheduled = background forecast';
@@ -0,0 +1,53 @@
+-- Migration: Versioned prompt templates and A/B prompt experiments
+-- Risk analysis prompts are rendered from templates with {{variable}} placeholders. Editing a template
+-- stores a new version instead of changing the old one, and every LLM risk assessment records the
+-- template version it used, so the accuracy of prompt versions can be compared
+
+-- Create prompt_templates table (one row per version; versions are never modified)
+CREATE TABLE IF NOT EXISTS prompt_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    version INTEGER NOT NULL CHECK (version >= 1),
+    body TEXT NOT NULL,
+    notes TEXT,
+    -- The template used for LLM analyses when no experiment is running (at most one per user)
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, name, version)
+);
+
+-- Create prompt_experiments table (A/B test of two template versions across assessments)
+CREATE TABLE IF NOT EXISTS prompt_experiments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    template_a_id UUID NOT NULL REFERENCES prompt_templates(id) ON DELETE RESTRICT,
+    template_b_id UUID NOT NULL REFERENCES prompt_templates(id) ON DELETE RESTRICT,
+    -- Share of assessments (percent) that use template B
+    split_percent INTEGER NOT NULL DEFAULT 50 CHECK (split_percent >= 1 AND split_percent <= 99),
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'stopped')),
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    stopped_at TIMESTAMP WITH TIME ZONE,
+    CHECK (template_a_id <> template_b_id)
+);
+
+-- Tag risk assessments with the prompt template version (and experiment arm) they used
+ALTER TABLE risk_assessments
+    ADD COLUMN IF NOT EXISTS prompt_template_id UUID REFERENCES prompt_templates(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS prompt_template_version VARCHAR(120),
+    ADD COLUMN IF NOT EXISTS prompt_experiment_id UUID REFERENCES prompt_experiments(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS prompt_variant CHAR(1) CHECK (prompt_variant IN ('A', 'B'));
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_user_name ON prompt_templates(user_id, name, version DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_one_active ON prompt_templates(user_id) WHERE is_active;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_experiments_one_running ON prompt_experiments(user_id) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_risk_assessments_prompt_experiment ON risk_assessments(prompt_experiment_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE prompt_templates IS 'Versioned risk analysis prompt templates with {{variable}} placeholders';
+COMMENT ON COLUMN prompt_templates.body IS 'Template text; must contain {{responseFormat}}';
+COMMENT ON TABLE prompt_experiments IS 'A/B tests that randomly assign one of two template versions to each LLM assessment';
+COMMENT ON COLUMN risk_assessments.prompt_template_version IS 'Template label (name v<version>, or builtin v1); kept if the template is deleted';
+COMMENT ON COLUMN risk_assessments.prompt_variant IS 'Experiment arm (A or B) when the assessment was part of a prompt experiment';
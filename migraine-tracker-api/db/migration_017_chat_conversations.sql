@@ -0,0 +1,47 @@
+-- Migration: Stored conversations with the "ask about my migraines" assistant
+-- The assistant answers questions by calling read-only tools over the user's own data; every
+-- question, tool call (with its arguments and result) and answer is kept so conversations can be
+-- continued, reviewed and deleted
+
+-- Create chat_conversations table
+CREATE TABLE IF NOT EXISTS chat_conversations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    title VARCHAR(200) NOT NULL,
+    -- LLM provider and model that answered the latest question
+    provider VARCHAR(50),
+    model VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create chat_messages table
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+    -- Order within the conversation (a question, its tool calls and the answer are saved together)
+    position INTEGER NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant', 'tool')),
+    content TEXT NOT NULL DEFAULT '',
+    -- Set for role = 'tool'
+    tool_name VARCHAR(50),
+    tool_arguments JSONB,
+    tool_result JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (conversation_id, position)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user_updated ON chat_conversations(user_id, updated_at DESC);
+
+-- Add trigger for updated_at
+DROP TRIGGER IF EXISTS update_chat_conversations_updated_at ON chat_conversations;
+CREATE TRIGGER update_chat_conversations_updated_at
+    BEFORE UPDATE ON chat_conversations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE chat_conversations IS 'Conversations with the data assistant; deleting one deletes its messages';
+COMMENT ON COLUMN chat_messages.role IS 'user = question, assistant = answer, tool = tool call made while answering';
+COMMENT ON COLUMN chat_messages.tool_result IS 'JSON returned by the tool and shown to the model';
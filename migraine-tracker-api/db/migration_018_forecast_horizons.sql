@@ -0,0 +1,12 @@
+-- Migration: Lookback window and forecast horizon on risk assessments
+-- Risk APIs accept how many hours of data to analyze and how many hours ahead to forecast; each
+-- assessment records both so accuracy is scored against its own horizon. Earlier assessments all
+-- used 24 hours of data and a 12-hour horizon, which the defaults reproduce.
+
+ALTER TABLE risk_assessments
+    ADD COLUMN IF NOT EXISTS lookback_hours INTEGER NOT NULL DEFAULT 24 CHECK (lookback_hours BETWEEN 1 AND 336),
+    ADD COLUMN IF NOT EXISTS horizon_hours INTEGER NOT NULL DEFAULT 12 CHECK (horizon_hours BETWEEN 1 AND 72);
+
+-- Add comments for documentation
+COMMENT ON COLUMN risk_assessments.lookback_hours IS 'Hours of wearable data before window_end the forecast was based on (longer lookbacks use daily summaries beyond the last 24 hours)';
+COMMENT ON COLUMN risk_assessments.horizon_hours IS 'Hours after window_end the forecast covers; a migraine starting in this span counts as a hit';
@@ -0,0 +1,37 @@
+-- Migration: Saved "what-if" scenarios for the risk simulator
+-- A scenario describes the last 24 hours before a forecast as hourly time series (recorded or constant
+-- values overwritten by held or ramping segments). Assessments made from a scenario are stored with
+-- is_simulated = true, the scenario definition they used and a link to the saved scenario
+
+-- Create risk_scenarios table
+CREATE TABLE IF NOT EXISTS risk_scenarios (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    -- { base: 'recorded' | 'constant', constants: {...}, segments: [{ metric, startHour, endHour, startValue, endValue? }] }
+    definition JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, name)
+);
+
+-- Link simulated assessments to the saved scenario they came from
+ALTER TABLE risk_assessments
+    ADD COLUMN IF NOT EXISTS scenario_id UUID REFERENCES risk_scenarios(id) ON DELETE SET NULL;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_risk_scenarios_user ON risk_scenarios(user_id, name);
+
+-- Add trigger for updated_at
+DROP TRIGGER IF EXISTS update_risk_scenarios_updated_at ON risk_scenarios;
+CREATE TRIGGER update_risk_scenarios_updated_at
+    BEFORE UPDATE ON risk_scenarios
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE risk_scenarios IS 'Named what-if scenarios used to simulate the 24 hours before a risk forecast';
+COMMENT ON COLUMN risk_scenarios.definition IS 'Scenario time series definition; hours are 0-24 within the window ending at the forecast';
+COMMENT ON COLUMN risk_assessments.scenario_id IS 'Saved scenario a simulated assessment was made from (the definition itself is in simulated_data)';
+COMMENT ON COLUMN risk_assessments.simulated_data IS 'Scenario definition (or, for older rows, flat simulated metrics) used as input, when is_simulated';
@@ -0,0 +1,11 @@
+-- Migration: Import format on upload sessions
+-- Wearable uploads are read by vendor importers (Oura, Fitbit, Garmin, Apple Health, Whoop) or the
+-- generic CSV parser; each session records which importer read the file. Earlier uploads were all
+-- read by the generic CSV parser.
+
+ALTER TABLE upload_sessions
+    ADD COLUMN IF NOT EXISTS import_format VARCHAR(50) NOT NULL DEFAULT 'generic_csv';
+
+-- Add comments for documentation
+COMMENT ON COLUMN upload_sessions.import_format IS 'Importer that read the file, e.g. oura_json, garmin_fit, apple_health_xml, generic_csv';
+COMMENT ON TABLE upload_sessions IS 'Tracks wearable data file uploads (CSV and vendor exports)';
@@ -0,0 +1,38 @@
+-- Migration: Saved column mappings for wearable uploads
+-- Uploads are previewed before anything is written; the user can override where each column (or
+-- vendor field) goes and save those overrides as a named template to reuse on later files of the
+-- same format. Upload sessions record the template they were imported with.
+
+-- Create wearable_mapping_templates table
+CREATE TABLE IF NOT EXISTS wearable_mapping_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    -- Importer the mapping was made for, e.g. generic_csv, whoop_csv
+    import_format VARCHAR(50) NOT NULL,
+    -- { column: field | 'additional' | '' (ignore) }
+    mapping JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, name)
+);
+
+-- Link upload sessions to the template they used
+ALTER TABLE upload_sessions
+    ADD COLUMN IF NOT EXISTS mapping_template_id UUID REFERENCES wearable_mapping_templates(id) ON DELETE SET NULL;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_wearable_mapping_templates_user ON wearable_mapping_templates(user_id, import_format);
+
+-- Add trigger for updated_at
+DROP TRIGGER IF EXISTS update_wearable_mapping_templates_updated_at ON wearable_mapping_templates;
+CREATE TRIGGER update_wearable_mapping_templates_updated_at
+    BEFORE UPDATE ON wearable_mapping_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE wearable_mapping_templates IS 'Named column mapping overrides reused across wearable uploads of the same format';
+COMMENT ON COLUMN wearable_mapping_templates.mapping IS 'Column or vendor field -> standardized field, additional (keep in additional_data) or empty string (ignore); unlisted columns are matched automatically';
+COMMENT ON COLUMN upload_sessions.mapping_template_id IS 'Mapping template the upload was imported with, if any';
+COMMENT ON COLUMN upload_sessions.field_mapping IS 'JSON mapping of columns to fields the upload was imported with (after overrides)';
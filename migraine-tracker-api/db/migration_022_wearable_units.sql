@@ -0,0 +1,16 @@
+-- Migration: Units of wearable uploads
+-- Uploaded values are converted to the units wearable_data stores (°C, ms, percent, ...). The unit
+-- each field was read in, and whether it was inferred or chosen in the mapping step, is recorded on
+-- the upload session; mapping templates can carry unit overrides along with the column mapping.
+
+-- Original units per upload
+ALTER TABLE upload_sessions
+    ADD COLUMN IF NOT EXISTS field_units JSONB;
+
+-- Unit overrides saved with a mapping template
+ALTER TABLE wearable_mapping_templates
+    ADD COLUMN IF NOT EXISTS units JSONB NOT NULL DEFAULT '{}';
+
+-- Add comments for documentation
+COMMENT ON COLUMN upload_sessions.field_units IS 'Field -> { unit, expectedUnit, source } with the unit values were read in (source: override, column or values) before conversion';
+COMMENT ON COLUMN wearable_mapping_templates.units IS 'Field -> unit overrides, e.g. { "skinTemperature": "fahrenheit" }; fields not listed are inferred';
@@ -0,0 +1,13 @@
+-- Migration: User timezone
+-- Timestamps are stored as instants; the timezone on the profile decides which calendar day a
+-- timestamp belongs to (calendar, summaries, correlations, statistics), how wearable timestamps
+-- without a zone are read and at which wall-clock hours scheduled forecasts run. Existing profiles
+-- keep UTC, the previous behaviour.
+
+ALTER TABLE user_profiles
+    ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+-- Add comments for documentation
+COMMENT ON COLUMN user_profiles.timezone IS 'IANA timezone (e.g. Europe/Berlin) that days are bucketed in and zone-less wearable timestamps are read in';
+COMMENT ON COLUMN notification_settings.morning_hour IS 'Hour of the morning forecast in the user''s timezone';
+COMMENT ON COLUMN notification_settings.evening_hour IS 'Hour of the evening forecast in the user''s timezone';
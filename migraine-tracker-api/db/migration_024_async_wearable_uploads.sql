@@ -0,0 +1,25 @@
+-- Migration: Background processing of wearable uploads
+-- Uploaded files are written to disk and imported by a wearable_import job instead of inside the
+-- upload request. The session keeps what the job needs to (re)start: the stored file, the mapping,
+-- units and timezone it was uploaded with, and a checkpoint of the rows already written, so an import
+-- interrupted by a restart continues where it stopped. Statuses: queued -> processing -> completed,
+-- partial or failed.
+
+ALTER TABLE upload_sessions
+    ADD COLUMN IF NOT EXISTS file_path TEXT,
+    ADD COLUMN IF NOT EXISTS import_options JSONB NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS processed_rows INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS error_message TEXT,
+    ADD COLUMN IF NOT EXISTS error_details JSONB,
+    ADD COLUMN IF NOT EXISTS earliest_timestamp TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Add comments for documentation
+COMMENT ON COLUMN upload_sessions.status IS 'Upload status: queued, processing, completed, partial or failed';
+COMMENT ON COLUMN upload_sessions.file_path IS 'Uploaded file on disk until the import finishes (NULL afterwards)';
+COMMENT ON COLUMN upload_sessions.import_options IS '{ mapping, units, timezone } the file is imported with';
+COMMENT ON COLUMN upload_sessions.processed_rows IS 'Parsed rows written so far; an interrupted import resumes after them';
+COMMENT ON COLUMN upload_sessions.error_message IS 'Why the import failed (unreadable file, unrecognized format, ...)';
+COMMENT ON COLUMN upload_sessions.error_details IS 'First row errors as [{ timestamp, error }]';
+COMMENT ON COLUMN upload_sessions.earliest_timestamp IS 'Earliest timestamp in the file';
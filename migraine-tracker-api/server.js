@@ -2,16 +2,111 @@ import express from 'express';
 import cors from 'cors';
 import jwt from 'jsonwebtoken';
 import multer from 'multer';
+import path from 'path';
+import { fileURLToPath } from 'url';
 import 'dotenv/config';
-import { query, closePool } from './db/database.js';
-import { parseWearableCSV, detectSource } from './utils/csvParser.js';
+import { createHash } from 'crypto';
+import { query, getClient, closePool } from './db/database.js';
+import {
+  previewWearableFile,
+  listImporters,
+  getSupportedExtensions,
+  isKnownImporter,
+  validateFieldMapping,
+  MAPPING_TARGETS
+} from './utils/importers/index.js';
+import { validateUnitOverrides } from './utils/wearableUnits.js';
+import {
+  DEFAULT_TIMEZONE,
+  isValidTimezone,
+  getUserTimezone,
+  localDateSql,
+  localDayStartSql,
+  localDateBound,
+  parseLocalDateTime,
+  startOfLocalDay,
+  addDaysToKey,
+  toDateColumnKey,
+  toLocalDateKey,
+  toLocalTimeKey
+} from './utils/timezone.js';
 import { processSummaryIndicators } from './utils/summaryProcessor.js';
 import { analyzeMigraineCorrelations } from './utils/migraineCorrelationAnalyzer.js';
-import { buildRiskAnalysisPrompt, buildDataSummary } from './utils/promptBuilder.js';
+import {
+  buildRiskAnalysisPrompt,
+  buildDataSummary,
+  validatePromptTemplate,
+  DEFAULT_RISK_PROMPT_TEMPLATE,
+  PROMPT_TEMPLATE_VARIABLES,
+  REQUIRED_PROMPT_VARIABLES
+} from './utils/promptBuilder.js';
+import {
+  selectPromptTemplate,
+  createPromptTemplateVersion,
+  transformPromptTemplateForAPI,
+  transformPromptExperimentForAPI,
+  PROMPT_EXPERIMENT_SELECT,
+  BUILTIN_TEMPLATE_VERSION
+} from './utils/promptTemplateManager.js';
+import { getBaselineComparison } from './utils/personalBaseline.js';
+import { calculateLocalRisk, projectDailyRisk } from './utils/localRiskEngine.js';
+import { createLlmProvider } from './utils/llmProviders.js';
+import { parseAIResponse, buildRepairMessage } from './utils/aiResponseParser.js';
+import {
+  evaluateForecasts,
+  evaluatePromptExperiment,
+  FORECAST_HORIZONS,
+  MAX_FORECAST_HORIZON_HOURS,
+  DEFAULT_FORECAST_HORIZON_HOURS
+} from './utils/forecastEvaluator.js';
+import { runBacktest, getPatternsKnownAt, MAX_BACKTEST_DAYS, DEFAULT_FORECAST_HOUR } from './utils/riskBacktester.js';
+import { startJobRunner } from './utils/jobRunner.js';
+import {
+  WEARABLE_IMPORT_JOB,
+  FINISHED_UPLOAD_STATUSES,
+  enqueueWearableImport,
+  processWearableUpload,
+  removeUploadFile
+} from './utils/wearableUploadProcessor.js';
+import { scheduleDueForecasts, RISK_FORECAST_JOB } from './utils/riskForecastScheduler.js';
+import { createNotificationTransports } from './utils/notificationTransports.js';
+import { getNotificationSettings, sendNotification, transformNotificationForAPI } from './utils/notificationService.js';
+import { forEachMigraineEntryBatch, buildCsvHeader, toCsvRow, buildFhirEntries } from './utils/migraineExporter.js';
+import { parseMigraineDiaryCSV, DIARY_PRESETS, DIARY_FIELD_MAPPINGS } from './utils/migraineDiaryParser.js';
+import { calculateMedicationOveruse, MEDICATION_CLASSES } from './utils/medicationOveruseMonitor.js';
+import { runChatTurn, transformChatConversationForAPI, transformChatMessageForAPI } from './utils/chatAssistant.js';
+import {
+  validateScenario,
+  scenarioFromSimulatedMetrics,
+  buildScenarioReadings,
+  transformScenarioForAPI,
+  MAX_COMPARED_SCENARIOS
+} from './utils/scenarioSimulator.js';
+import {
+  TERM_CATEGORIES,
+  TERM_KINDS,
+  normalizeTerm,
+  createTermResolver,
+  resolveTerms,
+  joinTermNames,
+  linkEntryTerms,
+  refreshEntryTermText,
+  syncEntriesWithVocabulary,
+  mergeTerms,
+  getTermStatistics
+} from './utils/vocabularyManager.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+// Times the LLM is re-asked when its response fails schema validation
+const LLM_MAX_REPAIR_ATTEMPTS = parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '1');
+// Scheduled forecasts on the background job runner (set SCHEDULER_ENABLED=false to turn them off;
+// wearable imports always run)
+const SCHEDULER_ENABLED = process.env.SCHEDULER_ENABLED !== 'false';
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS || '60000');
+// Web push and email transports for alerts
+const notificationTransports = createNotificationTransports();
 
 // Middleware
 app.use(cors());
@@ -35,6 +130,25 @@ const upload = multer({
   }
 });
 
+// Wearable uploads accept every format a registered importer reads. Files are streamed to disk
+// (vendor exports can be large) and kept there until the background import has read them
+const WEARABLE_UPLOAD_DIR = process.env.WEARABLE_UPLOAD_DIR || path.join(process.cwd(), 'uploads');
+const WEARABLE_UPLOAD_MAX_MB = parseInt(process.env.WEARABLE_UPLOAD_MAX_MB || '500');
+const wearableUpload = multer({
+  storage: multer.diskStorage({ destination: WEARABLE_UPLOAD_DIR }),
+  limits: {
+    fileSize: WEARABLE_UPLOAD_MAX_MB * 1024 * 1024,
+  },
+  fileFilter: (req, file, cb) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (getSupportedExtensions().includes(extension)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Unsupported file type. Allowed: ${getSupportedExtensions().join(', ')}`), false);
+    }
+  }
+});
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -50,8 +164,8 @@ const MIGRAINE_FIELDS = `
   created_at, updated_at
 `;
 
-// Transform database entry to API format
-const transformEntryForAPI = (dbEntry) => {
+// Transform database entry to API format (date and times in the user's timezone)
+const transformEntryForAPI = (dbEntry, timezone = DEFAULT_TIMEZONE) => {
   if (!dbEntry) return null;
   
   const startTime = new Date(dbEntry.start_time);
@@ -60,9 +174,9 @@ const transformEntryForAPI = (dbEntry) => {
   return {
     id: dbEntry.id,
     userId: dbEntry.user_id,
-    date: startTime.toISOString().split('T')[0], // YYYY-MM-DD
-    startTime: startTime.toISOString().split('T')[1].substring(0, 5), // HH:MM
-    endTime: endTime ? endTime.toISOString().split('T')[1].substring(0, 5) : undefined,
+    date: toLocalDateKey(startTime, timezone), // YYYY-MM-DD
+    startTime: toLocalTimeKey(startTime, timezone), // HH:MM
+    endTime: endTime ? toLocalTimeKey(endTime, timezone) : undefined,
     intensity: dbEntry.intensity,
     location: dbEntry.location || undefined,
     triggers: dbEntry.triggers ? dbEntry.triggers.split(',').map(t => t.trim()).filter(Boolean) : [],
@@ -98,6 +212,103 @@ const transformEntryForAPI = (dbEntry) => {
   };
 };
 
+// Transform medication catalog row to API format
+const transformMedicationForAPI = (row) => ({
+  id: row.id,
+  name: row.name,
+  medicationClass: row.medication_class,
+  defaultDose: row.default_dose || undefined,
+  notes: row.notes || undefined,
+  isActive: row.is_active,
+  isAcute: MEDICATION_CLASSES[row.medication_class]?.acute || false,
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString()
+});
+
+// Transform medication intake row (joined with medications) to API format
+const transformIntakeForAPI = (row) => ({
+  id: row.id,
+  migraineEntryId: row.migraine_entry_id,
+  medicationId: row.medication_id,
+  medicationName: row.medication_name,
+  medicationClass: row.medication_class,
+  takenAt: new Date(row.taken_at).toISOString(),
+  dose: row.dose || undefined,
+  relief2h: row.relief_2h !== null ? row.relief_2h : undefined,
+  notes: row.notes || undefined,
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString()
+});
+
+// Transform vocabulary term row to API format
+const transformTermForAPI = (row) => ({
+  id: row.id,
+  kind: row.kind,
+  name: row.name,
+  category: row.category,
+  aliases: row.aliases || [],
+  usageCount: row.usage_count !== undefined ? parseInt(row.usage_count) : undefined,
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString()
+});
+
+// Transform daily check-in row to API format
+const transformCheckinForAPI = (row) => {
+  const numeric = (value) => (value !== null && value !== undefined ? parseFloat(value) : undefined);
+  return {
+    id: row.id,
+    date: toDateColumnKey(row.date),
+    hadHeadache: row.had_headache,
+    sleepHours: numeric(row.sleep_hours),
+    caffeineServings: numeric(row.caffeine_servings),
+    alcoholUnits: numeric(row.alcohol_units),
+    menstruation: row.menstruation !== null ? row.menstruation : undefined,
+    skippedMeals: row.skipped_meals !== null ? row.skipped_meals : undefined,
+    mood: numeric(row.mood),
+    waterLiters: numeric(row.water_liters),
+    screenTimeHours: numeric(row.screen_time_hours),
+    notes: row.notes || undefined,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+};
+
+// Transform wearable mapping template row to API format
+const transformMappingTemplateForAPI = (row) => ({
+  id: row.id,
+  name: row.name,
+  format: row.import_format,
+  mapping: row.mapping || {},
+  units: row.units || {},
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString()
+});
+
+// Transform database risk assessment to API format (analysis is only included when requested)
+const transformRiskAssessmentForAPI = (row, includeAnalysis = false) => ({
+  id: row.id,
+  windowStart: new Date(row.window_start).toISOString(),
+  windowEnd: new Date(row.window_end).toISOString(),
+  lookbackHours: row.lookback_hours,
+  horizonHours: row.horizon_hours,
+  engine: row.engine,
+  provider: row.provider,
+  model: row.model || undefined,
+  promptHash: row.prompt_hash || undefined,
+  promptTemplateVersion: row.prompt_template_version || undefined,
+  promptExperimentId: row.prompt_experiment_id || undefined,
+  promptVariant: row.prompt_variant || undefined,
+  riskLevel: row.risk_level !== null ? row.risk_level : undefined,
+  riskCategory: row.risk_category || undefined,
+  confidenceLevel: row.confidence_level || undefined,
+  isSimulated: row.is_simulated,
+  simulatedData: row.simulated_data || undefined,
+  scenarioId: row.scenario_id || undefined,
+  source: row.source,
+  ...(includeAnalysis ? { analysis: row.analysis } : {}),
+  createdAt: new Date(row.created_at).toISOString()
+});
+
 // Generate JWT token
 const generateToken = (userId) => {
   return jwt.sign({ userId }, JWT_SECRET, { expiresIn: '7d' });
@@ -320,7 +531,7 @@ app.get('/api/profile', authenticate, async (req, res) => {
               experiences_dysphasia, experiences_dysarthria, experiences_vertigo,
               experiences_tinnitus, experiences_hypoacusis, experiences_diplopia,
               experiences_defect, experiences_ataxia, experiences_conscience, experiences_paresthesia,
-              family_history, diagnosed_type, created_at, updated_at
+              family_history, diagnosed_type, timezone, created_at, updated_at
        FROM user_profiles
        WHERE user_id = $1`,
       [req.userId]
@@ -331,7 +542,8 @@ app.get('/api/profile', authenticate, async (req, res) => {
       return res.json({
         success: true,
         data: {
-          userId: req.userId
+          userId: req.userId,
+          timezone: DEFAULT_TIMEZONE
         }
       });
     }
@@ -365,6 +577,7 @@ app.get('/api/profile', authenticate, async (req, res) => {
         experiencesParesthesia: profile.experiences_paresthesia,
         familyHistory: profile.family_history,
         diagnosedType: profile.diagnosed_type,
+        timezone: profile.timezone,
         createdAt: profile.created_at,
         updatedAt: profile.updated_at
       }
@@ -404,10 +617,19 @@ app.post('/api/profile', authenticate, async (req, res) => {
       experiencesConscience,
       experiencesParesthesia,
       familyHistory,
-      diagnosedType
+      diagnosedType,
+      timezone
     } = req.body;
 
-    // Upsert profile
+    if (timezone !== undefined && timezone !== null && !isValidTimezone(timezone)) {
+      return res.status(400).json({
+        success: false,
+        message: 'timezone must be an IANA timezone such as Europe/Berlin'
+      });
+    }
+    const previousTimezone = await getUserTimezone(req.userId);
+
+    // Upsert profile (the timezone is kept when not sent)
     const result = await query(
       `INSERT INTO user_profiles (
          user_id, typical_duration, monthly_frequency,
@@ -417,8 +639,8 @@ app.post('/api/profile', authenticate, async (req, res) => {
          experiences_dysphasia, experiences_dysarthria, experiences_vertigo,
          experiences_tinnitus, experiences_hypoacusis, experiences_diplopia,
          experiences_defect, experiences_ataxia, experiences_conscience, experiences_paresthesia,
-         family_history, diagnosed_type
-       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
+         family_history, diagnosed_type, timezone
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, COALESCE($25, 'UTC'))
        ON CONFLICT (user_id) DO UPDATE SET
          typical_duration = EXCLUDED.typical_duration,
          monthly_frequency = EXCLUDED.monthly_frequency,
@@ -443,6 +665,7 @@ app.post('/api/profile', authenticate, async (req, res) => {
          experiences_paresthesia = EXCLUDED.experiences_paresthesia,
          family_history = EXCLUDED.family_history,
          diagnosed_type = EXCLUDED.diagnosed_type,
+         timezone = COALESCE($25, user_profiles.timezone),
          updated_at = CURRENT_TIMESTAMP
        RETURNING *`,
       [
@@ -469,12 +692,28 @@ app.post('/api/profile', authenticate, async (req, res) => {
         experiencesConscience !== undefined ? experiencesConscience : null,
         experiencesParesthesia !== undefined ? experiencesParesthesia : null,
         familyHistory !== undefined ? familyHistory : null,
-        diagnosedType || null
+        diagnosedType || null,
+        timezone || null
       ]
     );
 
     const profile = result.rows[0];
 
+    // Summaries cover local days; rebuild the ones computed in the previous timezone
+    if (profile.timezone !== previousTimezone) {
+      const deleted = await query(
+        `DELETE FROM summary_indicators WHERE user_id = $1 RETURNING period_start`,
+        [req.userId]
+      );
+      if (deleted.rows.length > 0) {
+        const since = deleted.rows.reduce(
+          (earliest, row) => (row.period_start < earliest ? row.period_start : earliest),
+          deleted.rows[0].period_start
+        );
+        await processSummaryIndicators(req.userId, true, since);
+      }
+    }
+
     res.json({
       success: true,
       data: {
@@ -502,6 +741,7 @@ app.post('/api/profile', authenticate, async (req, res) => {
         experiencesParesthesia: profile.experiences_paresthesia,
         familyHistory: profile.family_history,
         diagnosedType: profile.diagnosed_type,
+        timezone: profile.timezone,
         createdAt: profile.created_at,
         updatedAt: profile.updated_at
       }
@@ -534,12 +774,14 @@ app.get('/api/migraine/statistics', authenticate, async (req, res) => {
 
     const { migraine_entries, average_intensity } = migraineStatsResult.rows[0];
 
-    // Get count of unique days with wearable data
+    const timezone = await getUserTimezone(req.userId);
+
+    // Get count of unique local days with wearable data
     const wearableStatsResult = await query(
-      `SELECT COUNT(DISTINCT DATE(timestamp)) as wearable_days
+      `SELECT COUNT(DISTINCT ${localDateSql('timestamp', '$2')}) as wearable_days
        FROM wearable_data
        WHERE user_id = $1`,
-      [req.userId]
+      [req.userId, timezone]
     );
 
     const { wearable_days } = wearableStatsResult.rows[0];
@@ -562,6 +804,9 @@ app.get('/api/migraine/statistics', authenticate, async (req, res) => {
       console.log(`[Dashboard Stats] Top pattern:`, correlationResult.rows[0]);
     }
 
+    // Trigger counts per canonical term and per category
+    const triggerStats = await getTermStatistics(req.userId, 'trigger');
+
     let topTrigger = { trigger: 'None', count: 0, correlationStrength: null };
     if (correlationResult.rows.length > 0) {
       const pattern = correlationResult.rows[0];
@@ -575,57 +820,48 @@ app.get('/api/migraine/statistics', authenticate, async (req, res) => {
     } else {
       console.log(`[Dashboard Stats] No correlation patterns found, falling back to frequency-based triggers`);
       // Fallback to traditional frequency-based triggers if no correlations found
-    const triggersResult = await query(
-      `SELECT triggers
-       FROM migraine_entries
-       WHERE user_id = $1 AND triggers IS NOT NULL AND triggers != ''`,
-      [req.userId]
-    );
-
-    const triggerCounts = {};
-    triggersResult.rows.forEach(row => {
-      if (row.triggers) {
-        row.triggers.split(',').forEach(trigger => {
-          const trimmed = trigger.trim();
-          if (trimmed) {
-            triggerCounts[trimmed] = (triggerCounts[trimmed] || 0) + 1;
-          }
-        });
+      // Counted by canonical vocabulary term, so spelling variants and aliases add up
+      if (triggerStats.terms.length > 0) {
+        topTrigger = {
+          trigger: triggerStats.terms[0].name,
+          count: triggerStats.terms[0].count,
+          category: triggerStats.terms[0].category
+        };
       }
-    });
+    }
 
-      const topTriggersByFreq = Object.entries(triggerCounts)
-      .map(([trigger, count]) => ({ trigger, count }))
-        .sort((a, b) => b.count - a.count);
-      
-      if (topTriggersByFreq.length > 0) {
-        topTrigger = topTriggersByFreq[0];
-      }
+    // Last 6 calendar months of the user's timezone as 'YYYY-MM', oldest first
+    const [currentYear, currentMonth] = toLocalDateKey(new Date(), timezone).split('-').map(Number);
+    const monthKeys = [];
+    for (let i = 5; i >= 0; i--) {
+      const date = new Date(Date.UTC(currentYear, currentMonth - 1 - i, 1));
+      monthKeys.push(date.toISOString().substring(0, 7));
     }
+    const firstDay = `${monthKeys[0]}-01`;
 
     // Get monthly frequency (last 6 months) including both migraine entries and marked migraine days
     const monthlyMigraineResult = await query(
       `SELECT 
-         TO_CHAR(start_time, 'Mon YYYY') as month,
+         TO_CHAR(start_time AT TIME ZONE $3, 'YYYY-MM') as month,
          COUNT(*) as count
        FROM migraine_entries
        WHERE user_id = $1
-         AND start_time >= NOW() - INTERVAL '6 months'
-       GROUP BY TO_CHAR(start_time, 'YYYY-MM'), TO_CHAR(start_time, 'Mon YYYY')`,
-      [req.userId]
+         AND start_time >= $2
+       GROUP BY TO_CHAR(start_time AT TIME ZONE $3, 'YYYY-MM')`,
+      [req.userId, startOfLocalDay(firstDay, timezone), timezone]
     );
 
     // Get marked migraine days from calendar
     const monthlyMarkedDaysResult = await query(
       `SELECT 
-         TO_CHAR(date, 'Mon YYYY') as month,
+         TO_CHAR(date, 'YYYY-MM') as month,
          COUNT(*) as count
        FROM migraine_day_markers
        WHERE user_id = $1
          AND is_migraine_day = true
-         AND date >= CURRENT_DATE - INTERVAL '6 months'
-       GROUP BY TO_CHAR(date, 'YYYY-MM'), TO_CHAR(date, 'Mon YYYY')`,
-      [req.userId]
+         AND date >= $2
+       GROUP BY TO_CHAR(date, 'YYYY-MM')`,
+      [req.userId, firstDay]
     );
 
     // Combine and deduplicate monthly counts
@@ -642,18 +878,11 @@ app.get('/api/migraine/statistics', authenticate, async (req, res) => {
       monthMap.set(row.month, Math.max(existing, parseInt(row.count)));
     });
 
-    // Fill in missing months with zero counts
-    const monthlyFrequency = [];
-    const now = new Date();
-
-    for (let i = 5; i >= 0; i--) {
-      const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-      const monthStr = date.toLocaleString('default', { month: 'short', year: 'numeric' });
-      monthlyFrequency.push({
-        month: monthStr,
-        count: monthMap.get(monthStr) || 0
-      });
-    }
+    // Fill in missing months with zero counts, labelled like 'Mar 2024'
+    const monthlyFrequency = monthKeys.map(monthKey => ({
+      month: new Date(`${monthKey}-01T00:00:00Z`).toLocaleString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+      count: monthMap.get(monthKey) || 0
+    }));
 
     res.json({
       success: true,
@@ -662,8 +891,11 @@ app.get('/api/migraine/statistics', authenticate, async (req, res) => {
         migraineEntries: parseInt(migraine_entries),
         wearableDays: parseInt(wearable_days || 0),
         averageIntensity: Math.round(parseFloat(average_intensity) * 10) / 10,
-        mostCommonTriggers: [topTrigger],
+        mostCommonTriggers: triggerStats.terms.length > 0
+          ? triggerStats.terms.slice(0, 5).map(term => ({ trigger: term.name, count: term.count, category: term.category }))
+          : [topTrigger],
         topTrigger: topTrigger,
+        triggerCategories: triggerStats.categories,
         frequencyByMonth: monthlyFrequency,
         intensityTrend: [] // Not implemented yet but expected by frontend
       }
@@ -691,7 +923,8 @@ app.get('/api/migraine/recent', authenticate, async (req, res) => {
       [req.userId, limit]
     );
 
-    const entries = result.rows.map(row => transformEntryForAPI(row));
+    const timezone = await getUserTimezone(req.userId);
+    const entries = result.rows.map(row => transformEntryForAPI(row, timezone));
 
     res.json({
       success: true,
@@ -744,7 +977,8 @@ app.get('/api/migraine', authenticate, async (req, res) => {
 
     const result = await query(queryText, queryParams);
 
-    const entries = result.rows.map(row => transformEntryForAPI(row));
+    const timezone = await getUserTimezone(req.userId);
+    const entries = result.rows.map(row => transformEntryForAPI(row, timezone));
 
     res.json({
       success: true,
@@ -767,365 +1001,348 @@ app.get('/api/migraine', authenticate, async (req, res) => {
   }
 });
 
-// Get single migraine entry
-app.get('/api/migraine/:id', authenticate, async (req, res) => {
+// Search migraine entries with structured filters
+app.get('/api/migraine/search', authenticate, async (req, res) => {
   try {
-    const result = await query(
-      `SELECT ${MIGRAINE_FIELDS}
-       FROM migraine_entries
-       WHERE id = $1`,
-      [req.params.id]
-    );
+    const {
+      query: searchText,
+      startDate,
+      endDate,
+      minIntensity,
+      maxIntensity,
+      aura,
+      nausea,
+      photophobia,
+      migraineType,
+      limit = '200'
+    } = req.query;
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({
+    // triggers may be sent once or repeated (?triggers=a&triggers=b)
+    const triggers = req.query.triggers === undefined
+      ? []
+      : (Array.isArray(req.query.triggers) ? req.query.triggers : [req.query.triggers]).filter(Boolean);
+
+    const isValidDate = (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+    if ((startDate && !isValidDate(startDate)) || (endDate && !isValidDate(endDate))) {
+      return res.status(400).json({
         success: false,
-        message: 'Migraine entry not found'
+        message: 'startDate and endDate must be in YYYY-MM-DD format'
       });
     }
 
-    const entry = result.rows[0];
+    const minIntensityNum = minIntensity !== undefined && minIntensity !== '' ? parseInt(minIntensity) : null;
+    const maxIntensityNum = maxIntensity !== undefined && maxIntensity !== '' ? parseInt(maxIntensity) : null;
 
-    // Check if entry belongs to user
-    if (entry.user_id !== req.userId) {
-      return res.status(403).json({
+    if ((minIntensityNum !== null && isNaN(minIntensityNum)) || (maxIntensityNum !== null && isNaN(maxIntensityNum))) {
+      return res.status(400).json({
         success: false,
-        message: 'Access denied'
+        message: 'minIntensity and maxIntensity must be numbers'
       });
     }
 
+    // Boolean filters accept true/false (or 1/0); anything else is ignored
+    const parseBooleanFilter = (value) => {
+      if (value === 'true' || value === '1') return true;
+      if (value === 'false' || value === '0') return false;
+      return null;
+    };
+
+    let queryText = `
+      SELECT ${MIGRAINE_FIELDS}
+      FROM migraine_entries
+      WHERE user_id = $1
+    `;
+    const queryParams = [req.userId];
+
+    // Free text across notes, medication, triggers and symptoms
+    if (searchText && searchText.trim()) {
+      queryText += ` AND (
+        notes ILIKE $${queryParams.length + 1} OR
+        medication ILIKE $${queryParams.length + 1} OR
+        triggers ILIKE $${queryParams.length + 1} OR
+        symptoms ILIKE $${queryParams.length + 1}
+      )`;
+      queryParams.push(`%${searchText.trim()}%`);
+    }
+
+    // Date window (inclusive, by local start date)
+    const timezone = await getUserTimezone(req.userId);
+    if (startDate) {
+      queryText += ` AND start_time >= ${localDayStartSql(`$${queryParams.length + 1}`, `$${queryParams.length + 2}`)}`;
+      queryParams.push(startDate, timezone);
+    }
+    if (endDate) {
+      queryText += ` AND start_time < ${localDayStartSql(`($${queryParams.length + 1}::date + 1)`, `$${queryParams.length + 2}`)}`;
+      queryParams.push(endDate, timezone);
+    }
+
+    // Intensity bounds
+    if (minIntensityNum !== null) {
+      queryText += ` AND intensity >= $${queryParams.length + 1}`;
+      queryParams.push(minIntensityNum);
+    }
+    if (maxIntensityNum !== null) {
+      queryText += ` AND intensity <= $${queryParams.length + 1}`;
+      queryParams.push(maxIntensityNum);
+    }
+
+    // Every requested trigger must be present - matched as text, or through the
+    // vocabulary by canonical name, alias or category
+    triggers.forEach(trigger => {
+      queryText += ` AND (
+        triggers ILIKE $${queryParams.length + 1} OR
+        EXISTS (
+          SELECT 1 FROM migraine_entry_terms et
+          JOIN vocabulary_terms t ON t.id = et.term_id
+          WHERE et.migraine_entry_id = migraine_entries.id
+            AND t.kind = 'trigger'
+            AND (LOWER(t.name) = $${queryParams.length + 2} OR $${queryParams.length + 2} = ANY(t.aliases) OR t.category = $${queryParams.length + 2})
+        )
+      )`;
+      queryParams.push(`%${trigger}%`, normalizeTerm(trigger));
+    });
+
+    // Clinical fields - aura means any visual or sensory aura symptom
+    const auraFilter = parseBooleanFilter(aura);
+    if (auraFilter === true) {
+      queryText += ` AND (COALESCE(visual, 0) > 0 OR COALESCE(sensory, 0) > 0)`;
+    } else if (auraFilter === false) {
+      queryText += ` AND COALESCE(visual, 0) = 0 AND COALESCE(sensory, 0) = 0`;
+    }
+
+    const nauseaFilter = parseBooleanFilter(nausea);
+    if (nauseaFilter !== null) {
+      queryText += ` AND COALESCE(nausea, 0) = $${queryParams.length + 1}`;
+      queryParams.push(nauseaFilter ? 1 : 0);
+    }
+
+    const photophobiaFilter = parseBooleanFilter(photophobia);
+    if (photophobiaFilter !== null) {
+      queryText += ` AND COALESCE(photophobia, 0) = $${queryParams.length + 1}`;
+      queryParams.push(photophobiaFilter ? 1 : 0);
+    }
+
+    if (migraineType) {
+      queryText += ` AND migraine_type = $${queryParams.length + 1}`;
+      queryParams.push(migraineType);
+    }
+
+    const limitNum = Math.min(Math.max(parseInt(limit) || 200, 1), 1000);
+    queryText += ` ORDER BY start_time DESC LIMIT $${queryParams.length + 1}`;
+    queryParams.push(limitNum);
+
+    const result = await query(queryText, queryParams);
+
+    const entries = result.rows.map(row => transformEntryForAPI(row, timezone));
+
     res.json({
       success: true,
-      data: transformEntryForAPI(entry)
+      data: entries
     });
   } catch (error) {
-    console.error('Get entry error:', error);
+    console.error('Search entries error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error fetching entry'
+      message: 'Error searching entries'
     });
   }
 });
 
-// Create new migraine entry
-app.post('/api/migraine', authenticate, async (req, res) => {
-  try {
-    const {
-      date,
-      startTime,
-      endTime,
-      intensity,
-      location,
-      triggers,
-      symptoms,
-      medication,
-      notes,
-      // Clinical assessment fields
-      duration,
-      frequency,
-      painLocation,
-      painCharacter,
-      painIntensity,
-      nausea,
-      vomit,
-      phonophobia,
-      photophobia,
-      visual,
-      sensory,
-      dysphasia,
-      dysarthria,
-      vertigo,
-      tinnitus,
-      hypoacusis,
-      diplopia,
-      defect,
-      ataxia,
-      conscience,
-      paresthesia,
-      dpf,
-      migraineType
-    } = req.body;
+// Export migraine entries (streamed as CSV, JSON or a FHIR R4 Bundle)
+app.get('/api/migraine/export', authenticate, async (req, res) => {
+  const { format = 'csv', startDate, endDate } = req.query;
 
-    // Validation
-    if (!date || !startTime || !intensity) {
-      return res.status(400).json({
-        success: false,
-        message: 'Date, start time, and intensity are required'
-      });
-    }
+  if (!['csv', 'json', 'fhir'].includes(format)) {
+    return res.status(400).json({
+      success: false,
+      message: 'format must be one of: csv, json, fhir'
+    });
+  }
 
-    // Combine date and time into ISO timestamp
-    const startDateTime = `${date}T${startTime}:00`;
-    const endDateTime = endTime ? `${date}T${endTime}:00` : null;
+  const isValidDate = (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
 
-    // Convert arrays to comma-separated strings
-    const triggersStr = Array.isArray(triggers) ? triggers.join(', ') : (triggers || '');
-    const symptomsStr = Array.isArray(symptoms) ? symptoms.join(', ') : (symptoms || '');
+  if ((startDate && !isValidDate(startDate)) || (endDate && !isValidDate(endDate))) {
+    return res.status(400).json({
+      success: false,
+      message: 'startDate and endDate must be in YYYY-MM-DD format'
+    });
+  }
 
-    const result = await query(
-      `INSERT INTO migraine_entries 
-       (user_id, start_time, end_time, intensity, location, triggers, symptoms, medication, notes,
-        duration, frequency, pain_location, pain_character, pain_intensity,
-        nausea, vomit, phonophobia, photophobia, visual, sensory,
-        dysphasia, dysarthria, vertigo, tinnitus, hypoacusis, diplopia,
-        defect, ataxia, conscience, paresthesia, dpf, migraine_type)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32)
-       RETURNING ${MIGRAINE_FIELDS}`,
-      [
-        req.userId,
-        startDateTime,
-        endDateTime,
-        parseInt(intensity),
-        location || '',
-        triggersStr,
-        symptomsStr,
-        medication || '',
-        notes || '',
-        duration !== undefined ? duration : null,
-        frequency !== undefined ? frequency : null,
-        painLocation !== undefined ? painLocation : null,
-        painCharacter !== undefined ? painCharacter : null,
-        painIntensity !== undefined ? painIntensity : null,
-        nausea !== undefined ? nausea : null,
-        vomit !== undefined ? vomit : null,
-        phonophobia !== undefined ? phonophobia : null,
-        photophobia !== undefined ? photophobia : null,
-        visual !== undefined ? visual : null,
-        sensory !== undefined ? sensory : null,
-        dysphasia !== undefined ? dysphasia : null,
-        dysarthria !== undefined ? dysarthria : null,
-        vertigo !== undefined ? vertigo : null,
-        tinnitus !== undefined ? tinnitus : null,
-        hypoacusis !== undefined ? hypoacusis : null,
-        diplopia !== undefined ? diplopia : null,
-        defect !== undefined ? defect : null,
-        ataxia !== undefined ? ataxia : null,
-        conscience !== undefined ? conscience : null,
-        paresthesia !== undefined ? paresthesia : null,
-        dpf !== undefined ? dpf : null,
-        migraineType || null
-      ]
-    );
+  const exportedAt = new Date().toISOString();
+  const filename = `migraine-entries-${exportedAt.split('T')[0]}.${format === 'csv' ? 'csv' : 'json'}`;
+  let isFirstItem = true;
 
-    const entry = result.rows[0];
+  try {
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    } else {
+      res.setHeader('Content-Type', format === 'fhir' ? 'application/fhir+json; charset=utf-8' : 'application/json; charset=utf-8');
+    }
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
 
-    res.status(201).json({
-      success: true,
-      data: transformEntryForAPI(entry)
+    // Opening part of the document
+    if (format === 'csv') {
+      res.write(buildCsvHeader());
+    } else if (format === 'json') {
+      res.write(`{"exportedAt":${JSON.stringify(exportedAt)},"startDate":${JSON.stringify(startDate || null)},"endDate":${JSON.stringify(endDate || null)},"entries":[`);
+    } else {
+      res.write(`{"resourceType":"Bundle","type":"collection","timestamp":${JSON.stringify(exportedAt)},"entry":[`);
+    }
+
+    const timezone = await getUserTimezone(req.userId);
+    await forEachMigraineEntryBatch(req.userId, { startDate, endDate, timezone }, async (rows) => {
+      let chunk = '';
+      rows.forEach(row => {
+        if (format === 'csv') {
+          chunk += toCsvRow(row);
+          return;
+        }
+        const items = format === 'json'
+          ? [transformEntryForAPI(row, timezone)]
+          : buildFhirEntries(row, req.userId);
+        items.forEach(item => {
+          chunk += `${isFirstItem ? '' : ','}${JSON.stringify(item)}`;
+          isFirstItem = false;
+        });
+      });
+      res.write(chunk);
     });
+
+    // Closing part of the document
+    if (format !== 'csv') {
+      res.write(']}');
+    }
+    res.end();
   } catch (error) {
-    console.error('Create entry error:', error);
+    console.error('Export entries error:', error);
+    // Once streaming has started the status can no longer change; just cut the response
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
     res.status(500).json({
       success: false,
-      message: 'Error creating entry'
+      message: 'Error exporting entries'
     });
   }
 });
 
-// Update migraine entry
-app.put('/api/migraine/:id', authenticate, async (req, res) => {
-  try {
-    // First, check if entry exists and belongs to user
-    const checkResult = await query(
-      'SELECT user_id FROM migraine_entries WHERE id = $1',
-      [req.params.id]
-    );
+// Read preset, column mapping and intensity scale from a multipart import request
+const parseImportOptions = (body) => {
+  const preset = body.preset && DIARY_PRESETS[body.preset] ? body.preset : 'generic';
+  let mapping = {};
+  if (body.mapping) {
+    try {
+      mapping = typeof body.mapping === 'string' ? JSON.parse(body.mapping) : body.mapping;
+    } catch (error) {
+      throw new Error('mapping must be a JSON object of column -> field');
+    }
+  }
+  const intensityScale = body.intensityScale ? parseInt(body.intensityScale) : undefined;
+  if (intensityScale !== undefined && ![5, 10].includes(intensityScale)) {
+    throw new Error('intensityScale must be 5 or 10');
+  }
+  return { preset, mapping, intensityScale };
+};
 
-    if (checkResult.rows.length === 0) {
-      return res.status(404).json({
-        success: false,
-        message: 'Migraine entry not found'
-      });
+// Get available import presets and mappable fields
+app.get('/api/migraine/import/presets', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      presets: Object.entries(DIARY_PRESETS).map(([id, preset]) => ({
+        id,
+        label: preset.label,
+        description: preset.description,
+        intensityScale: preset.intensityScale
+      })),
+      fields: Object.keys(DIARY_FIELD_MAPPINGS)
     }
+  });
+});
 
-    if (checkResult.rows[0].user_id !== req.userId) {
-      return res.status(403).json({
+// Preview a diary import (parse + validate, nothing is written)
+app.post('/api/migraine/import/preview', authenticate, upload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
         success: false,
-        message: 'Access denied'
+        message: 'No file uploaded. Please select a CSV file.'
       });
     }
 
-    const {
-      date,
-      startTime,
-      endTime,
-      intensity,
-      location,
-      triggers,
-      symptoms,
-      medication,
-      notes,
-      // Clinical fields
-      duration,
-      frequency,
-      painLocation,
-      painCharacter,
-      painIntensity,
-      nausea,
-      vomit,
-      phonophobia,
-      photophobia,
-      visual,
-      sensory,
-      dysphasia,
-      dysarthria,
-      vertigo,
-      tinnitus,
-      hypoacusis,
-      diplopia,
-      defect,
-      ataxia,
-      conscience,
-      paresthesia,
-      dpf,
-      migraineType
-    } = req.body;
-
-    // Prepare update values
-    let startDateTime = null;
-    let endDateTime = null;
-    
-    if (date && startTime) {
-      startDateTime = `${date}T${startTime}:00`;
-    }
-    if (date && endTime) {
-      endDateTime = `${date}T${endTime}:00`;
-    }
-
-    // Convert arrays to comma-separated strings if provided
-    const triggersStr = triggers ? (Array.isArray(triggers) ? triggers.join(', ') : triggers) : null;
-    const symptomsStr = symptoms ? (Array.isArray(symptoms) ? symptoms.join(', ') : symptoms) : null;
-
-    const result = await query(
-      `UPDATE migraine_entries
-       SET start_time = COALESCE($1, start_time),
-           end_time = COALESCE($2, end_time),
-           intensity = COALESCE($3, intensity),
-           location = COALESCE($4, location),
-           triggers = COALESCE($5, triggers),
-           symptoms = COALESCE($6, symptoms),
-           medication = COALESCE($7, medication),
-           notes = COALESCE($8, notes),
-           duration = COALESCE($9, duration),
-           frequency = COALESCE($10, frequency),
-           pain_location = COALESCE($11, pain_location),
-           pain_character = COALESCE($12, pain_character),
-           pain_intensity = COALESCE($13, pain_intensity),
-           nausea = COALESCE($14, nausea),
-           vomit = COALESCE($15, vomit),
-           phonophobia = COALESCE($16, phonophobia),
-           photophobia = COALESCE($17, photophobia),
-           visual = COALESCE($18, visual),
-           sensory = COALESCE($19, sensory),
-           dysphasia = COALESCE($20, dysphasia),
-           dysarthria = COALESCE($21, dysarthria),
-           vertigo = COALESCE($22, vertigo),
-           tinnitus = COALESCE($23, tinnitus),
-           hypoacusis = COALESCE($24, hypoacusis),
-           diplopia = COALESCE($25, diplopia),
-           defect = COALESCE($26, defect),
-           ataxia = COALESCE($27, ataxia),
-           conscience = COALESCE($28, conscience),
-           paresthesia = COALESCE($29, paresthesia),
-           dpf = COALESCE($30, dpf),
-           migraine_type = COALESCE($31, migraine_type)
-       WHERE id = $32
-       RETURNING ${MIGRAINE_FIELDS}`,
-      [
-        startDateTime,
-        endDateTime,
-        intensity ? parseInt(intensity) : null,
-        location,
-        triggersStr,
-        symptomsStr,
-        medication,
-        notes,
-        duration !== undefined ? duration : null,
-        frequency !== undefined ? frequency : null,
-        painLocation !== undefined ? painLocation : null,
-        painCharacter !== undefined ? painCharacter : null,
-        painIntensity !== undefined ? painIntensity : null,
-        nausea !== undefined ? nausea : null,
-        vomit !== undefined ? vomit : null,
-        phonophobia !== undefined ? phonophobia : null,
-        photophobia !== undefined ? photophobia : null,
-        visual !== undefined ? visual : null,
-        sensory !== undefined ? sensory : null,
-        dysphasia !== undefined ? dysphasia : null,
-        dysarthria !== undefined ? dysarthria : null,
-        vertigo !== undefined ? vertigo : null,
-        tinnitus !== undefined ? tinnitus : null,
-        hypoacusis !== undefined ? hypoacusis : null,
-        diplopia !== undefined ? diplopia : null,
-        defect !== undefined ? defect : null,
-        ataxia !== undefined ? ataxia : null,
-        conscience !== undefined ? conscience : null,
-        paresthesia !== undefined ? paresthesia : null,
-        dpf !== undefined ? dpf : null,
-        migraineType || null,
-        req.params.id
-      ]
-    );
-
-    const entry = result.rows[0];
-
-    res.json({
-      success: true,
-      data: transformEntryForAPI(entry)
-    });
-  } catch (error) {
-    console.error('Update entry error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error updating entry'
-    });
-  }
-});
-
-// Delete migraine entry
-app.delete('/api/migraine/:id', authenticate, async (req, res) => {
-  try {
-    // First, check if entry exists and belongs to user
-    const checkResult = await query(
-      'SELECT user_id FROM migraine_entries WHERE id = $1',
-      [req.params.id]
-    );
-
-    if (checkResult.rows.length === 0) {
-      return res.status(404).json({
+    let options;
+    try {
+      options = parseImportOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({
         success: false,
-        message: 'Migraine entry not found'
+        message: error.message
       });
     }
 
-    if (checkResult.rows[0].user_id !== req.userId) {
-      return res.status(403).json({
+    let parsed;
+    try {
+      parsed = await parseMigraineDiaryCSV(req.file.buffer, {
+        ...options,
+        timezone: await getUserTimezone(req.userId)
+      });
+    } catch (error) {
+      console.error('Diary CSV parsing error:', error);
+      return res.status(400).json({
         success: false,
-        message: 'Access denied'
+        message: 'Failed to parse CSV file. Please check the file format.',
+        error: error.message
       });
     }
 
-    await query('DELETE FROM migraine_entries WHERE id = $1', [req.params.id]);
+    const invalidRows = parsed.rows.filter(row => row.errors.length > 0);
 
     res.json({
       success: true,
-      message: 'Entry deleted successfully'
+      data: {
+        preset: options.preset,
+        intensityScale: parsed.intensityScale,
+        headers: parsed.headers,
+        mapping: parsed.mapping,
+        unmappedColumns: parsed.unmappedColumns,
+        totalRows: parsed.rows.length,
+        validRows: parsed.rows.length - invalidRows.length,
+        invalidRows: invalidRows.length,
+        // First rows for the preview table, plus every invalid row (capped)
+        rows: parsed.rows.slice(0, 50).map(row => ({
+          rowNumber: row.rowNumber,
+          entry: {
+            startTime: row.entry.start_time ? row.entry.start_time.toISOString() : null,
+            endTime: row.entry.end_time ? row.entry.end_time.toISOString() : null,
+            intensity: row.entry.intensity,
+            location: row.entry.location || undefined,
+            triggers: row.entry.triggers || undefined,
+            symptoms: row.entry.symptoms || undefined,
+            medication: row.entry.medication || undefined,
+            notes: row.entry.notes || undefined
+          },
+          errors: row.errors
+        })),
+        errors: invalidRows.slice(0, 200).map(row => ({
+          rowNumber: row.rowNumber,
+          errors: row.errors
+        }))
+      }
     });
   } catch (error) {
-    console.error('Delete entry error:', error);
+    console.error('Import preview error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error deleting entry'
+      message: 'Error previewing import'
     });
   }
 });
 
-// ============================================
-// WEARABLE DATA ROUTES
-// ============================================
-
-// Upload CSV file with wearable data
-app.post('/api/wearable/upload', authenticate, upload.single('file'), async (req, res) => {
+// Import diary entries from CSV (valid rows only, recorded as one import session)
+app.post('/api/migraine/import', authenticate, upload.single('file'), async (req, res) => {
+  let client;
   try {
     if (!req.file) {
       return res.status(400).json({
@@ -1134,18 +1351,24 @@ app.post('/api/wearable/upload', authenticate, upload.single('file'), async (req
       });
     }
 
-    // Parse CSV file
-    let parsedData;
+    let options;
     try {
-      parsedData = await parseWearableCSV(req.file.buffer);
-      console.log(`📊 CSV parsed: ${parsedData.data.length} rows`);
-      
-      // Log sample of timestamps to verify hourly data
-      if (parsedData.data.length > 0) {
-        console.log('Sample timestamps:', parsedData.data.slice(0, 5).map(r => r.timestamp?.toISOString()).filter(Boolean));
-      }
+      options = parseImportOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    let parsed;
+    try {
+      parsed = await parseMigraineDiaryCSV(req.file.buffer, {
+        ...options,
+        timezone: await getUserTimezone(req.userId)
+      });
     } catch (error) {
-      console.error('CSV parsing error:', error);
+      console.error('Diary CSV parsing error:', error);
       return res.status(400).json({
         success: false,
         message: 'Failed to parse CSV file. Please check the file format.',
@@ -1153,1475 +1376,5353 @@ app.post('/api/wearable/upload', authenticate, upload.single('file'), async (req
       });
     }
 
-    if (!parsedData.data || parsedData.data.length === 0) {
+    if (parsed.rows.length === 0) {
       return res.status(400).json({
         success: false,
-        message: 'No valid data found in CSV file. Please check that the file contains timestamp and metric data.'
+        message: 'No rows found in CSV file.'
       });
     }
 
-    // Detect source device
-    const source = detectSource(
-      Object.keys(parsedData.fieldMapping),
-      req.file.originalname
-    );
+    const validRows = parsed.rows.filter(row => row.errors.length === 0);
+    const invalidRows = parsed.rows.filter(row => row.errors.length > 0);
 
-    // Create upload session
-    const sessionResult = await query(
-      `INSERT INTO upload_sessions 
-       (user_id, filename, file_size, source, total_rows, field_mapping, unrecognized_fields, status)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, 'processing')
+    // All inserts happen in one transaction so a failed import leaves nothing behind
+    client = await getClient();
+    await client.query('BEGIN');
+
+    const sessionResult = await client.query(
+      `INSERT INTO migraine_import_sessions
+       (user_id, filename, file_size, preset, total_rows, column_mapping, status)
+       VALUES ($1, $2, $3, $4, $5, $6, 'processing')
        RETURNING id`,
       [
         req.userId,
         req.file.originalname,
         req.file.size,
-        source,
-        parsedData.data.length,
-        JSON.stringify(parsedData.fieldMapping),
-        parsedData.unrecognizedFields.length > 0 ? parsedData.unrecognizedFields : null
+        options.preset,
+        parsed.rows.length,
+        JSON.stringify(parsed.mapping)
       ]
     );
-    const uploadSessionId = sessionResult.rows[0].id;
+    const importSessionId = sessionResult.rows[0].id;
 
-    // Process data with duplicate detection
-    let insertedCount = 0;
-    let updatedCount = 0;
+    let importedCount = 0;
     let skippedCount = 0;
-    const errors = [];
-    
-    // Track earliest date in the uploaded data
-    let earliestDate = null;
-    for (const row of parsedData.data) {
-      if (row.timestamp) {
-        const currentTimestamp = new Date(row.timestamp);
-        if (!earliestDate || currentTimestamp < earliestDate) {
-          earliestDate = currentTimestamp;
-        }
-      }
-    }
 
-    for (const row of parsedData.data) {
-      try {
-        // Check if record already exists (same user, same timestamp)
-        const existing = await query(
-          `SELECT id, upload_session_id FROM wearable_data 
-           WHERE user_id = $1 AND timestamp = $2`,
-          [req.userId, row.timestamp]
-        );
+    // Free-text triggers/symptoms are resolved to the user's vocabulary
+    const resolveTriggers = await createTermResolver(req.userId, 'trigger', client);
+    const resolveSymptoms = await createTermResolver(req.userId, 'symptom', client);
 
-        if (existing.rows.length > 0) {
-          const existingRecord = existing.rows[0];
-          
-          // If it's from the same upload session, skip (duplicate in same file)
-          if (existingRecord.upload_session_id === uploadSessionId) {
-            skippedCount++;
-            continue;
-          }
-          
-          // If it's from a different upload, update it
-          const result = await query(
-            `UPDATE wearable_data SET
-              stress_value = COALESCE($1, stress_value),
-              recovery_value = COALESCE($2, recovery_value),
-              heart_rate = COALESCE($3, heart_rate),
-              hrv = COALESCE($4, hrv),
-              sleep_efficiency = COALESCE($5, sleep_efficiency),
-              sleep_heart_rate = COALESCE($6, sleep_heart_rate),
-              skin_temperature = COALESCE($7, skin_temperature),
-              restless_periods = COALESCE($8, restless_periods),
-              additional_data = COALESCE($9, additional_data),
-              source = COALESCE($10, source),
-              upload_session_id = $11,
-              updated_at = CURRENT_TIMESTAMP
-            WHERE user_id = $12 AND timestamp = $13
-            RETURNING id`,
-            [
-              row.stress_value,
-              row.recovery_value,
-              row.heart_rate,
-              row.hrv,
-              row.sleep_efficiency,
-              row.sleep_heart_rate,
-              row.skin_temperature,
-              row.restless_periods,
-              Object.keys(row.additional_data).length > 0 ? JSON.stringify(row.additional_data) : null,
-              source,
-              uploadSessionId,
-              req.userId,
-              row.timestamp
-            ]
-          );
-          updatedCount++;
-        } else {
-          // Insert new record with upload session reference
-          try {
-            const result = await query(
-              `INSERT INTO wearable_data 
-               (user_id, timestamp, stress_value, recovery_value, heart_rate, hrv,
-                sleep_efficiency, sleep_heart_rate, skin_temperature, restless_periods,
-                additional_data, source, upload_session_id)
-               VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
-               RETURNING id`,
-              [
-                req.userId,
-                row.timestamp,
-                row.stress_value,
-                row.recovery_value,
-                row.heart_rate,
-                row.hrv,
-                row.sleep_efficiency,
-                row.sleep_heart_rate,
-                row.skin_temperature,
-                row.restless_periods,
-                Object.keys(row.additional_data).length > 0 ? JSON.stringify(row.additional_data) : null,
-                source,
-                uploadSessionId
-              ]
-            );
-            insertedCount++;
-          } catch (insertError) {
-            // Handle unique constraint violation (duplicate timestamp)
-            if (insertError.code === '23505') {
-              skippedCount++;
-            } else {
-              throw insertError;
-            }
-          }
-        }
-      } catch (error) {
-        console.error('Error processing row:', error);
-        errors.push({
-          timestamp: row.timestamp,
-          error: error.message
-        });
+    for (const { entry } of validRows) {
+      // Skip episodes that already exist (same user, same start time)
+      const existing = await client.query(
+        'SELECT id FROM migraine_entries WHERE user_id = $1 AND start_time = $2',
+        [req.userId, entry.start_time]
+      );
+      if (existing.rows.length > 0) {
+        skippedCount++;
+        continue;
       }
+
+      const triggerTerms = await resolveTriggers(entry.triggers || '');
+      const symptomTerms = await resolveSymptoms(entry.symptoms || '');
+
+      const inserted = await client.query(
+        `INSERT INTO migraine_entries
+         (user_id, start_time, end_time, intensity, location, triggers, symptoms, medication, notes,
+          duration, frequency, pain_location, pain_character, pain_intensity,
+          nausea, vomit, phonophobia, photophobia, visual, sensory,
+          dysphasia, dysarthria, vertigo, tinnitus, hypoacusis, diplopia,
+          defect, ataxia, conscience, paresthesia, dpf, migraine_type, import_session_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33)
+         RETURNING id`,
+        [
+          req.userId,
+          entry.start_time,
+          entry.end_time,
+          entry.intensity,
+          entry.location,
+          triggerTerms.length > 0 ? joinTermNames(triggerTerms) : entry.triggers,
+          symptomTerms.length > 0 ? joinTermNames(symptomTerms) : entry.symptoms,
+          entry.medication,
+          entry.notes,
+          entry.duration,
+          entry.frequency,
+          entry.pain_location,
+          entry.pain_character,
+          entry.pain_intensity,
+          entry.nausea,
+          entry.vomit,
+          entry.phonophobia,
+          entry.photophobia,
+          entry.visual,
+          entry.sensory,
+          entry.dysphasia,
+          entry.dysarthria,
+          entry.vertigo,
+          entry.tinnitus,
+          entry.hypoacusis,
+          entry.diplopia,
+          entry.defect,
+          entry.ataxia,
+          entry.conscience,
+          entry.paresthesia,
+          entry.dpf,
+          entry.migraine_type,
+          importSessionId
+        ]
+      );
+      await linkEntryTerms(inserted.rows[0].id, 'trigger', triggerTerms.map(term => term.id), client);
+      await linkEntryTerms(inserted.rows[0].id, 'symptom', symptomTerms.map(term => term.id), client);
+      importedCount++;
     }
 
-    // Update upload session with final statistics
-    const status = errors.length === parsedData.data.length ? 'failed' : 
-                   errors.length > 0 ? 'partial' : 'completed';
-    
-    await query(
-      `UPDATE upload_sessions SET
-        inserted_rows = $1,
-        updated_rows = $2,
-        skipped_rows = $3,
-        error_rows = $4,
+    const status = importedCount === 0 && invalidRows.length > 0 ? 'failed' :
+                   invalidRows.length > 0 ? 'partial' : 'completed';
+    const errorDetails = invalidRows.map(row => ({ rowNumber: row.rowNumber, errors: row.errors }));
+
+    await client.query(
+      `UPDATE migraine_import_sessions SET
+        imported_rows = $1,
+        skipped_rows = $2,
+        error_rows = $3,
+        error_details = $4,
         status = $5,
         updated_at = CURRENT_TIMESTAMP
        WHERE id = $6`,
-      [insertedCount, updatedCount, skippedCount, errors.length, status, uploadSessionId]
+      [importedCount, skippedCount, invalidRows.length, JSON.stringify(errorDetails), status, importSessionId]
     );
 
-    console.log(`✅ Upload complete: ${insertedCount} inserted, ${updatedCount} updated, ${skippedCount} skipped, ${errors.length} errors (total: ${parsedData.data.length})`);
+    await client.query('COMMIT');
+
+    console.log(`✅ Diary import complete: ${importedCount} imported, ${skippedCount} skipped, ${invalidRows.length} invalid (total: ${parsed.rows.length})`);
 
     res.status(201).json({
       success: true,
       data: {
-        uploadSessionId,
-        inserted: insertedCount,
-        updated: updatedCount,
+        importSessionId,
+        imported: importedCount,
         skipped: skippedCount,
-        total: parsedData.data.length,
-        errors: errors.length,
-        source,
-        fieldMapping: parsedData.fieldMapping,
-        unrecognizedFields: parsedData.unrecognizedFields,
-        errorDetails: errors.length > 0 ? errors : undefined,
-        earliestDate: earliestDate ? earliestDate.toISOString() : null
+        errors: invalidRows.length,
+        total: parsed.rows.length,
+        status,
+        errorDetails: errorDetails.length > 0 ? errorDetails.slice(0, 200) : undefined
       },
-      message: `Successfully processed ${insertedCount + updatedCount} of ${parsedData.data.length} rows (${insertedCount} new, ${updatedCount} updated, ${skippedCount} skipped)`
+      message: `Imported ${importedCount} of ${parsed.rows.length} rows (${skippedCount} duplicates skipped, ${invalidRows.length} invalid)`
     });
   } catch (error) {
-    console.error('Upload error:', error);
+    if (client) {
+      await client.query('ROLLBACK').catch(() => {});
+    }
+    console.error('Import error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error processing CSV file',
+      message: 'Error importing diary entries',
       error: error.message
     });
+  } finally {
+    if (client) {
+      client.release();
+    }
   }
 });
 
-// Get wearable data for user
-app.get('/api/wearable', authenticate, async (req, res) => {
+// Get import sessions for user
+app.get('/api/migraine/imports', authenticate, async (req, res) => {
   try {
-    const { startDate, endDate, limit = '1000' } = req.query;
-    
-    let queryText = `
-      SELECT id, timestamp, stress_value, recovery_value, heart_rate, hrv,
-             sleep_efficiency, sleep_heart_rate, skin_temperature, restless_periods,
-             additional_data, source, created_at
-      FROM wearable_data
-      WHERE user_id = $1
-    `;
-    const queryParams = [req.userId];
+    const result = await query(
+      `SELECT id, filename, file_size, preset, total_rows, imported_rows, skipped_rows,
+              error_rows, status, created_at, updated_at
+       FROM migraine_import_sessions
+       WHERE user_id = $1
+       ORDER BY created_at DESC
+       LIMIT 50`,
+      [req.userId]
+    );
 
-    if (startDate) {
-      queryText += ` AND timestamp >= $${queryParams.length + 1}`;
-      queryParams.push(startDate);
-    }
+    const imports = result.rows.map(row => ({
+      id: row.id,
+      filename: row.filename,
+      fileSize: parseInt(row.file_size),
+      preset: row.preset,
+      totalRows: parseInt(row.total_rows),
+      importedRows: parseInt(row.imported_rows),
+      skippedRows: parseInt(row.skipped_rows),
+      errorRows: parseInt(row.error_rows),
+      status: row.status,
+      createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at.toISOString()
+    }));
 
-    if (endDate) {
-      queryText += ` AND timestamp <= $${queryParams.length + 1}`;
-      queryParams.push(endDate);
-    }
+    res.json({
+      success: true,
+      data: {
+        imports,
+        count: imports.length
+      }
+    });
+  } catch (error) {
+    console.error('Get imports error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching import sessions'
+    });
+  }
+});
 
-    queryText += ` ORDER BY timestamp DESC LIMIT $${queryParams.length + 1}`;
-    queryParams.push(parseInt(limit));
-
-    const result = await query(queryText, queryParams);
-
-    const data = result.rows.map(row => ({
-      id: row.id,
-      timestamp: row.timestamp.toISOString(),
-      stressValue: row.stress_value,
-      recoveryValue: row.recovery_value,
-      heartRate: row.heart_rate,
-      hrv: row.hrv,
-      sleepEfficiency: row.sleep_efficiency,
-      sleepHeartRate: row.sleep_heart_rate,
-      skinTemperature: row.skin_temperature,
-      restlessPeriods: row.restless_periods,
-      additionalData: row.additional_data,
-      source: row.source,
-      createdAt: row.created_at.toISOString()
-    }));
+// Roll back an import session (deletes the entries it created)
+app.delete('/api/migraine/imports/:id', authenticate, async (req, res) => {
+  try {
+    // First verify the import session belongs to the user
+    const checkResult = await query(
+      'SELECT id FROM migraine_import_sessions WHERE id = $1 AND user_id = $2',
+      [req.params.id, req.userId]
+    );
 
-    res.json({
-      success: true,
-      data: {
-        entries: data,
-        count: data.length
-      }
-    });
-  } catch (error) {
-    console.error('Get wearable data error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error fetching wearable data'
-    });
-  }
-});
+    if (checkResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Import session not found'
+      });
+    }
 
-// Get upload sessions (list of all uploads)
-app.get('/api/wearable/uploads', authenticate, async (req, res) => {
-  try {
-    const result = await query(
-      `SELECT id, filename, file_size, source, total_rows, inserted_rows, updated_rows, 
-              skipped_rows, error_rows, status, created_at, updated_at
-       FROM upload_sessions
-       WHERE user_id = $1
-       ORDER BY created_at DESC
-       LIMIT 50`,
-      [req.userId]
+    // Count entries that will be deleted
+    const countResult = await query(
+      'SELECT COUNT(*) as count FROM migraine_entries WHERE import_session_id = $1',
+      [req.params.id]
     );
+    const entryCount = parseInt(countResult.rows[0].count);
 
-    const uploads = result.rows.map(row => ({
-      id: row.id,
-      filename: row.filename,
-      fileSize: parseInt(row.file_size),
-      source: row.source,
-      totalRows: parseInt(row.total_rows),
-      insertedRows: parseInt(row.inserted_rows),
-      updatedRows: parseInt(row.updated_rows),
-      skippedRows: parseInt(row.skipped_rows),
-      errorRows: parseInt(row.error_rows),
-      status: row.status,
-      createdAt: row.created_at.toISOString(),
-      updatedAt: row.updated_at.toISOString()
-    }));
+    // Delete the import session (cascade will delete associated migraine_entries)
+    await query('DELETE FROM migraine_import_sessions WHERE id = $1', [req.params.id]);
 
     res.json({
       success: true,
+      message: `Import rolled back: ${entryCount} entries deleted`,
       data: {
-        uploads,
-        count: uploads.length
+        deletedEntries: entryCount
       }
     });
   } catch (error) {
-    console.error('Get uploads error:', error);
+    console.error('Delete import session error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error fetching upload sessions'
+      message: 'Error rolling back import'
     });
   }
 });
 
-// Get single upload session details
-app.get('/api/wearable/uploads/:id', authenticate, async (req, res) => {
+// Get single migraine entry
+app.get('/api/migraine/:id', authenticate, async (req, res) => {
   try {
     const result = await query(
-      `SELECT id, filename, file_size, source, total_rows, inserted_rows, updated_rows,
-              skipped_rows, error_rows, field_mapping, unrecognized_fields, status,
-              created_at, updated_at
-       FROM upload_sessions
-       WHERE id = $1 AND user_id = $2`,
-      [req.params.id, req.userId]
+      `SELECT ${MIGRAINE_FIELDS}
+       FROM migraine_entries
+       WHERE id = $1`,
+      [req.params.id]
     );
 
     if (result.rows.length === 0) {
       return res.status(404).json({
         success: false,
-        message: 'Upload session not found'
+        message: 'Migraine entry not found'
       });
     }
 
-    const upload = result.rows[0];
+    const entry = result.rows[0];
+
+    // Check if entry belongs to user
+    if (entry.user_id !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
 
     res.json({
       success: true,
-      data: {
-        id: upload.id,
-        filename: upload.filename,
-        fileSize: parseInt(upload.file_size),
-        source: upload.source,
-        totalRows: parseInt(upload.total_rows),
-        insertedRows: parseInt(upload.inserted_rows),
-        updatedRows: parseInt(upload.updated_rows),
-        skippedRows: parseInt(upload.skipped_rows),
-        errorRows: parseInt(upload.error_rows),
-        fieldMapping: upload.field_mapping,
-        unrecognizedFields: upload.unrecognized_fields || [],
-        status: upload.status,
-        createdAt: upload.created_at.toISOString(),
-        updatedAt: upload.updated_at.toISOString()
-      }
+      data: transformEntryForAPI(entry, await getUserTimezone(req.userId))
     });
   } catch (error) {
-    console.error('Get upload session error:', error);
+    console.error('Get entry error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error fetching upload session'
+      message: 'Error fetching entry'
     });
   }
 });
 
-// Delete upload session and associated data
-app.delete('/api/wearable/uploads/:id', authenticate, async (req, res) => {
+// Create new migraine entry
+app.post('/api/migraine', authenticate, async (req, res) => {
   try {
-    // First verify the upload session belongs to the user
-    const checkResult = await query(
-      'SELECT id FROM upload_sessions WHERE id = $1 AND user_id = $2',
-      [req.params.id, req.userId]
-    );
+    const {
+      date,
+      startTime,
+      endTime,
+      intensity,
+      location,
+      triggers,
+      symptoms,
+      medication,
+      notes,
+      // Clinical assessment fields
+      duration,
+      frequency,
+      painLocation,
+      painCharacter,
+      painIntensity,
+      nausea,
+      vomit,
+      phonophobia,
+      photophobia,
+      visual,
+      sensory,
+      dysphasia,
+      dysarthria,
+      vertigo,
+      tinnitus,
+      hypoacusis,
+      diplopia,
+      defect,
+      ataxia,
+      conscience,
+      paresthesia,
+      dpf,
+      migraineType
+    } = req.body;
 
-    if (checkResult.rows.length === 0) {
-      return res.status(404).json({
+    // Validation
+    if (!date || !startTime || !intensity) {
+      return res.status(400).json({
         success: false,
-        message: 'Upload session not found'
+        message: 'Date, start time, and intensity are required'
       });
     }
 
-    // Count records that will be deleted
-    const countResult = await query(
-      'SELECT COUNT(*) as count FROM wearable_data WHERE upload_session_id = $1',
-      [req.params.id]
+    // Combine date and time into a timestamp in the user's timezone
+    const timezone = await getUserTimezone(req.userId);
+    const startDateTime = parseLocalDateTime(`${date}T${startTime}`, timezone);
+    const endDateTime = endTime ? parseLocalDateTime(`${date}T${endTime}`, timezone) : null;
+
+    if (!startDateTime || (endTime && !endDateTime)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date must be YYYY-MM-DD and times HH:MM'
+      });
+    }
+
+    // Resolve free-text values to canonical vocabulary terms
+    const triggerTerms = await resolveTerms(req.userId, 'trigger', triggers || []);
+    const symptomTerms = await resolveTerms(req.userId, 'symptom', symptoms || []);
+    const triggersStr = joinTermNames(triggerTerms);
+    const symptomsStr = joinTermNames(symptomTerms);
+
+    const result = await query(
+      `INSERT INTO migraine_entries 
+       (user_id, start_time, end_time, intensity, location, triggers, symptoms, medication, notes,
+        duration, frequency, pain_location, pain_character, pain_intensity,
+        nausea, vomit, phonophobia, photophobia, visual, sensory,
+        dysphasia, dysarthria, vertigo, tinnitus, hypoacusis, diplopia,
+        defect, ataxia, conscience, paresthesia, dpf, migraine_type)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32)
+       RETURNING ${MIGRAINE_FIELDS}`,
+      [
+        req.userId,
+        startDateTime,
+        endDateTime,
+        parseInt(intensity),
+        location || '',
+        triggersStr,
+        symptomsStr,
+        medication || '',
+        notes || '',
+        duration !== undefined ? duration : null,
+        frequency !== undefined ? frequency : null,
+        painLocation !== undefined ? painLocation : null,
+        painCharacter !== undefined ? painCharacter : null,
+        painIntensity !== undefined ? painIntensity : null,
+        nausea !== undefined ? nausea : null,
+        vomit !== undefined ? vomit : null,
+        phonophobia !== undefined ? phonophobia : null,
+        photophobia !== undefined ? photophobia : null,
+        visual !== undefined ? visual : null,
+        sensory !== undefined ? sensory : null,
+        dysphasia !== undefined ? dysphasia : null,
+        dysarthria !== undefined ? dysarthria : null,
+        vertigo !== undefined ? vertigo : null,
+        tinnitus !== undefined ? tinnitus : null,
+        hypoacusis !== undefined ? hypoacusis : null,
+        diplopia !== undefined ? diplopia : null,
+        defect !== undefined ? defect : null,
+        ataxia !== undefined ? ataxia : null,
+        conscience !== undefined ? conscience : null,
+        paresthesia !== undefined ? paresthesia : null,
+        dpf !== undefined ? dpf : null,
+        migraineType || null
+      ]
     );
-    const recordCount = parseInt(countResult.rows[0].count);
 
-    // Delete the upload session (cascade will delete associated wearable_data)
-    await query('DELETE FROM upload_sessions WHERE id = $1', [req.params.id]);
+    const entry = result.rows[0];
+    await linkEntryTerms(entry.id, 'trigger', triggerTerms.map(term => term.id));
+    await linkEntryTerms(entry.id, 'symptom', symptomTerms.map(term => term.id));
 
-    res.json({
+    res.status(201).json({
       success: true,
-      message: `Upload session and ${recordCount} associated data records deleted successfully`,
-      data: {
-        deletedRecords: recordCount
-      }
+      data: transformEntryForAPI(entry, timezone)
     });
   } catch (error) {
-    console.error('Delete upload session error:', error);
+    console.error('Create entry error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error deleting upload session'
+      message: 'Error creating entry'
     });
   }
 });
 
-// Delete all uploads for user (cleanup)
-app.delete('/api/wearable/uploads', authenticate, async (req, res) => {
+// Update migraine entry
+app.put('/api/migraine/:id', authenticate, async (req, res) => {
   try {
-    // Get count before deletion
-    const countResult = await query(
-      'SELECT COUNT(*) as count FROM upload_sessions WHERE user_id = $1',
-      [req.userId]
+    // First, check if entry exists and belongs to user
+    const checkResult = await query(
+      'SELECT user_id FROM migraine_entries WHERE id = $1',
+      [req.params.id]
     );
-    const uploadCount = parseInt(countResult.rows[0].count);
 
-    // Delete all upload sessions for user (cascade will delete associated wearable_data)
-    await query(
-      'DELETE FROM upload_sessions WHERE user_id = $1',
-      [req.userId]
-    );
+    if (checkResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Migraine entry not found'
+      });
+    }
 
-    res.json({
-      success: true,
+    if (checkResult.rows[0].user_id !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    const {
+      date,
+      startTime,
+      endTime,
+      intensity,
+      location,
+      triggers,
+      symptoms,
+      medication,
+      notes,
+      // Clinical fields
+      duration,
+      frequency,
+      painLocation,
+      painCharacter,
+      painIntensity,
+      nausea,
+      vomit,
+      phonophobia,
+      photophobia,
+      visual,
+      sensory,
+      dysphasia,
+      dysarthria,
+      vertigo,
+      tinnitus,
+      hypoacusis,
+      diplopia,
+      defect,
+      ataxia,
+      conscience,
+      paresthesia,
+      dpf,
+      migraineType
+    } = req.body;
+
+    // Prepare update values (date and times in the user's timezone)
+    const timezone = await getUserTimezone(req.userId);
+    let startDateTime = null;
+    let endDateTime = null;
+    
+    if (date && startTime) {
+      startDateTime = parseLocalDateTime(`${date}T${startTime}`, timezone);
+    }
+    if (date && endTime) {
+      endDateTime = parseLocalDateTime(`${date}T${endTime}`, timezone);
+    }
+
+    // Resolve free-text values to canonical vocabulary terms if provided
+    const triggerTerms = triggers ? await resolveTerms(req.userId, 'trigger', triggers) : null;
+    const symptomTerms = symptoms ? await resolveTerms(req.userId, 'symptom', symptoms) : null;
+    const triggersStr = triggerTerms ? joinTermNames(triggerTerms) : null;
+    const symptomsStr = symptomTerms ? joinTermNames(symptomTerms) : null;
+
+    const result = await query(
+      `UPDATE migraine_entries
+       SET start_time = COALESCE($1, start_time),
+           end_time = COALESCE($2, end_time),
+           intensity = COALESCE($3, intensity),
+           location = COALESCE($4, location),
+           triggers = COALESCE($5, triggers),
+           symptoms = COALESCE($6, symptoms),
+           medication = COALESCE($7, medication),
+           notes = COALESCE($8, notes),
+           duration = COALESCE($9, duration),
+           frequency = COALESCE($10, frequency),
+           pain_location = COALESCE($11, pain_location),
+           pain_character = COALESCE($12, pain_character),
+           pain_intensity = COALESCE($13, pain_intensity),
+           nausea = COALESCE($14, nausea),
+           vomit = COALESCE($15, vomit),
+           phonophobia = COALESCE($16, phonophobia),
+           photophobia = COALESCE($17, photophobia),
+           visual = COALESCE($18, visual),
+           sensory = COALESCE($19, sensory),
+           dysphasia = COALESCE($20, dysphasia),
+           dysarthria = COALESCE($21, dysarthria),
+           vertigo = COALESCE($22, vertigo),
+           tinnitus = COALESCE($23, tinnitus),
+           hypoacusis = COALESCE($24, hypoacusis),
+           diplopia = COALESCE($25, diplopia),
+           defect = COALESCE($26, defect),
+           ataxia = COALESCE($27, ataxia),
+           conscience = COALESCE($28, conscience),
+           paresthesia = COALESCE($29, paresthesia),
+           dpf = COALESCE($30, dpf),
+           migraine_type = COALESCE($31, migraine_type)
+       WHERE id = $32
+       RETURNING ${MIGRAINE_FIELDS}`,
+      [
+        startDateTime,
+        endDateTime,
+        intensity ? parseInt(intensity) : null,
+        location,
+        triggersStr,
+        symptomsStr,
+        medication,
+        notes,
+        duration !== undefined ? duration : null,
+        frequency !== undefined ? frequency : null,
+        painLocation !== undefined ? painLocation : null,
+        painCharacter !== undefined ? painCharacter : null,
+        painIntensity !== undefined ? painIntensity : null,
+        nausea !== undefined ? nausea : null,
+        vomit !== undefined ? vomit : null,
+        phonophobia !== undefined ? phonophobia : null,
+        photophobia !== undefined ? photophobia : null,
+        visual !== undefined ? visual : null,
+        sensory !== undefined ? sensory : null,
+        dysphasia !== undefined ? dysphasia : null,
+        dysarthria !== undefined ? dysarthria : null,
+        vertigo !== undefined ? vertigo : null,
+        tinnitus !== undefined ? tinnitus : null,
+        hypoacusis !== undefined ? hypoacusis : null,
+        diplopia !== undefined ? diplopia : null,
+        defect !== undefined ? defect : null,
+        ataxia !== undefined ? ataxia : null,
+        conscience !== undefined ? conscience : null,
+        paresthesia !== undefined ? paresthesia : null,
+        dpf !== undefined ? dpf : null,
+        migraineType || null,
+        req.params.id
+      ]
+    );
+
+    const entry = result.rows[0];
+    if (triggerTerms) {
+      await linkEntryTerms(entry.id, 'trigger', triggerTerms.map(term => term.id));
+    }
+    if (symptomTerms) {
+      await linkEntryTerms(entry.id, 'symptom', symptomTerms.map(term => term.id));
+    }
+
+    res.json({
+      success: true,
+      data: transformEntryForAPI(entry, timezone)
+    });
+  } catch (error) {
+    console.error('Update entry error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating entry'
+    });
+  }
+});
+
+// Delete migraine entry
+app.delete('/api/migraine/:id', authenticate, async (req, res) => {
+  try {
+    // First, check if entry exists and belongs to user
+    const checkResult = await query(
+      'SELECT user_id FROM migraine_entries WHERE id = $1',
+      [req.params.id]
+    );
+
+    if (checkResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Migraine entry not found'
+      });
+    }
+
+    if (checkResult.rows[0].user_id !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    await query('DELETE FROM migraine_entries WHERE id = $1', [req.params.id]);
+
+    res.json({
+      success: true,
+      message: 'Entry deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete entry error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting entry'
+    });
+  }
+});
+
+// ============================================
+// MEDICATION ROUTES
+// ============================================
+
+// Intake fields selected together with the medication name and class
+const INTAKE_FIELDS = `
+  mi.id, mi.migraine_entry_id, mi.medication_id, mi.taken_at, mi.dose, mi.relief_2h,
+  mi.notes, mi.created_at, mi.updated_at,
+  m.name as medication_name, m.medication_class
+`;
+
+// Validate a 2-hour relief rating (0-3), returning an error message or null
+const validateRelief = (relief2h) => {
+  if (relief2h === undefined || relief2h === null || relief2h === '') return null;
+  const value = Number(relief2h);
+  return Number.isInteger(value) && value >= 0 && value <= 3
+    ? null
+    : 'relief2h must be a whole number between 0 and 3';
+};
+
+// Get medication catalog
+app.get('/api/medications', authenticate, async (req, res) => {
+  try {
+    const includeInactive = req.query.includeInactive === 'true';
+
+    const result = await query(
+      `SELECT id, name, medication_class, default_dose, notes, is_active, created_at, updated_at
+       FROM medications
+       WHERE user_id = $1 ${includeInactive ? '' : 'AND is_active = true'}
+       ORDER BY name ASC`,
+      [req.userId]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        medications: result.rows.map(row => transformMedicationForAPI(row)),
+        classes: Object.entries(MEDICATION_CLASSES).map(([id, info]) => ({
+          id,
+          label: info.label,
+          acute: info.acute,
+          threshold: info.threshold
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get medications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching medications'
+    });
+  }
+});
+
+// Add medication to catalog
+app.post('/api/medications', authenticate, async (req, res) => {
+  try {
+    const { name, medicationClass = 'other', defaultDose, notes } = req.body;
+
+    if (!name || !name.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Medication name is required'
+      });
+    }
+
+    if (!MEDICATION_CLASSES[medicationClass]) {
+      return res.status(400).json({
+        success: false,
+        message: `medicationClass must be one of: ${Object.keys(MEDICATION_CLASSES).join(', ')}`
+      });
+    }
+
+    const result = await query(
+      `INSERT INTO medications (user_id, name, medication_class, default_dose, notes)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id, name, medication_class, default_dose, notes, is_active, created_at, updated_at`,
+      [req.userId, name.trim(), medicationClass, defaultDose || null, notes || null]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: transformMedicationForAPI(result.rows[0])
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A medication with this name already exists'
+      });
+    }
+    console.error('Create medication error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating medication'
+    });
+  }
+});
+
+// Get medication-overuse monitor (acute-medication days per month vs ICHD-3 thresholds)
+app.get('/api/medications/overuse', authenticate, async (req, res) => {
+  try {
+    const months = Math.min(Math.max(parseInt(req.query.months) || 4, 1), 12);
+    const report = await calculateMedicationOveruse(req.userId, months);
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Medication overuse error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error calculating medication overuse'
+    });
+  }
+});
+
+// Get medication intakes across episodes (optionally by date range)
+app.get('/api/medications/intakes', authenticate, async (req, res) => {
+  try {
+    const { startDate, endDate, limit = '200' } = req.query;
+
+    let queryText = `
+      SELECT ${INTAKE_FIELDS}
+      FROM medication_intakes mi
+      JOIN medications m ON m.id = mi.medication_id
+      WHERE mi.user_id = $1
+    `;
+    const queryParams = [req.userId];
+    const timezone = await getUserTimezone(req.userId);
+
+    // Dates are days in the user's timezone
+    if (startDate) {
+      queryText += ` AND mi.taken_at >= ${localDayStartSql(`$${queryParams.length + 1}`, `$${queryParams.length + 2}`)}`;
+      queryParams.push(startDate, timezone);
+    }
+    if (endDate) {
+      queryText += ` AND mi.taken_at < ${localDayStartSql(`($${queryParams.length + 1}::date + 1)`, `$${queryParams.length + 2}`)}`;
+      queryParams.push(endDate, timezone);
+    }
+
+    queryText += ` ORDER BY mi.taken_at DESC LIMIT $${queryParams.length + 1}`;
+    queryParams.push(parseInt(limit) || 200);
+
+    const result = await query(queryText, queryParams);
+
+    res.json({
+      success: true,
+      data: result.rows.map(row => transformIntakeForAPI(row))
+    });
+  } catch (error) {
+    console.error('Get intakes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching medication intakes'
+    });
+  }
+});
+
+// Update medication intake
+app.put('/api/medications/intakes/:id', authenticate, async (req, res) => {
+  try {
+    const { medicationId, takenAt, dose, relief2h, notes } = req.body;
+
+    const reliefError = validateRelief(relief2h);
+    if (reliefError) {
+      return res.status(400).json({
+        success: false,
+        message: reliefError
+      });
+    }
+
+    if (takenAt && isNaN(new Date(takenAt).getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'takenAt must be a valid date/time'
+      });
+    }
+
+    if (medicationId) {
+      const medicationCheck = await query(
+        'SELECT id FROM medications WHERE id = $1 AND user_id = $2',
+        [medicationId, req.userId]
+      );
+      if (medicationCheck.rows.length === 0) {
+        return res.status(404).json({
+          success: false,
+          message: 'Medication not found'
+        });
+      }
+    }
+
+    const result = await query(
+      `UPDATE medication_intakes SET
+        medication_id = COALESCE($1, medication_id),
+        taken_at = COALESCE($2, taken_at),
+        dose = COALESCE($3, dose),
+        relief_2h = CASE WHEN $4::boolean THEN $5::integer ELSE relief_2h END,
+        notes = COALESCE($6, notes),
+        updated_at = CURRENT_TIMESTAMP
+       WHERE id = $7 AND user_id = $8
+       RETURNING id`,
+      [
+        medicationId || null,
+        takenAt || null,
+        dose !== undefined ? dose : null,
+        relief2h !== undefined,
+        relief2h === undefined || relief2h === null || relief2h === '' ? null : Number(relief2h),
+        notes !== undefined ? notes : null,
+        req.params.id,
+        req.userId
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Medication intake not found'
+      });
+    }
+
+    const intake = await query(
+      `SELECT ${INTAKE_FIELDS}
+       FROM medication_intakes mi
+       JOIN medications m ON m.id = mi.medication_id
+       WHERE mi.id = $1`,
+      [req.params.id]
+    );
+
+    res.json({
+      success: true,
+      data: transformIntakeForAPI(intake.rows[0])
+    });
+  } catch (error) {
+    console.error('Update intake error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating medication intake'
+    });
+  }
+});
+
+// Delete medication intake
+app.delete('/api/medications/intakes/:id', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      'DELETE FROM medication_intakes WHERE id = $1 AND user_id = $2 RETURNING id',
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Medication intake not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Medication intake deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete intake error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting medication intake'
+    });
+  }
+});
+
+// Update medication in catalog
+app.put('/api/medications/:id', authenticate, async (req, res) => {
+  try {
+    const { name, medicationClass, defaultDose, notes, isActive } = req.body;
+
+    if (medicationClass !== undefined && !MEDICATION_CLASSES[medicationClass]) {
+      return res.status(400).json({
+        success: false,
+        message: `medicationClass must be one of: ${Object.keys(MEDICATION_CLASSES).join(', ')}`
+      });
+    }
+
+    const result = await query(
+      `UPDATE medications SET
+        name = COALESCE($1, name),
+        medication_class = COALESCE($2, medication_class),
+        default_dose = COALESCE($3, default_dose),
+        notes = COALESCE($4, notes),
+        is_active = COALESCE($5, is_active),
+        updated_at = CURRENT_TIMESTAMP
+       WHERE id = $6 AND user_id = $7
+       RETURNING id, name, medication_class, default_dose, notes, is_active, created_at, updated_at`,
+      [
+        name ? name.trim() : null,
+        medicationClass || null,
+        defaultDose !== undefined ? defaultDose : null,
+        notes !== undefined ? notes : null,
+        isActive !== undefined ? Boolean(isActive) : null,
+        req.params.id,
+        req.userId
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Medication not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: transformMedicationForAPI(result.rows[0])
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A medication with this name already exists'
+      });
+    }
+    console.error('Update medication error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating medication'
+    });
+  }
+});
+
+// Delete medication from catalog (cascade deletes its intakes)
+app.delete('/api/medications/:id', authenticate, async (req, res) => {
+  try {
+    const countResult = await query(
+      'SELECT COUNT(*) as count FROM medication_intakes WHERE medication_id = $1 AND user_id = $2',
+      [req.params.id, req.userId]
+    );
+    const intakeCount = parseInt(countResult.rows[0].count);
+
+    const result = await query(
+      'DELETE FROM medications WHERE id = $1 AND user_id = $2 RETURNING id',
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Medication not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Medication and ${intakeCount} associated intakes deleted successfully`,
+      data: {
+        deletedIntakes: intakeCount
+      }
+    });
+  } catch (error) {
+    console.error('Delete medication error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting medication'
+    });
+  }
+});
+
+// Get medication intakes for a migraine episode
+app.get('/api/migraine/:id/intakes', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT ${INTAKE_FIELDS}
+       FROM medication_intakes mi
+       JOIN medications m ON m.id = mi.medication_id
+       WHERE mi.migraine_entry_id = $1 AND mi.user_id = $2
+       ORDER BY mi.taken_at ASC`,
+      [req.params.id, req.userId]
+    );
+
+    res.json({
+      success: true,
+      data: result.rows.map(row => transformIntakeForAPI(row))
+    });
+  } catch (error) {
+    console.error('Get episode intakes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching medication intakes'
+    });
+  }
+});
+
+// Record medication intake for a migraine episode
+app.post('/api/migraine/:id/intakes', authenticate, async (req, res) => {
+  try {
+    const { medicationId, takenAt, dose, relief2h, notes } = req.body;
+
+    if (!medicationId || !takenAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'medicationId and takenAt are required'
+      });
+    }
+
+    if (isNaN(new Date(takenAt).getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'takenAt must be a valid date/time'
+      });
+    }
+
+    const reliefError = validateRelief(relief2h);
+    if (reliefError) {
+      return res.status(400).json({
+        success: false,
+        message: reliefError
+      });
+    }
+
+    // Check entry belongs to user
+    const entryCheck = await query(
+      'SELECT user_id FROM migraine_entries WHERE id = $1',
+      [req.params.id]
+    );
+    if (entryCheck.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Migraine entry not found'
+      });
+    }
+    if (entryCheck.rows[0].user_id !== req.userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    // Check medication belongs to user (its default dose fills an empty dose)
+    const medicationCheck = await query(
+      'SELECT id, default_dose FROM medications WHERE id = $1 AND user_id = $2',
+      [medicationId, req.userId]
+    );
+    if (medicationCheck.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Medication not found'
+      });
+    }
+
+    const insertResult = await query(
+      `INSERT INTO medication_intakes
+       (user_id, migraine_entry_id, medication_id, taken_at, dose, relief_2h, notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [
+        req.userId,
+        req.params.id,
+        medicationId,
+        takenAt,
+        dose || medicationCheck.rows[0].default_dose || null,
+        relief2h === undefined || relief2h === null || relief2h === '' ? null : Number(relief2h),
+        notes || null
+      ]
+    );
+
+    const intake = await query(
+      `SELECT ${INTAKE_FIELDS}
+       FROM medication_intakes mi
+       JOIN medications m ON m.id = mi.medication_id
+       WHERE mi.id = $1`,
+      [insertResult.rows[0].id]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: transformIntakeForAPI(intake.rows[0])
+    });
+  } catch (error) {
+    console.error('Create intake error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error recording medication intake'
+    });
+  }
+});
+
+// ============================================
+// VOCABULARY ROUTES
+// ============================================
+
+// Validate a term name, returning an error message or null
+const validateTermName = (name) => {
+  if (!name || !String(name).trim()) return 'Name is required';
+  if (String(name).includes(',')) return 'Name cannot contain commas';
+  if (String(name).trim().length > 100) return 'Name must be at most 100 characters';
+  return null;
+};
+
+// Normalize an alias list, dropping empty values and the term's own name
+const normalizeAliases = (aliases, name) => Array.from(new Set(
+  (Array.isArray(aliases) ? aliases : []).map(alias => normalizeTerm(alias))
+)).filter(alias => alias && alias !== normalizeTerm(name));
+
+// Get trigger/symptom vocabulary with usage counts
+app.get('/api/vocabulary', authenticate, async (req, res) => {
+  try {
+    const { kind } = req.query;
+
+    if (kind && !TERM_KINDS.includes(kind)) {
+      return res.status(400).json({
+        success: false,
+        message: `kind must be one of: ${TERM_KINDS.join(', ')}`
+      });
+    }
+
+    let queryText = `
+      SELECT t.id, t.kind, t.name, t.category, t.aliases, t.created_at, t.updated_at,
+             COUNT(et.migraine_entry_id) as usage_count
+      FROM vocabulary_terms t
+      LEFT JOIN migraine_entry_terms et ON et.term_id = t.id
+      WHERE t.user_id = $1
+    `;
+    const queryParams = [req.userId];
+
+    if (kind) {
+      queryText += ` AND t.kind = $${queryParams.length + 1}`;
+      queryParams.push(kind);
+    }
+
+    queryText += ` GROUP BY t.id ORDER BY t.kind, usage_count DESC, t.name ASC`;
+
+    const result = await query(queryText, queryParams);
+
+    res.json({
+      success: true,
+      data: {
+        terms: result.rows.map(row => transformTermForAPI(row)),
+        categories: TERM_CATEGORIES
+      }
+    });
+  } catch (error) {
+    console.error('Get vocabulary error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching vocabulary'
+    });
+  }
+});
+
+// Add term to vocabulary
+app.post('/api/vocabulary', authenticate, async (req, res) => {
+  try {
+    const { kind, name, category = 'other', aliases } = req.body;
+
+    if (!TERM_KINDS.includes(kind)) {
+      return res.status(400).json({
+        success: false,
+        message: `kind must be one of: ${TERM_KINDS.join(', ')}`
+      });
+    }
+
+    const nameError = validateTermName(name);
+    if (nameError) {
+      return res.status(400).json({
+        success: false,
+        message: nameError
+      });
+    }
+
+    if (!TERM_CATEGORIES[kind][category]) {
+      return res.status(400).json({
+        success: false,
+        message: `category must be one of: ${Object.keys(TERM_CATEGORIES[kind]).join(', ')}`
+      });
+    }
+
+    const result = await query(
+      `INSERT INTO vocabulary_terms (user_id, kind, name, category, aliases)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id, kind, name, category, aliases, created_at, updated_at`,
+      [req.userId, kind, name.trim(), category, normalizeAliases(aliases, name)]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: transformTermForAPI({ ...result.rows[0], usage_count: 0 })
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A term with this name already exists'
+      });
+    }
+    console.error('Create term error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating term'
+    });
+  }
+});
+
+// Link existing entries' free-text triggers/symptoms to vocabulary terms
+app.post('/api/vocabulary/sync', authenticate, async (req, res) => {
+  let client;
+  try {
+    client = await getClient();
+    await client.query('BEGIN');
+    const result = await syncEntriesWithVocabulary(req.userId, client);
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      message: `Linked ${result.entriesProcessed} entries to your vocabulary`,
+      data: result
+    });
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK').catch(() => {});
+    }
+    console.error('Vocabulary sync error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error syncing entries with vocabulary'
+    });
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+});
+
+// Merge terms into a target term (sources become aliases of the target)
+app.post('/api/vocabulary/merge', authenticate, async (req, res) => {
+  const { targetId, sourceIds } = req.body;
+
+  if (!targetId || !Array.isArray(sourceIds) || sourceIds.length === 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'targetId and a non-empty sourceIds array are required'
+    });
+  }
+
+  let client;
+  try {
+    client = await getClient();
+    await client.query('BEGIN');
+    const result = await mergeTerms(req.userId, targetId, sourceIds, client);
+
+    if (!result) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        message: 'Target term not found'
+      });
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      message: `Merged ${result.mergedTerms} terms into "${result.target.name}"`,
+      data: {
+        target: transformTermForAPI(result.target),
+        mergedTerms: result.mergedTerms,
+        affectedEntries: result.affectedEntries
+      }
+    });
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK').catch(() => {});
+    }
+    console.error('Vocabulary merge error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error merging terms'
+    });
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+});
+
+// Update term (renaming rewrites the text of linked entries)
+app.put('/api/vocabulary/:id', authenticate, async (req, res) => {
+  try {
+    const { name, category, aliases } = req.body;
+
+    const existing = await query(
+      'SELECT id, kind, name FROM vocabulary_terms WHERE id = $1 AND user_id = $2',
+      [req.params.id, req.userId]
+    );
+
+    if (existing.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Term not found'
+      });
+    }
+
+    const term = existing.rows[0];
+
+    if (name !== undefined) {
+      const nameError = validateTermName(name);
+      if (nameError) {
+        return res.status(400).json({
+          success: false,
+          message: nameError
+        });
+      }
+    }
+
+    if (category !== undefined && !TERM_CATEGORIES[term.kind][category]) {
+      return res.status(400).json({
+        success: false,
+        message: `category must be one of: ${Object.keys(TERM_CATEGORIES[term.kind]).join(', ')}`
+      });
+    }
+
+    const newName = name !== undefined ? name.trim() : term.name;
+
+    const result = await query(
+      `UPDATE vocabulary_terms SET
+        name = $1,
+        category = COALESCE($2, category),
+        aliases = COALESCE($3, aliases),
+        updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4
+       RETURNING id, kind, name, category, aliases, created_at, updated_at`,
+      [
+        newName,
+        category || null,
+        aliases !== undefined ? normalizeAliases(aliases, newName) : null,
+        term.id
+      ]
+    );
+
+    if (newName !== term.name) {
+      const linked = await query(
+        'SELECT migraine_entry_id FROM migraine_entry_terms WHERE term_id = $1',
+        [term.id]
+      );
+      await refreshEntryTermText(linked.rows.map(row => row.migraine_entry_id));
+    }
+
+    res.json({
+      success: true,
+      data: transformTermForAPI(result.rows[0])
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A term with this name already exists. Merge the terms instead.'
+      });
+    }
+    console.error('Update term error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating term'
+    });
+  }
+});
+
+// Delete term (removes it from every entry it was recorded on)
+app.delete('/api/vocabulary/:id', authenticate, async (req, res) => {
+  try {
+    const linked = await query(
+      `SELECT et.migraine_entry_id
+       FROM migraine_entry_terms et
+       JOIN vocabulary_terms t ON t.id = et.term_id
+       WHERE t.id = $1 AND t.user_id = $2`,
+      [req.params.id, req.userId]
+    );
+
+    const result = await query(
+      'DELETE FROM vocabulary_terms WHERE id = $1 AND user_id = $2 RETURNING id',
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Term not found'
+      });
+    }
+
+    const affectedEntryIds = linked.rows.map(row => row.migraine_entry_id);
+    await refreshEntryTermText(affectedEntryIds);
+
+    res.json({
+      success: true,
+      message: 'Term deleted successfully',
+      data: {
+        affectedEntries: affectedEntryIds.length
+      }
+    });
+  } catch (error) {
+    console.error('Delete term error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting term'
+    });
+  }
+});
+
+// ============================================
+// DAILY CHECK-IN ROUTES
+// ============================================
+
+// Numeric check-in fields: API name -> [column, min, max, integer]
+const CHECKIN_NUMERIC_FIELDS = {
+  sleepHours: ['sleep_hours', 0, 24, false],
+  caffeineServings: ['caffeine_servings', 0, 30, true],
+  alcoholUnits: ['alcohol_units', 0, 50, false],
+  mood: ['mood', 1, 5, true],
+  waterLiters: ['water_liters', 0, 15, false],
+  screenTimeHours: ['screen_time_hours', 0, 24, false]
+};
+
+const CHECKIN_FIELDS = `
+  id, date, had_headache, sleep_hours, caffeine_servings, alcohol_units,
+  menstruation, skipped_meals, mood, water_liters, screen_time_hours, notes, created_at, updated_at
+`;
+
+const isCheckinDate = (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+// Get daily check-ins (optionally by date range)
+app.get('/api/checkins', authenticate, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    if ((startDate && !isCheckinDate(startDate)) || (endDate && !isCheckinDate(endDate))) {
+      return res.status(400).json({
+        success: false,
+        message: 'startDate and endDate must be in YYYY-MM-DD format'
+      });
+    }
+
+    let queryText = `SELECT ${CHECKIN_FIELDS} FROM daily_checkins WHERE user_id = $1`;
+    const queryParams = [req.userId];
+
+    if (startDate) {
+      queryText += ` AND date >= $${queryParams.length + 1}`;
+      queryParams.push(startDate);
+    }
+    if (endDate) {
+      queryText += ` AND date <= $${queryParams.length + 1}`;
+      queryParams.push(endDate);
+    }
+
+    queryText += ' ORDER BY date DESC LIMIT 366';
+
+    const result = await query(queryText, queryParams);
+
+    res.json({
+      success: true,
+      data: result.rows.map(row => transformCheckinForAPI(row))
+    });
+  } catch (error) {
+    console.error('Get check-ins error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching daily check-ins'
+    });
+  }
+});
+
+// Get daily check-in for a date
+app.get('/api/checkins/:date', authenticate, async (req, res) => {
+  try {
+    if (!isCheckinDate(req.params.date)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date must be in YYYY-MM-DD format'
+      });
+    }
+
+    const result = await query(
+      `SELECT ${CHECKIN_FIELDS} FROM daily_checkins WHERE user_id = $1 AND date = $2`,
+      [req.userId, req.params.date]
+    );
+
+    res.json({
+      success: true,
+      data: result.rows.length > 0 ? transformCheckinForAPI(result.rows[0]) : null
+    });
+  } catch (error) {
+    console.error('Get check-in error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching daily check-in'
+    });
+  }
+});
+
+// Create or replace the daily check-in for a date
+app.put('/api/checkins/:date', authenticate, async (req, res) => {
+  try {
+    const { hadHeadache, menstruation, skippedMeals, notes } = req.body;
+
+    if (!isCheckinDate(req.params.date)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date must be in YYYY-MM-DD format'
+      });
+    }
+
+    if (typeof hadHeadache !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        message: 'hadHeadache (true/false) is required'
+      });
+    }
+
+    // Validate numeric fields against the table's CHECK ranges
+    const numericValues = {};
+    for (const [field, [column, min, max, integer]] of Object.entries(CHECKIN_NUMERIC_FIELDS)) {
+      const raw = req.body[field];
+      if (raw === undefined || raw === null || raw === '') {
+        numericValues[column] = null;
+        continue;
+      }
+      const value = Number(raw);
+      if (isNaN(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+        return res.status(400).json({
+          success: false,
+          message: `${field} must be ${integer ? 'a whole number' : 'a number'} between ${min} and ${max}`
+        });
+      }
+      numericValues[column] = value;
+    }
+
+    const result = await query(
+      `INSERT INTO daily_checkins
+       (user_id, date, had_headache, sleep_hours, caffeine_servings, alcohol_units,
+        menstruation, skipped_meals, mood, water_liters, screen_time_hours, notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT (user_id, date)
+       DO UPDATE SET
+         had_headache = EXCLUDED.had_headache,
+         sleep_hours = EXCLUDED.sleep_hours,
+         caffeine_servings = EXCLUDED.caffeine_servings,
+         alcohol_units = EXCLUDED.alcohol_units,
+         menstruation = EXCLUDED.menstruation,
+         skipped_meals = EXCLUDED.skipped_meals,
+         mood = EXCLUDED.mood,
+         water_liters = EXCLUDED.water_liters,
+         screen_time_hours = EXCLUDED.screen_time_hours,
+         notes = EXCLUDED.notes,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING ${CHECKIN_FIELDS}`,
+      [
+        req.userId,
+        req.params.date,
+        hadHeadache,
+        numericValues.sleep_hours,
+        numericValues.caffeine_servings,
+        numericValues.alcohol_units,
+        typeof menstruation === 'boolean' ? menstruation : null,
+        typeof skippedMeals === 'boolean' ? skippedMeals : null,
+        numericValues.mood,
+        numericValues.water_liters,
+        numericValues.screen_time_hours,
+        notes || null
+      ]
+    );
+
+    res.json({
+      success: true,
+      data: transformCheckinForAPI(result.rows[0])
+    });
+  } catch (error) {
+    console.error('Save check-in error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving daily check-in'
+    });
+  }
+});
+
+// Delete the daily check-in for a date
+app.delete('/api/checkins/:date', authenticate, async (req, res) => {
+  try {
+    if (!isCheckinDate(req.params.date)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date must be in YYYY-MM-DD format'
+      });
+    }
+
+    const result = await query(
+      'DELETE FROM daily_checkins WHERE user_id = $1 AND date = $2 RETURNING id',
+      [req.userId, req.params.date]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Daily check-in not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Daily check-in deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete check-in error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting daily check-in'
+    });
+  }
+});
+
+// ============================================
+// WEARABLE DATA ROUTES
+// ============================================
+
+// Importers available for wearable uploads
+app.get('/api/wearable/importers', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      importers: listImporters(),
+      extensions: getSupportedExtensions()
+    }
+  });
+});
+
+// Read the column mapping, unit overrides and template sent with a wearable preview or upload (multipart fields)
+const parseWearableUploadOptions = (body) => {
+  const parseJsonField = (value, message) => {
+    if (!value) return {};
+    try {
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    } catch (error) {
+      throw new Error(message);
+    }
+  };
+  const mapping = parseJsonField(body.mapping, 'mapping must be a JSON object of column -> field');
+  const units = parseJsonField(body.units, 'units must be a JSON object of field -> unit');
+  const validationError = validateFieldMapping(mapping) || validateUnitOverrides(units);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+  return { mapping, units, templateId: body.templateId || null };
+};
+
+// Apply a saved mapping template underneath the mapping and units sent with the request (explicit entries win)
+const resolveWearableMapping = async (userId, { mapping, units, templateId }) => {
+  if (!templateId) {
+    return { mapping, units, templateId: null };
+  }
+  const result = await query(
+    `SELECT id, mapping, units FROM wearable_mapping_templates WHERE id::text = $1 AND user_id = $2`,
+    [String(templateId), userId]
+  );
+  if (result.rows.length === 0) {
+    return { error: 'Mapping template not found', status: 404 };
+  }
+  const template = result.rows[0];
+  return {
+    mapping: { ...template.mapping, ...mapping },
+    units: { ...template.units, ...units },
+    templateId: template.id
+  };
+};
+
+// Preview a wearable upload: detected format, where each column ends up, unit guesses and sample
+// rows. Nothing is written; the file is sent again with the (edited) mapping to import it
+app.post('/api/wearable/upload/preview', authenticate, wearableUpload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded. Please select a CSV file or a device export.'
+      });
+    }
+
+    let options;
+    try {
+      options = parseWearableUploadOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    const resolved = await resolveWearableMapping(req.userId, options);
+    if (resolved.error) {
+      return res.status(resolved.status).json({
+        success: false,
+        message: resolved.error
+      });
+    }
+
+    let preview;
+    try {
+      preview = await previewWearableFile(req.file.path, req.file.originalname, {
+        mapping: resolved.mapping,
+        units: resolved.units,
+        timezone: await getUserTimezone(req.userId)
+      });
+    } catch (error) {
+      console.error('Wearable file parsing error:', error);
+      return res.status(400).json({
+        success: false,
+        message: 'Failed to parse file. Please check the file format.',
+        error: error.message
+      });
+    }
+    if (preview.error) {
+      return res.status(400).json({
+        success: false,
+        message: preview.error
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        filename: req.file.originalname,
+        format: preview.format,
+        formatLabel: preview.formatLabel,
+        source: preview.source,
+        templateId: resolved.templateId,
+        columns: preview.columns,
+        // Timestamps of vendor exports are read by the importer
+        targets: preview.format === 'generic_csv' ? MAPPING_TARGETS : MAPPING_TARGETS.filter(target => target !== 'timestamp'),
+        fieldMapping: preview.fieldMapping,
+        unrecognizedFields: preview.unrecognizedFields,
+        ignoredFields: preview.ignoredFields,
+        units: preview.units,
+        totalRows: preview.totalRows,
+        // Rows with physiologically implausible values (those values are not imported)
+        invalidRows: preview.invalidRows,
+        valueErrors: preview.valueErrors.map(({ timestamp, error }) => ({
+          timestamp: timestamp.toISOString(),
+          error
+        })),
+        dateRange: preview.dateRange
+          ? { start: preview.dateRange.start.toISOString(), end: preview.dateRange.end.toISOString() }
+          : null,
+        sampleRows: preview.sampleRows.map(row => ({
+          timestamp: row.timestamp.toISOString(),
+          stressValue: row.stress_value,
+          recoveryValue: row.recovery_value,
+          heartRate: row.heart_rate,
+          hrv: row.hrv,
+          sleepEfficiency: row.sleep_efficiency,
+          sleepHeartRate: row.sleep_heart_rate,
+          skinTemperature: row.skin_temperature,
+          restlessPeriods: row.restless_periods,
+          additionalData: row.additional_data
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Wearable upload preview error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error previewing uploaded file'
+    });
+  } finally {
+    // Previews don't keep the file; it is sent again to import it
+    if (req.file) await removeUploadFile(req.file.path);
+  }
+});
+
+// Upload a wearable data file (generic CSV or a vendor export, dispatched by detected format)
+// The file is stored and imported by a background job; the response only carries the upload session,
+// whose progress and results are polled from GET /api/wearable/uploads/:id.
+// An optional mapping and/or templateId (as in the preview) override where columns end up
+app.post('/api/wearable/upload', authenticate, wearableUpload.single('file'), async (req, res) => {
+  let uploadSessionId = null;
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded. Please select a CSV file or a device export.'
+      });
+    }
+
+    let options;
+    try {
+      options = parseWearableUploadOptions(req.body);
+    } catch (error) {
+      await removeUploadFile(req.file.path);
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    const resolved = await resolveWearableMapping(req.userId, options);
+    if (resolved.error) {
+      await removeUploadFile(req.file.path);
+      return res.status(resolved.status).json({
+        success: false,
+        message: resolved.error
+      });
+    }
+
+    // The session holds everything the import needs, so it can be (re)started after a restart
+    const sessionResult = await query(
+      `INSERT INTO upload_sessions
+       (user_id, filename, file_size, file_path, import_options, mapping_template_id, status)
+       VALUES ($1, $2, $3, $4, $5, $6, 'queued')
+       RETURNING id, created_at`,
+      [
+        req.userId,
+        req.file.originalname,
+        req.file.size,
+        req.file.path,
+        JSON.stringify({
+          mapping: resolved.mapping,
+          units: resolved.units,
+          timezone: await getUserTimezone(req.userId)
+        }),
+        resolved.templateId
+      ]
+    );
+    uploadSessionId = sessionResult.rows[0].id;
+
+    await enqueueWearableImport(uploadSessionId, req.userId);
+    jobRunner?.runOnce();
+
+    res.status(202).json({
+      success: true,
+      data: {
+        uploadSessionId,
+        filename: req.file.originalname,
+        fileSize: req.file.size,
+        status: 'queued',
+        templateId: resolved.templateId,
+        createdAt: sessionResult.rows[0].created_at.toISOString()
+      },
+      message: 'File uploaded. It is being imported in the background.'
+    });
+  } catch (error) {
+    console.error('Upload error:', error);
+    if (uploadSessionId) {
+      await query('DELETE FROM upload_sessions WHERE id = $1', [uploadSessionId]).catch(() => {});
+    }
+    if (req.file) await removeUploadFile(req.file.path);
+    res.status(500).json({
+      success: false,
+      message: 'Error processing uploaded file',
+      error: error.message
+    });
+  }
+});
+
+// Get wearable data for user
+app.get('/api/wearable', authenticate, async (req, res) => {
+  try {
+    const { startDate, endDate, limit = '1000' } = req.query;
+    
+    let queryText = `
+      SELECT id, timestamp, stress_value, recovery_value, heart_rate, hrv,
+             sleep_efficiency, sleep_heart_rate, skin_temperature, restless_periods,
+             additional_data, source, created_at
+      FROM wearable_data
+      WHERE user_id = $1
+    `;
+    const queryParams = [req.userId];
+
+    if (startDate) {
+      queryText += ` AND timestamp >= $${queryParams.length + 1}`;
+      queryParams.push(startDate);
+    }
+
+    if (endDate) {
+      queryText += ` AND timestamp <= $${queryParams.length + 1}`;
+      queryParams.push(endDate);
+    }
+
+    queryText += ` ORDER BY timestamp DESC LIMIT $${queryParams.length + 1}`;
+    queryParams.push(parseInt(limit));
+
+    const result = await query(queryText, queryParams);
+
+    const data = result.rows.map(row => ({
+      id: row.id,
+      timestamp: row.timestamp.toISOString(),
+      stressValue: row.stress_value,
+      recoveryValue: row.recovery_value,
+      heartRate: row.heart_rate,
+      hrv: row.hrv,
+      sleepEfficiency: row.sleep_efficiency,
+      sleepHeartRate: row.sleep_heart_rate,
+      skinTemperature: row.skin_temperature,
+      restlessPeriods: row.restless_periods,
+      additionalData: row.additional_data,
+      source: row.source,
+      createdAt: row.created_at.toISOString()
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        entries: data,
+        count: data.length
+      }
+    });
+  } catch (error) {
+    console.error('Get wearable data error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching wearable data'
+    });
+  }
+});
+
+// Percentage of an upload's parsed rows written so far (0 until the file has been parsed)
+const getUploadProgress = (upload) => {
+  if (FINISHED_UPLOAD_STATUSES.includes(upload.status)) return 100;
+  const totalRows = parseInt(upload.total_rows);
+  return totalRows > 0 ? Math.floor((parseInt(upload.processed_rows) / totalRows) * 100) : 0;
+};
+
+// Get upload sessions (list of all uploads)
+app.get('/api/wearable/uploads', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT id, filename, file_size, source, import_format, total_rows, processed_rows, inserted_rows, updated_rows, 
+              skipped_rows, error_rows, status, created_at, updated_at
+       FROM upload_sessions
+       WHERE user_id = $1
+       ORDER BY created_at DESC
+       LIMIT 50`,
+      [req.userId]
+    );
+
+    const uploads = result.rows.map(row => ({
+      id: row.id,
+      filename: row.filename,
+      fileSize: parseInt(row.file_size),
+      source: row.source,
+      format: row.import_format,
+      totalRows: parseInt(row.total_rows),
+      processedRows: parseInt(row.processed_rows),
+      progress: getUploadProgress(row),
+      insertedRows: parseInt(row.inserted_rows),
+      updatedRows: parseInt(row.updated_rows),
+      skippedRows: parseInt(row.skipped_rows),
+      errorRows: parseInt(row.error_rows),
+      status: row.status,
+      createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at.toISOString()
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        uploads,
+        count: uploads.length
+      }
+    });
+  } catch (error) {
+    console.error('Get uploads error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching upload sessions'
+    });
+  }
+});
+
+// Get single upload session details
+// Also the progress endpoint of background imports: poll it until status is completed, partial or failed
+app.get('/api/wearable/uploads/:id', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT id, filename, file_size, source, total_rows, processed_rows, inserted_rows, updated_rows,
+              skipped_rows, error_rows, field_mapping, unrecognized_fields, status, import_format,
+              mapping_template_id, field_units, error_message, error_details, earliest_timestamp,
+              started_at, completed_at, created_at, updated_at
+       FROM upload_sessions
+       WHERE id = $1 AND user_id = $2`,
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Upload session not found'
+      });
+    }
+
+    const upload = result.rows[0];
+
+    res.json({
+      success: true,
+      data: {
+        id: upload.id,
+        filename: upload.filename,
+        fileSize: parseInt(upload.file_size),
+        source: upload.source,
+        format: upload.import_format,
+        totalRows: parseInt(upload.total_rows),
+        processedRows: parseInt(upload.processed_rows),
+        progress: getUploadProgress(upload),
+        insertedRows: parseInt(upload.inserted_rows),
+        updatedRows: parseInt(upload.updated_rows),
+        skippedRows: parseInt(upload.skipped_rows),
+        errorRows: parseInt(upload.error_rows),
+        fieldMapping: upload.field_mapping || {},
+        unrecognizedFields: upload.unrecognized_fields || [],
+        templateId: upload.mapping_template_id || undefined,
+        units: upload.field_units || {},
+        status: upload.status,
+        errorMessage: upload.error_message,
+        errorDetails: upload.error_details || [],
+        earliestDate: upload.earliest_timestamp ? upload.earliest_timestamp.toISOString() : null,
+        startedAt: upload.started_at ? upload.started_at.toISOString() : null,
+        completedAt: upload.completed_at ? upload.completed_at.toISOString() : null,
+        createdAt: upload.created_at.toISOString(),
+        updatedAt: upload.updated_at.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Get upload session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching upload session'
+    });
+  }
+});
+
+// Delete upload session and associated data
+app.delete('/api/wearable/uploads/:id', authenticate, async (req, res) => {
+  try {
+    // First verify the upload session belongs to the user
+    const checkResult = await query(
+      'SELECT id, file_path FROM upload_sessions WHERE id = $1 AND user_id = $2',
+      [req.params.id, req.userId]
+    );
+
+    if (checkResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Upload session not found'
+      });
+    }
+
+    // Count records that will be deleted
+    const countResult = await query(
+      'SELECT COUNT(*) as count FROM wearable_data WHERE upload_session_id = $1',
+      [req.params.id]
+    );
+    const recordCount = parseInt(countResult.rows[0].count);
+
+    // Delete the upload session (cascade will delete associated wearable_data); an import still
+    // running stops at its next batch
+    await query('DELETE FROM upload_sessions WHERE id = $1', [req.params.id]);
+    await removeUploadFile(checkResult.rows[0].file_path);
+
+    res.json({
+      success: true,
+      message: `Upload session and ${recordCount} associated data records deleted successfully`,
+      data: {
+        deletedRecords: recordCount
+      }
+    });
+  } catch (error) {
+    console.error('Delete upload session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting upload session'
+    });
+  }
+});
+
+// Delete all uploads for user (cleanup)
+app.delete('/api/wearable/uploads', authenticate, async (req, res) => {
+  try {
+    // Get count before deletion
+    const countResult = await query(
+      'SELECT COUNT(*) as count FROM upload_sessions WHERE user_id = $1',
+      [req.userId]
+    );
+    const uploadCount = parseInt(countResult.rows[0].count);
+
+    // Delete all upload sessions for user (cascade will delete associated wearable_data)
+    const deleteResult = await query(
+      'DELETE FROM upload_sessions WHERE user_id = $1 RETURNING file_path',
+      [req.userId]
+    );
+    for (const { file_path } of deleteResult.rows) {
+      await removeUploadFile(file_path);
+    }
+
+    res.json({
+      success: true,
       message: `Deleted ${uploadCount} upload session(s) and associated data`,
       data: {
-        deletedCount: uploadCount
+        deletedCount: uploadCount
+      }
+    });
+  } catch (error) {
+    console.error('Delete all uploads error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting upload sessions'
+    });
+  }
+});
+
+// Cleanup orphaned wearable data (data without upload_session_id)
+app.post('/api/wearable/cleanup-orphaned', authenticate, async (req, res) => {
+  try {
+    // Count orphaned records
+    const countResult = await query(
+      `SELECT COUNT(*) as count 
+       FROM wearable_data 
+       WHERE user_id = $1 AND upload_session_id IS NULL`,
+      [req.userId]
+    );
+    const orphanedCount = parseInt(countResult.rows[0].count);
+
+    if (orphanedCount === 0) {
+      return res.json({
+        success: true,
+        message: 'No orphaned data found',
+        data: {
+          deletedCount: 0
+        }
+      });
+    }
+
+    // Delete orphaned records
+    await query(
+      `DELETE FROM wearable_data 
+       WHERE user_id = $1 AND upload_session_id IS NULL`,
+      [req.userId]
+    );
+
+    res.json({
+      success: true,
+      message: `Cleaned up ${orphanedCount} orphaned data record(s)`,
+      data: {
+        deletedCount: orphanedCount
+      }
+    });
+  } catch (error) {
+    console.error('Cleanup orphaned data error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error cleaning up orphaned data'
+    });
+  }
+});
+
+// Validate a mapping template's name, format, mapping and unit overrides, returning an error message or null
+const validateMappingTemplate = ({ name, format, mapping, units = {} }) => {
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+    return 'name is required (max 100 characters)';
+  }
+  if (!isKnownImporter(format)) {
+    return `format must be one of ${listImporters().map(({ id }) => id).join(', ')}`;
+  }
+  const mappingError = validateFieldMapping(mapping);
+  if (mappingError) {
+    return mappingError;
+  }
+  if (format !== 'generic_csv' && Object.values(mapping).includes('timestamp')) {
+    return 'Only generic CSV mappings can map a column to the timestamp';
+  }
+  return validateUnitOverrides(units);
+};
+
+// Get saved mapping templates (optionally only those for one format)
+app.get('/api/wearable/mapping-templates', authenticate, async (req, res) => {
+  try {
+    const params = [req.userId];
+    let formatFilter = '';
+    if (req.query.format) {
+      params.push(req.query.format);
+      formatFilter = ' AND import_format = $2';
+    }
+
+    const result = await query(
+      `SELECT * FROM wearable_mapping_templates WHERE user_id = $1${formatFilter} ORDER BY name`,
+      params
+    );
+
+    res.json({
+      success: true,
+      data: result.rows.map(transformMappingTemplateForAPI)
+    });
+  } catch (error) {
+    console.error('Get mapping templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching mapping templates'
+    });
+  }
+});
+
+// Save a column mapping as a template
+app.post('/api/wearable/mapping-templates', authenticate, async (req, res) => {
+  try {
+    const { name, format, mapping, units } = req.body || {};
+
+    const validationError = validateMappingTemplate({ name, format, mapping, units });
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    const result = await query(
+      `INSERT INTO wearable_mapping_templates (user_id, name, import_format, mapping, units)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [req.userId, name.trim(), format, JSON.stringify(mapping), JSON.stringify(units || {})]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: transformMappingTemplateForAPI(result.rows[0])
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A mapping template with this name already exists'
+      });
+    }
+    console.error('Create mapping template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving mapping template'
+    });
+  }
+});
+
+// Update a mapping template (uploads already imported with it are not changed)
+app.put('/api/wearable/mapping-templates/:id', authenticate, async (req, res) => {
+  try {
+    const { name, format, mapping, units } = req.body || {};
+
+    const validationError = validateMappingTemplate({ name, format, mapping, units });
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
+
+    const result = await query(
+      `UPDATE wearable_mapping_templates
+       SET name = $1, import_format = $2, mapping = $3, units = $4
+       WHERE id::text = $5 AND user_id = $6
+       RETURNING *`,
+      [name.trim(), format, JSON.stringify(mapping), JSON.stringify(units || {}), req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mapping template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: transformMappingTemplateForAPI(result.rows[0])
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A mapping template with this name already exists'
+      });
+    }
+    console.error('Update mapping template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating mapping template'
+    });
+  }
+});
+
+// Delete a mapping template (uploads made with it keep their recorded field mapping)
+app.delete('/api/wearable/mapping-templates/:id', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `DELETE FROM wearable_mapping_templates WHERE id::text = $1 AND user_id = $2 RETURNING id`,
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Mapping template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Mapping template deleted'
+    });
+  } catch (error) {
+    console.error('Delete mapping template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting mapping template'
+    });
+  }
+});
+
+// ============================================
+// CALENDAR & MIGRAINE DAY MARKERS ROUTES
+// ============================================
+
+// Sync all existing migraine entries to calendar
+app.post('/api/calendar/sync-entries', authenticate, async (req, res) => {
+  try {
+    // Get all unique local dates from migraine_entries for this user
+    const timezone = await getUserTimezone(req.userId);
+    const entriesResult = await query(
+      `SELECT DISTINCT ${localDateSql('start_time', '$2')} as date, COUNT(*) as count
+       FROM migraine_entries
+       WHERE user_id = $1
+       GROUP BY ${localDateSql('start_time', '$2')}`,
+      [req.userId, timezone]
+    );
+
+    let synced = 0;
+    let errors = 0;
+
+    for (const row of entriesResult.rows) {
+      try {
+        const dateStr = typeof row.date === 'string' 
+          ? row.date 
+          : row.date.toISOString().split('T')[0];
+        
+        await query(
+          `INSERT INTO migraine_day_markers (user_id, date, is_migraine_day)
+           VALUES ($1, $2::date, true)
+           ON CONFLICT (user_id, date)
+           DO UPDATE SET
+             is_migraine_day = true,
+             updated_at = CURRENT_TIMESTAMP`,
+          [req.userId, dateStr]
+        );
+        synced++;
+      } catch (error) {
+        console.error('Error syncing entry:', error);
+        errors++;
+      }
+    }
+
+    console.log(`[Calendar Sync] User ${req.userId} - Synced ${synced} days, ${errors} errors`);
+
+    res.json({
+      success: true,
+      data: {
+        synced,
+        errors,
+        total: entriesResult.rows.length
+      },
+      message: `Successfully synced ${synced} migraine days to calendar`
+    });
+  } catch (error) {
+    console.error('Calendar sync error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error syncing calendar'
+    });
+  }
+});
+
+// Get calendar data (days with wearable data and migraine markers)
+app.get('/api/calendar', authenticate, async (req, res) => {
+  try {
+    const { year, month } = req.query;
+    const timezone = await getUserTimezone(req.userId);
+    
+    // Default to the current month in the user's timezone if not specified
+    const [currentYear, currentMonth] = toLocalDateKey(new Date(), timezone).split('-').map(Number);
+    const targetYear = year ? parseInt(year) : currentYear;
+    const targetMonth = month ? parseInt(month) - 1 : currentMonth - 1;
+    
+    // Calculate the local days of the month and the instants they span
+    const monthKey = (offset) => new Date(Date.UTC(targetYear, targetMonth + offset, 1)).toISOString().split('T')[0];
+    const startDateStr = monthKey(0);
+    const endDateStr = addDaysToKey(monthKey(1), -1);
+    const startDate = startOfLocalDay(startDateStr, timezone);
+    const endDate = startOfLocalDay(monthKey(1), timezone);
+    
+    // Get local days with wearable data
+    const wearableDaysResult = await query(
+      `SELECT DISTINCT ${localDateSql('timestamp', '$4')} as date, COUNT(*) as data_points
+       FROM wearable_data
+       WHERE user_id = $1 
+         AND timestamp >= $2 
+         AND timestamp < $3
+       GROUP BY ${localDateSql('timestamp', '$4')}
+       ORDER BY ${localDateSql('timestamp', '$4')}`,
+      [req.userId, startDate, endDate, timezone]
+    );
+    
+    // Get migraine day markers for the month
+    
+    const migraineMarkersResult = await query(
+      `SELECT date, is_migraine_day, severity, notes
+       FROM migraine_day_markers
+       WHERE user_id = $1 
+         AND date >= $2 
+         AND date <= $3
+       ORDER BY date`,
+      [req.userId, startDateStr, endDateStr]
+    );
+    
+    // Get migraine entry counts per local day for this month
+    const migraineEntriesResult = await query(
+      `SELECT ${localDateSql('start_time', '$4')} as date, COUNT(*) as migraine_count
+       FROM migraine_entries
+       WHERE user_id = $1
+         AND start_time >= $2
+         AND start_time < $3
+       GROUP BY ${localDateSql('start_time', '$4')}
+       ORDER BY ${localDateSql('start_time', '$4')}`,
+      [req.userId, startDate, endDate, timezone]
+    );
+    
+    const migraineEntryCounts = new Map();
+    migraineEntriesResult.rows.forEach(row => {
+      const dateStr = typeof row.date === 'string' 
+        ? row.date 
+        : row.date.toISOString().split('T')[0];
+      migraineEntryCounts.set(dateStr, parseInt(row.migraine_count));
+    });
+    
+    // Combine the data - PostgreSQL DATE type returns as string in YYYY-MM-DD format
+    // But we need to handle it properly to avoid timezone issues
+    const daysWithData = new Set(wearableDaysResult.rows.map(row => {
+      // PostgreSQL DATE() function returns a DATE type which is already in YYYY-MM-DD format
+      if (typeof row.date === 'string') {
+        return row.date;
+      }
+      // If it's a Date object, extract local date components
+      const year = row.date.getFullYear();
+      const month = String(row.date.getMonth() + 1).padStart(2, '0');
+      const day = String(row.date.getDate()).padStart(2, '0');
+      return `${year}-${month}-${day}`;
+    }));
+    
+    const migraineMarkers = new Map();
+    migraineMarkersResult.rows.forEach(row => {
+      // PostgreSQL DATE type is already a string in YYYY-MM-DD format
+      const dateKey = typeof row.date === 'string' ? row.date : 
+        (() => {
+          const year = row.date.getFullYear();
+          const month = String(row.date.getMonth() + 1).padStart(2, '0');
+          const day = String(row.date.getDate()).padStart(2, '0');
+          return `${year}-${month}-${day}`;
+        })();
+      migraineMarkers.set(dateKey, {
+        isMigraineDay: row.is_migraine_day,
+        severity: row.severity,
+        notes: row.notes
+      });
+    });
+    
+    // Build calendar days from the month's date keys
+    const calendarDays = [];
+    
+    for (let dateStr = startDateStr; dateStr <= endDateStr; dateStr = addDaysToKey(dateStr, 1)) {
+      const marker = migraineMarkers.get(dateStr);
+      
+      // Find matching data point count
+      const dataPointRow = wearableDaysResult.rows.find(r => {
+        let rowDateStr;
+        if (typeof r.date === 'string') {
+          rowDateStr = r.date;
+        } else {
+          // Extract local date components to avoid timezone shift
+          const year = r.date.getFullYear();
+          const month = String(r.date.getMonth() + 1).padStart(2, '0');
+          const day = String(r.date.getDate()).padStart(2, '0');
+          rowDateStr = `${year}-${month}-${day}`;
+        }
+        return rowDateStr === dateStr;
+      });
+      
+      const migraineCount = migraineEntryCounts.get(dateStr) || 0;
+      
+      calendarDays.push({
+        date: dateStr,
+        hasData: daysWithData.has(dateStr),
+        dataPoints: dataPointRow ? parseInt(dataPointRow.data_points) : 0,
+        isMigraineDay: marker?.isMigraineDay || migraineCount > 0, // Auto-mark if entries exist
+        migraineCount: migraineCount,
+        severity: marker?.severity || null,
+        notes: marker?.notes || null
+      });
+    }
+    
+    // Count total migraine days (from markers + entries)
+    const uniqueMigraineDays = new Set();
+    
+    // Add manually marked days
+    migraineMarkersResult.rows.forEach(row => {
+      if (row.is_migraine_day) {
+        const dateStr = typeof row.date === 'string' ? row.date : row.date.toISOString().split('T')[0];
+        uniqueMigraineDays.add(dateStr);
+      }
+    });
+    
+    // Add days with migraine entries
+    migraineEntryCounts.forEach((count, dateStr) => {
+      if (count > 0) {
+        uniqueMigraineDays.add(dateStr);
+      }
+    });
+
+    // Count total days with data (wearable data + migraine entries)
+    const allDaysWithData = new Set([...daysWithData]);
+    migraineEntryCounts.forEach((count, dateStr) => {
+      if (count > 0) {
+        allDaysWithData.add(dateStr);
+      }
+    });
+    
+    res.json({
+      success: true,
+      data: {
+        year: targetYear,
+        month: targetMonth + 1,
+        days: calendarDays,
+        totalDaysWithData: allDaysWithData.size,
+        totalMigraineDays: uniqueMigraineDays.size
+      }
+    });
+  } catch (error) {
+    console.error('Get calendar error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching calendar data'
+    });
+  }
+});
+
+// Mark/unmark migraine day
+app.post('/api/calendar/migraine-day', authenticate, async (req, res) => {
+  try {
+    const { date, isMigraineDay, severity, notes } = req.body;
+    
+    if (!date) {
+      return res.status(400).json({
+        success: false,
+        message: 'Date is required'
+      });
+    }
+    
+    // Validate and parse date (handle YYYY-MM-DD format correctly)
+    let dateOnly;
+    if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      // Already in YYYY-MM-DD format, use directly
+      dateOnly = date;
+    } else {
+      // Parse as local date to avoid timezone issues
+      const dateObj = new Date(date);
+      if (isNaN(dateObj.getTime())) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid date format'
+        });
+      }
+      // Get local date components to avoid timezone shift
+      const year = dateObj.getFullYear();
+      const month = String(dateObj.getMonth() + 1).padStart(2, '0');
+      const day = String(dateObj.getDate()).padStart(2, '0');
+      dateOnly = `${year}-${month}-${day}`;
+    }
+    
+    // Upsert migraine day marker
+    const result = await query(
+      `INSERT INTO migraine_day_markers (user_id, date, is_migraine_day, severity, notes)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id, date) 
+       DO UPDATE SET
+         is_migraine_day = EXCLUDED.is_migraine_day,
+         severity = EXCLUDED.severity,
+         notes = EXCLUDED.notes,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING id, date, is_migraine_day, severity, notes, created_at, updated_at`,
+      [
+        req.userId,
+        dateOnly,
+        isMigraineDay !== undefined ? isMigraineDay : true,
+        severity !== undefined ? severity : null,
+        notes || null
+      ]
+    );
+    
+    const marker = result.rows[0];
+    
+    // PostgreSQL DATE type is already in YYYY-MM-DD format as string
+    const markerDate = typeof marker.date === 'string' 
+      ? marker.date 
+      : marker.date.toISOString().split('T')[0];
+    
+    res.json({
+      success: true,
+      data: {
+        id: marker.id,
+        date: markerDate,
+        isMigraineDay: marker.is_migraine_day,
+        severity: marker.severity,
+        notes: marker.notes,
+        createdAt: marker.created_at.toISOString(),
+        updatedAt: marker.updated_at.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Mark migraine day error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error marking migraine day'
+    });
+  }
+});
+
+// Remove migraine day marker
+app.delete('/api/calendar/migraine-day/:date', authenticate, async (req, res) => {
+  try {
+    const dateStr = req.params.date;
+    
+    // Validate and parse date (handle YYYY-MM-DD format correctly)
+    let dateOnly;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      // Already in YYYY-MM-DD format, use directly
+      dateOnly = dateStr;
+    } else {
+      // Parse as local date to avoid timezone issues
+      const dateObj = new Date(dateStr);
+      if (isNaN(dateObj.getTime())) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid date format'
+        });
+      }
+      // Get local date components to avoid timezone shift
+      const year = dateObj.getFullYear();
+      const month = String(dateObj.getMonth() + 1).padStart(2, '0');
+      const day = String(dateObj.getDate()).padStart(2, '0');
+      dateOnly = `${year}-${month}-${day}`;
+    }
+    
+    await query(
+      'DELETE FROM migraine_day_markers WHERE user_id = $1 AND date = $2',
+      [req.userId, dateOnly]
+    );
+    
+    res.json({
+      success: true,
+      message: 'Migraine day marker removed successfully'
+    });
+  } catch (error) {
+    console.error('Remove migraine day error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error removing migraine day marker'
+    });
+  }
+});
+
+// Remove all migraine day markers for user
+app.delete('/api/calendar/migraine-days/all', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      'DELETE FROM migraine_day_markers WHERE user_id = $1 RETURNING id',
+      [req.userId]
+    );
+    
+    res.json({
+      success: true,
+      message: 'All migraine day markers removed successfully',
+      data: {
+        deletedCount: result.rowCount || 0
+      }
+    });
+  } catch (error) {
+    console.error('Remove all migraine days error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error removing all migraine day markers'
+    });
+  }
+});
+
+// ============================================
+// SUMMARY INDICATORS ROUTES
+// ============================================
+
+// Process summary indicators (with caching)
+app.post('/api/summary/process', authenticate, async (req, res) => {
+  try {
+    const { forceReprocess = false } = req.body;
+    
+    // Check if processing is needed (cache check)
+    if (!forceReprocess) {
+      const lastProcessed = await query(
+        `SELECT MAX(processed_at) as last_processed
+         FROM summary_indicators
+         WHERE user_id = $1`,
+        [req.userId]
+      );
+      
+      if (lastProcessed.rows[0]?.last_processed) {
+        const lastProcessedTime = new Date(lastProcessed.rows[0].last_processed);
+        const now = new Date();
+        const hoursSinceLastProcess = (now - lastProcessedTime) / (1000 * 60 * 60);
+        
+        // If processed within last 6 hours, skip (cache)
+        if (hoursSinceLastProcess < 6) {
+          return res.json({
+            success: true,
+            data: {
+              cached: true,
+              lastProcessed: lastProcessedTime.toISOString(),
+              message: 'Summary indicators are up to date (cached)'
+            }
+          });
+        }
+      }
+    }
+
+    // Process summary indicators
+    const result = await processSummaryIndicators(req.userId, forceReprocess);
+    
+    res.json({
+      success: true,
+      data: {
+        cached: false,
+        ...result,
+        message: `Processed ${result.processed} days`
+      }
+    });
+  } catch (error) {
+    console.error('Process summary indicators error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error processing summary indicators',
+      error: error.message
+    });
+  }
+});
+
+// Get migraine correlation patterns for risk prediction
+app.get('/api/summary/correlations', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT pattern_type, pattern_name, pattern_definition,
+              correlation_strength, confidence_score, threshold_value,
+              avg_value_on_migraine_days, avg_value_on_normal_days,
+              migraine_days_count, total_days_analyzed,
+              last_updated_at
+       FROM migraine_correlations
+       WHERE user_id = $1
+       ORDER BY confidence_score DESC, ABS(correlation_strength) DESC`,
+      [req.userId]
+    );
+
+    const patterns = result.rows.map(row => ({
+      patternType: row.pattern_type,
+      patternName: row.pattern_name,
+      patternDefinition: row.pattern_definition,
+      correlationStrength: row.correlation_strength ? parseFloat(row.correlation_strength) : null,
+      confidenceScore: row.confidence_score ? parseFloat(row.confidence_score) : null,
+      thresholdValue: row.threshold_value ? parseFloat(row.threshold_value) : null,
+      avgValueOnMigraineDays: row.avg_value_on_migraine_days ? parseFloat(row.avg_value_on_migraine_days) : null,
+      avgValueOnNormalDays: row.avg_value_on_normal_days ? parseFloat(row.avg_value_on_normal_days) : null,
+      migraineDaysCount: parseInt(row.migraine_days_count) || 0,
+      totalDaysAnalyzed: parseInt(row.total_days_analyzed) || 0,
+      lastUpdated: row.last_updated_at.toISOString()
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        patterns,
+        count: patterns.length
+      }
+    });
+  } catch (error) {
+    console.error('Get migraine correlations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching migraine correlations'
+    });
+  }
+});
+
+// Hours of data a risk forecast is based on (longer lookbacks add daily summaries for earlier days)
+const DEFAULT_LOOKBACK_HOURS = 24;
+const MAX_LOOKBACK_HOURS = 14 * 24;
+// Hourly readings are only sent for the most recent part of the lookback
+const HOURLY_LOOKBACK_HOURS = 24;
+
+/**
+ * Read lookbackHours and horizonHours from a request body or query string
+ * @returns {Object} { lookbackHours, horizonHours }, or { error } when a value is out of range
+ */
+const parseForecastWindow = ({ lookbackHours, horizonHours } = {}) => {
+  const lookback = lookbackHours === undefined || lookbackHours === '' ? DEFAULT_LOOKBACK_HOURS : parseInt(lookbackHours);
+  const horizon = horizonHours === undefined || horizonHours === '' ? DEFAULT_FORECAST_HORIZON_HOURS : parseInt(horizonHours);
+
+  if (isNaN(lookback) || lookback < 1 || lookback > MAX_LOOKBACK_HOURS) {
+    return { error: `lookbackHours must be 1-${MAX_LOOKBACK_HOURS}` };
+  }
+  if (isNaN(horizon) || horizon < 1 || horizon > MAX_FORECAST_HORIZON_HOURS) {
+    return { error: `horizonHours must be 1-${MAX_FORECAST_HORIZON_HOURS}` };
+  }
+  return { lookbackHours: lookback, horizonHours: horizon };
+};
+
+/**
+ * Hourly wearable readings for risk prediction, or the hourly series of a what-if scenario
+ * @param {Object|null} scenario - Validated scenario definition (see resolveRiskScenario)
+ * @param {number} hours - Hours before `now` to read (default 24)
+ * @returns {Promise<Array>} Readings in API format
+ */
+const getRiskWearableData = async (userId, scenario, now, hours = HOURLY_LOOKBACK_HOURS) => {
+  const windowStart = new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+  if (scenario && scenario.base === 'constant') {
+    return buildScenarioReadings(scenario, [], now, hours);
+  }
+
+  const wearableDataResult = await query(
+    `SELECT timestamp, stress_value, recovery_value, heart_rate, hrv,
+            sleep_efficiency, sleep_heart_rate, skin_temperature, restless_periods
+     FROM wearable_data
+     WHERE user_id = $1 
+       AND timestamp >= $2 
+       AND timestamp <= $3
+     ORDER BY timestamp`,
+    [userId, windowStart, now]
+  );
+
+  const wearableData = wearableDataResult.rows.map(row => ({
+    timestamp: row.timestamp.toISOString(),
+    stress: row.stress_value ? parseFloat(row.stress_value) : null,
+    recovery: row.recovery_value ? parseFloat(row.recovery_value) : null,
+    heartRate: row.heart_rate ? parseFloat(row.heart_rate) : null,
+    hrv: row.hrv ? parseFloat(row.hrv) : null,
+    sleepEfficiency: row.sleep_efficiency ? parseFloat(row.sleep_efficiency) : null,
+    sleepHeartRate: row.sleep_heart_rate ? parseFloat(row.sleep_heart_rate) : null,
+    skinTemperature: row.skin_temperature ? parseFloat(row.skin_temperature) : null,
+    restlessPeriods: row.restless_periods ? parseFloat(row.restless_periods) : null
+  }));
+
+  // Scenarios based on recorded data overwrite parts of the real readings
+  return scenario ? buildScenarioReadings(scenario, wearableData, now, hours) : wearableData;
+};
+
+/**
+ * Daily summary indicators for the days of a long lookback before the hourly readings
+ * @param {Date} windowStart - Start of the lookback
+ * @param {Date} hourlyStart - Start of the hourly readings (days from this date on are covered by them)
+ * @returns {Promise<Array>} One entry per summarized day, oldest first
+ */
+const getRiskDailySummaries = async (userId, windowStart, hourlyStart) => {
+  // Summaries cover local days: from the day of windowStart up to the day of hourlyStart
+  const timezone = await getUserTimezone(userId);
+  const result = await query(
+    `SELECT period_start, avg_stress, max_stress, avg_recovery, avg_hrv, resting_heart_rate,
+            avg_sleep_efficiency, avg_skin_temperature, anomalies
+     FROM summary_indicators
+     WHERE user_id = $1
+       AND period_start >= $2
+       AND period_start < $3
+     ORDER BY period_start`,
+    [
+      userId,
+      startOfLocalDay(toLocalDateKey(windowStart, timezone), timezone),
+      startOfLocalDay(toLocalDateKey(hourlyStart, timezone), timezone)
+    ]
+  );
+
+  const toNumber = (value) => (value !== null ? parseFloat(value) : null);
+  return result.rows.map(row => ({
+    date: toLocalDateKey(row.period_start, timezone),
+    avgStress: toNumber(row.avg_stress),
+    maxStress: toNumber(row.max_stress),
+    avgRecovery: toNumber(row.avg_recovery),
+    avgHrv: toNumber(row.avg_hrv),
+    restingHeartRate: toNumber(row.resting_heart_rate),
+    avgSleepEfficiency: toNumber(row.avg_sleep_efficiency),
+    avgSkinTemperature: toNumber(row.avg_skin_temperature),
+    anomalies: (row.anomalies || []).map(anomaly => anomaly.label)
+  }));
+};
+
+/**
+ * Wearable input for a risk forecast ending at `now`
+ * Hourly readings cover at most the last HOURLY_LOOKBACK_HOURS; the rest of a longer lookback is
+ * described by daily summaries so prompts stay compact
+ * @returns {Promise<Object>} { windowStart, wearableData, dailySummaries }
+ */
+const getRiskInputs = async (userId, scenario, now, lookbackHours = DEFAULT_LOOKBACK_HOURS) => {
+  const windowStart = new Date(now.getTime() - lookbackHours * 60 * 60 * 1000);
+  const hourlyHours = Math.min(lookbackHours, HOURLY_LOOKBACK_HOURS);
+  const wearableData = await getRiskWearableData(userId, scenario, now, hourlyHours);
+  const dailySummaries = lookbackHours > HOURLY_LOOKBACK_HOURS
+    ? await getRiskDailySummaries(userId, windowStart, new Date(now.getTime() - hourlyHours * 60 * 60 * 1000))
+    : [];
+  return { windowStart, wearableData, dailySummaries };
+};
+
+/**
+ * What-if scenario requested for a risk forecast: a saved scenario (scenarioId), an inline definition
+ * (scenario) or the older flat simulated metrics (simulatedData)
+ * @returns {Promise<Object>} { scenario, scenarioId, name } (scenario is null for recorded data), or { error, status }
+ */
+const resolveRiskScenario = async (userId, { scenarioId, scenario, simulatedData } = {}) => {
+  if (scenarioId) {
+    const result = await query(
+      `SELECT id, name, definition FROM risk_scenarios WHERE id = $1 AND user_id = $2`,
+      [scenarioId, userId]
+    );
+    if (result.rows.length === 0) {
+      return { error: 'Scenario not found', status: 404 };
+    }
+    const saved = validateScenario(result.rows[0].definition);
+    if (saved.error) {
+      return { error: `Saved scenario is invalid: ${saved.error}`, status: 400 };
+    }
+    return { scenario: saved.scenario, scenarioId: result.rows[0].id, name: result.rows[0].name };
+  }
+
+  const definition = scenario || (simulatedData ? scenarioFromSimulatedMetrics(simulatedData) : null);
+  if (!definition) {
+    return { scenario: null, scenarioId: null, name: null };
+  }
+  const inline = validateScenario(definition);
+  if (inline.error) {
+    return { error: inline.error, status: 400 };
+  }
+  return { scenario: inline.scenario, scenarioId: null, name: scenario?.name || null };
+};
+
+/**
+ * Correlation patterns and migraine profile used in the risk analysis prompt
+ * @returns {Promise<Object>} { patterns, profile }
+ */
+const getRiskPromptContext = async (userId) => {
+  const correlationsResult = await query(
+    `SELECT pattern_type, pattern_name, pattern_definition, threshold_value,
+            correlation_strength, confidence_score, 
+            avg_value_on_migraine_days, avg_value_on_normal_days,
+            migraine_days_count, total_days_analyzed
+     FROM migraine_correlations
+     WHERE user_id = $1
+     ORDER BY ABS(correlation_strength) DESC`,
+    [userId]
+  );
+
+  const profileResult = await query(
+    `SELECT typical_duration, monthly_frequency, diagnosed_type,
+            experiences_nausea, experiences_vomit, experiences_photophobia, experiences_phonophobia,
+            typical_visual_symptoms, typical_sensory_symptoms, family_history
+     FROM user_profiles
+     WHERE user_id = $1`,
+    [userId]
+  );
+
+  const patterns = correlationsResult.rows.map(row => ({
+    patternType: row.pattern_type,
+    patternName: row.pattern_name,
+    patternDefinition: row.pattern_definition,
+    thresholdValue: row.threshold_value ? parseFloat(row.threshold_value) : null,
+    correlationStrength: row.correlation_strength ? parseFloat(row.correlation_strength) : null,
+    confidenceScore: row.confidence_score ? parseFloat(row.confidence_score) : null,
+    avgValueOnMigraineDays: row.avg_value_on_migraine_days ? parseFloat(row.avg_value_on_migraine_days) : null,
+    avgValueOnNormalDays: row.avg_value_on_normal_days ? parseFloat(row.avg_value_on_normal_days) : null,
+    migraineDaysCount: parseInt(row.migraine_days_count) || 0,
+    totalDaysAnalyzed: parseInt(row.total_days_analyzed) || 0
+  }));
+
+  const profile = profileResult.rows[0] ? {
+    typicalDuration: profileResult.rows[0].typical_duration,
+    monthlyFrequency: profileResult.rows[0].monthly_frequency,
+    diagnosedType: profileResult.rows[0].diagnosed_type,
+    experiencesNausea: profileResult.rows[0].experiences_nausea,
+    experiencesVomit: profileResult.rows[0].experiences_vomit,
+    experiencesPhotophobia: profileResult.rows[0].experiences_photophobia,
+    experiencesPhonophobia: profileResult.rows[0].experiences_phonophobia,
+    typicalVisualSymptoms: profileResult.rows[0].typical_visual_symptoms,
+    typicalSensorySymptoms: profileResult.rows[0].typical_sensory_symptoms,
+    familyHistory: profileResult.rows[0].family_history
+  } : null;
+
+  return { patterns, profile };
+};
+
+/**
+ * Store a risk analysis so it can be compared with the migraine days that followed
+ * LLM analyses pass the selected promptTemplate so the template version (and experiment arm) is recorded
+ * Analyses of a what-if scenario (resolveRiskScenario result) are stored as simulated with its definition
+ * @returns {Promise<string>} Assessment ID
+ */
+const saveRiskAssessment = async (userId, {
+  windowStart,
+  windowEnd,
+  lookbackHours = DEFAULT_LOOKBACK_HOURS,
+  horizonHours = DEFAULT_FORECAST_HORIZON_HOURS,
+  engine,
+  provider,
+  model,
+  prompt,
+  promptTemplate,
+  analysis,
+  scenario,
+  source = 'manual'
+}) => {
+  const result = await query(
+    `INSERT INTO risk_assessments
+       (user_id, window_start, window_end, engine, provider, model, prompt_hash,
+        risk_level, risk_category, confidence_level, analysis, is_simulated, simulated_data, source,
+        prompt_template_id, prompt_template_version, prompt_experiment_id, prompt_variant,
+        lookback_hours, horizon_hours, scenario_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
+     RETURNING id`,
+    [
+      userId,
+      windowStart,
+      windowEnd,
+      engine,
+      provider,
+      model || null,
+      prompt ? createHash('sha256').update(prompt).digest('hex') : null,
+      typeof analysis.riskLevel === 'number' ? Math.max(0, Math.min(100, Math.round(analysis.riskLevel))) : null,
+      analysis.riskCategory || null,
+      analysis.confidenceLevel || null,
+      JSON.stringify(analysis),
+      !!scenario?.scenario,
+      scenario?.scenario ? JSON.stringify({ name: scenario.name, ...scenario.scenario }) : null,
+      source,
+      promptTemplate?.templateId || null,
+      promptTemplate?.templateVersion || null,
+      promptTemplate?.experimentId || null,
+      promptTemplate?.variant || null,
+      lookbackHours,
+      horizonHours,
+      scenario?.scenarioId || null
+    ]
+  );
+  return result.rows[0].id;
+};
+
+/**
+ * Ask the LLM provider for a risk analysis and validate it, re-asking with the validation errors
+ * up to LLM_MAX_REPAIR_ATTEMPTS times
+ * @returns {Promise<Object>} { analysis (status 'ok' or 'unparseable'), attempts }
+ */
+const runLlmAnalysis = async (provider, prompt) => {
+  const messages = [{ role: 'user', content: prompt }];
+  let text = await provider.complete({ messages, temperature: 0.7 });
+  let parsed = parseAIResponse(text);
+  let attempts = 1;
+
+  while (!parsed.valid && attempts <= LLM_MAX_REPAIR_ATTEMPTS) {
+    console.warn(`AI response failed validation (attempt ${attempts}):`, parsed.errors);
+    messages.push({ role: 'assistant', content: text });
+    messages.push({ role: 'user', content: buildRepairMessage(parsed.errors) });
+    text = await provider.complete({ messages, temperature: 0.2 });
+    parsed = parseAIResponse(text);
+    attempts++;
+  }
+
+  const analysis = parsed.valid
+    ? { status: 'ok', ...parsed.analysis }
+    : { status: 'unparseable', validationErrors: parsed.errors, rawResponse: text };
+
+  return { analysis, attempts };
+};
+
+// Get data for risk prediction (lookback window + correlation patterns)
+// lookbackHours (default 24) beyond the last 24 hours adds one daily summary per earlier day
+app.get('/api/risk-prediction/data', authenticate, async (req, res) => {
+  try {
+    const forecastWindow = parseForecastWindow(req.query);
+    if (forecastWindow.error) {
+      return res.status(400).json({
+        success: false,
+        message: forecastWindow.error
+      });
+    }
+
+    const now = new Date();
+    const { windowStart, wearableData, dailySummaries } = await getRiskInputs(req.userId, null, now, forecastWindow.lookbackHours);
+
+    // Get correlation patterns
+    const correlationsResult = await query(
+      `SELECT pattern_type, pattern_name, pattern_definition, threshold_value,
+              correlation_strength, confidence_score
+       FROM migraine_correlations
+       WHERE user_id = $1
+       ORDER BY confidence_score DESC, ABS(correlation_strength) DESC`,
+      [req.userId]
+    );
+
+    // Format correlation patterns
+    const patterns = correlationsResult.rows.map(row => ({
+      patternType: row.pattern_type,
+      patternName: row.pattern_name,
+      patternDefinition: row.pattern_definition,
+      thresholdValue: row.threshold_value ? parseFloat(row.threshold_value) : null,
+      correlationStrength: row.correlation_strength ? parseFloat(row.correlation_strength) : null,
+      confidenceScore: row.confidence_score ? parseFloat(row.confidence_score) : null
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        wearableData,
+        dailySummaries,
+        patterns,
+        lookbackHours: forecastWindow.lookbackHours,
+        timeRange: {
+          start: windowStart.toISOString(),
+          end: now.toISOString()
+        },
+        dataPointsCount: wearableData.length,
+        patternsCount: patterns.length
+      }
+    });
+  } catch (error) {
+    console.error('Get risk prediction data error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching risk prediction data'
+    });
+  }
+});
+
+// Build AI prompt for migraine risk analysis (optionally from a what-if scenario: scenarioId or scenario)
+// With asOf, the prompt is rebuilt for that past moment: the lookback window ending then and the
+// correlations that could have been computed from earlier data
+// With templateId, that prompt template version is rendered instead of the active one
+// lookbackHours and horizonHours set the data window and the forecast length (defaults 24 and 12)
+app.post('/api/risk-prediction/prompt', authenticate, async (req, res) => {
+  try {
+    const { asOf, templateId } = req.body;
+
+    if (asOf && isNaN(new Date(asOf).getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'asOf must be a valid date'
+      });
+    }
+
+    const forecastWindow = parseForecastWindow(req.body);
+    if (forecastWindow.error) {
+      return res.status(400).json({
+        success: false,
+        message: forecastWindow.error
+      });
+    }
+
+    const simulation = await resolveRiskScenario(req.userId, req.body);
+    if (simulation.error) {
+      return res.status(simulation.status).json({
+        success: false,
+        message: simulation.error
+      });
+    }
+
+    // Wearable data for the lookback window (the most recent 24 hours may be simulated)
+    const now = asOf ? new Date(asOf) : new Date();
+    const { windowStart, wearableData, dailySummaries } = await getRiskInputs(req.userId, simulation.scenario, now, forecastWindow.lookbackHours);
+    const context = await getRiskPromptContext(req.userId);
+    const profile = context.profile;
+    const patterns = asOf ? await getPatternsKnownAt(req.userId, now) : context.patterns;
+
+    // Compare the (real or simulated) last 24 hours with the user's 28-day baseline
+    const baselineComparison = await getBaselineComparison(req.userId, wearableData, now);
+
+    // Build the prompt (previews never take part in a running experiment)
+    const promptTemplate = await selectPromptTemplate(req.userId, { templateId, assignVariant: false });
+    const prompt = buildRiskAnalysisPrompt({
+      wearableData,
+      dailySummaries,
+      patterns,
+      profile,
+      baselineComparison,
+      isSimulated: !!simulation.scenario,
+      ...forecastWindow
+    }, promptTemplate.body);
+
+    // Build summary for quick reference
+    const summary = buildDataSummary({
+      wearableData,
+      dailySummaries,
+      patterns,
+      profile,
+      baselineComparison
+    });
+
+    res.json({
+      success: true,
+      data: {
+        prompt,
+        summary,
+        metadata: {
+          generatedAt: new Date().toISOString(),
+          dataPointsCount: wearableData.length,
+          patternsCount: patterns.length,
+          hasProfile: !!profile,
+          usingSimulatedData: !!simulation.scenario,
+          scenarioId: simulation.scenarioId,
+          promptTemplateVersion: promptTemplate.templateVersion,
+          asOf: asOf ? now.toISOString() : null,
+          lookbackHours: forecastWindow.lookbackHours,
+          horizonHours: forecastWindow.horizonHours,
+          timeRange: {
+            start: windowStart.toISOString(),
+            end: now.toISOString()
+          }
+        }
+      }
+    });
+  } catch (error) {
+    if (error.code === 'TEMPLATE_NOT_FOUND') {
+      return res.status(404).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Build risk prediction prompt error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error building risk prediction prompt',
+      error: error.message
+    });
+  }
+});
+
+// Build AI prompt for migraine risk analysis (GET - fallback; lookbackHours and horizonHours as query parameters)
+app.get('/api/risk-prediction/prompt', authenticate, async (req, res) => {
+  try {
+    const forecastWindow = parseForecastWindow(req.query);
+    if (forecastWindow.error) {
+      return res.status(400).json({
+        success: false,
+        message: forecastWindow.error
+      });
+    }
+
+    const now = new Date();
+    const { windowStart, wearableData, dailySummaries } = await getRiskInputs(req.userId, null, now, forecastWindow.lookbackHours);
+    const { patterns, profile } = await getRiskPromptContext(req.userId);
+
+    // Compare the last 24 hours with the user's 28-day baseline
+    const baselineComparison = await getBaselineComparison(req.userId, wearableData, now);
+
+    // Build the prompt
+    const promptTemplate = await selectPromptTemplate(req.userId, { assignVariant: false });
+    const prompt = buildRiskAnalysisPrompt({
+      wearableData,
+      dailySummaries,
+      patterns,
+      profile,
+      baselineComparison,
+      ...forecastWindow
+    }, promptTemplate.body);
+
+    // Build summary for quick reference
+    const summary = buildDataSummary({
+      wearableData,
+      dailySummaries,
+      patterns,
+      profile,
+      baselineComparison
+    });
+
+    res.json({
+      success: true,
+      data: {
+        prompt,
+        summary,
+        metadata: {
+          generatedAt: new Date().toISOString(),
+          dataPointsCount: wearableData.length,
+          patternsCount: patterns.length,
+          hasProfile: !!profile,
+          lookbackHours: forecastWindow.lookbackHours,
+          horizonHours: forecastWindow.horizonHours,
+          timeRange: {
+            start: windowStart.toISOString(),
+            end: now.toISOString()
+          }
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Build risk prediction prompt error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error building risk prediction prompt',
+      error: error.message
+    });
+  }
+});
+
+// Score migraine risk with the local model (no AI agent needed; optional what-if scenario)
+// The model scores the last 24 hours (or a shorter lookbackHours) and is scaled to horizonHours
+app.post('/api/risk-prediction/local', authenticate, async (req, res) => {
+  try {
+    const forecastWindow = parseForecastWindow(req.body);
+    if (forecastWindow.error) {
+      return res.status(400).json({
+        success: false,
+        message: forecastWindow.error
+      });
+    }
+
+    const simulation = await resolveRiskScenario(req.userId, req.body);
+    if (simulation.error) {
+      return res.status(simulation.status).json({
+        success: false,
+        message: simulation.error
+      });
+    }
+
+    const now = new Date();
+    const { windowStart, wearableData } = await getRiskInputs(req.userId, simulation.scenario, now, forecastWindow.lookbackHours);
+
+    const analysis = await calculateLocalRisk(req.userId, wearableData, {
+      now,
+      horizonHours: forecastWindow.horizonHours,
+      isSimulated: !!simulation.scenario
+    });
+
+    const assessmentId = await saveRiskAssessment(req.userId, {
+      windowStart,
+      windowEnd: now,
+      ...forecastWindow,
+      engine: 'local',
+      provider: 'local',
+      model: analysis.model.type,
+      analysis,
+      scenario: simulation
+    });
+
+    res.json({
+      success: true,
+      data: {
+        ...analysis,
+        metadata: {
+          assessmentId,
+          generatedAt: new Date().toISOString(),
+          engine: 'local',
+          lookbackHours: forecastWindow.lookbackHours,
+          horizonHours: forecastWindow.horizonHours,
+          dataPointsCount: wearableData.length,
+          usingSimulatedData: !!simulation.scenario,
+          scenarioId: simulation.scenarioId,
+          timeRange: {
+            start: windowStart.toISOString(),
+            end: now.toISOString()
+          }
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Local risk prediction error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error calculating local risk prediction'
+    });
+  }
+});
+
+// Local model risk for each standard horizon (6, 12, 24 and 72 hours) from one scoring run
+// Used for the dashboard horizon strip; nothing is stored
+app.get('/api/risk-prediction/horizons', authenticate, async (req, res) => {
+  try {
+    const now = new Date();
+    const wearableData = await getRiskWearableData(req.userId, null, now);
+    const analysis = await calculateLocalRisk(req.userId, wearableData, { now });
+
+    res.json({
+      success: true,
+      data: {
+        horizons: FORECAST_HORIZONS.map(horizonHours => {
+          const { riskLevel, riskCategory } = projectDailyRisk(analysis.model.dailyProbability, horizonHours);
+          return { horizonHours, riskLevel, riskCategory };
+        }),
+        confidenceLevel: analysis.confidenceLevel,
+        modelType: analysis.model.type,
+        dataPointsCount: wearableData.length,
+        generatedAt: now.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Risk horizons error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error calculating risk horizons'
+    });
+  }
+});
+
+// Show which LLM provider the server is configured with (never includes keys)
+app.get('/api/risk-prediction/provider', authenticate, async (req, res) => {
+  try {
+    const provider = createLlmProvider();
+    res.json({
+      success: true,
+      data: {
+        provider: provider.name,
+        model: provider.model,
+        configured: provider.isConfigured()
+      }
+    });
+  } catch (error) {
+    console.error('Get LLM provider error:', error);
+    res.status(503).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// Run the AI risk analysis server-side: build the prompt, call the configured LLM provider and validate the result
+// Invalid responses are re-asked with the validation errors; if they still fail, status is 'unparseable'
+// The prompt template comes from templateId, the running A/B experiment or the active template
+// lookbackHours and horizonHours set the data window and the forecast length (defaults 24 and 12)
+// scenarioId or scenario replaces the last 24 hours with a what-if scenario; the assessment is stored as simulated
+app.post('/api/risk-prediction/analyze', authenticate, async (req, res) => {
+  try {
+    const { templateId } = req.body || {};
+
+    const forecastWindow = parseForecastWindow(req.body);
+    if (forecastWindow.error) {
+      return res.status(400).json({
+        success: false,
+        message: forecastWindow.error
+      });
+    }
+
+    const simulation = await resolveRiskScenario(req.userId, req.body);
+    if (simulation.error) {
+      return res.status(simulation.status).json({
+        success: false,
+        message: simulation.error
+      });
+    }
+
+    const now = new Date();
+    const { windowStart, wearableData, dailySummaries } = await getRiskInputs(req.userId, simulation.scenario, now, forecastWindow.lookbackHours);
+    const { patterns, profile } = await getRiskPromptContext(req.userId);
+    const baselineComparison = await getBaselineComparison(req.userId, wearableData, now);
+
+    const promptTemplate = await selectPromptTemplate(req.userId, { templateId });
+    const prompt = buildRiskAnalysisPrompt({
+      wearableData,
+      dailySummaries,
+      patterns,
+      profile,
+      baselineComparison,
+      isSimulated: !!simulation.scenario,
+      ...forecastWindow
+    }, promptTemplate.body);
+
+    const provider = createLlmProvider();
+    const { analysis, attempts } = await runLlmAnalysis(provider, prompt);
+
+    const assessmentId = await saveRiskAssessment(req.userId, {
+      windowStart,
+      windowEnd: now,
+      ...forecastWindow,
+      engine: 'llm',
+      provider: provider.name,
+      model: provider.model,
+      prompt,
+      promptTemplate,
+      analysis,
+      scenario: simulation
+    });
+
+    res.json({
+      success: true,
+      data: {
+        ...analysis,
+        metadata: {
+          attempts,
+          assessmentId,
+          generatedAt: new Date().toISOString(),
+          engine: 'llm',
+          provider: provider.name,
+          model: provider.model,
+          promptTemplateVersion: promptTemplate.templateVersion,
+          promptVariant: promptTemplate.variant,
+          lookbackHours: forecastWindow.lookbackHours,
+          horizonHours: forecastWindow.horizonHours,
+          dataPointsCount: wearableData.length,
+          dailySummaryDays: dailySummaries.length,
+          patternsCount: patterns.length,
+          usingSimulatedData: !!simulation.scenario,
+          scenarioId: simulation.scenarioId,
+          timeRange: {
+            start: windowStart.toISOString(),
+            end: now.toISOString()
+          }
+        }
+      }
+    });
+  } catch (error) {
+    console.error('AI risk analysis error:', error);
+    if (error.code === 'TEMPLATE_NOT_FOUND') {
+      return res.status(404).json({
+        success: false,
+        message: error.message
+      });
+    }
+    if (error.code === 'LLM_NOT_CONFIGURED') {
+      return res.status(503).json({
+        success: false,
+        message: error.message
+      });
+    }
+    if (error.code === 'LLM_REQUEST_FAILED') {
+      return res.status(502).json({
+        success: false,
+        message: 'The AI provider could not complete the analysis. Please try again later.'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Error running AI risk analysis'
+    });
+  }
+});
+
+// Backtest the risk engine over past days: each day is scored from the lookback window ending at the
+// forecast hour (local time of the user's timezone) and only the correlations known at that time,
+// then compared with what happened in the following horizonHours
+app.post('/api/risk-prediction/backtest', authenticate, async (req, res) => {
+  try {
+    const {
+      startDate,
+      endDate,
+      engine = 'local',
+      hour = DEFAULT_FORECAST_HOUR,
+      threshold = 50,
+      templateId
+    } = req.body || {};
+
+    if (!isCheckinDate(startDate) || !isCheckinDate(endDate) || startDate > endDate) {
+      return res.status(400).json({
+        success: false,
+        message: 'startDate and endDate must be YYYY-MM-DD dates with startDate <= endDate'
+      });
+    }
+
+    if (!MAX_BACKTEST_DAYS[engine]) {
+      return res.status(400).json({
+        success: false,
+        message: 'engine must be "local" or "llm"'
+      });
+    }
+
+    const forecastHour = parseInt(hour);
+    const alertThreshold = parseFloat(threshold);
+    if (isNaN(forecastHour) || forecastHour < 0 || forecastHour > 23 || isNaN(alertThreshold) || alertThreshold < 0 || alertThreshold > 100) {
+      return res.status(400).json({
+        success: false,
+        message: 'hour must be 0-23 and threshold 0-100'
+      });
+    }
+
+    const forecastWindow = parseForecastWindow(req.body);
+    if (forecastWindow.error) {
+      return res.status(400).json({
+        success: false,
+        message: forecastWindow.error
+      });
+    }
+
+    const rangeDays = Math.round((new Date(endDate) - new Date(startDate)) / (24 * 60 * 60 * 1000)) + 1;
+    if (rangeDays > MAX_BACKTEST_DAYS[engine]) {
+      return res.status(400).json({
+        success: false,
+        message: `Backtests with the ${engine} engine are limited to ${MAX_BACKTEST_DAYS[engine]} days`
+      });
+    }
+
+    const provider = engine === 'llm' ? createLlmProvider() : null;
+    const { profile } = engine === 'llm' ? await getRiskPromptContext(req.userId) : {};
+    const promptTemplate = engine === 'llm'
+      ? await selectPromptTemplate(req.userId, { templateId, assignVariant: false })
+      : null;
+
+    const runForecast = async ({ windowEnd, patterns }) => {
+      const { wearableData, dailySummaries } = await getRiskInputs(req.userId, null, windowEnd, forecastWindow.lookbackHours);
+      if (wearableData.length === 0) return null;
+
+      if (engine === 'local') {
+        const analysis = await calculateLocalRisk(req.userId, wearableData, {
+          now: windowEnd,
+          horizonHours: forecastWindow.horizonHours,
+          patterns,
+          pointInTime: true
+        });
+        return { analysis, dataPoints: wearableData.length };
+      }
+
+      const baselineComparison = await getBaselineComparison(req.userId, wearableData, windowEnd);
+      const prompt = buildRiskAnalysisPrompt({
+        wearableData,
+        dailySummaries,
+        patterns,
+        profile,
+        baselineComparison,
+        isSimulated: false,
+        ...forecastWindow
+      }, promptTemplate.body);
+      const { analysis } = await runLlmAnalysis(provider, prompt);
+      return { analysis, dataPoints: wearableData.length };
+    };
+
+    const report = await runBacktest(
+      req.userId,
+      { startDate, endDate, hour: forecastHour, threshold: alertThreshold, ...forecastWindow },
+      runForecast
+    );
+
+    res.json({
+      success: true,
+      data: {
+        ...report,
+        engine,
+        provider: provider ? provider.name : 'local',
+        model: provider ? provider.model : null,
+        promptTemplateVersion: promptTemplate ? promptTemplate.templateVersion : null
+      }
+    });
+  } catch (error) {
+    console.error('Risk backtest error:', error);
+    if (error.code === 'TEMPLATE_NOT_FOUND') {
+      return res.status(404).json({
+        success: false,
+        message: error.message
+      });
+    }
+    if (error.code === 'LLM_NOT_CONFIGURED') {
+      return res.status(503).json({
+        success: false,
+        message: error.message
+      });
+    }
+    if (error.code === 'LLM_REQUEST_FAILED') {
+      return res.status(502).json({
+        success: false,
+        message: 'The AI provider could not complete the backtest. Please try again later.'
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Error running risk backtest'
+    });
+  }
+});
+
+// Get summary indicators for a date range
+app.get('/api/summary', authenticate, async (req, res) => {
+  try {
+    const { startDate, endDate, limit = '30' } = req.query;
+    
+    let queryText = `
+      SELECT id, period_start, period_end,
+             avg_stress, max_stress, stress_volatility, stress_trend,
+             avg_recovery, min_recovery, recovery_trend,
+             avg_heart_rate, resting_heart_rate, max_heart_rate,
+             avg_hrv, hrv_trend, hrv_volatility,
+             avg_sleep_efficiency, avg_sleep_heart_rate, avg_restless_periods,
+             avg_skin_temperature, temperature_variation,
+             overall_wellness_score, risk_factors, data_points_count,
+             baseline, anomalies, processed_at, created_at, updated_at
+      FROM summary_indicators
+      WHERE user_id = $1
+    `;
+    const queryParams = [req.userId];
+    const timezone = await getUserTimezone(req.userId);
+
+    if (startDate) {
+      queryText += ` AND period_start >= $${queryParams.length + 1}`;
+      queryParams.push(localDateBound(startDate, timezone));
+    }
+
+    if (endDate) {
+      queryText += ` AND period_end <= $${queryParams.length + 1}`;
+      queryParams.push(localDateBound(endDate, timezone, { end: true }));
+    }
+
+    queryText += ` ORDER BY period_start DESC LIMIT $${queryParams.length + 1}`;
+    queryParams.push(parseInt(limit));
+
+    const result = await query(queryText, queryParams);
+
+    const summaries = result.rows.map(row => ({
+      id: row.id,
+      periodStart: row.period_start.toISOString(),
+      periodEnd: row.period_end.toISOString(),
+      stress: {
+        avg: row.avg_stress ? parseFloat(row.avg_stress) : null,
+        max: row.max_stress ? parseFloat(row.max_stress) : null,
+        volatility: row.stress_volatility ? parseFloat(row.stress_volatility) : null,
+        trend: row.stress_trend
+      },
+      recovery: {
+        avg: row.avg_recovery ? parseFloat(row.avg_recovery) : null,
+        min: row.min_recovery ? parseFloat(row.min_recovery) : null,
+        trend: row.recovery_trend
+      },
+      heartRate: {
+        avg: row.avg_heart_rate ? parseFloat(row.avg_heart_rate) : null,
+        resting: row.resting_heart_rate ? parseFloat(row.resting_heart_rate) : null,
+        max: row.max_heart_rate ? parseFloat(row.max_heart_rate) : null
+      },
+      hrv: {
+        avg: row.avg_hrv ? parseFloat(row.avg_hrv) : null,
+        trend: row.hrv_trend,
+        volatility: row.hrv_volatility ? parseFloat(row.hrv_volatility) : null
+      },
+      sleep: {
+        efficiency: row.avg_sleep_efficiency ? parseFloat(row.avg_sleep_efficiency) : null,
+        heartRate: row.avg_sleep_heart_rate ? parseFloat(row.avg_sleep_heart_rate) : null,
+        restlessPeriods: row.avg_restless_periods ? parseFloat(row.avg_restless_periods) : null
+      },
+      temperature: {
+        avg: row.avg_skin_temperature ? parseFloat(row.avg_skin_temperature) : null,
+        variation: row.temperature_variation ? parseFloat(row.temperature_variation) : null
+      },
+      overallWellnessScore: row.overall_wellness_score ? parseFloat(row.overall_wellness_score) : null,
+      riskFactors: row.risk_factors || [],
+      baseline: row.baseline || null,
+      anomalies: row.anomalies || [],
+      dataPointsCount: parseInt(row.data_points_count) || 0,
+      processedAt: row.processed_at.toISOString(),
+      createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at.toISOString()
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        summaries,
+        count: summaries.length
+      }
+    });
+  } catch (error) {
+    console.error('Get summary indicators error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching summary indicators'
+    });
+  }
+});
+
+// Get wearable data statistics
+app.get('/api/wearable/statistics', authenticate, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    
+    let queryText = `
+      SELECT 
+        COUNT(*) as total_records,
+        AVG(stress_value) as avg_stress,
+        AVG(recovery_value) as avg_recovery,
+        AVG(heart_rate) as avg_heart_rate,
+        AVG(hrv) as avg_hrv,
+        AVG(sleep_efficiency) as avg_sleep_efficiency,
+        AVG(sleep_heart_rate) as avg_sleep_heart_rate,
+        AVG(skin_temperature) as avg_skin_temperature,
+        MIN(timestamp) as earliest_date,
+        MAX(timestamp) as latest_date
+      FROM wearable_data
+      WHERE user_id = $1
+    `;
+    const queryParams = [req.userId];
+    const timezone = await getUserTimezone(req.userId);
+
+    if (startDate) {
+      queryText += ` AND timestamp >= $${queryParams.length + 1}`;
+      queryParams.push(localDateBound(startDate, timezone));
+    }
+
+    if (endDate) {
+      queryText += ` AND timestamp <= $${queryParams.length + 1}`;
+      queryParams.push(localDateBound(endDate, timezone, { end: true }));
+    }
+
+    const result = await query(queryText, queryParams);
+    const stats = result.rows[0];
+
+    // Get hourly breakdown for sample day (per local day)
+    const hourlyResult = await query(
+      `SELECT ${localDateSql('timestamp', '$2')} as date, COUNT(*) as entries_per_day
+       FROM wearable_data
+       WHERE user_id = $1
+       GROUP BY ${localDateSql('timestamp', '$2')}
+       ORDER BY date DESC
+       LIMIT 10`,
+      [req.userId, timezone]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        totalRecords: parseInt(stats.total_records) || 0,
+        averages: {
+          stress: stats.avg_stress ? parseFloat(stats.avg_stress) : null,
+          recovery: stats.avg_recovery ? parseFloat(stats.avg_recovery) : null,
+          heartRate: stats.avg_heart_rate ? parseFloat(stats.avg_heart_rate) : null,
+          hrv: stats.avg_hrv ? parseFloat(stats.avg_hrv) : null,
+          sleepEfficiency: stats.avg_sleep_efficiency ? parseFloat(stats.avg_sleep_efficiency) : null,
+          sleepHeartRate: stats.avg_sleep_heart_rate ? parseFloat(stats.avg_sleep_heart_rate) : null,
+          skinTemperature: stats.avg_skin_temperature ? parseFloat(stats.avg_skin_temperature) : null
+        },
+        dateRange: {
+          earliest: stats.earliest_date ? stats.earliest_date.toISOString() : null,
+          latest: stats.latest_date ? stats.latest_date.toISOString() : null
+        },
+        entriesPerDay: hourlyResult.rows.map(r => ({
+          date: typeof r.date === 'string' ? r.date : r.date.toISOString().split('T')[0],
+          count: parseInt(r.entries_per_day)
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Get wearable statistics error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching wearable statistics'
+    });
+  }
+});
+
+// ============================================
+// RISK ASSESSMENT HISTORY ROUTES
+// ============================================
+
+// Get stored risk assessments with the migraine days in the same range
+app.get('/api/risk-assessments', authenticate, async (req, res) => {
+  try {
+    const { startDate, endDate, includeSimulated } = req.query;
+
+    if ((startDate && !isCheckinDate(startDate)) || (endDate && !isCheckinDate(endDate))) {
+      return res.status(400).json({
+        success: false,
+        message: 'startDate and endDate must be in YYYY-MM-DD format'
+      });
+    }
+
+    // Default to the last 30 days (days in the user's timezone)
+    const timezone = await getUserTimezone(req.userId);
+    const end = endDate || toLocalDateKey(new Date(), timezone);
+    const start = startDate || addDaysToKey(end, -29);
+
+    let queryText = `
+      SELECT id, window_start, window_end, lookback_hours, horizon_hours, engine, provider, model, prompt_hash,
+             prompt_template_version, prompt_experiment_id, prompt_variant, risk_level, risk_category, confidence_level, is_simulated, simulated_data, scenario_id, source, created_at
+      FROM risk_assessments
+      WHERE user_id = $1
+        AND created_at >= $2
+        AND created_at <= $3`;
+    if (includeSimulated !== 'true') {
+      queryText += ' AND is_simulated = false';
+    }
+    queryText += ' ORDER BY created_at LIMIT 1000';
+
+    const assessmentsResult = await query(queryText, [
+      req.userId,
+      localDateBound(start, timezone),
+      localDateBound(end, timezone, { end: true })
+    ]);
+
+    const markersResult = await query(
+      `SELECT date
+       FROM migraine_day_markers
+       WHERE user_id = $1 AND is_migraine_day = true AND date >= $2 AND date <= $3
+       ORDER BY date`,
+      [req.userId, start, end]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        assessments: assessmentsResult.rows.map(row => transformRiskAssessmentForAPI(row)),
+        migraineDays: markersResult.rows.map(row => toDateColumnKey(row.date)),
+        startDate: start,
+        endDate: end
+      }
+    });
+  } catch (error) {
+    console.error('Get risk assessments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching risk assessments'
+    });
+  }
+});
+
+// Forecast accuracy of stored risk assessments (hit rate, Brier score, calibration, ROC/AUC)
+// Must be registered before /api/risk-assessments/:id
+app.get('/api/risk-assessments/accuracy', authenticate, async (req, res) => {
+  try {
+    const threshold = req.query.threshold !== undefined ? parseInt(req.query.threshold) : undefined;
+
+    if (threshold !== undefined && (isNaN(threshold) || threshold < 1 || threshold > 100)) {
+      return res.status(400).json({
+        success: false,
+        message: 'threshold must be a number between 1 and 100'
+      });
+    }
+
+    const evaluation = await evaluateForecasts(req.userId, {
+      threshold,
+      includeSimulated: req.query.includeSimulated === 'true'
+    });
+
+    res.json({
+      success: true,
+      data: evaluation
+    });
+  } catch (error) {
+    console.error('Forecast accuracy error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error evaluating forecast accuracy'
+    });
+  }
+});
+
+// Get a single risk assessment with its full analysis
+app.get('/api/risk-assessments/:id', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT id, window_start, window_end, lookback_hours, horizon_hours, engine, provider, model, prompt_hash,
+              prompt_template_version, prompt_experiment_id, prompt_variant, risk_level, risk_category, confidence_level, analysis, is_simulated, simulated_data, scenario_id, source, created_at
+       FROM risk_assessments
+       WHERE id = $1 AND user_id = $2`,
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Risk assessment not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: transformRiskAssessmentForAPI(result.rows[0], true)
+    });
+  } catch (error) {
+    console.error('Get risk assessment error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching risk assessment'
+    });
+  }
+});
+
+// ============================================
+// PROMPT TEMPLATE ROUTES
+// ============================================
+
+// List prompt template versions with the built-in template and the available variables
+app.get('/api/prompt-templates', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT * FROM prompt_templates
+       WHERE user_id = $1
+       ORDER BY name, version DESC`,
+      [req.userId]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        templates: result.rows.map(transformPromptTemplateForAPI),
+        builtIn: {
+          label: BUILTIN_TEMPLATE_VERSION,
+          body: DEFAULT_RISK_PROMPT_TEMPLATE,
+          isActive: !result.rows.some(row => row.is_active)
+        },
+        variables: Object.entries(PROMPT_TEMPLATE_VARIABLES).map(([name, description]) => ({
+          name,
+          description,
+          required: REQUIRED_PROMPT_VARIABLES.includes(name)
+        }))
       }
     });
   } catch (error) {
-    console.error('Delete all uploads error:', error);
+    console.error('Get prompt templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching prompt templates'
+    });
+  }
+});
+
+// Save a template; an existing name gets a new version (earlier versions are never changed)
+app.post('/api/prompt-templates', authenticate, async (req, res) => {
+  try {
+    const { name, body, notes } = req.body || {};
+    const trimmedName = typeof name === 'string' ? name.trim() : '';
+
+    if (!trimmedName || trimmedName.length > 100 || trimmedName.toLowerCase() === 'builtin') {
+      return res.status(400).json({
+        success: false,
+        message: 'name is required (max 100 characters) and cannot be "builtin"'
+      });
+    }
+
+    const errors = validatePromptTemplate(body);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: errors.join('; '),
+        errors
+      });
+    }
+
+    const row = await createPromptTemplateVersion(req.userId, { name: trimmedName, body, notes });
+
+    res.status(201).json({
+      success: true,
+      data: transformPromptTemplateForAPI(row)
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'Another version of this template was saved at the same time. Please try again.'
+      });
+    }
+    console.error('Create prompt template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving prompt template'
+    });
+  }
+});
+
+// Go back to the built-in template for LLM analyses
+// Must be registered before /api/prompt-templates/:id
+app.post('/api/prompt-templates/deactivate', authenticate, async (req, res) => {
+  try {
+    await query(
+      `UPDATE prompt_templates SET is_active = false WHERE user_id = $1 AND is_active = true`,
+      [req.userId]
+    );
+
+    res.json({
+      success: true,
+      message: 'The built-in template is now used'
+    });
+  } catch (error) {
+    console.error('Deactivate prompt templates error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error switching to the built-in template'
+    });
+  }
+});
+
+// Get a single template version
+app.get('/api/prompt-templates/:id', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT * FROM prompt_templates WHERE id = $1 AND user_id = $2`,
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prompt template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: transformPromptTemplateForAPI(result.rows[0])
+    });
+  } catch (error) {
+    console.error('Get prompt template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching prompt template'
+    });
+  }
+});
+
+// Use a template version for LLM analyses when no experiment is running
+app.put('/api/prompt-templates/:id/activate', authenticate, async (req, res) => {
+  let client;
+  try {
+    client = await getClient();
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE prompt_templates SET is_active = false WHERE user_id = $1 AND is_active = true`,
+      [req.userId]
+    );
+    const result = await client.query(
+      `UPDATE prompt_templates SET is_active = true
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        message: 'Prompt template not found'
+      });
+    }
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      data: transformPromptTemplateForAPI(result.rows[0])
+    });
+  } catch (error) {
+    if (client) {
+      await client.query('ROLLBACK').catch(() => {});
+    }
+    console.error('Activate prompt template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error activating prompt template'
+    });
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+});
+
+// Delete a template version (assessments keep its label; versions used by an experiment cannot be deleted)
+app.delete('/api/prompt-templates/:id', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `DELETE FROM prompt_templates WHERE id = $1 AND user_id = $2 RETURNING id`,
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prompt template not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Prompt template deleted'
+    });
+  } catch (error) {
+    if (error.code === '23503') {
+      return res.status(409).json({
+        success: false,
+        message: 'This template version is part of a prompt experiment and cannot be deleted'
+      });
+    }
+    console.error('Delete prompt template error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting prompt template'
+    });
+  }
+});
+
+// List prompt experiments (newest first) with forecast accuracy per arm
+app.get('/api/prompt-experiments', authenticate, async (req, res) => {
+  try {
+    const threshold = req.query.threshold !== undefined ? parseInt(req.query.threshold) : undefined;
+
+    if (threshold !== undefined && (isNaN(threshold) || threshold < 1 || threshold > 100)) {
+      return res.status(400).json({
+        success: false,
+        message: 'threshold must be a number between 1 and 100'
+      });
+    }
+
+    const result = await query(
+      `${PROMPT_EXPERIMENT_SELECT}
+       WHERE e.user_id = $1
+       ORDER BY e.started_at DESC`,
+      [req.userId]
+    );
+
+    const experiments = [];
+    for (const row of result.rows) {
+      experiments.push({
+        ...transformPromptExperimentForAPI(row),
+        results: await evaluatePromptExperiment(req.userId, row.id, { threshold })
+      });
+    }
+
+    res.json({
+      success: true,
+      data: experiments
+    });
+  } catch (error) {
+    console.error('Get prompt experiments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching prompt experiments'
+    });
+  }
+});
+
+// Start an A/B experiment between two template versions (one running experiment per user)
+app.post('/api/prompt-experiments', authenticate, async (req, res) => {
+  try {
+    const { name, templateAId, templateBId, splitPercent = 50 } = req.body || {};
+    const trimmedName = typeof name === 'string' ? name.trim() : '';
+    const split = parseInt(splitPercent);
+
+    if (!trimmedName || trimmedName.length > 100) {
+      return res.status(400).json({
+        success: false,
+        message: 'name is required (max 100 characters)'
+      });
+    }
+
+    if (!templateAId || !templateBId || templateAId === templateBId) {
+      return res.status(400).json({
+        success: false,
+        message: 'templateAId and templateBId must be two different template versions'
+      });
+    }
+
+    if (isNaN(split) || split < 1 || split > 99) {
+      return res.status(400).json({
+        success: false,
+        message: 'splitPercent must be between 1 and 99'
+      });
+    }
+
+    const templatesResult = await query(
+      `SELECT id FROM prompt_templates WHERE user_id = $1 AND id = ANY($2::uuid[])`,
+      [req.userId, [templateAId, templateBId]]
+    );
+    if (templatesResult.rows.length !== 2) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prompt template not found'
+      });
+    }
+
+    const insertResult = await query(
+      `INSERT INTO prompt_experiments (user_id, name, template_a_id, template_b_id, split_percent)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [req.userId, trimmedName, templateAId, templateBId, split]
+    );
+
+    const result = await query(
+      `${PROMPT_EXPERIMENT_SELECT}
+       WHERE e.id = $1`,
+      [insertResult.rows[0].id]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: transformPromptExperimentForAPI(result.rows[0])
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A prompt experiment is already running. Stop it before starting another.'
+      });
+    }
+    console.error('Create prompt experiment error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error deleting upload sessions'
+      message: 'Error starting prompt experiment'
     });
   }
 });
 
-// Cleanup orphaned wearable data (data without upload_session_id)
-app.post('/api/wearable/cleanup-orphaned', authenticate, async (req, res) => {
+// Stop a running experiment (its assessments and results are kept)
+app.put('/api/prompt-experiments/:id/stop', authenticate, async (req, res) => {
   try {
-    // Count orphaned records
-    const countResult = await query(
-      `SELECT COUNT(*) as count 
-       FROM wearable_data 
-       WHERE user_id = $1 AND upload_session_id IS NULL`,
-      [req.userId]
+    const updateResult = await query(
+      `UPDATE prompt_experiments
+       SET status = 'stopped', stopped_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND status = 'running'
+       RETURNING id`,
+      [req.params.id, req.userId]
     );
-    const orphanedCount = parseInt(countResult.rows[0].count);
 
-    if (orphanedCount === 0) {
-      return res.json({
-        success: true,
-        message: 'No orphaned data found',
-        data: {
-          deletedCount: 0
-        }
+    if (updateResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Running prompt experiment not found'
       });
     }
 
-    // Delete orphaned records
-    await query(
-      `DELETE FROM wearable_data 
-       WHERE user_id = $1 AND upload_session_id IS NULL`,
-      [req.userId]
+    const result = await query(
+      `${PROMPT_EXPERIMENT_SELECT}
+       WHERE e.id = $1`,
+      [req.params.id]
     );
 
     res.json({
       success: true,
-      message: `Cleaned up ${orphanedCount} orphaned data record(s)`,
-      data: {
-        deletedCount: orphanedCount
-      }
+      data: transformPromptExperimentForAPI(result.rows[0])
     });
   } catch (error) {
-    console.error('Cleanup orphaned data error:', error);
+    console.error('Stop prompt experiment error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error cleaning up orphaned data'
+      message: 'Error stopping prompt experiment'
     });
   }
 });
 
 // ============================================
-// CALENDAR & MIGRAINE DAY MARKERS ROUTES
+// SCHEDULED FORECASTS & NOTIFICATION ROUTES
 // ============================================
 
-// Sync all existing migraine entries to calendar
-app.post('/api/calendar/sync-entries', authenticate, async (req, res) => {
+/**
+ * Job handler: produce a scheduled risk forecast with the user's engine and alert them when the
+ * risk crosses their threshold (the previous forecast was below it, or there was none)
+ * @returns {Promise<Object>} Job result { assessmentId, riskLevel, alerted }
+ */
+const runScheduledForecast = async (job) => {
+  const userId = job.user_id;
+  const { slot } = job.payload;
+  const settings = await getNotificationSettings(userId);
+
+  const now = new Date();
+  const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const wearableData = await getRiskWearableData(userId, null, now);
+
+  let analysis;
+  let provider = 'local';
+  let model;
+  let prompt = null;
+  let promptTemplate = null;
+  if (settings.forecastEngine === 'llm') {
+    const llmProvider = createLlmProvider();
+    const { patterns, profile } = await getRiskPromptContext(userId);
+    const baselineComparison = await getBaselineComparison(userId, wearableData, now);
+    promptTemplate = await selectPromptTemplate(userId);
+    prompt = buildRiskAnalysisPrompt({ wearableData, patterns, profile, baselineComparison, isSimulated: false }, promptTemplate.body);
+    ({ analysis } = await runLlmAnalysis(llmProvider, prompt));
+    provider = llmProvider.name;
+    model = llmProvider.model;
+  } else {
+    analysis = await calculateLocalRisk(userId, wearableData, { now });
+    model = analysis.model.type;
+  }
+
+  const previousResult = await query(
+    `SELECT risk_level FROM risk_assessments
+     WHERE user_id = $1 AND is_simulated = false AND risk_level IS NOT NULL
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [userId]
+  );
+  const previousRisk = previousResult.rows[0]?.risk_level ?? null;
+
+  const assessmentId = await saveRiskAssessment(userId, {
+    windowStart: twentyFourHoursAgo,
+    windowEnd: now,
+    engine: settings.forecastEngine,
+    provider,
+    model,
+    prompt,
+    promptTemplate,
+    analysis,
+    source: 'scheduled'
+  });
+
+  const threshold = settings.riskThreshold;
+  const crossed = typeof analysis.riskLevel === 'number'
+    && analysis.riskLevel >= threshold
+    && (previousRisk === null || previousRisk < threshold);
+
+  if (crossed) {
+    await sendNotification(userId, {
+      type: 'risk_alert',
+      title: `Migraine risk ${analysis.riskLevel}% (${analysis.riskCategory})`,
+      body: [
+        `Your ${slot} forecast is at or above your ${threshold}% alert threshold.`,
+        analysis.keyRiskFactors[0] ? `Main factor: ${analysis.keyRiskFactors[0]}.` : null,
+        analysis.recommendations[0] || null
+      ].filter(Boolean).join(' '),
+      data: { assessmentId, riskLevel: analysis.riskLevel, threshold, slot },
+      url: '/dashboard'
+    }, notificationTransports);
+  }
+
+  return { assessmentId, riskLevel: analysis.riskLevel ?? null, alerted: crossed };
+};
+
+// Get notification inbox (newest first) with the unread count
+app.get('/api/notifications', authenticate, async (req, res) => {
   try {
-    // Get all unique dates from migraine_entries for this user
-    const entriesResult = await query(
-      `SELECT DISTINCT DATE(start_time) as date, COUNT(*) as count
-       FROM migraine_entries
-       WHERE user_id = $1
-       GROUP BY DATE(start_time)`,
-      [req.userId]
+    const limit = Math.min(parseInt(req.query.limit) || 50, 200);
+    const unreadOnly = req.query.unreadOnly === 'true';
+
+    const result = await query(
+      `SELECT * FROM notifications
+       WHERE user_id = $1 ${unreadOnly ? 'AND read_at IS NULL' : ''}
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [req.userId, limit]
     );
 
-    let synced = 0;
-    let errors = 0;
+    const unreadResult = await query(
+      `SELECT COUNT(*) as count FROM notifications WHERE user_id = $1 AND read_at IS NULL`,
+      [req.userId]
+    );
 
-    for (const row of entriesResult.rows) {
-      try {
-        const dateStr = typeof row.date === 'string' 
-          ? row.date 
-          : row.date.toISOString().split('T')[0];
-        
-        await query(
-          `INSERT INTO migraine_day_markers (user_id, date, is_migraine_day)
-           VALUES ($1, $2::date, true)
-           ON CONFLICT (user_id, date)
-           DO UPDATE SET
-             is_migraine_day = true,
-             updated_at = CURRENT_TIMESTAMP`,
-          [req.userId, dateStr]
-        );
-        synced++;
-      } catch (error) {
-        console.error('Error syncing entry:', error);
-        errors++;
+    res.json({
+      success: true,
+      data: {
+        notifications: result.rows.map(transformNotificationForAPI),
+        unreadCount: parseInt(unreadResult.rows[0].count)
       }
-    }
-
-    console.log(`[Calendar Sync] User ${req.userId} - Synced ${synced} days, ${errors} errors`);
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching notifications'
+    });
+  }
+});
 
+// Get notification settings and which delivery channels the server supports
+app.get('/api/notifications/settings', authenticate, async (req, res) => {
+  try {
+    const settings = await getNotificationSettings(req.userId);
     res.json({
       success: true,
       data: {
-        synced,
-        errors,
-        total: entriesResult.rows.length
-      },
-      message: `Successfully synced ${synced} migraine days to calendar`
+        ...settings,
+        channels: {
+          push: {
+            transport: notificationTransports.push.name,
+            configured: notificationTransports.push.isConfigured(),
+            publicKey: notificationTransports.push.publicKey || null
+          },
+          email: {
+            transport: notificationTransports.email.name,
+            configured: notificationTransports.email.isConfigured()
+          }
+        },
+        schedulerEnabled: SCHEDULER_ENABLED
+      }
     });
   } catch (error) {
-    console.error('Calendar sync error:', error);
+    console.error('Get notification settings error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error syncing calendar'
+      message: 'Error fetching notification settings'
     });
   }
 });
 
-// Get calendar data (days with wearable data and migraine markers)
-app.get('/api/calendar', authenticate, async (req, res) => {
+// Update notification settings
+app.put('/api/notifications/settings', authenticate, async (req, res) => {
   try {
-    const { year, month } = req.query;
-    
-    // Default to current month if not specified
-    const targetYear = year ? parseInt(year) : new Date().getFullYear();
-    const targetMonth = month ? parseInt(month) - 1 : new Date().getMonth();
-    
-    // Calculate date range for the month
-    const startDate = new Date(targetYear, targetMonth, 1);
-    const endDate = new Date(targetYear, targetMonth + 1, 0, 23, 59, 59);
-    
-    // Get days with wearable data
-    const wearableDaysResult = await query(
-      `SELECT DISTINCT DATE(timestamp) as date, COUNT(*) as data_points
-       FROM wearable_data
-       WHERE user_id = $1 
-         AND timestamp >= $2 
-         AND timestamp <= $3
-       GROUP BY DATE(timestamp)
-       ORDER BY DATE(timestamp)`,
-      [req.userId, startDate, endDate]
-    );
-    
-    // Get migraine day markers for the month
-    // Build date strings using local date components to avoid timezone issues
-    const startYear = startDate.getFullYear();
-    const startMonth = String(startDate.getMonth() + 1).padStart(2, '0');
-    const startDay = String(startDate.getDate()).padStart(2, '0');
-    const startDateStr = `${startYear}-${startMonth}-${startDay}`;
-    
-    const endYear = endDate.getFullYear();
-    const endMonth = String(endDate.getMonth() + 1).padStart(2, '0');
-    const endDay = String(endDate.getDate()).padStart(2, '0');
-    const endDateStr = `${endYear}-${endMonth}-${endDay}`;
-    
-    const migraineMarkersResult = await query(
-      `SELECT date, is_migraine_day, severity, notes
-       FROM migraine_day_markers
-       WHERE user_id = $1 
-         AND date >= $2 
-         AND date <= $3
-       ORDER BY date`,
-      [req.userId, startDateStr, endDateStr]
-    );
-    
-    // Get migraine entry counts per day for this month
-    const migraineEntriesResult = await query(
-      `SELECT DATE(start_time) as date, COUNT(*) as migraine_count
-       FROM migraine_entries
-       WHERE user_id = $1
-         AND start_time >= $2
-         AND start_time <= $3
-       GROUP BY DATE(start_time)
-       ORDER BY DATE(start_time)`,
-      [req.userId, startDate, endDate]
+    const settings = { ...(await getNotificationSettings(req.userId)), ...req.body };
+    const {
+      forecastsEnabled,
+      forecastEngine,
+      morningHour,
+      eveningHour,
+      riskThreshold,
+      pushEnabled,
+      emailEnabled
+    } = settings;
+    const emailAddress = settings.emailAddress ? String(settings.emailAddress).trim() : null;
+
+    const isHour = (value) => Number.isInteger(value) && value >= 0 && value <= 23;
+    if (!isHour(morningHour) || !isHour(eveningHour) || morningHour === eveningHour) {
+      return res.status(400).json({
+        success: false,
+        message: 'morningHour and eveningHour must be different hours between 0 and 23'
+      });
+    }
+    if (!Number.isInteger(riskThreshold) || riskThreshold < 1 || riskThreshold > 100) {
+      return res.status(400).json({
+        success: false,
+        message: 'riskThreshold must be a whole percentage between 1 and 100'
+      });
+    }
+    if (!['local', 'llm'].includes(forecastEngine)) {
+      return res.status(400).json({
+        success: false,
+        message: 'forecastEngine must be "local" or "llm"'
+      });
+    }
+    if (emailAddress && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailAddress)) {
+      return res.status(400).json({
+        success: false,
+        message: 'emailAddress is not a valid email address'
+      });
+    }
+
+    await query(
+      `INSERT INTO notification_settings
+         (user_id, forecasts_enabled, forecast_engine, morning_hour, evening_hour, risk_threshold,
+          push_enabled, email_enabled, email_address)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (user_id) DO UPDATE SET
+         forecasts_enabled = EXCLUDED.forecasts_enabled,
+         forecast_engine = EXCLUDED.forecast_engine,
+         morning_hour = EXCLUDED.morning_hour,
+         evening_hour = EXCLUDED.evening_hour,
+         risk_threshold = EXCLUDED.risk_threshold,
+         push_enabled = EXCLUDED.push_enabled,
+         email_enabled = EXCLUDED.email_enabled,
+         email_address = EXCLUDED.email_address,
+         updated_at = CURRENT_TIMESTAMP`,
+      [req.userId, !!forecastsEnabled, forecastEngine, morningHour, eveningHour, riskThreshold, !!pushEnabled, !!emailEnabled, emailAddress]
     );
-    
-    const migraineEntryCounts = new Map();
-    migraineEntriesResult.rows.forEach(row => {
-      const dateStr = typeof row.date === 'string' 
-        ? row.date 
-        : row.date.toISOString().split('T')[0];
-      migraineEntryCounts.set(dateStr, parseInt(row.migraine_count));
+
+    res.json({
+      success: true,
+      data: await getNotificationSettings(req.userId)
     });
-    
-    // Combine the data - PostgreSQL DATE type returns as string in YYYY-MM-DD format
-    // But we need to handle it properly to avoid timezone issues
-    const daysWithData = new Set(wearableDaysResult.rows.map(row => {
-      // PostgreSQL DATE() function returns a DATE type which is already in YYYY-MM-DD format
-      if (typeof row.date === 'string') {
-        return row.date;
-      }
-      // If it's a Date object, extract local date components
-      const year = row.date.getFullYear();
-      const month = String(row.date.getMonth() + 1).padStart(2, '0');
-      const day = String(row.date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    }));
-    
-    const migraineMarkers = new Map();
-    migraineMarkersResult.rows.forEach(row => {
-      // PostgreSQL DATE type is already a string in YYYY-MM-DD format
-      const dateKey = typeof row.date === 'string' ? row.date : 
-        (() => {
-          const year = row.date.getFullYear();
-          const month = String(row.date.getMonth() + 1).padStart(2, '0');
-          const day = String(row.date.getDate()).padStart(2, '0');
-          return `${year}-${month}-${day}`;
-        })();
-      migraineMarkers.set(dateKey, {
-        isMigraineDay: row.is_migraine_day,
-        severity: row.severity,
-        notes: row.notes
-      });
+  } catch (error) {
+    console.error('Update notification settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating notification settings'
     });
-    
-    // Build calendar days using local date components to avoid timezone issues
-    const calendarDays = [];
-    const currentDate = new Date(startDate);
-    
-    while (currentDate <= endDate) {
-      // Get local date components to avoid timezone shift
-      const year = currentDate.getFullYear();
-      const month = String(currentDate.getMonth() + 1).padStart(2, '0');
-      const day = String(currentDate.getDate()).padStart(2, '0');
-      const dateStr = `${year}-${month}-${day}`;
-      const marker = migraineMarkers.get(dateStr);
-      
-      // Find matching data point count
-      const dataPointRow = wearableDaysResult.rows.find(r => {
-        let rowDateStr;
-        if (typeof r.date === 'string') {
-          rowDateStr = r.date;
-        } else {
-          // Extract local date components to avoid timezone shift
-          const year = r.date.getFullYear();
-          const month = String(r.date.getMonth() + 1).padStart(2, '0');
-          const day = String(r.date.getDate()).padStart(2, '0');
-          rowDateStr = `${year}-${month}-${day}`;
-        }
-        return rowDateStr === dateStr;
+  }
+});
+
+// Register this browser for web push (subscription from PushManager.subscribe)
+app.post('/api/notifications/push-subscriptions', authenticate, async (req, res) => {
+  try {
+    const { subscription } = req.body || {};
+    if (!subscription?.endpoint || !subscription?.keys?.p256dh || !subscription?.keys?.auth) {
+      return res.status(400).json({
+        success: false,
+        message: 'subscription with endpoint and keys is required'
       });
-      
-      const migraineCount = migraineEntryCounts.get(dateStr) || 0;
-      
-      calendarDays.push({
-        date: dateStr,
-        hasData: daysWithData.has(dateStr),
-        dataPoints: dataPointRow ? parseInt(dataPointRow.data_points) : 0,
-        isMigraineDay: marker?.isMigraineDay || migraineCount > 0, // Auto-mark if entries exist
-        migraineCount: migraineCount,
-        severity: marker?.severity || null,
-        notes: marker?.notes || null
+    }
+
+    await query(
+      `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (endpoint) DO UPDATE SET
+         user_id = EXCLUDED.user_id,
+         p256dh = EXCLUDED.p256dh,
+         auth = EXCLUDED.auth,
+         user_agent = EXCLUDED.user_agent`,
+      [req.userId, subscription.endpoint, subscription.keys.p256dh, subscription.keys.auth, req.get('user-agent') || null]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Push subscription saved'
+    });
+  } catch (error) {
+    console.error('Save push subscription error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving push subscription'
+    });
+  }
+});
+
+// Remove a web push subscription
+app.delete('/api/notifications/push-subscriptions', authenticate, async (req, res) => {
+  try {
+    const { endpoint } = req.body || {};
+    if (!endpoint) {
+      return res.status(400).json({
+        success: false,
+        message: 'endpoint is required'
       });
-      
-      currentDate.setDate(currentDate.getDate() + 1);
     }
-    
-    // Count total migraine days (from markers + entries)
-    const uniqueMigraineDays = new Set();
-    
-    // Add manually marked days
-    migraineMarkersResult.rows.forEach(row => {
-      if (row.is_migraine_day) {
-        const dateStr = typeof row.date === 'string' ? row.date : row.date.toISOString().split('T')[0];
-        uniqueMigraineDays.add(dateStr);
-      }
+
+    await query(
+      `DELETE FROM push_subscriptions WHERE user_id = $1 AND endpoint = $2`,
+      [req.userId, endpoint]
+    );
+
+    res.json({
+      success: true,
+      message: 'Push subscription removed'
     });
-    
-    // Add days with migraine entries
-    migraineEntryCounts.forEach((count, dateStr) => {
-      if (count > 0) {
-        uniqueMigraineDays.add(dateStr);
-      }
+  } catch (error) {
+    console.error('Delete push subscription error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error removing push subscription'
     });
+  }
+});
 
-    // Count total days with data (wearable data + migraine entries)
-    const allDaysWithData = new Set([...daysWithData]);
-    migraineEntryCounts.forEach((count, dateStr) => {
-      if (count > 0) {
-        allDaysWithData.add(dateStr);
-      }
+// Send a test notification through every enabled channel
+app.post('/api/notifications/test', authenticate, async (req, res) => {
+  try {
+    const notification = await sendNotification(req.userId, {
+      type: 'test',
+      title: 'Test notification',
+      body: 'Notifications are working. Risk alerts will arrive the same way.',
+      url: '/notifications'
+    }, notificationTransports);
+
+    res.status(201).json({
+      success: true,
+      data: notification
     });
-    
+  } catch (error) {
+    console.error('Send test notification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error sending test notification'
+    });
+  }
+});
+
+// Mark all notifications as read
+app.post('/api/notifications/read-all', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `UPDATE notifications SET read_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND read_at IS NULL`,
+      [req.userId]
+    );
+
     res.json({
       success: true,
-      data: {
-        year: targetYear,
-        month: targetMonth + 1,
-        days: calendarDays,
-        totalDaysWithData: allDaysWithData.size,
-        totalMigraineDays: uniqueMigraineDays.size
-      }
+      data: { updated: result.rowCount }
     });
   } catch (error) {
-    console.error('Get calendar error:', error);
+    console.error('Mark notifications read error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error fetching calendar data'
+      message: 'Error marking notifications as read'
     });
   }
 });
 
-// Mark/unmark migraine day
-app.post('/api/calendar/migraine-day', authenticate, async (req, res) => {
+// Mark a notification as read
+app.put('/api/notifications/:id/read', authenticate, async (req, res) => {
   try {
-    const { date, isMigraineDay, severity, notes } = req.body;
-    
-    if (!date) {
-      return res.status(400).json({
+    const result = await query(
+      `UPDATE notifications SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
         success: false,
-        message: 'Date is required'
+        message: 'Notification not found'
       });
     }
-    
-    // Validate and parse date (handle YYYY-MM-DD format correctly)
-    let dateOnly;
-    if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
-      // Already in YYYY-MM-DD format, use directly
-      dateOnly = date;
-    } else {
-      // Parse as local date to avoid timezone issues
-      const dateObj = new Date(date);
-      if (isNaN(dateObj.getTime())) {
-        return res.status(400).json({
-          success: false,
-          message: 'Invalid date format'
-        });
-      }
-      // Get local date components to avoid timezone shift
-      const year = dateObj.getFullYear();
-      const month = String(dateObj.getMonth() + 1).padStart(2, '0');
-      const day = String(dateObj.getDate()).padStart(2, '0');
-      dateOnly = `${year}-${month}-${day}`;
+
+    res.json({
+      success: true,
+      data: transformNotificationForAPI(result.rows[0])
+    });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error marking notification as read'
+    });
+  }
+});
+
+// Delete a notification
+app.delete('/api/notifications/:id', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `DELETE FROM notifications WHERE id = $1 AND user_id = $2 RETURNING id`,
+      [req.params.id, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
     }
-    
-    // Upsert migraine day marker
+
+    res.json({
+      success: true,
+      message: 'Notification deleted'
+    });
+  } catch (error) {
+    console.error('Delete notification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting notification'
+    });
+  }
+});
+
+// Get the user's recent scheduled forecast jobs (status, errors and results)
+app.get('/api/risk-forecasts/jobs', authenticate, async (req, res) => {
+  try {
     const result = await query(
-      `INSERT INTO migraine_day_markers (user_id, date, is_migraine_day, severity, notes)
-       VALUES ($1, $2, $3, $4, $5)
-       ON CONFLICT (user_id, date) 
-       DO UPDATE SET
-         is_migraine_day = EXCLUDED.is_migraine_day,
-         severity = EXCLUDED.severity,
-         notes = EXCLUDED.notes,
-         updated_at = CURRENT_TIMESTAMP
-       RETURNING id, date, is_migraine_day, severity, notes, created_at, updated_at`,
-      [
-        req.userId,
-        dateOnly,
-        isMigraineDay !== undefined ? isMigraineDay : true,
-        severity !== undefined ? severity : null,
-        notes || null
-      ]
+      `SELECT id, payload, status, run_at, attempts, max_attempts, last_error, result, completed_at, created_at
+       FROM jobs
+       WHERE user_id = $1 AND type = $2
+       ORDER BY created_at DESC
+       LIMIT 20`,
+      [req.userId, RISK_FORECAST_JOB]
     );
-    
-    const marker = result.rows[0];
-    
-    // PostgreSQL DATE type is already in YYYY-MM-DD format as string
-    const markerDate = typeof marker.date === 'string' 
-      ? marker.date 
-      : marker.date.toISOString().split('T')[0];
-    
+
     res.json({
       success: true,
-      data: {
-        id: marker.id,
-        date: markerDate,
-        isMigraineDay: marker.is_migraine_day,
-        severity: marker.severity,
-        notes: marker.notes,
-        createdAt: marker.created_at.toISOString(),
-        updatedAt: marker.updated_at.toISOString()
-      }
+      data: result.rows.map(row => ({
+        id: row.id,
+        slot: row.payload?.slot || null,
+        slotTime: row.payload?.slotTime || null,
+        status: row.status,
+        runAt: row.run_at.toISOString(),
+        attempts: row.attempts,
+        maxAttempts: row.max_attempts,
+        lastError: row.last_error,
+        result: row.result,
+        completedAt: row.completed_at ? row.completed_at.toISOString() : null,
+        createdAt: row.created_at.toISOString()
+      }))
     });
   } catch (error) {
-    console.error('Mark migraine day error:', error);
+    console.error('Get forecast jobs error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error marking migraine day'
+      message: 'Error fetching scheduled forecasts'
     });
   }
 });
 
-// Remove migraine day marker
-app.delete('/api/calendar/migraine-day/:date', authenticate, async (req, res) => {
+// ============================================
+// WHAT-IF SCENARIO ROUTES
+// ============================================
+
+// Validate a scenario's name and description, returning an error message or null
+const validateScenarioDetails = ({ name, description }) => {
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+    return 'name is required (max 100 characters)';
+  }
+  if (description !== undefined && description !== null &&
+      (typeof description !== 'string' || description.length > 500)) {
+    return 'description can be at most 500 characters';
+  }
+  return null;
+};
+
+// Get saved scenarios
+app.get('/api/scenarios', authenticate, async (req, res) => {
   try {
-    const dateStr = req.params.date;
-    
-    // Validate and parse date (handle YYYY-MM-DD format correctly)
-    let dateOnly;
-    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-      // Already in YYYY-MM-DD format, use directly
-      dateOnly = dateStr;
-    } else {
-      // Parse as local date to avoid timezone issues
-      const dateObj = new Date(dateStr);
-      if (isNaN(dateObj.getTime())) {
-        return res.status(400).json({
-          success: false,
-          message: 'Invalid date format'
-        });
-      }
-      // Get local date components to avoid timezone shift
-      const year = dateObj.getFullYear();
-      const month = String(dateObj.getMonth() + 1).padStart(2, '0');
-      const day = String(dateObj.getDate()).padStart(2, '0');
-      dateOnly = `${year}-${month}-${day}`;
-    }
-    
-    await query(
-      'DELETE FROM migraine_day_markers WHERE user_id = $1 AND date = $2',
-      [req.userId, dateOnly]
+    const result = await query(
+      `SELECT * FROM risk_scenarios WHERE user_id = $1 ORDER BY name`,
+      [req.userId]
     );
-    
+
     res.json({
       success: true,
-      message: 'Migraine day marker removed successfully'
+      data: result.rows.map(transformScenarioForAPI)
     });
   } catch (error) {
-    console.error('Remove migraine day error:', error);
+    console.error('Get scenarios error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error removing migraine day marker'
+      message: 'Error fetching scenarios'
+    });
+  }
+});
+
+// Save a new scenario
+app.post('/api/scenarios', authenticate, async (req, res) => {
+  try {
+    const { name, description, scenario } = req.body || {};
+
+    const detailsError = validateScenarioDetails({ name, description });
+    if (detailsError) {
+      return res.status(400).json({
+        success: false,
+        message: detailsError
+      });
+    }
+
+    const validation = validateScenario(scenario);
+    if (validation.error) {
+      return res.status(400).json({
+        success: false,
+        message: validation.error
+      });
+    }
+
+    const result = await query(
+      `INSERT INTO risk_scenarios (user_id, name, description, definition)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [req.userId, name.trim(), description?.trim() || null, JSON.stringify(validation.scenario)]
+    );
+
+    res.status(201).json({
+      success: true,
+      data: transformScenarioForAPI(result.rows[0])
+    });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A scenario with this name already exists'
+      });
+    }
+    console.error('Create scenario error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving scenario'
     });
   }
 });
 
-// Remove all migraine day markers for user
-app.delete('/api/calendar/migraine-days/all', authenticate, async (req, res) => {
-  try {
-    const result = await query(
-      'DELETE FROM migraine_day_markers WHERE user_id = $1 RETURNING id',
-      [req.userId]
-    );
-    
+// Build the hourly series of a saved (scenarioId) or unsaved (scenario) scenario next to the recorded
+// readings it is based on, for previews; nothing is stored
+app.post('/api/scenarios/preview', authenticate, async (req, res) => {
+  try {
+    const simulation = await resolveRiskScenario(req.userId, req.body);
+    if (simulation.error) {
+      return res.status(simulation.status).json({
+        success: false,
+        message: simulation.error
+      });
+    }
+    if (!simulation.scenario) {
+      return res.status(400).json({
+        success: false,
+        message: 'scenarioId or scenario is required'
+      });
+    }
+
+    const now = new Date();
+    const recordedData = await getRiskWearableData(req.userId, null, now);
+    const wearableData = await getRiskWearableData(req.userId, simulation.scenario, now);
+
     res.json({
       success: true,
-      message: 'All migraine day markers removed successfully',
       data: {
-        deletedCount: result.rowCount || 0
+        wearableData,
+        recordedData,
+        timeRange: {
+          start: new Date(now.getTime() - HOURLY_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString(),
+          end: now.toISOString()
+        }
       }
     });
   } catch (error) {
-    console.error('Remove all migraine days error:', error);
+    console.error('Preview scenario error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error removing all migraine day markers'
+      message: 'Error building scenario preview'
     });
   }
 });
 
-// ============================================
-// SUMMARY INDICATORS ROUTES
-// ============================================
-
-// Process summary indicators (with caching)
-app.post('/api/summary/process', authenticate, async (req, res) => {
+// Score saved scenarios (and, unless includeRecorded is false, the recorded data) side by side with
+// the local model, using the same correlations, lookbackHours and horizonHours for each
+// Comparisons are exploratory and not stored; run a scenario from the dashboard to keep it as a
+// simulated assessment
+app.post('/api/scenarios/compare', authenticate, async (req, res) => {
   try {
-    const { forceReprocess = false } = req.body;
-    
-    // Check if processing is needed (cache check)
-    if (!forceReprocess) {
-      const lastProcessed = await query(
-        `SELECT MAX(processed_at) as last_processed
-         FROM summary_indicators
-         WHERE user_id = $1`,
-        [req.userId]
-      );
-      
-      if (lastProcessed.rows[0]?.last_processed) {
-        const lastProcessedTime = new Date(lastProcessed.rows[0].last_processed);
-        const now = new Date();
-        const hoursSinceLastProcess = (now - lastProcessedTime) / (1000 * 60 * 60);
-        
-        // If processed within last 6 hours, skip (cache)
-        if (hoursSinceLastProcess < 6) {
-          return res.json({
-            success: true,
-            data: {
-              cached: true,
-              lastProcessed: lastProcessedTime.toISOString(),
-              message: 'Summary indicators are up to date (cached)'
-            }
-          });
-        }
+    const { scenarioIds, includeRecorded = true } = req.body || {};
+
+    if (!Array.isArray(scenarioIds) || scenarioIds.length === 0 || scenarioIds.length > MAX_COMPARED_SCENARIOS) {
+      return res.status(400).json({
+        success: false,
+        message: `scenarioIds must list 1-${MAX_COMPARED_SCENARIOS} scenarios`
+      });
+    }
+
+    const forecastWindow = parseForecastWindow(req.body);
+    if (forecastWindow.error) {
+      return res.status(400).json({
+        success: false,
+        message: forecastWindow.error
+      });
+    }
+
+    const simulations = [];
+    if (includeRecorded) {
+      simulations.push({ scenario: null, scenarioId: null, name: 'Recorded data' });
+    }
+    for (const scenarioId of scenarioIds) {
+      const simulation = await resolveRiskScenario(req.userId, { scenarioId });
+      if (simulation.error) {
+        return res.status(simulation.status).json({
+          success: false,
+          message: simulation.error
+        });
       }
+      simulations.push(simulation);
+    }
+
+    const now = new Date();
+    const results = [];
+    for (const simulation of simulations) {
+      const { wearableData } = await getRiskInputs(req.userId, simulation.scenario, now, forecastWindow.lookbackHours);
+      const analysis = await calculateLocalRisk(req.userId, wearableData, {
+        now,
+        horizonHours: forecastWindow.horizonHours,
+        isSimulated: !!simulation.scenario
+      });
+
+      results.push({
+        scenarioId: simulation.scenarioId,
+        name: simulation.name,
+        isSimulated: !!simulation.scenario,
+        riskLevel: analysis.riskLevel,
+        riskCategory: analysis.riskCategory,
+        confidenceLevel: analysis.confidenceLevel,
+        keyRiskFactors: analysis.keyRiskFactors,
+        factors: [...analysis.factors]
+          .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+          .slice(0, 3),
+        dataPointsCount: wearableData.length
+      });
     }
 
-    // Process summary indicators
-    const result = await processSummaryIndicators(req.userId, forceReprocess);
-    
     res.json({
       success: true,
       data: {
-        cached: false,
-        ...result,
-        message: `Processed ${result.processed} days`
+        results,
+        ...forecastWindow,
+        generatedAt: now.toISOString()
       }
     });
   } catch (error) {
-    console.error('Process summary indicators error:', error);
+    console.error('Compare scenarios error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error processing summary indicators',
-      error: error.message
+      message: 'Error comparing scenarios'
     });
   }
 });
 
-// Get migraine correlation patterns for risk prediction
-app.get('/api/summary/correlations', authenticate, async (req, res) => {
+// Update a saved scenario (assessments already made from it keep the definition they used)
+app.put('/api/scenarios/:id', authenticate, async (req, res) => {
   try {
+    const { name, description, scenario } = req.body || {};
+
+    const detailsError = validateScenarioDetails({ name, description });
+    if (detailsError) {
+      return res.status(400).json({
+        success: false,
+        message: detailsError
+      });
+    }
+
+    const validation = validateScenario(scenario);
+    if (validation.error) {
+      return res.status(400).json({
+        success: false,
+        message: validation.error
+      });
+    }
+
     const result = await query(
-      `SELECT pattern_type, pattern_name, pattern_definition,
-              correlation_strength, confidence_score, threshold_value,
-              avg_value_on_migraine_days, avg_value_on_normal_days,
-              migraine_days_count, total_days_analyzed,
-              last_updated_at
-       FROM migraine_correlations
-       WHERE user_id = $1
-       ORDER BY confidence_score DESC, ABS(correlation_strength) DESC`,
-      [req.userId]
+      `UPDATE risk_scenarios
+       SET name = $1, description = $2, definition = $3
+       WHERE id = $4 AND user_id = $5
+       RETURNING *`,
+      [name.trim(), description?.trim() || null, JSON.stringify(validation.scenario), req.params.id, req.userId]
     );
 
-    const patterns = result.rows.map(row => ({
-      patternType: row.pattern_type,
-      patternName: row.pattern_name,
-      patternDefinition: row.pattern_definition,
-      correlationStrength: row.correlation_strength ? parseFloat(row.correlation_strength) : null,
-      confidenceScore: row.confidence_score ? parseFloat(row.confidence_score) : null,
-      thresholdValue: row.threshold_value ? parseFloat(row.threshold_value) : null,
-      avgValueOnMigraineDays: row.avg_value_on_migraine_days ? parseFloat(row.avg_value_on_migraine_days) : null,
-      avgValueOnNormalDays: row.avg_value_on_normal_days ? parseFloat(row.avg_value_on_normal_days) : null,
-      migraineDaysCount: parseInt(row.migraine_days_count) || 0,
-      totalDaysAnalyzed: parseInt(row.total_days_analyzed) || 0,
-      lastUpdated: row.last_updated_at.toISOString()
-    }));
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Scenario not found'
+      });
+    }
 
     res.json({
       success: true,
-      data: {
-        patterns,
-        count: patterns.length
-      }
+      data: transformScenarioForAPI(result.rows[0])
     });
   } catch (error) {
-    console.error('Get migraine correlations error:', error);
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'A scenario with this name already exists'
+      });
+    }
+    console.error('Update scenario error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error fetching migraine correlations'
+      message: 'Error updating scenario'
     });
   }
 });
 
-// Get data for risk prediction (last 24 hours + correlation patterns)
-app.get('/api/risk-prediction/data', authenticate, async (req, res) => {
+// Delete a saved scenario (assessments made from it stay simulated and keep its definition)
+app.delete('/api/scenarios/:id', authenticate, async (req, res) => {
   try {
-    // Get last 24 hours of wearable data
-    const now = new Date();
-    const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-    const wearableDataResult = await query(
-      `SELECT timestamp, stress_value, recovery_value, heart_rate, hrv,
-              sleep_efficiency, sleep_heart_rate, skin_temperature, restless_periods
-       FROM wearable_data
-       WHERE user_id = $1 
-         AND timestamp >= $2 
-         AND timestamp <= $3
-       ORDER BY timestamp`,
-      [req.userId, twentyFourHoursAgo, now]
-    );
-
-    // Get correlation patterns
-    const correlationsResult = await query(
-      `SELECT pattern_type, pattern_name, pattern_definition, threshold_value,
-              correlation_strength, confidence_score
-       FROM migraine_correlations
-       WHERE user_id = $1
-       ORDER BY confidence_score DESC, ABS(correlation_strength) DESC`,
-      [req.userId]
+    const result = await query(
+      `DELETE FROM risk_scenarios WHERE id = $1 AND user_id = $2 RETURNING id`,
+      [req.params.id, req.userId]
     );
 
-    // Format wearable data
-    const wearableData = wearableDataResult.rows.map(row => ({
-      timestamp: row.timestamp.toISOString(),
-      stress: row.stress_value ? parseFloat(row.stress_value) : null,
-      recovery: row.recovery_value ? parseFloat(row.recovery_value) : null,
-      heartRate: row.heart_rate ? parseFloat(row.heart_rate) : null,
-      hrv: row.hrv ? parseFloat(row.hrv) : null,
-      sleepEfficiency: row.sleep_efficiency ? parseFloat(row.sleep_efficiency) : null,
-      sleepHeartRate: row.sleep_heart_rate ? parseFloat(row.sleep_heart_rate) : null,
-      skinTemperature: row.skin_temperature ? parseFloat(row.skin_temperature) : null,
-      restlessPeriods: row.restless_periods ? parseFloat(row.restless_periods) : null
-    }));
-
-    // Format correlation patterns
-    const patterns = correlationsResult.rows.map(row => ({
-      patternType: row.pattern_type,
-      patternName: row.pattern_name,
-      patternDefinition: row.pattern_definition,
-      thresholdValue: row.threshold_value ? parseFloat(row.threshold_value) : null,
-      correlationStrength: row.correlation_strength ? parseFloat(row.correlation_strength) : null,
-      confidenceScore: row.confidence_score ? parseFloat(row.confidence_score) : null
-    }));
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Scenario not found'
+      });
+    }
 
     res.json({
       success: true,
-      data: {
-        wearableData,
-        patterns,
-        timeRange: {
-          start: twentyFourHoursAgo.toISOString(),
-          end: now.toISOString()
-        },
-        dataPointsCount: wearableData.length,
-        patternsCount: patterns.length
-      }
+      message: 'Scenario deleted'
     });
   } catch (error) {
-    console.error('Get risk prediction data error:', error);
+    console.error('Delete scenario error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error fetching risk prediction data'
+      message: 'Error deleting scenario'
     });
   }
 });
 
-// Build AI prompt for migraine risk analysis (with optional simulated data)
-app.post('/api/risk-prediction/prompt', authenticate, async (req, res) => {
-  try {
-    const { simulatedData } = req.body;
-    
-    // Get last 24 hours of wearable data (or use simulated)
-    const now = new Date();
-    const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-    let wearableData = [];
-    
-    if (simulatedData) {
-      // Use simulated data - create 24 hourly entries with the simulated values
-      for (let i = 0; i < 24; i++) {
-        const timestamp = new Date(now.getTime() - (23 - i) * 60 * 60 * 1000);
-        wearableData.push({
-          timestamp: timestamp.toISOString(),
-          stress: simulatedData.stress || null,
-          recovery: simulatedData.recovery || null,
-          heartRate: simulatedData.heartRate || null,
-          hrv: simulatedData.hrv || null,
-          sleepEfficiency: simulatedData.sleepEfficiency || null,
-          sleepHeartRate: null,
-          skinTemperature: simulatedData.skinTemp || null,
-          restlessPeriods: null
-        });
-      }
-    } else {
-      // Get actual wearable data from database
-      const wearableDataResult = await query(
-        `SELECT timestamp, stress_value, recovery_value, heart_rate, hrv,
-                sleep_efficiency, sleep_heart_rate, skin_temperature, restless_periods
-         FROM wearable_data
-         WHERE user_id = $1 
-           AND timestamp >= $2 
-           AND timestamp <= $3
-         ORDER BY timestamp`,
-        [req.userId, twentyFourHoursAgo, now]
-      );
+// ============================================
+// CHAT ASSISTANT ROUTES
+// ============================================
 
-      wearableData = wearableDataResult.rows.map(row => ({
-        timestamp: row.timestamp.toISOString(),
-        stress: row.stress_value ? parseFloat(row.stress_value) : null,
-        recovery: row.recovery_value ? parseFloat(row.recovery_value) : null,
-        heartRate: row.heart_rate ? parseFloat(row.heart_rate) : null,
-        hrv: row.hrv ? parseFloat(row.hrv) : null,
-        sleepEfficiency: row.sleep_efficiency ? parseFloat(row.sleep_efficiency) : null,
-        sleepHeartRate: row.sleep_heart_rate ? parseFloat(row.sleep_heart_rate) : null,
-        skinTemperature: row.skin_temperature ? parseFloat(row.skin_temperature) : null,
-        restlessPeriods: row.restless_periods ? parseFloat(row.restless_periods) : null
-      }));
-    }
+// Longest question accepted by the data assistant
+const MAX_CHAT_MESSAGE_LENGTH = 2000;
 
-    // Get correlation patterns
-    const correlationsResult = await query(
-      `SELECT pattern_type, pattern_name, pattern_definition, threshold_value,
-              correlation_strength, confidence_score, 
-              avg_value_on_migraine_days, avg_value_on_normal_days,
-              migraine_days_count, total_days_analyzed
-       FROM migraine_correlations
-       WHERE user_id = $1
-       ORDER BY ABS(correlation_strength) DESC`,
-      [req.userId]
-    );
+// Validate a chat question, returning an error message or null
+const validateChatMessage = (message) => {
+  if (typeof message !== 'string' || !message.trim()) {
+    return 'message is required';
+  }
+  if (message.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return `message can be at most ${MAX_CHAT_MESSAGE_LENGTH} characters`;
+  }
+  return null;
+};
 
-    // Get user profile
-    const profileResult = await query(
-      `SELECT typical_duration, monthly_frequency, diagnosed_type,
-              experiences_nausea, experiences_vomit, experiences_photophobia, experiences_phonophobia,
-              typical_visual_symptoms, typical_sensory_symptoms, family_history
-       FROM user_profiles
-       WHERE user_id = $1`,
-      [req.userId]
+/**
+ * Store a question, the tool calls made while answering it and the answer, in order
+ * @returns {Promise<Array>} Inserted messages in API format
+ */
+const saveChatTurn = async (client, conversationId, firstPosition, question, { steps, answer }) => {
+  const rows = [
+    { role: 'user', content: question },
+    ...steps.map(step => ({
+      role: 'tool',
+      content: '',
+      toolName: step.toolName,
+      toolArguments: step.toolArguments,
+      toolResult: step.toolResult
+    })),
+    { role: 'assistant', content: answer }
+  ];
+
+  const messages = [];
+  for (const [index, row] of rows.entries()) {
+    const result = await client.query(
+      `INSERT INTO chat_messages (conversation_id, position, role, content, tool_name, tool_arguments, tool_result)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        conversationId,
+        firstPosition + index,
+        row.role,
+        row.content,
+        row.toolName || null,
+        row.toolArguments ? JSON.stringify(row.toolArguments) : null,
+        row.toolResult ? JSON.stringify(row.toolResult) : null
+      ]
     );
+    messages.push(transformChatMessageForAPI(result.rows[0]));
+  }
+  return messages;
+};
 
-    // Format correlation patterns
-    const patterns = correlationsResult.rows.map(row => ({
-      patternType: row.pattern_type,
-      patternName: row.pattern_name,
-      patternDefinition: row.pattern_definition,
-      thresholdValue: row.threshold_value ? parseFloat(row.threshold_value) : null,
-      correlationStrength: row.correlation_strength ? parseFloat(row.correlation_strength) : null,
-      confidenceScore: row.confidence_score ? parseFloat(row.confidence_score) : null,
-      avgValueOnMigraineDays: row.avg_value_on_migraine_days ? parseFloat(row.avg_value_on_migraine_days) : null,
-      avgValueOnNormalDays: row.avg_value_on_normal_days ? parseFloat(row.avg_value_on_normal_days) : null,
-      migraineDaysCount: parseInt(row.migraine_days_count) || 0,
-      totalDaysAnalyzed: parseInt(row.total_days_analyzed) || 0
-    }));
-
-    // Format user profile
-    const profile = profileResult.rows[0] ? {
-      typicalDuration: profileResult.rows[0].typical_duration,
-      monthlyFrequency: profileResult.rows[0].monthly_frequency,
-      diagnosedType: profileResult.rows[0].diagnosed_type,
-      experiencesNausea: profileResult.rows[0].experiences_nausea,
-      experiencesVomit: profileResult.rows[0].experiences_vomit,
-      experiencesPhotophobia: profileResult.rows[0].experiences_photophobia,
-      experiencesPhonophobia: profileResult.rows[0].experiences_phonophobia,
-      typicalVisualSymptoms: profileResult.rows[0].typical_visual_symptoms,
-      typicalSensorySymptoms: profileResult.rows[0].typical_sensory_symptoms,
-      familyHistory: profileResult.rows[0].family_history
-    } : null;
-
-    // Build the prompt
-    const prompt = buildRiskAnalysisPrompt({
-      wearableData,
-      patterns,
-      profile,
-      isSimulated: !!simulatedData
+// Map LLM provider failures to a response, returning true when one was sent
+const sendChatProviderError = (res, error) => {
+  if (error.code === 'LLM_NOT_CONFIGURED') {
+    res.status(503).json({
+      success: false,
+      message: error.message
     });
-
-    // Build summary for quick reference
-    const summary = buildDataSummary({
-      wearableData,
-      patterns,
-      profile
+    return true;
+  }
+  if (error.code === 'LLM_REQUEST_FAILED') {
+    res.status(502).json({
+      success: false,
+      message: 'The AI provider could not answer. Please try again later.'
     });
+    return true;
+  }
+  return false;
+};
 
-    res.json({
-      success: true,
-      data: {
-        prompt,
-        summary,
-        metadata: {
-          generatedAt: new Date().toISOString(),
-          dataPointsCount: wearableData.length,
-          patternsCount: patterns.length,
-          hasProfile: !!profile,
-          usingSimulatedData: !!simulatedData,
-          timeRange: {
-            start: twentyFourHoursAgo.toISOString(),
-            end: now.toISOString()
-          }
-        }
-      }
+// List conversations (most recently active first)
+app.get('/api/chat/conversations', authenticate, async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT c.*, (SELECT COUNT(*) FROM chat_messages m WHERE m.conversation_id = c.id) AS message_count
+       FROM chat_conversations c
+       WHERE c.user_id = $1
+       ORDER BY c.updated_at DESC`,
+      [req.userId]
+    );
+
+    res.json({
+      success: true,
+      data: result.rows.map(transformChatConversationForAPI)
     });
   } catch (error) {
-    console.error('Build risk prediction prompt error:', error);
+    console.error('Get chat conversations error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error building risk prediction prompt',
-      error: error.message
+      message: 'Error fetching conversations'
     });
   }
 });
 
-// Build AI prompt for migraine risk analysis (GET - fallback)
-app.get('/api/risk-prediction/prompt', authenticate, async (req, res) => {
+// Start a conversation with a first question (the question becomes the title)
+app.post('/api/chat/conversations', authenticate, async (req, res) => {
+  let client;
   try {
-    // Get last 24 hours of wearable data
-    const now = new Date();
-    const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    const { message } = req.body;
+    const validationError = validateChatMessage(message);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
+    }
 
-    const wearableDataResult = await query(
-      `SELECT timestamp, stress_value, recovery_value, heart_rate, hrv,
-              sleep_efficiency, sleep_heart_rate, skin_temperature, restless_periods
-       FROM wearable_data
-       WHERE user_id = $1 
-         AND timestamp >= $2 
-         AND timestamp <= $3
-       ORDER BY timestamp`,
-      [req.userId, twentyFourHoursAgo, now]
-    );
+    const question = message.trim();
+    const provider = createLlmProvider();
+    const turn = await runChatTurn(provider, req.userId, { question });
 
-    // Get correlation patterns
-    const correlationsResult = await query(
-      `SELECT pattern_type, pattern_name, pattern_definition, threshold_value,
-              correlation_strength, confidence_score, 
-              avg_value_on_migraine_days, avg_value_on_normal_days,
-              migraine_days_count, total_days_analyzed
-       FROM migraine_correlations
-       WHERE user_id = $1
-       ORDER BY ABS(correlation_strength) DESC`,
-      [req.userId]
-    );
+    client = await getClient();
+    await client.query('BEGIN');
 
-    // Get user profile
-    const profileResult = await query(
-      `SELECT typical_duration, monthly_frequency, diagnosed_type,
-              experiences_nausea, experiences_vomit, experiences_photophobia, experiences_phonophobia,
-              typical_visual_symptoms, typical_sensory_symptoms, family_history
-       FROM user_profiles
-       WHERE user_id = $1`,
-      [req.userId]
+    const title = question.length > 80 ? `${question.substring(0, 77)}...` : question;
+    const conversationResult = await client.query(
+      `INSERT INTO chat_conversations (user_id, title, provider, model)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [req.userId, title, provider.name, provider.model]
     );
+    const conversation = conversationResult.rows[0];
+    const messages = await saveChatTurn(client, conversation.id, 0, question, turn);
 
-    // Format wearable data
-    const wearableData = wearableDataResult.rows.map(row => ({
-      timestamp: row.timestamp.toISOString(),
-      stress: row.stress_value ? parseFloat(row.stress_value) : null,
-      recovery: row.recovery_value ? parseFloat(row.recovery_value) : null,
-      heartRate: row.heart_rate ? parseFloat(row.heart_rate) : null,
-      hrv: row.hrv ? parseFloat(row.hrv) : null,
-      sleepEfficiency: row.sleep_efficiency ? parseFloat(row.sleep_efficiency) : null,
-      sleepHeartRate: row.sleep_heart_rate ? parseFloat(row.sleep_heart_rate) : null,
-      skinTemperature: row.skin_temperature ? parseFloat(row.skin_temperature) : null,
-      restlessPeriods: row.restless_periods ? parseFloat(row.restless_periods) : null
-    }));
+    await client.query('COMMIT');
 
-    // Format correlation patterns
-    const patterns = correlationsResult.rows.map(row => ({
-      patternType: row.pattern_type,
-      patternName: row.pattern_name,
-      patternDefinition: row.pattern_definition,
-      thresholdValue: row.threshold_value ? parseFloat(row.threshold_value) : null,
-      correlationStrength: row.correlation_strength ? parseFloat(row.correlation_strength) : null,
-      confidenceScore: row.confidence_score ? parseFloat(row.confidence_score) : null,
-      avgValueOnMigraineDays: row.avg_value_on_migraine_days ? parseFloat(row.avg_value_on_migraine_days) : null,
-      avgValueOnNormalDays: row.avg_value_on_normal_days ? parseFloat(row.avg_value_on_normal_days) : null,
-      migraineDaysCount: parseInt(row.migraine_days_count) || 0,
-      totalDaysAnalyzed: parseInt(row.total_days_analyzed) || 0
-    }));
+    res.status(201).json({
+      success: true,
+      data: {
+        conversation: transformChatConversationForAPI(conversation),
+        messages
+      }
+    });
+  } catch (error) {
+    if (client) await client.query('ROLLBACK').catch(() => {});
+    console.error('Create chat conversation error:', error);
+    if (sendChatProviderError(res, error)) return;
+    res.status(500).json({
+      success: false,
+      message: 'Error answering question'
+    });
+  } finally {
+    if (client) client.release();
+  }
+});
 
-    // Format user profile
-    const profile = profileResult.rows[0] ? {
-      typicalDuration: profileResult.rows[0].typical_duration,
-      monthlyFrequency: profileResult.rows[0].monthly_frequency,
-      diagnosedType: profileResult.rows[0].diagnosed_type,
-      experiencesNausea: profileResult.rows[0].experiences_nausea,
-      experiencesVomit: profileResult.rows[0].experiences_vomit,
-      experiencesPhotophobia: profileResult.rows[0].experiences_photophobia,
-      experiencesPhonophobia: profileResult.rows[0].experiences_phonophobia,
-      typicalVisualSymptoms: profileResult.rows[0].typical_visual_symptoms,
-      typicalSensorySymptoms: profileResult.rows[0].typical_sensory_symptoms,
-      familyHistory: profileResult.rows[0].family_history
-    } : null;
+// Get a conversation with all its messages
+app.get('/api/chat/conversations/:id', authenticate, async (req, res) => {
+  try {
+    const conversationResult = await query(
+      `SELECT * FROM chat_conversations WHERE id = $1 AND user_id = $2`,
+      [req.params.id, req.userId]
+    );
 
-    // Build the prompt
-    const prompt = buildRiskAnalysisPrompt({
-      wearableData,
-      patterns,
-      profile
-    });
+    if (conversationResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conversation not found'
+      });
+    }
 
-    // Build summary for quick reference
-    const summary = buildDataSummary({
-      wearableData,
-      patterns,
-      profile
-    });
+    const messagesResult = await query(
+      `SELECT * FROM chat_messages WHERE conversation_id = $1 ORDER BY position`,
+      [req.params.id]
+    );
 
     res.json({
       success: true,
       data: {
-        prompt,
-        summary,
-        metadata: {
-          generatedAt: new Date().toISOString(),
-          dataPointsCount: wearableData.length,
-          patternsCount: patterns.length,
-          hasProfile: !!profile,
-          timeRange: {
-            start: twentyFourHoursAgo.toISOString(),
-            end: now.toISOString()
-          }
-        }
+        ...transformChatConversationForAPI(conversationResult.rows[0]),
+        messages: messagesResult.rows.map(transformChatMessageForAPI)
       }
     });
   } catch (error) {
-    console.error('Build risk prediction prompt error:', error);
+    console.error('Get chat conversation error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error building risk prediction prompt',
-      error: error.message
+      message: 'Error fetching conversation'
     });
   }
 });
 
-// Get summary indicators for a date range
-app.get('/api/summary', authenticate, async (req, res) => {
+// Ask a follow-up question; earlier messages are sent to the model as context
+app.post('/api/chat/conversations/:id/messages', authenticate, async (req, res) => {
+  let client;
   try {
-    const { startDate, endDate, limit = '30' } = req.query;
-    
-    let queryText = `
-      SELECT id, period_start, period_end,
-             avg_stress, max_stress, stress_volatility, stress_trend,
-             avg_recovery, min_recovery, recovery_trend,
-             avg_heart_rate, resting_heart_rate, max_heart_rate,
-             avg_hrv, hrv_trend, hrv_volatility,
-             avg_sleep_efficiency, avg_sleep_heart_rate, avg_restless_periods,
-             avg_skin_temperature, temperature_variation,
-             overall_wellness_score, risk_factors, data_points_count,
-             processed_at, created_at, updated_at
-      FROM summary_indicators
-      WHERE user_id = $1
-    `;
-    const queryParams = [req.userId];
-
-    if (startDate) {
-      queryText += ` AND period_start >= $${queryParams.length + 1}`;
-      queryParams.push(startDate);
+    const { message } = req.body;
+    const validationError = validateChatMessage(message);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError
+      });
     }
 
-    if (endDate) {
-      queryText += ` AND period_end <= $${queryParams.length + 1}`;
-      queryParams.push(endDate);
-    }
+    const conversationResult = await query(
+      `SELECT * FROM chat_conversations WHERE id = $1 AND user_id = $2`,
+      [req.params.id, req.userId]
+    );
 
-    queryText += ` ORDER BY period_start DESC LIMIT $${queryParams.length + 1}`;
-    queryParams.push(parseInt(limit));
+    if (conversationResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conversation not found'
+      });
+    }
 
-    const result = await query(queryText, queryParams);
+    const historyResult = await query(
+      `SELECT * FROM chat_messages WHERE conversation_id = $1 ORDER BY position`,
+      [req.params.id]
+    );
+    const history = historyResult.rows.map(transformChatMessageForAPI);
+    const nextPosition = historyResult.rows.length > 0
+      ? historyResult.rows[historyResult.rows.length - 1].position + 1
+      : 0;
+
+    const question = message.trim();
+    const provider = createLlmProvider();
+    const turn = await runChatTurn(provider, req.userId, { history, question });
+
+    client = await getClient();
+    await client.query('BEGIN');
+
+    const messages = await saveChatTurn(client, req.params.id, nextPosition, question, turn);
+    const updatedResult = await client.query(
+      `UPDATE chat_conversations SET provider = $1, model = $2 WHERE id = $3 RETURNING *`,
+      [provider.name, provider.model, req.params.id]
+    );
 
-    const summaries = result.rows.map(row => ({
-      id: row.id,
-      periodStart: row.period_start.toISOString(),
-      periodEnd: row.period_end.toISOString(),
-      stress: {
-        avg: row.avg_stress ? parseFloat(row.avg_stress) : null,
-        max: row.max_stress ? parseFloat(row.max_stress) : null,
-        volatility: row.stress_volatility ? parseFloat(row.stress_volatility) : null,
-        trend: row.stress_trend
-      },
-      recovery: {
-        avg: row.avg_recovery ? parseFloat(row.avg_recovery) : null,
-        min: row.min_recovery ? parseFloat(row.min_recovery) : null,
-        trend: row.recovery_trend
-      },
-      heartRate: {
-        avg: row.avg_heart_rate ? parseFloat(row.avg_heart_rate) : null,
-        resting: row.resting_heart_rate ? parseFloat(row.resting_heart_rate) : null,
-        max: row.max_heart_rate ? parseFloat(row.max_heart_rate) : null
-      },
-      hrv: {
-        avg: row.avg_hrv ? parseFloat(row.avg_hrv) : null,
-        trend: row.hrv_trend,
-        volatility: row.hrv_volatility ? parseFloat(row.hrv_volatility) : null
-      },
-      sleep: {
-        efficiency: row.avg_sleep_efficiency ? parseFloat(row.avg_sleep_efficiency) : null,
-        heartRate: row.avg_sleep_heart_rate ? parseFloat(row.avg_sleep_heart_rate) : null,
-        restlessPeriods: row.avg_restless_periods ? parseFloat(row.avg_restless_periods) : null
-      },
-      temperature: {
-        avg: row.avg_skin_temperature ? parseFloat(row.avg_skin_temperature) : null,
-        variation: row.temperature_variation ? parseFloat(row.temperature_variation) : null
-      },
-      overallWellnessScore: row.overall_wellness_score ? parseFloat(row.overall_wellness_score) : null,
-      riskFactors: row.risk_factors || [],
-      dataPointsCount: parseInt(row.data_points_count) || 0,
-      processedAt: row.processed_at.toISOString(),
-      createdAt: row.created_at.toISOString(),
-      updatedAt: row.updated_at.toISOString()
-    }));
+    await client.query('COMMIT');
 
-    res.json({
+    res.status(201).json({
       success: true,
       data: {
-        summaries,
-        count: summaries.length
+        conversation: transformChatConversationForAPI(updatedResult.rows[0]),
+        messages
       }
     });
   } catch (error) {
-    console.error('Get summary indicators error:', error);
+    if (client) await client.query('ROLLBACK').catch(() => {});
+    if (error.code === '23505') {
+      return res.status(409).json({
+        success: false,
+        message: 'Another question in this conversation was answered at the same time. Reload and try again.'
+      });
+    }
+    console.error('Send chat message error:', error);
+    if (sendChatProviderError(res, error)) return;
     res.status(500).json({
       success: false,
-      message: 'Error fetching summary indicators'
+      message: 'Error answering question'
     });
+  } finally {
+    if (client) client.release();
   }
 });
 
-// Get wearable data statistics
-app.get('/api/wearable/statistics', authenticate, async (req, res) => {
+// Delete a conversation and all its messages
+app.delete('/api/chat/conversations/:id', authenticate, async (req, res) => {
   try {
-    const { startDate, endDate } = req.query;
-    
-    let queryText = `
-      SELECT 
-        COUNT(*) as total_records,
-        AVG(stress_value) as avg_stress,
-        AVG(recovery_value) as avg_recovery,
-        AVG(heart_rate) as avg_heart_rate,
-        AVG(hrv) as avg_hrv,
-        AVG(sleep_efficiency) as avg_sleep_efficiency,
-        AVG(sleep_heart_rate) as avg_sleep_heart_rate,
-        AVG(skin_temperature) as avg_skin_temperature,
-        MIN(timestamp) as earliest_date,
-        MAX(timestamp) as latest_date
-      FROM wearable_data
-      WHERE user_id = $1
-    `;
-    const queryParams = [req.userId];
-
-    if (startDate) {
-      queryText += ` AND timestamp >= $${queryParams.length + 1}`;
-      queryParams.push(startDate);
-    }
+    const result = await query(
+      `DELETE FROM chat_conversations WHERE id = $1 AND user_id = $2 RETURNING id`,
+      [req.params.id, req.userId]
+    );
 
-    if (endDate) {
-      queryText += ` AND timestamp <= $${queryParams.length + 1}`;
-      queryParams.push(endDate);
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Conversation not found'
+      });
     }
 
-    const result = await query(queryText, queryParams);
-    const stats = result.rows[0];
-
-    // Get hourly breakdown for sample day
-    const hourlyResult = await query(
-      `SELECT DATE(timestamp) as date, COUNT(*) as entries_per_day
-       FROM wearable_data
-       WHERE user_id = $1
-       GROUP BY DATE(timestamp)
-       ORDER BY date DESC
-       LIMIT 10`,
-      [req.userId]
-    );
-
     res.json({
       success: true,
-      data: {
-        totalRecords: parseInt(stats.total_records) || 0,
-        averages: {
-          stress: stats.avg_stress ? parseFloat(stats.avg_stress) : null,
-          recovery: stats.avg_recovery ? parseFloat(stats.avg_recovery) : null,
-          heartRate: stats.avg_heart_rate ? parseFloat(stats.avg_heart_rate) : null,
-          hrv: stats.avg_hrv ? parseFloat(stats.avg_hrv) : null,
-          sleepEfficiency: stats.avg_sleep_efficiency ? parseFloat(stats.avg_sleep_efficiency) : null,
-          sleepHeartRate: stats.avg_sleep_heart_rate ? parseFloat(stats.avg_sleep_heart_rate) : null,
-          skinTemperature: stats.avg_skin_temperature ? parseFloat(stats.avg_skin_temperature) : null
-        },
-        dateRange: {
-          earliest: stats.earliest_date ? stats.earliest_date.toISOString() : null,
-          latest: stats.latest_date ? stats.latest_date.toISOString() : null
-        },
-        entriesPerDay: hourlyResult.rows.map(r => ({
-          date: typeof r.date === 'string' ? r.date : r.date.toISOString().split('T')[0],
-          count: parseInt(r.entries_per_day)
-        }))
-      }
+      message: 'Conversation deleted'
     });
   } catch (error) {
-    console.error('Get wearable statistics error:', error);
+    console.error('Delete chat conversation error:', error);
     res.status(500).json({
       success: false,
-      message: 'Error fetching wearable statistics'
+      message: 'Error deleting conversation'
     });
   }
 });
@@ -2665,6 +6766,14 @@ app.use((req, res) => {
 
 // Error handler
 app.use((err, req, res, next) => {
+  if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+    return res.status(413).json({
+      success: false,
+      message: req.path.startsWith('/api/wearable/')
+        ? `File is larger than the ${WEARABLE_UPLOAD_MAX_MB} MB upload limit`
+        : 'File is too large'
+    });
+  }
   console.error('Error:', err);
   res.status(500).json({
     success: false,
@@ -2676,10 +6785,27 @@ app.use((err, req, res, next) => {
 // START SERVER
 // ============================================
 
+// The server listens and runs background jobs only when started directly (tests import the app
+// and the job handlers)
+const isMainModule = path.resolve(process.argv[1] || '') === fileURLToPath(import.meta.url);
+
+// Background jobs: wearable imports, and scheduled forecasts when enabled (each tick enqueues due
+// morning/evening forecasts, then runs pending jobs). Imports left unfinished by a previous process
+// are picked up again: queued ones right away, interrupted ones once their lock is stale
+const jobRunner = isMainModule ? startJobRunner({
+  handlers: {
+    [WEARABLE_IMPORT_JOB]: processWearableUpload,
+    ...(SCHEDULER_ENABLED ? { [RISK_FORECAST_JOB]: runScheduledForecast } : {})
+  },
+  onTick: SCHEDULER_ENABLED ? scheduleDueForecasts : null,
+  intervalMs: SCHEDULER_INTERVAL_MS
+}) : null;
+
 // Graceful shutdown
 const gracefulShutdown = async () => {
   console.log('\n🛑 Shutting down gracefully...');
   try {
+    jobRunner?.stop();
     await closePool();
     process.exit(0);
   } catch (error) {
@@ -2688,40 +6814,105 @@ const gracefulShutdown = async () => {
   }
 };
 
-process.on('SIGTERM', gracefulShutdown);
-process.on('SIGINT', gracefulShutdown);
-
-app.listen(PORT, () => {
-  console.log(`🚀 Migraine Tracker API running on http://localhost:${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
-  console.log(`\n📝 Available endpoints:`);
-  console.log(`   POST   /api/auth/register`);
-  console.log(`   POST   /api/auth/login`);
-  console.log(`   POST   /api/auth/logout`);
-  console.log(`   GET    /api/auth/me`);
-  console.log(`   GET    /api/migraine`);
-  console.log(`   GET    /api/migraine/:id`);
-  console.log(`   POST   /api/migraine`);
-  console.log(`   PUT    /api/migraine/:id`);
-  console.log(`   DELETE /api/migraine/:id`);
-  console.log(`   GET    /api/migraine/statistics`);
-  console.log(`   GET    /api/migraine/recent`);
-  console.log(`   POST   /api/wearable/upload`);
-  console.log(`   GET    /api/wearable`);
-  console.log(`   GET    /api/wearable/statistics`);
-  console.log(`   GET    /api/wearable/uploads`);
-  console.log(`   GET    /api/wearable/uploads/:id`);
-  console.log(`   DELETE /api/wearable/uploads/:id`);
-  console.log(`   DELETE /api/wearable/uploads (delete all)`);
-  console.log(`   POST   /api/wearable/cleanup-orphaned`);
-  console.log(`   GET    /api/calendar`);
-  console.log(`   POST   /api/calendar/migraine-day`);
-  console.log(`   DELETE /api/calendar/migraine-day/:date`);
-  console.log(`   POST   /api/summary/process`);
-  console.log(`   GET    /api/summary`);
-  console.log(`   GET    /api/summary/correlations`);
-  console.log(`   GET    /api/risk-prediction/data`);
-  console.log(`   POST   /api/risk-prediction/prompt (with simulated data)`);
-  console.log(`   GET    /api/risk-prediction/prompt`);
-  console.log(`\n🔐 Demo user: demo@example.com / demo123`);
-});
+if (isMainModule) {
+  process.on('SIGTERM', gracefulShutdown);
+  process.on('SIGINT', gracefulShutdown);
+
+  app.listen(PORT, () => {
+    console.log(`🚀 Migraine Tracker API running on http://localhost:${PORT}`);
+    console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
+    console.log(`\n📝 Available endpoints:`);
+    console.log(`   POST   /api/auth/register`);
+    console.log(`   POST   /api/auth/login`);
+    console.log(`   POST   /api/auth/logout`);
+    console.log(`   GET    /api/auth/me`);
+    console.log(`   GET    /api/migraine`);
+    console.log(`   GET    /api/migraine/:id`);
+    console.log(`   POST   /api/migraine`);
+    console.log(`   PUT    /api/migraine/:id`);
+    console.log(`   DELETE /api/migraine/:id`);
+    console.log(`   GET    /api/migraine/statistics`);
+    console.log(`   GET    /api/migraine/recent`);
+    console.log(`   GET    /api/migraine/search`);
+    console.log(`   GET    /api/migraine/export?format=csv|json|fhir`);
+    console.log(`   GET    /api/migraine/import/presets`);
+    console.log(`   POST   /api/migraine/import/preview`);
+    console.log(`   POST   /api/migraine/import`);
+    console.log(`   GET    /api/migraine/imports`);
+    console.log(`   DELETE /api/migraine/imports/:id`);
+    console.log(`   GET    /api/migraine/:id/intakes`);
+    console.log(`   POST   /api/migraine/:id/intakes`);
+    console.log(`   GET    /api/medications`);
+    console.log(`   POST   /api/medications`);
+    console.log(`   PUT    /api/medications/:id`);
+    console.log(`   DELETE /api/medications/:id`);
+    console.log(`   GET    /api/medications/intakes`);
+    console.log(`   PUT    /api/medications/intakes/:id`);
+    console.log(`   DELETE /api/medications/intakes/:id`);
+    console.log(`   GET    /api/medications/overuse`);
+    console.log(`   GET    /api/vocabulary`);
+    console.log(`   POST   /api/vocabulary`);
+    console.log(`   PUT    /api/vocabulary/:id`);
+    console.log(`   DELETE /api/vocabulary/:id`);
+    console.log(`   POST   /api/vocabulary/merge`);
+    console.log(`   POST   /api/vocabulary/sync`);
+    console.log(`   GET    /api/checkins`);
+    console.log(`   GET    /api/checkins/:date`);
+    console.log(`   PUT    /api/checkins/:date`);
+    console.log(`   DELETE /api/checkins/:date`);
+    console.log(`   GET    /api/wearable/importers`);
+    console.log(`   POST   /api/wearable/upload/preview`);
+    console.log(`   POST   /api/wearable/upload (imported in the background)`);
+    console.log(`   GET    /api/wearable`);
+    console.log(`   GET    /api/wearable/statistics`);
+    console.log(`   GET    /api/wearable/uploads`);
+    console.log(`   GET    /api/wearable/uploads/:id (import progress)`);
+    console.log(`   DELETE /api/wearable/uploads/:id`);
+    console.log(`   DELETE /api/wearable/uploads (delete all)`);
+    console.log(`   POST   /api/wearable/cleanup-orphaned`);
+    console.log(`   GET    /api/wearable/mapping-templates`);
+    console.log(`   POST   /api/wearable/mapping-templates`);
+    console.log(`   PUT    /api/wearable/mapping-templates/:id`);
+    console.log(`   DELETE /api/wearable/mapping-templates/:id`);
+    console.log(`   GET    /api/calendar`);
+    console.log(`   POST   /api/calendar/migraine-day`);
+    console.log(`   DELETE /api/calendar/migraine-day/:date`);
+    console.log(`   POST   /api/summary/process`);
+    console.log(`   GET    /api/summary`);
+    console.log(`   GET    /api/summary/correlations`);
+    console.log(`   GET    /api/risk-prediction/data`);
+    console.log(`   POST   /api/risk-prediction/prompt (optional what-if scenario)`);
+    console.log(`   GET    /api/risk-prediction/prompt`);
+    console.log(`   POST   /api/risk-prediction/local (local model, optional what-if scenario)`);
+    console.log(`   GET    /api/risk-prediction/horizons`);
+    console.log(`   GET    /api/risk-prediction/provider`);
+    console.log(`   POST   /api/risk-prediction/analyze (server-side LLM analysis)`);
+    console.log(`   POST   /api/risk-prediction/backtest (replay forecasts over past days)`);
+    console.log(`   GET    /api/risk-assessments`);
+    console.log(`   GET    /api/risk-assessments/accuracy`);
+    console.log(`   GET    /api/risk-assessments/:id`);
+    console.log(`   GET    /api/notifications`);
+    console.log(`   GET    /api/notifications/settings`);
+    console.log(`   PUT    /api/notifications/settings`);
+    console.log(`   POST   /api/notifications/push-subscriptions`);
+    console.log(`   DELETE /api/notifications/push-subscriptions`);
+    console.log(`   POST   /api/notifications/test`);
+    console.log(`   POST   /api/notifications/read-all`);
+    console.log(`   PUT    /api/notifications/:id/read`);
+    console.log(`   DELETE /api/notifications/:id`);
+    console.log(`   GET    /api/risk-forecasts/jobs`);
+    console.log(`   GET    /api/scenarios`);
+    console.log(`   POST   /api/scenarios`);
+    console.log(`   POST   /api/scenarios/preview`);
+    console.log(`   POST   /api/scenarios/compare (local model, not stored)`);
+    console.log(`   PUT    /api/scenarios/:id`);
+    console.log(`   DELETE /api/scenarios/:id`);
+    console.log(SCHEDULER_ENABLED
+      ? `\n⏰ Scheduled forecasts: checking every ${Math.round(SCHEDULER_INTERVAL_MS / 1000)}s (push: ${notificationTransports.push.name}, email: ${notificationTransports.email.name})`
+      : `\n⏰ Scheduled forecasts disabled (SCHEDULER_ENABLED=false)`);
+    console.log(`📥 Wearable uploads: stored in ${WEARABLE_UPLOAD_DIR} (max ${WEARABLE_UPLOAD_MAX_MB} MB), imported in the background`);
+    console.log(`\n🔐 Demo user: demo@example.com / demo123`);
+  });
+}
+
+export { app, runScheduledForecast };
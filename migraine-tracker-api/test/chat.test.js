@@ -0,0 +1,86 @@
+import { test, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { app } from '../server.js';
+import { fakeDatabase, startServer } from './helpers/testServer.js';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+
+const MIGRAINES = [
+  { id: 'entry-2', start_time: new Date('2024-03-05T14:00:00Z'), end_time: null, intensity: 7, migraine_type: 'with_aura', triggers: 'stress', symptoms: null, medication: null, notes: null },
+  { id: 'entry-1', start_time: new Date('2024-03-01T08:30:00Z'), end_time: new Date('2024-03-01T16:00:00Z'), intensity: 5, migraine_type: null, triggers: null, symptoms: 'nausea', medication: 'ibuprofen', notes: null }
+];
+
+let server;
+let db;
+
+before(async () => {
+  server = await startServer(app);
+});
+
+after(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  process.env.LLM_PROVIDER = 'mock';
+  // A custom analysis response must not replace the scripted chat replies
+  process.env.LLM_MOCK_RESPONSE = 'not a chat reply';
+  db = fakeDatabase([
+    [/FROM migraine_entries WHERE user_id = \$1/, MIGRAINES],
+    [/INSERT INTO chat_conversations/, ([userId, title, provider, model]) => [{
+      id: 'conversation-1', user_id: userId, title, provider, model, created_at: new Date(), updated_at: new Date()
+    }]],
+    [/INSERT INTO chat_messages/, ([conversationId, position, role, content, toolName, toolArguments, toolResult]) => [{
+      id: `message-${position}`,
+      conversation_id: conversationId,
+      position,
+      role,
+      content,
+      tool_name: toolName,
+      tool_arguments: toolArguments && JSON.parse(toolArguments),
+      tool_result: toolResult && JSON.parse(toolResult),
+      created_at: new Date()
+    }]]
+  ]);
+});
+
+afterEach(() => {
+  db.restore();
+  delete process.env.LLM_PROVIDER;
+  delete process.env.LLM_MOCK_RESPONSE;
+});
+
+test('POST /api/chat/conversations answers through a tool call and stores every step', async () => {
+  const response = await server.request('POST', '/api/chat/conversations', {
+    userId: USER_ID,
+    body: { message: 'When were my last migraines?' }
+  });
+
+  assert.equal(response.status, 201);
+  assert.equal(response.body.data.conversation.title, 'When were my last migraines?');
+  assert.equal(response.body.data.conversation.provider, 'mock');
+
+  const toolQuery = db.statements.find(({ text }) => /FROM migraine_entries/.test(text));
+  assert.deepEqual(toolQuery.params, [USER_ID, 5]);
+
+  // Stored in order inside one transaction: question, tool call with its result, answer
+  const inserts = db.statements.filter(({ text }) => /INSERT INTO chat_messages/.test(text));
+  assert.deepEqual(inserts.map(({ params }) => [params[1], params[2], params[4]]), [
+    [0, 'user', null],
+    [1, 'tool', 'list_migraines'],
+    [2, 'assistant', null]
+  ]);
+  const texts = db.statements.map(({ text }) => text);
+  assert.ok(texts.indexOf('BEGIN') < texts.findIndex(text => /INSERT INTO chat_conversations/.test(text)));
+  assert.equal(texts.at(-1), 'COMMIT');
+
+  const [question, toolStep, answer] = response.body.data.messages;
+  assert.equal(question.content, 'When were my last migraines?');
+  assert.equal(toolStep.toolName, 'list_migraines');
+  assert.deepEqual(toolStep.toolArguments, { limit: 5 });
+  assert.deepEqual(toolStep.toolResult.migraines.map(({ id, start }) => [id, start]), [
+    ['entry-2', '2024-03-05T14:00:00.000Z'],
+    ['entry-1', '2024-03-01T08:30:00.000Z']
+  ]);
+  assert.match(answer.content, /^Mock answer: the list_migraines tool returned 2 records\./);
+});
@@ -0,0 +1,53 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadMigraineOutcomes } from '../utils/forecastEvaluator.js';
+import { fakeDatabase } from './helpers/testServer.js';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+
+let db;
+
+afterEach(() => {
+  db.restore();
+});
+
+// A Berlin user (UTC+1 in March) with a migraine day marked for every diary entry
+const useOutcomes = ({ onsets, markedDays }) => {
+  db = fakeDatabase([
+    [/FROM user_profiles/, [{ timezone: 'Europe/Berlin' }]],
+    [/FROM migraine_entries/, onsets.map(onset => ({ start_time: new Date(onset) }))],
+    [/FROM migraine_day_markers/, markedDays.map(date => ({ date }))]
+  ]);
+  return loadMigraineOutcomes(USER_ID);
+};
+
+test('a marked day whose migraine started before the forecast is not a hit', async () => {
+  // Attack at 08:00 local, evening forecast at 19:00 local with a 3-hour horizon
+  const hadMigraineAfter = await useOutcomes({ onsets: ['2024-03-05T07:00:00Z'], markedDays: ['2024-03-05'] });
+
+  assert.equal(hadMigraineAfter(new Date('2024-03-05T18:00:00Z'), 3), false);
+});
+
+test('a marked day counts once the horizon reaches the next local day', async () => {
+  const hadMigraineAfter = await useOutcomes({ onsets: ['2024-03-05T07:00:00Z'], markedDays: ['2024-03-05', '2024-03-06'] });
+
+  // 19:00 local + 6 hours ends at 01:00 on the 6th
+  assert.equal(hadMigraineAfter(new Date('2024-03-05T18:00:00Z'), 6), true);
+});
+
+test('a marked forecast day without an earlier onset is a hit', async () => {
+  // Marked in the check-in without a diary entry, or the attack started after the forecast
+  const unrecorded = await useOutcomes({ onsets: [], markedDays: ['2024-03-05'] });
+  assert.equal(unrecorded(new Date('2024-03-05T06:00:00Z'), 3), true);
+  db.restore();
+
+  const laterAttack = await useOutcomes({ onsets: ['2024-03-05T16:00:00Z'], markedDays: ['2024-03-05'] });
+  assert.equal(laterAttack(new Date('2024-03-05T06:00:00Z'), 3), true);
+});
+
+test('an onset inside the horizon is a hit', async () => {
+  const hadMigraineAfter = await useOutcomes({ onsets: ['2024-03-05T20:00:00Z'], markedDays: [] });
+
+  assert.equal(hadMigraineAfter(new Date('2024-03-05T18:00:00Z'), 3), true);
+  assert.equal(hadMigraineAfter(new Date('2024-03-05T18:00:00Z'), 1), false);
+});
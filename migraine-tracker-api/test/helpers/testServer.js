@@ -0,0 +1,62 @@
+import { once } from 'events';
+import jwt from 'jsonwebtoken';
+import pool from '../../db/database.js';
+
+/**
+ * Test helpers
+ * The API is exercised over HTTP with the pool's queries answered in memory, so tests run
+ * without a PostgreSQL server.
+ */
+
+/**
+ * Answer the pool's queries with canned rows
+ * @param {Array} handlers - [pattern, rows | (params, text) => rows]; the first pattern matching the
+ *   SQL text answers it, anything else returns no rows (BEGIN, COMMIT, UPDATE, ...)
+ * @returns {Object} { statements: [{ text, params }] in execution order, restore }
+ */
+export const fakeDatabase = (handlers = []) => {
+  const statements = [];
+  const run = async (text, params = []) => {
+    statements.push({ text, params });
+    const handler = handlers.find(([pattern]) => pattern.test(text));
+    const rows = !handler ? [] : typeof handler[1] === 'function' ? await handler[1](params, text) : handler[1];
+    return { rows, rowCount: rows.length };
+  };
+
+  const original = { query: pool.query, connect: pool.connect };
+  pool.query = run;
+  pool.connect = async () => ({ query: run, release: () => {} });
+
+  return {
+    statements,
+    restore: () => Object.assign(pool, original)
+  };
+};
+
+/**
+ * Listen on a free port
+ * @returns {Promise<Object>} { request(method, path, { userId, body }), close }
+ */
+export const startServer = async (app) => {
+  const server = app.listen(0);
+  await once(server, 'listening');
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+  const secret = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+  const request = async (method, path, { userId, body } = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(userId ? { Authorization: `Bearer ${jwt.sign({ userId }, secret)}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  return {
+    request,
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+};
@@ -0,0 +1,238 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { previewWearableFile, openWearableFile, readWearableBatches } from '../utils/importers/index.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'importers');
+
+const importFixture = (vendor, filename, options) =>
+  previewWearableFile(path.join(FIXTURES_DIR, vendor, filename), filename, options);
+
+// Write a file to a temporary directory
+const writeTempFile = async (t, filename, contents) => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'importers-'));
+  t.after(() => fs.rm(directory, { recursive: true, force: true }));
+  const filePath = path.join(directory, filename);
+  await fs.writeFile(filePath, contents);
+  return filePath;
+};
+
+// Parsed rows without empty fields, with ISO timestamps
+const compact = (data) => data.map(row => Object.fromEntries(
+  Object.entries(row)
+    .filter(([, value]) => value !== null && !(typeof value === 'object' && !(value instanceof Date) && Object.keys(value).length === 0))
+    .map(([key, value]) => [key, value instanceof Date ? value.toISOString() : value])
+));
+
+test('Oura JSON export', async () => {
+  const result = await importFixture('oura', 'oura_2024-03-01_2024-03-02.json');
+
+  assert.equal(result.format, 'oura_json');
+  assert.equal(result.source, 'oura');
+  assert.equal(result.totalRows, 7);
+  assert.deepEqual(result.valueErrors, []);
+  assert.deepEqual(compact(result.sampleRows).slice(0, 3), [
+    { timestamp: '2024-03-01T00:00:00.000Z', additional_data: { temperature_deviation: -0.12 }, recovery_value: 78 },
+    {
+      timestamp: '2024-03-01T06:00:00.000Z',
+      additional_data: { lowest_heart_rate: 48, temperature_deviation: -0.12, average_breath: 14.6, total_sleep_duration: 25200 },
+      hrv: 42,
+      sleep_efficiency: 88,
+      sleep_heart_rate: 54.5,
+      restless_periods: 212
+    },
+    { timestamp: '2024-03-01T09:00:00.000Z', heart_rate: 63 }
+  ]);
+});
+
+test('Fitbit JSON exports', async () => {
+  const heartRate = await importFixture('fitbit', 'heart_rate-2024-03-01.json');
+  assert.equal(heartRate.format, 'fitbit_json');
+  assert.equal(heartRate.source, 'fitbit');
+  assert.deepEqual(compact(heartRate.sampleRows), [
+    { timestamp: '2024-03-01T08:00:00.000Z', heart_rate: 64 },
+    { timestamp: '2024-03-01T09:00:00.000Z', heart_rate: 81 }
+  ]);
+
+  const restingHeartRate = await importFixture('fitbit', 'resting_heart_rate-2024-03-01.json');
+  assert.equal(restingHeartRate.format, 'fitbit_json');
+  assert.deepEqual(compact(restingHeartRate.sampleRows), [
+    { timestamp: '2024-03-01T00:00:00.000Z', additional_data: { resting_heart_rate: 58.61 } }
+  ]);
+
+  const sleep = await importFixture('fitbit', 'sleep-2024-03-01.json');
+  assert.equal(sleep.format, 'fitbit_json');
+  assert.deepEqual(compact(sleep.sampleRows), [{
+    timestamp: '2024-03-02T06:00:00.000Z',
+    additional_data: { minutes_asleep: 392, minutes_awake: 55, time_in_bed: 447 },
+    sleep_efficiency: 91,
+    restless_periods: 27
+  }]);
+});
+
+test('Garmin JSON and FIT exports', async () => {
+  const daily = await importFixture('garmin', 'UDSFile_2024-03-01_2024-03-02.json');
+  assert.equal(daily.format, 'garmin_json');
+  assert.equal(daily.source, 'garmin');
+  assert.deepEqual(compact(daily.sampleRows), [
+    {
+      timestamp: '2024-03-01T00:00:00.000Z',
+      additional_data: { min_heart_rate: 47, max_heart_rate: 151, total_steps: 9412 },
+      stress_value: 31,
+      recovery_value: 84,
+      heart_rate: 53
+    },
+    {
+      timestamp: '2024-03-02T00:00:00.000Z',
+      additional_data: { min_heart_rate: 50, max_heart_rate: 122, total_steps: 4120 },
+      stress_value: 47,
+      recovery_value: 52,
+      heart_rate: 57
+    }
+  ]);
+
+  const sleep = await importFixture('garmin', '2024-03-01_2024-03-02_12345678_sleepData.json');
+  assert.equal(sleep.format, 'garmin_json');
+  assert.deepEqual(compact(sleep.sampleRows), [
+    {
+      timestamp: '2024-03-01T05:00:00.000Z',
+      additional_data: { sleep_stress: 17.4, sleep_score: 81, average_respiration: 14 },
+      sleep_efficiency: 97.03,
+      restless_periods: 2
+    },
+    {
+      timestamp: '2024-03-02T05:00:00.000Z',
+      additional_data: { sleep_stress: 29.8, sleep_score: 58, average_respiration: 15 },
+      sleep_efficiency: 87.05,
+      restless_periods: 5
+    }
+  ]);
+
+  const monitoring = await importFixture('garmin', 'monitoring_2024-03-01.fit');
+  assert.equal(monitoring.format, 'garmin_fit');
+  assert.equal(monitoring.source, 'garmin');
+  assert.deepEqual(compact(monitoring.sampleRows), [
+    { timestamp: '2024-03-01T08:00:00.000Z', stress_value: 28, heart_rate: 62 },
+    { timestamp: '2024-03-01T09:00:00.000Z', stress_value: 55, heart_rate: 77 }
+  ]);
+});
+
+test('Apple Health XML export', async () => {
+  const result = await importFixture('apple_health', 'export.xml');
+
+  assert.equal(result.format, 'apple_health_xml');
+  assert.equal(result.source, 'apple_health');
+  // Heart rate samples are averaged per hour, the night's sleep stages become one row and
+  // the wrist temperature is converted from degF
+  assert.deepEqual(compact(result.sampleRows), [
+    { timestamp: '2024-02-29T23:00:00.000Z', additional_data: { resting_heart_rate: 56 } },
+    { timestamp: '2024-03-01T08:00:00.000Z', heart_rate: 67, hrv: 38.41 },
+    { timestamp: '2024-03-02T05:00:00.000Z', sleep_efficiency: 95.4, skin_temperature: 35.1, restless_periods: 1 }
+  ]);
+});
+
+test('Whoop CSV export', async () => {
+  const result = await importFixture('whoop', 'physiological_cycles.csv');
+
+  assert.equal(result.format, 'whoop_csv');
+  assert.equal(result.source, 'whoop');
+  assert.equal(result.totalRows, 2);
+  assert.deepEqual(compact(result.sampleRows)[0], {
+    timestamp: '2024-03-01T11:00:00.000Z',
+    additional_data: {
+      strain: 11.8,
+      blood_oxygen: 96.2,
+      respiratory_rate: 15.2,
+      sleep_performance: 90,
+      asleep_minutes: 421,
+      awake_minutes: 41,
+      sleep_debt_minutes: 12
+    },
+    recovery_value: 71,
+    heart_rate: 68,
+    hrv: 61,
+    sleep_efficiency: 91,
+    sleep_heart_rate: 52,
+    skin_temperature: 33.41
+  });
+});
+
+test('generic CSV with an inferred mapping', async () => {
+  const result = await importFixture('generic', 'hourly_metrics.csv');
+
+  assert.equal(result.format, 'generic_csv');
+  assert.equal(result.source, 'manual_upload');
+  assert.deepEqual(result.unrecognizedFields, ['steps']);
+  assert.deepEqual(compact(result.sampleRows), [
+    { timestamp: '2024-03-01T08:00:00.000Z', stress_value: 34, recovery_value: 72, heart_rate: 63, hrv: 48, skin_temperature: 33.6, additional_data: { steps: 412 } },
+    { timestamp: '2024-03-01T09:00:00.000Z', stress_value: 41, recovery_value: 70, heart_rate: 71, hrv: 44, skin_temperature: 33.8, additional_data: { steps: 1530 } },
+    { timestamp: '2024-03-01T10:00:00.000Z', stress_value: 58, recovery_value: 69, heart_rate: 78, hrv: 37, skin_temperature: 34, additional_data: { steps: 220 } }
+  ]);
+});
+
+test('JSON file no vendor importer recognizes', async (t) => {
+  const result = await previewWearableFile(await writeTempFile(t, 'export.json', '{"entries": []}'), 'export.json');
+
+  assert.match(result.error, /^Unrecognized file format/);
+});
+
+test('generic CSV is read in batches with the units of its first rows', async (t) => {
+  // Sleep efficiency as a fraction, with a byte order mark before the header
+  const lines = ['timestamp,sleep_efficiency,heart_rate'];
+  for (let index = 0; index < 1200; index++) {
+    const efficiency = index < 1000 ? 0.9 : 0.95;
+    lines.push(`${new Date(Date.UTC(2024, 0, 1) + index * 3600000).toISOString()},${efficiency},60`);
+  }
+  const filePath = await writeTempFile(t, 'metrics.csv', `\uFEFF${lines.join('\n')}\n`);
+  const file = await openWearableFile(filePath, 'metrics.csv');
+
+  const read = file.read();
+  const batches = [];
+  for await (const batch of readWearableBatches(read, { batchSize: 500 })) {
+    batches.push(batch);
+  }
+
+  assert.equal(file.format, 'generic_csv');
+  assert.deepEqual(read.describe().fieldMapping, { timestamp: 'timestamp', sleep_efficiency: 'sleepEfficiency', heart_rate: 'heartRate' });
+  assert.deepEqual(batches.map(({ size, end }) => [size, end]), [[500, 500], [500, 1000], [200, 1200]]);
+  assert.equal(batches[0].units.sleepEfficiency.unit, 'fraction');
+  assert.equal(batches[2].rows[0].sleep_efficiency, 95);
+  assert.equal(batches[2].rows[0].timestamp.toISOString(), new Date(Date.UTC(2024, 0, 1) + 1000 * 3600000).toISOString());
+});
+
+test('rows before the checkpoint are read past', async (t) => {
+  const lines = ['timestamp,hrv'];
+  for (let index = 0; index < 1200; index++) {
+    lines.push(`${new Date(Date.UTC(2024, 0, 1) + index * 3600000).toISOString()},0.05`);
+  }
+  const filePath = await writeTempFile(t, 'hrv.csv', lines.join('\n'));
+  const file = await openWearableFile(filePath, 'hrv.csv');
+
+  const batches = [];
+  for await (const batch of readWearableBatches(file.read(), { fieldUnits: { hrv: { unit: 'seconds' } }, skip: 1000, batchSize: 500 })) {
+    batches.push(batch);
+  }
+
+  assert.deepEqual(batches.map(({ size, end }) => [size, end]), [[200, 1200]]);
+  assert.equal(batches[0].rows[0].hrv, 50);
+  assert.equal(batches[0].rows[0].timestamp.toISOString(), '2024-02-11T16:00:00.000Z');
+});
+
+test('Apple Health records split across read chunks', async (t) => {
+  // Well over one 64 KiB chunk of records
+  const records = [];
+  for (let index = 0; index < 3000; index++) {
+    const at = new Date(Date.UTC(2024, 2, 1) + index * 60000).toISOString().replace('T', ' ').replace('.000Z', ' +0000');
+    records.push(`<Record type="HKQuantityTypeIdentifierHeartRate" sourceName="Watch" unit="count/min" startDate="${at}" endDate="${at}" value="${60 + (index % 2) * 10}"/>`);
+  }
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<HealthData locale="en_US">\n${records.join('\n')}\n</HealthData>\n`;
+  const result = await previewWearableFile(await writeTempFile(t, 'export.xml', xml), 'export.xml');
+
+  assert.equal(result.format, 'apple_health_xml');
+  // 3000 minutes are 50 hours of samples averaging 65 bpm
+  assert.equal(result.totalRows, 50);
+  assert.ok(result.sampleRows.every(row => row.heart_rate === 65));
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getCurrentForecastSlot } from '../utils/riskForecastScheduler.js';
+
+test('forecast slots are wall-clock hours in the user timezone', () => {
+  assert.deepEqual(getCurrentForecastSlot(new Date('2024-03-10T02:00:00Z'), 7, 19, 'Asia/Tokyo'), {
+    slot: 'morning',
+    date: '2024-03-10',
+    slotTime: new Date('2024-03-09T22:00:00Z')
+  });
+});
+
+test('before the morning hour the previous local evening is current', () => {
+  assert.deepEqual(getCurrentForecastSlot(new Date('2024-03-10T06:30:00Z'), 7, 19, 'America/New_York'), {
+    slot: 'evening',
+    date: '2024-03-09',
+    slotTime: new Date('2024-03-10T00:00:00Z')
+  });
+});
+
+test('the morning slot follows a DST change', () => {
+  // Clocks in New York moved from UTC-5 to UTC-4 overnight
+  assert.deepEqual(getCurrentForecastSlot(new Date('2024-03-10T12:30:00Z'), 7, 19, 'America/New_York'), {
+    slot: 'morning',
+    date: '2024-03-10',
+    slotTime: new Date('2024-03-10T11:00:00Z')
+  });
+});
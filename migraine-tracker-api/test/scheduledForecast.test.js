@@ -0,0 +1,102 @@
+import { test, before, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDatabase } from './helpers/testServer.js';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+
+let runScheduledForecast;
+let db;
+
+before(async () => {
+  // Transports are created when the server module loads; log ones deliver without a mail server
+  process.env.EMAIL_TRANSPORT = 'log';
+  process.env.PUSH_TRANSPORT = 'log';
+  ({ runScheduledForecast } = await import('../server.js'));
+});
+
+beforeEach(() => {
+  process.env.LLM_PROVIDER = 'mock';
+});
+
+afterEach(() => {
+  db.restore();
+  delete process.env.LLM_PROVIDER;
+});
+
+// LLM forecasts from the mock provider score 35%
+const useDatabase = ({ previousRisk, riskThreshold = 30 }) => {
+  db = fakeDatabase([
+    [/LEFT JOIN notification_settings/, [{
+      user_id: USER_ID,
+      account_email: 'demo@example.com',
+      forecasts_enabled: true,
+      forecast_engine: 'llm',
+      morning_hour: 7,
+      evening_hour: 19,
+      risk_threshold: riskThreshold,
+      push_enabled: false,
+      email_enabled: true,
+      email_address: null
+    }]],
+    [/SELECT risk_level FROM risk_assessments/, previousRisk === null ? [] : [{ risk_level: previousRisk }]],
+    [/INSERT INTO risk_assessments/, [{ id: 'assessment-1' }]],
+    [/INSERT INTO notifications/, ([userId, type, title, body, data, deliveries]) => [{
+      id: 'notification-1',
+      user_id: userId,
+      type,
+      title,
+      body,
+      data: JSON.parse(data),
+      deliveries: JSON.parse(deliveries),
+      read_at: null,
+      created_at: new Date()
+    }]]
+  ]);
+};
+
+const notificationInserts = () => db.statements.filter(({ text }) => /INSERT INTO notifications/.test(text));
+
+test('a forecast crossing the threshold is emailed and written to the inbox', async () => {
+  useDatabase({ previousRisk: 20 });
+
+  const result = await runScheduledForecast({ user_id: USER_ID, payload: { slot: 'morning' } });
+
+  assert.deepEqual(result, { assessmentId: 'assessment-1', riskLevel: 35, alerted: true });
+  const inserts = notificationInserts();
+  assert.equal(inserts.length, 1);
+  const [userId, type, title, body, data, deliveries] = inserts[0].params;
+  assert.equal(userId, USER_ID);
+  assert.equal(type, 'risk_alert');
+  assert.equal(title, 'Migraine risk 35% (Moderate)');
+  assert.match(body, /^Your morning forecast is at or above your 30% alert threshold\./);
+  assert.deepEqual(JSON.parse(data), { assessmentId: 'assessment-1', riskLevel: 35, threshold: 30, slot: 'morning' });
+  // Push is off in the settings, so only the email channel is attempted
+  assert.deepEqual(JSON.parse(deliveries), { email: 'sent to demo@example.com' });
+});
+
+test('a forecast crossing the threshold alerts when there is no earlier forecast', async () => {
+  useDatabase({ previousRisk: null });
+
+  const result = await runScheduledForecast({ user_id: USER_ID, payload: { slot: 'evening' } });
+
+  assert.equal(result.alerted, true);
+  assert.equal(notificationInserts().length, 1);
+});
+
+test('no alert while the risk stays above the threshold', async () => {
+  useDatabase({ previousRisk: 40 });
+
+  const result = await runScheduledForecast({ user_id: USER_ID, payload: { slot: 'morning' } });
+
+  assert.equal(result.alerted, false);
+  assert.equal(notificationInserts().length, 0);
+});
+
+test('no alert below the threshold', async () => {
+  useDatabase({ previousRisk: 20, riskThreshold: 50 });
+
+  const result = await runScheduledForecast({ user_id: USER_ID, payload: { slot: 'morning' } });
+
+  assert.equal(result.alerted, false);
+  assert.equal(notificationInserts().length, 0);
+});
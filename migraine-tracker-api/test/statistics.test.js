@@ -0,0 +1,51 @@
+import { test, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { app } from '../server.js';
+import { toLocalDateKey } from '../utils/timezone.js';
+import { fakeDatabase, startServer } from './helpers/testServer.js';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const TIMEZONE = 'Pacific/Auckland';
+
+let server;
+let db;
+
+before(async () => {
+  server = await startServer(app);
+});
+
+after(async () => {
+  await server.close();
+});
+
+afterEach(() => {
+  db.restore();
+});
+
+test('GET /api/migraine/statistics counts migraines per month of the user timezone', async () => {
+  const currentMonth = toLocalDateKey(new Date(), TIMEZONE).substring(0, 7);
+  db = fakeDatabase([
+    [/FROM user_profiles/, [{ timezone: TIMEZONE }]],
+    [/COUNT\(\*\) as migraine_entries/, [{ migraine_entries: '3', average_intensity: '6' }]],
+    [/as wearable_days/, [{ wearable_days: '0' }]],
+    [/TO_CHAR\(start_time AT TIME ZONE \$3, 'YYYY-MM'\)/, [{ month: currentMonth, count: '3' }]],
+    [/FROM migraine_day_markers/, [{ month: currentMonth, count: '2' }]]
+  ]);
+
+  const response = await server.request('GET', '/api/migraine/statistics', { userId: USER_ID });
+
+  assert.equal(response.status, 200);
+  const months = response.body.data.frequencyByMonth;
+  assert.equal(months.length, 6);
+  const [year, month] = currentMonth.split('-').map(Number);
+  const label = new Date(Date.UTC(year, month - 1, 1)).toLocaleString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  assert.deepEqual(months.at(-1), { month: label, count: 3 });
+  assert.ok(months.slice(0, 5).every(({ count }) => count === 0));
+
+  // Entries are bucketed and filtered in the user's timezone from the first day of the oldest month
+  const entriesQuery = db.statements.find(({ text }) => /TO_CHAR\(start_time AT TIME ZONE/.test(text));
+  assert.equal(entriesQuery.params[2], TIMEZONE);
+  const markersQuery = db.statements.find(({ text }) => /FROM migraine_day_markers/.test(text));
+  assert.match(markersQuery.params[1], /^\d{4}-\d{2}-01$/);
+  assert.equal(toLocalDateKey(entriesQuery.params[1], TIMEZONE), markersQuery.params[1]);
+});
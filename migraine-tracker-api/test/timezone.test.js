@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addDaysToKey,
+  getLocalDayBounds,
+  getLocalHour,
+  getTimezoneOffset,
+  isValidTimezone,
+  localDateBound,
+  parseLocalDateTime,
+  toDateColumnKey,
+  toLocalDateKey,
+  zonedTimeToUtc
+} from '../utils/timezone.js';
+
+const HOUR = 60 * 60 * 1000;
+
+test('isValidTimezone', () => {
+  assert.equal(isValidTimezone('Europe/Berlin'), true);
+  assert.equal(isValidTimezone('UTC'), true);
+  assert.equal(isValidTimezone('Mars/Olympus_Mons'), false);
+  assert.equal(isValidTimezone(''), false);
+  assert.equal(isValidTimezone(null), false);
+});
+
+test('getTimezoneOffset follows DST and non-hour offsets', () => {
+  assert.equal(getTimezoneOffset(new Date('2024-01-15T12:00:00Z'), 'Europe/Berlin'), 1 * HOUR);
+  assert.equal(getTimezoneOffset(new Date('2024-07-15T12:00:00Z'), 'Europe/Berlin'), 2 * HOUR);
+  assert.equal(getTimezoneOffset(new Date('2024-07-15T12:00:00Z'), 'America/New_York'), -4 * HOUR);
+  assert.equal(getTimezoneOffset(new Date('2024-07-15T12:00:00Z'), 'Asia/Kolkata'), 5.5 * HOUR);
+});
+
+test('toLocalDateKey and getLocalHour read the wall clock of the timezone', () => {
+  const instant = new Date('2024-03-01T03:00:00Z');
+
+  assert.equal(toLocalDateKey(instant, 'UTC'), '2024-03-01');
+  assert.equal(toLocalDateKey(instant, 'America/New_York'), '2024-02-29');
+  assert.equal(toLocalDateKey(instant, 'Pacific/Auckland'), '2024-03-01');
+  assert.equal(getLocalHour(instant, 'America/New_York'), 22);
+  assert.equal(getLocalHour(instant, 'Pacific/Auckland'), 16);
+  assert.equal(toLocalDateKey(instant), '2024-03-01');
+});
+
+test('zonedTimeToUtc converts wall-clock times on either side of a DST change', () => {
+  assert.equal(
+    zonedTimeToUtc({ year: 2024, month: 3, day: 30, hour: 8 }, 'Europe/Berlin').toISOString(),
+    '2024-03-30T07:00:00.000Z'
+  );
+  assert.equal(
+    zonedTimeToUtc({ year: 2024, month: 3, day: 31, hour: 8 }, 'Europe/Berlin').toISOString(),
+    '2024-03-31T06:00:00.000Z'
+  );
+  assert.equal(
+    zonedTimeToUtc({ year: 2024, month: 11, day: 3, hour: 8, minute: 15 }, 'America/New_York').toISOString(),
+    '2024-11-03T13:15:00.000Z'
+  );
+});
+
+test('zonedTimeToUtc shifts a wall-clock time skipped by DST past the gap', () => {
+  // Clocks in Berlin move from 02:00 to 03:00 on 31 March 2024
+  const skipped = zonedTimeToUtc({ year: 2024, month: 3, day: 31, hour: 2, minute: 30 }, 'Europe/Berlin');
+
+  assert.equal(skipped.toISOString(), '2024-03-31T01:30:00.000Z');
+  assert.equal(getLocalHour(skipped, 'Europe/Berlin'), 3);
+});
+
+test('zonedTimeToUtc resolves a repeated wall-clock time to its second occurrence', () => {
+  // Clocks in Berlin move from 03:00 back to 02:00 on 27 October 2024, so 02:30 happens twice
+  const repeated = zonedTimeToUtc({ year: 2024, month: 10, day: 27, hour: 2, minute: 30 }, 'Europe/Berlin');
+
+  // The second occurrence, after the clocks went back (CET)
+  assert.equal(repeated.toISOString(), '2024-10-27T01:30:00.000Z');
+  assert.equal(getLocalHour(repeated, 'Europe/Berlin'), 2);
+});
+
+test('local days around DST changes are 23 and 25 hours long', () => {
+  const spring = getLocalDayBounds('2024-03-31', 'Europe/Berlin');
+  assert.equal(spring.start.toISOString(), '2024-03-30T23:00:00.000Z');
+  assert.equal(spring.end - spring.start, 23 * HOUR);
+
+  const autumn = getLocalDayBounds('2024-10-27', 'Europe/Berlin');
+  assert.equal(autumn.start.toISOString(), '2024-10-26T22:00:00.000Z');
+  assert.equal(autumn.end - autumn.start, 25 * HOUR);
+});
+
+test('parseLocalDateTime reads dates and date-times without a zone', () => {
+  assert.equal(parseLocalDateTime('2024-03-01', 'Europe/Berlin').toISOString(), '2024-02-29T23:00:00.000Z');
+  assert.equal(parseLocalDateTime('2024-03-01T08:15', 'America/New_York').toISOString(), '2024-03-01T13:15:00.000Z');
+  assert.equal(parseLocalDateTime('2024-03-01 08:15:30.5', 'America/New_York').toISOString(), '2024-03-01T13:15:30.500Z');
+  assert.equal(parseLocalDateTime(' 2024-07-01T08:00:00 ', 'Europe/Berlin').toISOString(), '2024-07-01T06:00:00.000Z');
+  assert.equal(parseLocalDateTime('2024-03-01T08:00').toISOString(), '2024-03-01T08:00:00.000Z');
+});
+
+test('parseLocalDateTime rejects other formats and out-of-range parts', () => {
+  assert.equal(parseLocalDateTime('01/03/2024', 'Europe/Berlin'), null);
+  assert.equal(parseLocalDateTime('2024-03-01T08:00:00Z', 'Europe/Berlin'), null);
+  assert.equal(parseLocalDateTime('2024-13-01', 'Europe/Berlin'), null);
+  assert.equal(parseLocalDateTime('2024-03-01T24:00', 'Europe/Berlin'), null);
+  assert.equal(parseLocalDateTime('', 'Europe/Berlin'), null);
+});
+
+test('toDateColumnKey reads strings and node-pg DATE values', () => {
+  assert.equal(toDateColumnKey('2024-03-01'), '2024-03-01');
+  assert.equal(toDateColumnKey('2024-03-01T00:00:00.000Z'), '2024-03-01');
+  // node-pg builds DATE values at midnight of the server's local zone
+  assert.equal(toDateColumnKey(new Date(2024, 2, 1)), '2024-03-01');
+});
+
+test('addDaysToKey crosses month, leap day and year boundaries', () => {
+  assert.equal(addDaysToKey('2024-02-28', 1), '2024-02-29');
+  assert.equal(addDaysToKey('2024-03-01', -1), '2024-02-29');
+  assert.equal(addDaysToKey('2024-12-31', 1), '2025-01-01');
+  assert.equal(addDaysToKey('2024-03-30', 2), '2024-04-01');
+  assert.equal(addDaysToKey('2024-03-01', 0), '2024-03-01');
+});
+
+test('localDateBound takes dates in the timezone and passes timestamps through', () => {
+  assert.equal(localDateBound('2024-03-01', 'Europe/Berlin').toISOString(), '2024-02-29T23:00:00.000Z');
+  assert.equal(localDateBound('2024-03-01', 'Europe/Berlin', { end: true }).toISOString(), '2024-03-01T22:59:59.999Z');
+  assert.equal(localDateBound('2024-03-31', 'Europe/Berlin', { end: true }).toISOString(), '2024-03-31T21:59:59.999Z');
+  assert.equal(localDateBound('2024-03-01T12:00:00Z', 'Europe/Berlin'), '2024-03-01T12:00:00Z');
+  assert.equal(localDateBound(undefined, 'Europe/Berlin'), undefined);
+});
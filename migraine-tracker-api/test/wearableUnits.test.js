@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FIELD_COLUMNS } from '../utils/importers/importerUtils.js';
+import {
+  convertWearableUnits,
+  inferWearableUnits,
+  validateUnitOverrides,
+  TEMPERATURE_DEVIATION_KEY
+} from '../utils/wearableUnits.js';
+
+// Row in the shape of streamWearableCSV, with every metric column not given left empty
+const row = (hour, values = {}, additionalData = {}) => ({
+  timestamp: new Date(Date.UTC(2024, 2, 1, hour)),
+  ...Object.fromEntries(Object.values(FIELD_COLUMNS).map(column => [column, null])),
+  ...values,
+  additional_data: additionalData
+});
+
+// Infer the units of the rows and convert them, as an import does with its first rows
+const normalizeWearableUnits = (rows, options) => {
+  const units = inferWearableUnits(rows, options);
+  return { ...convertWearableUnits(rows, units), units };
+};
+
+test('units are inferred from typical values and converted', () => {
+  const { data, units, errors } = normalizeWearableUnits([
+    row(8, { skin_temperature: 93.2, sleep_efficiency: 0.87, hrv: 0.042 }),
+    row(9, { skin_temperature: 92.3, sleep_efficiency: 0.91, hrv: 0.051 })
+  ]);
+
+  assert.deepEqual(errors, []);
+  assert.equal(units.skinTemperature.unit, 'fahrenheit');
+  assert.equal(units.skinTemperature.source, 'values');
+  assert.equal(units.skinTemperature.converted, true);
+  assert.equal(units.sleepEfficiency.unit, 'fraction');
+  assert.equal(units.hrv.unit, 'seconds');
+  assert.deepEqual(
+    data.map(({ skin_temperature, sleep_efficiency, hrv }) => ({ skin_temperature, sleep_efficiency, hrv })),
+    [
+      { skin_temperature: 34, sleep_efficiency: 87, hrv: 42 },
+      { skin_temperature: 33.5, sleep_efficiency: 91, hrv: 51 }
+    ]
+  );
+});
+
+test('values already in the expected unit are kept', () => {
+  const { data, units } = normalizeWearableUnits([row(8, { heart_rate: 63, sleep_efficiency: 88, skin_temperature: 33.6 })]);
+
+  assert.equal(units.heartRate.converted, false);
+  assert.equal(units.sleepEfficiency.unit, 'percent');
+  assert.equal(units.skinTemperature.unit, 'celsius');
+  assert.equal(data[0].heart_rate, 63);
+  assert.equal(data[0].sleep_efficiency, 88);
+  assert.equal(data[0].skin_temperature, 33.6);
+});
+
+test('a unit named in the column header wins over the values', () => {
+  // A sleep efficiency of 0.95 would be guessed as a fraction from the value alone
+  const { data, units } = normalizeWearableUnits(
+    [row(8, { sleep_efficiency: 0.95, heart_rate: 60 })],
+    { columns: { 'Sleep efficiency (%)': 'sleepEfficiency', 'Heart rate': 'heartRate' } }
+  );
+
+  assert.equal(units.sleepEfficiency.unit, 'percent');
+  assert.equal(units.sleepEfficiency.source, 'column');
+  assert.equal(data[0].sleep_efficiency, 0.95);
+});
+
+test('unit overrides replace the guess', () => {
+  const { data, units } = normalizeWearableUnits(
+    [row(8, { sleep_efficiency: 0.87 })],
+    { units: { sleepEfficiency: 'percent' } }
+  );
+
+  assert.equal(units.sleepEfficiency.unit, 'percent');
+  assert.equal(units.sleepEfficiency.guessedUnit, 'fraction');
+  assert.equal(units.sleepEfficiency.source, 'override');
+  assert.equal(data[0].sleep_efficiency, 0.87);
+});
+
+test('temperature deviations are moved to additional_data', () => {
+  const { data, units, errors } = normalizeWearableUnits([
+    row(8, { skin_temperature: -0.3 }),
+    row(9, { skin_temperature: 0.4, heart_rate: 64 })
+  ]);
+
+  assert.deepEqual(errors, []);
+  assert.equal(units.skinTemperature.unit, 'deviation');
+  assert.equal(data.length, 2);
+  assert.equal(data[0].skin_temperature, null);
+  assert.deepEqual(data[0].additional_data, { [TEMPERATURE_DEVIATION_KEY]: -0.3 });
+  assert.deepEqual(data[1].additional_data, { [TEMPERATURE_DEVIATION_KEY]: 0.4 });
+});
+
+test('implausible values are dropped and reported', () => {
+  const { data, errors } = normalizeWearableUnits([
+    row(8, { heart_rate: 63, hrv: 48 }),
+    row(9, { heart_rate: 400, hrv: 44 }),
+    row(10, { heart_rate: 12 })
+  ]);
+
+  // The row left without values is not imported
+  assert.deepEqual(data.map(({ heart_rate, hrv }) => ({ heart_rate, hrv })), [
+    { heart_rate: 63, hrv: 48 },
+    { heart_rate: null, hrv: 44 }
+  ]);
+  assert.deepEqual(errors, [
+    { timestamp: new Date(Date.UTC(2024, 2, 1, 9)), error: 'Heart rate 400 bpm is outside the plausible range 25-250 bpm' },
+    { timestamp: new Date(Date.UTC(2024, 2, 1, 10)), error: 'Heart rate 12 bpm is outside the plausible range 25-250 bpm' }
+  ]);
+});
+
+test('implausible converted values mention both units', () => {
+  const { errors } = normalizeWearableUnits(
+    [row(8, { skin_temperature: 120 })],
+    { units: { skinTemperature: 'fahrenheit' } }
+  );
+
+  assert.equal(errors[0].error, 'Skin temperature 120 °F (48.89 °C) is outside the plausible range 25-43 °C');
+});
+
+test('validateUnitOverrides', () => {
+  assert.equal(validateUnitOverrides({ hrv: 'seconds', skinTemperature: 'fahrenheit' }), null);
+  assert.equal(validateUnitOverrides([]), 'units must be an object of field -> unit');
+  assert.equal(validateUnitOverrides({ steps: 'count' }), 'units: unknown field "steps"');
+  assert.equal(validateUnitOverrides({ heartRate: 'ms' }), 'units for heartRate must be one of bpm');
+});
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { processWearableUpload } from '../utils/wearableUploadProcessor.js';
+import { fakeDatabase } from './helpers/testServer.js';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const SESSION_ID = '00000000-0000-0000-0000-0000000000aa';
+const ROWS = 1200;
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// An hourly CSV export with HRV in seconds
+const writeUpload = async (t) => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wearable-upload-'));
+  t.after(() => fs.rm(directory, { recursive: true, force: true }));
+  const lines = ['timestamp,hrv,heart_rate'];
+  for (let index = 0; index < ROWS; index++) {
+    lines.push(`${new Date(START + index * HOUR_MS).toISOString()},0.05,${index === 700 ? 400 : 60}`);
+  }
+  const filePath = path.join(directory, 'upload');
+  await fs.writeFile(filePath, lines.join('\n'));
+  return filePath;
+};
+
+const runImport = async (session) => {
+  const db = fakeDatabase([
+    [/SELECT id, user_id, filename, file_path/, [session]],
+    [/FOR UPDATE/, [{ id: SESSION_ID }]],
+    [/INSERT INTO wearable_data/, (params) => Array.from({ length: params.length / 13 }, () => ({ inserted: true }))],
+    [/RETURNING status/, [{ status: 'partial', inserted_rows: 0, updated_rows: 0, skipped_rows: 0, error_rows: 1, total_rows: ROWS }]]
+  ]);
+  try {
+    await processWearableUpload({ id: 'job-1', payload: { uploadSessionId: SESSION_ID }, attempts: 1, max_attempts: 3 });
+  } finally {
+    db.restore();
+  }
+  return db.statements;
+};
+
+const session = (filePath, overrides = {}) => ({
+  id: SESSION_ID,
+  user_id: USER_ID,
+  filename: 'metrics.csv',
+  file_path: filePath,
+  import_options: { timezone: 'UTC' },
+  source: null,
+  field_units: null,
+  total_rows: 0,
+  processed_rows: 0,
+  status: 'queued',
+  ...overrides
+});
+
+// First timestamp and row count of every batch upsert
+const upserts = (statements) => statements
+  .filter(({ text }) => text.includes('INSERT INTO wearable_data'))
+  .map(({ params }) => [params[1].toISOString(), params.length / 13]);
+
+// Checkpoint and error count of every batch
+const checkpoints = (statements) => statements
+  .filter(({ text }) => text.includes('processed_rows = $2'))
+  .map(({ params }) => [params[1], params[5]]);
+
+test('an upload is counted, then written in batches as it is read', async (t) => {
+  const filePath = await writeUpload(t);
+  const statements = await runImport(session(filePath));
+
+  const survey = statements.find(({ text }) => text.includes('total_rows = $4'));
+  assert.equal(survey.params[3], ROWS);
+  assert.equal(survey.params[7].toISOString(), new Date(START).toISOString());
+  assert.deepEqual(JSON.parse(survey.params[6]).hrv, { unit: 'seconds', expectedUnit: 'ms', source: 'values' });
+
+  assert.deepEqual(upserts(statements), [
+    ['2024-01-01T00:00:00.000Z', 500],
+    ['2024-01-21T20:00:00.000Z', 500],
+    ['2024-02-11T16:00:00.000Z', 200]
+  ]);
+  // The implausible heart rate of row 700 is reported with the second batch
+  assert.deepEqual(checkpoints(statements), [[500, 0], [1000, 1], [1200, 0]]);
+  // HRV converted to ms
+  const firstUpsert = statements.find(({ text }) => text.includes('INSERT INTO wearable_data'));
+  assert.equal(firstUpsert.params[5], 50);
+
+  await assert.rejects(fs.access(filePath));
+});
+
+test('a resumed upload skips the rows already written', async (t) => {
+  const filePath = await writeUpload(t);
+  const statements = await runImport(session(filePath, {
+    source: 'manual_upload',
+    field_units: { hrv: { unit: 'seconds', expectedUnit: 'ms', source: 'values' } },
+    total_rows: ROWS,
+    processed_rows: 1000,
+    status: 'processing'
+  }));
+
+  assert.equal(statements.some(({ text }) => text.includes('total_rows = $4')), false);
+  assert.deepEqual(upserts(statements), [['2024-02-11T16:00:00.000Z', 200]]);
+  assert.deepEqual(checkpoints(statements), [[1200, 0]]);
+  const upsert = statements.find(({ text }) => text.includes('INSERT INTO wearable_data'));
+  assert.equal(upsert.params[5], 50);
+  assert.equal(upsert.params[11], 'manual_upload');
+});
+
+test('an upload whose file is gone fails', async () => {
+  const statements = await runImport(session(path.join(os.tmpdir(), 'missing-wearable-upload')));
+
+  const failed = statements.find(({ text }) => text.includes(`status = 'failed'`));
+  assert.equal(failed.params[1], 'The uploaded file is no longer available. Please upload it again.');
+  assert.equal(upserts(statements).length, 0);
+});
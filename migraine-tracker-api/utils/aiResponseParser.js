@@ -0,0 +1,150 @@
+/**
+ * AI Response Parser
+ * Extracts the JSON object the prompt asks for and validates it against a strict schema.
+ * Responses that do not validate are reported with their errors (so the model can be re-asked)
+ * instead of being scraped for numbers.
+ */
+
+export const RISK_CATEGORIES = ['Low', 'Moderate', 'High', 'Very High'];
+export const CONFIDENCE_LEVELS = ['Low', 'Medium', 'High'];
+
+/**
+ * Find the JSON object in a model response
+ * Looks for a ```json block, then any fenced block, then the first balanced {...} in the text
+ * @param {string} text - Raw model output
+ * @returns {{ data?: Object, error?: string }}
+ */
+const extractJson = (text) => {
+  const candidates = [];
+
+  const jsonBlock = text.match(/```json\s*\n?([\s\S]*?)```/i);
+  if (jsonBlock) candidates.push(jsonBlock[1]);
+
+  const anyBlock = text.match(/```\s*\n?([\s\S]*?)```/);
+  if (anyBlock && anyBlock[1] !== jsonBlock?.[1]) candidates.push(anyBlock[1]);
+
+  // First balanced object, ignoring braces inside strings
+  const start = text.indexOf('{');
+  if (start !== -1) {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        candidates.push(text.substring(start, i + 1));
+        break;
+      }
+    }
+  }
+
+  if (candidates.length === 0) {
+    return { error: 'No JSON object found in the response' };
+  }
+
+  let lastError = null;
+  for (const candidate of candidates) {
+    try {
+      const data = JSON.parse(candidate.trim());
+      if (data && typeof data === 'object' && !Array.isArray(data)) return { data };
+      lastError = 'The JSON value is not an object';
+    } catch (error) {
+      lastError = `Invalid JSON: ${error.message}`;
+    }
+  }
+  return { error: lastError };
+};
+
+const isStringArray = (value) => Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+
+/**
+ * Validate a parsed response against the risk analysis schema
+ * @param {Object} data - Parsed JSON
+ * @returns {Array<string>} Validation errors (empty when valid)
+ */
+export const validateAIResponse = (data) => {
+  const errors = [];
+
+  if (typeof data.riskLevel !== 'number' || !Number.isFinite(data.riskLevel)) {
+    errors.push('"riskLevel" must be a number');
+  } else if (data.riskLevel < 0 || data.riskLevel > 100) {
+    errors.push('"riskLevel" must be between 0 and 100');
+  }
+
+  if (!RISK_CATEGORIES.includes(data.riskCategory)) {
+    errors.push(`"riskCategory" must be one of: ${RISK_CATEGORIES.join(', ')}`);
+  }
+
+  if (!isStringArray(data.keyRiskFactors)) {
+    errors.push('"keyRiskFactors" must be an array of non-empty strings');
+  }
+
+  if (!isStringArray(data.recommendations)) {
+    errors.push('"recommendations" must be an array of non-empty strings');
+  }
+
+  if (typeof data.trendAnalysis !== 'string') {
+    errors.push('"trendAnalysis" must be a string');
+  }
+
+  if (!CONFIDENCE_LEVELS.includes(data.confidenceLevel)) {
+    errors.push(`"confidenceLevel" must be one of: ${CONFIDENCE_LEVELS.join(', ')}`);
+  }
+
+  return errors;
+};
+
+/**
+ * Parse and validate AI response text
+ * @param {string} text - Raw model output
+ * @returns {Object} { valid: true, analysis } or { valid: false, errors }
+ */
+export const parseAIResponse = (text) => {
+  const { data, error } = extractJson(text || '');
+  if (error) {
+    return { valid: false, errors: [error] };
+  }
+
+  const errors = validateAIResponse(data);
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    analysis: {
+      riskLevel: Math.round(data.riskLevel),
+      riskCategory: data.riskCategory,
+      keyRiskFactors: data.keyRiskFactors,
+      trendAnalysis: data.trendAnalysis,
+      recommendations: data.recommendations,
+      confidenceLevel: data.confidenceLevel,
+      fullAnalysis: text
+    }
+  };
+};
+
+/**
+ * Follow-up message asking the model to fix an invalid response
+ * @param {Array<string>} errors - Validation errors from parseAIResponse
+ * @returns {string} Repair instructions
+ */
+export const buildRepairMessage = (errors) => `Your previous response could not be used because it did not match the required JSON format:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Reply again, starting with a \`\`\`json code block containing exactly these fields:
+{
+  "riskLevel": <number 0-100>,
+  "riskCategory": "<${RISK_CATEGORIES.join('|')}>",
+  "keyRiskFactors": ["..."],
+  "recommendations": ["..."],
+  "trendAnalysis": "...",
+  "confidenceLevel": "<${CONFIDENCE_LEVELS.join('|')}>"
+}
+You may add the human-readable analysis after the JSON block.`;
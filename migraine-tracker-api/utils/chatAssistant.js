@@ -0,0 +1,436 @@
+import { query } from '../db/database.js';
+import {
+  DEFAULT_TIMEZONE,
+  getUserTimezone,
+  toLocalDateKey,
+  addDaysToKey,
+  startOfLocalDay,
+  localDayStartSql
+} from './timezone.js';
+
+/**
+ * Chat Assistant
+ * Answers questions about the user's own migraines with read-only tools over migraine_entries,
+ * summary_indicators, migraine_correlations and wearable_data. Tool calls use a plain-text protocol
+ * (the model replies with a JSON object naming the tool), so it works with every LLM provider:
+ * the server runs the tool, sends the result back and repeats until the model answers in prose.
+ */
+
+export const MAX_TOOL_CALLS_PER_QUESTION = 5;
+// Stored messages sent back to the model as conversation context
+const MAX_HISTORY_MESSAGES = 30;
+// Tool results are cut to this many characters in the prompt (the stored result is complete)
+const MAX_TOOL_RESULT_CHARS = 12000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const round = (value, places = 1) =>
+  value === null || value === undefined ? null : Math.round(parseFloat(value) * 10 ** places) / 10 ** places;
+
+const toolError = (message) => {
+  const error = new Error(message);
+  error.code = 'INVALID_TOOL_ARGUMENTS';
+  return error;
+};
+
+const readDate = (value, name) => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+    throw toolError(`${name} must be a YYYY-MM-DD date`);
+  }
+  return value;
+};
+
+const readInteger = (value, name, { min, max, fallback }) => {
+  if (value === undefined || value === null) return fallback;
+  const parsed = parseInt(value);
+  if (isNaN(parsed) || parsed < min || parsed > max) {
+    throw toolError(`${name} must be a whole number from ${min} to ${max}`);
+  }
+  return parsed;
+};
+
+const transformEntryForTool = (row) => ({
+  id: row.id,
+  start: row.start_time.toISOString(),
+  end: row.end_time ? row.end_time.toISOString() : null,
+  intensity: row.intensity,
+  migraineType: row.migraine_type || null,
+  triggers: row.triggers || null,
+  symptoms: row.symptoms || null,
+  medication: row.medication || null,
+  notes: row.notes ? row.notes.substring(0, 300) : null
+});
+
+const transformSummaryForTool = (row, timezone) => ({
+  date: toLocalDateKey(row.period_start, timezone),
+  avgStress: round(row.avg_stress),
+  maxStress: round(row.max_stress),
+  avgRecovery: round(row.avg_recovery),
+  avgHeartRate: round(row.avg_heart_rate),
+  restingHeartRate: round(row.resting_heart_rate),
+  avgHrv: round(row.avg_hrv),
+  sleepEfficiency: round(row.avg_sleep_efficiency),
+  avgSkinTemperature: round(row.avg_skin_temperature, 2),
+  wellnessScore: round(row.overall_wellness_score),
+  anomalies: (row.anomalies || []).map(anomaly => anomaly.label || anomaly.metric)
+});
+
+const SUMMARY_COLUMNS = `period_start, avg_stress, max_stress, avg_recovery, avg_heart_rate, resting_heart_rate,
+  avg_hrv, avg_sleep_efficiency, avg_skin_temperature, overall_wellness_score, anomalies`;
+
+const ENTRY_COLUMNS = `id, start_time, end_time, intensity, migraine_type, triggers, symptoms, medication, notes`;
+
+/**
+ * Read-only tools the model can call
+ * Each run(userId, args, { timezone }) validates its arguments and returns plain JSON; dates are
+ * days in the user's timezone
+ */
+export const CHAT_TOOLS = {
+  list_migraines: {
+    description: 'Migraine diary entries, newest first',
+    arguments: {
+      startDate: 'YYYY-MM-DD, optional',
+      endDate: 'YYYY-MM-DD, optional',
+      limit: 'number 1-50, default 10'
+    },
+    run: async (userId, args, { timezone }) => {
+      const startDate = readDate(args.startDate, 'startDate');
+      const endDate = readDate(args.endDate, 'endDate');
+      const limit = readInteger(args.limit, 'limit', { min: 1, max: 50, fallback: 10 });
+
+      const params = [userId];
+      let queryText = `SELECT ${ENTRY_COLUMNS} FROM migraine_entries WHERE user_id = $1`;
+      if (startDate) {
+        params.push(startOfLocalDay(startDate, timezone));
+        queryText += ` AND start_time >= $${params.length}`;
+      }
+      if (endDate) {
+        params.push(startOfLocalDay(addDaysToKey(endDate, 1), timezone));
+        queryText += ` AND start_time < $${params.length}`;
+      }
+      params.push(limit);
+      queryText += ` ORDER BY start_time DESC LIMIT $${params.length}`;
+
+      const result = await query(queryText, params);
+      return { migraines: result.rows.map(transformEntryForTool) };
+    }
+  },
+
+  get_daily_summaries: {
+    description: 'Daily wearable summaries (stress, recovery, heart rate, HRV, sleep, skin temperature, anomalies versus the personal baseline)',
+    arguments: {
+      startDate: 'YYYY-MM-DD, required',
+      endDate: 'YYYY-MM-DD, required, at most 62 days after startDate'
+    },
+    run: async (userId, args, { timezone }) => {
+      const startDate = readDate(args.startDate, 'startDate');
+      const endDate = readDate(args.endDate, 'endDate');
+      if (!startDate || !endDate || startDate > endDate) {
+        throw toolError('startDate and endDate are required, with startDate <= endDate');
+      }
+      if ((new Date(endDate) - new Date(startDate)) / DAY_MS > 62) {
+        throw toolError('The range can be at most 62 days');
+      }
+
+      const result = await query(
+        `SELECT ${SUMMARY_COLUMNS}
+         FROM summary_indicators
+         WHERE user_id = $1 AND period_start >= $2 AND period_start < $3
+         ORDER BY period_start`,
+        [userId, startOfLocalDay(startDate, timezone), startOfLocalDay(addDaysToKey(endDate, 1), timezone)]
+      );
+      return { days: result.rows.map(row => transformSummaryForTool(row, timezone)) };
+    }
+  },
+
+  get_days_before_migraines: {
+    description: 'For the most recent migraines, the daily wearable summaries of the days before each onset and of the onset day',
+    arguments: {
+      count: 'number of migraines 1-10, default 3',
+      daysBefore: 'days before each onset 1-7, default 2',
+      beforeDate: 'YYYY-MM-DD, optional; only migraines that started before this day'
+    },
+    run: async (userId, args, { timezone }) => {
+      const count = readInteger(args.count, 'count', { min: 1, max: 10, fallback: 3 });
+      const daysBefore = readInteger(args.daysBefore, 'daysBefore', { min: 1, max: 7, fallback: 2 });
+      const beforeDate = readDate(args.beforeDate, 'beforeDate');
+
+      const entriesResult = await query(
+        `SELECT ${ENTRY_COLUMNS} FROM migraine_entries
+         WHERE user_id = $1 ${beforeDate ? `AND start_time < ${localDayStartSql('$3', '$4')}` : ''}
+         ORDER BY start_time DESC
+         LIMIT $2`,
+        beforeDate ? [userId, count, beforeDate, timezone] : [userId, count]
+      );
+
+      const migraines = [];
+      for (const row of entriesResult.rows) {
+        const onsetKey = toLocalDateKey(row.start_time, timezone);
+
+        const summariesResult = await query(
+          `SELECT ${SUMMARY_COLUMNS}
+           FROM summary_indicators
+           WHERE user_id = $1 AND period_start >= $2 AND period_start < $3
+           ORDER BY period_start`,
+          [
+            userId,
+            startOfLocalDay(addDaysToKey(onsetKey, -daysBefore), timezone),
+            startOfLocalDay(addDaysToKey(onsetKey, 1), timezone)
+          ]
+        );
+
+        migraines.push({
+          migraine: transformEntryForTool(row),
+          days: summariesResult.rows.map(summary => {
+            const day = transformSummaryForTool(summary, timezone);
+            return { ...day, daysBeforeOnset: Math.round((new Date(onsetKey) - new Date(day.date)) / DAY_MS) };
+          })
+        });
+      }
+      return { migraines };
+    }
+  },
+
+  get_correlation_patterns: {
+    description: 'Wearable and lifestyle patterns found to correlate with this user\'s migraine days, strongest first',
+    arguments: {
+      limit: 'number 1-30, default 10'
+    },
+    run: async (userId, args) => {
+      const limit = readInteger(args.limit, 'limit', { min: 1, max: 30, fallback: 10 });
+
+      const result = await query(
+        `SELECT pattern_type, pattern_name, pattern_definition, correlation_strength, confidence_score,
+                avg_value_on_migraine_days, avg_value_on_normal_days, migraine_days_count, total_days_analyzed
+         FROM migraine_correlations
+         WHERE user_id = $1
+         ORDER BY ABS(correlation_strength) DESC NULLS LAST
+         LIMIT $2`,
+        [userId, limit]
+      );
+
+      return {
+        patterns: result.rows.map(row => ({
+          pattern: row.pattern_name,
+          type: row.pattern_type,
+          correlationStrength: round(row.correlation_strength, 3),
+          confidence: round(row.confidence_score, 2),
+          avgOnMigraineDays: round(row.avg_value_on_migraine_days),
+          avgOnNormalDays: round(row.avg_value_on_normal_days),
+          lagDays: row.pattern_definition?.lag ?? null,
+          oddsRatio: row.pattern_definition?.oddsRatio ? round(row.pattern_definition.oddsRatio, 2) : null,
+          migraineDaysAnalyzed: row.migraine_days_count,
+          totalDaysAnalyzed: row.total_days_analyzed
+        }))
+      };
+    }
+  },
+
+  get_wearable_data: {
+    description: 'Raw hourly wearable readings for a short time range',
+    arguments: {
+      start: 'ISO date-time, required',
+      end: 'ISO date-time, required, at most 48 hours after start'
+    },
+    run: async (userId, args) => {
+      const start = new Date(args.start);
+      const end = new Date(args.end);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+        throw toolError('start and end must be ISO date-times with start before end');
+      }
+      if (end - start > 2 * DAY_MS) {
+        throw toolError('The range can be at most 48 hours');
+      }
+
+      const result = await query(
+        `SELECT timestamp, stress_value, recovery_value, heart_rate, hrv, sleep_efficiency, skin_temperature
+         FROM wearable_data
+         WHERE user_id = $1 AND timestamp >= $2 AND timestamp <= $3
+         ORDER BY timestamp
+         LIMIT 200`,
+        [userId, start, end]
+      );
+
+      return {
+        readings: result.rows.map(row => ({
+          time: row.timestamp.toISOString(),
+          stress: round(row.stress_value),
+          recovery: round(row.recovery_value),
+          heartRate: round(row.heart_rate),
+          hrv: round(row.hrv),
+          sleepEfficiency: round(row.sleep_efficiency),
+          skinTemperature: round(row.skin_temperature, 2)
+        }))
+      };
+    }
+  }
+};
+
+/**
+ * Tool names and argument descriptions (passed to providers; the mock provider uses them to pick a tool)
+ */
+export const CHAT_TOOL_DESCRIPTORS = Object.entries(CHAT_TOOLS).map(([name, tool]) => ({
+  name,
+  description: tool.description,
+  arguments: tool.arguments
+}));
+
+/**
+ * Build the system prompt describing the tool protocol
+ * @param {Date} now - Current time
+ * @param {string} timezone - User's IANA timezone
+ * @returns {string} System prompt
+ */
+export const buildChatSystemPrompt = (now = new Date(), timezone = DEFAULT_TIMEZONE) => `You are the Migraine Mapper assistant. You answer one user's questions about their own migraine diary and wearable data. Today is ${toLocalDateKey(now, timezone)} in the user's timezone (${timezone}); dates (YYYY-MM-DD) are days in that timezone and date-times are ISO 8601 in UTC.
+
+You cannot see the data directly. To look something up, reply with ONLY a JSON object and nothing else, for example:
+{"tool": "list_migraines", "arguments": {"limit": 3}}
+The next message will contain the tool result. Call one tool at a time and at most ${MAX_TOOL_CALLS_PER_QUESTION} tools per question.
+
+When you have what you need, answer in plain language without JSON. Base every statement on tool results and say when the data does not cover the question. Do not diagnose or suggest medication changes; for medical decisions, suggest talking to a doctor.
+
+Tools:
+${CHAT_TOOL_DESCRIPTORS.map(tool =>
+  `- ${tool.name}: ${tool.description}. Arguments: ${Object.entries(tool.arguments).map(([name, description]) => `${name} (${description})`).join(', ')}`
+).join('\n')}`;
+
+/**
+ * Read a tool call from a model reply
+ * Accepts a bare JSON object or one in a ```json fence
+ * @param {string} text - Model reply
+ * @returns {Object|null} { name, arguments } or null when the reply is an answer
+ */
+export const parseToolCall = (text) => {
+  if (typeof text !== 'string') return null;
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+  const candidate = fenced ? fenced[1] : (trimmed.startsWith('{') && trimmed.endsWith('}') ? trimmed : null);
+  if (!candidate) return null;
+
+  try {
+    const parsed = JSON.parse(candidate);
+    if (typeof parsed.tool !== 'string') return null;
+    return {
+      name: parsed.tool,
+      arguments: parsed.arguments && typeof parsed.arguments === 'object' ? parsed.arguments : {}
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Format a tool result as the message sent back to the model
+ * The mock provider recognises the "Tool result (name):" prefix
+ */
+export const formatToolResultMessage = (name, result) => {
+  const json = JSON.stringify(result);
+  const body = json.length > MAX_TOOL_RESULT_CHARS
+    ? `${json.substring(0, MAX_TOOL_RESULT_CHARS)}... (truncated)`
+    : json;
+  return `Tool result (${name}):\n${body}`;
+};
+
+/**
+ * Run a tool call, turning bad arguments and unknown tools into an error result the model can read
+ */
+const runTool = async (userId, call, context) => {
+  const tool = CHAT_TOOLS[call.name];
+  if (!tool) {
+    return { error: `Unknown tool "${call.name}". Available tools: ${Object.keys(CHAT_TOOLS).join(', ')}` };
+  }
+  try {
+    return await tool.run(userId, call.arguments, context);
+  } catch (error) {
+    if (error.code === 'INVALID_TOOL_ARGUMENTS') {
+      return { error: error.message };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Turn stored messages into model messages (tool calls become the JSON request and its result)
+ */
+const historyToMessages = (history) => history.slice(-MAX_HISTORY_MESSAGES).flatMap(message => {
+  if (message.role === 'tool') {
+    return [
+      { role: 'assistant', content: JSON.stringify({ tool: message.toolName, arguments: message.toolArguments || {} }) },
+      { role: 'user', content: formatToolResultMessage(message.toolName, message.toolResult) }
+    ];
+  }
+  return [{ role: message.role, content: message.content }];
+});
+
+/**
+ * Answer one question, calling tools as the model requests them
+ * @param {Object} provider - LLM provider from createLlmProvider
+ * @param {string} userId - User whose data the tools read
+ * @param {Object} options
+ * @param {Array} options.history - Earlier messages in API format ({ role, content, toolName, toolArguments, toolResult })
+ * @param {string} options.question - The user's question
+ * @param {Date} options.now - Current time
+ * @returns {Promise<Object>} { steps: [{ toolName, toolArguments, toolResult }], answer }
+ */
+export const runChatTurn = async (provider, userId, { history = [], question, now = new Date() }) => {
+  const timezone = await getUserTimezone(userId);
+  const messages = [
+    { role: 'system', content: buildChatSystemPrompt(now, timezone) },
+    ...historyToMessages(history),
+    { role: 'user', content: question }
+  ];
+  const steps = [];
+
+  for (;;) {
+    const text = await provider.complete({ messages, temperature: 0.2, tools: CHAT_TOOL_DESCRIPTORS });
+    const call = parseToolCall(text);
+    if (!call) {
+      return { steps, answer: text.trim() };
+    }
+
+    messages.push({ role: 'assistant', content: text });
+
+    if (steps.length >= MAX_TOOL_CALLS_PER_QUESTION) {
+      messages.push({ role: 'user', content: 'Tool limit reached. Answer now in plain language with the results you have.' });
+      const finalText = await provider.complete({ messages, temperature: 0.2, tools: CHAT_TOOL_DESCRIPTORS });
+      return {
+        steps,
+        answer: parseToolCall(finalText)
+          ? 'I could not finish looking this up. Please try a more specific question.'
+          : finalText.trim()
+      };
+    }
+
+    const result = await runTool(userId, call, { timezone });
+    steps.push({ toolName: call.name, toolArguments: call.arguments, toolResult: result });
+    messages.push({ role: 'user', content: formatToolResultMessage(call.name, result) });
+  }
+};
+
+/**
+ * Transform a chat_conversations row to API format
+ */
+export const transformChatConversationForAPI = (row) => ({
+  id: row.id,
+  title: row.title,
+  provider: row.provider || null,
+  model: row.model || null,
+  ...(row.message_count !== undefined ? { messageCount: parseInt(row.message_count) } : {}),
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString()
+});
+
+/**
+ * Transform a chat_messages row to API format
+ */
+export const transformChatMessageForAPI = (row) => ({
+  id: row.id,
+  role: row.role,
+  content: row.content,
+  toolName: row.tool_name || null,
+  toolArguments: row.tool_arguments || null,
+  toolResult: row.tool_result || null,
+  createdAt: new Date(row.created_at).toISOString()
+});
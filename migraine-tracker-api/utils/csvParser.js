@@ -1,5 +1,7 @@
+import fs from 'fs';
+import { pipeline } from 'stream';
 import csvParser from 'csv-parser';
-import { Readable } from 'stream';
+import { parseTimestamp } from './importers/importerUtils.js';
 
 /**
  * Field mapping configuration for flexible CSV field recognition
@@ -68,7 +70,7 @@ const FIELD_MAPPINGS = {
  * Normalize column name for matching
  * Converts to lowercase and removes special characters
  */
-const normalizeColumnName = (name) => {
+export const normalizeColumnName = (name) => {
   if (!name) return '';
   return name.toLowerCase()
     .trim()
@@ -158,7 +160,7 @@ const findMatchingField = (columnName) => {
  * @param {string} content - The CSV file content
  * @returns {string} - The detected separator (',' or ';')
  */
-const detectSeparator = (content) => {
+export const detectSeparator = (content) => {
   const firstLine = content.split('\n')[0];
   const semicolonCount = (firstLine.match(/;/g) || []).length;
   const commaCount = (firstLine.match(/,/g) || []).length;
@@ -168,154 +170,175 @@ const detectSeparator = (content) => {
   return semicolonCount >= commaCount ? ';' : ',';
 };
 
+// csv-parser keeps a byte order mark in the first header
+const stripBom = ({ header, index }) => (index === 0 ? header.replace(/^\uFEFF/, '') : header);
+
+// Stream a CSV file through csv-parser; errors reading the file end the iteration too
+const streamCSV = (filePath, separator) =>
+  pipeline(
+    fs.createReadStream(filePath),
+    csvParser({ separator, mapHeaders: stripBom }),
+    () => {}
+  );
+
 /**
- * Parse CSV file and extract wearable data
- * @param {Buffer} fileBuffer - The CSV file buffer
- * @returns {Promise<{data: Array, fieldMapping: Object, unrecognizedFields: Array}>}
+ * Stream the raw rows of a CSV file (no field matching)
+ * Used by vendor importers that know their exact columns
+ * @param {string} filePath - The CSV file
+ * @param {string} separator - Column separator (see detectSeparator)
+ * @returns {AsyncIterable<Object>} Rows as header -> value
  */
-export const parseWearableCSV = (fileBuffer) => {
-  return new Promise((resolve, reject) => {
-    const results = [];
-    const fieldMapping = {};
-    const unrecognizedFields = [];
-    let headers = [];
-    
-    const fileContent = fileBuffer.toString('utf-8');
-    const separator = detectSeparator(fileContent);
+export const readCSVRows = (filePath, separator) => streamCSV(filePath, separator);
 
-    const stream = Readable.from(fileContent);
-    
-    stream
-      .pipe(csvParser({
-        separator: separator,
-        skipEmptyLines: true,
-        skipLinesWithError: false
-      }))
-      .on('headers', (headerList) => {
-        headers = headerList;
-        
-        // Map headers to standardized fields
-        headers.forEach((header) => {
-          const matchedField = findMatchingField(header);
-          if (matchedField) {
-            fieldMapping[header] = matchedField;
-          } else {
-            unrecognizedFields.push(header);
-          }
-        });
-      })
-      .on('data', (row) => {
-        const parsedRow = {
-          timestamp: null,
-          stress_value: null,
-          recovery_value: null,
-          heart_rate: null,
-          hrv: null,
-          sleep_efficiency: null,
-          sleep_heart_rate: null,
-          skin_temperature: null,
-          restless_periods: null,
-          additional_data: {}
-        };
+/**
+ * Match the headers of a wearable CSV to standardized fields (user overrides first)
+ */
+const mapWearableHeaders = (headers, mapping) => {
+  const fieldMapping = {};
+  const unrecognizedFields = [];
+  const ignoredFields = [];
 
-        let hasValidTimestamp = false;
+  headers.forEach((header) => {
+    const override = Object.prototype.hasOwnProperty.call(mapping, header) ? mapping[header] : undefined;
+    if (override === '') {
+      ignoredFields.push(header);
+      return;
+    }
+    const matchedField = override === undefined ? findMatchingField(header) : override;
+    if (matchedField && matchedField !== 'additional') {
+      fieldMapping[header] = matchedField;
+    } else {
+      unrecognizedFields.push(header);
+    }
+  });
 
-        // Parse each column
-        for (const header of headers) {
-          const value = row[header];
-          if (value === undefined || value === null || value === '') {
-            continue;
-          }
+  return { headers, fieldMapping, unrecognizedFields, ignoredFields };
+};
+
+/**
+ * Parse one CSV row into wearable data
+ * @returns {Object|null} The row, or null when it has no valid timestamp
+ */
+const parseWearableRow = (row, { headers, fieldMapping, ignoredFields }, timezone) => {
+  const parsedRow = {
+    timestamp: null,
+    stress_value: null,
+    recovery_value: null,
+    heart_rate: null,
+    hrv: null,
+    sleep_efficiency: null,
+    sleep_heart_rate: null,
+    skin_temperature: null,
+    restless_periods: null,
+    additional_data: {}
+  };
+
+  let hasValidTimestamp = false;
+
+  // Parse each column
+  for (const header of headers) {
+    const value = row[header];
+    if (value === undefined || value === null || value === '' || ignoredFields.includes(header)) {
+      continue;
+    }
 
-          const matchedField = fieldMapping[header];
+    const matchedField = fieldMapping[header];
+    
+    if (matchedField) {
+      // Map to standardized field
+      let parsedValue = value;
+      
+      // Parse timestamp
+      if (matchedField === 'timestamp') {
+        try {
+          // Clean the value (remove extra spaces, handle semicolon-separated dates)
+          const cleanValue = value.trim().replace(/;/g, ' ').replace(/\s+/g, ' ');
+          
+          // "2025-01-01 01:00:00" without a zone is 01:00 in the user's timezone
+          parsedValue = parseTimestamp(cleanValue, timezone);
           
-          if (matchedField) {
-            // Map to standardized field
-            let parsedValue = value;
-            
-            // Parse timestamp
-            if (matchedField === 'timestamp') {
-              try {
-                // Clean the value (remove extra spaces, handle semicolon-separated dates)
-                let cleanValue = value.trim().replace(/;/g, ' ');
-                
-                // Convert space-separated datetime to ISO format for reliable parsing
-                // Format: "2025-01-01 01:00:00" -> "2025-01-01T01:00:00Z"
-                // Add Z to force UTC interpretation (no timezone shift)
-                cleanValue = cleanValue.replace(/^(\d{4}-\d{2}-\d{2})\s+(\d{2}:\d{2}:\d{2})/, '$1T$2Z');
-                
-                parsedValue = new Date(cleanValue);
-                
-                if (isNaN(parsedValue.getTime())) {
-                  console.warn(`Failed to parse timestamp: ${value} (cleaned: ${cleanValue})`);
-                  return; // Skip this row if timestamp is invalid
-                }
-                parsedRow.timestamp = parsedValue;
-                hasValidTimestamp = true;
-              } catch (e) {
-                console.warn(`Failed to parse timestamp: ${value}`, e);
-                return; // Skip this row if timestamp parsing fails
-              }
-            } else {
-              // Parse numeric values
-              const numericValue = parseFloat(value);
-              if (!isNaN(numericValue)) {
-                switch (matchedField) {
-                  case 'stress':
-                    parsedRow.stress_value = numericValue;
-                    break;
-                  case 'recovery':
-                    parsedRow.recovery_value = numericValue;
-                    break;
-                  case 'heartRate':
-                    parsedRow.heart_rate = numericValue;
-                    break;
-                  case 'hrv':
-                    parsedRow.hrv = numericValue;
-                    break;
-                  case 'sleepEfficiency':
-                    parsedRow.sleep_efficiency = numericValue;
-                    break;
-                  case 'sleepHeartRate':
-                    parsedRow.sleep_heart_rate = numericValue;
-                    break;
-                  case 'skinTemperature':
-                    parsedRow.skin_temperature = numericValue;
-                    break;
-                  case 'restlessPeriods':
-                    parsedRow.restless_periods = numericValue;
-                    break;
-                }
-              }
-            }
-          } else {
-            // Store unrecognized fields in additional_data
-            const numericValue = parseFloat(value);
-            if (!isNaN(numericValue)) {
-              parsedRow.additional_data[header] = numericValue;
-            } else {
-              parsedRow.additional_data[header] = value;
-            }
+          if (!parsedValue) {
+            console.warn(`Failed to parse timestamp: ${value} (cleaned: ${cleanValue})`);
+            return null; // Skip this row if timestamp is invalid
           }
+          parsedRow.timestamp = parsedValue;
+          hasValidTimestamp = true;
+        } catch (e) {
+          console.warn(`Failed to parse timestamp: ${value}`, e);
+          return null; // Skip this row if timestamp parsing fails
         }
-
-        // Only add rows with valid timestamps
-        if (hasValidTimestamp && parsedRow.timestamp && !isNaN(parsedRow.timestamp.getTime())) {
-          results.push(parsedRow);
+      } else {
+        // Parse numeric values
+        const numericValue = parseFloat(value);
+        if (!isNaN(numericValue)) {
+          switch (matchedField) {
+            case 'stress':
+              parsedRow.stress_value = numericValue;
+              break;
+            case 'recovery':
+              parsedRow.recovery_value = numericValue;
+              break;
+            case 'heartRate':
+              parsedRow.heart_rate = numericValue;
+              break;
+            case 'hrv':
+              parsedRow.hrv = numericValue;
+              break;
+            case 'sleepEfficiency':
+              parsedRow.sleep_efficiency = numericValue;
+              break;
+            case 'sleepHeartRate':
+              parsedRow.sleep_heart_rate = numericValue;
+              break;
+            case 'skinTemperature':
+              parsedRow.skin_temperature = numericValue;
+              break;
+            case 'restlessPeriods':
+              parsedRow.restless_periods = numericValue;
+              break;
+          }
         }
-      })
-      .on('end', () => {
-        resolve({
-          data: results,
-          fieldMapping,
-          unrecognizedFields,
-          totalRows: results.length
-        });
-      })
-      .on('error', (error) => {
-        reject(error);
-      });
-  });
+      }
+    } else {
+      // Store unrecognized fields in additional_data
+      const numericValue = parseFloat(value);
+      if (!isNaN(numericValue)) {
+        parsedRow.additional_data[header] = numericValue;
+      } else {
+        parsedRow.additional_data[header] = value;
+      }
+    }
+  }
+
+  // Only keep rows with valid timestamps
+  return hasValidTimestamp && parsedRow.timestamp && !isNaN(parsedRow.timestamp.getTime()) ? parsedRow : null;
+};
+
+/**
+ * Stream a CSV file as wearable data
+ * Columns are matched by name unless the mapping overrides them: a field name, 'additional'
+ * (keep in additional_data) or '' (ignore the column). Timestamps without a zone are read in
+ * the user's timezone. Rows are parsed one at a time as the file is read; the column matching
+ * is filled in once the header line has been read.
+ * @param {string} filePath - The CSV file
+ * @param {Object} options - { separator (see detectSeparator), mapping: column -> field | 'additional' | '', timezone: IANA timezone }
+ * @returns {{rows: AsyncGenerator<Object>, description: {headers: Array, fieldMapping: Object, unrecognizedFields: Array, ignoredFields: Array}}}
+ */
+export const streamWearableCSV = (filePath, options = {}) => {
+  const mapping = options.mapping || {};
+  const description = { headers: [], fieldMapping: {}, unrecognizedFields: [], ignoredFields: [] };
+
+  async function* rows() {
+    const stream = streamCSV(filePath, options.separator);
+    stream.on('headers', (headers) => Object.assign(description, mapWearableHeaders(headers, mapping)));
+
+    for await (const row of stream) {
+      const parsedRow = parseWearableRow(row, description, options.timezone);
+      if (parsedRow) yield parsedRow;
+    }
+  }
+
+  return { rows: rows(), description };
 };
 
 /**
@@ -0,0 +1,294 @@
+import { query } from '../db/database.js';
+import { addDaysToKey, getUserTimezone, toDateColumnKey, toLocalDateKey } from './timezone.js';
+
+/**
+ * Forecast Evaluator
+ * Checks stored risk predictions against what actually happened next: a migraine onset from
+ * migraine_entries, or a migraine day from migraine_day_markers, within the forecast horizon.
+ */
+
+// Forecast horizons (hours after the input window) offered by the risk APIs
+export const FORECAST_HORIZONS = [6, 12, 24, 72];
+export const MAX_FORECAST_HORIZON_HOURS = 72;
+// Horizon used when a request does not choose one (every assessment stored before horizons existed used it)
+export const DEFAULT_FORECAST_HORIZON_HOURS = 12;
+// Predicted risk (%) at or above which a forecast counts as a "migraine expected" call
+export const DEFAULT_ALERT_THRESHOLD = 50;
+const CALIBRATION_BUCKETS = 10;
+
+const round = (value, places = 3) => (value === null ? null : Math.round(value * 10 ** places) / 10 ** places);
+
+/**
+ * Area under the ROC curve via the Mann-Whitney statistic (ties count half)
+ * @returns {number|null} AUC, or null without both outcomes
+ */
+const calculateAuc = (forecasts) => {
+  const positives = forecasts.filter(f => f.outcome).map(f => f.probability);
+  const negatives = forecasts.filter(f => !f.outcome).map(f => f.probability);
+  if (positives.length === 0 || negatives.length === 0) return null;
+
+  let wins = 0;
+  positives.forEach(p => {
+    negatives.forEach(n => {
+      if (p > n) wins += 1;
+      else if (p === n) wins += 0.5;
+    });
+  });
+  return wins / (positives.length * negatives.length);
+};
+
+/**
+ * ROC curve points (false positive rate vs true positive rate) at every distinct predicted risk
+ */
+const calculateRocCurve = (forecasts) => {
+  const positives = forecasts.filter(f => f.outcome).length;
+  const negatives = forecasts.length - positives;
+  if (positives === 0 || negatives === 0) return [];
+
+  const thresholds = [...new Set(forecasts.map(f => f.probability))].sort((a, b) => b - a);
+  const points = [{ threshold: null, fpr: 0, tpr: 0 }];
+  thresholds.forEach(threshold => {
+    const flagged = forecasts.filter(f => f.probability >= threshold);
+    points.push({
+      threshold: Math.round(threshold * 100),
+      fpr: round(flagged.filter(f => !f.outcome).length / negatives),
+      tpr: round(flagged.filter(f => f.outcome).length / positives)
+    });
+  });
+  return points;
+};
+
+/**
+ * Compute accuracy metrics for probability forecasts
+ * @param {Array} forecasts - [{ probability (0-1), outcome (boolean) }]
+ * @param {number} threshold - Alert threshold in percent
+ * @returns {Object} Counts, hit rate, false alarm rate, Brier score (and skill), calibration buckets, ROC and AUC
+ */
+export const computeForecastMetrics = (forecasts, threshold = DEFAULT_ALERT_THRESHOLD) => {
+  const total = forecasts.length;
+  const positives = forecasts.filter(f => f.outcome).length;
+  const negatives = total - positives;
+
+  if (total === 0) {
+    return {
+      forecasts: 0,
+      migraines: 0,
+      baseRate: null,
+      threshold,
+      hitRate: null,
+      falseAlarmRate: null,
+      accuracy: null,
+      brierScore: null,
+      brierSkillScore: null,
+      auc: null,
+      calibration: [],
+      roc: []
+    };
+  }
+
+  const cutoff = threshold / 100;
+  const truePositives = forecasts.filter(f => f.outcome && f.probability >= cutoff).length;
+  const falsePositives = forecasts.filter(f => !f.outcome && f.probability >= cutoff).length;
+  const trueNegatives = negatives - falsePositives;
+
+  const baseRate = positives / total;
+  const brierScore = forecasts.reduce((sum, f) => sum + (f.probability - (f.outcome ? 1 : 0)) ** 2, 0) / total;
+  // Reference: always forecasting the observed base rate
+  const referenceBrier = baseRate * (1 - baseRate);
+
+  const calibration = [];
+  for (let bucket = 0; bucket < CALIBRATION_BUCKETS; bucket++) {
+    const lower = bucket / CALIBRATION_BUCKETS;
+    const upper = (bucket + 1) / CALIBRATION_BUCKETS;
+    const inBucket = forecasts.filter(f => f.probability >= lower && (f.probability < upper || (bucket === CALIBRATION_BUCKETS - 1 && f.probability <= upper)));
+    if (inBucket.length === 0) continue;
+    calibration.push({
+      range: `${Math.round(lower * 100)}-${Math.round(upper * 100)}%`,
+      lower: Math.round(lower * 100),
+      upper: Math.round(upper * 100),
+      count: inBucket.length,
+      meanPredicted: round(inBucket.reduce((sum, f) => sum + f.probability, 0) / inBucket.length),
+      observedRate: round(inBucket.filter(f => f.outcome).length / inBucket.length)
+    });
+  }
+
+  return {
+    forecasts: total,
+    migraines: positives,
+    baseRate: round(baseRate),
+    threshold,
+    hitRate: positives > 0 ? round(truePositives / positives) : null,
+    falseAlarmRate: negatives > 0 ? round(falsePositives / negatives) : null,
+    accuracy: round((truePositives + trueNegatives) / total),
+    brierScore: round(brierScore, 4),
+    brierSkillScore: referenceBrier > 0 ? round(1 - brierScore / referenceBrier) : null,
+    auc: round(calculateAuc(forecasts)),
+    calibration,
+    roc: calculateRocCurve(forecasts)
+  };
+};
+
+/**
+ * Load a user's migraine onsets and marked migraine days
+ * Marked days are calendar days in the user's timezone. The day a forecast is made on only counts
+ * when no migraine was recorded as starting on it by the time of the forecast (a marker for a
+ * migraine that had already begun is not something the forecast could predict).
+ * @param {string} userId - User ID
+ * @returns {Promise<Function>} (windowEnd: Date, horizonHours) => true when a migraine entry starts, or a
+ *   migraine day is marked, within horizonHours (default DEFAULT_FORECAST_HORIZON_HOURS) after windowEnd
+ */
+export const loadMigraineOutcomes = async (userId) => {
+  const timezone = await getUserTimezone(userId);
+  const entriesResult = await query(
+    `SELECT start_time FROM migraine_entries WHERE user_id = $1`,
+    [userId]
+  );
+
+  const markersResult = await query(
+    `SELECT date FROM migraine_day_markers WHERE user_id = $1 AND is_migraine_day = true`,
+    [userId]
+  );
+
+  const onsets = entriesResult.rows.map(row => new Date(row.start_time).getTime());
+  const migraineDays = new Set(markersResult.rows.map(row => toDateColumnKey(row.date)));
+  // Earliest recorded onset per local day
+  const firstOnsetByDay = new Map();
+  onsets.forEach(onset => {
+    const day = toLocalDateKey(new Date(onset), timezone);
+    if (!firstOnsetByDay.has(day) || onset < firstOnsetByDay.get(day)) firstOnsetByDay.set(day, onset);
+  });
+
+  return (windowEnd, horizonHours = DEFAULT_FORECAST_HORIZON_HOURS) => {
+    const start = windowEnd.getTime();
+    const end = start + horizonHours * 60 * 60 * 1000;
+    const onsetInHorizon = onsets.some(onset => onset > start && onset <= end);
+    // Every calendar day the horizon touches counts (a 72-hour horizon spans up to four days)
+    let markedInHorizon = false;
+    const firstDay = toLocalDateKey(windowEnd, timezone);
+    const lastDay = toLocalDateKey(new Date(end), timezone);
+    for (let day = firstDay; day <= lastDay; day = addDaysToKey(day, 1)) {
+      const startedBeforeForecast = day === firstDay && firstOnsetByDay.get(day) <= start;
+      if (migraineDays.has(day) && !startedBeforeForecast) {
+        markedInHorizon = true;
+        break;
+      }
+    }
+    return onsetInHorizon || markedInHorizon;
+  };
+};
+
+/**
+ * Evaluate a user's stored risk assessments against subsequent migraines
+ * A forecast is a hit when a migraine entry starts, or a migraine day is marked, within its own
+ * horizon after the end of its input window. Forecasts whose horizon has not passed yet are left out.
+ * @param {string} userId - User ID
+ * @param {Object} options
+ * @param {number} options.threshold - Alert threshold in percent
+ * @param {boolean} options.includeSimulated - Include predictions made with simulated data
+ * @param {Date} options.now - Evaluation time
+ * @returns {Promise<Object>} { overall, byEngine, byPromptTemplate, byHorizon, pending }
+ */
+export const evaluateForecasts = async (userId, { threshold = DEFAULT_ALERT_THRESHOLD, includeSimulated = false, now = new Date() } = {}) => {
+  const assessmentsResult = await query(
+    `SELECT id, window_end, horizon_hours, engine, provider, risk_level, is_simulated, prompt_template_version
+     FROM risk_assessments
+     WHERE user_id = $1 AND risk_level IS NOT NULL
+       ${includeSimulated ? '' : 'AND is_simulated = false'}
+     ORDER BY window_end`,
+    [userId]
+  );
+
+  const hadMigraineAfter = await loadMigraineOutcomes(userId);
+
+  const forecasts = [];
+  let pending = 0;
+
+  assessmentsResult.rows.forEach(row => {
+    const windowEnd = new Date(row.window_end);
+    if (windowEnd.getTime() + row.horizon_hours * 60 * 60 * 1000 > now.getTime()) {
+      pending++;
+      return;
+    }
+
+    forecasts.push({
+      engine: row.engine,
+      provider: row.provider,
+      promptTemplateVersion: row.prompt_template_version,
+      horizonHours: row.horizon_hours,
+      probability: row.risk_level / 100,
+      outcome: hadMigraineAfter(windowEnd, row.horizon_hours)
+    });
+  });
+
+  const byEngine = {};
+  [...new Set(forecasts.map(f => f.engine))].forEach(engine => {
+    byEngine[engine] = computeForecastMetrics(forecasts.filter(f => f.engine === engine), threshold);
+  });
+
+  // LLM forecasts per prompt template version, so prompt changes can be compared
+  const byPromptTemplate = {};
+  [...new Set(forecasts.filter(f => f.promptTemplateVersion).map(f => f.promptTemplateVersion))].forEach(version => {
+    byPromptTemplate[version] = computeForecastMetrics(forecasts.filter(f => f.promptTemplateVersion === version), threshold);
+  });
+
+  // Longer horizons catch more migraines, so each horizon is scored on its own
+  const byHorizon = {};
+  [...new Set(forecasts.map(f => f.horizonHours))].sort((a, b) => a - b).forEach(horizonHours => {
+    byHorizon[horizonHours] = computeForecastMetrics(forecasts.filter(f => f.horizonHours === horizonHours), threshold);
+  });
+
+  return {
+    overall: computeForecastMetrics(forecasts, threshold),
+    byEngine,
+    byPromptTemplate,
+    byHorizon,
+    pending
+  };
+};
+
+/**
+ * Evaluate the two arms of a prompt A/B experiment
+ * Only real (not simulated) assessments that were assigned an arm by the experiment count.
+ * @param {string} userId - User ID
+ * @param {string} experimentId - Prompt experiment ID
+ * @param {Object} options
+ * @param {number} options.threshold - Alert threshold in percent
+ * @param {Date} options.now - Evaluation time
+ * @returns {Promise<Object>} { variants: { A, B }, pending }
+ */
+export const evaluatePromptExperiment = async (userId, experimentId, { threshold = DEFAULT_ALERT_THRESHOLD, now = new Date() } = {}) => {
+  const assessmentsResult = await query(
+    `SELECT window_end, horizon_hours, risk_level, prompt_variant
+     FROM risk_assessments
+     WHERE user_id = $1 AND prompt_experiment_id = $2
+       AND risk_level IS NOT NULL AND is_simulated = false
+     ORDER BY window_end`,
+    [userId, experimentId]
+  );
+
+  const hadMigraineAfter = await loadMigraineOutcomes(userId);
+
+  const forecasts = { A: [], B: [] };
+  const pending = { A: 0, B: 0 };
+
+  assessmentsResult.rows.forEach(row => {
+    const windowEnd = new Date(row.window_end);
+    if (windowEnd.getTime() + row.horizon_hours * 60 * 60 * 1000 > now.getTime()) {
+      pending[row.prompt_variant]++;
+      return;
+    }
+
+    forecasts[row.prompt_variant].push({
+      probability: row.risk_level / 100,
+      outcome: hadMigraineAfter(windowEnd, row.horizon_hours)
+    });
+  });
+
+  return {
+    variants: {
+      A: computeForecastMetrics(forecasts.A, threshold),
+      B: computeForecastMetrics(forecasts.B, threshold)
+    },
+    pending
+  };
+};
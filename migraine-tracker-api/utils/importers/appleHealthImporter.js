@@ -0,0 +1,124 @@
+import fs from 'fs';
+import { createRowCollector, parseTimestamp, toNumber } from './importerUtils.js';
+import { toLocalDateKey } from '../timezone.js';
+
+/**
+ * Apple Health importer
+ * Reads export.xml from the Health app export (Profile > Export All Health Data, unzipped).
+ * Only <Record> elements are read; quantity samples are averaged per hour and sleep analysis
+ * samples are grouped into nights (a night ends at the latest sample before noon) to compute
+ * sleep efficiency as time asleep over the time between the first and last sample. The file is
+ * read as a stream (exports run to gigabytes); only the hourly rows and nights are kept.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Quantity record type -> standardized field, or an additional_data key
+// Nightly values (wrist temperature) are stored at their end, like the sleep they belong to
+const QUANTITY_TYPES = {
+  HKQuantityTypeIdentifierHeartRate: { field: 'heartRate' },
+  HKQuantityTypeIdentifierHeartRateVariabilitySDNN: { field: 'hrv' },
+  HKQuantityTypeIdentifierAppleSleepingWristTemperature: { field: 'skinTemperature', atEnd: true },
+  HKQuantityTypeIdentifierRestingHeartRate: { extra: 'resting_heart_rate' },
+  HKQuantityTypeIdentifierRespiratoryRate: { extra: 'respiratory_rate' },
+  HKQuantityTypeIdentifierOxygenSaturation: { extra: 'oxygen_saturation' }
+};
+
+const SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+const ASLEEP_VALUES = new Set([
+  'HKCategoryValueSleepAnalysisAsleep',
+  'HKCategoryValueSleepAnalysisAsleepUnspecified',
+  'HKCategoryValueSleepAnalysisAsleepCore',
+  'HKCategoryValueSleepAnalysisAsleepDeep',
+  'HKCategoryValueSleepAnalysisAsleepREM'
+]);
+const AWAKE_VALUE = 'HKCategoryValueSleepAnalysisAwake';
+
+const RECORD_PATTERN = /<Record\s([^>]*?)\/?>/g;
+const ATTRIBUTE_PATTERN = /(\w+)="([^"]*)"/g;
+
+const readAttributes = (text) => {
+  const attributes = {};
+  for (const [, name, value] of text.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[name] = value;
+  }
+  return attributes;
+};
+
+/**
+ * Stream the attributes of every <Record> element of a file
+ * Text after the last '<' of a chunk may be a cut-off element and is carried into the next one
+ * ('<' can't occur inside an element, attribute values escape it).
+ */
+async function* readRecords(filePath) {
+  let carry = '';
+  for await (const chunk of fs.createReadStream(filePath, { encoding: 'utf-8' })) {
+    const text = carry + chunk;
+    const cut = text.lastIndexOf('<');
+    carry = cut === -1 ? '' : text.slice(cut);
+    for (const [, attributeText] of text.slice(0, cut === -1 ? text.length : cut).matchAll(RECORD_PATTERN)) {
+      yield readAttributes(attributeText);
+    }
+  }
+  for (const [, attributeText] of carry.matchAll(RECORD_PATTERN)) {
+    yield readAttributes(attributeText);
+  }
+}
+
+// Wrist temperature may be exported in Fahrenheit
+const toCelsius = (value, unit) => (unit === 'degF' ? ((value - 32) * 5) / 9 : value);
+
+export const appleHealthImporter = {
+  id: 'apple_health_xml',
+  source: 'apple_health',
+  label: 'Apple Health export (XML)',
+  description: 'Heart rate, HRV, wrist temperature and sleep from export.xml of the Health app export',
+  extensions: ['.xml'],
+
+  matches: ({ head }) => /<HealthData[\s>]|<!DOCTYPE HealthData/.test(head),
+
+  parse: async ({ filePath, mapping, timezone }) => {
+    const collector = createRowCollector(mapping, timezone);
+    const nights = new Map();
+
+    for await (const record of readRecords(filePath)) {
+      if (record.type === SLEEP_TYPE) {
+        const start = parseTimestamp(record.startDate, timezone);
+        const end = parseTimestamp(record.endDate, timezone);
+        if (!start || !end || end <= start) continue;
+        // Samples ending before noon belong to that morning's night, later ones to the next
+        const nightKey = toLocalDateKey(end.getTime() + 12 * HOUR_MS, timezone);
+        const night = nights.get(nightKey) || { start, end, asleep: 0, awakenings: 0 };
+        night.start = start < night.start ? start : night.start;
+        night.end = end > night.end ? end : night.end;
+        if (ASLEEP_VALUES.has(record.value)) night.asleep += end - start;
+        if (record.value === AWAKE_VALUE) night.awakenings++;
+        nights.set(nightKey, night);
+        continue;
+      }
+
+      const quantity = QUANTITY_TYPES[record.type];
+      const value = toNumber(record.value);
+      if (!quantity || value === null) continue;
+      const at = parseTimestamp(quantity.atEnd ? record.endDate : record.startDate, timezone);
+      if (quantity.field) {
+        const normalized = quantity.field === 'skinTemperature' ? toCelsius(value, record.unit) : value;
+        collector.add(at, quantity.field, normalized, record.type);
+      } else {
+        collector.addExtra(at, quantity.extra, value);
+      }
+    }
+
+    for (const night of nights.values()) {
+      if (night.asleep === 0) continue;
+      // Overlapping samples from several sources (watch and phone) can add up past 100%
+      const efficiency = Math.min(100, (night.asleep / (night.end - night.start)) * 100);
+      collector.add(night.end, 'sleepEfficiency', efficiency, SLEEP_TYPE);
+      collector.add(night.end, 'restlessPeriods', night.awakenings, `${SLEEP_TYPE} (awake)`);
+    }
+
+    return collector.result();
+  }
+};
+
+export default appleHealthImporter;
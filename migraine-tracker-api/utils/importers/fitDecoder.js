@@ -0,0 +1,140 @@
+/**
+ * Minimal FIT file decoder
+ * Reads the definition and data messages of a Garmin FIT file and returns the scalar fields of
+ * the requested global message numbers. Enough for wellness (monitoring, stress) and activity
+ * (record) files; arrays, strings, developer fields and the CRC are skipped.
+ */
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET = 631065600;
+
+export const FIT_TIMESTAMP_FIELD = 253;
+
+// Base type number -> size, reader and invalid value
+const BASE_TYPES = {
+  0x00: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0xFF },
+  0x01: { size: 1, read: (view, offset) => view.getInt8(offset), invalid: 0x7F },
+  0x02: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0xFF },
+  0x03: { size: 2, read: (view, offset, le) => view.getInt16(offset, le), invalid: 0x7FFF },
+  0x04: { size: 2, read: (view, offset, le) => view.getUint16(offset, le), invalid: 0xFFFF },
+  0x05: { size: 4, read: (view, offset, le) => view.getInt32(offset, le), invalid: 0x7FFFFFFF },
+  0x06: { size: 4, read: (view, offset, le) => view.getUint32(offset, le), invalid: 0xFFFFFFFF },
+  0x08: { size: 4, read: (view, offset, le) => view.getFloat32(offset, le), invalid: null },
+  0x09: { size: 8, read: (view, offset, le) => view.getFloat64(offset, le), invalid: null },
+  0x0A: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0x00 },
+  0x0B: { size: 2, read: (view, offset, le) => view.getUint16(offset, le), invalid: 0x0000 },
+  0x0C: { size: 4, read: (view, offset, le) => view.getUint32(offset, le), invalid: 0x00000000 },
+  0x0D: { size: 1, read: (view, offset) => view.getUint8(offset), invalid: 0xFF }
+};
+
+/**
+ * Check the ".FIT" signature in the file header
+ * @param {Buffer} buffer - File contents (the first 12 bytes are enough)
+ */
+export const isFitFile = (buffer) =>
+  buffer.length >= 12 && buffer.toString('ascii', 8, 12) === '.FIT';
+
+/**
+ * Convert a FIT date_time (seconds since the FIT epoch) to a Date
+ */
+export const fitTimeToDate = (seconds) => new Date((seconds + FIT_EPOCH_OFFSET) * 1000);
+
+/**
+ * Decode the messages of a FIT file
+ * Messages carry a `timestamp` (FIT seconds) resolved from field 253, compressed timestamp
+ * headers or the 16-bit timestamp_16 field of monitoring messages.
+ * @param {Buffer} buffer - File contents
+ * @param {Array<number>} globalNumbers - Global message numbers to return
+ * @returns {Array<{ global: number, timestamp: number|null, fields: Object }>}
+ */
+export const decodeFit = (buffer, globalNumbers) => {
+  if (!isFitFile(buffer)) {
+    throw new Error('Not a FIT file');
+  }
+
+  const wanted = new Set(globalNumbers);
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const headerSize = view.getUint8(0);
+  const end = Math.min(buffer.length, headerSize + view.getUint32(4, true));
+  const definitions = {};
+  const messages = [];
+  let lastTimestamp = null;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+    const compressed = (header & 0x80) !== 0;
+    const localType = compressed ? (header >> 5) & 0x03 : header & 0x0F;
+
+    // Definition message: layout of the data messages that follow for this local type
+    if (!compressed && (header & 0x40)) {
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const global = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+      const fields = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          number: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2) & 0x1F
+        });
+        offset += 3;
+      }
+      let developerSize = 0;
+      if (header & 0x20) {
+        const developerCount = view.getUint8(offset++);
+        for (let i = 0; i < developerCount; i++) {
+          developerSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+      definitions[localType] = { global, littleEndian, fields, developerSize };
+      continue;
+    }
+
+    const definition = definitions[localType];
+    if (!definition) {
+      throw new Error(`FIT data message for undefined local type ${localType}`);
+    }
+
+    let timestamp = null;
+    if (compressed) {
+      const timeOffset = header & 0x1F;
+      if (lastTimestamp !== null) {
+        timestamp = (lastTimestamp & ~0x1F) + timeOffset;
+        if (timeOffset < (lastTimestamp & 0x1F)) timestamp += 0x20;
+        lastTimestamp = timestamp;
+      }
+    }
+
+    const fields = {};
+    for (const field of definition.fields) {
+      const type = BASE_TYPES[field.baseType];
+      // Only single values of known types; arrays and strings are skipped
+      if (type && field.size === type.size) {
+        const value = type.read(view, offset, definition.littleEndian);
+        if (value !== type.invalid && !Number.isNaN(value)) {
+          fields[field.number] = value;
+        }
+      }
+      offset += field.size;
+    }
+    offset += definition.developerSize;
+
+    if (fields[FIT_TIMESTAMP_FIELD] !== undefined) {
+      timestamp = fields[FIT_TIMESTAMP_FIELD];
+      lastTimestamp = timestamp;
+    } else if (definition.global === 55 && fields[26] !== undefined && lastTimestamp !== null) {
+      // Monitoring timestamp_16: the low 16 bits of the timestamp
+      timestamp = lastTimestamp + ((fields[26] - (lastTimestamp & 0xFFFF)) & 0xFFFF);
+      lastTimestamp = timestamp;
+    }
+
+    if (wanted.has(definition.global)) {
+      messages.push({ global: definition.global, timestamp, fields });
+    }
+  }
+
+  return messages;
+};
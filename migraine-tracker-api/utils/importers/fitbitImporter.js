@@ -0,0 +1,74 @@
+import { createRowCollector, isArrayOfRecordsWith, parseTimestamp } from './importerUtils.js';
+
+/**
+ * Fitbit Takeout JSON importer
+ * Google Takeout splits Fitbit data into one file per metric and period
+ * (Physical Activity/heart_rate-2024-03-01.json, resting_heart_rate-2024-03-01.json,
+ * Sleep/sleep-2024-03-01.json). Each file is imported on its own and merges into the same
+ * hourly rows. Fitbit writes local times without a zone; they are read in the user's timezone.
+ */
+
+const RESTLESS_LEVELS = ['wake', 'restless', 'awake'];
+
+// '03/01/24 00:00:05' -> Date
+const parseFitbitDate = (value, timezone) => {
+  const match = /^(\d{2})\/(\d{2})\/(\d{2}) (\d{2}:\d{2}:\d{2})$/.exec(String(value || '').trim());
+  if (!match) return parseTimestamp(value, timezone);
+  const [, month, day, year, time] = match;
+  return parseTimestamp(`20${year}-${month}-${day}T${time}`, timezone);
+};
+
+const isHeartRate = (json) =>
+  isArrayOfRecordsWith(json, ['dateTime', 'value']) && json.some(item => item.value?.bpm !== undefined);
+
+const isRestingHeartRate = (json) =>
+  isArrayOfRecordsWith(json, ['dateTime', 'value']) &&
+  json.some(item => item.value && 'value' in item.value && 'date' in item.value);
+
+const isSleep = (json) => isArrayOfRecordsWith(json, ['dateOfSleep', 'startTime', 'endTime']);
+
+export const fitbitImporter = {
+  id: 'fitbit_json',
+  source: 'fitbit',
+  label: 'Fitbit Takeout (JSON)',
+  description: 'heart_rate, resting_heart_rate and sleep files from a Fitbit Google Takeout export',
+  extensions: ['.json'],
+
+  matches: ({ json }) => isHeartRate(json) || isRestingHeartRate(json) || isSleep(json),
+
+  parse: async ({ json, mapping, timezone }) => {
+    const collector = createRowCollector(mapping, timezone);
+
+    if (isSleep(json)) {
+      for (const sleep of json) {
+        if (sleep.mainSleep === false) continue;
+        const at = parseTimestamp(sleep.endTime, timezone);
+        collector.add(at, 'sleepEfficiency', sleep.efficiency, 'sleep.efficiency');
+        collector.addExtra(at, 'minutes_asleep', sleep.minutesAsleep);
+        collector.addExtra(at, 'minutes_awake', sleep.minutesAwake);
+        collector.addExtra(at, 'time_in_bed', sleep.timeInBed);
+        // Awake and restless stretches ('stages' logs use wake, 'classic' logs restless and awake)
+        const summary = sleep.levels?.summary || {};
+        const stretches = RESTLESS_LEVELS.filter(level => summary[level]);
+        if (stretches.length > 0) {
+          const restless = stretches.reduce((sum, level) => sum + (summary[level].count || 0), 0);
+          collector.add(at, 'restlessPeriods', restless, 'sleep.levels.summary');
+        }
+      }
+    } else if (isRestingHeartRate(json)) {
+      for (const item of json) {
+        // Days without a resting heart rate have value 0
+        if (!item.value?.value) continue;
+        collector.addExtra(parseFitbitDate(item.dateTime, timezone), 'resting_heart_rate', item.value.value);
+      }
+    } else {
+      for (const item of json) {
+        collector.add(parseFitbitDate(item.dateTime, timezone), 'heartRate', item.value?.bpm, 'heart_rate.bpm');
+      }
+    }
+
+    return collector.result();
+  }
+};
+
+export default fitbitImporter;
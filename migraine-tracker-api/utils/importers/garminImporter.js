@@ -0,0 +1,119 @@
+import fs from 'fs/promises';
+import { createRowCollector, isArrayOfRecordsWith, parseTimestamp } from './importerUtils.js';
+import { decodeFit, fitTimeToDate, isFitFile } from './fitDecoder.js';
+
+/**
+ * Garmin importers
+ * - Garmin Connect JSON dumps (Account > Export your data, DI_CONNECT/DI-Connect-Wellness):
+ *   UDSFile_*.json daily summaries and *_sleepData.json nights
+ * - FIT files from the device or the export (wellness/monitoring and activity files)
+ * Daily summaries are stored at local midnight of their calendar date, nights at the hour the
+ * sleep ended and FIT samples per hour.
+ */
+
+// FIT global message numbers
+const FIT_RECORD = 20;
+const FIT_MONITORING = 55;
+const FIT_STRESS_LEVEL = 227;
+
+const isDailySummary = (json) =>
+  isArrayOfRecordsWith(json, ['calendarDate']) &&
+  json.some(day => 'restingHeartRate' in day || 'allDayStress' in day || 'bodyBattery' in day);
+
+const isSleepData = (json) =>
+  isArrayOfRecordsWith(json, ['calendarDate']) &&
+  json.some(night => 'sleepEndTimestampGMT' in night || 'deepSleepSeconds' in night);
+
+const findStat = (list, key, type, valueKey) =>
+  (list || []).find(item => item?.[key] === type)?.[valueKey];
+
+export const garminJsonImporter = {
+  id: 'garmin_json',
+  source: 'garmin',
+  label: 'Garmin Connect export (JSON)',
+  description: 'UDSFile daily summaries and sleepData files from the Garmin Connect data export',
+  extensions: ['.json'],
+
+  matches: ({ json }) => isDailySummary(json) || isSleepData(json),
+
+  parse: async ({ json, mapping, timezone }) => {
+    const collector = createRowCollector(mapping, timezone);
+
+    if (isSleepData(json)) {
+      for (const night of json) {
+        const at = parseTimestamp(night.sleepEndTimestampGMT) || parseTimestamp(night.calendarDate, timezone);
+        const asleep = ['deepSleepSeconds', 'lightSleepSeconds', 'remSleepSeconds']
+          .reduce((sum, key) => sum + (night[key] || 0), 0);
+        const awake = night.awakeSleepSeconds || 0;
+        if (asleep > 0) {
+          collector.add(at, 'sleepEfficiency', (asleep / (asleep + awake)) * 100, 'sleepData.sleepSeconds');
+        }
+        collector.add(at, 'restlessPeriods', night.awakeCount, 'sleepData.awakeCount');
+        collector.addExtra(at, 'sleep_stress', night.avgSleepStress);
+        collector.addExtra(at, 'sleep_score', night.sleepScores?.overallScore);
+        collector.addExtra(at, 'average_respiration', night.averageRespiration);
+      }
+    } else {
+      for (const day of json) {
+        const at = parseTimestamp(day.calendarDate, timezone);
+        collector.add(
+          at,
+          'stress',
+          findStat(day.allDayStress?.aggregatorList, 'type', 'TOTAL', 'averageStressLevel'),
+          'allDayStress.averageStressLevel'
+        );
+        collector.add(
+          at,
+          'recovery',
+          findStat(day.bodyBattery?.bodyBatteryStatList, 'bodyBatteryStatType', 'HIGHEST', 'statsValue'),
+          'bodyBattery.highest'
+        );
+        collector.add(at, 'heartRate', day.restingHeartRate, 'restingHeartRate');
+        collector.addExtra(at, 'min_heart_rate', day.minHeartRate);
+        collector.addExtra(at, 'max_heart_rate', day.maxHeartRate);
+        collector.addExtra(at, 'total_steps', day.totalSteps);
+      }
+    }
+
+    return collector.result();
+  }
+};
+
+export const garminFitImporter = {
+  id: 'garmin_fit',
+  source: 'garmin',
+  label: 'Garmin FIT file',
+  description: 'Heart rate and stress from Garmin wellness (monitoring) and activity FIT files',
+  extensions: ['.fit'],
+
+  matches: ({ headBuffer }) => isFitFile(headBuffer),
+
+  // FIT files are binary with definitions referenced across the file; they are decoded whole
+  parse: async ({ filePath, mapping, timezone }) => {
+    const collector = createRowCollector(mapping, timezone);
+    const buffer = await fs.readFile(filePath);
+
+    for (const message of decodeFit(buffer, [FIT_RECORD, FIT_MONITORING, FIT_STRESS_LEVEL])) {
+      if (message.global === FIT_STRESS_LEVEL) {
+        // Negative stress values mark activity or too much motion to measure
+        const stress = message.fields[0];
+        const time = message.fields[1] ?? message.timestamp;
+        if (stress >= 0 && time !== null && time !== undefined) {
+          collector.add(fitTimeToDate(time), 'stress', stress, 'stress_level.stress_level_value');
+        }
+        continue;
+      }
+
+      const heartRate = message.fields[message.global === FIT_MONITORING ? 27 : 3];
+      if (message.timestamp === null || !heartRate) continue;
+      collector.add(
+        fitTimeToDate(message.timestamp),
+        'heartRate',
+        heartRate,
+        message.global === FIT_MONITORING ? 'monitoring.heart_rate' : 'record.heart_rate'
+      );
+    }
+
+    return collector.result();
+  }
+};
@@ -0,0 +1,175 @@
+import { DEFAULT_TIMEZONE, getTimezoneOffset, parseLocalDateTime } from '../timezone.js';
+
+/**
+ * Shared helpers for vendor importers
+ * Vendor exports mix per-sample series (heart rate every few seconds) with daily summaries
+ * (readiness, sleep). Both are collected into one row per hour, the granularity wearable_data
+ * is keyed on (user_id + timestamp); samples within an hour are averaged.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Standardized field (as used in upload field mappings) -> wearable_data column
+export const FIELD_COLUMNS = {
+  stress: 'stress_value',
+  recovery: 'recovery_value',
+  heartRate: 'heart_rate',
+  hrv: 'hrv',
+  sleepEfficiency: 'sleep_efficiency',
+  sleepHeartRate: 'sleep_heart_rate',
+  skinTemperature: 'skin_temperature',
+  restlessPeriods: 'restless_periods'
+};
+
+/**
+ * Parse a number from a vendor value ('62', 62, '' or null)
+ * @returns {number|null}
+ */
+export const toNumber = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : parseFloat(String(value).replace(',', '.'));
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Parse a vendor timestamp into a Date
+ * Timestamps without a zone are wall-clock times in the user's timezone; a date alone is
+ * local midnight of that day
+ * @param {string|number|Date} value - ISO string, 'YYYY-MM-DD HH:mm:ss[ +hhmm]' or epoch milliseconds
+ * @param {string} timezone - IANA timezone of zone-less timestamps (default UTC)
+ * @returns {Date|null}
+ */
+export const parseTimestamp = (value, timezone = DEFAULT_TIMEZONE) => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'number') return new Date(value);
+
+  const text = String(value).trim()
+    // '2024-03-01 08:00:00 +0100' -> '2024-03-01T08:00:00+01:00'
+    .replace(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*([+-]\d{2}):?(\d{2})$/, '$1T$2$3:$4')
+    .replace(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2})/, '$1T$2');
+
+  // Date only, or no zone designator: local time in the timezone
+  if (/^\d{4}-\d{2}-\d{2}(T[\d:.]+)?$/.test(text)) return parseLocalDateTime(text, timezone);
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Mapping targets besides the standardized fields: keep in additional_data, or drop ('')
+export const ADDITIONAL_TARGET = 'additional';
+export const IGNORE_TARGET = '';
+
+/**
+ * Collects values from a vendor export into hourly wearable_data rows
+ * add() averages numeric columns per hour, addExtra() keeps device-specific values in
+ * additional_data. The vendor field names seen are reported as the upload's field mapping
+ * (mapped fields), unrecognized fields (stored in additional_data) and ignored fields.
+ * Hours are local to the user's timezone, so half-hour offsets (UTC+05:30) keep samples in
+ * their local hour and day.
+ * @param {Object} mapping - User overrides: vendor field -> standardized field, 'additional' or '' (ignore)
+ * @param {string} timezone - IANA timezone of zone-less vendor timestamps
+ */
+export const createRowCollector = (mapping = {}, timezone = DEFAULT_TIMEZONE) => {
+  const hours = new Map();
+  const fieldMapping = {};
+  const extraFields = new Set();
+  const ignoredFields = new Set();
+
+  // Where a vendor field goes: the user's override, else the importer's default
+  const targetFor = (vendorField, defaultTarget) =>
+    Object.prototype.hasOwnProperty.call(mapping, vendorField) ? mapping[vendorField] : defaultTarget;
+
+  const hourFor = (timestamp) => {
+    const date = parseTimestamp(timestamp, timezone);
+    if (!date) return null;
+    const offset = getTimezoneOffset(date, timezone);
+    const hourStart = Math.floor((date.getTime() + offset) / HOUR_MS) * HOUR_MS - offset;
+    if (!hours.has(hourStart)) {
+      hours.set(hourStart, { sums: {}, counts: {}, additional: {} });
+    }
+    return hours.get(hourStart);
+  };
+
+  return {
+    /**
+     * Add a value for a standardized field
+     * @param {string|Date} timestamp - When the value was measured
+     * @param {string} field - Key of FIELD_COLUMNS
+     * @param {*} value - Vendor value (ignored when not numeric)
+     * @param {string} vendorField - Name of the field in the export
+     */
+    add(timestamp, field, value, vendorField) {
+      const target = targetFor(vendorField, field);
+      if (target === IGNORE_TARGET) {
+        ignoredFields.add(vendorField);
+        return;
+      }
+      if (target === ADDITIONAL_TARGET) {
+        this.addExtra(timestamp, vendorField, value);
+        return;
+      }
+      const number = toNumber(value);
+      if (number === null) return;
+      const hour = hourFor(timestamp);
+      if (!hour) return;
+      hour.sums[target] = (hour.sums[target] || 0) + number;
+      hour.counts[target] = (hour.counts[target] || 0) + 1;
+      fieldMapping[vendorField] = target;
+    },
+
+    /**
+     * Keep a device-specific value in additional_data (the latest value in an hour wins)
+     */
+    addExtra(timestamp, key, value) {
+      const target = targetFor(key, ADDITIONAL_TARGET);
+      if (target === IGNORE_TARGET) {
+        ignoredFields.add(key);
+        return;
+      }
+      if (target !== ADDITIONAL_TARGET) {
+        this.add(timestamp, target, value, key);
+        return;
+      }
+      if (value === null || value === undefined || value === '') return;
+      const hour = hourFor(timestamp);
+      if (!hour) return;
+      const number = toNumber(value);
+      hour.additional[key] = number !== null && typeof value !== 'boolean' ? number : value;
+      extraFields.add(key);
+    },
+
+    /**
+     * Rows in the shape of streamWearableCSV, oldest first
+     */
+    result() {
+      const data = [...hours.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([hourStart, hour]) => {
+          const row = { timestamp: new Date(hourStart), additional_data: hour.additional };
+          for (const [field, column] of Object.entries(FIELD_COLUMNS)) {
+            row[column] = hour.counts[field]
+              ? Math.round((hour.sums[field] / hour.counts[field]) * 100) / 100
+              : null;
+          }
+          return row;
+        })
+        .filter(row => Object.values(FIELD_COLUMNS).some(column => row[column] !== null) ||
+          Object.keys(row.additional_data).length > 0);
+
+      return {
+        data,
+        fieldMapping,
+        unrecognizedFields: [...extraFields].filter(key => !fieldMapping[key]),
+        ignoredFields: [...ignoredFields]
+      };
+    }
+  };
+};
+
+/**
+ * Check whether a parsed JSON value is a non-empty array of objects with all the given keys
+ */
+export const isArrayOfRecordsWith = (json, keys) =>
+  Array.isArray(json) && json.length > 0 &&
+  json.some(item => item && typeof item === 'object' && keys.every(key => key in item));
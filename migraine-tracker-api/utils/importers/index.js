@@ -0,0 +1,329 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { streamWearableCSV, detectSeparator, detectSource } from '../csvParser.js';
+import { ouraImporter } from './ouraImporter.js';
+import { fitbitImporter } from './fitbitImporter.js';
+import { garminJsonImporter, garminFitImporter } from './garminImporter.js';
+import { appleHealthImporter } from './appleHealthImporter.js';
+import { whoopImporter } from './whoopImporter.js';
+import { FIELD_COLUMNS, ADDITIONAL_TARGET, IGNORE_TARGET } from './importerUtils.js';
+import { inferWearableUnits, convertWearableUnits } from '../wearableUnits.js';
+import { DEFAULT_TIMEZONE } from '../timezone.js';
+
+/**
+ * Wearable Importer Registry
+ * Each importer declares the file extensions it reads, a `matches(file)` signature check on the
+ * start of the file and a `parse(file)` that returns rows in the shape of streamWearableCSV
+ * (wearable_data columns plus additional_data). Importers whose rows can be produced one at a
+ * time declare `readRows(file)` instead, returning { rows: async iterable in file order,
+ * describe(): the field mapping so far }. Files are read from file.filePath: CSV and XML exports
+ * as a stream, JSON and FIT files whole (JSON files come parsed as file.json).
+ * Uploads are dispatched to the first vendor importer whose signature matches; CSV files no
+ * vendor claims fall back to the generic column-matching parser.
+ * A mapping (column or vendor field -> field, 'additional' or '' to ignore) overrides where
+ * values end up; only generic CSV files can map a column to the timestamp. Parsed values are
+ * converted to the units wearable_data expects (see wearableUnits.js), with the units inferred
+ * from the first UNIT_SAMPLE_ROWS rows so a file is converted the same way in the preview and the
+ * import. Timestamps without a zone are read in the user's timezone (file.timezone).
+ */
+
+const HEAD_BYTES = 4096;
+const GENERIC_CSV = 'generic_csv';
+
+// Rows the units of a file are inferred from
+export const UNIT_SAMPLE_ROWS = 1000;
+
+// Converted rows and value errors returned by a preview
+const PREVIEW_ROWS = 20;
+const PREVIEW_ERRORS = 50;
+
+// Fields a column can be mapped to, plus additional_data and ignore
+export const MAPPING_TARGETS = ['timestamp', ...Object.keys(FIELD_COLUMNS), ADDITIONAL_TARGET, IGNORE_TARGET];
+
+// Generic CSV: fuzzy column matching, vendor guessed from headers and filename
+const genericCsvImporter = {
+  id: GENERIC_CSV,
+  source: null,
+  label: 'CSV file',
+  description: 'Any CSV with a timestamp column; columns are matched by name (comma or semicolon separated)',
+  extensions: ['.csv', '.txt'],
+
+  matches: ({ extension }) => ['.csv', '.txt'].includes(extension),
+
+  readRows: ({ filePath, filename, head, mapping, timezone }) => {
+    const csv = streamWearableCSV(filePath, { separator: detectSeparator(head), mapping, timezone });
+    return {
+      rows: csv.rows,
+      describe: () => ({ ...csv.description, source: detectSource(Object.keys(csv.description.fieldMapping), filename) })
+    };
+  }
+};
+
+// Vendor importers are checked in order, the generic CSV parser last
+const IMPORTERS = [
+  ouraImporter,
+  fitbitImporter,
+  garminJsonImporter,
+  garminFitImporter,
+  appleHealthImporter,
+  whoopImporter
+];
+
+/**
+ * Register an additional importer (checked before the generic CSV fallback)
+ * @param {Object} importer - { id, source, label, description, extensions, matches, parse or readRows }
+ */
+export const registerImporter = (importer) => {
+  if (IMPORTERS.some(existing => existing.id === importer.id)) {
+    throw new Error(`Importer ${importer.id} is already registered`);
+  }
+  IMPORTERS.push(importer);
+};
+
+/**
+ * File extensions accepted by at least one importer
+ */
+export const getSupportedExtensions = () =>
+  [...new Set([...IMPORTERS, genericCsvImporter].flatMap(importer => importer.extensions))];
+
+/**
+ * Describe the registered importers for the upload page
+ */
+export const listImporters = () =>
+  [...IMPORTERS, genericCsvImporter].map(({ id, source, label, description, extensions }) => ({
+    id,
+    source,
+    label,
+    description,
+    extensions
+  }));
+
+/**
+ * Check whether an importer ID is registered
+ */
+export const isKnownImporter = (id) => listImporters().some(importer => importer.id === id);
+
+/**
+ * Validate a column mapping
+ * @param {Object} mapping - column -> target (see MAPPING_TARGETS)
+ * @returns {string|null} Error message or null
+ */
+export const validateFieldMapping = (mapping) => {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return 'mapping must be an object of column -> field';
+  }
+  for (const [column, target] of Object.entries(mapping)) {
+    if (!MAPPING_TARGETS.includes(target)) {
+      return `mapping for "${column}" must be one of ${MAPPING_TARGETS.filter(Boolean).join(', ')} or '' (ignore)`;
+    }
+  }
+  return null;
+};
+
+// First bytes of a file
+const readHead = async (filePath) => {
+  const handle = await fs.open(filePath);
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(HEAD_BYTES), 0, HEAD_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Build the file descriptor passed to importers
+ * JSON files are parsed once here so every importer can check their shape
+ */
+const describeFile = async (filePath, filename, mapping, timezone) => {
+  const extension = path.extname(filename || '').toLowerCase();
+  const headBuffer = await readHead(filePath);
+  const head = headBuffer.toString('utf-8').replace(/^\uFEFF/, '');
+  let json;
+  if (extension === '.json' || /^\s*[[{]/.test(head)) {
+    try {
+      json = JSON.parse((await fs.readFile(filePath, 'utf-8')).replace(/^\uFEFF/, ''));
+    } catch {
+      json = undefined;
+    }
+  }
+  return {
+    filePath,
+    filename: filename || '',
+    extension,
+    headBuffer,
+    head,
+    json,
+    mapping: mapping || {},
+    timezone: timezone || DEFAULT_TIMEZONE
+  };
+};
+
+// First vendor importer whose signature matches, then the generic CSV parser
+const findImporter = (file) =>
+  IMPORTERS.find(importer => importer.matches(file)) ||
+  (genericCsvImporter.matches(file) ? genericCsvImporter : null);
+
+/**
+ * Columns of a parsed file with where each one ends up (field, 'additional' or '')
+ * Generic CSV files keep their header order
+ */
+const describeColumns = (parsed) => {
+  const targets = {
+    ...Object.fromEntries(parsed.unrecognizedFields.map(name => [name, ADDITIONAL_TARGET])),
+    ...Object.fromEntries((parsed.ignoredFields || []).map(name => [name, IGNORE_TARGET])),
+    ...parsed.fieldMapping
+  };
+  const names = parsed.headers || Object.keys(targets);
+  return names.filter(name => name in targets).map(name => ({ name, target: targets[name] }));
+};
+
+// One pass through a file with its importer: { rows, describe } (see the registry comment)
+const readWithImporter = (importer, file) => {
+  if (importer.readRows) return importer.readRows(file);
+  let parsed = null;
+  async function* rows() {
+    parsed = await importer.parse(file);
+    yield* parsed.data;
+  }
+  return { rows: rows(), describe: () => parsed };
+};
+
+/**
+ * Open a stored wearable export with the importer that matches it
+ * Only the start of the file is read (JSON files whole); every read() goes through it again.
+ * @param {string} filePath - The stored file
+ * @param {string} filename - Original filename
+ * @param {Object} options - { mapping: column -> field | 'additional' | '', timezone: IANA timezone }
+ * @returns {Promise<Object>} { format, formatLabel, read } or { error } when the format is not
+ * recognized or the mapping doesn't fit it. read() returns { rows: async iterable of rows in file
+ * order, describe(): { columns, fieldMapping, unrecognizedFields, ignoredFields, source } of the
+ * rows read so far }
+ */
+export const openWearableFile = async (filePath, filename, options = {}) => {
+  const file = await describeFile(filePath, filename, options.mapping, options.timezone);
+  const importer = findImporter(file);
+
+  if (!importer) {
+    return {
+      error: `Unrecognized file format. Supported: ${listImporters().map(({ label }) => label).join(', ')}`
+    };
+  }
+  if (importer.id !== GENERIC_CSV && Object.values(file.mapping).includes('timestamp')) {
+    return { error: `Timestamps of ${importer.label} files are read by the importer and cannot be remapped` };
+  }
+
+  return {
+    format: importer.id,
+    formatLabel: importer.label,
+    read: () => {
+      const { rows, describe } = readWithImporter(importer, file);
+      return {
+        rows,
+        describe: () => {
+          const parsed = describe() || { fieldMapping: {}, unrecognizedFields: [] };
+          return {
+            columns: describeColumns(parsed),
+            fieldMapping: parsed.fieldMapping,
+            unrecognizedFields: parsed.unrecognizedFields,
+            ignoredFields: parsed.ignoredFields || [],
+            source: parsed.source || importer.source
+          };
+        }
+      };
+    }
+  };
+};
+
+/**
+ * Infer the units of a file from its first rows (see UNIT_SAMPLE_ROWS)
+ * @param {Array} sampleRows - The first rows of a read
+ * @param {Object} read - The read they come from (file.read())
+ * @param {Object} units - field -> unit overrides
+ */
+export const inferFileUnits = (sampleRows, read, units) =>
+  inferWearableUnits(sampleRows.slice(0, UNIT_SAMPLE_ROWS), { columns: read.describe().fieldMapping, units });
+
+/**
+ * Read rows in batches converted to the units wearable_data expects, as the file is read
+ * The first UNIT_SAMPLE_ROWS rows are held until the units are inferred from them, unless the
+ * units are given (an import that resumes converts the rest of the file like it started). Rows
+ * before `skip` are read past without being converted.
+ * @param {Object} read - A read of an opened file (file.read())
+ * @param {Object} options - { units: field -> unit overrides, fieldUnits: units to convert with, skip, batchSize }
+ * @yields {Object} { rows: converted rows (rows left without values are dropped), valueErrors,
+ * size: rows read into the batch, end: rows read so far, units }
+ */
+export async function* readWearableBatches(read, options = {}) {
+  const { skip = 0, batchSize = UNIT_SAMPLE_ROWS } = options;
+  let units = options.fieldUnits || null;
+  let pending = [];
+  let count = 0;
+
+  function* flush(final) {
+    if (!units) {
+      if (!final && pending.length < UNIT_SAMPLE_ROWS) return;
+      units = inferFileUnits(pending, read, options.units);
+    }
+    while (pending.length >= batchSize || (final && pending.length > 0)) {
+      const batch = pending.slice(0, batchSize);
+      pending = pending.slice(batchSize);
+      const { data, errors } = convertWearableUnits(batch, units);
+      yield { rows: data, valueErrors: errors, size: batch.length, end: count - pending.length, units };
+    }
+  }
+
+  for await (const row of read.rows) {
+    count++;
+    if (count <= skip) continue;
+    pending.push(row);
+    yield* flush(false);
+  }
+  yield* flush(true);
+}
+
+/**
+ * Preview a wearable export in one pass: where its columns end up, the units and the first rows
+ * @param {string} filePath - The stored file
+ * @param {string} filename - Original filename
+ * @param {Object} options - { mapping: column -> field | 'additional' | '', units: field -> unit, timezone: IANA timezone }
+ * @returns {Promise<Object>} { columns, fieldMapping, unrecognizedFields, ignoredFields, units,
+ * sampleRows (first converted rows), valueErrors (first rows with implausible values), invalidRows,
+ * totalRows, dateRange: { start, end } of the first and last row | null, source, format, formatLabel }
+ * or { error } (see openWearableFile)
+ */
+export const previewWearableFile = async (filePath, filename, options = {}) => {
+  const file = await openWearableFile(filePath, filename, options);
+  if (file.error) return file;
+
+  const read = file.read();
+  const sampleRows = [];
+  const valueErrors = [];
+  let units = {};
+  let invalidRows = 0;
+  let totalRows = 0;
+  let dateRange = null;
+
+  for await (const batch of readWearableBatches(read, { units: options.units })) {
+    units = batch.units;
+    invalidRows += batch.valueErrors.length;
+    valueErrors.push(...batch.valueErrors.slice(0, PREVIEW_ERRORS - valueErrors.length));
+    sampleRows.push(...batch.rows.slice(0, PREVIEW_ROWS - sampleRows.length));
+    totalRows += batch.rows.length;
+    if (batch.rows.length > 0) {
+      dateRange = { start: dateRange?.start || batch.rows[0].timestamp, end: batch.rows[batch.rows.length - 1].timestamp };
+    }
+  }
+
+  return {
+    ...read.describe(),
+    units,
+    sampleRows,
+    valueErrors,
+    invalidRows,
+    totalRows,
+    dateRange,
+    format: file.format,
+    formatLabel: file.formatLabel
+  };
+};
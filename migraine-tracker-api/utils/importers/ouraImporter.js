@@ -0,0 +1,68 @@
+import { createRowCollector } from './importerUtils.js';
+
+/**
+ * Oura JSON export importer
+ * Reads the account data export (Oura on the Web > Export data > JSON). Older exports use
+ * `summary_date` and v1 names (`rmssd`, `hr_average`, `temperature_delta`); newer ones follow
+ * the v2 API (`day`, `average_hrv`, `average_heart_rate`, `daily_readiness`, `heartrate`).
+ * Sleep metrics are stored at the hour the user woke up, daily readiness at local midnight of its
+ * day and heart rate samples per hour.
+ */
+
+const SLEEP_KEYS = ['sleep'];
+const READINESS_KEYS = ['readiness', 'daily_readiness'];
+const HEART_RATE_KEYS = ['heartrate', 'heart_rate'];
+
+const listOf = (json, keys) => keys.flatMap(key => (Array.isArray(json?.[key]) ? json[key] : []));
+
+export const ouraImporter = {
+  id: 'oura_json',
+  source: 'oura',
+  label: 'Oura export (JSON)',
+  description: 'Sleep, readiness and heart rate from the Oura account data export',
+  extensions: ['.json'],
+
+  matches: ({ json }) => {
+    if (!json || typeof json !== 'object' || Array.isArray(json)) return false;
+    const sleep = listOf(json, SLEEP_KEYS)[0];
+    return !!(sleep && ('bedtime_start' in sleep || 'bedtime_end' in sleep)) ||
+      listOf(json, READINESS_KEYS).some(item => 'score' in item && ('day' in item || 'summary_date' in item));
+  },
+
+  parse: async ({ json, mapping, timezone }) => {
+    const collector = createRowCollector(mapping, timezone);
+
+    for (const sleep of listOf(json, SLEEP_KEYS)) {
+      // Skip naps and rest periods in v2 exports
+      if (sleep.type && !['long_sleep', 'sleep'].includes(sleep.type)) continue;
+      const at = sleep.bedtime_end || sleep.day || sleep.summary_date;
+      collector.add(at, 'sleepEfficiency', sleep.efficiency, 'sleep.efficiency');
+      collector.add(at, 'hrv', sleep.average_hrv ?? sleep.rmssd, sleep.average_hrv !== undefined ? 'sleep.average_hrv' : 'sleep.rmssd');
+      collector.add(
+        at,
+        'sleepHeartRate',
+        sleep.average_heart_rate ?? sleep.hr_average,
+        sleep.average_heart_rate !== undefined ? 'sleep.average_heart_rate' : 'sleep.hr_average'
+      );
+      collector.add(at, 'restlessPeriods', sleep.restless_periods, 'sleep.restless_periods');
+      collector.addExtra(at, 'lowest_heart_rate', sleep.lowest_heart_rate ?? sleep.hr_lowest);
+      collector.addExtra(at, 'temperature_deviation', sleep.temperature_delta ?? sleep.readiness?.temperature_deviation);
+      collector.addExtra(at, 'average_breath', sleep.average_breath ?? sleep.breath_average);
+      collector.addExtra(at, 'total_sleep_duration', sleep.total_sleep_duration ?? sleep.total);
+    }
+
+    for (const readiness of listOf(json, READINESS_KEYS)) {
+      const at = readiness.day || readiness.summary_date;
+      collector.add(at, 'recovery', readiness.score, 'readiness.score');
+      collector.addExtra(at, 'temperature_deviation', readiness.temperature_deviation);
+    }
+
+    for (const sample of listOf(json, HEART_RATE_KEYS)) {
+      collector.add(sample.timestamp, 'heartRate', sample.bpm, 'heartrate.bpm');
+    }
+
+    return collector.result();
+  }
+};
+
+export default ouraImporter;
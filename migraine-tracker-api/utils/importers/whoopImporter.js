@@ -0,0 +1,70 @@
+import { readCSVRows, detectSeparator } from '../csvParser.js';
+import { createRowCollector, parseTimestamp } from './importerUtils.js';
+
+/**
+ * Whoop CSV importer
+ * Reads physiological_cycles.csv from the Whoop data export (App > Settings > Data export).
+ * One row per cycle (wake-up to wake-up) with recovery, HRV, resting heart rate, skin
+ * temperature and the sleep that ended the previous cycle. Times are local to the
+ * "Cycle timezone" column (e.g. UTC-05:00); rows are stored at the hour of wake onset.
+ */
+
+// Whoop column -> standardized field
+const COLUMN_FIELDS = {
+  'Recovery score %': 'recovery',
+  'Heart rate variability (ms)': 'hrv',
+  'Resting heart rate (bpm)': 'sleepHeartRate',
+  'Average HR (bpm)': 'heartRate',
+  'Skin temp (celsius)': 'skinTemperature',
+  'Sleep efficiency %': 'sleepEfficiency'
+};
+
+// Whoop column -> additional_data key
+const EXTRA_COLUMNS = {
+  'Day Strain': 'strain',
+  'Blood oxygen %': 'blood_oxygen',
+  'Respiratory rate (rpm)': 'respiratory_rate',
+  'Sleep performance %': 'sleep_performance',
+  'Asleep duration (min)': 'asleep_minutes',
+  'Awake duration (min)': 'awake_minutes',
+  'Sleep debt (min)': 'sleep_debt_minutes'
+};
+
+// '2024-03-01 06:45:12' in 'UTC-05:00' -> Date (the user's timezone when the row has none)
+const parseWhoopTime = (value, cycleTimezone, timezone) => {
+  if (!value) return null;
+  const offset = /^UTC([+-]\d{2}:\d{2})$/.exec(String(cycleTimezone || '').trim());
+  return parseTimestamp(offset ? `${value.trim().replace(' ', 'T')}${offset[1]}` : value, timezone);
+};
+
+export const whoopImporter = {
+  id: 'whoop_csv',
+  source: 'whoop',
+  label: 'Whoop export (CSV)',
+  description: 'physiological_cycles.csv from the Whoop data export',
+  extensions: ['.csv'],
+
+  matches: ({ head }) => {
+    const firstLine = head.split(/\r?\n/)[0] || '';
+    return firstLine.includes('Cycle start time') && firstLine.includes('Recovery score %');
+  },
+
+  parse: async ({ filePath, head, mapping, timezone }) => {
+    const collector = createRowCollector(mapping, timezone);
+
+    for await (const row of readCSVRows(filePath, detectSeparator(head))) {
+      const at = parseWhoopTime(row['Wake onset'] || row['Cycle start time'], row['Cycle timezone'], timezone);
+      if (!at) continue;
+      for (const [column, field] of Object.entries(COLUMN_FIELDS)) {
+        collector.add(at, field, row[column], column);
+      }
+      for (const [column, key] of Object.entries(EXTRA_COLUMNS)) {
+        collector.addExtra(at, key, row[column]);
+      }
+    }
+
+    return collector.result();
+  }
+};
+
+export default whoopImporter;
@@ -0,0 +1,168 @@
+import { query } from '../db/database.js';
+
+/**
+ * Job Runner
+ * In-process background job runner backed by the persistent jobs table. Jobs survive restarts:
+ * pending jobs are picked up by the next runner, and jobs left 'running' by a crashed process are
+ * released once their lock is older than STALE_LOCK_MINUTES (long jobs keep theirs fresh with
+ * touchJob). Failed jobs are retried with exponential backoff until max_attempts is reached.
+ */
+
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+const STALE_LOCK_MINUTES = 15;
+const RETRY_BASE_SECONDS = 60;
+
+/**
+ * Add a job to the queue
+ * @param {string} type - Handler name
+ * @param {Object} options
+ * @param {string} options.userId - Owning user (optional)
+ * @param {Object} options.payload - Handler input
+ * @param {Date} options.runAt - Earliest start time (default now)
+ * @param {string} options.dedupeKey - Jobs with the same key are only enqueued once
+ * @param {number} options.maxAttempts - Attempts before the job is marked failed
+ * @returns {Promise<string|null>} Job ID, or null when a job with the dedupe key already exists
+ */
+export const enqueueJob = async (type, { userId = null, payload = {}, runAt = new Date(), dedupeKey = null, maxAttempts = 3 } = {}) => {
+  const result = await query(
+    `INSERT INTO jobs (type, user_id, payload, run_at, dedupe_key, max_attempts)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (dedupe_key) DO NOTHING
+     RETURNING id`,
+    [type, userId, JSON.stringify(payload), runAt, dedupeKey, maxAttempts]
+  );
+  return result.rows[0]?.id || null;
+};
+
+/**
+ * Renew the lock of a running job so it isn't released as stale while it is still working
+ * @param {string} jobId - Job ID
+ */
+export const touchJob = async (jobId) => {
+  await query(
+    `UPDATE jobs SET locked_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND status = 'running'`,
+    [jobId]
+  );
+};
+
+/**
+ * Claim the next due job of a type this runner handles (SKIP LOCKED lets several runners share the table)
+ * @param {string[]} types - Job types with a handler
+ * @returns {Promise<Object|null>} Job row
+ */
+const claimNextJob = async (types) => {
+  const result = await query(
+    `UPDATE jobs
+     SET status = 'running', locked_at = CURRENT_TIMESTAMP, attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = (
+       SELECT id FROM jobs
+       WHERE status = 'pending' AND run_at <= CURRENT_TIMESTAMP AND type = ANY($1)
+       ORDER BY run_at
+       FOR UPDATE SKIP LOCKED
+       LIMIT 1
+     )
+     RETURNING *`,
+    [types]
+  );
+  return result.rows[0] || null;
+};
+
+/**
+ * Put jobs whose runner died mid-job back in the queue
+ * @returns {Promise<number>} Released job count
+ */
+const releaseStaleJobs = async () => {
+  const result = await query(
+    `UPDATE jobs
+     SET status = 'pending', locked_at = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE status = 'running' AND locked_at < CURRENT_TIMESTAMP - make_interval(mins => $1)`,
+    [STALE_LOCK_MINUTES]
+  );
+  return result.rowCount;
+};
+
+const completeJob = async (job, result) => {
+  await query(
+    `UPDATE jobs
+     SET status = 'completed', completed_at = CURRENT_TIMESTAMP, locked_at = NULL,
+         result = $2, last_error = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [job.id, result !== undefined ? JSON.stringify(result) : null]
+  );
+};
+
+const failJob = async (job, error) => {
+  const finalAttempt = job.attempts >= job.max_attempts;
+  const retryAt = new Date(Date.now() + RETRY_BASE_SECONDS * 1000 * 2 ** (job.attempts - 1));
+  await query(
+    `UPDATE jobs
+     SET status = $2, run_at = $3, locked_at = NULL, last_error = $4, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [job.id, finalAttempt ? 'failed' : 'pending', finalAttempt ? job.run_at : retryAt, error.message]
+  );
+};
+
+/**
+ * Start polling the jobs table
+ * @param {Object} options
+ * @param {Object} options.handlers - { [type]: async (job) => result }
+ * @param {Function} options.onTick - Called before each poll (e.g. to enqueue scheduled jobs)
+ * @param {number} options.intervalMs - Poll interval
+ * @returns {Object} Runner { stop(), runOnce() }; runOnce() during a run polls again once it ends,
+ * so jobs enqueued for immediate processing don't wait for the next interval
+ */
+export const startJobRunner = ({ handlers, onTick = null, intervalMs = DEFAULT_POLL_INTERVAL_MS }) => {
+  let timer = null;
+  let running = false;
+  let rerun = false;
+  let stopped = false;
+  const types = Object.keys(handlers);
+
+  const runOnce = async () => {
+    if (stopped) return;
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    rerun = false;
+    try {
+      const released = await releaseStaleJobs();
+      if (released > 0) {
+        console.warn(`Job runner: released ${released} stale job(s)`);
+      }
+
+      if (onTick) await onTick(new Date());
+
+      let job;
+      while (!stopped && (job = await claimNextJob(types))) {
+        const handler = handlers[job.type];
+        try {
+          const result = await handler(job);
+          await completeJob(job, result);
+        } catch (error) {
+          console.error(`Job ${job.type} (${job.id}) failed on attempt ${job.attempts}:`, error);
+          await failJob(job, error);
+        }
+      }
+    } catch (error) {
+      console.error('Job runner error:', error);
+    } finally {
+      running = false;
+      if (rerun && !stopped) setTimeout(runOnce, 0);
+    }
+  };
+
+  timer = setInterval(runOnce, intervalMs);
+  // Run shortly after startup to pick up work left by a previous process
+  setTimeout(runOnce, 1000);
+
+  return {
+    runOnce,
+    stop: () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+    }
+  };
+};
@@ -0,0 +1,334 @@
+import { query } from '../db/database.js';
+import { addDaysToKey, getUserTimezone, localDateSql, toDateColumnKey, toLocalDateKey } from './timezone.js';
+
+/**
+ * Lag windows for exposures: day offsets (relative to the outcome day) that count as exposed
+ */
+export const LIFESTYLE_LAGS = {
+  same_day: { label: 'Same day', offsets: [0] },
+  previous_day: { label: 'Previous day', offsets: [-1] },
+  within_48h: { label: 'Within 48 hours', offsets: [-1, 0] }
+};
+
+/**
+ * Binary exposures derived from daily check-in fields
+ * isExposed receives the (non-null) column value
+ */
+const CHECKIN_EXPOSURES = [
+  { key: 'caffeine', name: 'High Caffeine Intake', column: 'caffeine_servings', operator: '>=', threshold: 3, isExposed: v => v >= 3 },
+  { key: 'alcohol', name: 'Alcohol', column: 'alcohol_units', operator: '>', threshold: 0, isExposed: v => v > 0 },
+  { key: 'skipped_meals', name: 'Skipped Meals', column: 'skipped_meals', isExposed: v => v === true },
+  { key: 'short_sleep', name: 'Short Sleep', column: 'sleep_hours', operator: '<', threshold: 6, isExposed: v => v < 6 },
+  { key: 'menstruation', name: 'Menstruation', column: 'menstruation', isExposed: v => v === true },
+  { key: 'low_water', name: 'Low Water Intake', column: 'water_liters', operator: '<', threshold: 1.5, isExposed: v => v < 1.5 },
+  { key: 'screen_time', name: 'Long Screen Time', column: 'screen_time_hours', operator: '>=', threshold: 8, isExposed: v => v >= 8 },
+  { key: 'low_mood', name: 'Low Mood', column: 'mood', operator: '<=', threshold: 2, isExposed: v => v <= 2 }
+];
+
+// Minimum days per group (with the exposure known) before an odds ratio is reported
+const MIN_DAYS_PER_GROUP = 3;
+// Minimum exposed days across both groups
+const MIN_EXPOSED_DAYS = 2;
+
+const slugify = (value) => value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Odds ratio with a 95% confidence interval (Woolf's log method)
+ * Adds 0.5 to every cell when any cell is zero (Haldane-Anscombe correction)
+ * @param {Object} table - 2x2 counts
+ * @param {number} table.exposedMigraine - Exposed outcome days that were migraine days
+ * @param {number} table.exposedControl - Exposed outcome days that were headache-free
+ * @param {number} table.unexposedMigraine - Unexposed migraine days
+ * @param {number} table.unexposedControl - Unexposed headache-free days
+ * @returns {Object} oddsRatio, ciLower, ciUpper, standardError, continuityCorrected
+ */
+export const calculateOddsRatio = ({ exposedMigraine, exposedControl, unexposedMigraine, unexposedControl }) => {
+  const cells = [exposedMigraine, exposedControl, unexposedMigraine, unexposedControl];
+  const continuityCorrected = cells.some(count => count === 0);
+  const [a, b, c, d] = continuityCorrected ? cells.map(count => count + 0.5) : cells;
+
+  const oddsRatio = (a * d) / (b * c);
+  const standardError = Math.sqrt(1 / a + 1 / b + 1 / c + 1 / d);
+  const logOddsRatio = Math.log(oddsRatio);
+
+  return {
+    oddsRatio,
+    ciLower: Math.exp(logOddsRatio - 1.96 * standardError),
+    ciUpper: Math.exp(logOddsRatio + 1.96 * standardError),
+    standardError,
+    continuityCorrected
+  };
+};
+
+/**
+ * Confidence score (0.1-0.95) for an odds ratio, in line with the wearable pattern scores
+ * Driven by the number of migraine days, the precision of the estimate and whether the CI excludes 1
+ */
+const calculateOddsRatioConfidence = (migraineCount, standardError, ciExcludesOne) => {
+  if (migraineCount < MIN_DAYS_PER_GROUP) return 0.1;
+
+  const sampleSizeFactor = Math.min(1, (migraineCount - 2) / 28);
+  const precisionFactor = 1 / (1 + standardError);
+  const significanceFactor = ciExcludesOne ? 1 : 0.3;
+
+  const confidence = (
+    sampleSizeFactor * 0.35 +
+    precisionFactor * 0.30 +
+    significanceFactor * 0.35
+  );
+
+  return Math.max(0.1, Math.min(0.95, confidence));
+};
+
+/**
+ * Build the 2x2 table for one exposure and lag
+ * @param {Array<{date: string, isMigraine: boolean}>} outcomeDays - Migraine and confirmed headache-free days
+ * @param {Function} exposureOn - dateKey => true | false | null (unknown)
+ * @param {number[]} offsets - Day offsets making up the lag window
+ */
+const buildContingencyTable = (outcomeDays, exposureOn, offsets) => {
+  const table = { exposedMigraine: 0, exposedControl: 0, unexposedMigraine: 0, unexposedControl: 0 };
+
+  outcomeDays.forEach(({ date, isMigraine }) => {
+    const values = offsets.map(offset => exposureOn(addDaysToKey(date, offset)));
+    // Exposed if any day in the window was exposed; unexposed only if every day is known
+    const exposed = values.some(value => value === true)
+      ? true
+      : values.every(value => value === false) ? false : null;
+
+    if (exposed === null) return;
+    if (exposed) {
+      isMigraine ? table.exposedMigraine++ : table.exposedControl++;
+    } else {
+      isMigraine ? table.unexposedMigraine++ : table.unexposedControl++;
+    }
+  });
+
+  return table;
+};
+
+/**
+ * Analyze one exposure across all lag windows and keep the lag with the strongest evidence
+ * @returns {Object|null} Pattern in the migraine_correlations shape, or null if not enough data
+ */
+const analyzeExposure = (outcomeDays, exposureOn, exposure) => {
+  const lagResults = [];
+
+  for (const [lag, { label, offsets }] of Object.entries(LIFESTYLE_LAGS)) {
+    const table = buildContingencyTable(outcomeDays, exposureOn, offsets);
+    const migraineDays = table.exposedMigraine + table.unexposedMigraine;
+    const controlDays = table.exposedControl + table.unexposedControl;
+    const exposedDays = table.exposedMigraine + table.exposedControl;
+
+    if (migraineDays < MIN_DAYS_PER_GROUP || controlDays < MIN_DAYS_PER_GROUP || exposedDays < MIN_EXPOSED_DAYS) {
+      continue;
+    }
+
+    const result = calculateOddsRatio(table);
+    lagResults.push({
+      lag,
+      lagLabel: label,
+      ...result,
+      ...table,
+      migraineDays,
+      controlDays,
+      // |log OR| / SE - used to pick the best-supported lag
+      zScore: Math.abs(Math.log(result.oddsRatio)) / result.standardError
+    });
+  }
+
+  if (lagResults.length === 0) return null;
+
+  const best = lagResults.reduce((a, b) => (b.zScore > a.zScore ? b : a));
+
+  // Yule's Q maps the odds ratio onto the -1..1 correlation scale used by the other patterns
+  const correlation = (best.oddsRatio - 1) / (best.oddsRatio + 1);
+  if (Math.abs(correlation) <= 0.1) return null;
+
+  const ciExcludesOne = best.ciLower > 1 || best.ciUpper < 1;
+  let confidence = calculateOddsRatioConfidence(best.migraineDays, best.standardError, ciExcludesOne);
+  // Trigger tags are only logged with attacks, so their absence on headache-free days is assumed
+  if (exposure.source === 'trigger_tag') {
+    confidence = Math.min(confidence, 0.5);
+  }
+
+  console.log(`Lifestyle analysis: ${exposure.patternType} lag=${best.lag} OR=${best.oddsRatio.toFixed(2)} CI=[${best.ciLower.toFixed(2)}, ${best.ciUpper.toFixed(2)}] Q=${correlation.toFixed(3)} confidence=${confidence.toFixed(3)}`);
+
+  return {
+    patternType: exposure.patternType,
+    patternName: exposure.patternName.slice(0, 100),
+    patternDefinition: {
+      kind: 'odds_ratio',
+      source: exposure.source,
+      exposure: exposure.exposure,
+      metric: exposure.metric,
+      operator: exposure.operator,
+      threshold: exposure.threshold,
+      lag: best.lag,
+      lagLabel: best.lagLabel,
+      oddsRatio: best.oddsRatio,
+      ciLower: best.ciLower,
+      ciUpper: best.ciUpper,
+      continuityCorrected: best.continuityCorrected,
+      counts: {
+        exposedMigraine: best.exposedMigraine,
+        exposedControl: best.exposedControl,
+        unexposedMigraine: best.unexposedMigraine,
+        unexposedControl: best.unexposedControl
+      },
+      lags: lagResults.map(result => ({
+        lag: result.lag,
+        lagLabel: result.lagLabel,
+        oddsRatio: result.oddsRatio,
+        ciLower: result.ciLower,
+        ciUpper: result.ciUpper,
+        migraineDays: result.migraineDays,
+        controlDays: result.controlDays
+      }))
+    },
+    correlationStrength: correlation,
+    confidenceScore: confidence,
+    migraineDaysCount: best.migraineDays,
+    totalDaysAnalyzed: best.migraineDays + best.controlDays,
+    // Share of days exposed (percent) on migraine and headache-free days
+    avgValueOnMigraineDays: (best.exposedMigraine / best.migraineDays) * 100,
+    avgValueOnNormalDays: (best.exposedControl / best.controlDays) * 100,
+    thresholdValue: exposure.threshold ?? null
+  };
+};
+
+/**
+ * Analyze self-reported lifestyle factors and trigger tags against migraine days
+ * Outcome days match the wearable analysis: migraine_day_markers vs days confirmed headache-free
+ * in a daily check-in. Each exposure is tested on the same day, the previous day and the 48h window.
+ * @param {string} userId - User ID
+ * @param {Object} options
+ * @param {Date} options.before - Only use days before this date (what was known at that time)
+ * @returns {Promise<Object>} Analysis results with odds ratio patterns
+ */
+export const analyzeLifestyleCorrelations = async (userId, { before = null } = {}) => {
+  const timezone = await getUserTimezone(userId);
+  const params = before ? [userId, toLocalDateKey(before, timezone)] : [userId];
+  // Episodes belong to the local day they started on
+  const entryParams = [...params, timezone];
+  const entryDate = (column) => localDateSql(column, `$${entryParams.length}`);
+
+  const migraineDaysResult = await query(
+    `SELECT date
+     FROM migraine_day_markers
+     WHERE user_id = $1 AND is_migraine_day = true
+       ${before ? 'AND date < $2' : ''}`,
+    params
+  );
+
+  const checkinsResult = await query(
+    `SELECT date, had_headache, sleep_hours, caffeine_servings, alcohol_units,
+            menstruation, skipped_meals, mood, water_liters, screen_time_hours
+     FROM daily_checkins
+     WHERE user_id = $1
+       ${before ? 'AND date < $2' : ''}`,
+    params
+  );
+
+  // Trigger tags by the day the episode started
+  const triggerTagsResult = await query(
+    `SELECT ${entryDate('e.start_time')} as date, t.id as term_id, t.name
+     FROM migraine_entries e
+     JOIN migraine_entry_terms et ON et.migraine_entry_id = e.id
+     JOIN vocabulary_terms t ON t.id = et.term_id
+     WHERE e.user_id = $1 AND t.kind = 'trigger'
+       ${before ? `AND ${entryDate('e.start_time')} < $2` : ''}`,
+    entryParams
+  );
+
+  const entryDaysResult = await query(
+    `SELECT DISTINCT ${entryDate('start_time')} as date
+     FROM migraine_entries
+     WHERE user_id = $1
+       ${before ? `AND ${entryDate('start_time')} < $2` : ''}`,
+    entryParams
+  );
+
+  const migraineDays = new Set(migraineDaysResult.rows.map(row => toDateColumnKey(row.date)));
+  const checkins = new Map(checkinsResult.rows.map(row => [toDateColumnKey(row.date), row]));
+
+  // Outcome days: marked migraine days, plus check-ins confirming a headache-free day
+  const outcomeDays = [...migraineDays].map(date => ({ date, isMigraine: true }));
+  checkins.forEach((row, date) => {
+    if (row.had_headache === false && !migraineDays.has(date)) {
+      outcomeDays.push({ date, isMigraine: false });
+    }
+  });
+
+  const migraineDaysCount = outcomeDays.filter(day => day.isMigraine).length;
+  const controlDaysCount = outcomeDays.length - migraineDaysCount;
+
+  if (migraineDaysCount === 0 || controlDaysCount === 0) {
+    return {
+      patterns: [],
+      migraineDaysCount,
+      controlDaysCount
+    };
+  }
+
+  const patterns = [];
+
+  // Check-in exposures are unknown on days without a check-in or with the field left empty
+  CHECKIN_EXPOSURES.forEach(({ key, name, column, operator, threshold, isExposed }) => {
+    const exposureOn = (date) => {
+      const row = checkins.get(date);
+      if (!row || row[column] === null || row[column] === undefined) return null;
+      const value = typeof row[column] === 'boolean' ? row[column] : parseFloat(row[column]);
+      return isExposed(value);
+    };
+
+    const pattern = analyzeExposure(outcomeDays, exposureOn, {
+      patternType: `lifestyle_${key}`,
+      patternName: operator ? `${name} (${operator} ${threshold})` : name,
+      source: 'checkin',
+      exposure: key,
+      metric: column,
+      operator,
+      threshold
+    });
+    if (pattern) patterns.push(pattern);
+  });
+
+  // Trigger tags: known absent on any recorded day (marker, episode or check-in) without the tag
+  const recordedDays = new Set([
+    ...migraineDays,
+    ...checkins.keys(),
+    ...entryDaysResult.rows.map(row => toDateColumnKey(row.date))
+  ]);
+
+  const tagDays = new Map();
+  triggerTagsResult.rows.forEach(row => {
+    if (!tagDays.has(row.term_id)) {
+      tagDays.set(row.term_id, { name: row.name, days: new Set() });
+    }
+    tagDays.get(row.term_id).days.add(toDateColumnKey(row.date));
+  });
+
+  const usedTypes = new Set();
+  tagDays.forEach(({ name, days }) => {
+    const patternType = `trigger_${slugify(name)}`.slice(0, 50);
+    if (usedTypes.has(patternType)) return;
+    usedTypes.add(patternType);
+
+    const exposureOn = (date) => (days.has(date) ? true : recordedDays.has(date) ? false : null);
+
+    const pattern = analyzeExposure(outcomeDays, exposureOn, {
+      patternType,
+      patternName: `Trigger: ${name}`,
+      source: 'trigger_tag',
+      exposure: name
+    });
+    if (pattern) patterns.push(pattern);
+  });
+
+  return {
+    patterns,
+    migraineDaysCount,
+    controlDaysCount
+  };
+};
@@ -0,0 +1,200 @@
+/**
+ * LLM Providers
+ * Server-side chat completion clients for the AI risk analysis. The provider is chosen with
+ * LLM_PROVIDER and configured through environment variables, so API keys never reach the browser.
+ *
+ * Providers:
+ * - digitalocean: DigitalOcean AI agent (DO_AI_AGENT_URL, DO_AI_AGENT_API_KEY)
+ * - openai: any OpenAI-compatible chat completions API (OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL)
+ * - ollama: local Ollama-style /api/chat endpoint (OLLAMA_BASE_URL, OLLAMA_MODEL)
+ * - mock: canned response for tests and offline development (LLM_MOCK_RESPONSE overrides the text).
+ *   Chat requests (those passing tools) get a deterministic tool call, then an answer naming the result.
+ */
+
+const DEFAULT_DO_AI_AGENT_URL = 'https://lerrqtyr45trfkm5hhmzek2y.agents.do-ai.run/api/v1/chat/completions';
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/**
+ * Create an error carrying a code the routes map to an HTTP status
+ * LLM_NOT_CONFIGURED -> 503, LLM_REQUEST_FAILED -> 502
+ */
+const providerError = (message, code) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+/**
+ * POST JSON and return the parsed response, failing on non-2xx statuses and timeouts
+ */
+const postJson = async (url, body, headers, timeoutMs) => {
+  let response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+  } catch (error) {
+    throw providerError(`LLM request failed: ${error.message}`, 'LLM_REQUEST_FAILED');
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw providerError(`LLM provider returned ${response.status}: ${errorText.substring(0, 500)}`, 'LLM_REQUEST_FAILED');
+  }
+
+  return response.json();
+};
+
+/**
+ * Extract the assistant text from an OpenAI-compatible (or loosely compatible) response
+ */
+const extractChatText = (data) => {
+  if (data?.choices?.length > 0 && data.choices[0].message) {
+    return data.choices[0].message.content;
+  }
+  if (data?.message?.content) return data.message.content;
+  if (data?.content) return data.content;
+  if (typeof data === 'string') return data;
+  return JSON.stringify(data);
+};
+
+const createOpenAICompatibleProvider = ({ name, url, apiKey, model, timeoutMs }) => ({
+  name,
+  model: model || null,
+  isConfigured: () => !!apiKey,
+  complete: async ({ messages, temperature = 0.7 }) => {
+    if (!apiKey) {
+      throw providerError(`The ${name} provider has no API key configured on the server`, 'LLM_NOT_CONFIGURED');
+    }
+    const body = { messages, temperature };
+    if (model) body.model = model;
+    const data = await postJson(url, body, { Authorization: `Bearer ${apiKey}` }, timeoutMs);
+    return extractChatText(data);
+  }
+});
+
+const createOllamaProvider = ({ baseUrl, model, timeoutMs }) => ({
+  name: 'ollama',
+  model,
+  isConfigured: () => true,
+  complete: async ({ messages, temperature = 0.7 }) => {
+    const data = await postJson(
+      `${baseUrl.replace(/\/$/, '')}/api/chat`,
+      { model, messages, stream: false, options: { temperature } },
+      {},
+      timeoutMs
+    );
+    return extractChatText(data);
+  }
+});
+
+/**
+ * Deterministic chat reply for the mock provider
+ * Picks one tool from keywords in the question, then answers once the tool result comes back
+ */
+const mockChatReply = (messages, tools) => {
+  const last = messages[messages.length - 1]?.content || '';
+  const toolResult = last.match(/^Tool result \((\w+)\):\n([\s\S]*)$/);
+  if (toolResult) {
+    let records = 0;
+    try {
+      const data = JSON.parse(toolResult[2]);
+      records = Object.values(data).find(Array.isArray)?.length ?? 0;
+    } catch {
+      // Truncated results are not valid JSON; report no count
+    }
+    return `Mock answer: the ${toolResult[1]} tool returned ${records} records. This response comes from the mock LLM provider (LLM_PROVIDER=mock).`;
+  }
+
+  const question = last.toLowerCase();
+  const toolName =
+    question.includes('before') ? 'get_days_before_migraines'
+      : /pattern|correlat|trigger/.test(question) ? 'get_correlation_patterns'
+        : /sleep|stress|hrv|recovery/.test(question) ? 'get_daily_summaries'
+          : /wearable|heart/.test(question) ? 'get_wearable_data'
+            : 'list_migraines';
+  if (!tools.some(tool => tool.name === toolName)) {
+    return 'Mock answer: no matching tool is available.';
+  }
+
+  const today = new Date();
+  const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
+  const dayAgo = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+  const argumentsByTool = {
+    list_migraines: { limit: 5 },
+    get_days_before_migraines: { count: 3, daysBefore: 2 },
+    get_correlation_patterns: { limit: 5 },
+    get_daily_summaries: { startDate: weekAgo.toISOString().split('T')[0], endDate: today.toISOString().split('T')[0] },
+    get_wearable_data: { start: dayAgo.toISOString(), end: today.toISOString() }
+  };
+  return JSON.stringify({ tool: toolName, arguments: argumentsByTool[toolName] });
+};
+
+/**
+ * Mock provider: returns a fixed, well-formed analysis so the full flow can run without a model
+ * A custom response (e.g. malformed output to exercise validation) can be set with LLM_MOCK_RESPONSE;
+ * chat turns offering tools always get the scripted mockChatReply
+ */
+const createMockProvider = ({ response }) => ({
+  name: 'mock',
+  model: 'mock',
+  isConfigured: () => true,
+  complete: async ({ messages = [], tools } = {}) => tools ? mockChatReply(messages, tools) : response ?? [
+    '```json',
+    JSON.stringify({
+      riskLevel: 35,
+      riskCategory: 'Moderate',
+      keyRiskFactors: ['Mock factor: stress above baseline', 'Mock factor: shorter sleep'],
+      recommendations: ['Mock recommendation: take regular breaks', 'Mock recommendation: go to bed early'],
+      trendAnalysis: 'Mock trend analysis generated without calling a language model.',
+      confidenceLevel: 'Low'
+    }, null, 2),
+    '```',
+    '',
+    '**Risk Level:** 35%',
+    '',
+    'This response comes from the mock LLM provider (LLM_PROVIDER=mock).'
+  ].join('\n')
+});
+
+/**
+ * Create the provider selected by the environment
+ * @param {Object} env - Environment variables (defaults to process.env)
+ * @returns {Object} Provider { name, model, isConfigured(), complete({ messages, temperature, tools }) }
+ */
+export const createLlmProvider = (env = process.env) => {
+  const providerName = (env.LLM_PROVIDER || 'digitalocean').toLowerCase();
+  const timeoutMs = parseInt(env.LLM_TIMEOUT_MS || String(DEFAULT_TIMEOUT_MS));
+
+  switch (providerName) {
+    case 'digitalocean':
+      return createOpenAICompatibleProvider({
+        name: 'digitalocean',
+        url: env.DO_AI_AGENT_URL || DEFAULT_DO_AI_AGENT_URL,
+        apiKey: env.DO_AI_AGENT_API_KEY,
+        model: null,
+        timeoutMs
+      });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        name: 'openai',
+        url: `${(env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '')}/chat/completions`,
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL || 'gpt-4o-mini',
+        timeoutMs
+      });
+    case 'ollama':
+      return createOllamaProvider({
+        baseUrl: env.OLLAMA_BASE_URL || 'http://localhost:11434',
+        model: env.OLLAMA_MODEL || 'llama3.1',
+        timeoutMs
+      });
+    case 'mock':
+      return createMockProvider({ response: env.LLM_MOCK_RESPONSE });
+    default:
+      throw providerError(`Unknown LLM_PROVIDER "${providerName}" (expected digitalocean, openai, ollama or mock)`, 'LLM_NOT_CONFIGURED');
+  }
+};
@@ -0,0 +1,507 @@
+import { query } from '../db/database.js';
+import {
+  BASELINE_METRICS,
+  BASELINE_WINDOW_DAYS,
+  buildBaselineFromDailyRows,
+  compareToBaseline
+} from './personalBaseline.js';
+import { addDaysToKey, getUserTimezone, localDateSql, toDateColumnKey, toLocalDateKey } from './timezone.js';
+import { DEFAULT_FORECAST_HORIZON_HOURS } from './forecastEvaluator.js';
+
+/**
+ * Local Risk Engine
+ * Deterministic, offline alternative to the remote AI agent. A small logistic model is fit per
+ * user on historical migraine days vs confirmed headache-free days and applied to the last
+ * 24 hours of wearable data. The model gives the chance that the coming day is a migraine day;
+ * that daily hazard is scaled to the requested forecast horizon. The result has the same shape as
+ * a parsed AI response, plus the per-factor contributions (in log-odds) that explain the score.
+ */
+
+// Each class needs this many labelled days before a personal model is fit
+export const MIN_TRAINING_DAYS_PER_CLASS = 5;
+// L2 penalty and gradient descent settings (fixed so the same data always gives the same score)
+const L2_PENALTY = 1;
+const LEARNING_RATE = 0.1;
+const ITERATIONS = 500;
+// Robust z-scores are clipped so a single extreme day cannot dominate the fit
+const Z_CLIP = 4;
+// Weights used when there is not enough labelled history to fit a model
+const PRIOR_BASELINE_WEIGHT = 0.35;
+const PRIOR_PATTERN_WEIGHT = 1;
+// Daily migraine probability assumed when neither markers nor the profile give a frequency
+const DEFAULT_BASE_RATE = 0.1;
+const MIN_RECENT_DATA_POINTS = 12;
+
+const RECOMMENDATIONS = {
+  high_stress: 'Plan short breaks and a relaxation or breathing exercise over the next few hours',
+  stress_spike: 'Keep the rest of the day predictable and avoid stacking stressful tasks',
+  stress_volatility: 'Keep the rest of the day predictable and avoid stacking stressful tasks',
+  low_recovery: 'Keep activity light today and skip intense exercise',
+  low_hrv: 'Prioritize rest; low HRV suggests your body is under strain',
+  high_resting_heart_rate: 'Stay well hydrated and go easy on caffeine and alcohol',
+  poor_sleep: 'Aim for an early, regular bedtime tonight',
+  restless_sleep: 'Keep the bedroom cool and dark and avoid screens before bed',
+  skin_temperature_deviation: 'Watch for signs of illness or hormonal changes and stay hydrated'
+};
+
+const sigmoid = (x) => 1 / (1 + Math.exp(-x));
+const logit = (p) => Math.log(p / (1 - p));
+const round = (value, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+const compare = (value, operator, threshold) => {
+  if (value === null || value === undefined) return false;
+  if (operator === '>') return value > threshold;
+  if (operator === '<') return value < threshold;
+  if (operator === '>=') return value >= threshold;
+  if (operator === '<=') return value <= threshold;
+  return false;
+};
+
+/**
+ * Aggregate readings (API format) into one row keyed like the daily SQL aggregates
+ * @param {Array} wearableData - Readings with stress, recovery, hrv, heartRate, ...
+ * @returns {Object} { avg_stress, max_stress, stress_volatility, ... }
+ */
+const aggregateReadings = (wearableData) => {
+  const values = (field) => (wearableData || [])
+    .map(entry => entry[field])
+    .filter(value => value !== null && value !== undefined);
+  const avg = (arr) => (arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : null);
+  const stdDev = (arr) => {
+    if (arr.length === 0) return null;
+    const mean = avg(arr);
+    return Math.sqrt(avg(arr.map(v => Math.pow(v - mean, 2))));
+  };
+
+  const stress = values('stress');
+  const heartRates = values('heartRate');
+
+  return {
+    avg_stress: avg(stress),
+    max_stress: stress.length > 0 ? Math.max(...stress) : null,
+    stress_volatility: stdDev(stress),
+    avg_recovery: avg(values('recovery')),
+    avg_hrv: avg(values('hrv')),
+    resting_heart_rate: heartRates.length > 0 ? Math.min(...heartRates) : null,
+    avg_sleep_efficiency: avg(values('sleepEfficiency')),
+    avg_restless_periods: avg(values('restlessPeriods')),
+    avg_skin_temp: avg(values('skinTemperature'))
+  };
+};
+
+/**
+ * Wearable threshold patterns from migraine_correlations that can be evaluated on a day's aggregates
+ * (odds ratio patterns describe check-ins and trigger tags, which the last 24h of readings do not cover)
+ */
+const getThresholdPatterns = (patterns) => {
+  const seen = new Set();
+  return (patterns || []).filter(pattern => {
+    const definition = pattern.patternDefinition;
+    if (!definition || definition.kind === 'odds_ratio') return false;
+    if (!definition.metric || !definition.operator || definition.threshold === undefined) return false;
+    if (seen.has(pattern.patternType)) return false;
+    seen.add(pattern.patternType);
+    return true;
+  });
+};
+
+/**
+ * Describe the feature set: one robust z-score per baseline metric and one indicator per pattern
+ * z-scores are signed so that positive always points in the migraine-risk direction
+ */
+const buildFeatureSpecs = (thresholdPatterns) => [
+  ...BASELINE_METRICS.map(metric => ({
+    id: `baseline_${metric.key}`,
+    kind: 'baseline',
+    label: metric.label,
+    riskType: metric.riskType,
+    metric
+  })),
+  ...thresholdPatterns.map(pattern => ({
+    id: `pattern_${pattern.patternType}`,
+    kind: 'pattern',
+    label: pattern.patternName,
+    riskType: pattern.patternType,
+    pattern,
+    lag: pattern.patternDefinition.lag ?? 0,
+    confidence: pattern.confidenceScore ?? 0.5
+  }))
+];
+
+/**
+ * Compute feature values
+ * @param {Array} specs - Result of buildFeatureSpecs
+ * @param {Object|null} baselineRow - Aggregates compared with the baseline
+ * @param {Object} baseline - Personal baseline valid before baselineRow
+ * @param {Function} patternRowFor - Returns the aggregates a pattern is evaluated on
+ * @returns {{ values: Array<number>, deviations: Array }}
+ */
+const computeFeatures = (specs, baselineRow, baseline, patternRowFor) => {
+  const metrics = Object.fromEntries(
+    BASELINE_METRICS.map(({ key, column }) => [key, baselineRow?.[column] ?? null])
+  );
+  const deviations = baselineRow ? compareToBaseline(metrics, baseline) : [];
+  const deviationByMetric = new Map(deviations.map(d => [d.metric, d]));
+
+  const values = specs.map(spec => {
+    if (spec.kind === 'baseline') {
+      const deviation = deviationByMetric.get(spec.metric.key);
+      if (!deviation) return 0;
+      const z = Math.max(-Z_CLIP, Math.min(Z_CLIP, deviation.zScore));
+      if (spec.metric.riskDirection === 'both') return Math.abs(z);
+      return spec.metric.riskDirection === 'low' ? -z : z;
+    }
+
+    const row = patternRowFor(spec);
+    const { metric, operator, threshold } = spec.pattern.patternDefinition;
+    return compare(row?.[metric], operator, threshold) ? 1 : 0;
+  });
+
+  return { values, deviations };
+};
+
+/**
+ * Fit an L2-regularized logistic regression with batch gradient descent
+ * Starts from zero weights, so the fit is fully deterministic
+ * @param {Array<Array<number>>} X - Feature rows
+ * @param {Array<number>} y - Labels (1 = migraine day, 0 = headache-free day)
+ * @returns {{ intercept: number, weights: Array<number> }}
+ */
+export const fitLogisticRegression = (X, y) => {
+  const n = X.length;
+  const featureCount = X[0]?.length || 0;
+  const weights = new Array(featureCount).fill(0);
+  let intercept = 0;
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const gradient = new Array(featureCount).fill(0);
+    let interceptGradient = 0;
+
+    for (let i = 0; i < n; i++) {
+      const z = X[i].reduce((sum, x, j) => sum + x * weights[j], intercept);
+      const error = sigmoid(z) - y[i];
+      interceptGradient += error;
+      for (let j = 0; j < featureCount; j++) gradient[j] += error * X[i][j];
+    }
+
+    intercept -= LEARNING_RATE * (interceptGradient / n);
+    for (let j = 0; j < featureCount; j++) {
+      weights[j] -= LEARNING_RATE * ((gradient[j] + L2_PENALTY * weights[j]) / n);
+    }
+  }
+
+  return { intercept, weights };
+};
+
+/**
+ * Estimate how likely any given day is a migraine day for this user
+ * Uses recorded migraine days over the last 90 days when there are enough of them,
+ * otherwise the profile's monthly frequency, otherwise DEFAULT_BASE_RATE
+ */
+const estimateBaseRate = (migraineDays, profile, now, timezone) => {
+  const windowStart = addDaysToKey(toLocalDateKey(now, timezone), -90);
+  const recent = [...migraineDays].filter(date => date >= windowStart);
+  let rate = DEFAULT_BASE_RATE;
+  let source = 'default';
+
+  if (recent.length >= 3) {
+    const firstRecorded = [...migraineDays].sort()[0];
+    const span = Math.min(90, Math.max(30, (now - new Date(`${firstRecorded}T00:00:00Z`)) / (24 * 60 * 60 * 1000)));
+    rate = recent.length / span;
+    source = 'recorded_migraine_days';
+  } else if (profile?.monthly_frequency) {
+    rate = parseFloat(profile.monthly_frequency) / 30.4;
+    source = 'profile_frequency';
+  }
+
+  return { rate: Math.max(0.02, Math.min(0.6, rate)), source };
+};
+
+const categorize = (riskLevel) => {
+  if (riskLevel >= 75) return 'Very High';
+  if (riskLevel >= 50) return 'High';
+  if (riskLevel >= 25) return 'Moderate';
+  return 'Low';
+};
+
+/**
+ * Scale the model's daily migraine probability to a forecast horizon
+ * Assumes a constant hazard over the day: P(horizon) = 1 - (1 - P(day))^(hours / 24)
+ * @param {number} dailyProbability - Chance that the coming day is a migraine day (0-1)
+ * @param {number} horizonHours - Hours ahead
+ * @returns {Object} { probability, riskLevel, riskCategory }
+ */
+export const projectDailyRisk = (dailyProbability, horizonHours) => {
+  const probability = 1 - (1 - dailyProbability) ** (horizonHours / 24);
+  const riskLevel = Math.max(1, Math.min(100, Math.round(probability * 100)));
+  return { probability, riskLevel, riskCategory: categorize(riskLevel) };
+};
+
+const describeFactor = (spec, value, deviation) => {
+  if (spec.kind === 'baseline') {
+    const position = deviation.direction === 'high' ? 'above' : 'below';
+    return `${spec.label} ${deviation.value.toFixed(1)} is ${Math.abs(deviation.zScore).toFixed(1)} MADs ${position} your baseline (median ${deviation.median.toFixed(1)})`;
+  }
+  const { operator, threshold } = spec.pattern.patternDefinition;
+  return value === 1
+    ? `${spec.label} pattern matched (${operator} ${threshold.toFixed(1)})`
+    : `${spec.label} pattern not matched`;
+};
+
+/**
+ * Compute a deterministic migraine risk score for the coming hours
+ * @param {string} userId - User ID
+ * @param {Array} wearableData - Last 24 hours of readings in API format (real or simulated)
+ * @param {Object} options
+ * @param {Date} options.now - End of the recent window
+ * @param {number} options.horizonHours - Hours ahead the score covers
+ * @param {boolean} options.isSimulated - Whether the readings are simulated
+ * @param {Array} options.patterns - Correlation patterns to use instead of the stored ones
+ * @param {boolean} options.pointInTime - Only train on migraine days and check-ins before the date of `now`
+ *   (used for backtesting, so later outcomes cannot leak into past predictions)
+ * @returns {Promise<Object>} AI response shape ({ riskLevel, riskCategory, keyRiskFactors, trendAnalysis,
+ *   recommendations, confidenceLevel, fullAnalysis }) plus factors and model details
+ */
+export const calculateLocalRisk = async (
+  userId,
+  wearableData,
+  {
+    now = new Date(),
+    horizonHours = DEFAULT_FORECAST_HORIZON_HOURS,
+    isSimulated = false,
+    patterns: knownPatterns = null,
+    pointInTime = false
+  } = {}
+) => {
+  const recentStart = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const timezone = await getUserTimezone(userId);
+  const labelParams = pointInTime ? [userId, toLocalDateKey(now, timezone)] : [userId];
+
+  // Daily aggregates (per local day) before the recent window (history for training and the baseline)
+  const dailyResult = await query(
+    `SELECT ${localDateSql('timestamp', '$3')} as date,
+            AVG(stress_value) as avg_stress,
+            MAX(stress_value) as max_stress,
+            STDDEV_POP(stress_value) as stress_volatility,
+            AVG(recovery_value) as avg_recovery,
+            AVG(hrv) as avg_hrv,
+            MIN(heart_rate) as resting_heart_rate,
+            AVG(sleep_efficiency) as avg_sleep_efficiency,
+            AVG(restless_periods) as avg_restless_periods,
+            AVG(skin_temperature) as avg_skin_temp
+     FROM wearable_data
+     WHERE user_id = $1 AND timestamp < $2
+     GROUP BY ${localDateSql('timestamp', '$3')}
+     ORDER BY ${localDateSql('timestamp', '$3')}`,
+    [userId, recentStart, timezone]
+  );
+
+  const migraineResult = await query(
+    `SELECT date FROM migraine_day_markers
+     WHERE user_id = $1 AND is_migraine_day = true ${pointInTime ? 'AND date < $2' : ''}`,
+    labelParams
+  );
+
+  const headacheFreeResult = await query(
+    `SELECT date FROM daily_checkins
+     WHERE user_id = $1 AND had_headache = false ${pointInTime ? 'AND date < $2' : ''}`,
+    labelParams
+  );
+
+  const correlationsResult = knownPatterns ? null : await query(
+    `SELECT pattern_type, pattern_name, pattern_definition, confidence_score
+     FROM migraine_correlations
+     WHERE user_id = $1`,
+    [userId]
+  );
+
+  const profileResult = await query(
+    `SELECT monthly_frequency FROM user_profiles WHERE user_id = $1`,
+    [userId]
+  );
+
+  const dailyRows = dailyResult.rows.map(row => {
+    const parsed = { date: toDateColumnKey(row.date) };
+    Object.keys(row).forEach(column => {
+      if (column !== 'date') parsed[column] = row[column] !== null ? parseFloat(row[column]) : null;
+    });
+    return parsed;
+  });
+  const rowByDate = new Map(dailyRows.map(row => [row.date, row]));
+  const migraineDays = new Set(migraineResult.rows.map(row => toDateColumnKey(row.date)));
+  const headacheFreeDays = new Set(headacheFreeResult.rows.map(row => toDateColumnKey(row.date)));
+
+  const patterns = knownPatterns || correlationsResult.rows.map(row => ({
+    patternType: row.pattern_type,
+    patternName: row.pattern_name,
+    patternDefinition: row.pattern_definition,
+    confidenceScore: row.confidence_score !== null ? parseFloat(row.confidence_score) : null
+  }));
+  const specs = buildFeatureSpecs(getThresholdPatterns(patterns));
+
+  // Baseline from the BASELINE_WINDOW_DAYS days before a date, taken from the in-memory history
+  const baselineBefore = (dateKey) => {
+    const windowStart = addDaysToKey(dateKey, -BASELINE_WINDOW_DAYS);
+    return buildBaselineFromDailyRows(dailyRows.filter(row => row.date >= windowStart && row.date < dateKey));
+  };
+
+  // Training set: each labelled day D is described by what was known the day before (D-1), as a
+  // forecast sees the last 24 hours. Patterns are evaluated at their lag counted from D-1 (never
+  // later than D-1), so a lag-0 pattern is not trained on the outcome day's own readings
+  const X = [];
+  const y = [];
+  [...migraineDays, ...[...headacheFreeDays].filter(date => !migraineDays.has(date))]
+    .sort()
+    .forEach(date => {
+      const featureDate = addDaysToKey(date, -1);
+      const featureRow = rowByDate.get(featureDate);
+      if (!featureRow) return;
+
+      const { values } = computeFeatures(
+        specs,
+        featureRow,
+        baselineBefore(featureDate),
+        spec => rowByDate.get(addDaysToKey(featureDate, Math.min(0, spec.lag)))
+      );
+      X.push(values);
+      y.push(migraineDays.has(date) ? 1 : 0);
+    });
+
+  const migraineCount = y.filter(label => label === 1).length;
+  const controlCount = y.length - migraineCount;
+  const baseRate = estimateBaseRate(migraineDays, profileResult.rows[0], now, timezone);
+
+  // Fit a personal model when there is enough labelled history; otherwise fall back to prior weights
+  let model;
+  if (migraineCount >= MIN_TRAINING_DAYS_PER_CLASS && controlCount >= MIN_TRAINING_DAYS_PER_CLASS) {
+    const fit = fitLogisticRegression(X, y);
+    // The labelled days over-represent migraines compared with real life, so shift the
+    // intercept from the sample's migraine share to the user's actual base rate
+    const sampleRate = migraineCount / y.length;
+    model = {
+      type: 'logistic',
+      intercept: fit.intercept + logit(baseRate.rate) - logit(sampleRate),
+      weights: fit.weights
+    };
+  } else {
+    model = {
+      type: 'prior',
+      intercept: logit(baseRate.rate),
+      weights: specs.map(spec => (spec.kind === 'baseline'
+        ? PRIOR_BASELINE_WEIGHT
+        : PRIOR_PATTERN_WEIGHT * spec.confidence))
+    };
+  }
+
+  // Score the last 24 hours against the baseline that ends where the recent window starts
+  const recentRow = wearableData && wearableData.length > 0 ? aggregateReadings(wearableData) : null;
+  const recentBaseline = baselineBefore(toLocalDateKey(recentStart, timezone));
+  const { values, deviations } = computeFeatures(specs, recentRow, recentBaseline, () => recentRow);
+  const deviationByMetric = new Map(deviations.map(d => [d.metric, d]));
+
+  const factors = specs
+    .map((spec, index) => {
+      const value = values[index];
+      const contribution = model.weights[index] * value;
+      const deviation = spec.kind === 'baseline' ? deviationByMetric.get(spec.metric.key) : null;
+      if (spec.kind === 'baseline' && !deviation) return null;
+      return {
+        feature: spec.id,
+        kind: spec.kind,
+        label: spec.label,
+        riskType: spec.riskType,
+        value: round(value),
+        weight: round(model.weights[index], 3),
+        contribution: round(contribution, 3),
+        description: describeFactor(spec, value, deviation)
+      };
+    })
+    .filter(Boolean)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  const logOdds = model.intercept + values.reduce((sum, value, index) => sum + value * model.weights[index], 0);
+  const dailyProbability = sigmoid(logOdds);
+  const { probability, riskLevel, riskCategory } = projectDailyRisk(dailyProbability, horizonHours);
+
+  const riskFactors = factors.filter(factor => factor.contribution > 0.05);
+  const keyRiskFactors = riskFactors
+    .slice(0, 5)
+    .map(factor => `${factor.description} (+${factor.contribution.toFixed(2)} log-odds)`);
+
+  const recommendations = [...new Set(riskFactors.map(factor => RECOMMENDATIONS[factor.riskType]).filter(Boolean))].slice(0, 4);
+  if (riskLevel >= 50) {
+    recommendations.push('Keep regular meals and fluids, and have your acute medication within reach');
+  }
+  if (recommendations.length === 0) {
+    recommendations.push('No elevated factors right now - keep your usual routine and keep logging daily check-ins');
+  }
+
+  let trendAnalysis;
+  if (!recentRow) {
+    trendAnalysis = 'No wearable data in the last 24 hours, so the score only reflects your usual migraine frequency.';
+  } else if (deviations.length === 0) {
+    trendAnalysis = 'Not enough history for a personal baseline yet (needs at least 7 days of wearable data in the last 28 days).';
+  } else {
+    const notable = [...deviations]
+      .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore))
+      .filter(d => Math.abs(d.zScore) >= 1);
+    trendAnalysis = notable.length > 0
+      ? `Compared with your personal baseline: ${notable.map(d => `${d.label.toLowerCase()} ${d.direction === 'high' ? 'above' : 'below'} (z ${d.zScore > 0 ? '+' : ''}${d.zScore.toFixed(1)})`).join(', ')}.`
+      : 'All metrics from the last 24 hours are within your normal range.';
+  }
+
+  const dataPoints = wearableData?.length || 0;
+  let confidenceLevel = 'Medium';
+  if (model.type === 'prior' || dataPoints === 0) {
+    confidenceLevel = 'Low';
+  } else if (migraineCount >= 15 && controlCount >= 15 && dataPoints >= MIN_RECENT_DATA_POINTS) {
+    confidenceLevel = 'High';
+  }
+
+  const modelDescription = model.type === 'logistic'
+    ? `a logistic model fit on your history (${migraineCount} migraine days vs ${controlCount} confirmed headache-free days)`
+    : `default weights, because a personal model needs at least ${MIN_TRAINING_DAYS_PER_CLASS} migraine days and ${MIN_TRAINING_DAYS_PER_CLASS} confirmed headache-free days with wearable data the day before (you have ${migraineCount} and ${controlCount})`;
+
+  const fullAnalysis = [
+    `Local risk model${isSimulated ? ' (simulated data)' : ''}`,
+    '',
+    `Risk Level: ${riskLevel}% (${riskCategory}) - estimated chance of a migraine in the next ${horizonHours} hours (${Math.round(dailyProbability * 100)}% that the coming day is a migraine day).`,
+    `Starting point: ${Math.round(baseRate.rate * 100)}% from ${baseRate.source.replace(/_/g, ' ')}.`,
+    `Scored with ${modelDescription}.`,
+    '',
+    'Factor contributions (log-odds, positive raises risk):',
+    ...(factors.length > 0
+      ? factors.map(factor => `- ${factor.description}: ${factor.contribution >= 0 ? '+' : ''}${factor.contribution.toFixed(2)}`)
+      : ['- None (no recent data or baseline to compare against)']),
+    '',
+    `Trend Analysis: ${trendAnalysis}`,
+    '',
+    'Recommendations:',
+    ...recommendations.map(rec => `- ${rec}`),
+    '',
+    `Confidence Level: ${confidenceLevel} (${dataPoints} readings in the last 24 hours).`
+  ].join('\n');
+
+  return {
+    riskLevel,
+    riskCategory,
+    keyRiskFactors,
+    trendAnalysis,
+    recommendations,
+    confidenceLevel,
+    fullAnalysis,
+    factors,
+    model: {
+      type: model.type,
+      intercept: round(model.intercept, 3),
+      baseRate: round(baseRate.rate, 3),
+      baseRateSource: baseRate.source,
+      trainingDays: y.length,
+      migraineDays: migraineCount,
+      controlDays: controlCount,
+      dailyProbability: round(dailyProbability, 4),
+      horizonHours,
+      probability: round(probability, 4)
+    }
+  };
+};
@@ -0,0 +1,132 @@
+import { query } from '../db/database.js';
+import { getUserTimezone, localDateSql, startOfLocalDay, toDateColumnKey, toLocalDateKey } from './timezone.js';
+
+/**
+ * Medication classes and how they count towards medication-overuse headache (ICHD-3 8.2)
+ * - threshold: acute-medication days per month at which overuse is reached
+ * - group: classes sharing a group are counted together (simple analgesics incl. NSAIDs)
+ * Gepants and ditans are not named in ICHD-3; they are treated like triptans (10 days)
+ * to stay on the cautious side.
+ */
+export const MEDICATION_CLASSES = {
+  triptan: { label: 'Triptan', acute: true, threshold: 10, group: 'triptan' },
+  ergot: { label: 'Ergotamine', acute: true, threshold: 10, group: 'ergot' },
+  opioid: { label: 'Opioid', acute: true, threshold: 10, group: 'opioid' },
+  combination_analgesic: { label: 'Combination analgesic', acute: true, threshold: 10, group: 'combination_analgesic' },
+  gepant: { label: 'Gepant', acute: true, threshold: 10, group: 'gepant' },
+  ditan: { label: 'Ditan', acute: true, threshold: 10, group: 'ditan' },
+  nsaid: { label: 'NSAID', acute: true, threshold: 15, group: 'simple_analgesic' },
+  simple_analgesic: { label: 'Simple analgesic', acute: true, threshold: 15, group: 'simple_analgesic' },
+  antiemetic: { label: 'Antiemetic', acute: false },
+  preventive: { label: 'Preventive', acute: false },
+  other: { label: 'Other', acute: false }
+};
+
+// Total acute-medication days when several classes are combined (ICHD-3 8.2.6)
+const MULTIPLE_CLASS_THRESHOLD = 10;
+
+// Share of a threshold at which the monitor starts warning
+const APPROACHING_RATIO = 0.8;
+
+// Status for a count against a threshold
+const statusFor = (days, threshold) => {
+  if (days >= threshold) return 'overuse';
+  if (days >= Math.ceil(threshold * APPROACHING_RATIO)) return 'approaching';
+  return 'ok';
+};
+
+const STATUS_ORDER = { ok: 0, approaching: 1, overuse: 2 };
+
+/**
+ * Count acute-medication days per calendar month and compare them to ICHD-3 thresholds
+ * Days and months are those of the user's timezone
+ * @param {string} userId - User ID
+ * @param {number} months - Number of calendar months to report (including the current one)
+ * @returns {Promise<Object>} Monthly breakdown, current status and consecutive overuse months
+ */
+export const calculateMedicationOveruse = async (userId, months = 4) => {
+  const timezone = await getUserTimezone(userId);
+  const [year, month] = toLocalDateKey(new Date(), timezone).split('-').map(Number);
+  const firstMonth = new Date(Date.UTC(year, month - 1 - (months - 1), 1));
+
+  // One row per (local day, class) with at least one acute intake
+  const result = await query(
+    `SELECT DISTINCT
+       TO_CHAR(${localDateSql('mi.taken_at', '$3')}, 'YYYY-MM') as month,
+       ${localDateSql('mi.taken_at', '$3')} as day,
+       m.medication_class
+     FROM medication_intakes mi
+     JOIN medications m ON m.id = mi.medication_id
+     WHERE mi.user_id = $1 AND mi.taken_at >= $2`,
+    [userId, startOfLocalDay(firstMonth.toISOString().split('T')[0], timezone), timezone]
+  );
+
+  // Group rows into month -> group -> set of days
+  const monthBuckets = {};
+  result.rows.forEach(row => {
+    const classInfo = MEDICATION_CLASSES[row.medication_class];
+    if (!classInfo || !classInfo.acute) return;
+
+    const day = toDateColumnKey(row.day);
+    if (!monthBuckets[row.month]) {
+      monthBuckets[row.month] = { allDays: new Set(), groups: {} };
+    }
+    const bucket = monthBuckets[row.month];
+    bucket.allDays.add(day);
+    if (!bucket.groups[classInfo.group]) bucket.groups[classInfo.group] = new Set();
+    bucket.groups[classInfo.group].add(day);
+  });
+
+  const monthly = [];
+  for (let i = 0; i < months; i++) {
+    const monthDate = new Date(Date.UTC(firstMonth.getUTCFullYear(), firstMonth.getUTCMonth() + i, 1));
+    const month = monthDate.toISOString().substring(0, 7);
+    const bucket = monthBuckets[month] || { allDays: new Set(), groups: {} };
+
+    // Per-class group counts against their own thresholds
+    const classes = Object.entries(bucket.groups).map(([group, days]) => {
+      const threshold = Object.values(MEDICATION_CLASSES).find(c => c.group === group).threshold;
+      return {
+        group,
+        days: days.size,
+        threshold,
+        status: statusFor(days.size, threshold)
+      };
+    }).sort((a, b) => b.days - a.days);
+
+    // Combined use of several classes, none of them overused on its own
+    const usesMultipleClasses = classes.length > 1;
+    const combined = {
+      days: bucket.allDays.size,
+      threshold: MULTIPLE_CLASS_THRESHOLD,
+      status: usesMultipleClasses ? statusFor(bucket.allDays.size, MULTIPLE_CLASS_THRESHOLD) : 'ok'
+    };
+
+    const status = [combined.status, ...classes.map(c => c.status)]
+      .reduce((worst, current) => (STATUS_ORDER[current] > STATUS_ORDER[worst] ? current : worst), 'ok');
+
+    monthly.push({
+      month,
+      acuteDays: bucket.allDays.size,
+      classes,
+      combined,
+      status
+    });
+  }
+
+  // ICHD-3 requires regular overuse for more than 3 months (counted back from the current month)
+  let consecutiveOveruseMonths = 0;
+  for (let i = monthly.length - 1; i >= 0 && monthly[i].status === 'overuse'; i--) {
+    consecutiveOveruseMonths++;
+  }
+
+  const currentMonth = monthly[monthly.length - 1];
+
+  return {
+    currentMonth,
+    monthly,
+    status: currentMonth.status,
+    consecutiveOveruseMonths,
+    meetsIchdDuration: consecutiveOveruseMonths > 3
+  };
+};
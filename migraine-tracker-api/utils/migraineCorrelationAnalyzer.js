@@ -1,15 +1,47 @@
 import { query } from '../db/database.js';
+import { analyzeLifestyleCorrelations } from './lifestyleCorrelationAnalyzer.js';
+import { addDaysToKey, getUserTimezone, localDateSql, toDateColumnKey, toLocalDateKey } from './timezone.js';
+
+/**
+ * Wearable metric patterns
+ * direction limits which sign of effect is reported ('any', 'higher' or 'lower' on migraine days)
+ */
+const WEARABLE_PATTERNS = [
+  { patternType: 'high_stress', patternName: 'High Average Stress', key: 'avgStress', metric: 'avg_stress', operator: '>', direction: 'any' },
+  { patternType: 'stress_spike', patternName: 'Stress Spikes', key: 'maxStress', metric: 'max_stress', operator: '>', direction: 'any' },
+  { patternType: 'low_recovery', patternName: 'Low Recovery', key: 'avgRecovery', metric: 'avg_recovery', operator: '<', direction: 'lower' },
+  { patternType: 'low_hrv', patternName: 'Low Heart Rate Variability', key: 'avgHrv', metric: 'avg_hrv', operator: '<', direction: 'lower' },
+  { patternType: 'poor_sleep', patternName: 'Poor Sleep Efficiency', key: 'avgSleepEfficiency', metric: 'avg_sleep_efficiency', operator: '<', direction: 'lower' },
+  { patternType: 'stress_volatility', patternName: 'High Stress Volatility', key: 'stressVolatility', metric: 'stress_volatility', operator: '>', direction: 'higher' }
+];
+
+/**
+ * Day offsets relative to migraine onset used for the lag (prodrome window) analysis
+ * -3 = three days before the migraine day, 0 = the migraine day itself
+ */
+export const LAG_OFFSETS = [-3, -2, -1, 0];
 
 /**
  * Analyze wearable data to find patterns that correlate with migraine days
+ * Migraine days come from migraine_day_markers; the control group is limited to days the
+ * user explicitly confirmed as headache-free in a daily check-in (unrecorded days are skipped).
+ * Each metric is compared at offsets of -3..0 days relative to onset; the strongest lag is kept.
+ * Wearable data is grouped by calendar day in the user's timezone.
  * @param {string} userId - User ID
+ * @param {Object} options
+ * @param {Date} options.before - Only use data recorded before this time (what was known then);
+ *   migraine markers and check-ins are limited to days before its date
  * @returns {Promise<Object>} Analysis results with identified patterns
  */
-export const analyzeMigraineCorrelations = async (userId) => {
-  // Get all wearable data grouped by day
+export const analyzeMigraineCorrelations = async (userId, { before = null } = {}) => {
+  const timezone = await getUserTimezone(userId);
+  const wearableParams = before ? [userId, before, timezone] : [userId, timezone];
+  const localDate = localDateSql('timestamp', `$${wearableParams.length}`);
+
+  // Get all wearable data grouped by local day
   const wearableDataResult = await query(
     `SELECT 
-       DATE(timestamp) as date,
+       ${localDate} as date,
        AVG(stress_value) as avg_stress,
        MAX(stress_value) as max_stress,
        STDDEV(stress_value) as stress_volatility,
@@ -27,32 +59,50 @@ export const analyzeMigraineCorrelations = async (userId) => {
        COUNT(*) as data_points
      FROM wearable_data
      WHERE user_id = $1
-     GROUP BY DATE(timestamp)
-     ORDER BY DATE(timestamp)`,
-    [userId]
+       ${before ? 'AND timestamp < $2' : ''}
+     GROUP BY ${localDate}
+     ORDER BY ${localDate}`,
+    wearableParams
   );
 
+  const dayParams = before ? [userId, toLocalDateKey(before, timezone)] : [userId];
+
   // Get all migraine days
   const migraineDaysResult = await query(
     `SELECT date, is_migraine_day
      FROM migraine_day_markers
      WHERE user_id = $1 AND is_migraine_day = true
+       ${before ? 'AND date < $2' : ''}
      ORDER BY date`,
-    [userId]
+    dayParams
   );
 
   const migraineDays = new Set(
-    migraineDaysResult.rows.map(row => row.date.toISOString().split('T')[0])
+    migraineDaysResult.rows.map(row => toDateColumnKey(row.date))
+  );
+
+  // Get days confirmed headache-free in the daily check-in
+  const headacheFreeResult = await query(
+    `SELECT date
+     FROM daily_checkins
+     WHERE user_id = $1 AND had_headache = false
+       ${before ? 'AND date < $2' : ''}
+     ORDER BY date`,
+    dayParams
+  );
+
+  const headacheFreeDays = new Set(
+    headacheFreeResult.rows.map(row => toDateColumnKey(row.date))
   );
 
-  // Separate days into migraine and non-migraine
+  // Separate days into migraine and confirmed headache-free; anything else is unrecorded
   const migraineDayData = [];
   const normalDayData = [];
+  const dayDataByDate = new Map();
+  let unconfirmedDaysCount = 0;
 
   wearableDataResult.rows.forEach(row => {
-    const dateStr = typeof row.date === 'string' 
-      ? row.date 
-      : row.date.toISOString().split('T')[0];
+    const dateStr = toDateColumnKey(row.date);
     
     const dayData = {
       date: dateStr,
@@ -73,10 +123,14 @@ export const analyzeMigraineCorrelations = async (userId) => {
       dataPoints: parseInt(row.data_points) || 0
     };
 
+    dayDataByDate.set(dateStr, dayData);
+
     if (migraineDays.has(dateStr)) {
       migraineDayData.push(dayData);
-    } else {
+    } else if (headacheFreeDays.has(dateStr)) {
       normalDayData.push(dayData);
+    } else {
+      unconfirmedDaysCount++;
     }
   });
 
@@ -90,7 +144,8 @@ export const analyzeMigraineCorrelations = async (userId) => {
   if (normalDayData.length === 0) {
     return {
       patterns: [],
-      message: 'Insufficient data. Need both migraine and non-migraine days for comparison.'
+      unconfirmedDaysCount,
+      message: 'No confirmed headache-free days. Use the daily check-in to record days without headache so they can be compared with migraine days.'
     };
   }
 
@@ -174,182 +229,94 @@ export const analyzeMigraineCorrelations = async (userId) => {
     return Math.max(0.1, Math.min(0.95, confidence)); // Cap at 95% max confidence
   };
 
+  // Outcome days are compared at each lag: metric values from `offset` days relative to the day itself
+  const migraineDates = [...migraineDays];
+  const controlDates = [...headacheFreeDays].filter(date => !migraineDays.has(date));
+
+  const valuesAt = (dates, key, offset) => dates
+    .map(date => dayDataByDate.get(addDaysToKey(date, offset)))
+    .filter(dayData => dayData && dayData[key] !== null)
+    .map(dayData => ({ value: dayData[key] }));
+
   // Analyze patterns
   const patterns = [];
 
-  // Pattern 1: High Stress
-  const migraineStress = migraineDayData.map(d => ({ value: d.avgStress })).filter(d => d.value !== null);
-  const normalStress = normalDayData.map(d => ({ value: d.avgStress })).filter(d => d.value !== null);
-  if (migraineStress.length > 0 && normalStress.length > 0) {
-    const migraineAvg = avg(migraineDayData, 'avgStress');
-    const normalAvg = avg(normalDayData, 'avgStress');
-    console.log(`Analyzing stress: migraine avg=${migraineAvg?.toFixed(2)}, normal avg=${normalAvg?.toFixed(2)}`);
-    const result = calculateCorrelation(migraineStress, normalStress);
-    
-    // Use 0.1 threshold (moderate sensitivity)
-    if (result && Math.abs(result.correlation) > 0.1) {
-      const confidence = calculateConfidence(
-        migraineStress.length,
-        normalStress.length,
-        result.cohensD,
-        result.migraineVariance,
-        result.normalVariance
-      );
-      
-      const threshold = normalAvg + (migraineAvg - normalAvg) * 0.7;
-      patterns.push({
-        patternType: 'high_stress',
-        patternName: 'High Average Stress',
-        patternDefinition: {
-          metric: 'avg_stress',
-          operator: '>',
-          threshold: threshold
-        },
-        correlationStrength: result.correlation,
-        confidenceScore: confidence,
-        migraineDaysCount: migraineStress.length,
-        totalDaysAnalyzed: migraineStress.length + normalStress.length,
-        avgValueOnMigraineDays: migraineAvg,
-        avgValueOnNormalDays: normalAvg,
-        thresholdValue: threshold
-      });
-    }
-  }
+  WEARABLE_PATTERNS.forEach(({ patternType, patternName, key, metric, operator, direction }) => {
+    // Effect size at every lag from 3 days before onset to the migraine day itself
+    const lagProfile = [];
+    LAG_OFFSETS.forEach(offset => {
+      const migraineValues = valuesAt(migraineDates, key, offset);
+      const normalValues = valuesAt(controlDates, key, offset);
+      if (migraineValues.length === 0 || normalValues.length === 0) return;
 
-  // Pattern 2: Stress Spikes (High Max Stress)
-  const migraineMaxStress = migraineDayData.map(d => ({ value: d.maxStress })).filter(d => d.value !== null);
-  const normalMaxStress = normalDayData.map(d => ({ value: d.maxStress })).filter(d => d.value !== null);
-  if (migraineMaxStress.length > 0 && normalMaxStress.length > 0) {
-    const migraineAvg = avg(migraineDayData, 'maxStress');
-    const normalAvg = avg(normalDayData, 'maxStress');
-    const result = calculateCorrelation(migraineMaxStress, normalMaxStress);
-    
-    if (result && Math.abs(result.correlation) > 0.1) {
-      const confidence = calculateConfidence(migraineMaxStress.length, normalMaxStress.length, result.cohensD, result.migraineVariance, result.normalVariance);
-      const threshold = normalAvg + (migraineAvg - normalAvg) * 0.7;
-      patterns.push({
-        patternType: 'stress_spike',
-        patternName: 'Stress Spikes',
-        patternDefinition: { metric: 'max_stress', operator: '>', threshold: threshold },
-        correlationStrength: result.correlation,
-        confidenceScore: confidence,
-        migraineDaysCount: migraineMaxStress.length,
-        totalDaysAnalyzed: migraineMaxStress.length + normalMaxStress.length,
-        avgValueOnMigraineDays: migraineAvg,
-        avgValueOnNormalDays: normalAvg,
-        thresholdValue: threshold
-      });
-    }
-  }
+      const result = calculateCorrelation(migraineValues, normalValues);
+      if (!result) return;
 
-  // Pattern 3: Low Recovery
-  const migraineRecovery = migraineDayData.map(d => ({ value: d.avgRecovery })).filter(d => d.value !== null);
-  const normalRecovery = normalDayData.map(d => ({ value: d.avgRecovery })).filter(d => d.value !== null);
-  if (migraineRecovery.length > 0 && normalRecovery.length > 0) {
-    const migraineAvg = avg(migraineDayData, 'avgRecovery');
-    const normalAvg = avg(normalDayData, 'avgRecovery');
-    const result = calculateCorrelation(migraineRecovery, normalRecovery);
-    
-    if (result && result.correlation < -0.1) {
-      const confidence = calculateConfidence(migraineRecovery.length, normalRecovery.length, result.cohensD, result.migraineVariance, result.normalVariance);
-      const threshold = normalAvg - (normalAvg - migraineAvg) * 0.7;
-      patterns.push({
-        patternType: 'low_recovery',
-        patternName: 'Low Recovery',
-        patternDefinition: { metric: 'avg_recovery', operator: '<', threshold: threshold },
-        correlationStrength: result.correlation,
-        confidenceScore: confidence,
-        migraineDaysCount: migraineRecovery.length,
-        totalDaysAnalyzed: migraineRecovery.length + normalRecovery.length,
-        avgValueOnMigraineDays: migraineAvg,
-        avgValueOnNormalDays: normalAvg,
-        thresholdValue: threshold
+      lagProfile.push({
+        offset,
+        result,
+        migraineValues,
+        normalValues,
+        migraineAvg: avg(migraineValues, 'value'),
+        normalAvg: avg(normalValues, 'value')
       });
-    }
-  }
+    });
 
-  // Pattern 4: Low HRV
-  const migraineHrv = migraineDayData.map(d => ({ value: d.avgHrv })).filter(d => d.value !== null);
-  const normalHrv = normalDayData.map(d => ({ value: d.avgHrv })).filter(d => d.value !== null);
-  if (migraineHrv.length > 0 && normalHrv.length > 0) {
-    const migraineAvg = avg(migraineDayData, 'avgHrv');
-    const normalAvg = avg(normalDayData, 'avgHrv');
-    const result = calculateCorrelation(migraineHrv, normalHrv);
-    
-    if (result && result.correlation < -0.1) {
-      const confidence = calculateConfidence(migraineHrv.length, normalHrv.length, result.cohensD, result.migraineVariance, result.normalVariance);
-      const threshold = normalAvg - (normalAvg - migraineAvg) * 0.7;
-      patterns.push({
-        patternType: 'low_hrv',
-        patternName: 'Low Heart Rate Variability',
-        patternDefinition: { metric: 'avg_hrv', operator: '<', threshold: threshold },
-        correlationStrength: result.correlation,
-        confidenceScore: confidence,
-        migraineDaysCount: migraineHrv.length,
-        totalDaysAnalyzed: migraineHrv.length + normalHrv.length,
-        avgValueOnMigraineDays: migraineAvg,
-        avgValueOnNormalDays: normalAvg,
-        thresholdValue: threshold
-      });
-    }
-  }
+    // Strongest lag among those with an effect in the pattern's direction
+    const candidates = lagProfile.filter(({ result }) =>
+      direction === 'higher' ? result.correlation > 0.1
+        : direction === 'lower' ? result.correlation < -0.1
+        : Math.abs(result.correlation) > 0.1
+    );
+    if (candidates.length === 0) return;
 
-  // Pattern 5: Poor Sleep Efficiency
-  const migraineSleep = migraineDayData.map(d => ({ value: d.avgSleepEfficiency })).filter(d => d.value !== null);
-  const normalSleep = normalDayData.map(d => ({ value: d.avgSleepEfficiency })).filter(d => d.value !== null);
-  if (migraineSleep.length > 0 && normalSleep.length > 0) {
-    const migraineAvg = avg(migraineDayData, 'avgSleepEfficiency');
-    const normalAvg = avg(normalDayData, 'avgSleepEfficiency');
-    const result = calculateCorrelation(migraineSleep, normalSleep);
-    
-    if (result && result.correlation < -0.1) {
-      const confidence = calculateConfidence(migraineSleep.length, normalSleep.length, result.cohensD, result.migraineVariance, result.normalVariance);
-      const threshold = normalAvg - (normalAvg - migraineAvg) * 0.7;
-      patterns.push({
-        patternType: 'poor_sleep',
-        patternName: 'Poor Sleep Efficiency',
-        patternDefinition: { metric: 'avg_sleep_efficiency', operator: '<', threshold: threshold },
-        correlationStrength: result.correlation,
-        confidenceScore: confidence,
-        migraineDaysCount: migraineSleep.length,
-        totalDaysAnalyzed: migraineSleep.length + normalSleep.length,
-        avgValueOnMigraineDays: migraineAvg,
-        avgValueOnNormalDays: normalAvg,
-        thresholdValue: threshold
-      });
-    }
-  }
+    const strongest = candidates.reduce((a, b) =>
+      Math.abs(b.result.cohensD) > Math.abs(a.result.cohensD) ? b : a
+    );
+    const { result, migraineValues, normalValues, migraineAvg, normalAvg } = strongest;
 
-  // Pattern 6: High Stress Volatility
-  const migraineStressVol = migraineDayData.map(d => ({ value: d.stressVolatility })).filter(d => d.value !== null);
-  const normalStressVol = normalDayData.map(d => ({ value: d.stressVolatility })).filter(d => d.value !== null);
-  if (migraineStressVol.length > 0 && normalStressVol.length > 0) {
-    const migraineAvg = avg(migraineDayData, 'stressVolatility');
-    const normalAvg = avg(normalDayData, 'stressVolatility');
-    const result = calculateCorrelation(migraineStressVol, normalStressVol);
-    
-    if (result && result.correlation > 0.1) {
-      const confidence = calculateConfidence(migraineStressVol.length, normalStressVol.length, result.cohensD, result.migraineVariance, result.normalVariance);
-      const threshold = normalAvg + (migraineAvg - normalAvg) * 0.7;
-      patterns.push({
-        patternType: 'stress_volatility',
-        patternName: 'High Stress Volatility',
-        patternDefinition: { metric: 'stress_volatility', operator: '>', threshold: threshold },
-        correlationStrength: result.correlation,
-        confidenceScore: confidence,
-        migraineDaysCount: migraineStressVol.length,
-        totalDaysAnalyzed: migraineStressVol.length + normalStressVol.length,
-        avgValueOnMigraineDays: migraineAvg,
-        avgValueOnNormalDays: normalAvg,
-        thresholdValue: threshold
-      });
-    }
-  }
+    console.log(`Lag analysis: ${patternType} strongest at offset ${strongest.offset} (cohensD=${result.cohensD.toFixed(3)})`);
+
+    const confidence = calculateConfidence(
+      migraineValues.length,
+      normalValues.length,
+      result.cohensD,
+      result.migraineVariance,
+      result.normalVariance
+    );
+
+    const threshold = normalAvg + (migraineAvg - normalAvg) * 0.7;
+    patterns.push({
+      patternType,
+      patternName,
+      patternDefinition: {
+        metric,
+        operator,
+        threshold,
+        lag: strongest.offset,
+        lagProfile: lagProfile.map(lag => ({
+          offset: lag.offset,
+          cohensD: lag.result.cohensD,
+          correlation: lag.result.correlation,
+          migraineDays: lag.migraineValues.length,
+          normalDays: lag.normalValues.length
+        }))
+      },
+      correlationStrength: result.correlation,
+      confidenceScore: confidence,
+      migraineDaysCount: migraineValues.length,
+      totalDaysAnalyzed: migraineValues.length + normalValues.length,
+      avgValueOnMigraineDays: migraineAvg,
+      avgValueOnNormalDays: normalAvg,
+      thresholdValue: threshold
+    });
+  });
 
   return {
     patterns,
     migraineDaysCount: migraineDayData.length,
     normalDaysCount: normalDayData.length,
+    unconfirmedDaysCount,
     totalDaysAnalyzed: migraineDayData.length + normalDayData.length
   };
 };
@@ -421,12 +388,20 @@ export const saveMigraineCorrelations = async (userId, patterns) => {
 
 /**
  * Process and save migraine correlations for a user
+ * Combines wearable metric patterns with lifestyle and trigger tag odds ratios
  * @param {string} userId - User ID
  * @returns {Promise<Object>} Processing results
  */
 export const processMigraineCorrelations = async (userId) => {
   try {
-    const analysis = await analyzeMigraineCorrelations(userId);
+    const wearableAnalysis = await analyzeMigraineCorrelations(userId);
+    const lifestyleAnalysis = await analyzeLifestyleCorrelations(userId);
+
+    const analysis = {
+      ...wearableAnalysis,
+      patterns: [...wearableAnalysis.patterns, ...lifestyleAnalysis.patterns],
+      lifestylePatternsCount: lifestyleAnalysis.patterns.length
+    };
     
     if (analysis.patterns.length === 0) {
       return {
@@ -0,0 +1,404 @@
+import csvParser from 'csv-parser';
+import { Readable } from 'stream';
+import { normalizeColumnName, detectSeparator } from './csvParser.js';
+import { DEFAULT_TIMEZONE, parseLocalDateTime, toLocalDateKey } from './timezone.js';
+
+/**
+ * Field mapping configuration for migraine diary CSV imports
+ * Maps various possible column names to standardized diary fields
+ * (same idea as FIELD_MAPPINGS for wearable data)
+ */
+export const DIARY_FIELD_MAPPINGS = {
+  // Combined date + time columns (checked before plain date/time)
+  startDateTime: [
+    'start_time', 'started', 'start', 'start_datetime', 'started_at',
+    'onset', 'begin', 'datetime', 'timestamp'
+  ],
+  endDateTime: [
+    'end_time', 'ended', 'end', 'end_datetime', 'ended_at', 'finish'
+  ],
+
+  // Separate date and time columns
+  date: ['date', 'day', 'attack_date', 'episode_date'],
+  startClock: ['time', 'start_clock', 'time_started', 'onset_time'],
+  endClock: ['end_clock', 'time_ended', 'stop_time'],
+
+  intensity: [
+    'intensity', 'pain_level', 'pain', 'severity', 'pain_score',
+    'pain_intensity_score', 'peak_intensity'
+  ],
+  location: ['location', 'pain_position', 'pain_site', 'position'],
+  triggers: ['triggers', 'trigger', 'possible_triggers', 'causes'],
+  symptoms: ['symptoms', 'symptom', 'other_symptoms'],
+  medication: ['medication', 'medications', 'medicines', 'medicine', 'drugs', 'treatment'],
+  notes: ['notes', 'note', 'comments', 'comment', 'description'],
+  migraineType: ['migraine_type', 'headache_type', 'type'],
+
+  // Clinical assessment fields (migration_001)
+  duration: ['duration'],
+  frequency: ['frequency'],
+  painLocation: ['pain_location'],
+  painCharacter: ['pain_character'],
+  painIntensity: ['pain_intensity'],
+  nausea: ['nausea'],
+  vomit: ['vomit', 'vomiting'],
+  phonophobia: ['phonophobia', 'sound_sensitivity'],
+  photophobia: ['photophobia', 'light_sensitivity'],
+  visual: ['visual', 'visual_aura'],
+  sensory: ['sensory', 'sensory_aura'],
+  dysphasia: ['dysphasia'],
+  dysarthria: ['dysarthria'],
+  vertigo: ['vertigo', 'dizziness'],
+  tinnitus: ['tinnitus'],
+  hypoacusis: ['hypoacusis'],
+  diplopia: ['diplopia', 'double_vision'],
+  defect: ['defect'],
+  ataxia: ['ataxia'],
+  conscience: ['conscience'],
+  paresthesia: ['paresthesia'],
+  dpf: ['dpf', 'family_history']
+};
+
+// Database column and allowed range for each clinical field (mirrors the CHECK constraints)
+const CLINICAL_FIELDS = {
+  duration: { column: 'duration', min: 1, max: 3 },
+  frequency: { column: 'frequency', min: 1, max: 8 },
+  painLocation: { column: 'pain_location', min: 0, max: 2 },
+  painCharacter: { column: 'pain_character', min: 0, max: 2 },
+  painIntensity: { column: 'pain_intensity', min: 0, max: 3 },
+  nausea: { column: 'nausea', min: 0, max: 1 },
+  vomit: { column: 'vomit', min: 0, max: 1 },
+  phonophobia: { column: 'phonophobia', min: 0, max: 1 },
+  photophobia: { column: 'photophobia', min: 0, max: 1 },
+  visual: { column: 'visual', min: 0, max: 4 },
+  sensory: { column: 'sensory', min: 0, max: 2 },
+  dysphasia: { column: 'dysphasia', min: 0, max: 1 },
+  dysarthria: { column: 'dysarthria', min: 0, max: 1 },
+  vertigo: { column: 'vertigo', min: 0, max: 1 },
+  tinnitus: { column: 'tinnitus', min: 0, max: 1 },
+  hypoacusis: { column: 'hypoacusis', min: 0, max: 1 },
+  diplopia: { column: 'diplopia', min: 0, max: 1 },
+  defect: { column: 'defect', min: 0, max: 1 },
+  ataxia: { column: 'ataxia', min: 0, max: 1 },
+  conscience: { column: 'conscience', min: 0, max: 1 },
+  paresthesia: { column: 'paresthesia', min: 0, max: 1 },
+  dpf: { column: 'dpf', min: 0, max: 1 }
+};
+
+/**
+ * Column mapping presets for common headache-diary exports
+ * A preset either provides an explicit header -> field mapping or relies on auto-detection.
+ * intensityScale is the maximum of the source pain scale (values are rescaled to 1-5).
+ */
+export const DIARY_PRESETS = {
+  generic: {
+    label: 'Generic CSV',
+    description: 'Columns are detected automatically from their names',
+    intensityScale: 5,
+    mapping: null
+  },
+  migraine_mapper: {
+    label: 'Migraine Mapper export',
+    description: 'CSV files created with the Export menu of this app',
+    intensityScale: 5,
+    mapping: {
+      start_time: 'startDateTime',
+      end_time: 'endDateTime',
+      intensity: 'intensity',
+      location: 'location',
+      triggers: 'triggers',
+      symptoms: 'symptoms',
+      medication: 'medication',
+      notes: 'notes',
+      migraine_type: 'migraineType',
+      ...Object.fromEntries(Object.entries(CLINICAL_FIELDS).map(([field, { column }]) => [column, field]))
+    }
+  },
+  migraine_buddy: {
+    label: 'Migraine Buddy style',
+    description: 'Started / Ended / Pain Level (0-10) / Triggers / Symptoms / Medicines / Notes',
+    intensityScale: 10,
+    mapping: {
+      started: 'startDateTime',
+      ended: 'endDateTime',
+      pain_level: 'intensity',
+      pain_position: 'location',
+      triggers: 'triggers',
+      symptoms: 'symptoms',
+      medicines: 'medication',
+      medication: 'medication',
+      notes: 'notes'
+    }
+  },
+  headache_log: {
+    label: 'Headache log (date + time)',
+    description: 'Date / Time / Severity (1-10) / Trigger / Medication / Comments',
+    intensityScale: 10,
+    mapping: {
+      date: 'date',
+      time: 'startClock',
+      severity: 'intensity',
+      trigger: 'triggers',
+      triggers: 'triggers',
+      medication: 'medication',
+      comments: 'notes',
+      notes: 'notes'
+    }
+  }
+};
+
+/**
+ * Find matching diary field for a column name
+ * Exact matches win over prefix matches; short variations only match exactly
+ */
+const findDiaryField = (columnName) => {
+  const normalized = normalizeColumnName(columnName);
+  if (!normalized) return null;
+
+  // First pass: exact matches
+  for (const [field, variations] of Object.entries(DIARY_FIELD_MAPPINGS)) {
+    if (variations.some(variation => normalizeColumnName(variation) === normalized)) {
+      return field;
+    }
+  }
+
+  // Second pass: starts-with matches on substantial variations (e.g. "pain_level_0_10")
+  for (const [field, variations] of Object.entries(DIARY_FIELD_MAPPINGS)) {
+    for (const variation of variations) {
+      const normalizedVariation = normalizeColumnName(variation);
+      if (normalizedVariation.length >= 5 && normalized.startsWith(normalizedVariation)) {
+        return field;
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build the header -> field mapping for a file
+ * Explicit mapping wins, then the preset mapping, then auto-detection
+ * @param {Array<string>} headers - CSV headers
+ * @param {string} preset - Preset key
+ * @param {Object} overrides - Optional explicit mapping (header -> field, '' to ignore)
+ * @returns {{mapping: Object, unmappedColumns: Array<string>}}
+ */
+export const buildDiaryMapping = (headers, preset = 'generic', overrides = {}) => {
+  const presetMapping = DIARY_PRESETS[preset]?.mapping || null;
+  const mapping = {};
+  const unmappedColumns = [];
+
+  headers.forEach((header) => {
+    let field;
+    if (Object.prototype.hasOwnProperty.call(overrides, header)) {
+      field = overrides[header] || null;
+    } else if (presetMapping) {
+      field = presetMapping[normalizeColumnName(header)] || findDiaryField(header);
+    } else {
+      field = findDiaryField(header);
+    }
+
+    if (field && DIARY_FIELD_MAPPINGS[field]) {
+      mapping[header] = field;
+    } else {
+      unmappedColumns.push(header);
+    }
+  });
+
+  return { mapping, unmappedColumns };
+};
+
+// Parse a date in YYYY-MM-DD, YYYY/MM/DD or DD.MM.YYYY form into YYYY-MM-DD
+const parseDatePart = (value) => {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (match) return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  return null;
+};
+
+// Parse HH:MM or HH:MM:SS into HH:MM:SS
+const parseClockPart = (value) => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match || parseInt(match[1]) > 23) return null;
+  return `${match[1].padStart(2, '0')}:${match[2]}:${match[3] || '00'}`;
+};
+
+/**
+ * Parse a diary timestamp
+ * Zone-less values are read in the user's timezone, like streamWearableCSV does
+ */
+const parseDiaryTimestamp = (value, timezone) => {
+  const text = value.trim().replace(/;/g, ' ');
+  const match = text.match(/^(\S+?)(?:[\sT]+(\d{1,2}:\d{2}(?::\d{2})?))?\s*(Z|[+-]\d{2}:?\d{2})?$/);
+  const date = match ? parseDatePart(match[1]) : null;
+
+  if (date) {
+    const clock = match[2] ? parseClockPart(match[2]) : '00:00:00';
+    if (!clock) return null;
+    // Keep explicit offsets (e.g. "+02:00" or trailing Z) intact
+    if (!match[3]) return parseLocalDateTime(`${date}T${clock}`, timezone);
+    const parsed = new Date(`${date}T${clock}${match[3].replace(/^([+-]\d{2}):?(\d{2})$/, '$1:$2')}`);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+// Parse yes/no style values into 0/1 (numbers pass through)
+const parseClinicalValue = (value) => {
+  const text = value.trim().toLowerCase();
+  if (['yes', 'y', 'true', 'x', 'ja'].includes(text)) return 1;
+  if (['no', 'n', 'false', 'nein'].includes(text)) return 0;
+  const numeric = Number(text);
+  return Number.isFinite(numeric) ? numeric : NaN;
+};
+
+// Normalize list values ("a; b | c") to the stored comma-separated format
+const parseListValue = (value) => value
+  .split(/[;,|]/)
+  .map(item => item.trim())
+  .filter(Boolean)
+  .join(', ');
+
+/**
+ * Convert one CSV row into a migraine_entries row and validate it
+ * against the table's CHECK constraints
+ * @param {Object} row - Raw CSV row (header -> value)
+ * @param {Object} mapping - Header -> diary field
+ * @param {number} intensityScale - Maximum of the source pain scale
+ * @param {string} timezone - IANA timezone of dates and times without a zone
+ * @returns {{entry: Object, errors: Array<string>}}
+ */
+export const convertDiaryRow = (row, mapping, intensityScale = 5, timezone = DEFAULT_TIMEZONE) => {
+  const errors = [];
+  const values = {};
+
+  // Collect mapped values (first non-empty column wins for each field)
+  Object.entries(mapping).forEach(([header, field]) => {
+    const value = row[header];
+    if (value === undefined || value === null || String(value).trim() === '') return;
+    if (values[field] === undefined) values[field] = String(value);
+  });
+
+  const entry = {
+    start_time: null,
+    end_time: null,
+    intensity: null,
+    location: values.location ? values.location.trim() : '',
+    triggers: values.triggers ? parseListValue(values.triggers) : '',
+    symptoms: values.symptoms ? parseListValue(values.symptoms) : '',
+    medication: values.medication ? values.medication.trim() : '',
+    notes: values.notes ? values.notes.trim() : '',
+    migraine_type: values.migraineType ? values.migraineType.trim() : null
+  };
+
+  // Start time: combined column, or date + optional clock
+  if (values.startDateTime) {
+    entry.start_time = parseDiaryTimestamp(values.startDateTime, timezone);
+    if (!entry.start_time) errors.push(`Invalid start time "${values.startDateTime}"`);
+  } else if (values.date) {
+    const date = parseDatePart(values.date.split(/[\sT]/)[0]);
+    const clock = values.startClock ? parseClockPart(values.startClock) : '00:00:00';
+    if (!date) errors.push(`Invalid date "${values.date}"`);
+    if (!clock) errors.push(`Invalid start time "${values.startClock}"`);
+    if (date && clock) entry.start_time = parseLocalDateTime(`${date}T${clock}`, timezone);
+  } else {
+    errors.push('Missing start date/time');
+  }
+
+  // End time: combined column, or clock on the start date
+  if (values.endDateTime) {
+    entry.end_time = parseDiaryTimestamp(values.endDateTime, timezone);
+    if (!entry.end_time) errors.push(`Invalid end time "${values.endDateTime}"`);
+  } else if (values.endClock && entry.start_time) {
+    const clock = parseClockPart(values.endClock);
+    if (!clock) {
+      errors.push(`Invalid end time "${values.endClock}"`);
+    } else {
+      entry.end_time = parseLocalDateTime(`${toLocalDateKey(entry.start_time, timezone)}T${clock}`, timezone);
+    }
+  }
+
+  if (entry.start_time && entry.end_time && entry.end_time < entry.start_time) {
+    errors.push('End time is before start time');
+  }
+
+  // Intensity: required, rescaled from the source scale to 1-5
+  if (values.intensity === undefined) {
+    errors.push('Missing intensity');
+  } else {
+    const rawIntensity = parseFloat(values.intensity);
+    if (isNaN(rawIntensity) || rawIntensity < 0 || rawIntensity > intensityScale) {
+      errors.push(`Intensity "${values.intensity}" is outside the 0-${intensityScale} scale`);
+    } else {
+      const scaled = intensityScale === 5 ? Math.round(rawIntensity) : Math.ceil((rawIntensity / intensityScale) * 5);
+      entry.intensity = Math.min(5, Math.max(1, scaled));
+    }
+  }
+
+  // Clinical fields with CHECK constraint ranges
+  Object.entries(CLINICAL_FIELDS).forEach(([field, { column, min, max }]) => {
+    entry[column] = null;
+    if (values[field] === undefined) return;
+    const numeric = parseClinicalValue(values[field]);
+    if (!Number.isInteger(numeric) || numeric < min || numeric > max) {
+      errors.push(`${column} must be a whole number between ${min} and ${max} (got "${values[field]}")`);
+      return;
+    }
+    entry[column] = numeric;
+  });
+
+  if (entry.location.length > 100) errors.push('Location must be at most 100 characters');
+  if (entry.migraine_type && entry.migraine_type.length > 100) errors.push('Migraine type must be at most 100 characters');
+
+  return { entry, errors };
+};
+
+/**
+ * Parse and validate a migraine diary CSV file
+ * @param {Buffer} fileBuffer - The CSV file buffer
+ * @param {Object} options - { preset, mapping (overrides), intensityScale, timezone }
+ * @returns {Promise<{headers: Array, mapping: Object, unmappedColumns: Array, intensityScale: number, rows: Array}>}
+ */
+export const parseMigraineDiaryCSV = (fileBuffer, { preset = 'generic', mapping: overrides = {}, intensityScale, timezone } = {}) => {
+  return new Promise((resolve, reject) => {
+    const rows = [];
+    let headers = [];
+    let mappingResult = { mapping: {}, unmappedColumns: [] };
+    const scale = intensityScale || DIARY_PRESETS[preset]?.intensityScale || 5;
+
+    // Strip a UTF-8 BOM so the first header matches
+    const fileContent = fileBuffer.toString('utf-8').replace(/^\uFEFF/, '');
+    const separator = detectSeparator(fileContent);
+
+    Readable.from(fileContent)
+      .pipe(csvParser({
+        separator,
+        skipEmptyLines: true
+      }))
+      .on('headers', (headerList) => {
+        headers = headerList;
+        mappingResult = buildDiaryMapping(headers, preset, overrides);
+      })
+      .on('data', (row) => {
+        const { entry, errors } = convertDiaryRow(row, mappingResult.mapping, scale, timezone);
+        // Row numbers are 1-based and account for the header line
+        rows.push({ rowNumber: rows.length + 2, entry, errors });
+      })
+      .on('end', () => {
+        resolve({
+          headers,
+          mapping: mappingResult.mapping,
+          unmappedColumns: mappingResult.unmappedColumns,
+          intensityScale: scale,
+          rows
+        });
+      })
+      .on('error', (error) => {
+        reject(error);
+      });
+  });
+};
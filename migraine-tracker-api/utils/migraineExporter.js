@@ -0,0 +1,228 @@
+import { randomUUID } from 'crypto';
+import { query } from '../db/database.js';
+import { DEFAULT_TIMEZONE, localDayStartSql } from './timezone.js';
+
+/**
+ * Migraine Entry Exporter
+ * Reads migraine_entries in batches and formats them as CSV rows,
+ * plain JSON objects or FHIR R4 Condition/Observation resources.
+ */
+
+// All exported columns, in CSV header order (includes the clinical columns from migration_001)
+export const EXPORT_COLUMNS = [
+  'id', 'start_time', 'end_time', 'intensity', 'location',
+  'triggers', 'symptoms', 'medication', 'notes',
+  'duration', 'frequency', 'pain_location', 'pain_character', 'pain_intensity',
+  'nausea', 'vomit', 'phonophobia', 'photophobia', 'visual', 'sensory',
+  'dysphasia', 'dysarthria', 'vertigo', 'tinnitus', 'hypoacusis', 'diplopia',
+  'defect', 'ataxia', 'conscience', 'paresthesia', 'dpf', 'migraine_type',
+  'created_at', 'updated_at'
+];
+
+const EXPORT_BATCH_SIZE = 500;
+
+// Local code system for clinical fields that have no standard code
+const LOCAL_CODE_SYSTEM = 'http://migraine-mapper.app/fhir/CodeSystem/migraine-entry';
+const SNOMED_SYSTEM = 'http://snomed.info/sct';
+
+// Clinical columns exported as Observations (SNOMED codes where one exists)
+const CLINICAL_OBSERVATIONS = [
+  { column: 'duration', display: 'Episode duration category' },
+  { column: 'frequency', display: 'Monthly episode frequency category' },
+  { column: 'pain_location', display: 'Pain location category' },
+  { column: 'pain_character', display: 'Pain character category' },
+  { column: 'pain_intensity', display: 'Pain intensity category' },
+  { column: 'nausea', display: 'Nausea', snomed: '422587007' },
+  { column: 'vomit', display: 'Vomiting', snomed: '422400008' },
+  { column: 'phonophobia', display: 'Phonophobia', snomed: '313387002' },
+  { column: 'photophobia', display: 'Photophobia', snomed: '409668002' },
+  { column: 'visual', display: 'Visual aura symptoms' },
+  { column: 'sensory', display: 'Sensory aura symptoms' },
+  { column: 'dysphasia', display: 'Dysphasia', snomed: '20301004' },
+  { column: 'dysarthria', display: 'Dysarthria', snomed: '8011004' },
+  { column: 'vertigo', display: 'Vertigo', snomed: '399153001' },
+  { column: 'tinnitus', display: 'Tinnitus', snomed: '60862001' },
+  { column: 'hypoacusis', display: 'Hypoacusis', snomed: '15188001' },
+  { column: 'diplopia', display: 'Diplopia', snomed: '24982008' },
+  { column: 'defect', display: 'Visual field defect', snomed: '12184005' },
+  { column: 'ataxia', display: 'Ataxia', snomed: '20262006' },
+  { column: 'conscience', display: 'Decreased level of consciousness', snomed: '443371007' },
+  { column: 'paresthesia', display: 'Paresthesia', snomed: '91019004' },
+  { column: 'dpf', display: 'Family history of migraine' }
+];
+
+/**
+ * Iterate over a user's migraine entries in batches (keyset pagination),
+ * so large exports never hold the whole table in memory.
+ * @param {string} userId - User ID
+ * @param {Object} range - Optional { startDate, endDate } (YYYY-MM-DD, inclusive) and the timezone they are days in
+ * @param {Function} onBatch - Async callback receiving an array of raw rows
+ */
+export const forEachMigraineEntryBatch = async (userId, { startDate, endDate, timezone = DEFAULT_TIMEZONE } = {}, onBatch) => {
+  let lastStartTime = null;
+  let lastId = null;
+
+  while (true) {
+    const queryParams = [userId];
+    let queryText = `
+      SELECT ${EXPORT_COLUMNS.join(', ')}
+      FROM migraine_entries
+      WHERE user_id = $1
+    `;
+
+    if (startDate) {
+      queryText += ` AND start_time >= ${localDayStartSql(`$${queryParams.length + 1}`, `$${queryParams.length + 2}`)}`;
+      queryParams.push(startDate, timezone);
+    }
+    if (endDate) {
+      queryText += ` AND start_time < ${localDayStartSql(`($${queryParams.length + 1}::date + 1)`, `$${queryParams.length + 2}`)}`;
+      queryParams.push(endDate, timezone);
+    }
+    if (lastStartTime) {
+      queryText += ` AND (start_time, id) > ($${queryParams.length + 1}, $${queryParams.length + 2})`;
+      queryParams.push(lastStartTime, lastId);
+    }
+
+    queryText += ` ORDER BY start_time ASC, id ASC LIMIT $${queryParams.length + 1}`;
+    queryParams.push(EXPORT_BATCH_SIZE);
+
+    const result = await query(queryText, queryParams);
+    if (result.rows.length === 0) break;
+
+    await onBatch(result.rows);
+
+    if (result.rows.length < EXPORT_BATCH_SIZE) break;
+    const lastRow = result.rows[result.rows.length - 1];
+    lastStartTime = lastRow.start_time;
+    lastId = lastRow.id;
+  }
+};
+
+// Escape a single CSV value (RFC 4180 quoting)
+const escapeCsvValue = (value) => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV header line for migraine exports
+ * @returns {string} Header line including trailing newline
+ */
+export const buildCsvHeader = () => `${EXPORT_COLUMNS.join(',')}\n`;
+
+/**
+ * Convert a raw database row to a CSV line
+ * @param {Object} row - migraine_entries row
+ * @returns {string} CSV line including trailing newline
+ */
+export const toCsvRow = (row) => `${EXPORT_COLUMNS.map(column => escapeCsvValue(row[column])).join(',')}\n`;
+
+// Map intensity (1-5 app scale) to a SNOMED severity code
+const mapSeverity = (intensity) => {
+  if (intensity <= 2) return { code: '255604002', display: 'Mild' };
+  if (intensity === 3) return { code: '6736007', display: 'Moderate' };
+  return { code: '24484000', display: 'Severe' };
+};
+
+/**
+ * Convert a raw database row to FHIR R4 bundle entries:
+ * one Condition for the episode plus one Observation per recorded measurement.
+ * The Condition references its Observations as evidence.
+ * @param {Object} row - migraine_entries row
+ * @param {string} userId - User ID (used as the Patient reference)
+ * @returns {Array} Bundle entries ({ fullUrl, resource })
+ */
+export const buildFhirEntries = (row, userId) => {
+  const subject = { reference: `Patient/${userId}` };
+  const effectiveDateTime = new Date(row.start_time).toISOString();
+
+  const observationEntries = [];
+  const addObservation = (coding, text, value) => {
+    observationEntries.push({
+      fullUrl: `urn:uuid:${randomUUID()}`,
+      resource: {
+        resourceType: 'Observation',
+        status: 'final',
+        category: [{
+          coding: [{
+            system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+            code: 'survey',
+            display: 'Survey'
+          }]
+        }],
+        code: { coding, text },
+        subject,
+        effectiveDateTime,
+        ...value
+      }
+    });
+  };
+
+  // Patient-reported pain intensity
+  addObservation(
+    [{ system: LOCAL_CODE_SYSTEM, code: 'intensity', display: 'Migraine intensity (1-5)' }],
+    'Migraine intensity',
+    { valueInteger: row.intensity }
+  );
+
+  CLINICAL_OBSERVATIONS.forEach(({ column, display, snomed }) => {
+    if (row[column] === null || row[column] === undefined) return;
+    const coding = [{ system: LOCAL_CODE_SYSTEM, code: column, display }];
+    if (snomed) coding.unshift({ system: SNOMED_SYSTEM, code: snomed, display });
+    addObservation(coding, display, { valueInteger: row[column] });
+  });
+
+  const notes = [
+    row.triggers && `Triggers: ${row.triggers}`,
+    row.symptoms && `Symptoms: ${row.symptoms}`,
+    row.medication && `Medication: ${row.medication}`,
+    row.location && `Location: ${row.location}`,
+    row.migraine_type && `Migraine type: ${row.migraine_type}`,
+    row.notes
+  ].filter(Boolean);
+
+  const severity = mapSeverity(row.intensity);
+  const condition = {
+    resourceType: 'Condition',
+    id: row.id,
+    clinicalStatus: {
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+        code: row.end_time ? 'resolved' : 'active'
+      }]
+    },
+    verificationStatus: {
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status',
+        code: 'confirmed'
+      }]
+    },
+    category: [{
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/condition-category',
+        code: 'problem-list-item'
+      }]
+    }],
+    severity: {
+      coding: [{ system: SNOMED_SYSTEM, code: severity.code, display: severity.display }]
+    },
+    code: {
+      coding: [{ system: SNOMED_SYSTEM, code: '37796009', display: 'Migraine' }],
+      text: row.migraine_type || 'Migraine'
+    },
+    subject,
+    onsetDateTime: effectiveDateTime,
+    ...(row.end_time && { abatementDateTime: new Date(row.end_time).toISOString() }),
+    recordedDate: new Date(row.created_at).toISOString(),
+    evidence: [{
+      detail: observationEntries.map(entry => ({ reference: entry.fullUrl }))
+    }],
+    ...(notes.length > 0 && { note: notes.map(text => ({ text })) })
+  };
+
+  return [
+    { fullUrl: `urn:uuid:${row.id}`, resource: condition },
+    ...observationEntries
+  ];
+};
@@ -0,0 +1,138 @@
+import { query } from '../db/database.js';
+
+/**
+ * Notification Service
+ * Writes notifications to the in-app inbox and delivers them through the external transports
+ * (web push, email) the user enabled. Delivery results are stored per channel on the notification,
+ * so a failing mail server never loses the inbox copy.
+ */
+
+export const DEFAULT_NOTIFICATION_SETTINGS = {
+  forecastsEnabled: true,
+  forecastEngine: 'local',
+  morningHour: 7,
+  eveningHour: 19,
+  riskThreshold: 60,
+  pushEnabled: false,
+  emailEnabled: false,
+  emailAddress: null
+};
+
+/**
+ * Transform a notification row to API format
+ */
+export const transformNotificationForAPI = (row) => ({
+  id: row.id,
+  type: row.type,
+  title: row.title,
+  body: row.body,
+  data: row.data || null,
+  deliveries: row.deliveries || {},
+  readAt: row.read_at ? row.read_at.toISOString() : null,
+  createdAt: row.created_at.toISOString()
+});
+
+/**
+ * Get a user's notification settings (defaults when none are saved)
+ * @param {string} userId - User ID
+ * @returns {Promise<Object>} Settings plus accountEmail
+ */
+export const getNotificationSettings = async (userId) => {
+  const result = await query(
+    `SELECT u.email as account_email, ns.*
+     FROM users u
+     LEFT JOIN notification_settings ns ON ns.user_id = u.id
+     WHERE u.id = $1`,
+    [userId]
+  );
+
+  const row = result.rows[0];
+  if (!row || !row.user_id) {
+    return { ...DEFAULT_NOTIFICATION_SETTINGS, accountEmail: row?.account_email || null };
+  }
+
+  return {
+    forecastsEnabled: row.forecasts_enabled,
+    forecastEngine: row.forecast_engine,
+    morningHour: row.morning_hour,
+    eveningHour: row.evening_hour,
+    riskThreshold: row.risk_threshold,
+    pushEnabled: row.push_enabled,
+    emailEnabled: row.email_enabled,
+    emailAddress: row.email_address,
+    accountEmail: row.account_email
+  };
+};
+
+/**
+ * Deliver a message to every push subscription of a user
+ * Expired subscriptions are removed
+ * @returns {Promise<string>} Delivery status
+ */
+const deliverPush = async (userId, message, transport) => {
+  const subscriptionsResult = await query(
+    `SELECT id, endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = $1`,
+    [userId]
+  );
+
+  if (subscriptionsResult.rows.length === 0) {
+    return 'skipped: no subscribed browsers';
+  }
+
+  let sent = 0;
+  const errors = [];
+  for (const row of subscriptionsResult.rows) {
+    try {
+      await transport.send({ endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } }, message);
+      sent++;
+    } catch (error) {
+      if (error.code === 'SUBSCRIPTION_GONE') {
+        await query(`DELETE FROM push_subscriptions WHERE id = $1`, [row.id]);
+      }
+      errors.push(error.message);
+    }
+  }
+
+  if (sent > 0) return `sent to ${sent} browser${sent === 1 ? '' : 's'}`;
+  return `failed: ${errors[0]}`;
+};
+
+/**
+ * Create an inbox notification and deliver it through the enabled channels
+ * @param {string} userId - User ID
+ * @param {Object} notification - { type, title, body, data, url }
+ * @param {Object} transports - Result of createNotificationTransports
+ * @returns {Promise<Object>} Notification in API format
+ */
+export const sendNotification = async (userId, { type, title, body, data = null, url = null }, transports) => {
+  const settings = await getNotificationSettings(userId);
+  const message = { title, body, url };
+  const deliveries = {};
+
+  if (settings.pushEnabled) {
+    try {
+      deliveries.push = await deliverPush(userId, message, transports.push);
+    } catch (error) {
+      deliveries.push = `failed: ${error.message}`;
+    }
+  }
+
+  if (settings.emailEnabled) {
+    const address = settings.emailAddress || settings.accountEmail;
+    try {
+      await transports.email.send(address, message);
+      deliveries.email = `sent to ${address}`;
+    } catch (error) {
+      deliveries.email = `failed: ${error.message}`;
+    }
+  }
+
+  const result = await query(
+    `INSERT INTO notifications (user_id, type, title, body, data, deliveries)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [userId, type, title, body, data ? JSON.stringify(data) : null, JSON.stringify(deliveries)]
+  );
+
+  return transformNotificationForAPI(result.rows[0]);
+};
@@ -0,0 +1,147 @@
+import nodemailer from 'nodemailer';
+import webpush from 'web-push';
+
+/**
+ * Notification Transports
+ * External delivery channels for alerts; the in-app inbox is always written by the notification
+ * service itself. Each channel is chosen and configured through environment variables.
+ *
+ * Email (EMAIL_TRANSPORT):
+ * - smtp: any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, EMAIL_FROM).
+ *   Defaults to localhost:1025, the Mailpit stand-in from docker-compose.
+ * - log: prints the message to the console
+ * - none: email disabled
+ *
+ * Web push (PUSH_TRANSPORT):
+ * - webpush: VAPID-signed web push (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT)
+ * - log: prints the message to the console
+ * - none: push disabled
+ */
+
+const DEFAULT_EMAIL_FROM = 'Migraine Mapper <alerts@migraine-mapper.local>';
+
+/**
+ * Create an error carrying a code the notification service understands
+ * TRANSPORT_NOT_CONFIGURED, SUBSCRIPTION_GONE (push endpoint expired), DELIVERY_FAILED
+ */
+const transportError = (message, code) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const createLogTransport = (channel) => ({
+  name: 'log',
+  isConfigured: () => true,
+  send: async (target, message) => {
+    const recipient = channel === 'email' ? target : target.endpoint;
+    console.log(`📨 [${channel}] to ${recipient}: ${message.title} - ${message.body}`);
+  }
+});
+
+const createDisabledTransport = () => ({
+  name: 'none',
+  isConfigured: () => false,
+  send: async () => {
+    throw transportError('This notification channel is disabled on the server', 'TRANSPORT_NOT_CONFIGURED');
+  }
+});
+
+const createSmtpTransport = ({ host, port, secure, user, pass, from }) => {
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined
+  });
+
+  return {
+    name: 'smtp',
+    isConfigured: () => !!host,
+    send: async (address, message) => {
+      try {
+        await transporter.sendMail({
+          from,
+          to: address,
+          subject: message.title,
+          text: message.url ? `${message.body}\n\n${message.url}` : message.body
+        });
+      } catch (error) {
+        throw transportError(`Email delivery failed: ${error.message}`, 'DELIVERY_FAILED');
+      }
+    }
+  };
+};
+
+const createWebPushTransport = ({ publicKey, privateKey, subject }) => {
+  const configured = !!(publicKey && privateKey);
+  if (configured) {
+    webpush.setVapidDetails(subject, publicKey, privateKey);
+  }
+
+  return {
+    name: 'webpush',
+    publicKey: publicKey || null,
+    isConfigured: () => configured,
+    send: async (subscription, message) => {
+      if (!configured) {
+        throw transportError('Web push needs VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY on the server', 'TRANSPORT_NOT_CONFIGURED');
+      }
+      try {
+        await webpush.sendNotification(subscription, JSON.stringify(message));
+      } catch (error) {
+        if (error.statusCode === 404 || error.statusCode === 410) {
+          throw transportError('Push subscription has expired', 'SUBSCRIPTION_GONE');
+        }
+        throw transportError(`Push delivery failed: ${error.message}`, 'DELIVERY_FAILED');
+      }
+    }
+  };
+};
+
+/**
+ * Create the transports selected by the environment
+ * @param {Object} env - Environment variables (defaults to process.env)
+ * @returns {Object} { email, push }, each { name, isConfigured(), send(target, { title, body, url }) }
+ */
+export const createNotificationTransports = (env = process.env) => {
+  const emailName = (env.EMAIL_TRANSPORT || 'smtp').toLowerCase();
+  const pushName = (env.PUSH_TRANSPORT || 'webpush').toLowerCase();
+
+  let email;
+  switch (emailName) {
+    case 'smtp':
+      email = createSmtpTransport({
+        host: env.SMTP_HOST || 'localhost',
+        port: parseInt(env.SMTP_PORT || '1025'),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+        from: env.EMAIL_FROM || DEFAULT_EMAIL_FROM
+      });
+      break;
+    case 'log':
+      email = createLogTransport('email');
+      break;
+    default:
+      email = createDisabledTransport();
+  }
+
+  let push;
+  switch (pushName) {
+    case 'webpush':
+      push = createWebPushTransport({
+        publicKey: env.VAPID_PUBLIC_KEY,
+        privateKey: env.VAPID_PRIVATE_KEY,
+        subject: env.VAPID_SUBJECT || 'mailto:alerts@migraine-mapper.local'
+      });
+      break;
+    case 'log':
+      push = createLogTransport('push');
+      break;
+    default:
+      push = createDisabledTransport();
+  }
+
+  return { email, push };
+};
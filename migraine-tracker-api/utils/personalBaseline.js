@@ -0,0 +1,176 @@
+import { query } from '../db/database.js';
+import { getUserTimezone, localDateSql } from './timezone.js';
+
+// Rolling window used for the personal baseline
+export const BASELINE_WINDOW_DAYS = 28;
+// Days with data needed before a metric's baseline is trusted
+export const MIN_BASELINE_DAYS = 7;
+// Robust z-score at which a day is flagged as an anomaly
+export const ANOMALY_Z_THRESHOLD = 2;
+// Scales the MAD to be comparable with a standard deviation for normal data
+const MAD_SCALE = 1.4826;
+
+/**
+ * Metrics with a personal baseline
+ * riskDirection is the direction of change associated with migraine risk ('high', 'low' or 'both')
+ */
+export const BASELINE_METRICS = [
+  { key: 'avgStress', column: 'avg_stress', label: 'Average stress', riskType: 'high_stress', riskDirection: 'high' },
+  { key: 'stressVolatility', column: 'stress_volatility', label: 'Stress volatility', riskType: 'stress_volatility', riskDirection: 'high' },
+  { key: 'avgRecovery', column: 'avg_recovery', label: 'Recovery', riskType: 'low_recovery', riskDirection: 'low' },
+  { key: 'avgHrv', column: 'avg_hrv', label: 'HRV', riskType: 'low_hrv', riskDirection: 'low' },
+  { key: 'restingHeartRate', column: 'resting_heart_rate', label: 'Resting heart rate', riskType: 'high_resting_heart_rate', riskDirection: 'high' },
+  { key: 'avgSleepEfficiency', column: 'avg_sleep_efficiency', label: 'Sleep efficiency', riskType: 'poor_sleep', riskDirection: 'low' },
+  { key: 'avgRestlessPeriods', column: 'avg_restless_periods', label: 'Restless periods', riskType: 'restless_sleep', riskDirection: 'high' },
+  { key: 'avgSkinTemp', column: 'avg_skin_temp', label: 'Skin temperature', riskType: 'skin_temperature_deviation', riskDirection: 'both' }
+];
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Calculate a user's rolling baseline (median and median absolute deviation per metric)
+ * from the daily aggregates of the BASELINE_WINDOW_DAYS days before a date
+ * @param {string} userId - User ID
+ * @param {Date} beforeDate - Baseline covers the window ending just before this moment
+ * @returns {Promise<Object>} { [metricKey]: { median, mad, days } } for metrics with enough data
+ */
+export const calculatePersonalBaseline = async (userId, beforeDate) => {
+  const windowStart = new Date(beforeDate.getTime() - BASELINE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const timezone = await getUserTimezone(userId);
+
+  // Daily aggregates (per local day) computed the same way as calculateSummaryIndicators
+  const result = await query(
+    `SELECT ${localDateSql('timestamp', '$4')} as date,
+            AVG(stress_value) as avg_stress,
+            STDDEV_POP(stress_value) as stress_volatility,
+            AVG(recovery_value) as avg_recovery,
+            AVG(hrv) as avg_hrv,
+            MIN(heart_rate) as resting_heart_rate,
+            AVG(sleep_efficiency) as avg_sleep_efficiency,
+            AVG(restless_periods) as avg_restless_periods,
+            AVG(skin_temperature) as avg_skin_temp
+     FROM wearable_data
+     WHERE user_id = $1
+       AND timestamp >= $2
+       AND timestamp < $3
+     GROUP BY ${localDateSql('timestamp', '$4')}`,
+    [userId, windowStart, beforeDate, timezone]
+  );
+
+  return buildBaselineFromDailyRows(result.rows);
+};
+
+/**
+ * Build a baseline from daily aggregate rows keyed by BASELINE_METRICS column names
+ * @param {Array} rows - Daily aggregates (e.g. { avg_stress, avg_hrv, ... })
+ * @returns {Object} { [metricKey]: { median, mad, days } } for metrics with enough data
+ */
+export const buildBaselineFromDailyRows = (rows) => {
+  const baseline = {};
+
+  BASELINE_METRICS.forEach(({ key, column }) => {
+    const values = rows
+      .map(row => row[column])
+      .filter(value => value !== null && value !== undefined)
+      .map(value => parseFloat(value));
+
+    if (values.length < MIN_BASELINE_DAYS) return;
+
+    const center = median(values);
+    baseline[key] = {
+      median: center,
+      mad: median(values.map(value => Math.abs(value - center))),
+      days: values.length
+    };
+  });
+
+  return baseline;
+};
+
+/**
+ * Compare metric values against a personal baseline using robust z-scores
+ * z = (value - median) / (1.4826 * MAD); metrics with a MAD of 0 are skipped
+ * @param {Object} metrics - Metric values keyed like BASELINE_METRICS (e.g. avgHrv)
+ * @param {Object} baseline - Result of calculatePersonalBaseline
+ * @returns {Array} One deviation per metric with a baseline; isAnomaly when |z| >= ANOMALY_Z_THRESHOLD
+ */
+export const compareToBaseline = (metrics, baseline) => {
+  const deviations = [];
+
+  BASELINE_METRICS.forEach(({ key, label, riskType, riskDirection }) => {
+    const value = metrics[key];
+    const reference = baseline?.[key];
+    if (value === null || value === undefined || !reference || reference.mad === 0) return;
+
+    const zScore = (value - reference.median) / (MAD_SCALE * reference.mad);
+    const direction = zScore >= 0 ? 'high' : 'low';
+
+    deviations.push({
+      metric: key,
+      label,
+      riskType,
+      value,
+      median: reference.median,
+      mad: reference.mad,
+      zScore: Math.round(zScore * 100) / 100,
+      direction,
+      isAnomaly: Math.abs(zScore) >= ANOMALY_Z_THRESHOLD,
+      // Whether the deviation points the way associated with migraine risk
+      isRiskDirection: riskDirection === 'both' || riskDirection === direction
+    });
+  });
+
+  return deviations;
+};
+
+/**
+ * Summarize recent wearable readings (API format) into baseline metric values
+ * @param {Array} wearableData - Readings with stress, recovery, hrv, heartRate, sleepEfficiency, ...
+ * @returns {Object} Metric values keyed like BASELINE_METRICS
+ */
+export const summarizeRecentMetrics = (wearableData) => {
+  const values = (field) => (wearableData || [])
+    .map(entry => entry[field])
+    .filter(value => value !== null && value !== undefined);
+  const avg = (arr) => (arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : null);
+  const stdDev = (arr) => {
+    if (arr.length === 0) return null;
+    const mean = avg(arr);
+    return Math.sqrt(avg(arr.map(v => Math.pow(v - mean, 2))));
+  };
+
+  const heartRates = values('heartRate');
+
+  return {
+    avgStress: avg(values('stress')),
+    stressVolatility: stdDev(values('stress')),
+    avgRecovery: avg(values('recovery')),
+    avgHrv: avg(values('hrv')),
+    restingHeartRate: heartRates.length > 0 ? Math.min(...heartRates) : null,
+    avgSleepEfficiency: avg(values('sleepEfficiency')),
+    avgRestlessPeriods: avg(values('restlessPeriods')),
+    avgSkinTemp: avg(values('skinTemperature'))
+  };
+};
+
+/**
+ * Compare the last 24 hours of readings with the user's baseline for the risk prompt
+ * @param {string} userId - User ID
+ * @param {Array} wearableData - Readings in API format
+ * @param {Date} now - End of the recent window; the baseline ends 24 hours earlier
+ * @returns {Promise<Object>} { deviations, baselineDays }
+ */
+export const getBaselineComparison = async (userId, wearableData, now = new Date()) => {
+  const recentStart = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const baseline = await calculatePersonalBaseline(userId, recentStart);
+  const deviations = compareToBaseline(summarizeRecentMetrics(wearableData), baseline);
+
+  return {
+    deviations,
+    baselineDays: Math.max(0, ...Object.values(baseline).map(metric => metric.days))
+  };
+};
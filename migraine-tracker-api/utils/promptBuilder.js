@@ -1,14 +1,16 @@
 /**
  * AI Prompt Builder for Migraine Risk Analysis
  * Formats wearable data, correlation patterns, and user profile into a comprehensive prompt
+ * The surrounding text comes from a prompt template with {{variable}} placeholders
  */
 
 /**
  * Format wearable data for the prompt
- * @param {Array} wearableData - Last 24 hours of wearable data
+ * @param {Array} wearableData - Hourly wearable data (at most the last 24 hours)
+ * @param {number} hours - Hours the readings cover
  * @returns {string} Formatted wearable data section
  */
-const formatWearableData = (wearableData) => {
+const formatWearableData = (wearableData, hours = 24) => {
   if (!wearableData || wearableData.length === 0) {
     return "No recent wearable data available.";
   }
@@ -30,7 +32,7 @@ const formatWearableData = (wearableData) => {
     };
   });
 
-  // Calculate 24h averages
+  // Calculate averages over the window
   const validStress = wearableData.filter(d => d.stress !== null).map(d => d.stress);
   const validRecovery = wearableData.filter(d => d.recovery !== null).map(d => d.recovery);
   const validHrv = wearableData.filter(d => d.hrv !== null).map(d => d.hrv);
@@ -49,9 +51,9 @@ const formatWearableData = (wearableData) => {
   };
 
   return `
-## Last 24 Hours Wearable Data Summary
+## Last ${hours} Hours Wearable Data Summary
 
-**Overall Metrics (Last 24 Hours):**
+**Overall Metrics (Last ${hours} Hours):**
 - Average Stress Level: ${summary.avgStress} (Max: ${summary.maxStress})
 - Average Recovery Score: ${summary.avgRecovery} (Min: ${summary.minRecovery})
 - Average Heart Rate Variability (HRV): ${summary.avgHrv} ms
@@ -65,6 +67,28 @@ ${hourlyData.slice(-6).map(h =>
 `;
 };
 
+/**
+ * Format daily summary indicators for the part of a long lookback before the hourly readings
+ * One line per day keeps multi-day prompts compact
+ * @param {Array} dailySummaries - Daily summaries, oldest first
+ * @returns {string} Formatted daily summaries section (empty without summaries)
+ */
+const formatDailySummaries = (dailySummaries) => {
+  if (!dailySummaries || dailySummaries.length === 0) {
+    return '';
+  }
+
+  const value = (number, places = 1) => (number !== null && number !== undefined ? number.toFixed(places) : 'N/A');
+
+  return `
+## Earlier Days (Daily Summaries)
+
+${dailySummaries.map(day =>
+  `- ${day.date}: Stress=${value(day.avgStress)} (max ${value(day.maxStress)}), Recovery=${value(day.avgRecovery)}, HRV=${value(day.avgHrv)}ms, Resting HR=${value(day.restingHeartRate, 0)}bpm, Sleep Efficiency=${value(day.avgSleepEfficiency)}%, Skin Temp=${value(day.avgSkinTemperature)}°C${day.anomalies.length > 0 ? `, anomalies: ${day.anomalies.join(', ')}` : ''}`
+).join('\n')}
+`;
+};
+
 /**
  * Format correlation patterns for the prompt
  * @param {Array} patterns - Migraine correlation patterns
@@ -89,8 +113,18 @@ const formatCorrelationPatterns = (patterns) => {
     const strength = Math.abs(p.correlationStrength);
     const direction = p.correlationStrength > 0 ? 'higher' : 'lower';
     const effectSize = strength > 0.3 ? 'strong' : strength > 0.15 ? 'moderate' : 'weak';
-    
-    return `- **${p.patternName}** (${effectSize} correlation): On migraine days, this metric is typically ${direction} (avg: ${p.avgValueOnMigraineDays?.toFixed(1)} vs normal: ${p.avgValueOnNormalDays?.toFixed(1)}). Based on ${p.migraineDaysCount} migraine days analyzed.`;
+
+    // Lifestyle factors and trigger tags are binary exposures reported as odds ratios
+    const definition = p.patternDefinition;
+    if (definition?.kind === 'odds_ratio') {
+      return `- **${p.patternName}** (${effectSize} association, ${definition.lagLabel.toLowerCase()}): Present on ${p.avgValueOnMigraineDays?.toFixed(0)}% of migraine days vs ${p.avgValueOnNormalDays?.toFixed(0)}% of headache-free days (odds ratio ${definition.oddsRatio.toFixed(2)}, 95% CI ${definition.ciLower.toFixed(2)}-${definition.ciUpper.toFixed(2)}). Based on ${p.migraineDaysCount} migraine days analyzed.`;
+    }
+
+    // Lag is the day offset (relative to onset) where the metric differed most
+    const lag = definition?.lag ?? 0;
+    const timing = lag < 0 ? `${Math.abs(lag)} day${lag === -1 ? '' : 's'} before migraine days` : 'On migraine days';
+
+    return `- **${p.patternName}** (${effectSize} correlation): ${timing}, this metric is typically ${direction} (avg: ${p.avgValueOnMigraineDays?.toFixed(1)} vs normal: ${p.avgValueOnNormalDays?.toFixed(1)}). Based on ${p.migraineDaysCount} migraine days analyzed.`;
   }).join('\n');
 
   return `
@@ -102,6 +136,34 @@ ${patternDescriptions}
 `;
 };
 
+/**
+ * Format deviations from the user's personal baseline for the prompt
+ * @param {Object} baselineComparison - Result of getBaselineComparison
+ * @returns {string} Formatted baseline section
+ */
+const formatBaselineDeviations = (baselineComparison) => {
+  if (!baselineComparison || baselineComparison.deviations.length === 0) {
+    return "No personal baseline available yet (needs at least 7 days of wearable data in the last 28 days).";
+  }
+
+  // Largest deviations first
+  const deviations = [...baselineComparison.deviations]
+    .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore));
+
+  const lines = deviations.map(d => {
+    const flag = d.isAnomaly ? (d.isRiskDirection ? ' ⚠️ ANOMALY (risk direction)' : ' (anomaly)') : '';
+    return `- ${d.label}: ${d.value.toFixed(1)} vs personal median ${d.median.toFixed(1)} (z = ${d.zScore > 0 ? '+' : ''}${d.zScore.toFixed(1)}, ${d.direction === 'high' ? 'above' : 'below'} baseline)${flag}`;
+  }).join('\n');
+
+  return `
+## Deviations From Personal Baseline
+
+The user's baseline is the median and median absolute deviation of each metric over the previous 28 days (${baselineComparison.baselineDays} days with data). Robust z-scores of ±2 or more are anomalies for this person, regardless of population norms:
+
+${lines}
+`;
+};
+
 /**
  * Format user profile for the prompt
  * @param {Object} profile - User migraine profile
@@ -138,41 +200,8 @@ const formatUserProfile = (profile) => {
 `;
 };
 
-/**
- * Build complete AI prompt for migraine risk analysis
- * @param {Object} data - Complete data object
- * @param {Array} data.wearableData - Last 24 hours of wearable data
- * @param {Array} data.patterns - Correlation patterns
- * @param {Object} data.profile - User profile
- * @param {boolean} data.isSimulated - Whether data is simulated
- * @returns {string} Complete formatted prompt
- */
-export const buildRiskAnalysisPrompt = (data) => {
-  const { wearableData, patterns, profile, isSimulated } = data;
-
-  const simulatedNote = isSimulated ? `
-
-**⚠️ NOTE: Using Simulated Data for Testing**
-The wearable data below has been manually configured for testing purposes. The AI should analyze these simulated values against the historical patterns to demonstrate its predictive capabilities.
-
-` : '';
-
-  const prompt = `# Migraine Risk Analysis Request
-
-You are an expert migraine specialist analyzing wearable device data to predict migraine risk. Based on the following information, provide a comprehensive 12-hour migraine risk assessment.
-${simulatedNote}
-
-${formatUserProfile(profile)}
-
-${formatWearableData(wearableData)}
-
-${formatCorrelationPatterns(patterns)}
-
-## Instructions
-
-Please analyze the above data and provide a 12-hour migraine risk assessment.
-
-**IMPORTANT: Return your response in BOTH formats:**
+// Output contract the response parser validates against (see aiResponseParser.js)
+const RESPONSE_FORMAT_INSTRUCTIONS = `**IMPORTANT: Return your response in BOTH formats:**
 
 ### 1. JSON Format (First - for parsing):
 Start your response with a JSON object on its own line:
@@ -194,25 +223,149 @@ Then provide a detailed analysis with:
 3. **Key Risk Factors:** Detailed list with comparisons to historical patterns
 4. **Trend Analysis:** How current metrics compare to migraine patterns
 5. **Recommendations:** Specific, actionable preventive steps
-6. **Confidence Level:** Reasoning for your confidence
+6. **Confidence Level:** Reasoning for your confidence`;
+
+/**
+ * Variables available to prompt templates as {{name}}
+ * responseFormat is required: without it the answer cannot be parsed
+ */
+export const PROMPT_TEMPLATE_VARIABLES = {
+  simulatedNote: 'Testing note, only present when the analysis uses simulated wearable data',
+  userProfile: 'Migraine type, frequency, duration, symptoms and family history',
+  wearableData: 'Wearable data for the lookback window: averages and the last 6 hourly readings, plus one line per earlier day when the lookback is longer than 24 hours',
+  baselineDeviations: 'Robust z-scores of the last 24 hours against the 28-day personal baseline',
+  forecastHorizon: 'Length of the forecast, e.g. "12-hour"',
+  correlationPatterns: 'Top 10 historical migraine correlation patterns',
+  responseFormat: 'Required JSON output contract followed by the human-readable sections'
+};
+
+export const REQUIRED_PROMPT_VARIABLES = ['responseFormat'];
+
+// Built-in template; reproduces the original hard-coded prompt exactly
+export const DEFAULT_RISK_PROMPT_TEMPLATE = `# Migraine Risk Analysis Request
+
+You are an expert migraine specialist analyzing wearable device data to predict migraine risk. Based on the following information, provide a comprehensive {{forecastHorizon}} migraine risk assessment.
+{{simulatedNote}}
+
+{{userProfile}}
+
+{{wearableData}}
+
+{{baselineDeviations}}
 
-Focus on comparing current metrics to the user's historical patterns that have correlated with migraines.`;
+{{correlationPatterns}}
 
-  return prompt;
+## Instructions
+
+Please analyze the above data and provide a {{forecastHorizon}} migraine risk assessment.
+
+{{responseFormat}}
+
+Focus on comparing current metrics to the user's historical patterns that have correlated with migraines, and judge whether a metric is high or low relative to the user's personal baseline rather than population norms.`;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+/**
+ * Check a template body for unknown and missing required variables
+ * @param {string} body - Template text with {{variable}} placeholders
+ * @returns {Array<string>} Validation errors (empty when valid)
+ */
+export const validatePromptTemplate = (body) => {
+  if (typeof body !== 'string' || body.trim().length === 0) {
+    return ['Template body is required'];
+  }
+
+  const used = [...body.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+  const errors = [];
+  [...new Set(used)]
+    .filter(name => !PROMPT_TEMPLATE_VARIABLES[name])
+    .forEach(name => errors.push(`Unknown variable {{${name}}}`));
+  REQUIRED_PROMPT_VARIABLES
+    .filter(name => !used.includes(name))
+    .forEach(name => errors.push(`Missing required variable {{${name}}}`));
+  return errors;
 };
 
+/**
+ * Format every template variable from the analysis data
+ * @param {Object} data - Same data object as buildRiskAnalysisPrompt
+ * @returns {Object} Variable name to text
+ */
+export const buildPromptVariables = (data) => {
+  const {
+    wearableData,
+    dailySummaries,
+    patterns,
+    profile,
+    baselineComparison,
+    isSimulated,
+    lookbackHours = 24,
+    horizonHours = 12
+  } = data;
+
+  const simulatedNote = isSimulated ? `
+
+**⚠️ NOTE: Using Simulated Data for Testing**
+The wearable data below has been manually configured for testing purposes. The AI should analyze these simulated values against the historical patterns to demonstrate its predictive capabilities.
+
+` : '';
+
+  return {
+    simulatedNote,
+    userProfile: formatUserProfile(profile),
+    wearableData: formatWearableData(wearableData, Math.min(lookbackHours, 24)) + formatDailySummaries(dailySummaries),
+    baselineDeviations: formatBaselineDeviations(baselineComparison),
+    forecastHorizon: `${horizonHours}-hour`,
+    correlationPatterns: formatCorrelationPatterns(patterns),
+    responseFormat: RESPONSE_FORMAT_INSTRUCTIONS
+  };
+};
+
+/**
+ * Replace {{variable}} placeholders (unknown variables are left as written)
+ * @param {string} template - Template text
+ * @param {Object} variables - Variable name to text
+ * @returns {string} Rendered text
+ */
+export const renderPromptTemplate = (template, variables) =>
+  template.replace(VARIABLE_PATTERN, (placeholder, name) => (name in variables ? variables[name] : placeholder));
+
+/**
+ * Build complete AI prompt for migraine risk analysis
+ * @param {Object} data - Complete data object
+ * @param {Array} data.wearableData - Hourly wearable data (at most the last 24 hours)
+ * @param {Array} data.dailySummaries - Daily summaries for the rest of a longer lookback
+ * @param {number} data.lookbackHours - Hours of data the forecast is based on (default 24)
+ * @param {number} data.horizonHours - Hours ahead the forecast covers (default 12)
+ * @param {Array} data.patterns - Correlation patterns
+ * @param {Object} data.profile - User profile
+ * @param {Object} data.baselineComparison - Last 24 hours compared with the personal baseline
+ * @param {boolean} data.isSimulated - Whether data is simulated
+ * @param {string} template - Prompt template body (defaults to the built-in template)
+ * @returns {string} Complete formatted prompt
+ */
+export const buildRiskAnalysisPrompt = (data, template = DEFAULT_RISK_PROMPT_TEMPLATE) =>
+  renderPromptTemplate(template, buildPromptVariables(data));
+
 /**
  * Build a simple summary for display
  * @param {Object} data - Complete data object
  * @returns {Object} Summary statistics
  */
 export const buildDataSummary = (data) => {
-  const { wearableData, patterns, profile } = data;
+  const { wearableData, dailySummaries, patterns, profile, baselineComparison } = data;
   
   return {
     hasWearableData: wearableData && wearableData.length > 0,
     dataPoints: wearableData?.length || 0,
+    dailySummaryDays: dailySummaries?.length || 0,
     patternCount: patterns?.length || 0,
+    baselineAnomalies: baselineComparison?.deviations.filter(d => d.isAnomaly).map(d => ({
+      metric: d.metric,
+      label: d.label,
+      zScore: d.zScore,
+      isRiskDirection: d.isRiskDirection
+    })) || [],
     migraineType: profile?.diagnosedType || 'Unknown',
     timeRange: wearableData && wearableData.length > 0 ? {
       start: wearableData[0]?.timestamp,
@@ -0,0 +1,131 @@
+import { query } from '../db/database.js';
+import { DEFAULT_RISK_PROMPT_TEMPLATE } from './promptBuilder.js';
+
+/**
+ * Prompt Template Manager
+ * Picks the prompt template for an LLM risk analysis and describes it for the assessment record.
+ * Order: an explicitly requested template, then a running A/B experiment (random arm per
+ * assessment, split_percent of them using B), then the user's active template, then the built-in one.
+ */
+
+export const BUILTIN_TEMPLATE_VERSION = 'builtin v1';
+
+const templateLabel = (name, version) => `${name} v${version}`;
+
+const promptTemplateError = (message, code) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+/**
+ * Transform a prompt_templates row to API format
+ */
+export const transformPromptTemplateForAPI = (row) => ({
+  id: row.id,
+  name: row.name,
+  version: row.version,
+  label: templateLabel(row.name, row.version),
+  body: row.body,
+  notes: row.notes || null,
+  isActive: row.is_active,
+  createdAt: new Date(row.created_at).toISOString()
+});
+
+/**
+ * Transform a prompt_experiments row (joined with both template names/versions) to API format
+ */
+export const transformPromptExperimentForAPI = (row) => ({
+  id: row.id,
+  name: row.name,
+  templateA: { id: row.template_a_id, label: templateLabel(row.template_a_name, row.template_a_version) },
+  templateB: { id: row.template_b_id, label: templateLabel(row.template_b_name, row.template_b_version) },
+  splitPercent: row.split_percent,
+  status: row.status,
+  startedAt: new Date(row.started_at).toISOString(),
+  stoppedAt: row.stopped_at ? new Date(row.stopped_at).toISOString() : null
+});
+
+export const PROMPT_EXPERIMENT_SELECT = `
+  SELECT e.*, ta.name as template_a_name, ta.version as template_a_version,
+         tb.name as template_b_name, tb.version as template_b_version
+  FROM prompt_experiments e
+  JOIN prompt_templates ta ON ta.id = e.template_a_id
+  JOIN prompt_templates tb ON tb.id = e.template_b_id`;
+
+/**
+ * Store a template as the next version of its name (version 1 for a new name)
+ * @param {string} userId - User ID
+ * @param {Object} template - { name, body, notes }
+ * @returns {Promise<Object>} Created row
+ */
+export const createPromptTemplateVersion = async (userId, { name, body, notes }) => {
+  const result = await query(
+    `INSERT INTO prompt_templates (user_id, name, version, body, notes)
+     SELECT $1, $2, COALESCE(MAX(version), 0) + 1, $3, $4
+     FROM prompt_templates
+     WHERE user_id = $1 AND name = $2
+     RETURNING *`,
+    [userId, name, body, notes || null]
+  );
+  return result.rows[0];
+};
+
+/**
+ * Choose the prompt template for one LLM risk analysis
+ * @param {string} userId - User ID
+ * @param {Object} options
+ * @param {string} options.templateId - Use this template version instead of the experiment/active one
+ * @param {boolean} options.assignVariant - Whether a running experiment may assign an arm (false for previews)
+ * @returns {Promise<Object>} { body, templateId, templateVersion, experimentId, variant }
+ */
+export const selectPromptTemplate = async (userId, { templateId = null, assignVariant = true } = {}) => {
+  if (templateId) {
+    const result = await query(
+      `SELECT * FROM prompt_templates WHERE id = $1 AND user_id = $2`,
+      [templateId, userId]
+    );
+    if (result.rows.length === 0) {
+      throw promptTemplateError('Prompt template not found', 'TEMPLATE_NOT_FOUND');
+    }
+    const row = result.rows[0];
+    return { body: row.body, templateId: row.id, templateVersion: templateLabel(row.name, row.version), experimentId: null, variant: null };
+  }
+
+  if (assignVariant) {
+    const experimentResult = await query(
+      `SELECT e.id, e.split_percent,
+              ta.id as a_id, ta.name as a_name, ta.version as a_version, ta.body as a_body,
+              tb.id as b_id, tb.name as b_name, tb.version as b_version, tb.body as b_body
+       FROM prompt_experiments e
+       JOIN prompt_templates ta ON ta.id = e.template_a_id
+       JOIN prompt_templates tb ON tb.id = e.template_b_id
+       WHERE e.user_id = $1 AND e.status = 'running'`,
+      [userId]
+    );
+
+    if (experimentResult.rows.length > 0) {
+      const experiment = experimentResult.rows[0];
+      const variant = Math.random() * 100 < experiment.split_percent ? 'B' : 'A';
+      const arm = variant === 'A' ? 'a' : 'b';
+      return {
+        body: experiment[`${arm}_body`],
+        templateId: experiment[`${arm}_id`],
+        templateVersion: templateLabel(experiment[`${arm}_name`], experiment[`${arm}_version`]),
+        experimentId: experiment.id,
+        variant
+      };
+    }
+  }
+
+  const activeResult = await query(
+    `SELECT * FROM prompt_templates WHERE user_id = $1 AND is_active = true`,
+    [userId]
+  );
+  if (activeResult.rows.length > 0) {
+    const row = activeResult.rows[0];
+    return { body: row.body, templateId: row.id, templateVersion: templateLabel(row.name, row.version), experimentId: null, variant: null };
+  }
+
+  return { body: DEFAULT_RISK_PROMPT_TEMPLATE, templateId: null, templateVersion: BUILTIN_TEMPLATE_VERSION, experimentId: null, variant: null };
+};
@@ -0,0 +1,130 @@
+import { analyzeMigraineCorrelations } from './migraineCorrelationAnalyzer.js';
+import { analyzeLifestyleCorrelations } from './lifestyleCorrelationAnalyzer.js';
+import {
+  computeForecastMetrics,
+  loadMigraineOutcomes,
+  DEFAULT_FORECAST_HORIZON_HOURS,
+  DEFAULT_ALERT_THRESHOLD
+} from './forecastEvaluator.js';
+import { addDaysToKey, getUserTimezone, zonedTimeToUtc } from './timezone.js';
+
+/**
+ * Risk Backtester
+ * Replays risk forecasts over a past date range. Each day is scored from the lookback window of
+ * wearable data ending at the forecast hour and the correlation patterns that could have been
+ * computed at that moment, then compared with what actually happened in the following forecast horizon.
+ * Days and the forecast hour are in the user's timezone, like the scheduled forecasts.
+ */
+
+// Longest range per engine (the AI engine makes one provider call per day)
+export const MAX_BACKTEST_DAYS = { local: 366, llm: 31 };
+// Local hour of day at which each daily forecast is made, i.e. the end of its input window
+export const DEFAULT_FORECAST_HOUR = 8;
+
+/**
+ * Correlation patterns as they would have been computed at a point in time
+ * Same fields and order as the stored migraine_correlations used for live prompts
+ * @param {string} userId - User ID
+ * @param {Date} asOf - Only data recorded before this time is used
+ * @returns {Promise<Array>} Patterns sorted by absolute correlation strength
+ */
+export const getPatternsKnownAt = async (userId, asOf) => {
+  const wearableAnalysis = await analyzeMigraineCorrelations(userId, { before: asOf });
+  const lifestyleAnalysis = await analyzeLifestyleCorrelations(userId, { before: asOf });
+
+  return [...wearableAnalysis.patterns, ...lifestyleAnalysis.patterns]
+    .sort((a, b) => Math.abs(b.correlationStrength || 0) - Math.abs(a.correlationStrength || 0));
+};
+
+/**
+ * Run a backtest over a date range
+ * @param {string} userId - User ID
+ * @param {Object} options
+ * @param {string} options.startDate - First forecast day (YYYY-MM-DD, local)
+ * @param {string} options.endDate - Last forecast day (YYYY-MM-DD, local)
+ * @param {number} options.hour - Forecast hour (local time)
+ * @param {number} options.lookbackHours - Hours of data before each forecast
+ * @param {number} options.horizonHours - Hours after each forecast checked for a migraine
+ * @param {number} options.threshold - Alert threshold in percent
+ * @param {Date} options.now - Forecasts whose horizon has not passed by now are left out
+ * @param {Function} runForecast - async ({ windowStart, windowEnd, patterns }) => { analysis, dataPoints },
+ *   or null when there is no wearable data for the window
+ * @returns {Promise<Object>} { days, metrics, skipped, timezone, lookbackHours, horizonHours, ... }
+ */
+export const runBacktest = async (
+  userId,
+  {
+    startDate,
+    endDate,
+    hour = DEFAULT_FORECAST_HOUR,
+    lookbackHours = 24,
+    horizonHours = DEFAULT_FORECAST_HORIZON_HOURS,
+    threshold = DEFAULT_ALERT_THRESHOLD,
+    now = new Date()
+  },
+  runForecast
+) => {
+  const horizonMs = horizonHours * 60 * 60 * 1000;
+  const timezone = await getUserTimezone(userId);
+  const hadMigraineAfter = await loadMigraineOutcomes(userId);
+
+  const days = [];
+  const skipped = { noData: 0, unparseable: 0, pending: 0 };
+
+  for (let date = startDate; date <= endDate; date = addDaysToKey(date, 1)) {
+    const [year, month, day] = date.split('-').map(Number);
+    const windowEnd = zonedTimeToUtc({ year, month, day, hour }, timezone);
+    const windowStart = new Date(windowEnd.getTime() - lookbackHours * 60 * 60 * 1000);
+
+    if (windowEnd.getTime() + horizonMs > now.getTime()) {
+      skipped.pending++;
+      continue;
+    }
+
+    const patterns = await getPatternsKnownAt(userId, windowEnd);
+    const result = await runForecast({ windowStart, windowEnd, patterns });
+
+    if (!result) {
+      skipped.noData++;
+      days.push({ date, windowEnd: windowEnd.toISOString(), status: 'no_data', patternsCount: patterns.length });
+      continue;
+    }
+
+    const { analysis, dataPoints } = result;
+    const outcome = hadMigraineAfter(windowEnd, horizonHours);
+
+    if (typeof analysis.riskLevel !== 'number') {
+      skipped.unparseable++;
+      days.push({ date, windowEnd: windowEnd.toISOString(), status: 'unparseable', patternsCount: patterns.length, dataPoints, outcome });
+      continue;
+    }
+
+    days.push({
+      date,
+      windowEnd: windowEnd.toISOString(),
+      status: 'ok',
+      riskLevel: analysis.riskLevel,
+      riskCategory: analysis.riskCategory,
+      confidenceLevel: analysis.confidenceLevel,
+      patternsCount: patterns.length,
+      dataPoints,
+      outcome
+    });
+  }
+
+  const forecasts = days
+    .filter(day => day.status === 'ok')
+    .map(day => ({ probability: day.riskLevel / 100, outcome: day.outcome }));
+
+  return {
+    startDate,
+    endDate,
+    hour,
+    timezone,
+    lookbackHours,
+    horizonHours,
+    days,
+    metrics: computeForecastMetrics(forecasts, threshold),
+    skipped
+  };
+};
@@ -0,0 +1,75 @@
+import { query } from '../db/database.js';
+import { enqueueJob } from './jobRunner.js';
+import { DEFAULT_NOTIFICATION_SETTINGS } from './notificationService.js';
+import { DEFAULT_TIMEZONE, addDaysToKey, getUserTimezone, toLocalDateKey, zonedTimeToUtc } from './timezone.js';
+
+/**
+ * Risk Forecast Scheduler
+ * Plans a morning and an evening risk forecast per user. On every runner tick, each user's current
+ * slot (the latest morning or evening hour that has passed) gets one risk_forecast job, but only once
+ * wearable data newer than the user's previous scheduled forecast has arrived. Users who have not
+ * uploaded anything since then are checked again on the next tick, until the slot ends.
+ * Forecast hours are wall-clock hours in the user's timezone.
+ */
+
+export const RISK_FORECAST_JOB = 'risk_forecast';
+
+/**
+ * Find the latest forecast slot that has started
+ * @param {Date} now - Current time
+ * @param {number} morningHour - Morning forecast hour (local time)
+ * @param {number} eveningHour - Evening forecast hour (local time)
+ * @param {string} timezone - User's IANA timezone
+ * @returns {{ slot: 'morning'|'evening', date: string, slotTime: Date }} date is the slot's local day
+ */
+export const getCurrentForecastSlot = (now, morningHour, eveningHour, timezone = DEFAULT_TIMEZONE) => {
+  const today = toLocalDateKey(now, timezone);
+  const candidates = [];
+  [addDaysToKey(today, -1), today].forEach(date => {
+    const [year, month, day] = date.split('-').map(Number);
+    candidates.push({ slot: 'morning', date, slotTime: zonedTimeToUtc({ year, month, day, hour: morningHour }, timezone) });
+    candidates.push({ slot: 'evening', date, slotTime: zonedTimeToUtc({ year, month, day, hour: eveningHour }, timezone) });
+  });
+
+  return candidates
+    .filter(candidate => candidate.slotTime <= now)
+    .sort((a, b) => b.slotTime - a.slotTime)[0];
+};
+
+/**
+ * Enqueue the forecasts that are due
+ * @param {Date} now - Current time
+ * @returns {Promise<number>} Jobs enqueued
+ */
+export const scheduleDueForecasts = async (now = new Date()) => {
+  const usersResult = await query(
+    `SELECT u.id as user_id,
+            COALESCE(ns.morning_hour, $1) as morning_hour,
+            COALESCE(ns.evening_hour, $2) as evening_hour,
+            (SELECT MAX(w.created_at) FROM wearable_data w WHERE w.user_id = u.id) as last_data_at,
+            (SELECT MAX(r.created_at) FROM risk_assessments r
+             WHERE r.user_id = u.id AND r.source = 'scheduled') as last_forecast_at
+     FROM users u
+     LEFT JOIN notification_settings ns ON ns.user_id = u.id
+     WHERE COALESCE(ns.forecasts_enabled, $3)
+       AND EXISTS (SELECT 1 FROM wearable_data w WHERE w.user_id = u.id)`,
+    [DEFAULT_NOTIFICATION_SETTINGS.morningHour, DEFAULT_NOTIFICATION_SETTINGS.eveningHour, DEFAULT_NOTIFICATION_SETTINGS.forecastsEnabled]
+  );
+
+  let enqueued = 0;
+  for (const row of usersResult.rows) {
+    const hasNewData = !row.last_forecast_at || row.last_data_at > row.last_forecast_at;
+    if (!hasNewData) continue;
+
+    const timezone = await getUserTimezone(row.user_id);
+    const { slot, date, slotTime } = getCurrentForecastSlot(now, row.morning_hour, row.evening_hour, timezone);
+    const jobId = await enqueueJob(RISK_FORECAST_JOB, {
+      userId: row.user_id,
+      payload: { slot, slotTime: slotTime.toISOString() },
+      dedupeKey: `${RISK_FORECAST_JOB}:${row.user_id}:${date}:${slot}`
+    });
+    if (jobId) enqueued++;
+  }
+
+  return enqueued;
+};
@@ -0,0 +1,198 @@
+/**
+ * What-if Scenario Simulator
+ * A scenario describes the last 24 hours before a forecast as hourly time series. It starts from the
+ * user's recorded readings or from constant values, and segments overwrite one metric over a range of
+ * hours, either held at a value or ramping between two ("stress ramps up over the last 10 hours",
+ * "sleep efficiency 70% overnight"). The series replaces the recorded readings in a risk forecast;
+ * assessments made from it are always stored as simulated.
+ */
+
+export const SCENARIO_HOURS = 24;
+export const MAX_SCENARIO_SEGMENTS = 50;
+export const MAX_COMPARED_SCENARIOS = 4;
+
+// Scenario metric -> reading field and plausible range
+export const SCENARIO_METRICS = {
+  stress: { field: 'stress', label: 'Stress', min: 0, max: 100 },
+  recovery: { field: 'recovery', label: 'Recovery', min: 0, max: 100 },
+  hrv: { field: 'hrv', label: 'HRV', min: 0, max: 300 },
+  heartRate: { field: 'heartRate', label: 'Heart rate', min: 30, max: 220 },
+  sleepEfficiency: { field: 'sleepEfficiency', label: 'Sleep efficiency', min: 0, max: 100 },
+  skinTemp: { field: 'skinTemperature', label: 'Skin temperature', min: 25, max: 42 }
+};
+
+const READING_FIELDS = [
+  'stress',
+  'recovery',
+  'heartRate',
+  'hrv',
+  'sleepEfficiency',
+  'sleepHeartRate',
+  'skinTemperature',
+  'restlessPeriods'
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+const checkValue = (metric, value, label) => {
+  const { min, max } = SCENARIO_METRICS[metric];
+  if (!isNumber(value) || value < min || value > max) {
+    return `${label} must be a number between ${min} and ${max}`;
+  }
+  return null;
+};
+
+/**
+ * Validate and normalize a scenario definition
+ * @param {Object} definition - { base: 'recorded' | 'constant', constants, segments }
+ * @returns {Object} { scenario } or { error }
+ */
+export const validateScenario = (definition) => {
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    return { error: 'scenario must be an object' };
+  }
+
+  const base = definition.base || 'recorded';
+  if (!['recorded', 'constant'].includes(base)) {
+    return { error: "scenario.base must be 'recorded' or 'constant'" };
+  }
+
+  const constants = {};
+  if (base === 'constant') {
+    for (const [metric, value] of Object.entries(definition.constants || {})) {
+      if (!SCENARIO_METRICS[metric]) return { error: `Unknown scenario metric: ${metric}` };
+      if (value === null || value === undefined) continue;
+      const error = checkValue(metric, value, `constants.${metric}`);
+      if (error) return { error };
+      constants[metric] = value;
+    }
+  }
+
+  const segments = definition.segments || [];
+  if (!Array.isArray(segments)) return { error: 'scenario.segments must be an array' };
+  if (segments.length > MAX_SCENARIO_SEGMENTS) {
+    return { error: `A scenario can have at most ${MAX_SCENARIO_SEGMENTS} segments` };
+  }
+
+  const normalizedSegments = [];
+  for (const [index, segment] of segments.entries()) {
+    const label = `segments[${index}]`;
+    if (!segment || !SCENARIO_METRICS[segment.metric]) {
+      return { error: `${label}.metric must be one of ${Object.keys(SCENARIO_METRICS).join(', ')}` };
+    }
+    const { metric, startHour, endHour, startValue, endValue } = segment;
+    if (!Number.isInteger(startHour) || !Number.isInteger(endHour) ||
+        startHour < 0 || endHour > SCENARIO_HOURS || startHour >= endHour) {
+      return { error: `${label} must cover hours within 0-${SCENARIO_HOURS} (startHour before endHour)` };
+    }
+    const startError = checkValue(metric, startValue, `${label}.startValue`);
+    if (startError) return { error: startError };
+    if (endValue !== undefined && endValue !== null) {
+      const endError = checkValue(metric, endValue, `${label}.endValue`);
+      if (endError) return { error: endError };
+    }
+    normalizedSegments.push({
+      metric,
+      startHour,
+      endHour,
+      startValue,
+      ...(isNumber(endValue) ? { endValue } : {})
+    });
+  }
+
+  if (base === 'constant' && Object.keys(constants).length === 0 && normalizedSegments.length === 0) {
+    return { error: 'A constant scenario needs at least one value or segment' };
+  }
+
+  return { scenario: { base, constants, segments: normalizedSegments } };
+};
+
+/**
+ * Turn the old flat simulated metrics into a constant scenario
+ * @param {Object} simulatedData - { stress, recovery, hrv, heartRate, sleepEfficiency, skinTemp }
+ * @returns {Object} Scenario definition (not yet validated)
+ */
+export const scenarioFromSimulatedMetrics = (simulatedData) => ({
+  base: 'constant',
+  constants: Object.fromEntries(
+    Object.entries(simulatedData || {}).filter(([metric, value]) => SCENARIO_METRICS[metric] && isNumber(value))
+  ),
+  segments: []
+});
+
+/**
+ * Value a segment gives at an hour: held at startValue, or a straight line to endValue at its last hour
+ */
+const segmentValue = (segment, hour) => {
+  if (!isNumber(segment.endValue)) return segment.startValue;
+  const span = segment.endHour - segment.startHour - 1;
+  if (span <= 0) return segment.endValue;
+  const progress = (hour - segment.startHour) / span;
+  return Math.round((segment.startValue + (segment.endValue - segment.startValue) * progress) * 10) / 10;
+};
+
+/**
+ * Build the hourly readings of a scenario for the 24 hours ending at `now`
+ * Hour 0 is the first hour of the window and hour 23 the one just before the forecast
+ * @param {Object} scenario - Validated scenario definition
+ * @param {Array} recordedReadings - Recorded readings in API format (used when base is 'recorded')
+ * @param {Date} now - Forecast time
+ * @param {number} hours - Trailing hours to return (at most SCENARIO_HOURS)
+ * @returns {Array} Readings in API format, oldest first (hours with no value at all are left out)
+ */
+export const buildScenarioReadings = (scenario, recordedReadings, now, hours = SCENARIO_HOURS) => {
+  const windowStart = now.getTime() - SCENARIO_HOURS * HOUR_MS;
+
+  // Recorded readings are averaged per hour so the series has one point per hour
+  const buckets = Array.from({ length: SCENARIO_HOURS }, () => ({}));
+  if (scenario.base === 'recorded') {
+    for (const reading of recordedReadings || []) {
+      const hour = Math.floor((new Date(reading.timestamp).getTime() - windowStart) / HOUR_MS);
+      if (hour < 0 || hour >= SCENARIO_HOURS) continue;
+      for (const field of READING_FIELDS) {
+        if (reading[field] === null || reading[field] === undefined) continue;
+        (buckets[hour][field] = buckets[hour][field] || []).push(reading[field]);
+      }
+    }
+  }
+
+  const readings = buckets.map((bucket, hour) => {
+    const reading = { timestamp: new Date(windowStart + (hour + 1) * HOUR_MS).toISOString() };
+    for (const field of READING_FIELDS) {
+      const values = bucket[field];
+      reading[field] = values
+        ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+        : null;
+    }
+    for (const [metric, value] of Object.entries(scenario.constants || {})) {
+      reading[SCENARIO_METRICS[metric].field] = value;
+    }
+    return reading;
+  });
+
+  // Later segments win where they overlap
+  for (const segment of scenario.segments) {
+    const { field } = SCENARIO_METRICS[segment.metric];
+    for (let hour = segment.startHour; hour < segment.endHour; hour++) {
+      readings[hour][field] = segmentValue(segment, hour);
+    }
+  }
+
+  return readings
+    .slice(SCENARIO_HOURS - Math.min(hours, SCENARIO_HOURS))
+    .filter(reading => READING_FIELDS.some(field => reading[field] !== null));
+};
+
+/**
+ * Transform a saved scenario from the database to API format
+ */
+export const transformScenarioForAPI = (row) => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || undefined,
+  scenario: row.definition,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
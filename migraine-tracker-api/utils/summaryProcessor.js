@@ -1,8 +1,12 @@
 import { query } from '../db/database.js';
 import { processMigraineCorrelations } from './migraineCorrelationAnalyzer.js';
+import { calculatePersonalBaseline, compareToBaseline } from './personalBaseline.js';
+import { getUserTimezone, toLocalDateKey, addDaysToKey, getLocalDayBounds } from './timezone.js';
 
 /**
  * Calculate summary indicators from wearable data for a given time period
+ * Risk factors are judged against the user's rolling 28-day baseline where one exists,
+ * falling back to fixed population thresholds for metrics without enough history
  * @param {string} userId - User ID
  * @param {Date} periodStart - Start of the period
  * @param {Date} periodEnd - End of the period
@@ -94,6 +98,21 @@ export const calculateSummaryIndicators = async (userId, periodStart, periodEnd)
     ? Math.max(...skinTemps) - Math.min(...skinTemps) 
     : null;
 
+  // Compare with the user's personal baseline (28 days before this period)
+  const baseline = await calculatePersonalBaseline(userId, periodStart);
+  const deviations = compareToBaseline({
+    avgStress,
+    stressVolatility,
+    avgRecovery,
+    avgHrv,
+    restingHeartRate,
+    avgSleepEfficiency,
+    avgRestlessPeriods,
+    avgSkinTemp
+  }, baseline);
+  const anomalies = deviations.filter(d => d.isAnomaly);
+  const hrvDeviation = deviations.find(d => d.metric === 'avgHrv');
+
   // Calculate overall wellness score (0-100)
   // Higher score = better wellness
   let wellnessScore = 50; // Base score
@@ -118,8 +137,11 @@ export const calculateSummaryIndicators = async (userId, periodStart, periodEnd)
   
   // HRV component (higher is generally better, but varies by person)
   if (avgHrv !== null) {
-    // Normalize HRV (assuming 20-80ms is typical range)
-    const normalizedHrv = Math.min(100, Math.max(0, (avgHrv - 20) / 60 * 100));
+    // Normalize against the personal baseline (median = 50) when available,
+    // otherwise assume 20-80ms is the typical range
+    const normalizedHrv = hrvDeviation
+      ? Math.min(100, Math.max(0, 50 + hrvDeviation.zScore * 20))
+      : Math.min(100, Math.max(0, (avgHrv - 20) / 60 * 100));
     const hrvScore = normalizedHrv / 100 * 25; // Up to 25 points
     wellnessScore += hrvScore;
   }
@@ -128,28 +150,45 @@ export const calculateSummaryIndicators = async (userId, periodStart, periodEnd)
 
   // Identify risk factors
   const riskFactors = [];
+
+  // Personal baseline: anomalies in the direction associated with migraine risk
+  anomalies
+    .filter(anomaly => anomaly.isRiskDirection)
+    .forEach(anomaly => {
+      riskFactors.push({
+        type: anomaly.riskType,
+        value: anomaly.value,
+        severity: Math.abs(anomaly.zScore) >= 3 ? 'high' : 'moderate',
+        basis: 'personal_baseline',
+        baselineMedian: anomaly.median,
+        zScore: anomaly.zScore
+      });
+    });
+
+  // Population thresholds for metrics without a personal baseline yet
+  const hasBaseline = new Set(deviations.map(d => d.metric));
   
-  if (avgStress !== null && avgStress > 25) {
-    riskFactors.push({ type: 'high_stress', value: avgStress, severity: 'moderate' });
+  if (!hasBaseline.has('avgStress') && avgStress !== null && avgStress > 25) {
+    riskFactors.push({ type: 'high_stress', value: avgStress, severity: 'moderate', basis: 'population' });
   }
-  if (avgStress !== null && avgStress > 35) {
-    riskFactors.push({ type: 'very_high_stress', value: avgStress, severity: 'high' });
+  if (!hasBaseline.has('avgStress') && avgStress !== null && avgStress > 35) {
+    riskFactors.push({ type: 'very_high_stress', value: avgStress, severity: 'high', basis: 'population' });
   }
   
-  if (avgRecovery !== null && avgRecovery < 30) {
-    riskFactors.push({ type: 'low_recovery', value: avgRecovery, severity: 'moderate' });
+  if (!hasBaseline.has('avgRecovery') && avgRecovery !== null && avgRecovery < 30) {
+    riskFactors.push({ type: 'low_recovery', value: avgRecovery, severity: 'moderate', basis: 'population' });
   }
   
-  if (avgHrv !== null && avgHrv < 30) {
-    riskFactors.push({ type: 'low_hrv', value: avgHrv, severity: 'moderate' });
+  if (!hasBaseline.has('avgHrv') && avgHrv !== null && avgHrv < 30) {
+    riskFactors.push({ type: 'low_hrv', value: avgHrv, severity: 'moderate', basis: 'population' });
   }
   
-  if (avgSleepEfficiency !== null && avgSleepEfficiency < 80) {
-    riskFactors.push({ type: 'poor_sleep', value: avgSleepEfficiency, severity: 'moderate' });
+  if (!hasBaseline.has('avgSleepEfficiency') && avgSleepEfficiency !== null && avgSleepEfficiency < 80) {
+    riskFactors.push({ type: 'poor_sleep', value: avgSleepEfficiency, severity: 'moderate', basis: 'population' });
   }
   
-  if (stressVolatility !== null && stressVolatility > 5) {
-    riskFactors.push({ type: 'stress_volatility', value: stressVolatility, severity: 'moderate' });
+  if (!hasBaseline.has('stressVolatility') && stressVolatility !== null && stressVolatility > 5) {
+    riskFactors.push({ type: 'stress_volatility', value: stressVolatility, severity: 'moderate', basis: 'population' });
   }
   
   if (stressTrend === 'increasing') {
@@ -183,19 +222,25 @@ export const calculateSummaryIndicators = async (userId, periodStart, periodEnd)
     tempVariation,
     overallWellnessScore: Math.round(wellnessScore * 100) / 100,
     riskFactors: riskFactors.length > 0 ? riskFactors : null,
+    baseline: Object.keys(baseline).length > 0 ? baseline : null,
+    anomalies: anomalies.length > 0 ? anomalies : null,
     dataPointsCount: dataPoints.length
   };
 };
 
 /**
  * Process and save summary indicators for a user
- * Processes daily summaries for the last 30 days or until last processed date
+ * Processes daily summaries for the last 30 days or until last processed date. Days are
+ * calendar days in the user's timezone (23 or 25 hours long around DST changes).
  * @param {string} userId - User ID
  * @param {boolean} forceReprocess - Force reprocessing even if already processed
+ * @param {Date} since - Process from the day of this moment instead of the last 30 days
  * @returns {Promise<Object>} Processing results
  */
-export const processSummaryIndicators = async (userId, forceReprocess = false) => {
+export const processSummaryIndicators = async (userId, forceReprocess = false, since = null) => {
   try {
+    const timezone = await getUserTimezone(userId);
+
     // Check when we last processed for this user
     let lastProcessedDate = null;
     if (!forceReprocess) {
@@ -210,32 +255,28 @@ export const processSummaryIndicators = async (userId, forceReprocess = false) =
       }
     }
 
-    // Get date range to process (last 30 days or since last processed)
-    const endDate = new Date();
-    endDate.setHours(23, 59, 59, 999);
-    
-    const startDate = new Date();
-    if (lastProcessedDate) {
+    // Get local days to process (last 30 days or since last processed)
+    const todayKey = toLocalDateKey(new Date(), timezone);
+    const endDate = new Date(getLocalDayBounds(todayKey, timezone).end.getTime() - 1);
+
+    let dayKey;
+    if (since) {
+      dayKey = toLocalDateKey(since, timezone);
+    } else if (lastProcessedDate) {
       // Process from day after last processed
-      startDate.setTime(lastProcessedDate.getTime() + 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
+      dayKey = addDaysToKey(toLocalDateKey(lastProcessedDate, timezone), 1);
     } else {
       // Process last 30 days
-      startDate.setDate(startDate.getDate() - 30);
-      startDate.setHours(0, 0, 0, 0);
+      dayKey = addDaysToKey(todayKey, -30);
     }
 
     // Process each day
     const processedDays = [];
     const errors = [];
-    const currentDate = new Date(startDate);
 
-    while (currentDate <= endDate) {
-      const dayStart = new Date(currentDate);
-      dayStart.setHours(0, 0, 0, 0);
-      
-      const dayEnd = new Date(currentDate);
-      dayEnd.setHours(23, 59, 59, 999);
+    for (; dayKey <= todayKey; dayKey = addDaysToKey(dayKey, 1)) {
+      const { start: dayStart, end: nextDayStart } = getLocalDayBounds(dayKey, timezone);
+      const dayEnd = new Date(nextDayStart.getTime() - 1);
 
       try {
         const indicators = await calculateSummaryIndicators(userId, dayStart, dayEnd);
@@ -259,8 +300,9 @@ export const processSummaryIndicators = async (userId, forceReprocess = false) =
                 avg_sleep_efficiency = $14, avg_sleep_heart_rate = $15, avg_restless_periods = $16,
                 avg_skin_temperature = $17, temperature_variation = $18,
                 overall_wellness_score = $19, risk_factors = $20,
-                data_points_count = $21, updated_at = CURRENT_TIMESTAMP
-               WHERE user_id = $22 AND period_start = $23 AND period_end = $24`,
+                data_points_count = $21, baseline = $22, anomalies = $23,
+                updated_at = CURRENT_TIMESTAMP
+               WHERE user_id = $24 AND period_start = $25 AND period_end = $26`,
               [
                 indicators.avgStress,
                 indicators.maxStress,
@@ -283,6 +325,8 @@ export const processSummaryIndicators = async (userId, forceReprocess = false) =
                 indicators.overallWellnessScore,
                 indicators.riskFactors ? JSON.stringify(indicators.riskFactors) : null,
                 indicators.dataPointsCount,
+                indicators.baseline ? JSON.stringify(indicators.baseline) : null,
+                indicators.anomalies ? JSON.stringify(indicators.anomalies) : null,
                 userId,
                 dayStart,
                 dayEnd
@@ -299,8 +343,9 @@ export const processSummaryIndicators = async (userId, forceReprocess = false) =
                 avg_hrv, hrv_trend, hrv_volatility,
                 avg_sleep_efficiency, avg_sleep_heart_rate, avg_restless_periods,
                 avg_skin_temperature, temperature_variation,
-                overall_wellness_score, risk_factors, data_points_count)
-               VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)`,
+                overall_wellness_score, risk_factors, data_points_count,
+                baseline, anomalies)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26)`,
               [
                 userId,
                 dayStart,
@@ -325,23 +370,22 @@ export const processSummaryIndicators = async (userId, forceReprocess = false) =
                 indicators.tempVariation,
                 indicators.overallWellnessScore,
                 indicators.riskFactors ? JSON.stringify(indicators.riskFactors) : null,
-                indicators.dataPointsCount
+                indicators.dataPointsCount,
+                indicators.baseline ? JSON.stringify(indicators.baseline) : null,
+                indicators.anomalies ? JSON.stringify(indicators.anomalies) : null
               ]
             );
           }
           
-          processedDays.push(dayStart.toISOString().split('T')[0]);
+          processedDays.push(dayKey);
         }
       } catch (error) {
-        console.error(`Error processing day ${dayStart.toISOString().split('T')[0]}:`, error);
+        console.error(`Error processing day ${dayKey}:`, error);
         errors.push({
-          date: dayStart.toISOString().split('T')[0],
+          date: dayKey,
           error: error.message
         });
       }
-
-      // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
     }
 
     // Analyze migraine correlations (always run this to update patterns)
@@ -0,0 +1,181 @@
+import { query } from '../db/database.js';
+
+/**
+ * User Timezones
+ * Timestamps are stored as instants (TIMESTAMPTZ); a "day" is a calendar day in the IANA timezone
+ * on the user's profile (UTC until they set one). SQL buckets with DATE(ts AT TIME ZONE tz) (see
+ * localDateSql) and JavaScript with the helpers below, which go through Intl so days around DST
+ * transitions are 23 or 25 hours long.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const formatters = new Map();
+
+const pad = (value) => String(value).padStart(2, '0');
+
+/**
+ * Check whether a string is an IANA timezone name known to the runtime (e.g. 'Europe/Berlin')
+ */
+export const isValidTimezone = (timezone) => {
+  if (typeof timezone !== 'string' || !timezone.trim()) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock parts of an instant in a timezone
+const zonedParts = (date, timezone) => {
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }));
+  }
+  const parts = Object.fromEntries(
+    formatters.get(timezone).formatToParts(date).map(({ type, value }) => [type, value])
+  );
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour) % 24,
+    minute: parseInt(parts.minute),
+    second: parseInt(parts.second)
+  };
+};
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds (e.g. +36000000 for UTC+10)
+ */
+export const getTimezoneOffset = (date, timezone) => {
+  const parts = zonedParts(date, timezone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - (date.getTime() - date.getUTCMilliseconds());
+};
+
+/**
+ * Local calendar day of an instant as 'YYYY-MM-DD'
+ */
+export const toLocalDateKey = (date, timezone = DEFAULT_TIMEZONE) => {
+  const parts = zonedParts(new Date(date), timezone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+/**
+ * Local hour (0-23) of an instant
+ */
+export const getLocalHour = (date, timezone = DEFAULT_TIMEZONE) => zonedParts(new Date(date), timezone).hour;
+
+/**
+ * Instant of a local wall-clock time
+ * Wall-clock times that don't exist or repeat around a DST change (02:30 on the night clocks
+ * move) are shifted by the DST gap or resolved to one of their occurrences.
+ * @param {Object} parts - { year, month (1-12), day, hour, minute, second, millisecond }
+ * @param {string} timezone - IANA timezone
+ * @returns {Date}
+ */
+export const zonedTimeToUtc = ({ year, month, day, hour = 0, minute = 0, second = 0, millisecond = 0 }, timezone) => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  // The offset at the wall-clock time read as UTC is at most one DST change away; correct once
+  const firstGuess = wallClock - getTimezoneOffset(new Date(wallClock), timezone);
+  return new Date(wallClock - getTimezoneOffset(new Date(firstGuess), timezone));
+};
+
+/**
+ * Parse a local date-time without a zone ('YYYY-MM-DD', 'YYYY-MM-DDTHH:mm[:ss[.fff]]')
+ * @returns {Date|null} The instant in the timezone, or null when the text has another format
+ */
+export const parseLocalDateTime = (text, timezone = DEFAULT_TIMEZONE) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?$/.exec(String(text).trim());
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(part => parseInt(part || '0'));
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) return null;
+  return zonedTimeToUtc({
+    year, month, day, hour, minute, second,
+    millisecond: match[7] ? Math.round(parseFloat(`0.${match[7]}`) * 1000) : 0
+  }, timezone);
+};
+
+/**
+ * Local wall-clock time of an instant as 'HH:MM'
+ */
+export const toLocalTimeKey = (date, timezone = DEFAULT_TIMEZONE) => {
+  const parts = zonedParts(new Date(date), timezone);
+  return `${pad(parts.hour)}:${pad(parts.minute)}`;
+};
+
+/**
+ * 'YYYY-MM-DD' key of a DATE column value
+ * node-pg reads DATE values as midnight of the server's local zone, so the key comes from the
+ * local components (toISOString would give the previous day on servers east of UTC)
+ */
+export const toDateColumnKey = (value) => {
+  if (typeof value === 'string') return value.slice(0, 10);
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+};
+
+/**
+ * Add days to a 'YYYY-MM-DD' key
+ */
+export const addDaysToKey = (dateKey, days) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
+
+/**
+ * First instant of a local calendar day
+ */
+export const startOfLocalDay = (dateKey, timezone = DEFAULT_TIMEZONE) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return zonedTimeToUtc({ year, month, day }, timezone);
+};
+
+/**
+ * Bounds of a local calendar day: start inclusive, end exclusive (23-25 hours apart)
+ */
+export const getLocalDayBounds = (dateKey, timezone = DEFAULT_TIMEZONE) => ({
+  start: startOfLocalDay(dateKey, timezone),
+  end: startOfLocalDay(addDaysToKey(dateKey, 1), timezone)
+});
+
+/**
+ * Bound of a date filter: a 'YYYY-MM-DD' day is taken in the timezone (its first instant, or its
+ * last with end: true); other values are passed through as timestamps
+ */
+export const localDateBound = (value, timezone = DEFAULT_TIMEZONE, { end = false } = {}) => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  if (!end) return startOfLocalDay(value, timezone);
+  return new Date(startOfLocalDay(addDaysToKey(value, 1), timezone).getTime() - 1);
+};
+
+/**
+ * SQL expression for the local calendar day of a TIMESTAMPTZ column
+ * @param {string} column - Column expression, e.g. 'timestamp' or 'e.start_time'
+ * @param {string} timezoneParam - Placeholder holding the timezone, e.g. '$2'
+ */
+export const localDateSql = (column, timezoneParam) => `DATE(${column} AT TIME ZONE ${timezoneParam})`;
+
+/**
+ * SQL expression for the first instant of a local day given as a 'YYYY-MM-DD' parameter
+ */
+export const localDayStartSql = (dateParam, timezoneParam) => `(${dateParam}::date::timestamp AT TIME ZONE ${timezoneParam})`;
+
+/**
+ * Get a user's timezone from their profile
+ * @returns {Promise<string>} IANA timezone (DEFAULT_TIMEZONE when not set)
+ */
+export const getUserTimezone = async (userId) => {
+  const result = await query(`SELECT timezone FROM user_profiles WHERE user_id = $1`, [userId]);
+  const timezone = result.rows[0]?.timezone;
+  return isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+};
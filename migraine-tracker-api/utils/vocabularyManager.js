@@ -0,0 +1,365 @@
+import { query } from '../db/database.js';
+
+/**
+ * Term kinds and their categories
+ * Categories group canonical terms so statistics can report e.g. "sleep" triggers as a whole
+ */
+export const TERM_CATEGORIES = {
+  trigger: {
+    stress: 'Stress',
+    sleep: 'Sleep',
+    diet: 'Food & drink',
+    hormonal: 'Hormonal',
+    weather: 'Weather',
+    sensory: 'Light, noise & smells',
+    physical: 'Physical activity & posture',
+    other: 'Other'
+  },
+  symptom: {
+    aura: 'Aura',
+    gastrointestinal: 'Nausea & stomach',
+    sensitivity: 'Light, sound & smell sensitivity',
+    neurological: 'Neurological',
+    pain: 'Pain',
+    fatigue: 'Fatigue',
+    other: 'Other'
+  }
+};
+
+export const TERM_KINDS = Object.keys(TERM_CATEGORIES);
+
+// Keywords used to pick a category when a term is created from free text
+const CATEGORY_KEYWORDS = {
+  trigger: {
+    stress: ['stress', 'anxiety', 'work', 'deadline', 'argument', 'worry'],
+    sleep: ['sleep', 'insomnia', 'nap', 'jet lag', 'oversleep'],
+    diet: ['alcohol', 'wine', 'beer', 'caffeine', 'coffee', 'chocolate', 'cheese', 'meal', 'food', 'sugar', 'fasting', 'dehydrat', 'water', 'msg'],
+    hormonal: ['period', 'menstrua', 'ovulation', 'hormon', 'pill'],
+    weather: ['weather', 'pressure', 'heat', 'humid', 'storm', 'cold front'],
+    sensory: ['light', 'noise', 'loud', 'smell', 'perfume', 'screen', 'glare', 'flicker'],
+    physical: ['exercise', 'workout', 'posture', 'neck', 'travel', 'exertion', 'sport']
+  },
+  symptom: {
+    aura: ['aura', 'zigzag', 'zig-zag', 'scotoma', 'blind spot', 'flashing', 'sparkl', 'tingl', 'pins and needles'],
+    gastrointestinal: ['nausea', 'nauseous', 'vomit', 'stomach', 'diarrh'],
+    sensitivity: ['sensitiv', 'photophobia', 'phonophobia', 'osmophobia'],
+    neurological: ['dizz', 'vertigo', 'numb', 'confus', 'speech', 'word', 'vision', 'blurred'],
+    pain: ['throb', 'pulsat', 'pound', 'stabbing', 'neck pain', 'ache'],
+    fatigue: ['fatigue', 'tired', 'yawn', 'exhaust']
+  }
+};
+
+/**
+ * Normalize a free-text value for matching (trim, collapse whitespace, lowercase)
+ * @param {string} value - Free-text trigger or symptom
+ * @returns {string} Normalized value
+ */
+export const normalizeTerm = (value) => String(value ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Split a comma-separated triggers/symptoms string into values
+ * @param {string|string[]} values - Comma-separated string or array of values
+ * @returns {string[]} Trimmed, non-empty values
+ */
+export const splitTermText = (values) => {
+  const list = Array.isArray(values) ? values : [values];
+  return list
+    .flatMap(value => String(value ?? '').split(','))
+    .map(value => value.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+};
+
+/**
+ * Guess a category for a new term from its name
+ * @param {string} kind - 'trigger' or 'symptom'
+ * @param {string} value - Term name
+ * @returns {string} Category key ('other' when nothing matches)
+ */
+export const guessTermCategory = (kind, value) => {
+  const normalized = normalizeTerm(value);
+  const match = Object.entries(CATEGORY_KEYWORDS[kind] || {})
+    .find(([, keywords]) => keywords.some(keyword => normalized.includes(keyword)));
+  return match ? match[0] : 'other';
+};
+
+// Display name for a term created from free text ("  work   stress" -> "Work stress")
+const toDisplayName = (value) => {
+  const cleaned = String(value).replace(/\s+/g, ' ').trim();
+  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+};
+
+// Run queries on a transaction client when given, otherwise on the pool
+const runner = (client) => (client ? (text, params) => client.query(text, params) : query);
+
+/**
+ * Create a resolver that maps free-text values to vocabulary terms of one kind
+ * The vocabulary is loaded once; unknown values become new terms with a guessed category
+ * @param {string} userId - User ID
+ * @param {string} kind - 'trigger' or 'symptom'
+ * @param {Object} [client] - Optional transaction client
+ * @returns {Promise<Function>} async (values) => terms ({ id, name, category, aliases }[])
+ */
+export const createTermResolver = async (userId, kind, client) => {
+  const run = runner(client);
+
+  const existing = await run(
+    'SELECT id, name, category, aliases FROM vocabulary_terms WHERE user_id = $1 AND kind = $2',
+    [userId, kind]
+  );
+
+  // Aliases first so a canonical name always wins over another term's alias
+  const lookup = new Map();
+  existing.rows.forEach(term => term.aliases.forEach(alias => lookup.set(alias, term)));
+  existing.rows.forEach(term => lookup.set(normalizeTerm(term.name), term));
+
+  return async (values) => {
+    const resolved = new Map();
+
+    for (const value of splitTermText(values)) {
+      const key = normalizeTerm(value);
+      let term = lookup.get(key);
+
+      if (!term) {
+        const inserted = await run(
+          `INSERT INTO vocabulary_terms (user_id, kind, name, category)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (user_id, kind, LOWER(name)) DO UPDATE SET name = vocabulary_terms.name
+           RETURNING id, name, category, aliases`,
+          [userId, kind, toDisplayName(value).substring(0, 100), guessTermCategory(kind, value)]
+        );
+        term = inserted.rows[0];
+        lookup.set(key, term);
+      }
+
+      resolved.set(term.id, term);
+    }
+
+    return Array.from(resolved.values());
+  };
+};
+
+/**
+ * Resolve free-text values to vocabulary terms (creating unknown ones)
+ * @param {string} userId - User ID
+ * @param {string} kind - 'trigger' or 'symptom'
+ * @param {string|string[]} values - Comma-separated string or array of values
+ * @param {Object} [client] - Optional transaction client
+ * @returns {Promise<Array>} Resolved terms in input order, without duplicates
+ */
+export const resolveTerms = async (userId, kind, values, client) => {
+  if (splitTermText(values).length === 0) return [];
+  const resolve = await createTermResolver(userId, kind, client);
+  return resolve(values);
+};
+
+/**
+ * Join canonical term names into the comma-separated text stored on entries
+ * @param {Array} terms - Resolved terms
+ * @returns {string} e.g. "Stress, Poor sleep"
+ */
+export const joinTermNames = (terms) => terms.map(term => term.name).join(', ');
+
+/**
+ * Replace the links of one kind between an entry and vocabulary terms
+ * @param {string} entryId - Migraine entry ID
+ * @param {string} kind - 'trigger' or 'symptom'
+ * @param {string[]} termIds - Term IDs to link
+ * @param {Object} [client] - Optional transaction client
+ */
+export const linkEntryTerms = async (entryId, kind, termIds, client) => {
+  const run = runner(client);
+
+  await run(
+    `DELETE FROM migraine_entry_terms
+     WHERE migraine_entry_id = $1
+       AND term_id IN (SELECT id FROM vocabulary_terms WHERE kind = $2)`,
+    [entryId, kind]
+  );
+
+  if (termIds.length > 0) {
+    await run(
+      `INSERT INTO migraine_entry_terms (migraine_entry_id, term_id)
+       SELECT $1, UNNEST($2::uuid[])
+       ON CONFLICT DO NOTHING`,
+      [entryId, termIds]
+    );
+  }
+};
+
+/**
+ * Rewrite the triggers/symptoms text of entries from their linked terms
+ * @param {string[]} entryIds - Migraine entry IDs
+ * @param {Object} [client] - Optional transaction client
+ */
+export const refreshEntryTermText = async (entryIds, client) => {
+  if (entryIds.length === 0) return;
+  const run = runner(client);
+
+  await run(
+    `UPDATE migraine_entries e SET
+       triggers = COALESCE((
+         SELECT string_agg(t.name, ', ' ORDER BY t.name)
+         FROM migraine_entry_terms et
+         JOIN vocabulary_terms t ON t.id = et.term_id
+         WHERE et.migraine_entry_id = e.id AND t.kind = 'trigger'
+       ), ''),
+       symptoms = COALESCE((
+         SELECT string_agg(t.name, ', ' ORDER BY t.name)
+         FROM migraine_entry_terms et
+         JOIN vocabulary_terms t ON t.id = et.term_id
+         WHERE et.migraine_entry_id = e.id AND t.kind = 'symptom'
+       ), '')
+     WHERE e.id = ANY($1::uuid[])`,
+    [entryIds]
+  );
+};
+
+/**
+ * Link every existing entry of a user to vocabulary terms, resolving its free text
+ * Used once for entries logged before vocabularies existed (and safe to re-run)
+ * @param {string} userId - User ID
+ * @param {Object} client - Transaction client
+ * @returns {Promise<Object>} Number of entries processed and terms in the vocabulary
+ */
+export const syncEntriesWithVocabulary = async (userId, client) => {
+  const entries = await client.query(
+    `SELECT id, triggers, symptoms FROM migraine_entries
+     WHERE user_id = $1
+       AND (COALESCE(triggers, '') != '' OR COALESCE(symptoms, '') != '')`,
+    [userId]
+  );
+
+  const resolvers = {
+    trigger: await createTermResolver(userId, 'trigger', client),
+    symptom: await createTermResolver(userId, 'symptom', client)
+  };
+
+  for (const entry of entries.rows) {
+    const triggerTerms = await resolvers.trigger(entry.triggers || '');
+    const symptomTerms = await resolvers.symptom(entry.symptoms || '');
+    await linkEntryTerms(entry.id, 'trigger', triggerTerms.map(term => term.id), client);
+    await linkEntryTerms(entry.id, 'symptom', symptomTerms.map(term => term.id), client);
+  }
+
+  await refreshEntryTermText(entries.rows.map(entry => entry.id), client);
+
+  const termCount = await client.query(
+    'SELECT COUNT(*) as count FROM vocabulary_terms WHERE user_id = $1',
+    [userId]
+  );
+
+  return {
+    entriesProcessed: entries.rows.length,
+    termCount: parseInt(termCount.rows[0].count)
+  };
+};
+
+/**
+ * Merge source terms into a target term
+ * Entries linked to a source are re-linked to the target, source names become aliases
+ * @param {string} userId - User ID
+ * @param {string} targetId - Term that remains
+ * @param {string[]} sourceIds - Terms merged into the target (deleted afterwards)
+ * @param {Object} client - Transaction client
+ * @returns {Promise<Object|null>} Updated target and merge counts, or null if the target was not found
+ */
+export const mergeTerms = async (userId, targetId, sourceIds, client) => {
+  const targetResult = await client.query(
+    'SELECT id, kind, name, aliases FROM vocabulary_terms WHERE id = $1 AND user_id = $2',
+    [targetId, userId]
+  );
+  if (targetResult.rows.length === 0) return null;
+  const target = targetResult.rows[0];
+
+  // Only terms of the same kind can be merged
+  const sourcesResult = await client.query(
+    `SELECT id, name, aliases FROM vocabulary_terms
+     WHERE id = ANY($1::uuid[]) AND user_id = $2 AND kind = $3 AND id != $4`,
+    [sourceIds, userId, target.kind, target.id]
+  );
+  const sources = sourcesResult.rows;
+  const mergedIds = sources.map(source => source.id);
+
+  if (mergedIds.length === 0) {
+    return { target, mergedTerms: 0, affectedEntries: 0 };
+  }
+
+  const affected = await client.query(
+    'SELECT DISTINCT migraine_entry_id FROM migraine_entry_terms WHERE term_id = ANY($1::uuid[])',
+    [mergedIds]
+  );
+  const affectedEntryIds = affected.rows.map(row => row.migraine_entry_id);
+
+  await client.query(
+    `INSERT INTO migraine_entry_terms (migraine_entry_id, term_id)
+     SELECT migraine_entry_id, $1 FROM migraine_entry_terms WHERE term_id = ANY($2::uuid[])
+     ON CONFLICT DO NOTHING`,
+    [target.id, mergedIds]
+  );
+
+  const targetKey = normalizeTerm(target.name);
+  const aliases = Array.from(new Set([
+    ...target.aliases,
+    ...sources.flatMap(source => [normalizeTerm(source.name), ...source.aliases])
+  ])).filter(alias => alias && alias !== targetKey);
+
+  // Cascade removes the sources' own links
+  await client.query('DELETE FROM vocabulary_terms WHERE id = ANY($1::uuid[])', [mergedIds]);
+
+  const updated = await client.query(
+    `UPDATE vocabulary_terms SET aliases = $1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2
+     RETURNING id, kind, name, category, aliases, created_at, updated_at`,
+    [aliases, target.id]
+  );
+
+  await refreshEntryTermText(affectedEntryIds, client);
+
+  return {
+    target: updated.rows[0],
+    mergedTerms: mergedIds.length,
+    affectedEntries: affectedEntryIds.length
+  };
+};
+
+/**
+ * Count entries per canonical term and per category
+ * @param {string} userId - User ID
+ * @param {string} kind - 'trigger' or 'symptom'
+ * @returns {Promise<Object>} { terms: [{ name, category, count }], categories: [{ category, label, count }] }
+ */
+export const getTermStatistics = async (userId, kind) => {
+  const termResult = await query(
+    `SELECT t.name, t.category, COUNT(et.migraine_entry_id) as count
+     FROM vocabulary_terms t
+     JOIN migraine_entry_terms et ON et.term_id = t.id
+     WHERE t.user_id = $1 AND t.kind = $2
+     GROUP BY t.id, t.name, t.category
+     ORDER BY count DESC, t.name ASC`,
+    [userId, kind]
+  );
+
+  // Entries are counted once per category even when several of its terms were recorded
+  const categoryResult = await query(
+    `SELECT t.category, COUNT(DISTINCT et.migraine_entry_id) as count
+     FROM vocabulary_terms t
+     JOIN migraine_entry_terms et ON et.term_id = t.id
+     WHERE t.user_id = $1 AND t.kind = $2
+     GROUP BY t.category
+     ORDER BY count DESC`,
+    [userId, kind]
+  );
+
+  return {
+    terms: termResult.rows.map(row => ({
+      name: row.name,
+      category: row.category,
+      count: parseInt(row.count)
+    })),
+    categories: categoryResult.rows.map(row => ({
+      category: row.category,
+      label: TERM_CATEGORIES[kind]?.[row.category] || row.category,
+      count: parseInt(row.count)
+    }))
+  };
+};
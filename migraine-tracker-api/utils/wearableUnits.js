@@ -0,0 +1,257 @@
+import { FIELD_COLUMNS } from './importers/importerUtils.js';
+
+/**
+ * Wearable Units
+ * Each wearable_data column has one expected unit. Uploads don't declare units, so the unit of a
+ * mapped column is inferred from its name ('Skin temp (°F)', 'hrv_seconds') or, failing that,
+ * from the typical (median) value: a sleep efficiency of 0.87 is a fraction rather than a
+ * percentage, a skin temperature of 93 is Fahrenheit and one of -0.3 is a deviation from the
+ * user's baseline rather than an absolute reading. Values are converted to the expected unit;
+ * temperature deviations can't be, so they are kept in additional_data instead. Values outside a
+ * physiologically plausible range are dropped and reported as row errors.
+ */
+
+// Standardized field -> expected unit
+export const FIELD_UNITS = {
+  stress: 'score',
+  recovery: 'score',
+  heartRate: 'bpm',
+  hrv: 'ms',
+  sleepEfficiency: 'percent',
+  sleepHeartRate: 'bpm',
+  skinTemperature: 'celsius',
+  restlessPeriods: 'count'
+};
+
+// Standardized field -> units its values can be read in (the expected unit first)
+export const FIELD_UNIT_OPTIONS = {
+  stress: ['score', 'fraction'],
+  recovery: ['score', 'fraction'],
+  heartRate: ['bpm'],
+  hrv: ['ms', 'seconds'],
+  sleepEfficiency: ['percent', 'fraction'],
+  sleepHeartRate: ['bpm'],
+  skinTemperature: ['celsius', 'fahrenheit', 'deviation'],
+  restlessPeriods: ['count']
+};
+
+// Readable unit names
+export const UNIT_LABELS = {
+  score: 'score 0-100',
+  bpm: 'beats per minute',
+  ms: 'milliseconds',
+  seconds: 'seconds',
+  percent: 'percent',
+  fraction: 'fraction 0-1',
+  celsius: '°C',
+  fahrenheit: '°F',
+  deviation: 'deviation from baseline (°C)',
+  count: 'count'
+};
+
+// Short unit suffixes for error messages
+const UNIT_SYMBOLS = {
+  bpm: ' bpm',
+  ms: ' ms',
+  seconds: ' s',
+  percent: '%',
+  celsius: ' °C',
+  fahrenheit: ' °F'
+};
+
+const withUnit = (value, unit) => `${value}${UNIT_SYMBOLS[unit] || ''}`;
+
+// Plausible range of each field in its expected unit
+export const PLAUSIBLE_RANGES = {
+  stress: [0, 100],
+  recovery: [0, 100],
+  heartRate: [25, 250],
+  hrv: [1, 500],
+  sleepEfficiency: [0, 100],
+  sleepHeartRate: [25, 200],
+  skinTemperature: [25, 43],
+  restlessPeriods: [0, 500]
+};
+
+// Temperature deviations are kept in additional_data under this key
+export const TEMPERATURE_DEVIATION_KEY = 'skin_temperature_deviation';
+const MAX_TEMPERATURE_DEVIATION = 5;
+
+const FIELD_NAMES = {
+  stress: 'Stress',
+  recovery: 'Recovery',
+  heartRate: 'Heart rate',
+  hrv: 'HRV',
+  sleepEfficiency: 'Sleep efficiency',
+  sleepHeartRate: 'Sleep heart rate',
+  skinTemperature: 'Skin temperature',
+  restlessPeriods: 'Restless periods'
+};
+
+// Value in a unit -> value in the field's expected unit
+const CONVERSIONS = {
+  fraction: value => value * 100,
+  seconds: value => value * 1000,
+  fahrenheit: value => (value - 32) * 5 / 9
+};
+
+// Units named in column headers, checked in order ('ms' before 'seconds')
+const COLUMN_UNIT_HINTS = [
+  ['deviation', /deviation|delta|\bdev\b|_dev$/i],
+  ['fahrenheit', /fahrenheit|°\s*f\b|\(f\)|[_\s]f$|\bdeg_?f\b/i],
+  ['celsius', /celsius|°\s*c\b|\(c\)|[_\s]c$|\bdeg_?c\b/i],
+  ['ms', /millisecond|\bms\b|\(ms\)|_ms$/i],
+  ['seconds', /\bsec(ond)?s?\b|\(s\)|_s$/i],
+  ['fraction', /fraction|ratio/i],
+  ['percent', /%|percent|pct/i]
+];
+
+const round = (value) => Math.round(value * 100) / 100;
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Guess the unit of a field from its median value
+ */
+const guessUnitFromValue = (field, typical) => {
+  switch (field) {
+    case 'stress':
+    case 'recovery':
+    case 'sleepEfficiency':
+      return Math.abs(typical) <= 1 ? 'fraction' : FIELD_UNITS[field];
+    case 'hrv':
+      return typical < 1 ? 'seconds' : 'ms';
+    case 'skinTemperature':
+      if (Math.abs(typical) < MAX_TEMPERATURE_DEVIATION) return 'deviation';
+      return typical > 50 ? 'fahrenheit' : 'celsius';
+    default:
+      return FIELD_UNITS[field];
+  }
+};
+
+/**
+ * Unit named in the header of a column mapped to the field, if it is one the field can be read in
+ */
+const guessUnitFromColumns = (field, columns) => {
+  for (const [column, mappedField] of Object.entries(columns)) {
+    if (mappedField !== field) continue;
+    const hint = COLUMN_UNIT_HINTS.find(([unit, pattern]) =>
+      FIELD_UNIT_OPTIONS[field].includes(unit) && pattern.test(column));
+    if (hint) return hint[0];
+  }
+  return null;
+};
+
+/**
+ * Validate unit overrides
+ * @param {Object} units - field -> unit (see FIELD_UNIT_OPTIONS)
+ * @returns {string|null} Error message or null
+ */
+export const validateUnitOverrides = (units) => {
+  if (!units || typeof units !== 'object' || Array.isArray(units)) {
+    return 'units must be an object of field -> unit';
+  }
+  for (const [field, unit] of Object.entries(units)) {
+    if (!FIELD_UNIT_OPTIONS[field]) {
+      return `units: unknown field "${field}"`;
+    }
+    if (!FIELD_UNIT_OPTIONS[field].includes(unit)) {
+      return `units for ${field} must be one of ${FIELD_UNIT_OPTIONS[field].join(', ')}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Infer the unit of every mapped field from a set of rows
+ * @param {Array} rows - Rows in the shape of streamWearableCSV
+ * @param {Object} options - { columns: column -> field (the upload's field mapping), units: field -> unit overrides }
+ * @returns {Object} Per field { unit, guessedUnit, expectedUnit, source, converted, label, options, typicalValue, count }
+ */
+export const inferWearableUnits = (rows, options = {}) => {
+  const columns = options.columns || {};
+  const overrides = options.units || {};
+  const units = {};
+
+  for (const [field, column] of Object.entries(FIELD_COLUMNS)) {
+    const values = rows.map(row => row[column]).filter(value => typeof value === 'number' && Number.isFinite(value));
+    if (values.length === 0) continue;
+
+    const typical = median(values);
+    const columnUnit = guessUnitFromColumns(field, columns);
+    const guessedUnit = columnUnit || guessUnitFromValue(field, typical);
+    const unit = overrides[field] || guessedUnit;
+    units[field] = {
+      unit,
+      guessedUnit,
+      expectedUnit: FIELD_UNITS[field],
+      source: overrides[field] ? 'override' : columnUnit ? 'column' : 'values',
+      converted: unit !== FIELD_UNITS[field],
+      label: UNIT_LABELS[unit],
+      options: FIELD_UNIT_OPTIONS[field].map(option => ({ unit: option, label: UNIT_LABELS[option] })),
+      typicalValue: round(typical),
+      count: values.length
+    };
+  }
+
+  return units;
+};
+
+/**
+ * Convert values to the expected units
+ * @param {Array} rows - Rows in the shape of streamWearableCSV
+ * @param {Object} units - field -> { unit } (see inferWearableUnits)
+ * @returns {Object} { data, errors } - converted rows (rows left without values are dropped) and
+ * { timestamp, error } for every row with implausible values (those values are not imported)
+ */
+export const convertWearableUnits = (rows, units) => {
+  const errors = [];
+  const data = [];
+  for (const row of rows) {
+    const converted = { ...row, additional_data: { ...row.additional_data } };
+    const problems = [];
+
+    for (const [field, { unit }] of Object.entries(units)) {
+      const column = FIELD_COLUMNS[field];
+      const value = converted[column];
+      if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+      if (unit === 'deviation') {
+        converted[column] = null;
+        if (Math.abs(value) > MAX_TEMPERATURE_DEVIATION) {
+          problems.push(`${FIELD_NAMES[field]} deviation ${value} °C is outside the plausible range ±${MAX_TEMPERATURE_DEVIATION} °C`);
+        } else {
+          converted.additional_data[TEMPERATURE_DEVIATION_KEY] = value;
+        }
+        continue;
+      }
+
+      const normalized = CONVERSIONS[unit] ? round(CONVERSIONS[unit](value)) : value;
+      const [min, max] = PLAUSIBLE_RANGES[field];
+      if (normalized < min || normalized > max) {
+        converted[column] = null;
+        const expectedUnit = FIELD_UNITS[field];
+        problems.push(
+          `${FIELD_NAMES[field]} ${withUnit(value, unit)}${unit !== expectedUnit ? ` (${withUnit(normalized, expectedUnit)})` : ''} ` +
+          `is outside the plausible range ${min}-${withUnit(max, expectedUnit)}`
+        );
+      } else {
+        converted[column] = normalized;
+      }
+    }
+
+    if (problems.length > 0) {
+      errors.push({ timestamp: row.timestamp, error: problems.join('; ') });
+    }
+    if (Object.values(FIELD_COLUMNS).some(column => converted[column] !== null) ||
+        Object.keys(converted.additional_data).length > 0) {
+      data.push(converted);
+    }
+  }
+
+  return { data, errors };
+};
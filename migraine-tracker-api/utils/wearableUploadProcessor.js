@@ -0,0 +1,392 @@
+import fs from 'fs/promises';
+import { query, getClient } from '../db/database.js';
+import { openWearableFile, readWearableBatches, inferFileUnits, UNIT_SAMPLE_ROWS } from './importers/index.js';
+import { enqueueJob, touchJob } from './jobRunner.js';
+
+/**
+ * Wearable Upload Processing
+ * Uploaded files are stored on disk and imported by a wearable_import job rather than inside the
+ * upload request. The job reads the file as a stream with the importer registry and writes the
+ * rows in batches as they are read, with INSERT ... ON CONFLICT (user_id, timestamp). A first pass
+ * only counts the rows (the total progress is measured against) and infers the units from the
+ * first ones. Every batch commits together with the session's counters and checkpoint
+ * (processed_rows), so progress can be read from upload_sessions while the job runs, and a job
+ * interrupted by a restart reads past the rows already written (reading the same file gives the
+ * same rows) and converts the rest with the units it started with.
+ */
+
+export const WEARABLE_IMPORT_JOB = 'wearable_import';
+
+// Statuses of uploads whose import has ended
+export const FINISHED_UPLOAD_STATUSES = ['completed', 'partial', 'failed'];
+
+// Rows per upsert and checkpoint (13 parameters per row, well below Postgres' 65535)
+const BATCH_SIZE = 500;
+
+// Row errors kept on the session
+const MAX_ERROR_DETAILS = 100;
+
+const METRIC_COLUMNS = [
+  'stress_value',
+  'recovery_value',
+  'heart_rate',
+  'hrv',
+  'sleep_efficiency',
+  'sleep_heart_rate',
+  'skin_temperature',
+  'restless_periods'
+];
+
+// Units recorded on an upload session: the unit each field was read in before conversion
+const summarizeFieldUnits = (units) =>
+  Object.fromEntries(Object.entries(units).map(([field, { unit, expectedUnit, source }]) => [
+    field,
+    { unit, expectedUnit, source }
+  ]));
+
+const toErrorDetail = ({ timestamp, error }) => ({ timestamp: timestamp.toISOString(), error });
+
+const FILE_MISSING_MESSAGE = 'The uploaded file is no longer available. Please upload it again.';
+
+/**
+ * Queue the import of a stored upload
+ * @returns {Promise<string|null>} Job ID (null when the upload is already queued)
+ */
+export const enqueueWearableImport = (uploadSessionId, userId) =>
+  enqueueJob(WEARABLE_IMPORT_JOB, {
+    userId,
+    payload: { uploadSessionId },
+    dedupeKey: `${WEARABLE_IMPORT_JOB}:${uploadSessionId}`
+  });
+
+/**
+ * Delete a stored upload file (missing files are ignored)
+ */
+export const removeUploadFile = async (filePath) => {
+  if (!filePath) return;
+  try {
+    await fs.unlink(filePath);
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.error(`Error removing upload file ${filePath}:`, error);
+    }
+  }
+};
+
+/**
+ * Insert or update rows; rows already written by this upload are left alone
+ * @returns {Promise<Object>} { inserted, updated, skipped }
+ */
+const upsertRows = async (client, rows, { userId, uploadSessionId, source }) => {
+  const params = [];
+  const values = rows.map(row => {
+    const placeholders = [
+      userId,
+      row.timestamp,
+      ...METRIC_COLUMNS.map(column => row[column]),
+      Object.keys(row.additional_data).length > 0 ? JSON.stringify(row.additional_data) : null,
+      source,
+      uploadSessionId
+    ].map(value => {
+      params.push(value);
+      return `$${params.length}`;
+    });
+    return `(${placeholders.join(', ')})`;
+  });
+
+  const result = await client.query(
+    `INSERT INTO wearable_data
+     (user_id, timestamp, ${METRIC_COLUMNS.join(', ')}, additional_data, source, upload_session_id)
+     VALUES ${values.join(', ')}
+     ON CONFLICT (user_id, timestamp) DO UPDATE SET
+       ${METRIC_COLUMNS.map(column => `${column} = COALESCE(EXCLUDED.${column}, wearable_data.${column})`).join(',\n       ')},
+       additional_data = COALESCE(EXCLUDED.additional_data, wearable_data.additional_data),
+       source = COALESCE(EXCLUDED.source, wearable_data.source),
+       upload_session_id = EXCLUDED.upload_session_id,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE wearable_data.upload_session_id IS DISTINCT FROM EXCLUDED.upload_session_id
+     RETURNING (xmax = 0) AS inserted`,
+    params
+  );
+
+  const inserted = result.rows.filter(row => row.inserted).length;
+  return { inserted, updated: result.rowCount - inserted, skipped: rows.length - result.rowCount };
+};
+
+/**
+ * Write one batch and move the session's checkpoint past it, in one transaction
+ * A failing batch is written row by row so only the rows that fail are reported; rows with
+ * implausible values (batch.valueErrors) count as errors too.
+ * @returns {Promise<boolean>} false when the session was deleted meanwhile
+ */
+const writeBatch = async (session, batch, { end, source }) => {
+  const counts = { inserted: 0, updated: 0, skipped: batch.duplicates };
+  const errors = [...batch.valueErrors];
+  const target = { userId: session.user_id, uploadSessionId: session.id, source };
+  const addCounts = (result) => {
+    counts.inserted += result.inserted;
+    counts.updated += result.updated;
+    counts.skipped += result.skipped;
+  };
+
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    // Locking the session keeps it from being deleted while its rows are written
+    const sessionResult = await client.query(
+      `SELECT id FROM upload_sessions WHERE id = $1 AND status = 'processing' FOR UPDATE`,
+      [session.id]
+    );
+    if (sessionResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+
+    if (batch.rows.length > 0) {
+      try {
+        await client.query('SAVEPOINT batch');
+        addCounts(await upsertRows(client, batch.rows, target));
+      } catch (batchError) {
+        await client.query('ROLLBACK TO SAVEPOINT batch');
+        for (const row of batch.rows) {
+          try {
+            await client.query('SAVEPOINT batch_row');
+            addCounts(await upsertRows(client, [row], target));
+            await client.query('RELEASE SAVEPOINT batch_row');
+          } catch (rowError) {
+            await client.query('ROLLBACK TO SAVEPOINT batch_row');
+            errors.push({ timestamp: row.timestamp, error: rowError.message });
+          }
+        }
+      }
+    }
+
+    await client.query(
+      `UPDATE upload_sessions SET
+        processed_rows = $2,
+        inserted_rows = inserted_rows + $3,
+        updated_rows = updated_rows + $4,
+        skipped_rows = skipped_rows + $5,
+        error_rows = error_rows + $6,
+        error_details = CASE
+          WHEN $6 > 0 AND jsonb_array_length(COALESCE(error_details, '[]')) < $8
+            THEN COALESCE(error_details, '[]') || $7::jsonb
+          ELSE error_details
+        END,
+        updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [
+        session.id,
+        end,
+        counts.inserted,
+        counts.updated,
+        counts.skipped,
+        errors.length,
+        JSON.stringify(errors.slice(0, MAX_ERROR_DETAILS).map(toErrorDetail)),
+        MAX_ERROR_DETAILS
+      ]
+    );
+    await client.query('COMMIT');
+    return true;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Mark an upload failed and delete its file
+ */
+const failUpload = async (session, message) => {
+  await query(
+    `UPDATE upload_sessions SET
+      status = 'failed',
+      error_message = $2,
+      file_path = NULL,
+      completed_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [session.id, message]
+  );
+  await removeUploadFile(session.file_path);
+  console.warn(`Upload ${session.id} failed: ${message}`);
+  return { uploadSessionId: session.id, status: 'failed', error: message };
+};
+
+// Rows with a timestamp seen earlier in the batch are skipped (ON CONFLICT can't update a row twice
+// in one statement); across batches the upsert skips rows this upload has already written
+const dropDuplicateTimestamps = (rows) => {
+  const seen = new Set();
+  return rows.filter(row => {
+    const key = row.timestamp.getTime();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * First pass through a file: count its rows, find the earliest timestamp and infer the units
+ * @returns {Promise<Object>} { totalRows, earliestDate, units, description }
+ */
+const surveyFile = async (file, overrides) => {
+  const read = file.read();
+  const sampleRows = [];
+  let totalRows = 0;
+  let earliestDate = null;
+
+  for await (const row of read.rows) {
+    totalRows++;
+    if (sampleRows.length < UNIT_SAMPLE_ROWS) sampleRows.push(row);
+    if (!earliestDate || row.timestamp < earliestDate) earliestDate = row.timestamp;
+  }
+
+  return { totalRows, earliestDate, units: inferFileUnits(sampleRows, read, overrides), description: read.describe() };
+};
+
+/**
+ * Read a stored upload and write its rows from the session's checkpoint on
+ */
+const importUpload = async (job, session) => {
+  if (!session.file_path) {
+    return failUpload(session, FILE_MISSING_MESSAGE);
+  }
+
+  const { mapping, units, timezone } = session.import_options || {};
+  let file;
+  try {
+    file = await openWearableFile(session.file_path, session.filename, { mapping, timezone });
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+    return failUpload(session, FILE_MISSING_MESSAGE);
+  }
+  if (file.error) {
+    return failUpload(session, file.error);
+  }
+
+  let source = session.source;
+  let fieldUnits = session.field_units;
+  if (session.processed_rows > 0) {
+    console.log(`📊 Resuming upload ${session.id} at row ${session.processed_rows} of ${session.total_rows}`);
+  } else {
+    let survey;
+    try {
+      survey = await surveyFile(file, units);
+    } catch (error) {
+      if (error.code === 'ENOENT') return failUpload(session, FILE_MISSING_MESSAGE);
+      console.error('Wearable file parsing error:', error);
+      return failUpload(session, `Failed to parse file. Please check the file format. (${error.message})`);
+    }
+    if (survey.totalRows === 0) {
+      return failUpload(session, 'No valid data found in the file. Please check that it contains timestamps and metric data.');
+    }
+
+    const { description } = survey;
+    source = description.source;
+    fieldUnits = summarizeFieldUnits(survey.units);
+    await query(
+      `UPDATE upload_sessions SET
+        status = 'processing',
+        source = $2,
+        import_format = $3,
+        total_rows = $4,
+        field_mapping = $5,
+        unrecognized_fields = $6,
+        field_units = $7,
+        earliest_timestamp = $8,
+        started_at = COALESCE(started_at, CURRENT_TIMESTAMP),
+        updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [
+        session.id,
+        source,
+        file.format,
+        survey.totalRows,
+        JSON.stringify(description.fieldMapping),
+        description.unrecognizedFields.length > 0 ? description.unrecognizedFields : null,
+        JSON.stringify(fieldUnits),
+        survey.earliestDate
+      ]
+    );
+    console.log(`📊 ${file.format} read: ${survey.totalRows} rows (upload ${session.id})`);
+    await touchJob(job.id);
+  }
+
+  const batches = readWearableBatches(file.read(), { fieldUnits, skip: session.processed_rows, batchSize: BATCH_SIZE });
+  for await (const batch of batches) {
+    const rows = dropDuplicateTimestamps(batch.rows);
+    const written = await writeBatch(
+      session,
+      { rows, duplicates: batch.rows.length - rows.length, valueErrors: batch.valueErrors },
+      { end: batch.end, source }
+    );
+    if (!written) {
+      return { uploadSessionId: session.id, status: 'deleted' };
+    }
+    await touchJob(job.id);
+  }
+
+  // Failed when no row could be written; partial when some rows failed or had implausible values
+  const result = await query(
+    `UPDATE upload_sessions SET
+      status = CASE
+        WHEN inserted_rows + updated_rows + skipped_rows = 0 THEN 'failed'
+        WHEN error_rows > 0 THEN 'partial'
+        ELSE 'completed'
+      END,
+      file_path = NULL,
+      completed_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1
+     RETURNING status, inserted_rows, updated_rows, skipped_rows, error_rows, total_rows`,
+    [session.id]
+  );
+  await removeUploadFile(session.file_path);
+
+  const totals = result.rows[0];
+  if (!totals) {
+    return { uploadSessionId: session.id, status: 'deleted' };
+  }
+  console.log(`✅ Upload complete: ${totals.inserted_rows} inserted, ${totals.updated_rows} updated, ${totals.skipped_rows} skipped, ${totals.error_rows} errors (total: ${totals.total_rows})`);
+  return {
+    uploadSessionId: session.id,
+    status: totals.status,
+    inserted: totals.inserted_rows,
+    updated: totals.updated_rows,
+    skipped: totals.skipped_rows,
+    errors: totals.error_rows
+  };
+};
+
+/**
+ * Job handler: import a stored wearable upload (resumes from the session's checkpoint)
+ * @returns {Promise<Object>} Job result { uploadSessionId, status, inserted, updated, skipped, errors }
+ */
+export const processWearableUpload = async (job) => {
+  const { uploadSessionId } = job.payload;
+  const sessionResult = await query(
+    `SELECT id, user_id, filename, file_path, import_options, source, field_units, total_rows, processed_rows, status
+     FROM upload_sessions
+     WHERE id = $1`,
+    [uploadSessionId]
+  );
+  const session = sessionResult.rows[0];
+  if (!session) {
+    return { uploadSessionId, status: 'deleted' };
+  }
+  if (FINISHED_UPLOAD_STATUSES.includes(session.status)) {
+    return { uploadSessionId, status: session.status };
+  }
+
+  try {
+    return await importUpload(job, session);
+  } catch (error) {
+    // The job won't be retried again; leave the upload failed rather than processing forever
+    if (job.attempts >= job.max_attempts) {
+      await failUpload(session, `The import stopped with an error: ${error.message}`);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,36 @@
+// Service worker for web push risk alerts
+// The API sends JSON payloads: { title, body, url }
+
+self.addEventListener('push', (event) => {
+  let message = { title: 'Migraine Mapper', body: '', url: '/notifications' };
+  try {
+    message = { ...message, ...event.data.json() };
+  } catch {
+    if (event.data) message.body = event.data.text();
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      icon: '/vite.svg',
+      data: { url: message.url || '/notifications' },
+    })
+  );
+});
+
+// Focus an open tab (or open one) on the notification's page
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/notifications';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      if (client) {
+        client.navigate(url);
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,61 @@
+import { api } from './apiClient';
+import type { ChatConversation, ChatConversationDetail, ChatTurn } from '../types';
+
+// ============================================
+// CHAT SERVICE
+// ============================================
+
+const questionConfig = {
+  timeout: 180000, // Each question may take several LLM round trips
+};
+
+/**
+ * Chat service talks to the data assistant, which answers questions about the user's records
+ */
+export const chatService = {
+  /**
+   * Get conversations, most recently active first
+   */
+  getConversations: async (): Promise<ChatConversation[]> => {
+    const response = await api.get<{ data: ChatConversation[] }>('/chat/conversations');
+    return response.data.data;
+  },
+
+  /**
+   * Get a conversation with all its messages
+   * @param id - Conversation ID
+   */
+  getConversation: async (id: string): Promise<ChatConversationDetail> => {
+    const response = await api.get<{ data: ChatConversationDetail }>(`/chat/conversations/${id}`);
+    return response.data.data;
+  },
+
+  /**
+   * Start a conversation with a first question
+   * @param message - The question
+   */
+  startConversation: async (message: string): Promise<ChatTurn> => {
+    const response = await api.post<{ data: ChatTurn }>('/chat/conversations', { message }, questionConfig);
+    return response.data.data;
+  },
+
+  /**
+   * Ask a follow-up question in a conversation
+   * @param id - Conversation ID
+   * @param message - The question
+   */
+  sendMessage: async (id: string, message: string): Promise<ChatTurn> => {
+    const response = await api.post<{ data: ChatTurn }>(`/chat/conversations/${id}/messages`, { message }, questionConfig);
+    return response.data.data;
+  },
+
+  /**
+   * Delete a conversation and its messages
+   * @param id - Conversation ID
+   */
+  deleteConversation: async (id: string): Promise<void> => {
+    await api.delete(`/chat/conversations/${id}`);
+  },
+};
+
+export default chatService;
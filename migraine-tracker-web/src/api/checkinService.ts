@@ -0,0 +1,55 @@
+import { api } from './apiClient';
+import type { DailyCheckin, SaveDailyCheckin } from '../types';
+
+// ============================================
+// DAILY CHECK-IN SERVICE
+// ============================================
+
+/**
+ * Daily check-in service handles the daily headache diary
+ * Check-ins with hadHeadache = false confirm headache-free days for correlation analysis
+ */
+export const checkinService = {
+  /**
+   * Get check-ins in a date range
+   * @param startDate - First day (YYYY-MM-DD)
+   * @param endDate - Last day (YYYY-MM-DD)
+   */
+  getRange: async (startDate?: string, endDate?: string): Promise<DailyCheckin[]> => {
+    const params = new URLSearchParams();
+    if (startDate) params.set('startDate', startDate);
+    if (endDate) params.set('endDate', endDate);
+    const response = await api.get<{ data: DailyCheckin[] }>(`/checkins?${params}`);
+    return response.data.data;
+  },
+
+  /**
+   * Get the check-in for a day
+   * @param date - Day (YYYY-MM-DD)
+   * @returns Check-in, or null if the day has not been recorded
+   */
+  getByDate: async (date: string): Promise<DailyCheckin | null> => {
+    const response = await api.get<{ data: DailyCheckin | null }>(`/checkins/${date}`);
+    return response.data.data;
+  },
+
+  /**
+   * Create or replace the check-in for a day
+   * @param date - Day (YYYY-MM-DD)
+   * @param data - Headache flag and lifestyle factors
+   */
+  save: async (date: string, data: SaveDailyCheckin): Promise<DailyCheckin> => {
+    const response = await api.put<{ data: DailyCheckin }>(`/checkins/${date}`, data);
+    return response.data.data;
+  },
+
+  /**
+   * Delete the check-in for a day
+   * @param date - Day (YYYY-MM-DD)
+   */
+  delete: async (date: string): Promise<void> => {
+    await api.delete(`/checkins/${date}`);
+  },
+};
+
+export default checkinService;
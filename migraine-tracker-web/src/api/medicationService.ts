@@ -0,0 +1,107 @@
+import { api } from './apiClient';
+import type {
+  Medication,
+  MedicationClassInfo,
+  CreateMedication,
+  MedicationIntake,
+  CreateMedicationIntake,
+  MedicationOveruseReport,
+} from '../types';
+
+// ============================================
+// MEDICATION SERVICE
+// ============================================
+
+/**
+ * Medication service handles the medication catalog, per-episode intakes
+ * and the medication-overuse monitor
+ */
+export const medicationService = {
+  /**
+   * Get the medication catalog and available medication classes
+   * @param includeInactive - Also return medications marked inactive
+   */
+  getAll: async (
+    includeInactive = false
+  ): Promise<{ medications: Medication[]; classes: MedicationClassInfo[] }> => {
+    const response = await api.get<{ data: { medications: Medication[]; classes: MedicationClassInfo[] } }>(
+      `/medications${includeInactive ? '?includeInactive=true' : ''}`
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Add a medication to the catalog
+   * @param data - Name, class and default dose
+   */
+  create: async (data: CreateMedication): Promise<Medication> => {
+    const response = await api.post<{ data: Medication }>('/medications', data);
+    return response.data.data;
+  },
+
+  /**
+   * Update a catalog medication
+   * @param id - Medication ID
+   * @param data - Fields to update
+   */
+  update: async (id: string, data: Partial<CreateMedication>): Promise<Medication> => {
+    const response = await api.put<{ data: Medication }>(`/medications/${id}`, data);
+    return response.data.data;
+  },
+
+  /**
+   * Delete a catalog medication together with its intakes
+   * @param id - Medication ID
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/medications/${id}`);
+  },
+
+  /**
+   * Get intakes recorded for a migraine episode
+   * @param entryId - Migraine entry ID
+   */
+  getIntakes: async (entryId: string): Promise<MedicationIntake[]> => {
+    const response = await api.get<{ data: MedicationIntake[] }>(`/migraine/${entryId}/intakes`);
+    return response.data.data;
+  },
+
+  /**
+   * Record a medication intake for a migraine episode
+   * @param entryId - Migraine entry ID
+   * @param data - Medication, time taken, dose and 2-hour relief
+   */
+  createIntake: async (entryId: string, data: CreateMedicationIntake): Promise<MedicationIntake> => {
+    const response = await api.post<{ data: MedicationIntake }>(`/migraine/${entryId}/intakes`, data);
+    return response.data.data;
+  },
+
+  /**
+   * Update a medication intake
+   * @param intakeId - Intake ID
+   * @param data - Fields to update
+   */
+  updateIntake: async (intakeId: string, data: Partial<CreateMedicationIntake>): Promise<MedicationIntake> => {
+    const response = await api.put<{ data: MedicationIntake }>(`/medications/intakes/${intakeId}`, data);
+    return response.data.data;
+  },
+
+  /**
+   * Delete a medication intake
+   * @param intakeId - Intake ID
+   */
+  deleteIntake: async (intakeId: string): Promise<void> => {
+    await api.delete(`/medications/intakes/${intakeId}`);
+  },
+
+  /**
+   * Get acute-medication days per month compared to ICHD-3 overuse thresholds
+   * @param months - Number of calendar months to report
+   */
+  getOveruse: async (months = 4): Promise<MedicationOveruseReport> => {
+    const response = await api.get<{ data: MedicationOveruseReport }>(`/medications/overuse?months=${months}`);
+    return response.data.data;
+  },
+};
+
+export default medicationService;
@@ -0,0 +1,157 @@
+import { api } from './apiClient';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DiaryImportPreset {
+  id: string;
+  label: string;
+  description: string;
+  intensityScale: 5 | 10;
+}
+
+export interface DiaryImportOptions {
+  preset?: string;
+  mapping?: Record<string, string>;
+  intensityScale?: 5 | 10;
+}
+
+export interface DiaryImportRowError {
+  rowNumber: number;
+  errors: string[];
+}
+
+export interface DiaryImportPreviewRow extends DiaryImportRowError {
+  entry: {
+    startTime: string | null;
+    endTime: string | null;
+    intensity: number | null;
+    location?: string;
+    triggers?: string;
+    symptoms?: string;
+    medication?: string;
+    notes?: string;
+  };
+}
+
+export interface DiaryImportPreview {
+  preset: string;
+  intensityScale: 5 | 10;
+  headers: string[];
+  mapping: Record<string, string>;
+  unmappedColumns: string[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  rows: DiaryImportPreviewRow[];
+  errors: DiaryImportRowError[];
+}
+
+export interface DiaryImportResult {
+  importSessionId: string;
+  imported: number;
+  skipped: number;
+  errors: number;
+  total: number;
+  status: 'completed' | 'partial' | 'failed';
+  errorDetails?: DiaryImportRowError[];
+}
+
+export interface DiaryImportSession {
+  id: string;
+  filename: string;
+  fileSize: number;
+  preset: string | null;
+  totalRows: number;
+  importedRows: number;
+  skippedRows: number;
+  errorRows: number;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ============================================
+// MIGRAINE IMPORT SERVICE
+// ============================================
+
+// Build multipart body shared by preview and import
+const buildImportFormData = (file: File, options: DiaryImportOptions): FormData => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (options.preset) formData.append('preset', options.preset);
+  if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping));
+  if (options.intensityScale) formData.append('intensityScale', String(options.intensityScale));
+  return formData;
+};
+
+const multipartConfig = {
+  headers: { 'Content-Type': 'multipart/form-data' },
+  timeout: 120000, // Large diaries take a while to validate and insert
+};
+
+/**
+ * Migraine import service handles bulk diary imports from CSV
+ * Preview validates without saving; import records an import session that can be rolled back
+ */
+export const migraineImportService = {
+  /**
+   * Get available column mapping presets and mappable fields
+   */
+  getPresets: async (): Promise<{ presets: DiaryImportPreset[]; fields: string[] }> => {
+    const response = await api.get<{ data: { presets: DiaryImportPreset[]; fields: string[] } }>(
+      '/migraine/import/presets'
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Parse and validate a diary CSV without saving anything
+   * @param file - CSV file
+   * @param options - Preset, column mapping overrides and intensity scale
+   */
+  preview: async (file: File, options: DiaryImportOptions = {}): Promise<DiaryImportPreview> => {
+    const response = await api.post<{ data: DiaryImportPreview }>(
+      '/migraine/import/preview',
+      buildImportFormData(file, options),
+      multipartConfig
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Import the valid rows of a diary CSV
+   * @param file - CSV file
+   * @param options - Same options that were used for the preview
+   */
+  importFile: async (file: File, options: DiaryImportOptions = {}): Promise<DiaryImportResult> => {
+    const response = await api.post<{ data: DiaryImportResult }>(
+      '/migraine/import',
+      buildImportFormData(file, options),
+      multipartConfig
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Get previous import sessions
+   */
+  getImports: async (): Promise<DiaryImportSession[]> => {
+    const response = await api.get<{ data: { imports: DiaryImportSession[]; count: number } }>(
+      '/migraine/imports'
+    );
+    return response.data.data.imports;
+  },
+
+  /**
+   * Roll back an import session (deletes all entries it created)
+   * @param id - Import session ID
+   */
+  rollback: async (id: string): Promise<{ deletedEntries: number }> => {
+    const response = await api.delete<{ data: { deletedEntries: number } }>(`/migraine/imports/${id}`);
+    return response.data.data;
+  },
+};
+
+export default migraineImportService;
@@ -3,6 +3,8 @@ import type {
   MigraineEntry,
   CreateMigraineEntry,
   MigraineStats,
+  MigraineSearchParams,
+  MigraineExportFormat,
   PaginatedResponse,
   PaginationParams,
 } from '../types';
@@ -132,17 +134,11 @@ export const migraineService = {
 
   /**
    * Search migraine entries by criteria
+   * Combines free text, date window, intensity bounds and clinical fields
    * @param searchParams - Search criteria
    * @returns Filtered migraine entries
    */
-  search: async (searchParams: {
-    query?: string;
-    startDate?: string;
-    endDate?: string;
-    minIntensity?: number;
-    maxIntensity?: number;
-    triggers?: string[];
-  }): Promise<MigraineEntry[]> => {
+  search: async (searchParams: MigraineSearchParams): Promise<MigraineEntry[]> => {
     const params = new URLSearchParams();
     
     Object.entries(searchParams).forEach(([key, value]) => {
@@ -160,13 +156,22 @@ export const migraineService = {
   },
 
   /**
-   * Export migraine entries as CSV or JSON
-   * @param format - Export format ('csv' or 'json')
+   * Export migraine entries as CSV, JSON or a FHIR R4 Bundle
+   * @param format - Export format ('csv', 'json' or 'fhir')
+   * @param range - Optional inclusive date range (YYYY-MM-DD)
    * @returns Export data blob
    */
-  export: async (format: 'csv' | 'json' = 'csv'): Promise<Blob> => {
-    const response = await api.get(`/migraine/export?format=${format}`, {
+  export: async (
+    format: MigraineExportFormat = 'csv',
+    range?: { startDate?: string; endDate?: string }
+  ): Promise<Blob> => {
+    const params = new URLSearchParams({ format });
+    if (range?.startDate) params.append('startDate', range.startDate);
+    if (range?.endDate) params.append('endDate', range.endDate);
+
+    const response = await api.get(`/migraine/export?${params}`, {
       responseType: 'blob',
+      timeout: 120000, // Large exports are streamed and may take a while
     });
     
     return response.data as unknown as Blob;
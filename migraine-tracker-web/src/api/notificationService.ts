@@ -0,0 +1,135 @@
+import { api } from './apiClient';
+import type {
+  AppNotification,
+  ForecastJob,
+  NotificationInbox,
+  NotificationSettings,
+  NotificationSettingsResponse,
+} from '../types';
+
+// ============================================
+// NOTIFICATION SERVICE
+// ============================================
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+// Convert the base64url VAPID public key to the byte array PushManager expects
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = `${base64}${'='.repeat((4 - (base64.length % 4)) % 4)}`.replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(padded);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Notification service handles the in-app inbox, alert settings,
+ * web push subscriptions and the scheduled forecast jobs
+ */
+export const notificationService = {
+  /**
+   * Get the inbox (newest first) and unread count
+   * @param limit - Maximum number of notifications
+   */
+  getInbox: async (limit = 50): Promise<NotificationInbox> => {
+    const response = await api.get<{ data: NotificationInbox }>(`/notifications?limit=${limit}`);
+    return response.data.data;
+  },
+
+  /**
+   * Mark a notification as read
+   * @param id - Notification ID
+   */
+  markRead: async (id: string): Promise<AppNotification> => {
+    const response = await api.put<{ data: AppNotification }>(`/notifications/${id}/read`);
+    return response.data.data;
+  },
+
+  /**
+   * Mark every notification as read
+   */
+  markAllRead: async (): Promise<void> => {
+    await api.post('/notifications/read-all');
+  },
+
+  /**
+   * Delete a notification
+   * @param id - Notification ID
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/notifications/${id}`);
+  },
+
+  /**
+   * Get forecast/alert settings and the delivery channels the server supports
+   */
+  getSettings: async (): Promise<NotificationSettingsResponse> => {
+    const response = await api.get<{ data: NotificationSettingsResponse }>('/notifications/settings');
+    return response.data.data;
+  },
+
+  /**
+   * Update forecast/alert settings
+   * @param settings - Fields to change
+   */
+  updateSettings: async (settings: Partial<NotificationSettings>): Promise<NotificationSettings> => {
+    const response = await api.put<{ data: NotificationSettings }>('/notifications/settings', settings);
+    return response.data.data;
+  },
+
+  /**
+   * Send a test notification through every enabled channel
+   */
+  sendTest: async (): Promise<AppNotification> => {
+    const response = await api.post<{ data: AppNotification }>('/notifications/test');
+    return response.data.data;
+  },
+
+  /**
+   * Get recent scheduled forecast jobs
+   */
+  getForecastJobs: async (): Promise<ForecastJob[]> => {
+    const response = await api.get<{ data: ForecastJob[] }>('/risk-forecasts/jobs');
+    return response.data.data;
+  },
+
+  /**
+   * Whether this browser can receive web push notifications
+   */
+  isPushSupported: (): boolean =>
+    'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window,
+
+  /**
+   * Ask for permission, subscribe this browser and register the subscription with the API
+   * @param publicKey - VAPID public key from the settings endpoint
+   */
+  subscribeToPush: async (publicKey: string): Promise<void> => {
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      throw new Error('Notification permission was not granted');
+    }
+
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    await navigator.serviceWorker.ready;
+    const subscription =
+      (await registration.pushManager.getSubscription()) ??
+      (await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      }));
+
+    await api.post('/notifications/push-subscriptions', { subscription: subscription.toJSON() });
+  },
+
+  /**
+   * Unsubscribe this browser from web push
+   */
+  unsubscribeFromPush: async (): Promise<void> => {
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    const subscription = await registration?.pushManager.getSubscription();
+    if (!subscription) return;
+
+    await api.delete('/notifications/push-subscriptions', { data: { endpoint: subscription.endpoint } });
+    await subscription.unsubscribe();
+  },
+};
+
+export default notificationService;
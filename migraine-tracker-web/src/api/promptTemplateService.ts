@@ -0,0 +1,90 @@
+import { api } from './apiClient';
+import type {
+  CreatePromptExperiment,
+  PromptExperiment,
+  PromptExperimentWithResults,
+  PromptTemplate,
+  PromptTemplateLibrary,
+  SavePromptTemplate,
+} from '../types';
+
+// ============================================
+// PROMPT TEMPLATE SERVICE
+// ============================================
+
+/**
+ * Prompt template service manages the versioned LLM risk prompts and A/B prompt experiments
+ * Saving under an existing name creates a new version; versions are never edited
+ */
+export const promptTemplateService = {
+  /**
+   * Get all template versions, the built-in template and the available variables
+   */
+  getLibrary: async (): Promise<PromptTemplateLibrary> => {
+    const response = await api.get<{ data: PromptTemplateLibrary }>('/prompt-templates');
+    return response.data.data;
+  },
+
+  /**
+   * Save a template as the next version of its name
+   * @param template - Name, body and notes
+   */
+  save: async (template: SavePromptTemplate): Promise<PromptTemplate> => {
+    const response = await api.post<{ data: PromptTemplate }>('/prompt-templates', template);
+    return response.data.data;
+  },
+
+  /**
+   * Use a template version for AI analyses when no experiment is running
+   * @param id - Template version ID
+   */
+  activate: async (id: string): Promise<PromptTemplate> => {
+    const response = await api.put<{ data: PromptTemplate }>(`/prompt-templates/${id}/activate`);
+    return response.data.data;
+  },
+
+  /**
+   * Switch back to the built-in template
+   */
+  activateBuiltIn: async (): Promise<void> => {
+    await api.post('/prompt-templates/deactivate');
+  },
+
+  /**
+   * Delete a template version
+   * @param id - Template version ID
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/prompt-templates/${id}`);
+  },
+
+  /**
+   * Get experiments with forecast accuracy per arm
+   * @param threshold - Risk % at which a forecast counts as "migraine expected"
+   */
+  getExperiments: async (threshold?: number): Promise<PromptExperimentWithResults[]> => {
+    const params = threshold !== undefined ? `?threshold=${threshold}` : '';
+    const response = await api.get<{ data: PromptExperimentWithResults[] }>(`/prompt-experiments${params}`);
+    return response.data.data;
+  },
+
+  /**
+   * Start an A/B experiment between two template versions
+   * @param experiment - Name, both template IDs and the share of assessments using B
+   */
+  startExperiment: async (experiment: CreatePromptExperiment): Promise<PromptExperiment> => {
+    const response = await api.post<{ data: PromptExperiment }>('/prompt-experiments', experiment);
+    return response.data.data;
+  },
+
+  /**
+   * Stop a running experiment
+   * @param id - Experiment ID
+   */
+  stopExperiment: async (id: string): Promise<PromptExperiment> => {
+    const response = await api.put<{ data: PromptExperiment }>(`/prompt-experiments/${id}/stop`);
+    return response.data.data;
+  },
+};
+
+export default promptTemplateService;
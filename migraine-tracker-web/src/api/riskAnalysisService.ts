@@ -1,5 +1,5 @@
 import { api } from './apiClient';
-import type { ApiResponse } from '../types';
+import type { ApiResponse, BacktestReport, PromptVariant, RiskHorizons, ScenarioDefinition } from '../types';
 
 export interface RiskAnalysisPrompt {
   prompt: string;
@@ -7,6 +7,12 @@ export interface RiskAnalysisPrompt {
     hasWearableData: boolean;
     dataPoints: number;
     patternCount: number;
+    baselineAnomalies: Array<{
+      metric: string;
+      label: string;
+      zScore: number;
+      isRiskDirection: boolean;
+    }>;
     migraineType: string;
     timeRange: {
       start: string;
@@ -18,6 +24,7 @@ export interface RiskAnalysisPrompt {
     dataPointsCount: number;
     patternsCount: number;
     hasProfile: boolean;
+    promptTemplateVersion?: string;
     timeRange: {
       start: string;
       end: string;
@@ -45,6 +52,18 @@ export interface RiskAnalysisData {
     correlationStrength: number | null;
     confidenceScore: number | null;
   }>;
+  dailySummaries: Array<{
+    date: string; // YYYY-MM-DD
+    avgStress: number | null;
+    maxStress: number | null;
+    avgRecovery: number | null;
+    avgHrv: number | null;
+    restingHeartRate: number | null;
+    avgSleepEfficiency: number | null;
+    avgSkinTemperature: number | null;
+    anomalies: string[];
+  }>;
+  lookbackHours: number;
   timeRange: {
     start: string;
     end: string;
@@ -53,37 +72,48 @@ export interface RiskAnalysisData {
   patternsCount: number;
 }
 
-export interface SimulatedMetrics {
-  stress?: number;
-  recovery?: number;
-  hrv?: number;
-  heartRate?: number;
-  sleepEfficiency?: number;
-  skinTemp?: number;
+/**
+ * What-if scenario replacing the recorded last 24 hours: a saved scenario or an unsaved definition
+ * Analyses made from a scenario are stored as simulated
+ */
+export interface ScenarioInput {
+  scenarioId?: string;
+  scenario?: ScenarioDefinition;
+}
+
+/**
+ * Data window and forecast length for a risk analysis (server defaults: 24 and 12 hours)
+ */
+export interface ForecastWindow {
+  lookbackHours?: number; // Hours of data before the forecast (24 to 336)
+  horizonHours?: number; // Forecast length in hours (1 to 72)
 }
 
 /**
  * Get formatted AI prompt for migraine risk analysis
  */
-export const getRiskAnalysisPrompt = async (simulatedData?: SimulatedMetrics): Promise<
+export const getRiskAnalysisPrompt = async (scenarioInput?: ScenarioInput): Promise<
   ApiResponse<RiskAnalysisPrompt>
 > => {
-  if (simulatedData) {
-    return api.post<RiskAnalysisPrompt>('/risk-prediction/prompt', { simulatedData });
+  if (scenarioInput) {
+    return api.post<RiskAnalysisPrompt>('/risk-prediction/prompt', scenarioInput);
   }
   return api.get<RiskAnalysisPrompt>('/risk-prediction/prompt');
 };
 
 /**
- * Get raw data for risk prediction (24h data + patterns)
+ * Get raw data for risk prediction (lookback window + patterns)
+ * @param lookbackHours - Hours of data before now (default 24); earlier days come as daily summaries
  */
-export const getRiskAnalysisData = async (): Promise<
+export const getRiskAnalysisData = async (lookbackHours?: number): Promise<
   ApiResponse<RiskAnalysisData>
 > => {
-  return api.get<RiskAnalysisData>('/risk-prediction/data');
+  const params = lookbackHours !== undefined ? `?lookbackHours=${lookbackHours}` : '';
+  return api.get<RiskAnalysisData>(`/risk-prediction/data${params}`);
 };
 
 export interface AIAnalysisResponse {
+  status?: 'ok';
   riskLevel: number; // 0-100
   riskCategory: string; // Low, Moderate, High, Very High
   keyRiskFactors: string[];
@@ -91,306 +121,124 @@ export interface AIAnalysisResponse {
   recommendations: string[];
   confidenceLevel: string; // Low, Medium, High
   fullAnalysis: string;
+  factors?: RiskFactorContribution[]; // Only returned by the local model
+  model?: LocalRiskModelInfo;
+  metadata?: {
+    assessmentId: string;
+    engine: 'local' | 'llm';
+    lookbackHours?: number;
+    horizonHours?: number;
+    usingSimulatedData?: boolean;
+    scenarioId?: string | null; // Saved scenario the analysis was made from
+    promptTemplateVersion?: string; // LLM analyses
+    promptVariant?: PromptVariant | null; // Arm of the running prompt experiment
+  };
 }
 
 /**
- * Call DigitalOcean AI agent with the prompt
+ * AI output that still failed schema validation after the server re-asked the model
  */
-export const callAIAgent = async (prompt: string): Promise<AIAnalysisResponse> => {
-  const AI_AGENT_URL = 'https://lerrqtyr45trfkm5hhmzek2y.agents.do-ai.run/api/v1/chat/completions';
-  
-  // Get AI agent API key from environment or localStorage
-  // Note: Even "public" agents require an API key for programmatic API access
-  // The embedded widget works differently (loaded from agent's domain)
-  const apiKey = import.meta.env.VITE_DO_AI_AGENT_API_KEY || 
-                 localStorage.getItem('do_ai_agent_api_key');
-  
-  if (!apiKey) {
-    throw new Error('AI Agent API key required. Please configure your API key in the Dashboard. Get it from: DigitalOcean Control Panel → AI Agents → Your Agent → API Keys');
-  }
-  
-  try {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-    
-    // Add authorization header if API key is provided
-    if (apiKey) {
-      headers['Authorization'] = `Bearer ${apiKey}`;
-    }
-    
-    const response = await fetch(AI_AGENT_URL, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7
-      }),
-    });
+export interface UnparseableAIResponse {
+  status: 'unparseable';
+  validationErrors: string[];
+  rawResponse: string;
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Agent error response:', errorText);
-      throw new Error(`AI Agent returned ${response.status}: ${errorText}`);
-    }
+/**
+ * One input of the local risk model and how much it moved the score
+ */
+export interface RiskFactorContribution {
+  feature: string;
+  kind: 'baseline' | 'pattern';
+  label: string;
+  riskType: string;
+  value: number; // Risk-signed z-score, or 1/0 for a matched pattern
+  weight: number;
+  contribution: number; // Log-odds added to the score (weight x value)
+  description: string;
+}
 
-    const data = await response.json();
-    console.log('AI Agent response structure:', {
-      hasChoices: !!data.choices,
-      choicesLength: data.choices?.length,
-      hasContent: !!data.content,
-      dataType: typeof data
-    });
-    
-    // Extract the assistant's message content
-    // DigitalOcean AI agents return OpenAI-compatible format
-    let aiText = '';
-    if (data.choices && data.choices.length > 0 && data.choices[0].message) {
-      aiText = data.choices[0].message.content;
-      console.log('📝 Extracted content from choices[0].message.content');
-    } else if (data.content) {
-      aiText = data.content;
-      console.log('📝 Extracted content from data.content');
-    } else if (typeof data === 'string') {
-      aiText = data;
-      console.log('📝 Using data directly as string');
-    } else {
-      aiText = JSON.stringify(data);
-      console.log('⚠️ No recognized format, stringifying entire response');
-    }
-    
-    console.log('📄 Text to parse (length:', aiText.length, ')');
-    console.log('📄 First 200 chars:', aiText.substring(0, 200));
-    
-    // Parse the AI response to extract structured data
-    return parseAIResponse(aiText);
-  } catch (error) {
-    console.error('Error calling AI agent:', error);
-    throw error;
-  }
-};
+export interface LocalRiskModelInfo {
+  type: 'logistic' | 'prior'; // prior = default weights, not enough labelled history yet
+  intercept: number;
+  baseRate: number;
+  baseRateSource: 'recorded_migraine_days' | 'profile_frequency' | 'default';
+  trainingDays: number;
+  migraineDays: number;
+  controlDays: number;
+  probability: number;
+  dailyProbability: number; // Chance that the coming day is a migraine day
+  horizonHours: number; // Forecast length probability was projected to
+}
 
 /**
- * Parse AI response text into structured format
+ * Score migraine risk with the server-side local model (works without the AI agent)
  */
-function parseAIResponse(text: string): AIAnalysisResponse {
-  console.log('Parsing AI response (first 500 chars):', text.substring(0, 500));
-  
-  // STEP 1: Try to extract JSON first (most reliable)
-  
-  // Try 1a: JSON in markdown code block
-  const jsonMatch = text.match(/```json\s*\n([\s\S]*?)\n```/);
-  if (jsonMatch) {
-    try {
-      const jsonData = JSON.parse(jsonMatch[1]);
-      console.log('✅ Successfully parsed JSON from markdown code block:', jsonData);
-      
-      return {
-        riskLevel: parseInt(jsonData.riskLevel) || 0,
-        riskCategory: jsonData.riskCategory || 'Unknown',
-        keyRiskFactors: Array.isArray(jsonData.keyRiskFactors) ? jsonData.keyRiskFactors : [],
-        trendAnalysis: jsonData.trendAnalysis || '',
-        recommendations: Array.isArray(jsonData.recommendations) ? jsonData.recommendations : [],
-        confidenceLevel: jsonData.confidenceLevel || 'Unknown',
-        fullAnalysis: text,
-      };
-    } catch (e) {
-      console.warn('⚠️ Found JSON block but failed to parse:', e);
-    }
-  }
-  
-  // Try 1b: JSON object at start of response (without code block)
-  const jsonObjectMatch = text.match(/^\s*\{[\s\S]*?"riskLevel"[\s\S]*?\}/);
-  if (jsonObjectMatch) {
-    try {
-      const jsonData = JSON.parse(jsonObjectMatch[0]);
-      console.log('✅ Successfully parsed JSON object from response:', jsonData);
-      
-      return {
-        riskLevel: parseInt(jsonData.riskLevel) || 0,
-        riskCategory: jsonData.riskCategory || 'Unknown',
-        keyRiskFactors: Array.isArray(jsonData.keyRiskFactors) ? jsonData.keyRiskFactors : [],
-        trendAnalysis: jsonData.trendAnalysis || '',
-        recommendations: Array.isArray(jsonData.recommendations) ? jsonData.recommendations : [],
-        confidenceLevel: jsonData.confidenceLevel || 'Unknown',
-        fullAnalysis: text,
-      };
-    } catch (e) {
-      console.warn('⚠️ Found JSON object but failed to parse:', e);
-    }
-  }
-  
-  // STEP 2: Fallback to text parsing if JSON not found
-  console.log('No JSON found, falling back to text parsing...');
-  
-  // Extract risk level percentage - ONLY from the Risk Level section at the beginning
-  // This prevents matching wrong numbers later in the text
-  let riskLevel = 0;
-  
-  // Step 1: Extract just the Risk Level section (first ~200 chars should contain it)
-  const riskLevelSection = text.substring(0, 300);
-  console.log('Risk Level section:', riskLevelSection);
-  
-  // Step 2: Look for "Risk Level" line and extract the first number after it
-  const riskLevelMatch = riskLevelSection.match(/\*\*Risk Level[^\n]*\*\*[:\s]*[~≈]?\s*(\d+)\s*[%℅]/i);
-  
-  if (riskLevelMatch) {
-    riskLevel = parseInt(riskLevelMatch[1]);
-    console.log(`✅ Found risk level: ${riskLevel}% in Risk Level section`);
-  } else {
-    // Fallback: try simpler patterns but still only in first 300 chars
-    const fallbackPatterns = [
-      /Risk Level[^\n]*[:\s]*[~≈]?\s*(\d+)\s*[%℅]/i,
-      /\*\*Risk[^\n]*\*\*[:\s]*[~≈]?\s*(\d+)\s*[%℅]/i,
-    ];
-    
-    for (const pattern of fallbackPatterns) {
-      const match = riskLevelSection.match(pattern);
-      if (match) {
-        riskLevel = parseInt(match[1]);
-        console.log(`✅ Found risk level: ${riskLevel}% using fallback pattern`);
-        break;
-      }
-    }
-  }
-  
-  if (riskLevel === 0) {
-    console.warn('⚠️ Could not extract risk level from response.');
-    console.log('Risk Level section (first 300 chars):', riskLevelSection);
-    console.log('Looking for "Risk Level":', riskLevelSection.toLowerCase().includes('risk level'));
-    
-    // Try to find ANY number followed by % in the first section
-    const anyPercentMatch = riskLevelSection.match(/[~≈]?\s*(\d+)\s*[%℅]/);
-    if (anyPercentMatch) {
-      console.log('Found a percentage in first section:', anyPercentMatch[0]);
-      console.log('Attempting to use:', parseInt(anyPercentMatch[1]));
-      // Don't auto-use it, just log for debugging
-    }
-  }
-
-  // Extract risk category - handle markdown formatting and parenthetical notes
-  const categoryPatterns = [
-    /\*\*Risk Category\*\*[:\s]*(Very High|High|Moderate|Low)[^a-zA-Z]*/i,
-    /Risk Category[:\s*-]+(Very High|High|Moderate|Low)[^a-zA-Z]*/i,
-    /(?:risk category|category)[:\s-]*(Very High|High|Moderate|Low)[^a-zA-Z]*/i,
-  ];
-  
-  let riskCategory = 'Unknown';
-  for (const pattern of categoryPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      riskCategory = match[1];
-      console.log(`✅ Found risk category: ${riskCategory}`);
-      break;
-    }
-  }
+export const getLocalRiskAnalysis = async (
+  scenarioInput?: ScenarioInput,
+  window?: ForecastWindow
+): Promise<AIAnalysisResponse> => {
+  const response = await api.post<{ success: boolean; data: AIAnalysisResponse }>(
+    '/risk-prediction/local',
+    { ...scenarioInput, ...window }
+  );
+  return response.data.data;
+};
 
-  // Extract key risk factors - handle markdown and numbered lists
-  const factorsPatterns = [
-    /\*\*Key Risk Factors?\*\*[:\s]*\n([\s\S]*?)(?:\n\n|\*\*[A-Z])/i,
-    /Key Risk Factors?[:\s]*\n([\s\S]*?)(?:\n\n|\n[A-Z])/i,
-  ];
-  
-  const keyRiskFactors: string[] = [];
-  for (const pattern of factorsPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const factorLines = match[1].split('\n');
-      factorLines.forEach(line => {
-        const trimmed = line.trim();
-        // Match numbered lists (1., 2.), bullets (-, •), or **bold items**
-        if (trimmed && (trimmed.startsWith('-') || trimmed.startsWith('•') || /^\d+\./.test(trimmed))) {
-          // Remove list markers and extract text, handling **bold** markers
-          let factor = trimmed.replace(/^[-•\d.)\s]+/, '').replace(/\*\*/g, '');
-          // Remove markdown and get just the main text (before explanations)
-          if (factor.includes('–')) {
-            factor = factor.split('–')[0].trim();
-          }
-          if (factor) {
-            keyRiskFactors.push(factor);
-          }
-        }
-      });
-      if (keyRiskFactors.length > 0) {
-        console.log(`✅ Found ${keyRiskFactors.length} risk factors`);
-        break;
-      }
-    }
-  }
+/**
+ * Project the current local-model risk onto several forecast horizons (6h to 3 days)
+ * Nothing is saved to the risk history
+ */
+export const getRiskHorizons = async (): Promise<RiskHorizons> => {
+  const response = await api.get<{ success: boolean; data: RiskHorizons }>('/risk-prediction/horizons');
+  return response.data.data;
+};
 
-  // Extract trend analysis - handle markdown
-  const trendPatterns = [
-    /\*\*Trend Analysis\*\*[:\s]*\n([\s\S]*?)(?:\n\n|\*\*[A-Z])/i,
-    /Trend Analysis[:\s]*\n([\s\S]*?)(?:\n\n|\n[A-Z])/i,
-  ];
-  
-  let trendAnalysis = '';
-  for (const pattern of trendPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      trendAnalysis = match[1].trim();
-      console.log('✅ Found trend analysis');
-      break;
-    }
-  }
+export interface LlmProviderStatus {
+  provider: string;
+  model: string | null;
+  configured: boolean;
+}
 
-  // Extract recommendations - handle markdown and numbered lists
-  const recsPatterns = [
-    /\*\*Recommendations?\*\*[:\s]*\n([\s\S]*?)(?:\n\n|\*\*[A-Z])/i,
-    /Recommendations?[:\s]*\n([\s\S]*?)(?:\n\n|\n[A-Z]|$)/i,
-  ];
-  
-  const recommendations: string[] = [];
-  for (const pattern of recsPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const recLines = match[1].split('\n');
-      recLines.forEach(line => {
-        const trimmed = line.trim();
-        if (trimmed && (trimmed.startsWith('-') || trimmed.startsWith('•') || /^\d+\./.test(trimmed))) {
-          let rec = trimmed.replace(/^[-•\d.)\s]+/, '').replace(/\*\*/g, '');
-          if (rec) {
-            recommendations.push(rec);
-          }
-        }
-      });
-      if (recommendations.length > 0) {
-        console.log(`✅ Found ${recommendations.length} recommendations`);
-        break;
-      }
-    }
-  }
+/**
+ * Get the LLM provider configured on the server (keys stay server-side)
+ */
+export const getLlmProviderStatus = async (): Promise<LlmProviderStatus> => {
+  const response = await api.get<{ success: boolean; data: LlmProviderStatus }>('/risk-prediction/provider');
+  return response.data.data;
+};
 
-  // Extract confidence level - handle markdown
-  const confidencePatterns = [
-    /\*\*Confidence Level\*\*[:\s]*(Low|Medium|High)/i,
-    /Confidence Level[:\s]*(Low|Medium|High)/i,
-    /confidence[:\s]*(Low|Medium|High)/i,
-  ];
-  
-  let confidenceLevel = 'Unknown';
-  for (const pattern of confidencePatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      confidenceLevel = match[1];
-      console.log(`✅ Found confidence: ${confidenceLevel}`);
-      break;
-    }
-  }
+/**
+ * Run the AI risk analysis on the server with the configured LLM provider
+ * Resolves with status 'unparseable' when the model never returned valid JSON
+ */
+export const analyzeRiskWithAI = async (
+  scenarioInput?: ScenarioInput,
+  window?: ForecastWindow
+): Promise<AIAnalysisResponse | UnparseableAIResponse> => {
+  const response = await api.post<{ success: boolean; data: AIAnalysisResponse | UnparseableAIResponse }>(
+    '/risk-prediction/analyze',
+    { ...scenarioInput, ...window }
+  );
+  return response.data.data;
+};
 
-  return {
-    riskLevel,
-    riskCategory,
-    keyRiskFactors,
-    trendAnalysis,
-    recommendations,
-    confidenceLevel,
-    fullAnalysis: text,
-  };
+export interface BacktestParams {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  engine: BacktestReport['engine'];
+  hour?: number; // Forecast hour in the profile timezone
+  lookbackHours?: number; // Hours of data before each forecast
+  horizonHours?: number; // Forecast length in hours
+  threshold?: number; // Alert threshold (%)
+  templateId?: string; // Prompt template version for LLM backtests
 }
 
+/**
+ * Replay daily risk forecasts over a past date range and compare them with what happened
+ * Each day only uses the wearable data and correlations known at its forecast time
+ */
+export const runRiskBacktest = async (params: BacktestParams): Promise<BacktestReport> => {
+  const response = await api.post<{ success: boolean; data: BacktestReport }>('/risk-prediction/backtest', params);
+  return response.data.data;
+};
@@ -0,0 +1,46 @@
+import { api } from './apiClient';
+import type { ForecastEvaluation, RiskAssessmentHistory } from '../types';
+
+// ============================================
+// RISK ASSESSMENT SERVICE
+// ============================================
+
+/**
+ * Risk assessment service reads stored dashboard risk predictions and their accuracy
+ * Each local model or AI analysis is saved by the API when it runs
+ */
+export const riskAssessmentService = {
+  /**
+   * Get assessments and migraine days in a date range (defaults to the last 30 days)
+   * @param startDate - First day (YYYY-MM-DD)
+   * @param endDate - Last day (YYYY-MM-DD)
+   * @param includeSimulated - Include predictions made with simulated data
+   */
+  getHistory: async (
+    startDate?: string,
+    endDate?: string,
+    includeSimulated = false
+  ): Promise<RiskAssessmentHistory> => {
+    const params = new URLSearchParams();
+    if (startDate) params.set('startDate', startDate);
+    if (endDate) params.set('endDate', endDate);
+    if (includeSimulated) params.set('includeSimulated', 'true');
+    const response = await api.get<{ data: RiskAssessmentHistory }>(`/risk-assessments?${params}`);
+    return response.data.data;
+  },
+
+  /**
+   * Get forecast accuracy (hit rate, Brier score, calibration, ROC/AUC) of stored assessments
+   * @param threshold - Risk % at which a forecast counts as "migraine expected"
+   * @param includeSimulated - Include predictions made with simulated data
+   */
+  getAccuracy: async (threshold?: number, includeSimulated = false): Promise<ForecastEvaluation> => {
+    const params = new URLSearchParams();
+    if (threshold !== undefined) params.set('threshold', String(threshold));
+    if (includeSimulated) params.set('includeSimulated', 'true');
+    const response = await api.get<{ data: ForecastEvaluation }>(`/risk-assessments/accuracy?${params}`);
+    return response.data.data;
+  },
+};
+
+export default riskAssessmentService;
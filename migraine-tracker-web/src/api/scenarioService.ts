@@ -0,0 +1,79 @@
+import { api } from './apiClient';
+import type {
+  RiskScenario,
+  SaveRiskScenario,
+  ScenarioComparison,
+  ScenarioDefinition,
+  ScenarioPreview,
+} from '../types';
+import type { ForecastWindow } from './riskAnalysisService';
+
+// ============================================
+// SCENARIO SERVICE
+// ============================================
+
+/**
+ * Scenario service manages saved "what-if" scenarios: simulated 24-hour time series that replace
+ * the recorded readings in a risk forecast
+ */
+export const scenarioService = {
+  /**
+   * Get saved scenarios
+   */
+  getScenarios: async (): Promise<RiskScenario[]> => {
+    const response = await api.get<{ data: RiskScenario[] }>('/scenarios');
+    return response.data.data;
+  },
+
+  /**
+   * Save a new scenario
+   * @param scenario - Name, description and definition
+   */
+  create: async (scenario: SaveRiskScenario): Promise<RiskScenario> => {
+    const response = await api.post<{ data: RiskScenario }>('/scenarios', scenario);
+    return response.data.data;
+  },
+
+  /**
+   * Update a saved scenario (assessments already made keep the definition they used)
+   * @param id - Scenario ID
+   * @param scenario - Name, description and definition
+   */
+  update: async (id: string, scenario: SaveRiskScenario): Promise<RiskScenario> => {
+    const response = await api.put<{ data: RiskScenario }>(`/scenarios/${id}`, scenario);
+    return response.data.data;
+  },
+
+  /**
+   * Delete a saved scenario
+   * @param id - Scenario ID
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/scenarios/${id}`);
+  },
+
+  /**
+   * Build the hourly series of an unsaved scenario next to the recorded readings
+   * @param scenario - Scenario definition
+   */
+  preview: async (scenario: ScenarioDefinition): Promise<ScenarioPreview> => {
+    const response = await api.post<{ data: ScenarioPreview }>('/scenarios/preview', { scenario });
+    return response.data.data;
+  },
+
+  /**
+   * Score saved scenarios and the recorded data side by side with the local model (not stored)
+   * @param scenarioIds - Up to 4 saved scenarios
+   * @param window - Lookback and horizon used for every scenario
+   */
+  compare: async (scenarioIds: string[], window?: ForecastWindow): Promise<ScenarioComparison> => {
+    const response = await api.post<{ data: ScenarioComparison }>('/scenarios/compare', {
+      scenarioIds,
+      includeRecorded: true,
+      ...window,
+    });
+    return response.data.data;
+  },
+};
+
+export default scenarioService;
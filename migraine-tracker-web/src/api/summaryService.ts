@@ -5,6 +5,22 @@ import type { ApiResponse } from '../types';
 // TYPES
 // ============================================
 
+/**
+ * Metric that deviated from the user's personal baseline (robust z-score of 2 or more)
+ */
+export interface BaselineAnomaly {
+  metric: string;
+  label: string;
+  riskType: string;
+  value: number;
+  median: number;
+  mad: number;
+  zScore: number;
+  direction: 'high' | 'low';
+  isAnomaly: boolean;
+  isRiskDirection: boolean;
+}
+
 export interface SummaryIndicator {
   id: string;
   periodStart: string;
@@ -44,7 +60,13 @@ export interface SummaryIndicator {
     type: string;
     value?: number;
     severity: string;
+    basis?: 'personal_baseline' | 'population';
+    baselineMedian?: number;
+    zScore?: number;
   }>;
+  // Rolling 28-day personal baseline per metric (median and median absolute deviation)
+  baseline: Record<string, { median: number; mad: number; days: number }> | null;
+  anomalies: BaselineAnomaly[];
   dataPointsCount: number;
   processedAt: string;
   createdAt: string;
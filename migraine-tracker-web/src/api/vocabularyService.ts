@@ -0,0 +1,86 @@
+import { api } from './apiClient';
+import type {
+  VocabularyKind,
+  VocabularyTerm,
+  VocabularyCategories,
+  CreateVocabularyTerm,
+} from '../types';
+
+// ============================================
+// VOCABULARY SERVICE
+// ============================================
+
+/**
+ * Vocabulary service handles the user's canonical trigger and symptom terms
+ * Entries store canonical names; aliases and merges keep spelling variants together
+ */
+export const vocabularyService = {
+  /**
+   * Get vocabulary terms with usage counts and the available categories
+   * @param kind - Only return triggers or symptoms
+   */
+  getAll: async (
+    kind?: VocabularyKind
+  ): Promise<{ terms: VocabularyTerm[]; categories: VocabularyCategories }> => {
+    const response = await api.get<{ data: { terms: VocabularyTerm[]; categories: VocabularyCategories } }>(
+      `/vocabulary${kind ? `?kind=${kind}` : ''}`
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Add a term to the vocabulary
+   * @param data - Kind, canonical name, category and aliases
+   */
+  create: async (data: CreateVocabularyTerm): Promise<VocabularyTerm> => {
+    const response = await api.post<{ data: VocabularyTerm }>('/vocabulary', data);
+    return response.data.data;
+  },
+
+  /**
+   * Update a term's name, category or aliases
+   * @param id - Term ID
+   * @param data - Fields to update
+   */
+  update: async (
+    id: string,
+    data: Partial<Pick<VocabularyTerm, 'name' | 'category' | 'aliases'>>
+  ): Promise<VocabularyTerm> => {
+    const response = await api.put<{ data: VocabularyTerm }>(`/vocabulary/${id}`, data);
+    return response.data.data;
+  },
+
+  /**
+   * Delete a term (it is removed from every entry)
+   * @param id - Term ID
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/vocabulary/${id}`);
+  },
+
+  /**
+   * Merge terms into a target term; merged names become aliases of the target
+   * @param targetId - Term that remains
+   * @param sourceIds - Terms merged into the target
+   */
+  merge: async (
+    targetId: string,
+    sourceIds: string[]
+  ): Promise<{ target: VocabularyTerm; mergedTerms: number; affectedEntries: number }> => {
+    const response = await api.post<{ data: { target: VocabularyTerm; mergedTerms: number; affectedEntries: number } }>(
+      '/vocabulary/merge',
+      { targetId, sourceIds }
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Link existing entries' free-text triggers and symptoms to vocabulary terms
+   */
+  sync: async (): Promise<{ entriesProcessed: number; termCount: number }> => {
+    const response = await api.post<{ data: { entriesProcessed: number; termCount: number } }>('/vocabulary/sync');
+    return response.data.data;
+  },
+};
+
+export default vocabularyService;
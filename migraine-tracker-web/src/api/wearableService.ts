@@ -43,18 +43,23 @@ export interface WearableStatistics {
   };
 }
 
-export interface UploadResponse {
+/**
+ * Uploads are imported in the background: queued, then processing, then one of the final statuses
+ */
+export type UploadStatus = 'queued' | 'processing' | 'completed' | 'partial' | 'failed';
+
+export const FINISHED_UPLOAD_STATUSES: UploadStatus[] = ['completed', 'partial', 'failed'];
+
+/**
+ * Accepted upload; poll the session for progress and results
+ */
+export interface UploadAccepted {
   uploadSessionId: string;
-  inserted: number;
-  updated: number;
-  skipped: number;
-  total: number;
-  errors: number;
-  source: string;
-  fieldMapping: Record<string, string>;
-  unrecognizedFields: string[];
-  errorDetails?: Array<{ timestamp: Date; error: string }>;
-  earliestDate?: string | null;
+  filename: string;
+  fileSize: number;
+  status: UploadStatus;
+  templateId?: string | null;
+  createdAt: string;
 }
 
 export interface UploadSession {
@@ -62,30 +67,175 @@ export interface UploadSession {
   filename: string;
   fileSize: number;
   source?: string;
+  format?: string;
   totalRows: number;
+  processedRows: number;
+  progress: number; // % of parsed rows written
   insertedRows: number;
   updatedRows: number;
   skippedRows: number;
   errorRows: number;
-  status: 'completed' | 'failed' | 'partial';
+  status: UploadStatus;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface UploadSessionDetails extends UploadSession {
+  fieldMapping: Record<string, string>;
+  unrecognizedFields: string[];
+  templateId?: string;
+  units: Record<string, WearableOriginalUnit>;
+  errorMessage: string | null;
+  errorDetails: Array<{ timestamp: string; error: string }>;
+  earliestDate: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface WearableImporter {
+  id: string;
+  source: string | null;
+  label: string;
+  description: string;
+  extensions: string[];
+}
+
+export interface WearableImporters {
+  importers: WearableImporter[];
+  extensions: string[];
+}
+
+/**
+ * Column mapping overrides: column (or vendor field) -> field, 'additional' (keep in
+ * additional data) or '' (ignore). Columns not listed are matched automatically.
+ * Unit overrides: field -> unit the values are in (e.g. skinTemperature: 'fahrenheit');
+ * fields not listed are inferred from the column name or typical value.
+ */
+export interface WearableUploadOptions {
+  mapping?: Record<string, string>;
+  units?: Record<string, string>;
+  templateId?: string | null;
+}
+
+/**
+ * Unit a field was read in before conversion (source: override, column name or values)
+ */
+export interface WearableOriginalUnit {
+  unit: string;
+  expectedUnit: string;
+  source: 'override' | 'column' | 'values';
+}
+
+export interface WearableColumn {
+  name: string;
+  target: string;
+}
+
+export interface WearableFieldUnit extends WearableOriginalUnit {
+  guessedUnit: string;
+  converted: boolean;
+  label: string;
+  options: Array<{ unit: string; label: string }>;
+  typicalValue: number;
+  count: number;
+}
+
+export interface WearablePreviewRow {
+  timestamp: string;
+  stressValue: number | null;
+  recoveryValue: number | null;
+  heartRate: number | null;
+  hrv: number | null;
+  sleepEfficiency: number | null;
+  sleepHeartRate: number | null;
+  skinTemperature: number | null;
+  restlessPeriods: number | null;
+  additionalData: Record<string, unknown>;
+}
+
+export interface WearableUploadPreview {
+  filename: string;
+  format: string;
+  formatLabel: string;
+  source: string | null;
+  templateId: string | null;
+  columns: WearableColumn[];
+  targets: string[];
+  fieldMapping: Record<string, string>;
+  unrecognizedFields: string[];
+  ignoredFields: string[];
+  units: Record<string, WearableFieldUnit>;
+  totalRows: number;
+  invalidRows: number;
+  valueErrors: Array<{ timestamp: string; error: string }>;
+  dateRange: { start: string; end: string } | null;
+  sampleRows: WearablePreviewRow[];
+}
+
+export interface WearableMappingTemplate {
+  id: string;
+  name: string;
+  format: string;
+  mapping: Record<string, string>;
+  units: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WearableMappingTemplateInput {
+  name: string;
+  format: string;
+  mapping: Record<string, string>;
+  units?: Record<string, string>;
+}
+
 // ============================================
 // WEARABLE DATA SERVICE
 // ============================================
 
+// Build multipart body shared by preview and upload
+const buildUploadFormData = (file: File, options: WearableUploadOptions): FormData => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping));
+  if (options.units) formData.append('units', JSON.stringify(options.units));
+  if (options.templateId) formData.append('templateId', options.templateId);
+  return formData;
+};
+
 /**
- * Upload CSV file with wearable data (with progress tracking)
+ * Parse a wearable file without saving anything: detected format, where each column ends up,
+ * unit guesses and the first parsed rows
+ * @param file - CSV file or device export
+ * @param options - Column mapping overrides and/or a saved mapping template
+ */
+export const previewWearableUpload = async (
+  file: File,
+  options: WearableUploadOptions = {}
+): Promise<WearableUploadPreview> => {
+  const response = await api.post<{ data: WearableUploadPreview }>(
+    '/wearable/upload/preview',
+    buildUploadFormData(file, options),
+    {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 120000, // Large exports take a while to parse
+    }
+  );
+  return response.data.data;
+};
+
+/**
+ * Upload a wearable data file, CSV or device export (with upload progress tracking)
+ * The server imports it in the background; follow the returned session with getUploadSession.
+ * @param options - Same options that were used for the preview
  */
 export const uploadWearableCSV = async (
   file: File,
-  onProgress?: (progress: number) => void
-): Promise<ApiResponse<UploadResponse>> => {
+  onProgress?: (progress: number) => void,
+  options: WearableUploadOptions = {}
+): Promise<UploadAccepted> => {
   return new Promise((resolve, reject) => {
-    const formData = new FormData();
-    formData.append('file', file);
+    const formData = buildUploadFormData(file, options);
 
     const xhr = new XMLHttpRequest();
     const token = localStorage.getItem('auth_token');
@@ -103,10 +253,7 @@ export const uploadWearableCSV = async (
       if (xhr.status >= 200 && xhr.status < 300) {
         try {
           const response = JSON.parse(xhr.responseText);
-          resolve({
-            data: response,
-            success: true,
-          });
+          resolve(response.data);
         } catch (error) {
           reject(new Error('Failed to parse response'));
         }
@@ -142,6 +289,52 @@ export const uploadWearableCSV = async (
   });
 };
 
+/**
+ * Get the importers available for uploads (vendor exports and generic CSV) and accepted extensions
+ */
+export const getWearableImporters = async (): Promise<WearableImporters> => {
+  const response = await api.get<{ data: WearableImporters }>('/wearable/importers');
+  return response.data.data;
+};
+
+/**
+ * Get saved column mapping templates
+ * @param format - Only templates for this importer (e.g. generic_csv)
+ */
+export const getMappingTemplates = async (format?: string): Promise<WearableMappingTemplate[]> => {
+  const url = `/wearable/mapping-templates${format ? `?format=${encodeURIComponent(format)}` : ''}`;
+  const response = await api.get<{ data: WearableMappingTemplate[] }>(url);
+  return response.data.data;
+};
+
+/**
+ * Save a column mapping as a template
+ */
+export const createMappingTemplate = async (
+  input: WearableMappingTemplateInput
+): Promise<WearableMappingTemplate> => {
+  const response = await api.post<{ data: WearableMappingTemplate }>('/wearable/mapping-templates', input);
+  return response.data.data;
+};
+
+/**
+ * Update a mapping template
+ */
+export const updateMappingTemplate = async (
+  id: string,
+  input: WearableMappingTemplateInput
+): Promise<WearableMappingTemplate> => {
+  const response = await api.put<{ data: WearableMappingTemplate }>(`/wearable/mapping-templates/${id}`, input);
+  return response.data.data;
+};
+
+/**
+ * Delete a mapping template
+ */
+export const deleteMappingTemplate = async (id: string): Promise<void> => {
+  await api.delete(`/wearable/mapping-templates/${id}`);
+};
+
 /**
  * Get wearable data entries
  */
@@ -193,21 +386,17 @@ export const getWearableStatistics = async (
 /**
  * Get upload sessions (list of all uploads)
  */
-export const getUploadSessions = async (): Promise<ApiResponse<{ uploads: UploadSession[]; count: number }>> => {
-  return api.get<{ uploads: UploadSession[]; count: number }>('/wearable/uploads');
+export const getUploadSessions = async (): Promise<{ uploads: UploadSession[]; count: number }> => {
+  const response = await api.get<{ data: { uploads: UploadSession[]; count: number } }>('/wearable/uploads');
+  return response.data.data;
 };
 
 /**
- * Get single upload session details
+ * Get single upload session details, including the progress of its import
  */
-export const getUploadSession = async (
-  id: string
-): Promise<
-  ApiResponse<UploadSession & { fieldMapping?: Record<string, string>; unrecognizedFields?: string[] }>
-> => {
-  return api.get<UploadSession & { fieldMapping?: Record<string, string>; unrecognizedFields?: string[] }>(
-    `/wearable/uploads/${id}`
-  );
+export const getUploadSession = async (id: string): Promise<UploadSessionDetails> => {
+  const response = await api.get<{ data: UploadSessionDetails }>(`/wearable/uploads/${id}`);
+  return response.data.data;
 };
 
 /**
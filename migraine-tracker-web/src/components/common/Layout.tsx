@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { ReactNode } from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { 
   Brain, 
   LayoutDashboard, 
@@ -14,10 +15,17 @@ import {
   Calendar,
   TrendingUp,
   Moon,
-  Sun
+  Sun,
+  Pill,
+  Tags,
+  Bell,
+  FileText,
+  MessageSquare,
+  SlidersHorizontal
 } from 'lucide-react';
 import { useAuth } from '../../features/auth/AuthContext';
 import { useTheme } from '../../contexts/ThemeContext';
+import { notificationService } from '../../api/notificationService';
 import { Button } from './Button';
 
 // ============================================
@@ -35,6 +43,7 @@ interface LayoutProps {
  * - Mobile menu
  * - User profile section
  * - Active route highlighting
+ * - Unread notification badge
  */
 export const Layout = ({ children }: LayoutProps) => {
   const { user, logout } = useAuth();
@@ -42,6 +51,14 @@ export const Layout = ({ children }: LayoutProps) => {
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
+  // Unread count for the notifications badge (scheduled alerts arrive in the background)
+  const { data: inbox } = useQuery({
+    queryKey: ['notifications'],
+    queryFn: () => notificationService.getInbox(),
+    refetchInterval: 60 * 1000,
+  });
+  const unreadCount = inbox?.unreadCount ?? 0;
+
   // Navigation items
   const navItems = [
     {
@@ -59,6 +76,16 @@ export const Layout = ({ children }: LayoutProps) => {
       label: 'New Entry',
       icon: PlusCircle,
     },
+    {
+      path: '/medications',
+      label: 'Medications',
+      icon: Pill,
+    },
+    {
+      path: '/vocabulary',
+      label: 'Triggers & Symptoms',
+      icon: Tags,
+    },
     {
       path: '/wearable/upload',
       label: 'Upload Data',
@@ -74,6 +101,27 @@ export const Layout = ({ children }: LayoutProps) => {
       label: 'Patterns',
       icon: TrendingUp,
     },
+    {
+      path: '/chat',
+      label: 'Ask Assistant',
+      icon: MessageSquare,
+    },
+    {
+      path: '/scenarios',
+      label: 'What-if Scenarios',
+      icon: SlidersHorizontal,
+    },
+    {
+      path: '/prompts',
+      label: 'Prompt Templates',
+      icon: FileText,
+    },
+    {
+      path: '/notifications',
+      label: 'Notifications',
+      icon: Bell,
+      badge: unreadCount,
+    },
   ];
 
   // Check if route is active
@@ -120,6 +168,11 @@ export const Layout = ({ children }: LayoutProps) => {
               >
                 <Icon size={20} />
                 <span>{item.label}</span>
+                {!!item.badge && (
+                  <span className="ml-auto min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-red-600 text-white text-xs font-semibold text-center">
+                    {item.badge > 99 ? '99+' : item.badge}
+                  </span>
+                )}
               </Link>
             );
           })}
@@ -224,6 +277,11 @@ export const Layout = ({ children }: LayoutProps) => {
                   >
                     <Icon size={20} />
                     <span>{item.label}</span>
+                    {!!item.badge && (
+                      <span className="ml-auto min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-red-600 text-white text-xs font-semibold text-center">
+                        {item.badge > 99 ? '99+' : item.badge}
+                      </span>
+                    )}
                   </Link>
                 );
               })}
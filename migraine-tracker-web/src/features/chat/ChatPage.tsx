@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, Database, MessageSquare, Plus, Send, Trash2 } from 'lucide-react';
+import { chatService } from '../../api/chatService';
+import {
+  Layout,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Loading,
+  ErrorMessage,
+  Button,
+  ConfirmDialog,
+} from '../../components/common';
+import type { ChatConversation, ChatMessage } from '../../types';
+
+// ============================================
+// CHAT PAGE
+// ============================================
+
+const EXAMPLE_QUESTIONS = [
+  'What did my stress and sleep look like the two days before my last three migraines?',
+  'Which patterns are most strongly linked to my migraine days?',
+  'How many migraines did I log in the last month, and how intense were they?',
+  'Was my HRV unusual this past week?',
+];
+
+const TOOL_LABELS: Record<string, string> = {
+  list_migraines: 'Looked up migraine entries',
+  get_daily_summaries: 'Looked up daily wearable summaries',
+  get_days_before_migraines: 'Looked up the days before migraines',
+  get_correlation_patterns: 'Looked up correlation patterns',
+  get_wearable_data: 'Looked up raw wearable readings',
+};
+
+interface ToolCallItemProps {
+  message: ChatMessage;
+}
+
+const ToolCallItem = ({ message }: ToolCallItemProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const toolName = message.toolName ?? 'unknown';
+
+  return (
+    <div className="text-xs text-gray-500 dark:text-gray-400">
+      <button
+        type="button"
+        className="flex items-center gap-1 hover:text-gray-700 dark:hover:text-gray-200"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <Database size={12} />
+        {TOOL_LABELS[toolName] ?? toolName}
+      </button>
+      {isOpen && (
+        <div className="mt-2 ml-5 space-y-2">
+          <div>
+            <p className="font-medium">Arguments</p>
+            <pre className="p-2 bg-gray-50 dark:bg-gray-900 rounded whitespace-pre-wrap">
+              {JSON.stringify(message.toolArguments ?? {}, null, 2)}
+            </pre>
+          </div>
+          <div>
+            <p className="font-medium">Result</p>
+            <pre className="p-2 bg-gray-50 dark:bg-gray-900 rounded whitespace-pre-wrap max-h-64 overflow-y-auto">
+              {JSON.stringify(message.toolResult ?? {}, null, 2)}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface MessageBubbleProps {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+const MessageBubble = ({ role, content }: MessageBubbleProps) => (
+  <div className={`flex ${role === 'user' ? 'justify-end' : 'justify-start'}`}>
+    <div
+      className={`max-w-[85%] px-4 py-2 rounded-lg text-sm whitespace-pre-wrap ${
+        role === 'user'
+          ? 'bg-primary-600 text-white'
+          : 'bg-gray-100 text-gray-900 dark:bg-gray-700 dark:text-gray-100'
+      }`}
+    >
+      {content}
+    </div>
+  </div>
+);
+
+interface ConversationListProps {
+  conversations: ChatConversation[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onDelete: (conversation: ChatConversation) => void;
+}
+
+const ConversationList = ({ conversations, selectedId, onSelect, onDelete }: ConversationListProps) => (
+  <div className="space-y-1">
+    {conversations.map((conversation) => (
+      <div
+        key={conversation.id}
+        className={`flex items-start gap-2 p-2 rounded-lg ${
+          conversation.id === selectedId
+            ? 'bg-primary-50 dark:bg-primary-900/30'
+            : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+        }`}
+      >
+        <button type="button" className="flex-1 text-left min-w-0" onClick={() => onSelect(conversation.id)}>
+          <span className="block text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+            {conversation.title}
+          </span>
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            {format(new Date(conversation.updatedAt), 'MMM d, HH:mm')}
+            {conversation.messageCount !== undefined && ` · ${conversation.messageCount} messages`}
+          </span>
+        </button>
+        <button
+          onClick={() => onDelete(conversation)}
+          className="p-1 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded"
+          aria-label="Delete conversation"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+    ))}
+    {conversations.length === 0 && (
+      <p className="text-sm text-gray-500 dark:text-gray-400">No conversations yet.</p>
+    )}
+  </div>
+);
+
+/**
+ * Chat Page
+ * Features:
+ * - Ask questions about your migraines and wearable data in plain language
+ * - Shows which records the assistant looked up for each answer (expandable)
+ * - Stored conversations that can be continued or deleted
+ * - Example questions to get started
+ */
+export const ChatPage = () => {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [conversationToDelete, setConversationToDelete] = useState<ChatConversation | null>(null);
+
+  const { data: conversations, isLoading, error, refetch } = useQuery({
+    queryKey: ['chat-conversations'],
+    queryFn: () => chatService.getConversations(),
+  });
+
+  const { data: conversation, isLoading: isConversationLoading } = useQuery({
+    queryKey: ['chat-conversation', selectedId],
+    queryFn: () => chatService.getConversation(selectedId as string),
+    enabled: !!selectedId,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: (message: string) =>
+      selectedId ? chatService.sendMessage(selectedId, message) : chatService.startConversation(message),
+    onSuccess: (turn) => {
+      setDraft('');
+      setSelectedId(turn.conversation.id);
+      queryClient.invalidateQueries({ queryKey: ['chat-conversations'] });
+      queryClient.invalidateQueries({ queryKey: ['chat-conversation', turn.conversation.id] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => chatService.deleteConversation(id),
+    onSuccess: (_, id) => {
+      setConversationToDelete(null);
+      if (id === selectedId) setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ['chat-conversations'] });
+      queryClient.removeQueries({ queryKey: ['chat-conversation', id] });
+    },
+  });
+
+  const ask = (message: string) => {
+    if (!message.trim() || sendMutation.isPending) return;
+    sendMutation.mutate(message.trim());
+  };
+
+  const messages = selectedId ? conversation?.messages ?? [] : [];
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Ask Assistant</h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              Ask about your migraines and wearable data. Answers are based only on your own records.
+            </p>
+          </div>
+          <Button
+            variant="primary"
+            leftIcon={<Plus size={18} />}
+            onClick={() => {
+              setSelectedId(null);
+              sendMutation.reset();
+            }}
+            disabled={!selectedId || sendMutation.isPending}
+          >
+            New Conversation
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Loading text="Loading conversations..." />
+        ) : error || !conversations ? (
+          <ErrorMessage message="Failed to load conversations" onRetry={() => refetch()} />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <Card className="lg:col-span-1">
+              <CardHeader>
+                <CardTitle>Conversations</CardTitle>
+              </CardHeader>
+              <ConversationList
+                conversations={conversations}
+                selectedId={selectedId}
+                onSelect={(id) => {
+                  setSelectedId(id);
+                  sendMutation.reset();
+                }}
+                onDelete={setConversationToDelete}
+              />
+            </Card>
+
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="w-5 h-5" />
+                  {selectedId && conversation ? conversation.title : 'New conversation'}
+                </CardTitle>
+                <CardDescription>
+                  The assistant looks up your records before answering. It does not give medical advice.
+                </CardDescription>
+              </CardHeader>
+
+              <div className="space-y-4">
+                {selectedId && isConversationLoading ? (
+                  <Loading text="Loading conversation..." />
+                ) : messages.length === 0 && !sendMutation.isPending ? (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Try one of these:</p>
+                    {EXAMPLE_QUESTIONS.map((question) => (
+                      <button
+                        key={question}
+                        type="button"
+                        onClick={() => ask(question)}
+                        className="block w-full text-left px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        {question}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+                    {messages.map((message) =>
+                      message.role === 'tool' ? (
+                        <ToolCallItem key={message.id} message={message} />
+                      ) : (
+                        <MessageBubble key={message.id} role={message.role} content={message.content} />
+                      )
+                    )}
+                    {sendMutation.isPending && (
+                      <>
+                        <MessageBubble role="user" content={sendMutation.variables ?? ''} />
+                        <Loading text="Looking through your records..." />
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {sendMutation.isError && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {(sendMutation.error as Error)?.message || 'The assistant could not answer'}
+                  </p>
+                )}
+
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    ask(draft);
+                  }}
+                >
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        ask(draft);
+                      }
+                    }}
+                    rows={2}
+                    maxLength={2000}
+                    placeholder="Ask a question about your data..."
+                    className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm resize-none"
+                  />
+                  <Button
+                    type="submit"
+                    variant="primary"
+                    leftIcon={<Send size={18} />}
+                    disabled={!draft.trim() || sendMutation.isPending}
+                  >
+                    Ask
+                  </Button>
+                </form>
+              </div>
+            </Card>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!conversationToDelete}
+        onClose={() => {
+          setConversationToDelete(null);
+          deleteMutation.reset();
+        }}
+        onConfirm={() => conversationToDelete && deleteMutation.mutate(conversationToDelete.id)}
+        title="Delete conversation"
+        message={
+          deleteMutation.isError
+            ? (deleteMutation.error as Error)?.message || 'Failed to delete conversation'
+            : `Delete "${conversationToDelete?.title}" and all its messages?`
+        }
+        confirmLabel="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Layout>
+  );
+};
+
+export default ChatPage;
@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, subDays } from 'date-fns';
+import { ClipboardCheck, CheckCircle2 } from 'lucide-react';
+import { checkinService } from '../../api/checkinService';
+import { Card, CardHeader, CardTitle, CardDescription, Button } from '../../components/common';
+import type { DailyCheckin, SaveDailyCheckin } from '../../types';
+
+// ============================================
+// DAILY CHECK-IN WIDGET
+// ============================================
+
+const MOOD_LABELS = ['Very low', 'Low', 'Okay', 'Good', 'Very good'];
+
+// Numeric lifestyle fields shown as small inputs
+const NUMBER_FIELDS: {
+  key: 'sleepHours' | 'caffeineServings' | 'alcoholUnits' | 'waterLiters' | 'screenTimeHours';
+  label: string;
+  step: number;
+  max: number;
+}[] = [
+  { key: 'sleepHours', label: 'Sleep (h)', step: 0.5, max: 24 },
+  { key: 'caffeineServings', label: 'Caffeine (cups)', step: 1, max: 30 },
+  { key: 'alcoholUnits', label: 'Alcohol (units)', step: 0.5, max: 50 },
+  { key: 'waterLiters', label: 'Water (L)', step: 0.25, max: 15 },
+  { key: 'screenTimeHours', label: 'Screen time (h)', step: 0.5, max: 24 },
+];
+
+type NumberFieldKey = (typeof NUMBER_FIELDS)[number]['key'];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm';
+
+interface CheckinFormProps {
+  date: string;
+  checkin: DailyCheckin | null;
+}
+
+/**
+ * Check-in form for a single day, initialised from the saved check-in
+ */
+const CheckinForm = ({ date, checkin }: CheckinFormProps) => {
+  const queryClient = useQueryClient();
+  const [hadHeadache, setHadHeadache] = useState<boolean | null>(checkin ? checkin.hadHeadache : null);
+  const [numbers, setNumbers] = useState<Record<NumberFieldKey, string>>(() =>
+    Object.fromEntries(
+      NUMBER_FIELDS.map(({ key }) => [key, checkin?.[key] !== undefined ? String(checkin[key]) : ''])
+    ) as Record<NumberFieldKey, string>
+  );
+  const [mood, setMood] = useState<DailyCheckin['mood']>(checkin?.mood);
+  const [menstruation, setMenstruation] = useState(checkin?.menstruation ?? false);
+  const [skippedMeals, setSkippedMeals] = useState(checkin?.skippedMeals ?? false);
+
+  // Save mutation
+  const saveMutation = useMutation({
+    mutationFn: (data: SaveDailyCheckin) => checkinService.save(date, data),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['checkin', date], saved);
+      queryClient.invalidateQueries({ queryKey: ['checkins'] });
+    },
+  });
+
+  const handleSave = () => {
+    if (hadHeadache === null) return;
+    const data: SaveDailyCheckin = { hadHeadache, mood, menstruation, skippedMeals };
+    NUMBER_FIELDS.forEach(({ key }) => {
+      if (numbers[key] !== '') data[key] = parseFloat(numbers[key]);
+    });
+    saveMutation.mutate(data);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Headache yes/no */}
+      <div>
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Any headache on this day? <span className="text-red-500">*</span>
+        </p>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            size="sm"
+            variant={hadHeadache === false ? 'primary' : 'outline'}
+            onClick={() => setHadHeadache(false)}
+          >
+            No, headache-free
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={hadHeadache === true ? 'danger' : 'outline'}
+            onClick={() => setHadHeadache(true)}
+          >
+            Yes
+          </Button>
+        </div>
+      </div>
+
+      {/* Lifestyle factors */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {NUMBER_FIELDS.map(({ key, label, step, max }) => (
+          <div key={key}>
+            <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</label>
+            <input
+              type="number"
+              min={0}
+              max={max}
+              step={step}
+              value={numbers[key]}
+              onChange={(e) => setNumbers({ ...numbers, [key]: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        {/* Mood */}
+        <div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Mood</p>
+          <div className="flex gap-1">
+            {MOOD_LABELS.map((label, index) => {
+              const value = (index + 1) as NonNullable<DailyCheckin['mood']>;
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  title={label}
+                  onClick={() => setMood(mood === value ? undefined : value)}
+                  className={`w-9 h-9 rounded-lg text-sm font-medium border transition-colors ${
+                    mood === value
+                      ? 'bg-primary-600 text-white border-primary-600'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Menstruation */}
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 md:mt-5">
+          <input
+            type="checkbox"
+            checked={menstruation}
+            onChange={(e) => setMenstruation(e.target.checked)}
+            className="w-4 h-4 accent-primary-600"
+          />
+          Menstruation
+        </label>
+
+        {/* Skipped meals */}
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 md:mt-5">
+          <input
+            type="checkbox"
+            checked={skippedMeals}
+            onChange={(e) => setSkippedMeals(e.target.checked)}
+            className="w-4 h-4 accent-primary-600"
+          />
+          Skipped a meal
+        </label>
+
+        <div className="flex items-center gap-3 md:ml-auto md:mt-5">
+          {saveMutation.isSuccess && (
+            <span className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400">
+              <CheckCircle2 size={16} />
+              Saved
+            </span>
+          )}
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={handleSave}
+            isLoading={saveMutation.isPending}
+            disabled={hadHeadache === null || saveMutation.isPending}
+          >
+            {checkin ? 'Update Check-in' : 'Save Check-in'}
+          </Button>
+        </div>
+      </div>
+
+      {saveMutation.isError && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {(saveMutation.error as Error)?.message || 'Failed to save check-in'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Daily Check-in Widget Component
+ * Features:
+ * - Quick headache yes/no for today or an earlier day
+ * - Sleep, caffeine, alcohol, water, screen time, mood, menstruation and skipped meals
+ * - Confirmed headache-free days become the control group for pattern analysis
+ */
+const DailyCheckinWidget = () => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [date, setDate] = useState(today);
+
+  const { data: checkin, isLoading } = useQuery({
+    queryKey: ['checkin', date],
+    queryFn: () => checkinService.getByDate(date),
+  });
+
+  return (
+    <Card padding="lg">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5" />
+              Daily Check-in
+            </CardTitle>
+            <CardDescription>
+              Record every day, including good ones — headache-free days are what patterns are compared against.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant={date === today ? 'primary' : 'ghost'}
+              onClick={() => setDate(today)}
+            >
+              Today
+            </Button>
+            <Button
+              size="sm"
+              variant={date === format(subDays(new Date(), 1), 'yyyy-MM-dd') ? 'primary' : 'ghost'}
+              onClick={() => setDate(format(subDays(new Date(), 1), 'yyyy-MM-dd'))}
+            >
+              Yesterday
+            </Button>
+            <input
+              type="date"
+              value={date}
+              max={today}
+              onChange={(e) => e.target.value && setDate(e.target.value)}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm"
+            />
+          </div>
+        </div>
+      </CardHeader>
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading check-in...</p>
+      ) : (
+        // Remount when the day (or its saved check-in) changes so the form starts from saved values
+        <CheckinForm key={`${date}-${checkin?.updatedAt ?? 'new'}`} date={date} checkin={checkin ?? null} />
+      )}
+    </Card>
+  );
+};
+
+export default DailyCheckinWidget;
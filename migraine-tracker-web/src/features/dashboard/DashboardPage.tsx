@@ -1,18 +1,20 @@
 import { useEffect, useState } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { 
   Calendar, 
   AlertCircle, 
   Plus,
   Brain,
   User,
+  SlidersHorizontal,
   X
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { migraineService } from '../../api/migraineService';
 import { profileService } from '../../api/profileService';
 import { processSummaryIndicators } from '../../api/summaryService';
-import { getRiskAnalysisPrompt, callAIAgent, type AIAnalysisResponse } from '../../api/riskAnalysisService';
+import { scenarioService } from '../../api/scenarioService';
+import { analyzeRiskWithAI, getLocalRiskAnalysis, getLlmProviderStatus, type AIAnalysisResponse, type UnparseableAIResponse } from '../../api/riskAnalysisService';
 import { 
   Layout, 
   Card, 
@@ -25,11 +27,23 @@ import {
 } from '../../components/common';
 import RecentEntries from './RecentEntries';
 import MigraineCalendarPreview from './MigraineCalendarPreview';
+import MedicationOveruseWarning from './MedicationOveruseWarning';
+import DailyCheckinWidget from './DailyCheckinWidget';
+import RiskHistoryWidget from './RiskHistoryWidget';
+import RiskHorizonStrip from './RiskHorizonStrip';
 
 // ============================================
 // DASHBOARD PAGE
 // ============================================
 
+const HORIZON_OPTIONS = [6, 12, 24, 72];
+
+const LOOKBACK_OPTIONS = [
+  { value: 24, label: '24 hours' },
+  { value: 72, label: '3 days' },
+  { value: 168, label: '7 days' },
+];
+
 /**
  * Dashboard Page Component
  * Features:
@@ -40,50 +54,63 @@ import MigraineCalendarPreview from './MigraineCalendarPreview';
  */
 export const DashboardPage = () => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [aiAnalysis, setAiAnalysis] = useState<AIAnalysisResponse | null>(null);
-  const [showApiKeyInput, setShowApiKeyInput] = useState(false);
-  const [apiKey, setApiKey] = useState(() => localStorage.getItem('do_ai_agent_api_key') || '');
+  const [unparseableResponse, setUnparseableResponse] = useState<UnparseableAIResponse | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showFullAnalysis, setShowFullAnalysis] = useState(false);
+  // Both engines run on the API server; the AI agent uses the LLM provider configured there
+  const [riskEngine, setRiskEngine] = useState<'local' | 'agent'>(
+    () => (localStorage.getItem('risk_engine') === 'agent' ? 'agent' : 'local')
+  );
+  const [horizonHours, setHorizonHours] = useState(12);
+  const [lookbackHours, setLookbackHours] = useState(24);
   
-  // Simulated data for testing
-  const [useSimulatedData, setUseSimulatedData] = useState(true);
-  const [simulatedData, setSimulatedData] = useState({
-    stress: 30,
-    recovery: 65,
-    hrv: 45,
-    heartRate: 65,
-    sleepEfficiency: 85,
-    skinTemp: 33.5
+  // What-if scenario replacing the recorded last 24 hours ('' = recorded data)
+  const [scenarioId, setScenarioId] = useState('');
+
+  const { data: scenarios } = useQuery({
+    queryKey: ['risk-scenarios'],
+    queryFn: () => scenarioService.getScenarios(),
+  });
+  const selectedScenario = scenarios?.find((scenario) => scenario.id === scenarioId);
+
+  // Provider status tells whether the AI agent can be used (keys never reach the browser)
+  const { data: llmProvider } = useQuery({
+    queryKey: ['llm-provider'],
+    queryFn: getLlmProviderStatus,
+    enabled: riskEngine === 'agent',
+    retry: false,
   });
 
-  // Combined mutation: Generate prompt and get AI analysis in one flow
+  // Run the selected engine; the server builds the prompt and calls the provider
   const getAIAnalysisMutation = useMutation({
     mutationFn: async () => {
       setIsAnalyzing(true);
       setShowFullAnalysis(false); // Close the raw response section when starting new analysis
       
-      // Step 1: Generate prompt
-      const dataToSend = useSimulatedData ? simulatedData : undefined;
-      const promptResponse = await getRiskAnalysisPrompt(dataToSend);
-      
-      console.log('Prompt generation response:', promptResponse);
-      
-      // Extract prompt from response
-      let prompt = '';
-      if (promptResponse?.data?.data?.prompt) {
-        prompt = promptResponse.data.data.prompt;
-      } else {
-        throw new Error('Failed to generate prompt');
+      const scenarioInput = selectedScenario ? { scenarioId: selectedScenario.id } : undefined;
+      const forecastWindow = { lookbackHours, horizonHours };
+
+      if (riskEngine === 'local') {
+        return getLocalRiskAnalysis(scenarioInput, forecastWindow);
       }
-      
-      // Step 2: Call AI agent with the prompt
-      const analysis = await callAIAgent(prompt);
-      return analysis;
+
+      return analyzeRiskWithAI(scenarioInput, forecastWindow);
     },
     onSuccess: (analysis) => {
-      setAiAnalysis(analysis);
+      // Output that failed validation is shown as such, never as a made-up risk score
+      if (analysis.status === 'unparseable') {
+        setUnparseableResponse(analysis);
+        setAiAnalysis(null);
+      } else {
+        setAiAnalysis(analysis);
+        setUnparseableResponse(null);
+      }
       setIsAnalyzing(false);
+      // The API stores every analysis; refresh the history chart
+      queryClient.invalidateQueries({ queryKey: ['risk-assessments'] });
+      queryClient.invalidateQueries({ queryKey: ['risk-horizons'] });
     },
     onError: (error: any) => {
       console.error('Error in AI analysis:', error);
@@ -92,16 +119,11 @@ export const DashboardPage = () => {
     }
   });
 
-  // Save API key to localStorage
-  const handleSaveApiKey = () => {
-    if (apiKey.trim()) {
-      localStorage.setItem('do_ai_agent_api_key', apiKey.trim());
-      setShowApiKeyInput(false);
-      alert('API key saved successfully!');
-    } else {
-      alert('Please enter a valid API key');
-    }
+  const handleRiskEngineChange = (engine: 'local' | 'agent') => {
+    setRiskEngine(engine);
+    localStorage.setItem('risk_engine', engine);
   };
+
   const [dismissedProfileNotification, setDismissedProfileNotification] = useState(false);
 
   // Fetch user profile
@@ -233,6 +255,9 @@ export const DashboardPage = () => {
           </Card>
         )}
 
+        {/* Medication Overuse Warning */}
+        <MedicationOveruseWarning />
+
         {/* Page Header */}
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div>
@@ -302,77 +327,16 @@ export const DashboardPage = () => {
                     Mark migraine days →
                   </p>
                 )}
+                {stats?.triggerCategories && stats.triggerCategories.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                    Top category: {stats.triggerCategories[0].label} ({stats.triggerCategories[0].count} entries)
+                  </p>
+                )}
               </div>
             </div>
           </Card>
         </div>
 
-        {/* AI API Key Configuration Warning */}
-        {!apiKey && (
-          <Card padding="lg" className="border-2 border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20">
-            <div className="flex items-start gap-3">
-              <div className="text-yellow-600 dark:text-yellow-400 mt-1 text-2xl">⚠️</div>
-              <div className="flex-1">
-                <h3 className="text-sm font-bold text-gray-900 dark:text-gray-100 mb-2">AI Agent API Key Required</h3>
-                <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
-                  To use AI-powered risk analysis, configure your API key from:
-                  <br />
-                  <strong>DigitalOcean Control Panel → AI Agents → Your Agent → API Keys</strong>
-                </p>
-                <button
-                  onClick={() => setShowApiKeyInput(true)}
-                  className="px-4 py-2 text-sm bg-yellow-600 dark:bg-yellow-700 text-white rounded-lg hover:bg-yellow-700 dark:hover:bg-yellow-600 transition-colors"
-                >
-                  Configure API Key
-                </button>
-              </div>
-            </div>
-          </Card>
-        )}
-
-        {/* API Key Input */}
-        {showApiKeyInput && (
-          <Card padding="lg" className="border-2 border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20">
-            <div className="space-y-4">
-              <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">Configure AI Agent API Key</h3>
-              <div className="bg-white dark:bg-gray-800 p-3 rounded border border-blue-200 dark:border-blue-800 text-sm">
-                <p className="font-semibold text-gray-900 dark:text-gray-100 mb-2">How to get your API key:</p>
-                <ol className="list-decimal list-inside space-y-1 text-gray-700 dark:text-gray-300">
-                  <li>Go to <a href="https://cloud.digitalocean.com/" target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">DigitalOcean Control Panel</a></li>
-                  <li>Navigate to <strong>AI Agents</strong></li>
-                  <li>Select your agent</li>
-                  <li>Go to <strong>API Keys</strong> section</li>
-                  <li>Copy your API key and paste it below</li>
-                </ol>
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">API Key *</label>
-                <input
-                  type="password"
-                  value={apiKey}
-                  onChange={(e) => setApiKey(e.target.value)}
-                  placeholder="Paste your API key here..."
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                />
-              </div>
-              <div className="flex gap-2">
-                <button
-                  onClick={handleSaveApiKey}
-                  className="px-4 py-2 bg-blue-600 dark:bg-blue-700 text-white rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors"
-                >
-                  Save API Key
-                </button>
-                <button
-                  onClick={() => setShowApiKeyInput(false)}
-                  className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
-                >
-                  Cancel
-                </button>
-              </div>
-            </div>
-          </Card>
-        )}
-
         {/* AI Risk Analysis Section */}
         <Card padding="lg">
           <CardHeader>
@@ -381,123 +345,101 @@ export const DashboardPage = () => {
                 <Brain className="text-primary-600 dark:text-primary-400" size={28} />
               </div>
               <div className="flex-1">
-                <CardTitle>AI-Powered Risk Analysis</CardTitle>
+                <CardTitle>Migraine Risk Analysis</CardTitle>
                 <CardDescription>
-                  Generate a comprehensive 12-hour migraine risk assessment based on your recent data and patterns
-                  {apiKey && (
-                    <button
-                      onClick={() => setShowApiKeyInput(true)}
-                      className="ml-2 text-xs text-primary-600 dark:text-primary-400 hover:underline"
-                    >
-                      (Change API Key)
-                    </button>
-                  )}
+                  Generate a comprehensive migraine risk assessment for the coming hours or days based on your recent data and patterns
                 </CardDescription>
               </div>
             </div>
           </CardHeader>
 
           <div className="mt-6 space-y-6">
-            {/* Simulated Data Section */}
-            <div className="bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
-              <div className="flex items-center justify-between mb-4">
-                <div>
-                  <h3 className="text-sm font-bold text-gray-900 dark:text-gray-100">Test with Simulated Data</h3>
-                  <p className="text-xs text-gray-600 dark:text-gray-400">Adjust metrics to test different risk scenarios</p>
-                </div>
-                <label className="flex items-center gap-2 cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={useSimulatedData}
-                    onChange={(e) => setUseSimulatedData(e.target.checked)}
-                    className="w-4 h-4 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
-                  />
-                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Use Simulated Data</span>
-                </label>
+            {/* Engine Selection */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Analysis engine:</span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant={riskEngine === 'local' ? 'primary' : 'outline'}
+                  onClick={() => handleRiskEngineChange('local')}
+                >
+                  Local model
+                </Button>
+                <Button
+                  size="sm"
+                  variant={riskEngine === 'agent' ? 'primary' : 'outline'}
+                  onClick={() => handleRiskEngineChange('agent')}
+                >
+                  AI agent
+                </Button>
               </div>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {riskEngine === 'local'
+                  ? 'Deterministic model fit on your own history; works offline, no API key needed.'
+                  : `Your data is analyzed on the server by the configured AI provider${llmProvider ? ` (${llmProvider.provider})` : ''}.`}
+              </span>
+            </div>
 
-              {useSimulatedData && (
-                <div className="space-y-4">
-                  {/* Quick Presets at top */}
-                  <div className="flex flex-wrap gap-2">
-                    <button
-                      onClick={() => setSimulatedData({ stress: 65, recovery: 25, hrv: 25, heartRate: 85, sleepEfficiency: 60, skinTemp: 34.5 })}
-                      className="px-3 py-1.5 text-xs bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors font-medium"
-                    >
-                      🚨 High Risk
-                    </button>
-                    <button
-                      onClick={() => setSimulatedData({ stress: 35, recovery: 55, hrv: 40, heartRate: 70, sleepEfficiency: 75, skinTemp: 33.5 })}
-                      className="px-3 py-1.5 text-xs bg-yellow-100 text-yellow-700 rounded-lg hover:bg-yellow-200 transition-colors font-medium"
-                    >
-                      ⚠️ Moderate Risk
-                    </button>
-                    <button
-                      onClick={() => setSimulatedData({ stress: 20, recovery: 75, hrv: 55, heartRate: 60, sleepEfficiency: 90, skinTemp: 33.0 })}
-                      className="px-3 py-1.5 text-xs bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition-colors font-medium"
-                    >
-                      ✅ Low Risk
-                    </button>
-                  </div>
-
-                  {/* Compact sliders - 2 columns */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    {/* Stress */}
-                    <div className="bg-white dark:bg-gray-800 p-2 rounded">
-                      <div className="flex justify-between items-center mb-1">
-                        <label className="text-xs font-medium text-gray-700 dark:text-gray-300">Stress</label>
-                        <span className="text-sm font-bold text-gray-900 dark:text-gray-100">{simulatedData.stress}</span>
-                      </div>
-                      <input type="range" min="0" max="100" value={simulatedData.stress} onChange={(e) => setSimulatedData(prev => ({ ...prev, stress: parseInt(e.target.value) }))} className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-red-500" />
-                    </div>
-
-                    {/* Recovery */}
-                    <div className="bg-white dark:bg-gray-800 p-2 rounded">
-                      <div className="flex justify-between items-center mb-1">
-                        <label className="text-xs font-medium text-gray-700 dark:text-gray-300">Recovery</label>
-                        <span className="text-sm font-bold text-gray-900 dark:text-gray-100">{simulatedData.recovery}</span>
-                      </div>
-                      <input type="range" min="0" max="100" value={simulatedData.recovery} onChange={(e) => setSimulatedData(prev => ({ ...prev, recovery: parseInt(e.target.value) }))} className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-500" />
-                    </div>
-
-                    {/* HRV */}
-                    <div className="bg-white dark:bg-gray-800 p-2 rounded">
-                      <div className="flex justify-between items-center mb-1">
-                        <label className="text-xs font-medium text-gray-700 dark:text-gray-300">HRV</label>
-                        <span className="text-sm font-bold text-gray-900 dark:text-gray-100">{simulatedData.hrv}ms</span>
-                      </div>
-                      <input type="range" min="0" max="100" value={simulatedData.hrv} onChange={(e) => setSimulatedData(prev => ({ ...prev, hrv: parseInt(e.target.value) }))} className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500" />
-                    </div>
-
-                    {/* Heart Rate */}
-                    <div className="bg-white dark:bg-gray-800 p-2 rounded">
-                      <div className="flex justify-between items-center mb-1">
-                        <label className="text-xs font-medium text-gray-700 dark:text-gray-300">Heart Rate</label>
-                        <span className="text-sm font-bold text-gray-900 dark:text-gray-100">{simulatedData.heartRate} bpm</span>
-                      </div>
-                      <input type="range" min="40" max="120" value={simulatedData.heartRate} onChange={(e) => setSimulatedData(prev => ({ ...prev, heartRate: parseInt(e.target.value) }))} className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-600" />
-                    </div>
+            {/* Forecast Window */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Forecast horizon</label>
+                <select
+                  value={horizonHours}
+                  onChange={(e) => setHorizonHours(parseInt(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                >
+                  {HORIZON_OPTIONS.map((value) => (
+                    <option key={value} value={value}>Next {value} hours</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Data to consider</label>
+                <select
+                  value={lookbackHours}
+                  onChange={(e) => setLookbackHours(parseInt(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                >
+                  {LOOKBACK_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>Last {option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
 
-                    {/* Sleep Efficiency */}
-                    <div className="bg-white dark:bg-gray-800 p-2 rounded">
-                      <div className="flex justify-between items-center mb-1">
-                        <label className="text-xs font-medium text-gray-700 dark:text-gray-300">Sleep Efficiency</label>
-                        <span className="text-sm font-bold text-gray-900 dark:text-gray-100">{simulatedData.sleepEfficiency}%</span>
-                      </div>
-                      <input type="range" min="0" max="100" value={simulatedData.sleepEfficiency} onChange={(e) => setSimulatedData(prev => ({ ...prev, sleepEfficiency: parseInt(e.target.value) }))} className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
-                    </div>
+            {riskEngine === 'agent' && llmProvider && !llmProvider.configured && (
+              <div className="text-sm text-yellow-800 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 p-3 rounded-lg">
+                The AI provider is not configured on the server. Set <code>LLM_PROVIDER</code> and the provider's
+                API key in <code>migraine-tracker-api/.env</code>, or use the local model.
+              </div>
+            )}
 
-                    {/* Skin Temperature */}
-                    <div className="bg-white dark:bg-gray-800 p-2 rounded">
-                      <div className="flex justify-between items-center mb-1">
-                        <label className="text-xs font-medium text-gray-700 dark:text-gray-300">Skin Temp</label>
-                        <span className="text-sm font-bold text-gray-900 dark:text-gray-100">{simulatedData.skinTemp.toFixed(1)}°C</span>
-                      </div>
-                      <input type="range" min="30" max="37" step="0.1" value={simulatedData.skinTemp} onChange={(e) => setSimulatedData(prev => ({ ...prev, skinTemp: parseFloat(e.target.value) }))} className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-500" />
-                    </div>
-                  </div>
+            {/* Data Source */}
+            <div className="bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Data source</label>
+                  <select
+                    value={scenarioId}
+                    onChange={(e) => setScenarioId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  >
+                    <option value="">My recorded data</option>
+                    {(scenarios ?? []).map((scenario) => (
+                      <option key={scenario.id} value={scenario.id}>What-if: {scenario.name}</option>
+                    ))}
+                  </select>
                 </div>
-              )}
+                <Button variant="outline" leftIcon={<SlidersHorizontal size={16} />} onClick={() => navigate('/scenarios')}>
+                  Edit Scenarios
+                </Button>
+              </div>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-2">
+                {selectedScenario
+                  ? `The last 24 hours are replaced by "${selectedScenario.name}". The result is saved as a simulated assessment and kept out of your risk history.`
+                  : 'Uses your uploaded wearable data. Build what-if scenarios to test how different days would change your risk.'}
+              </p>
             </div>
 
             {/* Action Button */}
@@ -508,7 +450,7 @@ export const DashboardPage = () => {
               disabled={getAIAnalysisMutation.isPending || isAnalyzing}
               className="w-full py-4 text-lg font-semibold"
             >
-              {isAnalyzing ? 'Analyzing...' : 'Get AI Risk Analysis'}
+              {isAnalyzing ? 'Analyzing...' : riskEngine === 'local' ? 'Calculate Risk Score' : 'Get AI Risk Analysis'}
             </Button>
 
             {getAIAnalysisMutation.isError && (
@@ -518,13 +460,64 @@ export const DashboardPage = () => {
               </div>
             )}
 
+            {/* Unreadable AI response */}
+            {unparseableResponse && (
+              <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-6">
+                <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4 space-y-3">
+                  <div className="flex items-start gap-2">
+                    <AlertCircle className="text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" size={20} />
+                    <div>
+                      <p className="font-semibold text-amber-900 dark:text-amber-200">The AI response could not be read</p>
+                      <p className="text-sm text-amber-800 dark:text-amber-300">
+                        The model did not return a valid risk analysis, so no risk score is shown. Problems found:
+                      </p>
+                    </div>
+                  </div>
+                  <ul className="list-disc list-inside text-sm text-amber-800 dark:text-amber-300 space-y-1">
+                    {unparseableResponse.validationErrors.map((error, idx) => (
+                      <li key={idx}>{error}</li>
+                    ))}
+                  </ul>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => getAIAnalysisMutation.mutate()}
+                      disabled={getAIAnalysisMutation.isPending || isAnalyzing}
+                    >
+                      Try Again
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setShowFullAnalysis(!showFullAnalysis)}>
+                      {showFullAnalysis ? 'Hide Raw Response' : 'Show Raw Response'}
+                    </Button>
+                  </div>
+                  {showFullAnalysis && (
+                    <pre className="text-xs text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 p-3 rounded whitespace-pre-wrap max-h-96 overflow-y-auto">
+                      {unparseableResponse.rawResponse}
+                    </pre>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* AI Analysis Results */}
             {aiAnalysis && (
               <div className="mt-6 space-y-6 border-t border-gray-200 dark:border-gray-700 pt-6">
                 <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100 flex items-center gap-2">
                   <Brain className="text-primary-600 dark:text-primary-400" size={24} />
-                  AI Risk Analysis Results
+                  {aiAnalysis.model ? 'Local Model Results' : 'AI Risk Analysis Results'}
                 </h3>
+                {aiAnalysis.metadata?.promptTemplateVersion && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 -mt-4">
+                    Prompt template: {aiAnalysis.metadata.promptTemplateVersion}
+                    {aiAnalysis.metadata.promptVariant && ` (experiment arm ${aiAnalysis.metadata.promptVariant})`}
+                  </p>
+                )}
+                {aiAnalysis.metadata?.usingSimulatedData && (
+                  <p className="text-xs text-amber-700 dark:text-amber-400 -mt-4">
+                    Simulated: based on a what-if scenario, not your recorded data
+                  </p>
+                )}
 
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                   {/* Circular Risk Indicator */}
@@ -561,10 +554,10 @@ export const DashboardPage = () => {
                         )}
                       </svg>
                       <div className="absolute inset-0 flex flex-col items-center justify-center">
-                        {aiAnalysis.riskLevel > 0 ? (
+                        {Number.isFinite(aiAnalysis.riskLevel) ? (
                           <>
                             <span className="text-5xl font-bold text-gray-900 dark:text-gray-100">{aiAnalysis.riskLevel}%</span>
-                            <span className="text-sm font-medium text-gray-600 dark:text-gray-400 mt-2">12 Hour Risk</span>
+                            <span className="text-sm font-medium text-gray-600 dark:text-gray-400 mt-2">{aiAnalysis.metadata?.horizonHours ?? 12} Hour Risk</span>
                           </>
                         ) : (
                           <>
@@ -576,7 +569,7 @@ export const DashboardPage = () => {
                     </div>
                     <div className="mt-4 text-center">
                       <p className="text-xs text-gray-600 dark:text-gray-400">
-                        {aiAnalysis.riskLevel > 0 ? (
+                        {Number.isFinite(aiAnalysis.riskLevel) ? (
                           <span className="font-semibold">{aiAnalysis.riskCategory}</span>
                         ) : (
                           <span className="text-gray-400 dark:text-gray-500">No risk data available</span>
@@ -627,13 +620,44 @@ export const DashboardPage = () => {
                   </div>
                 </div>
 
+                {/* Factor Contributions (local model) */}
+                {aiAnalysis.factors && aiAnalysis.factors.length > 0 && (
+                  <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+                    <h4 className="text-sm font-bold text-gray-900 dark:text-gray-100 mb-1">🧮 Factor Contributions</h4>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                      Change in log-odds from a typical day; positive values raise the risk.
+                      {aiAnalysis.model && (aiAnalysis.model.type === 'logistic'
+                        ? ` Model fit on ${aiAnalysis.model.migraineDays} migraine days and ${aiAnalysis.model.controlDays} headache-free days.`
+                        : ' Using default weights until more migraine and headache-free days are recorded.')}
+                    </p>
+                    <ul className="space-y-2">
+                      {aiAnalysis.factors.map((factor) => (
+                        <li key={factor.feature} className="flex items-center gap-3 text-sm">
+                          <span className="flex-1 text-gray-700 dark:text-gray-300">{factor.description}</span>
+                          <span
+                            className={`font-mono font-semibold ${
+                              factor.contribution > 0
+                                ? 'text-red-600 dark:text-red-400'
+                                : factor.contribution < 0
+                                  ? 'text-green-600 dark:text-green-400'
+                                  : 'text-gray-500 dark:text-gray-400'
+                            }`}
+                          >
+                            {factor.contribution > 0 ? '+' : ''}{factor.contribution.toFixed(2)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Full Analysis Text - Collapsible */}
                 <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
                   <button
                     onClick={() => setShowFullAnalysis(!showFullAnalysis)}
                     className="w-full flex items-center justify-between text-left hover:bg-gray-100 dark:hover:bg-gray-700 rounded p-2 transition-colors"
                   >
-                    <h4 className="text-sm font-bold text-gray-900 dark:text-gray-100">📄 Complete AI Analysis (Raw Response)</h4>
+                    <h4 className="text-sm font-bold text-gray-900 dark:text-gray-100">📄 {aiAnalysis.model ? 'Complete Model Explanation' : 'Complete AI Analysis (Raw Response)'}</h4>
                     <span className="text-gray-600 dark:text-gray-400">
                       {showFullAnalysis ? '▼' : '▶'}
                     </span>
@@ -651,6 +675,15 @@ export const DashboardPage = () => {
           </div>
         </Card>
 
+        {/* Risk Outlook */}
+        <RiskHorizonStrip />
+
+        {/* Risk History */}
+        <RiskHistoryWidget />
+
+        {/* Daily Check-in */}
+        <DailyCheckinWidget />
+
         {/* Migraine Calendar Preview */}
         <Card padding="lg">
           <CardHeader>
@@ -0,0 +1,77 @@
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { Pill } from 'lucide-react';
+import { medicationService } from '../../api/medicationService';
+import { Card, Button } from '../../components/common';
+
+// ============================================
+// MEDICATION OVERUSE WARNING
+// ============================================
+
+/**
+ * Medication Overuse Warning Component
+ * Shown on the dashboard when this month's acute-medication days approach
+ * or reach the ICHD-3 medication-overuse thresholds
+ */
+const MedicationOveruseWarning = () => {
+  const navigate = useNavigate();
+
+  const { data: report } = useQuery({
+    queryKey: ['medication-overuse', 4],
+    queryFn: () => medicationService.getOveruse(4),
+  });
+
+  if (!report || report.status === 'ok') {
+    return null;
+  }
+
+  const isOveruse = report.status === 'overuse';
+  const { currentMonth } = report;
+  const worstClass = currentMonth.classes[0];
+  const threshold = worstClass && worstClass.status !== 'ok'
+    ? worstClass.threshold
+    : currentMonth.combined.threshold;
+
+  const colors = isOveruse
+    ? {
+        card: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800',
+        icon: 'bg-red-100 dark:bg-red-900/50 text-red-600 dark:text-red-400',
+        title: 'text-red-800 dark:text-red-300',
+        text: 'text-red-700 dark:text-red-400',
+      }
+    : {
+        card: 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800',
+        icon: 'bg-yellow-100 dark:bg-yellow-900/50 text-yellow-600 dark:text-yellow-400',
+        title: 'text-yellow-800 dark:text-yellow-300',
+        text: 'text-yellow-700 dark:text-yellow-400',
+      };
+
+  return (
+    <Card padding="md" className={colors.card}>
+      <div className="flex items-start gap-4">
+        <div className="flex-shrink-0">
+          <div className={`p-2 rounded-lg ${colors.icon}`}>
+            <Pill size={20} />
+          </div>
+        </div>
+        <div className="flex-1">
+          <h3 className={`text-sm font-semibold mb-1 ${colors.title}`}>
+            {isOveruse ? 'Medication Overuse Threshold Reached' : 'Approaching Medication Overuse Threshold'}
+          </h3>
+          <p className={`text-sm mb-3 ${colors.text}`}>
+            You took acute migraine medication on {currentMonth.acuteDays} days this month
+            (threshold: {threshold} days).
+            {report.consecutiveOveruseMonths > 1 &&
+              ` Thresholds have been reached ${report.consecutiveOveruseMonths} months in a row.`}
+            {' '}Frequent use of acute medication can cause medication-overuse headache — consider discussing it with your doctor.
+          </p>
+          <Button size="sm" variant="outline" onClick={() => navigate('/medications')}>
+            View Medication Use
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default MedicationOveruseWarning;
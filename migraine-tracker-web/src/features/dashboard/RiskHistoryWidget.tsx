@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addDays, eachDayOfInterval, format, parseISO, subDays } from 'date-fns';
+import { History } from 'lucide-react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { riskAssessmentService } from '../../api/riskAssessmentService';
+import { Card, CardHeader, CardTitle, CardDescription, Button } from '../../components/common';
+import type { RiskAssessment } from '../../types';
+
+// ============================================
+// RISK HISTORY WIDGET
+// ============================================
+
+const RANGES = [30, 90] as const;
+
+interface RiskHistoryPoint {
+  date: string;
+  label: string;
+  risk: number | null;
+  assessments: number;
+  migraine: number; // 100 on migraine days so the bar spans the chart
+}
+
+interface RiskHistoryTooltipProps {
+  active?: boolean;
+  payload?: { payload: RiskHistoryPoint }[];
+}
+
+// Custom tooltip
+const RiskHistoryTooltip = ({ active, payload }: RiskHistoryTooltipProps) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+        <p className="text-sm font-medium text-gray-900">{format(parseISO(point.date), 'EEE, MMM d')}</p>
+        <p className="text-sm text-gray-600">
+          {point.risk !== null
+            ? <>Predicted risk: <span className="font-semibold">{point.risk}%</span> ({point.assessments} assessment{point.assessments === 1 ? '' : 's'})</>
+            : 'No assessment'}
+        </p>
+        {point.migraine > 0 && <p className="text-sm font-medium text-red-600">Migraine day</p>}
+      </div>
+    );
+  }
+  return null;
+};
+
+const localDate = (assessment: RiskAssessment) => format(new Date(assessment.createdAt), 'yyyy-MM-dd');
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+/**
+ * Risk History Widget Component
+ * Features:
+ * - Stored risk predictions plotted per day (average when several were made)
+ * - Migraine days from the calendar shown as bars behind the line
+ * - Average predicted risk before migraine vs headache-free outcomes
+ * - Simulated predictions hidden unless requested
+ */
+const RiskHistoryWidget = () => {
+  const [rangeDays, setRangeDays] = useState<(typeof RANGES)[number]>(30);
+  const [includeSimulated, setIncludeSimulated] = useState(false);
+
+  const endDate = format(new Date(), 'yyyy-MM-dd');
+  const startDate = format(subDays(new Date(), rangeDays - 1), 'yyyy-MM-dd');
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: ['risk-assessments', startDate, endDate, includeSimulated],
+    queryFn: () => riskAssessmentService.getHistory(startDate, endDate, includeSimulated),
+  });
+
+  const assessments = history?.assessments ?? [];
+  const migraineDays = new Set(history?.migraineDays ?? []);
+
+  const riskByDate = new Map<string, number[]>();
+  assessments.forEach((assessment) => {
+    if (assessment.riskLevel === undefined) return;
+    const date = localDate(assessment);
+    riskByDate.set(date, [...(riskByDate.get(date) ?? []), assessment.riskLevel]);
+  });
+
+  const data: RiskHistoryPoint[] = eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).map(
+    (day) => {
+      const date = format(day, 'yyyy-MM-dd');
+      const risks = riskByDate.get(date) ?? [];
+      return {
+        date,
+        label: format(day, 'MMM d'),
+        risk: average(risks),
+        assessments: risks.length,
+        migraine: migraineDays.has(date) ? 100 : 0,
+      };
+    }
+  );
+
+  // A prediction covers the next hours, so a migraine the same or the following day counts as an outcome
+  const followedByMigraine = (assessment: RiskAssessment) => {
+    const date = localDate(assessment);
+    return migraineDays.has(date) || migraineDays.has(format(addDays(parseISO(date), 1), 'yyyy-MM-dd'));
+  };
+  const scored = assessments.filter((assessment) => assessment.riskLevel !== undefined);
+  const riskBeforeMigraine = average(scored.filter(followedByMigraine).map((a) => a.riskLevel as number));
+  const riskOtherwise = average(scored.filter((a) => !followedByMigraine(a)).map((a) => a.riskLevel as number));
+
+  return (
+    <Card padding="lg">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Risk History
+            </CardTitle>
+            <CardDescription>Past risk predictions compared with the migraine days that followed.</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {RANGES.map((range) => (
+              <Button
+                key={range}
+                size="sm"
+                variant={rangeDays === range ? 'primary' : 'ghost'}
+                onClick={() => setRangeDays(range)}
+              >
+                {range} days
+              </Button>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 ml-2">
+              <input
+                type="checkbox"
+                checked={includeSimulated}
+                onChange={(e) => setIncludeSimulated(e.target.checked)}
+                className="w-4 h-4 accent-primary-600"
+              />
+              Include simulated
+            </label>
+          </div>
+        </div>
+      </CardHeader>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading risk history...</p>
+      ) : scored.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No risk assessments in this period yet. Run a risk analysis above to start building a history.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="label" stroke="#6b7280" style={{ fontSize: '12px' }} minTickGap={16} />
+                <YAxis domain={[0, 100]} stroke="#6b7280" style={{ fontSize: '12px' }} unit="%" />
+                <Tooltip content={<RiskHistoryTooltip />} />
+                <Legend />
+                <Bar dataKey="migraine" name="Migraine day" fill="#fca5a5" barSize={8} />
+                <Line
+                  type="monotone"
+                  dataKey="risk"
+                  name="Predicted risk"
+                  stroke="#6366f1"
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  connectNulls
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Assessments</p>
+              <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">{scored.length}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Avg risk before a migraine</p>
+              <p className="text-lg font-semibold text-red-600">
+                {riskBeforeMigraine !== null ? `${riskBeforeMigraine}%` : 'N/A'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Avg risk otherwise</p>
+              <p className="text-lg font-semibold text-green-600">
+                {riskOtherwise !== null ? `${riskOtherwise}%` : 'N/A'}
+              </p>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            A prediction counts as followed by a migraine when the same or the next day is marked as a migraine day.
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default RiskHistoryWidget;
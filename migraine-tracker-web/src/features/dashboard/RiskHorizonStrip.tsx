@@ -0,0 +1,79 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Clock } from 'lucide-react';
+import { getRiskHorizons } from '../../api/riskAnalysisService';
+import { Card, CardHeader, CardTitle, CardDescription } from '../../components/common';
+
+// ============================================
+// RISK HORIZON STRIP
+// ============================================
+
+const horizonLabel = (hours: number) => (hours < 48 ? `Next ${hours}h` : `Next ${hours / 24} days`);
+
+const tileClass = (riskLevel: number) =>
+  riskLevel >= 75
+    ? 'bg-red-50 border-red-200 text-red-700 dark:bg-red-900/20 dark:border-red-800 dark:text-red-300'
+    : riskLevel >= 50
+      ? 'bg-orange-50 border-orange-200 text-orange-700 dark:bg-orange-900/20 dark:border-orange-800 dark:text-orange-300'
+      : riskLevel >= 25
+        ? 'bg-yellow-50 border-yellow-200 text-yellow-700 dark:bg-yellow-900/20 dark:border-yellow-800 dark:text-yellow-300'
+        : 'bg-green-50 border-green-200 text-green-700 dark:bg-green-900/20 dark:border-green-800 dark:text-green-300';
+
+/**
+ * Risk Horizon Strip Component
+ * Features:
+ * - Current local-model risk for the next 6 hours, 12 hours, day and 3 days side by side
+ * - Tiles colored by risk level
+ * - Read-only: nothing is added to the risk history
+ */
+const RiskHorizonStrip = () => {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['risk-horizons'],
+    queryFn: getRiskHorizons,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="w-5 h-5" />
+          Risk Outlook
+        </CardTitle>
+        <CardDescription>
+          How likely a migraine is over different time spans, from the local model and your latest wearable data.
+        </CardDescription>
+      </CardHeader>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Calculating outlook...</p>
+      ) : isError || !data ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">The risk outlook is not available right now.</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {data.horizons.map((horizon) => (
+              <div
+                key={horizon.horizonHours}
+                className={`p-3 rounded-lg border text-center ${tileClass(horizon.riskLevel)}`}
+              >
+                <p className="text-xs font-medium uppercase tracking-wide">{horizonLabel(horizon.horizonHours)}</p>
+                <p className="text-2xl font-bold">{horizon.riskLevel}%</p>
+                <p className="text-xs">{horizon.riskCategory}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {data.dataPointsCount > 0
+              ? `Based on ${data.dataPointsCount} readings from the last 24 hours`
+              : 'No wearable data in the last 24 hours; based on your usual migraine frequency'}
+            {data.modelType === 'prior' ? ' and default weights (not enough history yet)' : ''}. Confidence:{' '}
+            {data.confidenceLevel}. Updated {format(new Date(data.generatedAt), 'HH:mm')}; not saved to your risk
+            history.
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default RiskHorizonStrip;
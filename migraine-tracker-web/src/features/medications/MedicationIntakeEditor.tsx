@@ -0,0 +1,185 @@
+import { Link } from 'react-router-dom';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '../../components/common';
+import type { Medication, ReliefRating } from '../../types';
+
+// ============================================
+// MEDICATION INTAKE EDITOR
+// ============================================
+
+/**
+ * Intake row being edited; id is set for intakes that already exist on the server
+ */
+export interface IntakeDraft {
+  key: string;
+  id?: string;
+  medicationId: string;
+  takenAt: string; // datetime-local value (local time, no zone)
+  dose: string;
+  relief2h: ReliefRating | '';
+}
+
+interface MedicationIntakeEditorProps {
+  intakes: IntakeDraft[];
+  onChange: (intakes: IntakeDraft[]) => void;
+  medications: Medication[];
+  defaultTakenAt: string;
+  disabled?: boolean;
+}
+
+const RELIEF_OPTIONS: { value: ReliefRating; label: string }[] = [
+  { value: 0, label: '0 - No relief' },
+  { value: 1, label: '1 - Some relief' },
+  { value: 2, label: '2 - Good relief' },
+  { value: 3, label: '3 - Pain free' },
+];
+
+const fieldClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm';
+
+/**
+ * Medication Intake Editor
+ * Features:
+ * - One row per intake: medication, time taken, dose and relief after 2 hours
+ * - New intakes start at the episode start with the medication's default dose
+ */
+export const MedicationIntakeEditor = ({
+  intakes,
+  onChange,
+  medications,
+  defaultTakenAt,
+  disabled = false,
+}: MedicationIntakeEditorProps) => {
+  const updateIntake = (key: string, changes: Partial<IntakeDraft>) => {
+    onChange(intakes.map(intake => (intake.key === key ? { ...intake, ...changes } : intake)));
+  };
+
+  const addIntake = () => {
+    const medication = medications[0];
+    onChange([
+      ...intakes,
+      {
+        key: `new-${Date.now()}`,
+        medicationId: medication?.id || '',
+        takenAt: defaultTakenAt,
+        dose: medication?.defaultDose || '',
+        relief2h: '',
+      },
+    ]);
+  };
+
+  // Switching medication pre-fills its default dose unless a dose was typed
+  const changeMedication = (intake: IntakeDraft, medicationId: string) => {
+    const previous = medications.find(m => m.id === intake.medicationId);
+    const next = medications.find(m => m.id === medicationId);
+    const keepDose = intake.dose && intake.dose !== previous?.defaultDose;
+    updateIntake(intake.key, {
+      medicationId,
+      dose: keepDose ? intake.dose : next?.defaultDose || '',
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Medications Taken
+        </label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          leftIcon={<Plus size={16} />}
+          onClick={addIntake}
+          disabled={disabled || medications.length === 0}
+        >
+          Add Intake
+        </Button>
+      </div>
+
+      {medications.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Add your medications on the{' '}
+          <Link to="/medications" className="text-primary-600 dark:text-primary-400 hover:underline">
+            Medications
+          </Link>{' '}
+          page to record intakes.
+        </p>
+      ) : intakes.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No medication recorded for this episode.</p>
+      ) : (
+        <div className="space-y-3">
+          {intakes.map(intake => (
+            <div
+              key={intake.key}
+              className="grid grid-cols-1 md:grid-cols-[2fr_2fr_1fr_2fr_auto] gap-2 items-end p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+            >
+              <div>
+                <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Medication</span>
+                <select
+                  value={intake.medicationId}
+                  onChange={(e) => changeMedication(intake, e.target.value)}
+                  className={fieldClassName}
+                  disabled={disabled}
+                >
+                  {medications.map(medication => (
+                    <option key={medication.id} value={medication.id}>{medication.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Taken at</span>
+                <input
+                  type="datetime-local"
+                  value={intake.takenAt}
+                  onChange={(e) => updateIntake(intake.key, { takenAt: e.target.value })}
+                  className={fieldClassName}
+                  disabled={disabled}
+                  required
+                />
+              </div>
+              <div>
+                <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Dose</span>
+                <input
+                  type="text"
+                  value={intake.dose}
+                  onChange={(e) => updateIntake(intake.key, { dose: e.target.value })}
+                  className={fieldClassName}
+                  disabled={disabled}
+                />
+              </div>
+              <div>
+                <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Relief after 2h</span>
+                <select
+                  value={intake.relief2h}
+                  onChange={(e) => updateIntake(intake.key, {
+                    relief2h: e.target.value === '' ? '' : (parseInt(e.target.value) as ReliefRating),
+                  })}
+                  className={fieldClassName}
+                  disabled={disabled}
+                >
+                  <option value="">Not rated yet</option>
+                  {RELIEF_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(intakes.filter(i => i.key !== intake.key))}
+                disabled={disabled}
+                aria-label="Remove intake"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MedicationIntakeEditor;
@@ -0,0 +1,351 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Pill, Plus, Pencil, Trash2, Save, X, ShieldAlert } from 'lucide-react';
+import { medicationService } from '../../api/medicationService';
+import {
+  Layout,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Input,
+  Button,
+  Loading,
+  ConfirmDialog,
+} from '../../components/common';
+import type {
+  CreateMedication,
+  Medication,
+  MedicationClass,
+  MedicationClassInfo,
+  OveruseStatus,
+} from '../../types';
+
+// ============================================
+// MEDICATIONS PAGE
+// ============================================
+
+const selectClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm';
+
+const STATUS_STYLES: Record<OveruseStatus, string> = {
+  ok: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  approaching: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  overuse: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const emptyDraft: CreateMedication = {
+  name: '',
+  medicationClass: 'triptan',
+  defaultDose: '',
+  notes: '',
+};
+
+// Format YYYY-MM as a short month label
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+
+/**
+ * Medications Page Component
+ * Features:
+ * - Personal medication catalog (name, class, default dose)
+ * - Edit, deactivate and delete medications
+ * - Monthly acute-medication days against ICHD-3 overuse thresholds
+ */
+export const MedicationsPage = () => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CreateMedication>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Medication | null>(null);
+
+  // Fetch catalog (including inactive medications)
+  const { data: catalog, isLoading } = useQuery({
+    queryKey: ['medications', 'all'],
+    queryFn: () => medicationService.getAll(true),
+  });
+
+  // Fetch overuse report
+  const { data: overuse } = useQuery({
+    queryKey: ['medication-overuse', 6],
+    queryFn: () => medicationService.getOveruse(6),
+  });
+
+  const invalidateMedications = () => {
+    queryClient.invalidateQueries({ queryKey: ['medications'] });
+    queryClient.invalidateQueries({ queryKey: ['medication-overuse'] });
+  };
+
+  const resetDraft = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  // Create or update mutation
+  const saveMutation = useMutation({
+    mutationFn: (data: CreateMedication) =>
+      editingId ? medicationService.update(editingId, data) : medicationService.create(data),
+    onSuccess: () => {
+      resetDraft();
+      invalidateMedications();
+    },
+  });
+
+  // Toggle active flag
+  const toggleActiveMutation = useMutation({
+    mutationFn: (medication: Medication) =>
+      medicationService.update(medication.id, { isActive: !medication.isActive }),
+    onSuccess: invalidateMedications,
+  });
+
+  // Delete mutation
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => medicationService.delete(id),
+    onSuccess: () => {
+      setDeleteTarget(null);
+      invalidateMedications();
+      queryClient.invalidateQueries({ queryKey: ['medication-intakes'] });
+    },
+  });
+
+  const startEditing = (medication: Medication) => {
+    setEditingId(medication.id);
+    setDraft({
+      name: medication.name,
+      medicationClass: medication.medicationClass,
+      defaultDose: medication.defaultDose || '',
+      notes: medication.notes || '',
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    saveMutation.mutate({
+      ...draft,
+      name: draft.name.trim(),
+      defaultDose: draft.defaultDose || undefined,
+      notes: draft.notes || undefined,
+    });
+  };
+
+  const classes: MedicationClassInfo[] = catalog?.classes || [];
+  const classLabel = (id: string) => classes.find(c => c.id === id)?.label || id;
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <Loading fullScreen text="Loading medications..." />
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Medications</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Keep a list of the medications you use so each episode can record what you took,
+            when, and how well it worked.
+          </p>
+        </div>
+
+        {/* Overuse monitor */}
+        {overuse && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldAlert className="w-5 h-5" />
+                Medication Overuse Monitor
+              </CardTitle>
+              <CardDescription>
+                Days with acute medication per month. ICHD-3 considers 10 or more days (triptans, ergots,
+                opioids, combination analgesics or several classes together) or 15 or more days (simple
+                analgesics) for more than 3 months a risk for medication-overuse headache.
+              </CardDescription>
+            </CardHeader>
+            <div className="p-6 overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Month</th>
+                    <th className="py-2 pr-4 font-medium">Acute days</th>
+                    <th className="py-2 pr-4 font-medium">By class</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {overuse.monthly.map(month => (
+                    <tr key={month.month} className="text-gray-900 dark:text-gray-100">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatMonth(month.month)}</td>
+                      <td className="py-2 pr-4">{month.acuteDays}</td>
+                      <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">
+                        {month.classes.length > 0
+                          ? month.classes.map(c => `${classLabel(c.group)} ${c.days}/${c.threshold}`).join(', ')
+                          : '—'}
+                      </td>
+                      <td className="py-2">
+                        <span className={`px-2 py-0.5 text-xs rounded ${STATUS_STYLES[month.status]}`}>
+                          {month.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {overuse.consecutiveOveruseMonths > 0 && (
+                <p className="mt-4 text-sm text-red-700 dark:text-red-400">
+                  Overuse thresholds reached for {overuse.consecutiveOveruseMonths} consecutive{' '}
+                  {overuse.consecutiveOveruseMonths === 1 ? 'month' : 'months'}
+                  {overuse.meetsIchdDuration ? ' — this meets the ICHD-3 duration criterion. Please talk to your doctor.' : '.'}
+                </p>
+              )}
+            </div>
+          </Card>
+        )}
+
+        {/* Add / edit form */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Medication' : 'Add Medication'}</CardTitle>
+            <CardDescription>
+              The class decides which overuse threshold applies; the default dose pre-fills new intakes.
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                label="Name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g., Sumatriptan"
+                required
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                  Class
+                </label>
+                <select
+                  value={draft.medicationClass}
+                  onChange={(e) => setDraft({ ...draft, medicationClass: e.target.value as MedicationClass })}
+                  className={selectClassName}
+                >
+                  {classes.map(c => (
+                    <option key={c.id} value={c.id}>
+                      {c.label}{c.acute ? '' : ' (not counted for overuse)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <Input
+                label="Default Dose"
+                value={draft.defaultDose}
+                onChange={(e) => setDraft({ ...draft, defaultDose: e.target.value })}
+                placeholder="e.g., 50 mg"
+              />
+            </div>
+            <Input
+              label="Notes"
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              placeholder="Optional"
+            />
+            <div className="flex gap-3">
+              {editingId && (
+                <Button type="button" variant="outline" leftIcon={<X size={16} />} onClick={resetDraft}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                type="submit"
+                variant="primary"
+                leftIcon={editingId ? <Save size={16} /> : <Plus size={16} />}
+                isLoading={saveMutation.isPending}
+                disabled={saveMutation.isPending || !draft.name.trim()}
+              >
+                {editingId ? 'Save Changes' : 'Add Medication'}
+              </Button>
+            </div>
+            {saveMutation.isError && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {(saveMutation.error as Error)?.message || 'Failed to save medication'}
+              </p>
+            )}
+          </form>
+        </Card>
+
+        {/* Catalog */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Pill className="w-5 h-5" />
+              Your Medications
+            </CardTitle>
+          </CardHeader>
+          <div className="p-6">
+            {catalog && catalog.medications.length > 0 ? (
+              <div className="space-y-3">
+                {catalog.medications.map(medication => (
+                  <div
+                    key={medication.id}
+                    className={`flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 ${
+                      medication.isActive ? '' : 'opacity-60'
+                    }`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-gray-900 dark:text-gray-100 truncate">{medication.name}</p>
+                        <span className="px-2 py-0.5 text-xs rounded bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300">
+                          {classLabel(medication.medicationClass)}
+                        </span>
+                        {!medication.isActive && (
+                          <span className="px-2 py-0.5 text-xs rounded bg-gray-200 text-gray-600">inactive</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {[medication.defaultDose, medication.notes].filter(Boolean).join(' · ') || 'No default dose'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 ml-4">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleActiveMutation.mutate(medication)}
+                        disabled={toggleActiveMutation.isPending}
+                      >
+                        {medication.isActive ? 'Deactivate' : 'Activate'}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => startEditing(medication)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="danger" size="sm" onClick={() => setDeleteTarget(medication)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                No medications yet. Add the ones you take for migraine above.
+              </p>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <ConfirmDialog
+        isOpen={deleteTarget !== null}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+        title="Delete Medication"
+        message={`Deleting "${deleteTarget?.name}" also removes every intake recorded with it. Deactivate it instead to keep the history.`}
+        confirmLabel="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Layout>
+  );
+};
+
+export default MedicationsPage;
@@ -15,6 +15,7 @@ import {
 } from 'lucide-react';
 import { useState } from 'react';
 import { migraineService } from '../../api/migraineService';
+import { medicationService } from '../../api/medicationService';
 import { 
   Layout, 
   Card,
@@ -51,6 +52,13 @@ export const MigraineDetailPage = () => {
     enabled: !!id,
   });
 
+  // Fetch medication intakes for this episode
+  const { data: intakes = [] } = useQuery({
+    queryKey: ['medication-intakes', id],
+    queryFn: () => medicationService.getIntakes(id!),
+    enabled: !!id,
+  });
+
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: () => migraineService.delete(id!),
@@ -58,6 +66,7 @@ export const MigraineDetailPage = () => {
       queryClient.invalidateQueries({ queryKey: ['migraines'] });
       queryClient.invalidateQueries({ queryKey: ['migraine-stats'] });
       queryClient.invalidateQueries({ queryKey: ['recent-migraines'] });
+      queryClient.invalidateQueries({ queryKey: ['medication-overuse'] });
       navigate('/migraines');
     },
   });
@@ -293,7 +302,7 @@ export const MigraineDetailPage = () => {
             )}
 
             {/* Medication Card */}
-            {entry.medication && (
+            {(entry.medication || intakes.length > 0) && (
               <Card padding="lg">
                 <CardHeader>
                   <div className="flex items-center gap-2">
@@ -301,9 +310,26 @@ export const MigraineDetailPage = () => {
                     <CardTitle>Medication</CardTitle>
                   </div>
                 </CardHeader>
-                <p className="text-gray-900 dark:text-gray-100 font-medium">
-                  {entry.medication}
-                </p>
+                {intakes.length > 0 && (
+                  <ul className="space-y-2 mb-2">
+                    {intakes.map(intake => (
+                      <li key={intake.id}>
+                        <p className="text-gray-900 dark:text-gray-100 font-medium">
+                          {intake.medicationName}{intake.dose ? ` ${intake.dose}` : ''}
+                        </p>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">
+                          {format(new Date(intake.takenAt), 'MMM dd, HH:mm')}
+                          {intake.relief2h !== undefined && ` · relief after 2h: ${intake.relief2h}/3`}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {entry.medication && (
+                  <p className="text-gray-900 dark:text-gray-100 font-medium">
+                    {entry.medication}
+                  </p>
+                )}
               </Card>
             )}
 
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Download, FileSpreadsheet, FileJson, Stethoscope, ChevronDown } from 'lucide-react';
+import { migraineService } from '../../api/migraineService';
+import { Button, Input } from '../../components/common';
+import type { MigraineExportFormat } from '../../types';
+
+// ============================================
+// MIGRAINE EXPORT MENU
+// ============================================
+
+const EXPORT_OPTIONS: {
+  format: MigraineExportFormat;
+  label: string;
+  description: string;
+  extension: string;
+  icon: typeof Download;
+}[] = [
+  { format: 'csv', label: 'CSV', description: 'Spreadsheet with all clinical fields', extension: 'csv', icon: FileSpreadsheet },
+  { format: 'json', label: 'JSON', description: 'Raw entries for backups and scripts', extension: 'json', icon: FileJson },
+  { format: 'fhir', label: 'FHIR R4 Bundle', description: 'Conditions and Observations for clinical systems', extension: 'fhir.json', icon: Stethoscope },
+];
+
+/**
+ * Export Menu for migraine entries
+ * Features:
+ * - Optional date range
+ * - CSV, JSON and FHIR R4 downloads
+ */
+export const MigraineExportMenu = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  // Download export file
+  const exportMutation = useMutation({
+    mutationFn: (format: MigraineExportFormat) =>
+      migraineService.export(format, {
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+      }),
+    onSuccess: (blob, format) => {
+      const extension = EXPORT_OPTIONS.find(option => option.format === format)?.extension || format;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `migraine-entries-${new Date().toISOString().split('T')[0]}.${extension}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    },
+  });
+
+  const isRangeInvalid = Boolean(startDate && endDate && startDate > endDate);
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        leftIcon={<Download size={20} />}
+        onClick={() => setIsOpen(open => !open)}
+      >
+        Export
+        <ChevronDown size={16} className="ml-1" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 z-20 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              type="date"
+              label="From"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+            <Input
+              type="date"
+              label="To"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {isRangeInvalid
+              ? 'The start date must be before the end date.'
+              : 'Leave dates empty to export all entries.'}
+          </p>
+
+          <div className="space-y-2">
+            {EXPORT_OPTIONS.map(({ format, label, description, icon: Icon }) => (
+              <button
+                key={format}
+                type="button"
+                disabled={exportMutation.isPending || isRangeInvalid}
+                onClick={() => exportMutation.mutate(format)}
+                className="w-full flex items-start gap-3 px-3 py-2 rounded-lg text-left hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Icon size={20} className="mt-0.5 text-primary-600 dark:text-primary-400 flex-shrink-0" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {exportMutation.isPending && exportMutation.variables === format ? 'Exporting...' : label}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {exportMutation.isError && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {(exportMutation.error as Error)?.message || 'Export failed'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MigraineExportMenu;
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Button, Input } from '../../components/common';
+import type { MigraineSearchParams, MigraineType } from '../../types';
+
+// ============================================
+// MIGRAINE FILTER PANEL
+// ============================================
+
+interface MigraineFilterPanelProps {
+  filters: MigraineSearchParams;
+  onApply: (filters: MigraineSearchParams) => void;
+  onClear: () => void;
+}
+
+type TriState = '' | 'yes' | 'no';
+
+const toTriState = (value?: boolean): TriState =>
+  value === undefined ? '' : value ? 'yes' : 'no';
+
+const fromTriState = (value: TriState): boolean | undefined =>
+  value === '' ? undefined : value === 'yes';
+
+const selectClassName =
+  'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+/**
+ * Filter Panel for the migraine list
+ * Features:
+ * - Date window and intensity bounds
+ * - Trigger filter (comma separated, all must match)
+ * - Clinical fields (aura, nausea, photophobia)
+ * - Migraine type
+ * Edits are kept locally until applied, so the URL only changes on Apply.
+ */
+export const MigraineFilterPanel = ({ filters, onApply, onClear }: MigraineFilterPanelProps) => {
+  const [startDate, setStartDate] = useState(filters.startDate || '');
+  const [endDate, setEndDate] = useState(filters.endDate || '');
+  const [minIntensity, setMinIntensity] = useState(filters.minIntensity?.toString() || '');
+  const [maxIntensity, setMaxIntensity] = useState(filters.maxIntensity?.toString() || '');
+  const [triggers, setTriggers] = useState((filters.triggers || []).join(', '));
+  const [aura, setAura] = useState<TriState>(toTriState(filters.aura));
+  const [nausea, setNausea] = useState<TriState>(toTriState(filters.nausea));
+  const [photophobia, setPhotophobia] = useState<TriState>(toTriState(filters.photophobia));
+  const [migraineType, setMigraineType] = useState<MigraineType | ''>(filters.migraineType || '');
+
+  // Apply filters (keeps the free text query untouched)
+  const handleApply = () => {
+    onApply({
+      query: filters.query,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      minIntensity: minIntensity ? parseInt(minIntensity) : undefined,
+      maxIntensity: maxIntensity ? parseInt(maxIntensity) : undefined,
+      triggers: triggers.split(',').map(t => t.trim()).filter(Boolean),
+      aura: fromTriState(aura),
+      nausea: fromTriState(nausea),
+      photophobia: fromTriState(photophobia),
+      migraineType: migraineType || undefined,
+    });
+  };
+
+  // Reset local state and clear filters
+  const handleClear = () => {
+    setStartDate('');
+    setEndDate('');
+    setMinIntensity('');
+    setMaxIntensity('');
+    setTriggers('');
+    setAura('');
+    setNausea('');
+    setPhotophobia('');
+    setMigraineType('');
+    onClear();
+  };
+
+  const intensityOptions = [1, 2, 3, 4, 5];
+
+  return (
+    <div className="pt-4 mt-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Input
+          type="date"
+          label="From"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+        />
+        <Input
+          type="date"
+          label="To"
+          value={endDate}
+          onChange={(e) => setEndDate(e.target.value)}
+        />
+        <div>
+          <label className={labelClassName}>Min Intensity</label>
+          <select
+            value={minIntensity}
+            onChange={(e) => setMinIntensity(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Any</option>
+            {intensityOptions.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Max Intensity</label>
+          <select
+            value={maxIntensity}
+            onChange={(e) => setMaxIntensity(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Any</option>
+            {intensityOptions.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label className={labelClassName}>Aura</label>
+          <select value={aura} onChange={(e) => setAura(e.target.value as TriState)} className={selectClassName}>
+            <option value="">Any</option>
+            <option value="yes">With aura</option>
+            <option value="no">Without aura</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Nausea</label>
+          <select value={nausea} onChange={(e) => setNausea(e.target.value as TriState)} className={selectClassName}>
+            <option value="">Any</option>
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Photophobia</label>
+          <select value={photophobia} onChange={(e) => setPhotophobia(e.target.value as TriState)} className={selectClassName}>
+            <option value="">Any</option>
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Migraine Type</label>
+          <select
+            value={migraineType}
+            onChange={(e) => setMigraineType(e.target.value as MigraineType | '')}
+            className={selectClassName}
+          >
+            <option value="">Any</option>
+            <option value="typical-aura-with-migraine">Typical Aura With Migraine</option>
+            <option value="migraine-without-aura">Migraine Without Aura</option>
+            <option value="typical-aura-without-migraine">Typical Aura Without Migraine</option>
+            <option value="familial-hemiplegic-migraine">Familial Hemiplegic Migraine</option>
+            <option value="sporadic-hemiplegic-migraine">Sporadic Hemiplegic Migraine</option>
+            <option value="basilar-type-aura">Basilar-Type Aura</option>
+            <option value="other">Other</option>
+          </select>
+        </div>
+      </div>
+
+      <Input
+        type="text"
+        label="Triggers"
+        placeholder="e.g., stress, bright lights"
+        helperText="Separate multiple triggers with commas - entries must match all of them"
+        value={triggers}
+        onChange={(e) => setTriggers(e.target.value)}
+      />
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" leftIcon={<X size={16} />} onClick={handleClear}>
+          Clear Filters
+        </Button>
+        <Button variant="primary" size="sm" onClick={handleApply}>
+          Apply Filters
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MigraineFilterPanel;
@@ -1,11 +1,16 @@
 import { useState, useEffect } from 'react';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, useWatch, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { ArrowLeft, Save } from 'lucide-react';
 import { migraineService } from '../../api/migraineService';
+import { medicationService } from '../../api/medicationService';
+import { vocabularyService } from '../../api/vocabularyService';
+import { MedicationIntakeEditor } from '../medications/MedicationIntakeEditor';
+import type { IntakeDraft } from '../medications/MedicationIntakeEditor';
+import { TermChipPicker } from '../vocabulary/TermChipPicker';
 import { 
   Layout, 
   Card, 
@@ -14,7 +19,7 @@ import {
   ErrorMessage,
   Loading 
 } from '../../components/common';
-import type { CreateMigraineEntry } from '../../types';
+import type { CreateMigraineEntry, CreateMedicationIntake, MedicationIntake } from '../../types';
 
 // ============================================
 // MIGRAINE FORM PAGE
@@ -28,8 +33,8 @@ const migraineSchema = z.object({
   startTime: z.string().min(1, 'Start time is required'),
   endTime: z.string().optional(),
   intensity: z.number().min(1).max(5),
-  triggers: z.string().optional(),
-  symptoms: z.string().optional(),
+  triggers: z.array(z.string()).optional(),
+  symptoms: z.array(z.string()).optional(),
   medication: z.string().optional(),
   notes: z.string().optional(),
   location: z.enum([
@@ -44,6 +49,27 @@ const migraineSchema = z.object({
 
 type MigraineFormData = z.infer<typeof migraineSchema>;
 
+// Convert an ISO timestamp to a datetime-local input value (local time)
+const toLocalInputValue = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Convert an intake draft to the API payload
+const toIntakePayload = (draft: IntakeDraft): CreateMedicationIntake => ({
+  medicationId: draft.medicationId,
+  takenAt: new Date(draft.takenAt).toISOString(),
+  dose: draft.dose || undefined,
+  relief2h: draft.relief2h === '' ? undefined : draft.relief2h,
+});
+
+// Whether a draft differs from the intake it was loaded from
+const isIntakeChanged = (draft: IntakeDraft, intake: MedicationIntake) =>
+  draft.medicationId !== intake.medicationId ||
+  draft.takenAt !== toLocalInputValue(intake.takenAt) ||
+  draft.dose !== (intake.dose || '') ||
+  draft.relief2h !== (intake.relief2h ?? '');
+
 /**
  * Migraine Form Page Component
  * Handles both create and edit operations
@@ -53,6 +79,8 @@ export const MigraineFormPage = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [error, setError] = useState<string | null>(null);
+  // Intake drafts; null until edited, so existing intakes show as loaded
+  const [editedIntakes, setEditedIntakes] = useState<IntakeDraft[] | null>(null);
   
   const isEditMode = !!id;
 
@@ -63,6 +91,25 @@ export const MigraineFormPage = () => {
     enabled: isEditMode,
   });
 
+  // Fetch trigger/symptom vocabulary for autocomplete
+  const { data: vocabulary } = useQuery({
+    queryKey: ['vocabulary'],
+    queryFn: () => vocabularyService.getAll(),
+  });
+
+  // Fetch medication catalog for the intake editor (inactive ones are kept for existing intakes)
+  const { data: medicationCatalog } = useQuery({
+    queryKey: ['medications', 'all'],
+    queryFn: () => medicationService.getAll(true),
+  });
+
+  // Fetch existing intakes if in edit mode
+  const { data: existingIntakes } = useQuery({
+    queryKey: ['medication-intakes', id],
+    queryFn: () => medicationService.getIntakes(id!),
+    enabled: isEditMode,
+  });
+
   // Form setup
   const {
     register,
@@ -86,8 +133,8 @@ export const MigraineFormPage = () => {
         startTime: existingEntry.startTime,
         endTime: existingEntry.endTime || '',
         intensity: existingEntry.intensity,
-        triggers: existingEntry.triggers?.join(', ') || '',
-        symptoms: existingEntry.symptoms?.join(', ') || '',
+        triggers: existingEntry.triggers || [],
+        symptoms: existingEntry.symptoms || [],
         medication: existingEntry.medication || '',
         notes: existingEntry.notes || '',
         location: existingEntry.location,
@@ -95,10 +142,54 @@ export const MigraineFormPage = () => {
     }
   }, [existingEntry, reset]);
 
+  const intakes: IntakeDraft[] = editedIntakes ?? (existingIntakes || []).map(intake => ({
+    key: intake.id,
+    id: intake.id,
+    medicationId: intake.medicationId,
+    takenAt: toLocalInputValue(intake.takenAt),
+    dose: intake.dose || '',
+    relief2h: intake.relief2h ?? '',
+  }));
+
+  /**
+   * Bring the episode's intakes in line with the editor:
+   * delete removed ones, update changed ones and create new ones
+   */
+  const syncIntakes = async (entryId: string) => {
+    const existing = existingIntakes || [];
+    const keptIds = new Set(intakes.map(intake => intake.id).filter(Boolean));
+
+    await Promise.all([
+      ...existing
+        .filter(intake => !keptIds.has(intake.id))
+        .map(intake => medicationService.deleteIntake(intake.id)),
+      ...intakes.map(draft => {
+        if (!draft.id) {
+          return medicationService.createIntake(entryId, toIntakePayload(draft));
+        }
+        const original = existing.find(intake => intake.id === draft.id);
+        return original && isIntakeChanged(draft, original)
+          ? medicationService.updateIntake(draft.id, toIntakePayload(draft))
+          : Promise.resolve();
+      }),
+    ]);
+  };
+
+  const invalidateIntakeQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['medication-intakes'] });
+    queryClient.invalidateQueries({ queryKey: ['medication-overuse'] });
+    queryClient.invalidateQueries({ queryKey: ['vocabulary'] }); // New terms may have been created
+  };
+
   // Create mutation
   const createMutation = useMutation({
-    mutationFn: (data: CreateMigraineEntry) => migraineService.create(data),
+    mutationFn: async (data: CreateMigraineEntry) => {
+      const entry = await migraineService.create(data);
+      await syncIntakes(entry.id);
+      return entry;
+    },
     onSuccess: () => {
+      invalidateIntakeQueries();
       queryClient.invalidateQueries({ queryKey: ['migraines'] });
       queryClient.invalidateQueries({ queryKey: ['migraine-stats'] });
       queryClient.invalidateQueries({ queryKey: ['recent-migraines'] });
@@ -112,9 +203,13 @@ export const MigraineFormPage = () => {
 
   // Update mutation
   const updateMutation = useMutation({
-    mutationFn: (data: CreateMigraineEntry) => 
-      migraineService.update(id!, data),
+    mutationFn: async (data: CreateMigraineEntry) => {
+      const entry = await migraineService.update(id!, data);
+      await syncIntakes(id!);
+      return entry;
+    },
     onSuccess: () => {
+      invalidateIntakeQueries();
       queryClient.invalidateQueries({ queryKey: ['migraines'] });
       queryClient.invalidateQueries({ queryKey: ['migraine', id] });
       queryClient.invalidateQueries({ queryKey: ['migraine-stats'] });
@@ -130,18 +225,19 @@ export const MigraineFormPage = () => {
   const onSubmit = (data: MigraineFormData) => {
     setError(null);
 
+    if (intakes.some(intake => !intake.medicationId || !intake.takenAt)) {
+      setError('Every medication intake needs a medication and the time it was taken');
+      return;
+    }
+
     // Transform form data
     const formattedData: CreateMigraineEntry = {
       date: data.date,
       startTime: data.startTime,
       endTime: data.endTime || undefined,
       intensity: data.intensity as 1 | 2 | 3 | 4 | 5,
-      triggers: data.triggers 
-        ? data.triggers.split(',').map(t => t.trim()).filter(Boolean)
-        : undefined,
-      symptoms: data.symptoms
-        ? data.symptoms.split(',').map(s => s.trim()).filter(Boolean)
-        : undefined,
+      triggers: data.triggers || [],
+      symptoms: data.symptoms || [],
       medication: data.medication || undefined,
       notes: data.notes || undefined,
       location: data.location,
@@ -155,6 +251,8 @@ export const MigraineFormPage = () => {
   };
 
   const isLoading = createMutation.isPending || updateMutation.isPending;
+  const vocabularyTerms = vocabulary?.terms || [];
+  const [watchedDate, watchedStartTime] = useWatch({ control, name: ['date', 'startTime'] });
 
   // Loading state for edit mode
   if (isEditMode && loadingEntry) {
@@ -295,30 +393,55 @@ export const MigraineFormPage = () => {
             </div>
 
             {/* Triggers */}
-            <Input
-              {...register('triggers')}
-              label="Triggers (Optional)"
-              placeholder="e.g., stress, lack of sleep, bright lights (comma-separated)"
-              helperText="Separate multiple triggers with commas"
-              error={errors.triggers?.message}
-              disabled={isLoading}
+            <Controller
+              name="triggers"
+              control={control}
+              render={({ field }) => (
+                <TermChipPicker
+                  label="Triggers (Optional)"
+                  value={field.value || []}
+                  onChange={field.onChange}
+                  terms={vocabularyTerms.filter(term => term.kind === 'trigger')}
+                  placeholder="e.g., stress, lack of sleep, bright lights"
+                  helperText="Press Enter or comma to add; known spellings are matched to your trigger list"
+                  disabled={isLoading}
+                />
+              )}
             />
 
             {/* Symptoms */}
-            <Input
-              {...register('symptoms')}
-              label="Symptoms (Optional)"
-              placeholder="e.g., nausea, sensitivity to light, aura (comma-separated)"
-              helperText="Separate multiple symptoms with commas"
-              error={errors.symptoms?.message}
+            <Controller
+              name="symptoms"
+              control={control}
+              render={({ field }) => (
+                <TermChipPicker
+                  label="Symptoms (Optional)"
+                  value={field.value || []}
+                  onChange={field.onChange}
+                  terms={vocabularyTerms.filter(term => term.kind === 'symptom')}
+                  placeholder="e.g., nausea, sensitivity to light, aura"
+                  helperText="Press Enter or comma to add; known spellings are matched to your symptom list"
+                  disabled={isLoading}
+                />
+              )}
+            />
+
+            {/* Medication intakes */}
+            <MedicationIntakeEditor
+              intakes={intakes}
+              onChange={setEditedIntakes}
+              medications={(medicationCatalog?.medications || []).filter(medication =>
+                medication.isActive || intakes.some(intake => intake.medicationId === medication.id)
+              )}
+              defaultTakenAt={`${watchedDate}T${watchedStartTime || '00:00'}`}
               disabled={isLoading}
             />
 
-            {/* Medication */}
+            {/* Medication notes */}
             <Input
               {...register('medication')}
-              label="Medication Taken (Optional)"
-              placeholder="e.g., Ibuprofen 400mg"
+              label="Medication Notes (Optional)"
+              placeholder="e.g., anything not in your medication list"
               error={errors.medication?.message}
               disabled={isLoading}
             />
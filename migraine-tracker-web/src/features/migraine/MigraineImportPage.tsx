@@ -0,0 +1,467 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { Upload, FileText, CheckCircle2, AlertCircle, History, Trash2, RefreshCw, ArrowLeft } from 'lucide-react';
+import {
+  migraineImportService,
+  type DiaryImportOptions,
+  type DiaryImportPreview,
+  type DiaryImportResult,
+  type DiaryImportSession,
+} from '../../api/migraineImportService';
+import {
+  Layout,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Button,
+  ConfirmDialog,
+} from '../../components/common';
+
+// ============================================
+// MIGRAINE IMPORT PAGE
+// ============================================
+
+// Human readable labels for diary fields
+const FIELD_LABELS: Record<string, string> = {
+  startDateTime: 'Start (date + time)',
+  endDateTime: 'End (date + time)',
+  date: 'Date',
+  startClock: 'Start time',
+  endClock: 'End time',
+  intensity: 'Intensity',
+  location: 'Location',
+  triggers: 'Triggers',
+  symptoms: 'Symptoms',
+  medication: 'Medication',
+  notes: 'Notes',
+  migraineType: 'Migraine type',
+  duration: 'Duration (1-3)',
+  frequency: 'Frequency (1-8)',
+  painLocation: 'Pain location (0-2)',
+  painCharacter: 'Pain character (0-2)',
+  painIntensity: 'Pain intensity (0-3)',
+  nausea: 'Nausea',
+  vomit: 'Vomiting',
+  phonophobia: 'Phonophobia',
+  photophobia: 'Photophobia',
+  visual: 'Visual aura (0-4)',
+  sensory: 'Sensory aura (0-2)',
+  dysphasia: 'Dysphasia',
+  dysarthria: 'Dysarthria',
+  vertigo: 'Vertigo',
+  tinnitus: 'Tinnitus',
+  hypoacusis: 'Hypoacusis',
+  diplopia: 'Diplopia',
+  defect: 'Visual field defect',
+  ataxia: 'Ataxia',
+  conscience: 'Reduced consciousness',
+  paresthesia: 'Paresthesia',
+  dpf: 'Family history',
+};
+
+const selectClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm';
+
+/**
+ * Migraine Import Page Component
+ * Features:
+ * - CSV diary upload with mapping presets
+ * - Editable column mapping
+ * - Preview with per-row validation
+ * - Import history with rollback
+ */
+export const MigraineImportPage = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [preset, setPreset] = useState('generic');
+  const [intensityScale, setIntensityScale] = useState<5 | 10>(5);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<DiaryImportPreview | null>(null);
+  const [importResult, setImportResult] = useState<DiaryImportResult | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<DiaryImportSession | null>(null);
+
+  // Fetch presets
+  const { data: presetData } = useQuery({
+    queryKey: ['migraine-import-presets'],
+    queryFn: () => migraineImportService.getPresets(),
+  });
+
+  // Fetch import history
+  const { data: imports } = useQuery({
+    queryKey: ['migraine-imports'],
+    queryFn: () => migraineImportService.getImports(),
+  });
+
+  const importOptions = (): DiaryImportOptions => ({
+    preset,
+    intensityScale,
+    // Only send an explicit mapping once the user has seen (and possibly edited) one
+    mapping: preview ? mapping : undefined,
+  });
+
+  // Preview mutation
+  const previewMutation = useMutation({
+    mutationFn: (options: DiaryImportOptions) => migraineImportService.preview(file as File, options),
+    onSuccess: (result) => {
+      setPreview(result);
+      setIntensityScale(result.intensityScale);
+      // Unmapped columns are stored explicitly so re-runs keep ignoring them
+      setMapping({
+        ...Object.fromEntries(result.unmappedColumns.map(header => [header, ''])),
+        ...result.mapping,
+      });
+    },
+  });
+
+  // Import mutation
+  const importMutation = useMutation({
+    mutationFn: () => migraineImportService.importFile(file as File, importOptions()),
+    onSuccess: (result) => {
+      setImportResult(result);
+      setPreview(null);
+      setFile(null);
+      queryClient.invalidateQueries({ queryKey: ['migraine-imports'] });
+      queryClient.invalidateQueries({ queryKey: ['migraines'] });
+      queryClient.invalidateQueries({ queryKey: ['migraine-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['recent-migraines'] });
+      queryClient.invalidateQueries({ queryKey: ['calendar'] });
+    },
+  });
+
+  // Rollback mutation
+  const rollbackMutation = useMutation({
+    mutationFn: (id: string) => migraineImportService.rollback(id),
+    onSuccess: () => {
+      setRollbackTarget(null);
+      queryClient.invalidateQueries({ queryKey: ['migraine-imports'] });
+      queryClient.invalidateQueries({ queryKey: ['migraines'] });
+      queryClient.invalidateQueries({ queryKey: ['migraine-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['recent-migraines'] });
+      queryClient.invalidateQueries({ queryKey: ['calendar'] });
+    },
+  });
+
+  // Handle file input change
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      setFile(e.target.files[0]);
+      setPreview(null);
+      setImportResult(null);
+      setMapping({});
+    }
+  };
+
+  // Switching presets starts from the preset's own mapping and scale
+  const handlePresetChange = (value: string) => {
+    setPreset(value);
+    setPreview(null);
+    setMapping({});
+    const selected = presetData?.presets.find(p => p.id === value);
+    if (selected) setIntensityScale(selected.intensityScale);
+  };
+
+  const errorMessage = (error: unknown) =>
+    (error as Error)?.message || 'Something went wrong';
+
+  const fields = presetData?.fields || Object.keys(FIELD_LABELS);
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <Button
+            variant="ghost"
+            size="sm"
+            leftIcon={<ArrowLeft size={16} />}
+            onClick={() => navigate('/migraines')}
+          >
+            Back to entries
+          </Button>
+          <h1 className="mt-2 text-3xl font-bold text-gray-900 dark:text-gray-100">Import Migraine Diary</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Import historical episodes from a CSV file or another headache app. Rows are validated
+            before anything is saved, and every import can be rolled back.
+          </p>
+        </div>
+
+        {/* File and preset selection */}
+        <Card>
+          <CardHeader>
+            <CardTitle>1. Choose File</CardTitle>
+            <CardDescription>
+              Pick a preset matching the app the file came from, or use the generic preset to detect columns by name.
+            </CardDescription>
+          </CardHeader>
+          <div className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">CSV File</label>
+                <label htmlFor="diary-file-input" className="flex items-center gap-2 cursor-pointer px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <FileText size={16} />
+                  <span className="truncate">{file ? file.name : 'Browse...'}</span>
+                  <input
+                    type="file"
+                    id="diary-file-input"
+                    accept=".csv"
+                    onChange={handleFileChange}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Preset</label>
+                <select value={preset} onChange={(e) => handlePresetChange(e.target.value)} className={selectClassName}>
+                  {(presetData?.presets || [{ id: 'generic', label: 'Generic CSV', description: '', intensityScale: 5 }]).map(p => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {presetData?.presets.find(p => p.id === preset)?.description}
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Intensity Scale in File</label>
+                <select
+                  value={intensityScale}
+                  onChange={(e) => setIntensityScale(parseInt(e.target.value) as 5 | 10)}
+                  className={selectClassName}
+                >
+                  <option value={5}>1-5 (same as this app)</option>
+                  <option value={10}>0-10 (converted to 1-5)</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="flex gap-3">
+              <Button
+                variant="primary"
+                leftIcon={preview ? <RefreshCw size={16} /> : <Upload size={16} />}
+                onClick={() => previewMutation.mutate(importOptions())}
+                disabled={!file || previewMutation.isPending}
+                isLoading={previewMutation.isPending}
+              >
+                {preview ? 'Re-run Preview' : 'Preview Import'}
+              </Button>
+            </div>
+
+            {previewMutation.isError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{errorMessage(previewMutation.error)}</p>
+            )}
+          </div>
+        </Card>
+
+        {/* Column mapping and preview */}
+        {preview && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>2. Column Mapping</CardTitle>
+                <CardDescription>
+                  Adjust which diary field each column is imported into, then re-run the preview.
+                </CardDescription>
+              </CardHeader>
+              <div className="p-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {preview.headers.map(header => (
+                  <div key={header}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 truncate" title={header}>
+                      {header}
+                    </label>
+                    <select
+                      value={mapping[header] || ''}
+                      onChange={(e) => setMapping(current => ({ ...current, [header]: e.target.value }))}
+                      className={selectClassName}
+                    >
+                      <option value="">Ignore column</option>
+                      {fields.map(field => (
+                        <option key={field} value={field}>{FIELD_LABELS[field] || field}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>3. Preview</CardTitle>
+                <CardDescription>
+                  {preview.validRows} of {preview.totalRows} rows are valid.
+                  {preview.invalidRows > 0 && ` ${preview.invalidRows} rows will be skipped.`}
+                </CardDescription>
+              </CardHeader>
+              <div className="p-6 space-y-4">
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                        <th className="py-2 pr-4">Row</th>
+                        <th className="py-2 pr-4">Start</th>
+                        <th className="py-2 pr-4">End</th>
+                        <th className="py-2 pr-4">Intensity</th>
+                        <th className="py-2 pr-4">Triggers</th>
+                        <th className="py-2 pr-4">Medication</th>
+                        <th className="py-2">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map(row => (
+                        <tr
+                          key={row.rowNumber}
+                          className={`border-b border-gray-100 dark:border-gray-800 ${row.errors.length > 0 ? 'bg-red-50 dark:bg-red-900/20' : ''}`}
+                        >
+                          <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{row.rowNumber}</td>
+                          <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">
+                            {row.entry.startTime ? new Date(row.entry.startTime).toLocaleString() : '—'}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">
+                            {row.entry.endTime ? new Date(row.entry.endTime).toLocaleString() : '—'}
+                          </td>
+                          <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">{row.entry.intensity ?? '—'}</td>
+                          <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{row.entry.triggers || '—'}</td>
+                          <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{row.entry.medication || '—'}</td>
+                          <td className="py-2">
+                            {row.errors.length > 0 ? (
+                              <span className="text-red-600 dark:text-red-400">{row.errors.join('; ')}</span>
+                            ) : (
+                              <CheckCircle2 size={16} className="text-green-600 dark:text-green-400" />
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {preview.totalRows > preview.rows.length && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Showing the first {preview.rows.length} rows.
+                  </p>
+                )}
+
+                {/* Errors outside the preview window */}
+                {preview.errors.some(error => error.rowNumber > preview.rows.length + 1) && (
+                  <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                    <p className="flex items-center gap-2 font-medium text-red-800 dark:text-red-300 mb-2">
+                      <AlertCircle size={16} />
+                      Other invalid rows
+                    </p>
+                    <ul className="space-y-1 text-sm text-red-700 dark:text-red-400 max-h-48 overflow-y-auto">
+                      {preview.errors
+                        .filter(error => error.rowNumber > preview.rows.length + 1)
+                        .map(error => (
+                          <li key={error.rowNumber}>Row {error.rowNumber}: {error.errors.join('; ')}</li>
+                        ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <Button
+                    variant="primary"
+                    onClick={() => importMutation.mutate()}
+                    disabled={preview.validRows === 0 || importMutation.isPending}
+                    isLoading={importMutation.isPending}
+                  >
+                    Import {preview.validRows} Valid {preview.validRows === 1 ? 'Row' : 'Rows'}
+                  </Button>
+                </div>
+                {importMutation.isError && (
+                  <p className="text-sm text-red-600 dark:text-red-400">{errorMessage(importMutation.error)}</p>
+                )}
+              </div>
+            </Card>
+          </>
+        )}
+
+        {/* Import result */}
+        {importResult && (
+          <div className="flex items-center gap-3 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+            <CheckCircle2 className="w-6 h-6 text-green-600 dark:text-green-400" />
+            <div className="flex-1">
+              <p className="font-medium text-green-900 dark:text-green-300">Import finished</p>
+              <p className="text-sm text-green-700 dark:text-green-400">
+                {importResult.imported} imported, {importResult.skipped} duplicates skipped, {importResult.errors} invalid rows (of {importResult.total}).
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => navigate('/migraines')}>
+              View Entries
+            </Button>
+          </div>
+        )}
+
+        {/* Import history */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Import History
+            </CardTitle>
+            <CardDescription>
+              Rolling back an import deletes every entry it created.
+            </CardDescription>
+          </CardHeader>
+          <div className="p-6">
+            {imports && imports.length > 0 ? (
+              <div className="space-y-3">
+                {imports.map(session => (
+                  <div
+                    key={session.id}
+                    className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <FileText className="w-4 h-4 text-gray-500 dark:text-gray-400 flex-shrink-0" />
+                        <p className="font-medium text-gray-900 dark:text-gray-100 truncate">{session.filename}</p>
+                        <span className={`px-2 py-0.5 text-xs rounded ${
+                          session.status === 'completed' ? 'bg-green-100 text-green-700' :
+                          session.status === 'failed' ? 'bg-red-100 text-red-700' :
+                          'bg-yellow-100 text-yellow-700'
+                        }`}>
+                          {session.status}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 text-sm text-gray-600 dark:text-gray-400 ml-6">
+                        <span>{session.totalRows} rows</span>
+                        <span className="text-green-600">{session.importedRows} imported</span>
+                        {session.skippedRows > 0 && <span className="text-yellow-600">{session.skippedRows} skipped</span>}
+                        {session.errorRows > 0 && <span className="text-red-600">{session.errorRows} invalid</span>}
+                        <span>{new Date(session.createdAt).toLocaleDateString()}</span>
+                      </div>
+                    </div>
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      onClick={() => setRollbackTarget(session)}
+                      className="ml-4"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                No imports yet.
+              </p>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <ConfirmDialog
+        isOpen={rollbackTarget !== null}
+        onClose={() => setRollbackTarget(null)}
+        onConfirm={() => rollbackTarget && rollbackMutation.mutate(rollbackTarget.id)}
+        title="Roll Back Import"
+        message={`This will delete the ${rollbackTarget?.importedRows ?? 0} entries created by "${rollbackTarget?.filename}". This action cannot be undone.`}
+        confirmLabel="Roll Back"
+        variant="danger"
+        isLoading={rollbackMutation.isPending}
+      />
+    </Layout>
+  );
+};
+
+export default MigraineImportPage;
@@ -1,7 +1,7 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { useNavigate } from 'react-router-dom';
-import { Plus, Search, Activity, FileText } from 'lucide-react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Plus, Search, Activity, FileText, SlidersHorizontal, Upload } from 'lucide-react';
 import { migraineService } from '../../api/migraineService';
 import { getWearableData } from '../../api/wearableService';
 import { 
@@ -15,6 +15,52 @@ import {
 } from '../../components/common';
 import MigraineTable from './MigraineTable';
 import WearableDataTable from './WearableDataTable';
+import MigraineFilterPanel from './MigraineFilterPanel';
+import MigraineExportMenu from './MigraineExportMenu';
+import type { MigraineSearchParams, MigraineType } from '../../types';
+
+// ============================================
+// URL FILTER HELPERS
+// ============================================
+
+// Read search filters from the URL query string
+const filtersFromSearchParams = (params: URLSearchParams): MigraineSearchParams => {
+  const parseBoolean = (key: string) => {
+    const value = params.get(key);
+    return value === 'true' ? true : value === 'false' ? false : undefined;
+  };
+  const parseNumber = (key: string) => {
+    const value = parseInt(params.get(key) || '');
+    return isNaN(value) ? undefined : value;
+  };
+
+  return {
+    query: params.get('query') || undefined,
+    startDate: params.get('startDate') || undefined,
+    endDate: params.get('endDate') || undefined,
+    minIntensity: parseNumber('minIntensity'),
+    maxIntensity: parseNumber('maxIntensity'),
+    triggers: params.getAll('triggers').filter(Boolean),
+    aura: parseBoolean('aura'),
+    nausea: parseBoolean('nausea'),
+    photophobia: parseBoolean('photophobia'),
+    migraineType: (params.get('migraineType') as MigraineType) || undefined,
+  };
+};
+
+// Write search filters to a URL query string (empty values are dropped)
+const filtersToSearchParams = (filters: MigraineSearchParams): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value)) {
+      value.forEach(v => params.append(key, v));
+    } else {
+      params.append(key, String(value));
+    }
+  });
+  return params;
+};
 
 // ============================================
 // MIGRAINE LIST PAGE
@@ -24,16 +70,34 @@ import WearableDataTable from './WearableDataTable';
  * Migraine List Page Component
  * Features:
  * - Paginated list of all migraine entries
- * - Search and filter functionality
+ * - Server-side search and structured filters (kept in the URL)
  * - Data table view
+ * - Export (CSV, JSON, FHIR) with date range
+ * - Link to bulk diary import
  * - Quick actions
  */
 export const MigraineListPage = () => {
   const navigate = useNavigate();
   const [page, setPage] = useState(1);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
   const [activeTab, setActiveTab] = useState<'migraines' | 'wearable'>('migraines');
 
+  const filters = filtersFromSearchParams(searchParams);
+  const searchQuery = filters.query || '';
+  const isFiltering = searchParams.toString() !== '';
+  const activeFilterCount = [
+    filters.startDate,
+    filters.endDate,
+    filters.minIntensity,
+    filters.maxIntensity,
+    filters.triggers?.length ? filters.triggers : undefined,
+    filters.aura,
+    filters.nausea,
+    filters.photophobia,
+    filters.migraineType,
+  ].filter(value => value !== undefined).length;
+  const [showFilters, setShowFilters] = useState(activeFilterCount > 0);
+
   // Fetch migraine entries
   const { 
     data, 
@@ -43,9 +107,31 @@ export const MigraineListPage = () => {
   } = useQuery({
     queryKey: ['migraines', page],
     queryFn: () => migraineService.getAll({ page, limit: 10 }),
-    enabled: activeTab === 'migraines',
+    enabled: activeTab === 'migraines' && !isFiltering,
+  });
+
+  // Search migraine entries when any filter is set
+  const {
+    data: searchResults,
+    isLoading: searchLoading,
+    error: searchError,
+    refetch: refetchSearch
+  } = useQuery({
+    queryKey: ['migraines', 'search', searchParams.toString()],
+    queryFn: () => migraineService.search(filters),
+    enabled: activeTab === 'migraines' && isFiltering,
+    placeholderData: keepPreviousData,
   });
 
+  // Update URL filters (replace so typing does not flood the history)
+  const applyFilters = (nextFilters: MigraineSearchParams) => {
+    setSearchParams(filtersToSearchParams(nextFilters), { replace: true });
+  };
+
+  const clearFilters = () => {
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
   // Fetch wearable data entries
   const {
     data: wearableData,
@@ -58,23 +144,16 @@ export const MigraineListPage = () => {
     enabled: activeTab === 'wearable',
   });
 
-  // Filter entries based on search
-  const filteredEntries = data?.data?.filter(entry => {
-    if (!searchQuery) return true;
-    
-    const query = searchQuery.toLowerCase();
-    return (
-      entry.date.includes(query) ||
-      entry.notes?.toLowerCase().includes(query) ||
-      entry.triggers?.some(t => t.toLowerCase().includes(query)) ||
-      entry.symptoms?.some(s => s.toLowerCase().includes(query))
-    );
-  }) || [];
+  // Entries to display - search results when filtering, otherwise the current page
+  const filteredEntries = (isFiltering ? searchResults : data?.data) || [];
 
-  // Loading state
-  const currentLoading = activeTab === 'migraines' ? isLoading : wearableLoading;
-  const currentError = activeTab === 'migraines' ? error : wearableError;
-  const currentRefetch = activeTab === 'migraines' ? refetch : refetchWearable;
+  // Loading state - search results load inline so the search box keeps focus
+  const migrainesLoading = isFiltering ? false : isLoading;
+  const migrainesError = isFiltering ? searchError : error;
+  const migrainesRefetch = isFiltering ? refetchSearch : refetch;
+  const currentLoading = activeTab === 'migraines' ? migrainesLoading : wearableLoading;
+  const currentError = activeTab === 'migraines' ? migrainesError : wearableError;
+  const currentRefetch = activeTab === 'migraines' ? migrainesRefetch : refetchWearable;
 
   if (currentLoading) {
     return (
@@ -113,13 +192,23 @@ export const MigraineListPage = () => {
             </p>
           </div>
           {activeTab === 'migraines' && (
-            <Button
-              variant="primary"
-              leftIcon={<Plus size={20} />}
-              onClick={() => navigate('/migraines/new')}
-            >
-              New Entry
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                leftIcon={<Upload size={20} />}
+                onClick={() => navigate('/migraines/import')}
+              >
+                Import
+              </Button>
+              <MigraineExportMenu />
+              <Button
+                variant="primary"
+                leftIcon={<Plus size={20} />}
+                onClick={() => navigate('/migraines/new')}
+              >
+                New Entry
+              </Button>
+            </div>
           )}
         </div>
 
@@ -173,30 +262,51 @@ export const MigraineListPage = () => {
                   placeholder="Search entries..."
                   leftIcon={<Search size={20} />}
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => applyFilters({ ...filters, query: e.target.value || undefined })}
                 />
               </div>
-              <Button variant="outline">
-                Filters
+              <Button
+                variant={showFilters ? 'secondary' : 'outline'}
+                leftIcon={<SlidersHorizontal size={20} />}
+                onClick={() => setShowFilters(open => !open)}
+              >
+                Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
               </Button>
             </div>
+            {showFilters && (
+              <MigraineFilterPanel
+                key={searchParams.toString()}
+                filters={filters}
+                onApply={applyFilters}
+                onClear={clearFilters}
+              />
+            )}
+            {isFiltering && (
+              <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+                {filteredEntries.length} matching {filteredEntries.length === 1 ? 'entry' : 'entries'}
+              </p>
+            )}
           </Card>
         )}
 
         {/* Entries Table */}
         <Card padding="none">
           {activeTab === 'migraines' ? (
-            filteredEntries.length === 0 ? (
+            isFiltering && searchLoading ? (
+              <div className="p-6">
+                <Loading text="Searching entries..." />
+              </div>
+            ) : filteredEntries.length === 0 ? (
               <div className="p-6">
                 <EmptyState
                   title="No entries found"
                   description={
-                    searchQuery
+                    isFiltering
                       ? 'Try adjusting your search criteria.'
                       : 'Start tracking your migraines by creating your first entry.'
                   }
                   action={
-                    !searchQuery
+                    !isFiltering
                       ? {
                           label: 'Create Entry',
                           onClick: () => navigate('/migraines/new'),
@@ -225,7 +335,7 @@ export const MigraineListPage = () => {
         </Card>
 
         {/* Pagination */}
-        {activeTab === 'migraines' && data && data.totalPages > 1 && (
+        {activeTab === 'migraines' && !isFiltering && data && data.totalPages > 1 && (
           <div className="flex items-center justify-between">
             <p className="text-sm text-gray-600 dark:text-gray-400">
               Showing page {data.page} of {data.totalPages} ({data.total} total entries)
@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BellRing, Save, Send } from 'lucide-react';
+import { notificationService } from '../../api/notificationService';
+import { Card, CardHeader, CardTitle, CardDescription, Button, Input } from '../../components/common';
+import type { NotificationSettings, NotificationSettingsResponse } from '../../types';
+
+// ============================================
+// NOTIFICATION SETTINGS CARD
+// ============================================
+
+const selectClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+interface ToggleProps {
+  label: string;
+  description: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const Toggle = ({ label, description, checked, disabled, onChange }: ToggleProps) => (
+  <label className={`flex items-start gap-3 ${disabled ? 'opacity-60' : 'cursor-pointer'}`}>
+    <input
+      type="checkbox"
+      checked={checked}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.checked)}
+      className="mt-1 w-4 h-4 accent-primary-600"
+    />
+    <span>
+      <span className="block text-sm font-medium text-gray-900 dark:text-gray-100">{label}</span>
+      <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+    </span>
+  </label>
+);
+
+interface SettingsFormProps {
+  settings: NotificationSettingsResponse;
+}
+
+/**
+ * Settings form, initialised from the saved settings
+ */
+const SettingsForm = ({ settings }: SettingsFormProps) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<NotificationSettings>({
+    forecastsEnabled: settings.forecastsEnabled,
+    forecastEngine: settings.forecastEngine,
+    morningHour: settings.morningHour,
+    eveningHour: settings.eveningHour,
+    riskThreshold: settings.riskThreshold,
+    pushEnabled: settings.pushEnabled,
+    emailEnabled: settings.emailEnabled,
+    emailAddress: settings.emailAddress,
+  });
+  const [pushError, setPushError] = useState<string | null>(null);
+
+  const update = <K extends keyof NotificationSettings>(key: K, value: NotificationSettings[K]) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const saveMutation = useMutation({
+    mutationFn: () => notificationService.updateSettings(draft),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notification-settings'] }),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => notificationService.sendTest(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+  });
+
+  // Web push needs this browser's subscription before the server can deliver anything
+  const handlePushChange = async (enabled: boolean) => {
+    setPushError(null);
+    try {
+      if (enabled && settings.channels.push.publicKey) {
+        await notificationService.subscribeToPush(settings.channels.push.publicKey);
+      } else if (!enabled) {
+        await notificationService.unsubscribeFromPush();
+      }
+      update('pushEnabled', enabled);
+    } catch (error) {
+      setPushError(error instanceof Error ? error.message : 'Could not change push notifications');
+    }
+  };
+
+  const pushAvailable =
+    settings.channels.push.configured && !!settings.channels.push.publicKey && notificationService.isPushSupported();
+
+  return (
+    <form
+      className="space-y-6"
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate();
+      }}
+    >
+      {/* Forecast schedule */}
+      <div className="space-y-4">
+        <Toggle
+          label="Scheduled forecasts"
+          description="Calculate your migraine risk every morning and evening once new wearable data has been uploaded."
+          checked={draft.forecastsEnabled}
+          onChange={(checked) => update('forecastsEnabled', checked)}
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Morning forecast (local time)</label>
+            <select
+              value={draft.morningHour}
+              onChange={(e) => update('morningHour', parseInt(e.target.value))}
+              className={selectClassName}
+            >
+              {HOURS.map((hour) => (
+                <option key={hour} value={hour}>{formatHour(hour)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Evening forecast (local time)</label>
+            <select
+              value={draft.eveningHour}
+              onChange={(e) => update('eveningHour', parseInt(e.target.value))}
+              className={selectClassName}
+            >
+              {HOURS.map((hour) => (
+                <option key={hour} value={hour}>{formatHour(hour)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Engine</label>
+            <select
+              value={draft.forecastEngine}
+              onChange={(e) => update('forecastEngine', e.target.value as NotificationSettings['forecastEngine'])}
+              className={selectClassName}
+            >
+              <option value="local">Local model</option>
+              <option value="llm">AI agent</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Alert threshold</label>
+            <span className="text-sm font-bold text-gray-900 dark:text-gray-100">{draft.riskThreshold}%</span>
+          </div>
+          <input
+            type="range"
+            min="5"
+            max="95"
+            step="5"
+            value={draft.riskThreshold}
+            onChange={(e) => update('riskThreshold', parseInt(e.target.value))}
+            className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-600"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            You are alerted when a forecast reaches this risk after the previous one was below it.
+          </p>
+        </div>
+      </div>
+
+      {/* Channels */}
+      <div className="space-y-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          Alerts always appear in your inbox. You can also receive them as:
+        </p>
+        <Toggle
+          label="Browser push notifications"
+          description={
+            pushAvailable
+              ? 'Shown by this browser even when Migraine Mapper is closed.'
+              : !notificationService.isPushSupported()
+                ? 'This browser does not support push notifications.'
+                : 'Web push is not configured on the server.'
+          }
+          checked={draft.pushEnabled}
+          disabled={!pushAvailable && !draft.pushEnabled}
+          onChange={handlePushChange}
+        />
+        {pushError && <p className="text-xs text-red-600 dark:text-red-400">{pushError}</p>}
+
+        <Toggle
+          label="Email"
+          description={
+            settings.channels.email.configured
+              ? `Sent to ${draft.emailAddress || settings.accountEmail || 'your account email'}.`
+              : 'Email is not configured on the server.'
+          }
+          checked={draft.emailEnabled}
+          disabled={!settings.channels.email.configured && !draft.emailEnabled}
+          onChange={(checked) => update('emailEnabled', checked)}
+        />
+        {draft.emailEnabled && (
+          <Input
+            type="email"
+            label="Alert email address"
+            placeholder={settings.accountEmail ?? 'you@example.com'}
+            value={draft.emailAddress ?? ''}
+            onChange={(e) => update('emailAddress', e.target.value || null)}
+            helperText="Leave empty to use your account email"
+          />
+        )}
+      </div>
+
+      {saveMutation.isError && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {(saveMutation.error as Error)?.message || 'Failed to save settings'}
+        </p>
+      )}
+      {testMutation.isSuccess && (
+        <p className="text-sm text-green-600 dark:text-green-400">
+          Test notification sent
+          {Object.keys(testMutation.data.deliveries).length > 0
+            ? ` (${Object.entries(testMutation.data.deliveries).map(([channel, status]) => `${channel}: ${status}`).join(', ')})`
+            : ' to your inbox'}
+          .
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <Button type="submit" variant="primary" leftIcon={<Save size={18} />} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          leftIcon={<Send size={18} />}
+          onClick={() => testMutation.mutate()}
+          disabled={testMutation.isPending}
+        >
+          Send Test Notification
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Notification Settings Card Component
+ * Features:
+ * - Morning and evening forecast hours and engine
+ * - Risk threshold that triggers an alert
+ * - Web push (subscribes this browser) and email channels
+ * - Test notification through every enabled channel
+ */
+const NotificationSettingsCard = () => {
+  const { data: settings, dataUpdatedAt, isLoading } = useQuery({
+    queryKey: ['notification-settings'],
+    queryFn: () => notificationService.getSettings(),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="w-5 h-5" />
+          Forecasts & Alerts
+        </CardTitle>
+        <CardDescription>
+          {settings && !settings.schedulerEnabled
+            ? 'Scheduled forecasts are turned off on the server; settings are saved for when they are enabled.'
+            : 'Get a risk forecast twice a day and an alert when your risk crosses your threshold.'}
+        </CardDescription>
+      </CardHeader>
+
+      {isLoading || !settings ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading settings...</p>
+      ) : (
+        <SettingsForm key={dataUpdatedAt} settings={settings} />
+      )}
+    </Card>
+  );
+};
+
+export default NotificationSettingsCard;
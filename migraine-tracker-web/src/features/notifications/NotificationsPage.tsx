@@ -0,0 +1,258 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Bell, CheckCheck, Clock, Trash2 } from 'lucide-react';
+import { notificationService } from '../../api/notificationService';
+import NotificationSettingsCard from './NotificationSettingsCard';
+import {
+  Layout,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Loading,
+  ErrorMessage,
+  Button,
+} from '../../components/common';
+import type { AppNotification, ForecastJob } from '../../types';
+
+// ============================================
+// NOTIFICATIONS PAGE
+// ============================================
+
+const JOB_STATUS_STYLES: Record<ForecastJob['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  running: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+interface NotificationItemProps {
+  notification: AppNotification;
+  onMarkRead: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const NotificationItem = ({ notification, onMarkRead, onDelete }: NotificationItemProps) => {
+  const unread = !notification.readAt;
+  const assessmentLinked = notification.type === 'risk_alert';
+
+  return (
+    <li
+      className={`p-4 rounded-lg border ${
+        unread
+          ? 'border-primary-200 bg-primary-50 dark:border-primary-800 dark:bg-primary-900/20'
+          : 'border-gray-200 dark:border-gray-700'
+      }`}
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{notification.title}</p>
+          <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">{notification.body}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            {format(new Date(notification.createdAt), 'EEE, MMM d, HH:mm')}
+            {Object.entries(notification.deliveries).map(([channel, status]) => (
+              <span key={channel} className="ml-2">
+                · {channel}: {status}
+              </span>
+            ))}
+          </p>
+          {assessmentLinked && (
+            <Link to="/dashboard" className="inline-block text-xs text-primary-600 dark:text-primary-400 hover:underline mt-2">
+              View risk on dashboard
+            </Link>
+          )}
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {unread && (
+            <button
+              onClick={() => onMarkRead(notification.id)}
+              className="p-1.5 text-gray-500 hover:text-primary-600 dark:text-gray-400 dark:hover:text-primary-400 rounded"
+              aria-label="Mark as read"
+              title="Mark as read"
+            >
+              <CheckCheck size={16} />
+            </button>
+          )}
+          <button
+            onClick={() => onDelete(notification.id)}
+            className="p-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded"
+            aria-label="Delete notification"
+            title="Delete"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+/**
+ * Notifications Page
+ * Features:
+ * - Inbox of risk alerts with per-channel delivery status
+ * - Mark read, mark all read and delete
+ * - Recent scheduled forecast runs
+ * - Forecast and alert settings
+ */
+export const NotificationsPage = () => {
+  const queryClient = useQueryClient();
+
+  const { data: inbox, isLoading, error, refetch } = useQuery({
+    queryKey: ['notifications'],
+    queryFn: () => notificationService.getInbox(),
+    refetchInterval: 60 * 1000,
+  });
+
+  const { data: jobs } = useQuery({
+    queryKey: ['forecast-jobs'],
+    queryFn: () => notificationService.getForecastJobs(),
+  });
+
+  const invalidateInbox = () => queryClient.invalidateQueries({ queryKey: ['notifications'] });
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: string) => notificationService.markRead(id),
+    onSuccess: invalidateInbox,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => notificationService.markAllRead(),
+    onSuccess: invalidateInbox,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => notificationService.delete(id),
+    onSuccess: invalidateInbox,
+  });
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Notifications</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Scheduled risk forecasts and the alerts they raised.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Inbox */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <Bell className="w-5 h-5" />
+                      Inbox
+                    </CardTitle>
+                    <CardDescription>
+                      {inbox ? `${inbox.unreadCount} unread` : 'Your alerts'}
+                    </CardDescription>
+                  </div>
+                  {!!inbox?.unreadCount && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<CheckCheck size={16} />}
+                      onClick={() => markAllReadMutation.mutate()}
+                      disabled={markAllReadMutation.isPending}
+                    >
+                      Mark all read
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+
+              {isLoading ? (
+                <Loading text="Loading notifications..." />
+              ) : error ? (
+                <ErrorMessage message="Failed to load notifications" onRetry={() => refetch()} />
+              ) : !inbox || inbox.notifications.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No notifications yet. Alerts appear here when a scheduled forecast crosses your risk threshold.
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {inbox.notifications.map((notification) => (
+                    <NotificationItem
+                      key={notification.id}
+                      notification={notification}
+                      onMarkRead={(id) => markReadMutation.mutate(id)}
+                      onDelete={(id) => deleteMutation.mutate(id)}
+                    />
+                  ))}
+                </ul>
+              )}
+            </Card>
+
+            {/* Scheduled forecast runs */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="w-5 h-5" />
+                  Recent Scheduled Forecasts
+                </CardTitle>
+                <CardDescription>
+                  A forecast runs in each morning and evening slot once new wearable data has been uploaded.
+                </CardDescription>
+              </CardHeader>
+
+              {!jobs || jobs.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No scheduled forecasts have run yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                        <th className="py-2 pr-4 font-medium">Slot</th>
+                        <th className="py-2 pr-4 font-medium">Status</th>
+                        <th className="py-2 pr-4 font-medium">Risk</th>
+                        <th className="py-2 font-medium">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {jobs.map((job) => (
+                        <tr key={job.id} className="border-b border-gray-100 dark:border-gray-800">
+                          <td className="py-2 pr-4 text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                            {job.slotTime ? format(new Date(job.slotTime), 'MMM d, HH:mm') : '—'}
+                            {job.slot && <span className="text-gray-500 dark:text-gray-400"> ({job.slot})</span>}
+                          </td>
+                          <td className="py-2 pr-4">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${JOB_STATUS_STYLES[job.status]}`}>
+                              {job.status}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">
+                            {job.result?.riskLevel != null ? `${job.result.riskLevel}%` : '—'}
+                          </td>
+                          <td className="py-2 text-gray-600 dark:text-gray-400">
+                            {job.status === 'failed' || job.lastError
+                              ? `${job.lastError ?? 'Failed'} (attempt ${job.attempts}/${job.maxAttempts})`
+                              : job.result?.alerted
+                                ? 'Alert sent'
+                                : job.status === 'completed'
+                                  ? 'Below threshold'
+                                  : `Runs ${format(new Date(job.runAt), 'MMM d, HH:mm')}`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+          </div>
+
+          <div>
+            <NotificationSettingsCard />
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default NotificationsPage;
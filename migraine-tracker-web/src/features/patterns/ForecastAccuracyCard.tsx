@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Target } from 'lucide-react';
+import {
+  ComposedChart,
+  LineChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { riskAssessmentService } from '../../api/riskAssessmentService';
+import { Card, CardHeader, CardTitle, CardDescription, Button } from '../../components/common';
+import type { ForecastMetrics } from '../../types';
+
+// ============================================
+// FORECAST ACCURACY CARD
+// ============================================
+
+const THRESHOLDS = [25, 50, 75];
+
+const ENGINE_LABELS: Record<string, string> = {
+  local: 'Local model',
+  llm: 'AI agent',
+};
+
+const percent = (value: number | null) => (value !== null ? `${Math.round(value * 100)}%` : 'N/A');
+
+interface MetricProps {
+  label: string;
+  value: string;
+  hint: string;
+}
+
+const Metric = ({ label, value, hint }: MetricProps) => (
+  <div>
+    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</p>
+    <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">{value}</p>
+    <p className="text-xs text-gray-500 dark:text-gray-400">{hint}</p>
+  </div>
+);
+
+interface MetricsGridProps {
+  metrics: ForecastMetrics;
+}
+
+export const MetricsGrid = ({ metrics }: MetricsGridProps) => (
+  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+    <Metric label="Forecasts" value={String(metrics.forecasts)} hint={`${metrics.migraines} followed by a migraine`} />
+    <Metric label="Hit Rate" value={percent(metrics.hitRate)} hint={`Migraines flagged at ≥${metrics.threshold}%`} />
+    <Metric label="False Alarms" value={percent(metrics.falseAlarmRate)} hint="Quiet periods flagged" />
+    <Metric
+      label="Brier Score"
+      value={metrics.brierScore !== null ? metrics.brierScore.toFixed(3) : 'N/A'}
+      hint={
+        metrics.brierSkillScore !== null
+          ? `Skill ${metrics.brierSkillScore > 0 ? '+' : ''}${metrics.brierSkillScore.toFixed(2)} vs base rate`
+          : 'Lower is better'
+      }
+    />
+    <Metric label="ROC AUC" value={metrics.auc !== null ? metrics.auc.toFixed(2) : 'N/A'} hint="0.5 = chance, 1 = perfect" />
+  </div>
+);
+
+/**
+ * Forecast accuracy of stored risk predictions
+ * Features:
+ * - Hit rate, false alarm rate, Brier score (with skill vs always predicting the base rate) and AUC
+ * - Adjustable alert threshold
+ * - Calibration chart (predicted vs observed migraine rate per risk bucket)
+ * - ROC curve
+ * - Breakdown by engine (local model vs AI agent)
+ * - Breakdown by prompt template version (AI agent)
+ */
+const ForecastAccuracyCard = () => {
+  const [threshold, setThreshold] = useState(50);
+
+  const { data: evaluation, isLoading } = useQuery({
+    queryKey: ['forecast-accuracy', threshold],
+    queryFn: () => riskAssessmentService.getAccuracy(threshold),
+  });
+
+  const overall = evaluation?.overall;
+
+  const calibrationData = (overall?.calibration ?? []).map((bucket) => ({
+    range: bucket.range,
+    predicted: Math.round(bucket.meanPredicted * 100),
+    observed: Math.round(bucket.observedRate * 100),
+    count: bucket.count,
+  }));
+
+  const rocData = (overall?.roc ?? []).map((point) => ({ fpr: point.fpr, tpr: point.tpr, chance: point.fpr }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="w-5 h-5" />
+              Forecast Accuracy
+            </CardTitle>
+            <CardDescription>
+              How well past risk predictions matched migraines within their forecast horizon.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Alert at</span>
+            {THRESHOLDS.map((value) => (
+              <Button
+                key={value}
+                size="sm"
+                variant={threshold === value ? 'primary' : 'ghost'}
+                onClick={() => setThreshold(value)}
+              >
+                ≥{value}%
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+
+      <div className="p-6 space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Evaluating forecasts...</p>
+        ) : !overall || overall.forecasts === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No forecasts to evaluate yet. Run risk analyses on the dashboard with real wearable data; each one is
+            scored once its forecast horizon has passed
+            {evaluation && evaluation.pending > 0 ? ` (${evaluation.pending} pending)` : ''}.
+          </p>
+        ) : (
+          <>
+            <MetricsGrid metrics={overall} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Calibration */}
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Calibration</h4>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={calibrationData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis dataKey="range" stroke="#6b7280" style={{ fontSize: '11px' }} />
+                      <YAxis domain={[0, 100]} unit="%" stroke="#6b7280" style={{ fontSize: '12px' }} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="observed" name="Observed migraine rate" fill="#f87171" radius={[4, 4, 0, 0]} />
+                      <Line dataKey="predicted" name="Mean predicted risk" stroke="#6366f1" strokeWidth={2} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Well-calibrated forecasts have bars close to the line.
+                </p>
+              </div>
+
+              {/* ROC curve */}
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">ROC Curve</h4>
+                {rocData.length > 0 ? (
+                  <div className="h-56">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={rocData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                        <XAxis
+                          dataKey="fpr"
+                          type="number"
+                          domain={[0, 1]}
+                          stroke="#6b7280"
+                          style={{ fontSize: '12px' }}
+                          label={{ value: 'False alarm rate', position: 'insideBottom', offset: -2, fontSize: 11 }}
+                        />
+                        <YAxis domain={[0, 1]} stroke="#6b7280" style={{ fontSize: '12px' }} />
+                        <Tooltip />
+                        <Line dataKey="tpr" name="Hit rate" stroke="#ef4444" strokeWidth={2} dot={false} />
+                        <Line dataKey="chance" name="Chance" stroke="#9ca3af" strokeDasharray="4 4" dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Needs forecasts followed by a migraine and forecasts that were not.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* By engine */}
+            {evaluation && Object.keys(evaluation.byEngine).length > 1 && (
+              <div className="border-t pt-4 space-y-4">
+                {Object.entries(evaluation.byEngine).map(([engine, metrics]) => (
+                  <div key={engine}>
+                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      {ENGINE_LABELS[engine] ?? engine}
+                    </h4>
+                    <MetricsGrid metrics={metrics} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* By forecast horizon */}
+            {evaluation && Object.keys(evaluation.byHorizon).length > 1 && (
+              <div className="border-t pt-4 space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Forecasts by horizon</p>
+                {Object.entries(evaluation.byHorizon).map(([horizonHours, metrics]) => (
+                  <div key={horizonHours}>
+                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Next {horizonHours} hours</h4>
+                    <MetricsGrid metrics={metrics} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* By prompt template version */}
+            {evaluation && Object.keys(evaluation.byPromptTemplate).length > 1 && (
+              <div className="border-t pt-4 space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">AI agent forecasts by prompt template version</p>
+                {Object.entries(evaluation.byPromptTemplate).map(([version, metrics]) => (
+                  <div key={version}>
+                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{version}</h4>
+                    <MetricsGrid metrics={metrics} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              A forecast counts as followed by a migraine when an attack starts, or a migraine day is marked, within
+              its horizon (12 hours unless another horizon was chosen). Simulated predictions are excluded
+              {evaluation && evaluation.pending > 0 ? `; ${evaluation.pending} recent forecasts are still pending` : ''}.
+            </p>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default ForecastAccuracyCard;
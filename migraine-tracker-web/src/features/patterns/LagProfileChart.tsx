@@ -0,0 +1,88 @@
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { LagProfilePoint } from '../../types';
+
+// ============================================
+// LAG PROFILE CHART
+// ============================================
+
+interface LagProfileChartProps {
+  profile: LagProfilePoint[];
+  strongestLag?: number;
+}
+
+const formatOffset = (offset: number) => (offset === 0 ? 'Migraine day' : `${Math.abs(offset)}d before`);
+
+interface LagTooltipProps {
+  active?: boolean;
+  payload?: { payload: LagProfilePoint & { label: string } }[];
+}
+
+// Custom tooltip
+const LagTooltip = ({ active, payload }: LagTooltipProps) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+        <p className="text-sm font-medium text-gray-900">{point.label}</p>
+        <p className="text-sm text-gray-600">
+          Effect size: <span className="font-semibold">{point.cohensD}</span>
+        </p>
+        <p className="text-xs text-gray-500">
+          {point.migraineDays} migraine / {point.normalDays} normal days
+        </p>
+      </div>
+    );
+  }
+  return null;
+};
+
+/**
+ * Effect size (Cohen's d) of a metric at each day offset before migraine onset
+ * Features:
+ * - One bar per offset from 3 days before to the migraine day
+ * - Strongest lag highlighted
+ */
+const LagProfileChart = ({ profile, strongestLag }: LagProfileChartProps) => {
+  if (!profile || profile.length === 0) {
+    return null;
+  }
+
+  const data = [...profile]
+    .sort((a, b) => a.offset - b.offset)
+    .map(point => ({
+      ...point,
+      label: formatOffset(point.offset),
+      cohensD: Number(point.cohensD.toFixed(3)),
+    }));
+
+  return (
+    <div className="h-40">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="label" stroke="#6b7280" style={{ fontSize: '12px' }} />
+          <YAxis stroke="#6b7280" style={{ fontSize: '12px' }} />
+          <Tooltip content={<LagTooltip />} />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          <Bar dataKey="cohensD" name="Effect size" radius={[4, 4, 0, 0]}>
+            {data.map(point => (
+              <Cell key={point.offset} fill={point.offset === strongestLag ? '#ef4444' : '#93c5fd'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default LagProfileChart;
@@ -0,0 +1,172 @@
+import { TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription } from '../../components/common';
+import type { OddsRatioPatternDefinition } from '../../types';
+
+// ============================================
+// LIFESTYLE PATTERN CARD
+// ============================================
+
+/**
+ * Correlation pattern whose definition is an odds ratio
+ */
+export interface LifestylePattern {
+  patternType: string;
+  patternName: string;
+  patternDefinition: OddsRatioPatternDefinition;
+  correlationStrength: number | null;
+  confidenceScore: number | null;
+  avgValueOnMigraineDays: number | null;
+  avgValueOnNormalDays: number | null;
+  migraineDaysCount: number;
+  totalDaysAnalyzed: number;
+  lastUpdated: string;
+}
+
+interface LifestylePatternCardProps {
+  pattern: LifestylePattern;
+}
+
+const formatRatio = (value: number) => (value >= 100 ? value.toFixed(0) : value.toFixed(2));
+
+/**
+ * Odds ratio card for a check-in factor or trigger tag
+ * Features:
+ * - Odds ratio with 95% confidence interval for the strongest lag
+ * - Share of migraine vs headache-free days with the exposure
+ * - Comparison of the same-day, previous-day and 48h windows
+ */
+export const LifestylePatternCard = ({ pattern }: LifestylePatternCardProps) => {
+  const definition = pattern.patternDefinition;
+  const isRisk = definition.oddsRatio > 1;
+  const ciExcludesOne = definition.ciLower > 1 || definition.ciUpper < 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          {pattern.patternName}
+          <span className={`text-base font-semibold ${isRisk ? 'text-red-600' : 'text-green-600'}`}>
+            {isRisk ? (
+              <TrendingUp className="w-5 h-5 inline mr-1" />
+            ) : (
+              <TrendingDown className="w-5 h-5 inline mr-1" />
+            )}
+            OR {formatRatio(definition.oddsRatio)}
+          </span>
+        </CardTitle>
+        <CardDescription className="mt-2 flex flex-wrap items-center gap-3">
+          <span>
+            Pattern Type: <code className="text-xs bg-gray-100 dark:bg-gray-700 px-1 py-0.5 rounded">
+              {pattern.patternType}
+            </code>
+          </span>
+          <span className="text-gray-500 dark:text-gray-400">
+            • {definition.source === 'trigger_tag' ? 'Trigger tag' : 'Daily check-in'} • {definition.lagLabel}
+          </span>
+        </CardDescription>
+      </CardHeader>
+
+      <div className="p-6 space-y-4">
+        {/* Odds ratio */}
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Odds Ratio</h4>
+          <p className="text-sm text-gray-900 dark:text-gray-100">
+            <span className="font-mono font-semibold">{formatRatio(definition.oddsRatio)}</span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {' '}(95% CI {formatRatio(definition.ciLower)} – {formatRatio(definition.ciUpper)})
+            </span>
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            {ciExcludesOne
+              ? `Migraine days were ${isRisk ? 'more' : 'less'} likely when this was present (${definition.lagLabel.toLowerCase()}).`
+              : 'The confidence interval includes 1, so this may be chance.'}
+            {definition.continuityCorrected && ' Some counts were zero; 0.5 was added to each cell.'}
+          </p>
+        </div>
+
+        {/* Exposure rates */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Present on Migraine Days</p>
+            <p className="text-lg font-semibold text-red-600">
+              {pattern.avgValueOnMigraineDays !== null ? `${pattern.avgValueOnMigraineDays.toFixed(0)}%` : 'N/A'}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {definition.counts.exposedMigraine} of {definition.counts.exposedMigraine + definition.counts.unexposedMigraine}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Present on Headache-free Days</p>
+            <p className="text-lg font-semibold text-green-600">
+              {pattern.avgValueOnNormalDays !== null ? `${pattern.avgValueOnNormalDays.toFixed(0)}%` : 'N/A'}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {definition.counts.exposedControl} of {definition.counts.exposedControl + definition.counts.unexposedControl}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Migraine Days Analyzed</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">{pattern.migraineDaysCount}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Confidence</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              {pattern.confidenceScore !== null ? `${(pattern.confidenceScore * 100).toFixed(0)}%` : 'N/A'}
+            </p>
+          </div>
+        </div>
+
+        {/* Lag comparison */}
+        <div className="border-t pt-4">
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">By Time Window</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="py-1 font-medium">Window</th>
+                <th className="py-1 font-medium">Odds Ratio</th>
+                <th className="py-1 font-medium">95% CI</th>
+                <th className="py-1 font-medium">Days</th>
+              </tr>
+            </thead>
+            <tbody>
+              {definition.lags.map((lag) => (
+                <tr
+                  key={lag.lag}
+                  className={`text-gray-900 dark:text-gray-100 ${lag.lag === definition.lag ? 'font-semibold' : ''}`}
+                >
+                  <td className="py-1">{lag.lagLabel}</td>
+                  <td className="py-1 font-mono">{formatRatio(lag.oddsRatio)}</td>
+                  <td className="py-1 font-mono">
+                    {formatRatio(lag.ciLower)} – {formatRatio(lag.ciUpper)}
+                  </td>
+                  <td className="py-1">
+                    {lag.migraineDays} / {lag.controlDays}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Days: migraine / headache-free</p>
+        </div>
+
+        {definition.source === 'trigger_tag' && (
+          <div className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>
+              Trigger tags are only recorded with migraine entries, so they are assumed absent on
+              headache-free days. This tends to overstate the association.
+            </span>
+          </div>
+        )}
+
+        {pattern.lastUpdated && (
+          <div className="text-xs text-gray-500 dark:text-gray-400 border-t pt-4">
+            Last updated: {new Date(pattern.lastUpdated).toLocaleString()}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default LifestylePatternCard;
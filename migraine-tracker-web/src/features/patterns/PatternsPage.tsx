@@ -3,6 +3,10 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { TrendingUp, TrendingDown, AlertTriangle, CheckCircle2, Info, RefreshCw } from 'lucide-react';
 import { getMigraineCorrelations } from '../../api/summaryService';
 import { processSummaryIndicators } from '../../api/summaryService';
+import LifestylePatternCard, { type LifestylePattern } from './LifestylePatternCard';
+import LagProfileChart from './LagProfileChart';
+import ForecastAccuracyCard from './ForecastAccuracyCard';
+import RiskBacktestCard from './RiskBacktestCard';
 import {
   Layout,
   Card,
@@ -76,6 +80,13 @@ export const PatternsPage = () => {
   };
 
   const patterns = correlationsData?.data?.data?.patterns || [];
+  // Lifestyle factors and trigger tags are stored as odds ratio patterns
+  const isOddsRatioPattern = (pattern: { patternDefinition: { kind?: string } | null }) =>
+    pattern.patternDefinition?.kind === 'odds_ratio';
+  const wearablePatterns = patterns.filter(
+    (pattern: { patternDefinition: { kind?: string } | null }) => !isOddsRatioPattern(pattern)
+  );
+  const lifestylePatterns: LifestylePattern[] = patterns.filter(isOddsRatioPattern);
 
   if (isLoading) {
     return (
@@ -133,6 +144,12 @@ export const PatternsPage = () => {
     return `${metric} ${operator} ${threshold}`;
   };
 
+  // Helper to describe the lag (day offset relative to migraine onset) with the strongest effect
+  const formatLag = (lag: number | undefined) => {
+    if (lag === undefined || lag === 0) return 'on the migraine day';
+    return `${Math.abs(lag)} day${lag === -1 ? '' : 's'} before the migraine day`;
+  };
+
   return (
     <Layout>
       <div className="max-w-7xl mx-auto space-y-6">
@@ -141,8 +158,8 @@ export const PatternsPage = () => {
           <div>
             <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Migraine Correlation Patterns</h1>
             <p className="mt-2 text-gray-600 dark:text-gray-400">
-              Patterns identified from your wearable data that correlate with migraine days.
-              These patterns are used for risk prediction.
+              Patterns identified from your wearable data, daily check-ins and trigger tags that
+              correlate with migraine days. These patterns are used for risk prediction.
             </p>
           </div>
           {SHOW_FORCE_REPROCESS_BUTTON && (
@@ -223,7 +240,7 @@ export const PatternsPage = () => {
                 </li>
                 <li className="flex items-start">
                   <CheckCircle2 className="w-5 h-5 text-gray-400 mr-2 mt-0.5 flex-shrink-0" />
-                  <span>Have both migraine and non-migraine days for comparison</span>
+                  <span>Confirm headache-free days with the daily check-in on the dashboard</span>
                 </li>
               </ul>
               <p className="text-sm text-gray-500 dark:text-gray-400 mt-6">
@@ -233,7 +250,10 @@ export const PatternsPage = () => {
           </Card>
         ) : (
           <div className="space-y-4">
-            {patterns.map((pattern) => (
+            {wearablePatterns.length > 0 && lifestylePatterns.length > 0 && (
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Wearable Patterns</h2>
+            )}
+            {wearablePatterns.map((pattern) => (
               <Card key={pattern.patternType}>
                 <CardHeader>
                   <div className="flex items-start justify-between">
@@ -285,6 +305,23 @@ export const PatternsPage = () => {
                     )}
                   </div>
 
+                  {/* Lag Profile */}
+                  {pattern.patternDefinition?.lagProfile?.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                        Lag Profile
+                      </h4>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                        Effect size from 3 days before onset to the migraine day. Strongest{' '}
+                        {formatLag(pattern.patternDefinition.lag)}.
+                      </p>
+                      <LagProfileChart
+                        profile={pattern.patternDefinition.lagProfile}
+                        strongestLag={pattern.patternDefinition.lag}
+                      />
+                    </div>
+                  )}
+
                   {/* Statistics */}
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <div>
@@ -349,9 +386,25 @@ export const PatternsPage = () => {
                 </div>
               </Card>
             ))}
+
+            {/* Lifestyle & Trigger Patterns */}
+            {lifestylePatterns.length > 0 && (
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 pt-2">
+                Lifestyle &amp; Trigger Patterns
+              </h2>
+            )}
+            {lifestylePatterns.map((pattern) => (
+              <LifestylePatternCard key={pattern.patternType} pattern={pattern} />
+            ))}
           </div>
         )}
 
+        {/* Forecast Accuracy */}
+        <ForecastAccuracyCard />
+
+        {/* Backtest */}
+        <RiskBacktestCard />
+
         {/* Info Card */}
         <Card>
           <CardHeader>
@@ -363,7 +416,8 @@ export const PatternsPage = () => {
           <div className="p-6 space-y-3 text-sm text-gray-600 dark:text-gray-400">
             <p>
               <strong>Correlation Strength (Effect Size)</strong> measures how different your metrics are
-              on migraine days vs normal days. This is calculated using Cohen's d:
+              on migraine days vs days you confirmed as headache-free in the daily check-in (days
+              without a check-in are left out). This is calculated using Cohen's d:
             </p>
             <ul className="ml-6 space-y-1 list-disc">
               <li><strong>Small effect (&lt; 0.2):</strong> Subtle difference, may not be clinically significant</li>
@@ -374,6 +428,18 @@ export const PatternsPage = () => {
               <strong>Sample Size</strong> shows how many migraine days were analyzed. More migraine days
               generally lead to more reliable patterns, but the effect size matters more than quantity.
             </p>
+            <p>
+              <strong>Lag Profile</strong> compares each wearable metric from 3 days before a migraine up to
+              the migraine day itself, since changes often start 24-72 hours before an attack. The pattern's
+              averages and threshold come from the day offset with the largest effect.
+            </p>
+            <p>
+              <strong>Odds Ratios</strong> are used for lifestyle factors from the daily check-in (caffeine,
+              alcohol, skipped meals, sleep, ...) and for trigger tags. An odds ratio above 1 means migraine
+              days were more likely when the factor was present; if the 95% confidence interval includes 1
+              the difference may be chance. Each factor is checked on the same day, the previous day and
+              the 48 hours before, and the window with the strongest evidence is shown.
+            </p>
             <p>
               <strong>Threshold Values</strong> are calculated based on your personal data. When a metric
               crosses this threshold, it suggests increased migraine risk.
@@ -0,0 +1,293 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format, parseISO, subDays } from 'date-fns';
+import { FlaskConical } from 'lucide-react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { runRiskBacktest } from '../../api/riskAnalysisService';
+import { promptTemplateService } from '../../api/promptTemplateService';
+import { Card, CardHeader, CardTitle, CardDescription, Button, Input } from '../../components/common';
+import { MetricsGrid } from './ForecastAccuracyCard';
+import type { BacktestDay, BacktestReport } from '../../types';
+
+// ============================================
+// RISK BACKTEST CARD
+// ============================================
+
+const MAX_DAYS: Record<BacktestReport['engine'], number> = {
+  local: 366,
+  llm: 31,
+};
+
+const LOOKBACK_OPTIONS = [
+  { value: 24, label: '24 hours' },
+  { value: 72, label: '3 days' },
+  { value: 168, label: '7 days' },
+];
+
+const HORIZON_OPTIONS = [6, 12, 24, 72];
+
+interface BacktestPoint {
+  date: string;
+  label: string;
+  risk: number | null;
+  migraine: number; // 100 when a migraine followed so the bar spans the chart
+  day: BacktestDay;
+}
+
+interface BacktestTooltipProps {
+  active?: boolean;
+  payload?: { payload: BacktestPoint }[];
+}
+
+// Custom tooltip
+const BacktestTooltip = ({ active, payload }: BacktestTooltipProps) => {
+  if (active && payload && payload.length) {
+    const { day } = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+        <p className="text-sm font-medium text-gray-900">{format(parseISO(day.date), 'EEE, MMM d')}</p>
+        <p className="text-sm text-gray-600">
+          {day.status === 'ok' ? (
+            <>
+              Predicted risk: <span className="font-semibold">{day.riskLevel}%</span> ({day.riskCategory})
+            </>
+          ) : day.status === 'no_data' ? (
+            'No wearable data in the window'
+          ) : (
+            'AI response could not be read'
+          )}
+        </p>
+        <p className="text-xs text-gray-500">{day.patternsCount} correlations known at the time</p>
+        {day.outcome && <p className="text-sm font-medium text-red-600">Migraine followed</p>}
+      </div>
+    );
+  }
+  return null;
+};
+
+/**
+ * Risk Backtest Card Component
+ * Features:
+ * - Replays daily forecasts over a past date range with the local model or the AI agent
+ * - Each day only uses the wearable data and correlations known at its forecast time
+ * - Predicted risk per day plotted against the migraines that followed
+ * - Hit rate, false alarms, Brier score and AUC for the replayed forecasts
+ */
+const RiskBacktestCard = () => {
+  const [engine, setEngine] = useState<BacktestReport['engine']>('local');
+  const [startDate, setStartDate] = useState(() => format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(() => format(subDays(new Date(), 1), 'yyyy-MM-dd'));
+  const [hour, setHour] = useState(8);
+  const [templateId, setTemplateId] = useState('');
+  const [lookbackHours, setLookbackHours] = useState(24);
+  const [horizonHours, setHorizonHours] = useState(12);
+
+  // Prompt template versions can be replayed to compare them on the same days
+  const { data: promptLibrary } = useQuery({
+    queryKey: ['prompt-templates'],
+    queryFn: () => promptTemplateService.getLibrary(),
+    enabled: engine === 'llm',
+  });
+
+  const backtestMutation = useMutation({
+    mutationFn: () =>
+      runRiskBacktest({
+        startDate,
+        endDate,
+        engine,
+        hour,
+        lookbackHours,
+        horizonHours,
+        templateId: engine === 'llm' && templateId ? templateId : undefined,
+      }),
+  });
+
+  const rangeDays = startDate && endDate
+    ? Math.round((parseISO(endDate).getTime() - parseISO(startDate).getTime()) / (24 * 60 * 60 * 1000)) + 1
+    : 0;
+  const rangeError = rangeDays <= 0
+    ? 'The start date must be before the end date.'
+    : rangeDays > MAX_DAYS[engine]
+      ? `The ${engine === 'llm' ? 'AI agent' : 'local model'} can replay at most ${MAX_DAYS[engine]} days.`
+      : null;
+
+  const report = backtestMutation.data;
+  const data: BacktestPoint[] = (report?.days ?? []).map((day) => ({
+    date: day.date,
+    label: format(parseISO(day.date), 'MMM d'),
+    risk: day.status === 'ok' ? (day.riskLevel ?? null) : null,
+    migraine: day.outcome ? 100 : 0,
+    day,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" />
+          Backtest Risk Predictions
+        </CardTitle>
+        <CardDescription>
+          Replay past days as if each forecast had been made at the time, using only the data and correlations
+          known then, and see how the predictions would have matched your migraines.
+        </CardDescription>
+      </CardHeader>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+          <Input type="date" label="From" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          <Input type="date" label="To" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Forecast hour (local time)</label>
+            <select
+              value={hour}
+              onChange={(e) => setHour(parseInt(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              {Array.from({ length: 24 }, (_, value) => (
+                <option key={value} value={value}>
+                  {value.toString().padStart(2, '0')}:00
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Engine</label>
+            <select
+              value={engine}
+              onChange={(e) => setEngine(e.target.value as BacktestReport['engine'])}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              <option value="local">Local model</option>
+              <option value="llm">AI agent</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Data before forecast</label>
+            <select
+              value={lookbackHours}
+              onChange={(e) => setLookbackHours(parseInt(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              {LOOKBACK_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Forecast horizon</label>
+            <select
+              value={horizonHours}
+              onChange={(e) => setHorizonHours(parseInt(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              {HORIZON_OPTIONS.map((value) => (
+                <option key={value} value={value}>Next {value} hours</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {engine === 'llm' && promptLibrary && promptLibrary.templates.length > 0 && (
+          <div className="sm:w-1/2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Prompt template</label>
+            <select
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              <option value="">Active template</option>
+              {promptLibrary.templates.map((template) => (
+                <option key={template.id} value={template.id}>{template.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button
+            variant="primary"
+            onClick={() => backtestMutation.mutate()}
+            disabled={!!rangeError || backtestMutation.isPending}
+          >
+            {backtestMutation.isPending ? 'Replaying...' : 'Run Backtest'}
+          </Button>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {rangeError ??
+              (engine === 'llm'
+                ? `Makes one AI request per day (${rangeDays} days); this can take a few minutes.`
+                : `${rangeDays} days will be replayed.`)}
+          </p>
+        </div>
+
+        {backtestMutation.isError && (
+          <div className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg">
+            <p className="font-semibold mb-1">The backtest failed</p>
+            <p className="text-xs">
+              {engine === 'llm'
+                ? 'Check that the AI provider is configured on the server, or try a shorter range.'
+                : 'Please check the date range and try again.'}
+            </p>
+          </div>
+        )}
+
+        {report && (
+          report.metrics.forecasts === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No day in this range could be scored. Days need wearable data in the 24 hours before the forecast hour
+              {report.skipped.pending > 0 ? `, and ${report.skipped.pending} recent days are still within the forecast horizon` : ''}.
+            </p>
+          ) : (
+            <>
+              <MetricsGrid metrics={report.metrics} />
+
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={data}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="label" stroke="#6b7280" style={{ fontSize: '12px' }} minTickGap={16} />
+                    <YAxis domain={[0, 100]} stroke="#6b7280" style={{ fontSize: '12px' }} unit="%" />
+                    <Tooltip content={<BacktestTooltip />} />
+                    <Legend />
+                    <Bar dataKey="migraine" name="Migraine followed" fill="#fca5a5" barSize={8} />
+                    <Line
+                      type="monotone"
+                      dataKey="risk"
+                      name="Replayed risk"
+                      stroke="#6366f1"
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {report.metrics.forecasts} days scored
+                {report.skipped.noData > 0 ? `, ${report.skipped.noData} without wearable data` : ''}
+                {report.skipped.unparseable > 0 ? `, ${report.skipped.unparseable} with unreadable AI responses` : ''}
+                {report.skipped.pending > 0 ? `, ${report.skipped.pending} still within the forecast horizon` : ''}. A
+                forecast counts as followed by a migraine when one starts or a migraine day is marked within{' '}
+                {report.horizonHours} hours. Forecasts are made at {String(report.hour).padStart(2, '0')}:00 ({report.timezone}).
+                {report.promptTemplateVersion ? ` Prompt template: ${report.promptTemplateVersion}.` : ''} Backtest results
+                are not saved.
+              </p>
+            </>
+          )
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default RiskBacktestCard;
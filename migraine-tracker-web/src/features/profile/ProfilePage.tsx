@@ -49,8 +49,15 @@ const profileSchema = z.object({
     'basilar-type-aura',
     'other',
   ]).optional(),
+  timezone: z.string().optional(),
 });
 
+// Timezone the browser runs in, suggested when the profile still has the default
+const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// IANA timezones known to the browser (not every browser lists UTC)
+const TIMEZONES = [...new Set(['UTC', ...Intl.supportedValuesOf('timeZone')])];
+
 type ProfileFormData = z.infer<typeof profileSchema>;
 
 export const ProfilePage = () => {
@@ -104,6 +111,7 @@ export const ProfilePage = () => {
         experiencesParesthesia: profile.experiencesParesthesia,
         familyHistory: profile.familyHistory,
         diagnosedType: profile.diagnosedType,
+        timezone: profile.timezone,
       });
     }
   }, [profile, reset]);
@@ -581,6 +589,28 @@ export const ProfilePage = () => {
                   <option value="other">Other</option>
                 </select>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Timezone
+                </label>
+                <select
+                  {...register('timezone')}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100 dark:disabled:bg-gray-800 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  disabled={isLoading}
+                >
+                  {[...new Set([profile?.timezone || 'UTC', ...TIMEZONES])].map((timezone) => (
+                    <option key={timezone} value={timezone}>{timezone.replace(/_/g, ' ')}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  Days in the calendar, summaries and statistics follow this timezone, and imported
+                  timestamps without a zone are read in it.
+                  {BROWSER_TIMEZONE && profile?.timezone !== BROWSER_TIMEZONE && (
+                    <> Your device is set to {BROWSER_TIMEZONE.replace(/_/g, ' ')}.</>
+                  )}
+                </p>
+              </div>
             </div>
 
             {/* Action Button */}
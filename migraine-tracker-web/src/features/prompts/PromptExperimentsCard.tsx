@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { FlaskConical, Play, Square } from 'lucide-react';
+import { promptTemplateService } from '../../api/promptTemplateService';
+import { MetricsGrid } from '../patterns/ForecastAccuracyCard';
+import { Card, CardHeader, CardTitle, CardDescription, Button, Input } from '../../components/common';
+import type { PromptExperimentWithResults, PromptTemplate, PromptVariant } from '../../types';
+
+// ============================================
+// PROMPT EXPERIMENTS CARD
+// ============================================
+
+const selectClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm';
+
+const VARIANTS: PromptVariant[] = ['A', 'B'];
+
+interface ExperimentResultsProps {
+  experiment: PromptExperimentWithResults;
+  onStop: (id: string) => void;
+  isStopping: boolean;
+}
+
+const ExperimentResults = ({ experiment, onStop, isStopping }: ExperimentResultsProps) => (
+  <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+    <div className="flex items-start justify-between gap-3">
+      <div>
+        <p className="font-semibold text-gray-900 dark:text-gray-100">
+          {experiment.name}
+          <span
+            className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+              experiment.status === 'running'
+                ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+            }`}
+          >
+            {experiment.status}
+          </span>
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {format(new Date(experiment.startedAt), 'MMM d, yyyy')}
+          {experiment.stoppedAt ? ` – ${format(new Date(experiment.stoppedAt), 'MMM d, yyyy')}` : ' – now'}
+          {` · ${100 - experiment.splitPercent}% A / ${experiment.splitPercent}% B`}
+        </p>
+      </div>
+      {experiment.status === 'running' && (
+        <Button
+          variant="outline"
+          size="sm"
+          leftIcon={<Square size={14} />}
+          onClick={() => onStop(experiment.id)}
+          disabled={isStopping}
+        >
+          Stop
+        </Button>
+      )}
+    </div>
+
+    {VARIANTS.map((variant) => (
+      <div key={variant}>
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+          {variant}: {variant === 'A' ? experiment.templateA.label : experiment.templateB.label}
+          {experiment.results.pending[variant] > 0 && (
+            <span className="font-normal text-gray-500 dark:text-gray-400">
+              {' '}({experiment.results.pending[variant]} pending)
+            </span>
+          )}
+        </h4>
+        <MetricsGrid metrics={experiment.results.variants[variant]} />
+      </div>
+    ))}
+  </div>
+);
+
+interface PromptExperimentsCardProps {
+  templates: PromptTemplate[];
+}
+
+/**
+ * Prompt Experiments Card Component
+ * Features:
+ * - Start an A/B test between two template versions with an adjustable split
+ * - Per-arm forecast accuracy (hit rate, false alarms, Brier score, AUC)
+ * - Stop the running experiment
+ */
+const PromptExperimentsCard = ({ templates }: PromptExperimentsCardProps) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [templateAId, setTemplateAId] = useState('');
+  const [templateBId, setTemplateBId] = useState('');
+  const [splitPercent, setSplitPercent] = useState(50);
+
+  const { data: experiments } = useQuery({
+    queryKey: ['prompt-experiments'],
+    queryFn: () => promptTemplateService.getExperiments(),
+  });
+
+  const startMutation = useMutation({
+    mutationFn: () => promptTemplateService.startExperiment({ name: name.trim(), templateAId, templateBId, splitPercent }),
+    onSuccess: () => {
+      setName('');
+      queryClient.invalidateQueries({ queryKey: ['prompt-experiments'] });
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: (id: string) => promptTemplateService.stopExperiment(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['prompt-experiments'] }),
+  });
+
+  const hasRunning = experiments?.some((experiment) => experiment.status === 'running');
+  const canStart = !!name.trim() && !!templateAId && !!templateBId && templateAId !== templateBId;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" />
+          A/B Experiments
+        </CardTitle>
+        <CardDescription>
+          While an experiment runs, each AI analysis randomly uses template A or B. Compare the arms once enough
+          forecasts have been checked against what happened.
+        </CardDescription>
+      </CardHeader>
+
+      <div className="space-y-6">
+        {!hasRunning && (
+          templates.length < 2 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Save at least two template versions to start an experiment.
+            </p>
+          ) : (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                startMutation.mutate();
+              }}
+            >
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Input label="Experiment name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Template A</label>
+                  <select value={templateAId} onChange={(e) => setTemplateAId(e.target.value)} className={selectClassName}>
+                    <option value="">Select a version</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>{template.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Template B</label>
+                  <select value={templateBId} onChange={(e) => setTemplateBId(e.target.value)} className={selectClassName}>
+                    <option value="">Select a version</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>{template.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Share using B</label>
+                  <span className="text-sm font-bold text-gray-900 dark:text-gray-100">{splitPercent}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="10"
+                  max="90"
+                  step="10"
+                  value={splitPercent}
+                  onChange={(e) => setSplitPercent(parseInt(e.target.value))}
+                  className="w-full h-1.5 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-600"
+                />
+              </div>
+
+              {startMutation.isError && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {(startMutation.error as Error)?.message || 'Failed to start experiment'}
+                </p>
+              )}
+
+              <Button
+                type="submit"
+                variant="primary"
+                leftIcon={<Play size={18} />}
+                disabled={!canStart || startMutation.isPending}
+              >
+                Start Experiment
+              </Button>
+            </form>
+          )
+        )}
+
+        {experiments?.map((experiment) => (
+          <ExperimentResults
+            key={experiment.id}
+            experiment={experiment}
+            onStop={(id) => stopMutation.mutate(id)}
+            isStopping={stopMutation.isPending}
+          />
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default PromptExperimentsCard;
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Save, X } from 'lucide-react';
+import { promptTemplateService } from '../../api/promptTemplateService';
+import { Button, Input } from '../../components/common';
+import type { PromptTemplateVariable } from '../../types';
+
+// ============================================
+// PROMPT TEMPLATE EDITOR
+// ============================================
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+// Same checks as the API, so problems show while typing
+const validateBody = (body: string, variables: PromptTemplateVariable[]) => {
+  if (!body.trim()) return ['Template body is required'];
+
+  const known = new Set(variables.map((variable) => variable.name));
+  const used = [...body.matchAll(VARIABLE_PATTERN)].map((match) => match[1]);
+  return [
+    ...[...new Set(used)].filter((name) => !known.has(name)).map((name) => `Unknown variable {{${name}}}`),
+    ...variables
+      .filter((variable) => variable.required && !used.includes(variable.name))
+      .map((variable) => `Missing required variable {{${variable.name}}}`),
+  ];
+};
+
+interface PromptTemplateEditorProps {
+  initialName: string;
+  initialBody: string;
+  existingNames: string[];
+  variables: PromptTemplateVariable[];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Prompt Template Editor Component
+ * Features:
+ * - Saving under an existing name creates that template's next version
+ * - Variable reference with click-to-insert
+ * - Live validation of unknown and missing required variables
+ */
+const PromptTemplateEditor = ({
+  initialName,
+  initialBody,
+  existingNames,
+  variables,
+  onSaved,
+  onCancel,
+}: PromptTemplateEditorProps) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(initialName);
+  const [body, setBody] = useState(initialBody);
+  const [notes, setNotes] = useState('');
+
+  const errors = validateBody(body, variables);
+  const trimmedName = name.trim();
+  const isNewVersion = existingNames.includes(trimmedName);
+
+  const saveMutation = useMutation({
+    mutationFn: () => promptTemplateService.save({ name: trimmedName, body, notes: notes.trim() || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prompt-templates'] });
+      onSaved();
+    },
+  });
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate();
+      }}
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Template name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          list="prompt-template-names"
+          maxLength={100}
+          helperText={
+            trimmedName
+              ? isNewVersion
+                ? `Saves a new version of "${trimmedName}"`
+                : 'Saves version 1 of a new template'
+              : undefined
+          }
+        />
+        <datalist id="prompt-template-names">
+          {existingNames.map((existing) => (
+            <option key={existing} value={existing} />
+          ))}
+        </datalist>
+        <Input
+          label="Change notes"
+          placeholder="What changed and why"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Template</label>
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={18}
+          spellCheck={false}
+          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono text-xs"
+        />
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">Variables (click to append)</p>
+        <div className="flex flex-wrap gap-2">
+          {variables.map((variable) => (
+            <button
+              key={variable.name}
+              type="button"
+              title={variable.description}
+              onClick={() => setBody((prev) => `${prev}{{${variable.name}}}`)}
+              className="px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-xs font-mono text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              {`{{${variable.name}}}`}
+              {variable.required && <span className="text-red-600 dark:text-red-400"> *</span>}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 dark:text-red-400 list-disc list-inside">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      {saveMutation.isError && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {(saveMutation.error as Error)?.message || 'Failed to save template'}
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          type="submit"
+          variant="primary"
+          leftIcon={<Save size={18} />}
+          disabled={!trimmedName || errors.length > 0 || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? 'Saving...' : isNewVersion ? 'Save New Version' : 'Save Template'}
+        </Button>
+        <Button type="button" variant="ghost" leftIcon={<X size={18} />} onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CheckCircle2, FileText, Pencil, Plus, Trash2 } from 'lucide-react';
+import { promptTemplateService } from '../../api/promptTemplateService';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import PromptExperimentsCard from './PromptExperimentsCard';
+import {
+  Layout,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Loading,
+  ErrorMessage,
+  Button,
+  ConfirmDialog,
+} from '../../components/common';
+import type { PromptTemplate } from '../../types';
+
+// ============================================
+// PROMPT TEMPLATES PAGE
+// ============================================
+
+interface EditorSource {
+  key: string;
+  name: string;
+  body: string;
+}
+
+const ActiveBadge = () => (
+  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+    <CheckCircle2 size={12} />
+    Active
+  </span>
+);
+
+/**
+ * Prompt Templates Page
+ * Features:
+ * - Versioned AI risk prompt templates grouped by name
+ * - New versions start from the built-in template or any saved version
+ * - Choose the active template (or the built-in one)
+ * - A/B experiments with per-arm forecast accuracy
+ */
+export const PromptTemplatesPage = () => {
+  const queryClient = useQueryClient();
+  const [editorSource, setEditorSource] = useState<EditorSource | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<PromptTemplate | null>(null);
+
+  const { data: library, isLoading, error, refetch } = useQuery({
+    queryKey: ['prompt-templates'],
+    queryFn: () => promptTemplateService.getLibrary(),
+  });
+
+  const invalidateLibrary = () => queryClient.invalidateQueries({ queryKey: ['prompt-templates'] });
+
+  const activateMutation = useMutation({
+    mutationFn: (id: string) => promptTemplateService.activate(id),
+    onSuccess: invalidateLibrary,
+  });
+
+  const builtInMutation = useMutation({
+    mutationFn: () => promptTemplateService.activateBuiltIn(),
+    onSuccess: invalidateLibrary,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => promptTemplateService.delete(id),
+    onSuccess: () => {
+      setTemplateToDelete(null);
+      invalidateLibrary();
+    },
+  });
+
+  const templates = library?.templates ?? [];
+  const names = [...new Set(templates.map((template) => template.name))];
+
+  const openEditor = (name: string, body: string) =>
+    setEditorSource({ key: `${name}-${Date.now()}`, name, body });
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Prompt Templates</h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              Versioned prompts for the AI risk analysis. Every assessment records the version it used.
+            </p>
+          </div>
+          {library && !editorSource && (
+            <Button variant="primary" leftIcon={<Plus size={18} />} onClick={() => openEditor('', library.builtIn.body)}>
+              New Template
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <Loading text="Loading prompt templates..." />
+        ) : error || !library ? (
+          <ErrorMessage message="Failed to load prompt templates" onRetry={() => refetch()} />
+        ) : (
+          <>
+            {editorSource && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Edit Template</CardTitle>
+                  <CardDescription>Saved versions are never changed; saving creates a new version.</CardDescription>
+                </CardHeader>
+                <PromptTemplateEditor
+                  key={editorSource.key}
+                  initialName={editorSource.name}
+                  initialBody={editorSource.body}
+                  existingNames={names}
+                  variables={library.variables}
+                  onSaved={() => setEditorSource(null)}
+                  onCancel={() => setEditorSource(null)}
+                />
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="w-5 h-5" />
+                  Templates
+                </CardTitle>
+                <CardDescription>
+                  The active template is used for AI analyses and scheduled forecasts while no experiment is running.
+                </CardDescription>
+              </CardHeader>
+
+              <div className="space-y-3">
+                {/* Built-in */}
+                <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">{library.builtIn.label}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Built-in</span>
+                    {library.builtIn.isActive && <ActiveBadge />}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<Pencil size={14} />}
+                      onClick={() => openEditor('', library.builtIn.body)}
+                    >
+                      Copy
+                    </Button>
+                    {!library.builtIn.isActive && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => builtInMutation.mutate()}
+                        disabled={builtInMutation.isPending}
+                      >
+                        Use
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {templates.map((template) => (
+                  <div key={template.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                      <button
+                        type="button"
+                        className="text-left"
+                        onClick={() => setExpandedId(expandedId === template.id ? null : template.id)}
+                      >
+                        <span className="font-medium text-gray-900 dark:text-gray-100">{template.label}</span>
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                          {format(new Date(template.createdAt), 'MMM d, yyyy HH:mm')}
+                        </span>
+                        {template.isActive && <span className="ml-2"><ActiveBadge /></span>}
+                        {template.notes && (
+                          <span className="block text-sm text-gray-600 dark:text-gray-400">{template.notes}</span>
+                        )}
+                      </button>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          leftIcon={<Pencil size={14} />}
+                          onClick={() => openEditor(template.name, template.body)}
+                        >
+                          New Version
+                        </Button>
+                        {!template.isActive && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => activateMutation.mutate(template.id)}
+                            disabled={activateMutation.isPending}
+                          >
+                            Use
+                          </Button>
+                        )}
+                        <button
+                          onClick={() => setTemplateToDelete(template)}
+                          className="p-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded"
+                          aria-label="Delete template version"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </div>
+                    {expandedId === template.id && (
+                      <pre className="mt-3 p-3 bg-gray-50 dark:bg-gray-900 rounded text-xs text-gray-800 dark:text-gray-200 whitespace-pre-wrap max-h-96 overflow-y-auto">
+                        {template.body}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+
+                {templates.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    No saved templates yet. Copy the built-in template to start your first version.
+                  </p>
+                )}
+              </div>
+            </Card>
+
+            <PromptExperimentsCard templates={templates} />
+          </>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!templateToDelete}
+        onClose={() => {
+          setTemplateToDelete(null);
+          deleteMutation.reset();
+        }}
+        onConfirm={() => templateToDelete && deleteMutation.mutate(templateToDelete.id)}
+        title="Delete template version"
+        message={
+          deleteMutation.isError
+            ? (deleteMutation.error as Error)?.message || 'Failed to delete template'
+            : `Delete ${templateToDelete?.label}? Assessments that used it keep its name and version.`
+        }
+        confirmLabel="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Layout>
+  );
+};
+
+export default PromptTemplatesPage;
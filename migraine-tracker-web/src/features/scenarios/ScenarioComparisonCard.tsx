@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Columns2 } from 'lucide-react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { scenarioService } from '../../api/scenarioService';
+import { Card, CardHeader, CardTitle, CardDescription, Button } from '../../components/common';
+import type { RiskScenario, ScenarioComparisonResult } from '../../types';
+
+// ============================================
+// SCENARIO COMPARISON CARD
+// ============================================
+
+const MAX_COMPARED = 4;
+const HORIZON_OPTIONS = [6, 12, 24, 72];
+
+const riskColor = (riskLevel: number) =>
+  riskLevel >= 75 ? '#DC2626' : riskLevel >= 50 ? '#EA580C' : riskLevel >= 25 ? '#F59E0B' : '#10B981';
+
+interface ResultColumnProps {
+  result: ScenarioComparisonResult;
+  recordedRisk: number | null;
+}
+
+const ResultColumn = ({ result, recordedRisk }: ResultColumnProps) => {
+  const difference = result.isSimulated && recordedRisk !== null ? result.riskLevel - recordedRisk : null;
+
+  return (
+    <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+      <p className="font-medium text-gray-900 dark:text-gray-100 truncate" title={result.name}>{result.name}</p>
+      <p className="text-3xl font-bold" style={{ color: riskColor(result.riskLevel) }}>{result.riskLevel}%</p>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {result.riskCategory} · {result.confidenceLevel} confidence
+      </p>
+      {difference !== null && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {difference === 0 ? 'Same as recorded data' : `${difference > 0 ? '+' : ''}${difference} points vs recorded data`}
+        </p>
+      )}
+      {result.factors.length > 0 ? (
+        <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+          {result.factors.map((factor) => (
+            <li key={factor.feature}>
+              <span className={factor.contribution > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                {factor.contribution > 0 ? '▲' : '▼'}
+              </span>{' '}
+              {factor.description}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No data points to explain the score.</p>
+      )}
+    </div>
+  );
+};
+
+interface ScenarioComparisonCardProps {
+  scenarios: RiskScenario[];
+}
+
+/**
+ * Scenario Comparison Card Component
+ * Features:
+ * - Pick up to four saved scenarios and score them next to the recorded data
+ * - Same correlations and forecast horizon for every column
+ * - Risk per scenario as a bar chart plus the factors that moved each score
+ * - Comparisons are not saved to the risk history
+ */
+const ScenarioComparisonCard = ({ scenarios }: ScenarioComparisonCardProps) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [horizonHours, setHorizonHours] = useState(12);
+
+  // Deleted scenarios drop out of the selection
+  const availableIds = selectedIds.filter((id) => scenarios.some((scenario) => scenario.id === id));
+
+  const compareMutation = useMutation({
+    mutationFn: () => scenarioService.compare(availableIds, { horizonHours }),
+  });
+
+  const toggle = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((existing) => existing !== id) : [...prev, id]));
+
+  const comparison = compareMutation.data;
+  const recordedRisk = comparison?.results.find((result) => !result.isSimulated)?.riskLevel ?? null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns2 className="w-5 h-5" />
+          Compare Scenarios
+        </CardTitle>
+        <CardDescription>
+          Score saved scenarios side by side with your recorded data using the local model. Comparisons are not saved.
+        </CardDescription>
+      </CardHeader>
+
+      <div className="space-y-4">
+        {scenarios.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Save a scenario to compare it with your recorded data.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3">
+              {scenarios.map((scenario) => {
+                const isSelected = availableIds.includes(scenario.id);
+                return (
+                  <label key={scenario.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      disabled={!isSelected && availableIds.length >= MAX_COMPARED}
+                      onChange={() => toggle(scenario.id)}
+                      className="w-4 h-4 rounded"
+                    />
+                    {scenario.name}
+                  </label>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+              <div className="sm:w-48">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Forecast horizon</label>
+                <select
+                  value={horizonHours}
+                  onChange={(e) => setHorizonHours(parseInt(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                >
+                  {HORIZON_OPTIONS.map((value) => (
+                    <option key={value} value={value}>Next {value} hours</option>
+                  ))}
+                </select>
+              </div>
+              <Button
+                variant="primary"
+                onClick={() => compareMutation.mutate()}
+                disabled={availableIds.length === 0 || compareMutation.isPending}
+              >
+                {compareMutation.isPending ? 'Comparing...' : 'Compare'}
+              </Button>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Select up to {MAX_COMPARED} scenarios.</p>
+            </div>
+          </>
+        )}
+
+        {compareMutation.isError && (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            {(compareMutation.error as Error)?.message || 'Failed to compare scenarios'}
+          </p>
+        )}
+
+        {comparison && (
+          <>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={comparison.results} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                  <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+                  <Tooltip formatter={(value) => [`${value}%`, `${comparison.horizonHours}-hour risk`]} />
+                  <Bar dataKey="riskLevel" radius={[4, 4, 0, 0]}>
+                    {comparison.results.map((result) => (
+                      <Cell key={result.scenarioId ?? 'recorded'} fill={riskColor(result.riskLevel)} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+              {comparison.results.map((result) => (
+                <ResultColumn key={result.scenarioId ?? 'recorded'} result={result} recordedRisk={recordedRisk} />
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Risk of a migraine in the next {comparison.horizonHours} hours. Each scenario replaces the last 24 hours of
+              readings; everything else (correlations, baseline, history) is the same for every column.
+            </p>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default ScenarioComparisonCard;
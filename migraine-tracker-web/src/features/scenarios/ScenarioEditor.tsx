@@ -0,0 +1,471 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, subHours } from 'date-fns';
+import { Eye, Plus, Save, Trash2, X } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { scenarioService } from '../../api/scenarioService';
+import { Button, Input } from '../../components/common';
+import type {
+  RiskScenario,
+  ScenarioDefinition,
+  ScenarioMetric,
+  ScenarioPreview,
+  ScenarioReading,
+  ScenarioSegment,
+} from '../../types';
+
+// ============================================
+// SCENARIO EDITOR
+// ============================================
+
+const SCENARIO_HOURS = 24;
+
+// Same ranges as the API
+const METRICS: Record<ScenarioMetric, { label: string; unit: string; min: number; max: number; step: number; field: keyof ScenarioReading }> = {
+  stress: { label: 'Stress', unit: '', min: 0, max: 100, step: 1, field: 'stress' },
+  recovery: { label: 'Recovery', unit: '%', min: 0, max: 100, step: 1, field: 'recovery' },
+  hrv: { label: 'HRV', unit: 'ms', min: 0, max: 300, step: 1, field: 'hrv' },
+  heartRate: { label: 'Heart rate', unit: 'bpm', min: 30, max: 220, step: 1, field: 'heartRate' },
+  sleepEfficiency: { label: 'Sleep efficiency', unit: '%', min: 0, max: 100, step: 1, field: 'sleepEfficiency' },
+  skinTemp: { label: 'Skin temperature', unit: '°C', min: 25, max: 42, step: 0.1, field: 'skinTemperature' },
+};
+
+const METRIC_KEYS = Object.keys(METRICS) as ScenarioMetric[];
+
+const PRESETS: { label: string; definition: ScenarioDefinition }[] = [
+  {
+    label: 'High risk day',
+    definition: {
+      base: 'constant',
+      constants: { stress: 65, recovery: 25, hrv: 25, heartRate: 85, sleepEfficiency: 60, skinTemp: 34.5 },
+      segments: [],
+    },
+  },
+  {
+    label: 'Moderate risk day',
+    definition: {
+      base: 'constant',
+      constants: { stress: 35, recovery: 55, hrv: 40, heartRate: 70, sleepEfficiency: 75, skinTemp: 33.5 },
+      segments: [],
+    },
+  },
+  {
+    label: 'Low risk day',
+    definition: {
+      base: 'constant',
+      constants: { stress: 20, recovery: 75, hrv: 55, heartRate: 60, sleepEfficiency: 90, skinTemp: 33 },
+      segments: [],
+    },
+  },
+  {
+    label: 'Stress ramps up over the last 8 hours',
+    definition: {
+      base: 'recorded',
+      constants: {},
+      segments: [{ metric: 'stress', startHour: 16, endHour: 24, startValue: 30, endValue: 80 }],
+    },
+  },
+  {
+    label: 'Poor sleep last night',
+    definition: {
+      base: 'recorded',
+      constants: {},
+      segments: [{ metric: 'sleepEfficiency', startHour: 0, endHour: 24, startValue: 70 }],
+    },
+  },
+];
+
+const SELECT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm';
+
+// Hour 24 is the forecast time; earlier hours are labelled with the clock time they would fall on now
+const hourLabel = (hour: number, forecastAt: Date) =>
+  hour === SCENARIO_HOURS
+    ? 'Forecast time'
+    : `${format(subHours(forecastAt, SCENARIO_HOURS - hour), 'HH:mm')} (-${SCENARIO_HOURS - hour}h)`;
+
+interface SegmentRowProps {
+  segment: ScenarioSegment;
+  forecastAt: Date;
+  onChange: (segment: ScenarioSegment) => void;
+  onRemove: () => void;
+}
+
+const SegmentRow = ({ segment, forecastAt, onChange, onRemove }: SegmentRowProps) => {
+  const metric = METRICS[segment.metric];
+  const isRamp = segment.endValue !== undefined;
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+      <div>
+        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Metric</label>
+        <select
+          value={segment.metric}
+          onChange={(e) => {
+            const next = e.target.value as ScenarioMetric;
+            const { min, max } = METRICS[next];
+            const clamp = (value: number) => Math.min(max, Math.max(min, value));
+            onChange({
+              ...segment,
+              metric: next,
+              startValue: clamp(segment.startValue),
+              ...(isRamp ? { endValue: clamp(segment.endValue as number) } : {}),
+            });
+          }}
+          className={SELECT_CLASS}
+        >
+          {METRIC_KEYS.map((key) => (
+            <option key={key} value={key}>{METRICS[key].label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+        <select
+          value={segment.startHour}
+          onChange={(e) => {
+            const startHour = parseInt(e.target.value);
+            onChange({ ...segment, startHour, endHour: Math.max(segment.endHour, startHour + 1) });
+          }}
+          className={SELECT_CLASS}
+        >
+          {Array.from({ length: SCENARIO_HOURS }, (_, hour) => (
+            <option key={hour} value={hour}>{hourLabel(hour, forecastAt)}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Until</label>
+        <select
+          value={segment.endHour}
+          onChange={(e) => onChange({ ...segment, endHour: parseInt(e.target.value) })}
+          className={SELECT_CLASS}
+        >
+          {Array.from({ length: SCENARIO_HOURS - segment.startHour }, (_, index) => segment.startHour + index + 1).map((hour) => (
+            <option key={hour} value={hour}>{hourLabel(hour, forecastAt)}</option>
+          ))}
+        </select>
+      </div>
+      <Input
+        type="number"
+        label={isRamp ? `Start ${metric.unit}`.trim() : `Value ${metric.unit}`.trim()}
+        min={metric.min}
+        max={metric.max}
+        step={metric.step}
+        value={Number.isFinite(segment.startValue) ? segment.startValue : ''}
+        onChange={(e) => onChange({ ...segment, startValue: parseFloat(e.target.value) })}
+      />
+      {isRamp ? (
+        <Input
+          type="number"
+          label={`End ${metric.unit}`.trim()}
+          min={metric.min}
+          max={metric.max}
+          step={metric.step}
+          value={Number.isFinite(segment.endValue) ? segment.endValue : ''}
+          onChange={(e) => onChange({ ...segment, endValue: parseFloat(e.target.value) })}
+        />
+      ) : (
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange({ ...segment, endValue: segment.startValue })}>
+          Make ramp
+        </Button>
+      )}
+      <div className="flex gap-2">
+        {isRamp && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ metric: segment.metric, startHour: segment.startHour, endHour: segment.endHour, startValue: segment.startValue })}
+          >
+            Hold
+          </Button>
+        )}
+        <button
+          type="button"
+          onClick={onRemove}
+          className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded"
+          aria-label="Remove segment"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface PreviewChartProps {
+  preview: ScenarioPreview;
+  metric: ScenarioMetric;
+}
+
+const toPoints = (readings: ScenarioReading[], field: keyof ScenarioReading) =>
+  readings
+    .filter((reading) => reading[field] !== null)
+    .map((reading) => ({ time: new Date(reading.timestamp).getTime(), value: reading[field] as number }));
+
+const PreviewChart = ({ preview, metric }: PreviewChartProps) => {
+  const { field, label } = METRICS[metric];
+  const scenarioPoints = toPoints(preview.wearableData, field);
+  const recordedPoints = toPoints(preview.recordedData, field);
+
+  if (scenarioPoints.length === 0 && recordedPoints.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No {label.toLowerCase()} values in this scenario.</p>;
+  }
+
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[new Date(preview.timeRange.start).getTime(), new Date(preview.timeRange.end).getTime()]}
+            tickFormatter={(time: number) => format(time, 'HH:mm')}
+            tick={{ fontSize: 12 }}
+          />
+          <YAxis tick={{ fontSize: 12 }} />
+          <Tooltip
+            labelFormatter={(time) => format(Number(time), 'MMM d, HH:mm')}
+            formatter={(value) => [`${value}${METRICS[metric].unit ? ` ${METRICS[metric].unit}` : ''}`]}
+          />
+          <Legend />
+          <Line data={recordedPoints} dataKey="value" name="Recorded" stroke="#9CA3AF" dot={false} strokeWidth={2} />
+          <Line data={scenarioPoints} dataKey="value" name="Scenario" stroke="#7C3AED" dot={false} strokeWidth={2} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+interface ScenarioEditorProps {
+  initialScenario: RiskScenario | null; // null for a new scenario
+  onSaved: (scenario: RiskScenario) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Scenario Editor Component
+ * Features:
+ * - Start from recorded readings or fixed values, or from a preset
+ * - Segments hold a metric at a value or ramp it between two values over a range of hours
+ * - Hours shown as clock times relative to a forecast made now
+ * - Preview of the hourly series against the recorded readings, per metric
+ */
+const ScenarioEditor = ({ initialScenario, onSaved, onCancel }: ScenarioEditorProps) => {
+  const queryClient = useQueryClient();
+  const [forecastAt] = useState(() => new Date());
+  const [name, setName] = useState(initialScenario?.name ?? '');
+  const [description, setDescription] = useState(initialScenario?.description ?? '');
+  const [definition, setDefinition] = useState<ScenarioDefinition>(
+    initialScenario?.scenario ?? { base: 'recorded', constants: {}, segments: [] }
+  );
+  const [chartMetric, setChartMetric] = useState<ScenarioMetric>('stress');
+
+  const previewMutation = useMutation({
+    mutationFn: () => scenarioService.preview(definition),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const scenario = { name: name.trim(), description: description.trim() || undefined, scenario: definition };
+      return initialScenario ? scenarioService.update(initialScenario.id, scenario) : scenarioService.create(scenario);
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['risk-scenarios'] });
+      onSaved(saved);
+    },
+  });
+
+  const updateSegment = (index: number, segment: ScenarioSegment) =>
+    setDefinition((prev) => ({ ...prev, segments: prev.segments.map((existing, i) => (i === index ? segment : existing)) }));
+
+  const removeSegment = (index: number) =>
+    setDefinition((prev) => ({ ...prev, segments: prev.segments.filter((_, i) => i !== index) }));
+
+  const addSegment = () =>
+    setDefinition((prev) => ({
+      ...prev,
+      segments: [...prev.segments, { metric: 'stress', startHour: 12, endHour: SCENARIO_HOURS, startValue: 50 }],
+    }));
+
+  const setConstant = (metric: ScenarioMetric, value: string) =>
+    setDefinition((prev) => {
+      const constants = { ...prev.constants };
+      if (value === '') {
+        delete constants[metric];
+      } else {
+        constants[metric] = parseFloat(value);
+      }
+      return { ...prev, constants };
+    });
+
+  const isEmptyConstant =
+    definition.base === 'constant' && Object.keys(definition.constants).length === 0 && definition.segments.length === 0;
+  const hasMissingValue = definition.segments.some(
+    (segment) => !Number.isFinite(segment.startValue) || (segment.endValue !== undefined && !Number.isFinite(segment.endValue))
+  );
+  const cannotBuild = isEmptyConstant || hasMissingValue;
+
+  return (
+    <form
+      className="space-y-5"
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate();
+      }}
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input label="Scenario name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+        <Input
+          label="Description"
+          placeholder="What this scenario tests"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={500}
+        />
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">Start from a preset</p>
+        <div className="flex flex-wrap gap-2">
+          {PRESETS.map((preset) => (
+            <button
+              key={preset.label}
+              type="button"
+              onClick={() => {
+                setDefinition(preset.definition);
+                previewMutation.reset();
+              }}
+              className="px-3 py-1.5 text-xs rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 font-medium"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="sm:w-1/2">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Starting point</label>
+        <select
+          value={definition.base}
+          onChange={(e) => setDefinition((prev) => ({ ...prev, base: e.target.value as ScenarioDefinition['base'] }))}
+          className={SELECT_CLASS}
+        >
+          <option value="recorded">My recorded data from the last 24 hours</option>
+          <option value="constant">Fixed values for the whole 24 hours</option>
+        </select>
+      </div>
+
+      {definition.base === 'constant' && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {METRIC_KEYS.map((metric) => (
+            <Input
+              key={metric}
+              type="number"
+              label={`${METRICS[metric].label}${METRICS[metric].unit ? ` (${METRICS[metric].unit})` : ''}`}
+              min={METRICS[metric].min}
+              max={METRICS[metric].max}
+              step={METRICS[metric].step}
+              placeholder="Not set"
+              value={definition.constants[metric] ?? ''}
+              onChange={(e) => setConstant(metric, e.target.value)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Changes over time</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Each change sets one metric for a range of hours; later changes win where they overlap.
+            </p>
+          </div>
+          <Button type="button" variant="outline" size="sm" leftIcon={<Plus size={14} />} onClick={addSegment}>
+            Add Change
+          </Button>
+        </div>
+        {definition.segments.map((segment, index) => (
+          <SegmentRow
+            key={index}
+            segment={segment}
+            forecastAt={forecastAt}
+            onChange={(next) => updateSegment(index, next)}
+            onRemove={() => removeSegment(index)}
+          />
+        ))}
+        {definition.segments.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No changes yet{definition.base === 'recorded' ? '; the scenario equals your recorded data' : ''}.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="sm:w-1/3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Preview metric</label>
+            <select
+              value={chartMetric}
+              onChange={(e) => setChartMetric(e.target.value as ScenarioMetric)}
+              className={SELECT_CLASS}
+            >
+              {METRIC_KEYS.map((metric) => (
+                <option key={metric} value={metric}>{METRICS[metric].label}</option>
+              ))}
+            </select>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            leftIcon={<Eye size={18} />}
+            onClick={() => previewMutation.mutate()}
+            disabled={cannotBuild || previewMutation.isPending}
+          >
+            {previewMutation.isPending ? 'Building...' : 'Preview'}
+          </Button>
+        </div>
+        {previewMutation.isError && (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            {(previewMutation.error as Error)?.message || 'Failed to build the preview'}
+          </p>
+        )}
+        {previewMutation.data && <PreviewChart preview={previewMutation.data} metric={chartMetric} />}
+      </div>
+
+      {saveMutation.isError && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {(saveMutation.error as Error)?.message || 'Failed to save scenario'}
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          type="submit"
+          variant="primary"
+          leftIcon={<Save size={18} />}
+          disabled={!name.trim() || cannotBuild || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Scenario'}
+        </Button>
+        <Button type="button" variant="ghost" leftIcon={<X size={18} />} onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ScenarioEditor;
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Pencil, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { scenarioService } from '../../api/scenarioService';
+import ScenarioEditor from './ScenarioEditor';
+import ScenarioComparisonCard from './ScenarioComparisonCard';
+import {
+  Layout,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Loading,
+  ErrorMessage,
+  Button,
+  ConfirmDialog,
+} from '../../components/common';
+import type { RiskScenario } from '../../types';
+
+// ============================================
+// SCENARIOS PAGE
+// ============================================
+
+interface EditorSource {
+  key: string;
+  scenario: RiskScenario | null;
+}
+
+// One-line summary of what a scenario changes
+const describeScenario = (scenario: RiskScenario) => {
+  const { base, constants, segments } = scenario.scenario;
+  const parts = [base === 'recorded' ? 'Recorded data' : `${Object.keys(constants).length} fixed values`];
+  if (segments.length > 0) {
+    parts.push(`${segments.length} change${segments.length === 1 ? '' : 's'} over time`);
+  }
+  return parts.join(', ');
+};
+
+/**
+ * Scenarios Page
+ * Features:
+ * - Saved "what-if" scenarios for the 24 hours before a forecast
+ * - Editor for time series changes (held values and ramps) with a preview
+ * - Side-by-side risk comparison of scenarios and the recorded data
+ * - Scenarios can be run from the dashboard; those assessments are stored as simulated
+ */
+export const ScenariosPage = () => {
+  const queryClient = useQueryClient();
+  const [editorSource, setEditorSource] = useState<EditorSource | null>(null);
+  const [scenarioToDelete, setScenarioToDelete] = useState<RiskScenario | null>(null);
+
+  const { data: scenarios, isLoading, error, refetch } = useQuery({
+    queryKey: ['risk-scenarios'],
+    queryFn: () => scenarioService.getScenarios(),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => scenarioService.delete(id),
+    onSuccess: () => {
+      setScenarioToDelete(null);
+      queryClient.invalidateQueries({ queryKey: ['risk-scenarios'] });
+    },
+  });
+
+  const openEditor = (scenario: RiskScenario | null) =>
+    setEditorSource({ key: `${scenario?.id ?? 'new'}-${Date.now()}`, scenario });
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">What-if Scenarios</h1>
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              Simulate how the last 24 hours could have gone and see how that changes your migraine risk.
+            </p>
+          </div>
+          {!editorSource && (
+            <Button variant="primary" leftIcon={<Plus size={18} />} onClick={() => openEditor(null)}>
+              New Scenario
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <Loading text="Loading scenarios..." />
+        ) : error || !scenarios ? (
+          <ErrorMessage message="Failed to load scenarios" onRetry={() => refetch()} />
+        ) : (
+          <>
+            {editorSource && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{editorSource.scenario ? `Edit "${editorSource.scenario.name}"` : 'New Scenario'}</CardTitle>
+                  <CardDescription>
+                    Hours run from 24 hours before the forecast up to the forecast time.
+                  </CardDescription>
+                </CardHeader>
+                <ScenarioEditor
+                  key={editorSource.key}
+                  initialScenario={editorSource.scenario}
+                  onSaved={() => setEditorSource(null)}
+                  onCancel={() => setEditorSource(null)}
+                />
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <SlidersHorizontal className="w-5 h-5" />
+                  Saved Scenarios
+                </CardTitle>
+                <CardDescription>
+                  Pick a scenario as the data source of a risk analysis on the dashboard. Those analyses are marked as
+                  simulated and kept out of your real risk history.
+                </CardDescription>
+              </CardHeader>
+
+              <div className="space-y-3">
+                {scenarios.map((scenario) => (
+                  <div
+                    key={scenario.id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+                  >
+                    <div>
+                      <span className="font-medium text-gray-900 dark:text-gray-100">{scenario.name}</span>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        Updated {format(new Date(scenario.updatedAt), 'MMM d, yyyy')}
+                      </span>
+                      {scenario.description && (
+                        <span className="block text-sm text-gray-600 dark:text-gray-400">{scenario.description}</span>
+                      )}
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{describeScenario(scenario)}</span>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <Button variant="ghost" size="sm" leftIcon={<Pencil size={14} />} onClick={() => openEditor(scenario)}>
+                        Edit
+                      </Button>
+                      <button
+                        onClick={() => setScenarioToDelete(scenario)}
+                        className="p-1.5 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded"
+                        aria-label="Delete scenario"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                {scenarios.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    No saved scenarios yet. Start one from a preset such as "Poor sleep last night".
+                  </p>
+                )}
+              </div>
+            </Card>
+
+            <ScenarioComparisonCard scenarios={scenarios} />
+          </>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!scenarioToDelete}
+        onClose={() => {
+          setScenarioToDelete(null);
+          deleteMutation.reset();
+        }}
+        onConfirm={() => scenarioToDelete && deleteMutation.mutate(scenarioToDelete.id)}
+        title="Delete scenario"
+        message={
+          deleteMutation.isError
+            ? (deleteMutation.error as Error)?.message || 'Failed to delete scenario'
+            : `Delete "${scenarioToDelete?.name}"? Assessments made from it stay marked as simulated.`
+        }
+        confirmLabel="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Layout>
+  );
+};
+
+export default ScenariosPage;
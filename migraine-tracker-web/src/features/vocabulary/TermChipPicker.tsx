@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import type { VocabularyTerm } from '../../types';
+
+// ============================================
+// TERM CHIP PICKER
+// ============================================
+
+interface TermChipPickerProps {
+  label: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  terms: VocabularyTerm[];
+  placeholder?: string;
+  helperText?: string;
+  disabled?: boolean;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Same normalization as the API (trim, collapse whitespace, lowercase)
+const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Chip-style picker for triggers and symptoms
+ * Features:
+ * - Autocomplete over canonical names and aliases
+ * - Typed aliases resolve to the canonical name
+ * - Unknown values are added as new terms (created on save)
+ * - Enter or comma adds, Backspace on an empty input removes the last chip
+ */
+export const TermChipPicker = ({
+  label,
+  value,
+  onChange,
+  terms,
+  placeholder,
+  helperText,
+  disabled = false,
+}: TermChipPickerProps) => {
+  const [input, setInput] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const selected = new Set(value.map(normalize));
+  const query = normalize(input);
+
+  // Suggestions: name or alias contains the query, most used first
+  const suggestions = terms
+    .filter(term => !selected.has(normalize(term.name)))
+    .filter(term => !query || normalize(term.name).includes(query) || term.aliases.some(alias => alias.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  // Resolve typed text to a canonical name when it matches a name or alias
+  const resolve = (text: string) => {
+    const key = normalize(text);
+    const match = terms.find(term => normalize(term.name) === key || term.aliases.includes(key));
+    return match ? match.name : text.replace(/\s+/g, ' ').trim();
+  };
+
+  const addValue = (text: string) => {
+    const name = resolve(text);
+    if (name && !selected.has(normalize(name))) {
+      onChange([...value, name]);
+    }
+    setInput('');
+    setHighlighted(0);
+  };
+
+  const removeValue = (name: string) => {
+    onChange(value.filter(item => item !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      if (isFocused && query && suggestions[highlighted]) {
+        addValue(suggestions[highlighted].name);
+      } else if (input.trim()) {
+        addValue(input);
+      }
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(index => Math.min(index + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeValue(value[value.length - 1]);
+    } else if (e.key === 'Escape') {
+      setIsFocused(false);
+    }
+  };
+
+  const isNewValue = query.length > 0 && !terms.some(term =>
+    normalize(term.name) === query || term.aliases.includes(query)
+  );
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+        {label}
+      </label>
+      <div className="relative">
+        <div
+          className={`flex flex-wrap items-center gap-2 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 focus-within:ring-2 focus-within:ring-primary-500 focus-within:border-primary-500 ${
+            disabled ? 'bg-gray-100 dark:bg-gray-800 cursor-not-allowed' : ''
+          }`}
+        >
+          {value.map(name => (
+            <span
+              key={name}
+              className="inline-flex items-center gap-1 px-2 py-1 text-sm rounded-full bg-primary-100 text-primary-800 dark:bg-primary-900/40 dark:text-primary-200"
+            >
+              {name}
+              <button
+                type="button"
+                onClick={() => removeValue(name)}
+                disabled={disabled}
+                className="hover:text-primary-600 dark:hover:text-primary-100"
+                aria-label={`Remove ${name}`}
+              >
+                <X size={14} />
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setHighlighted(0);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => {
+              setIsFocused(false);
+              if (input.trim()) addValue(input);
+            }}
+            placeholder={value.length === 0 ? placeholder : ''}
+            disabled={disabled}
+            className="flex-1 min-w-[8rem] py-1 bg-transparent text-gray-900 dark:text-gray-100 focus:outline-none text-sm"
+          />
+        </div>
+
+        {isFocused && (suggestions.length > 0 || isNewValue) && (
+          <ul className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1">
+            {suggestions.map((term, index) => (
+              <li key={term.id}>
+                <button
+                  type="button"
+                  // Prevent the input blur from firing before the click
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => addValue(term.name)}
+                  className={`w-full flex items-center justify-between px-3 py-2 text-left text-sm ${
+                    index === highlighted && query
+                      ? 'bg-primary-50 dark:bg-primary-900/30'
+                      : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <span className="text-gray-900 dark:text-gray-100">{term.name}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{term.category}</span>
+                </button>
+              </li>
+            ))}
+            {isNewValue && (
+              <li className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+                Press Enter to add "{input.trim()}" as a new term
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+      {helperText && (
+        <p className="mt-1.5 text-sm text-gray-500 dark:text-gray-400">{helperText}</p>
+      )}
+    </div>
+  );
+};
+
+export default TermChipPicker;
@@ -0,0 +1,441 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Tags, Merge, RefreshCw, Pencil, Trash2, Save, X, Plus, CheckCircle2 } from 'lucide-react';
+import { vocabularyService } from '../../api/vocabularyService';
+import {
+  Layout,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  Input,
+  Button,
+  Loading,
+  ConfirmDialog,
+} from '../../components/common';
+import type { VocabularyKind, VocabularyTerm } from '../../types';
+
+// ============================================
+// VOCABULARY PAGE
+// ============================================
+
+const selectClassName =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm';
+
+const KIND_LABELS: Record<VocabularyKind, string> = {
+  trigger: 'Triggers',
+  symptom: 'Symptoms',
+};
+
+interface TermDraft {
+  name: string;
+  category: string;
+  aliases: string; // Comma-separated while editing
+}
+
+const errorMessage = (error: unknown) =>
+  (error as Error)?.message || 'Something went wrong';
+
+// Split the comma-separated alias field
+const parseAliases = (aliases: string) =>
+  aliases.split(',').map(alias => alias.trim()).filter(Boolean);
+
+/**
+ * Vocabulary Page Component
+ * Features:
+ * - Canonical trigger and symptom terms with usage counts
+ * - Categories and aliases per term
+ * - Merge tool for spelling variants of the same trigger/symptom
+ * - One-click linking of existing free-text entries
+ */
+export const VocabularyPage = () => {
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<VocabularyKind>('trigger');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<TermDraft>({ name: '', category: 'other', aliases: '' });
+  const [newTerm, setNewTerm] = useState<TermDraft>({ name: '', category: 'other', aliases: '' });
+  const [deleteTarget, setDeleteTarget] = useState<VocabularyTerm | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Fetch vocabulary (both kinds, shared with the entry form)
+  const { data: vocabulary, isLoading } = useQuery({
+    queryKey: ['vocabulary'],
+    queryFn: () => vocabularyService.getAll(),
+  });
+
+  // Canonical names changed on entries, so entry views are refreshed too
+  const invalidateVocabulary = () => {
+    queryClient.invalidateQueries({ queryKey: ['vocabulary'] });
+    queryClient.invalidateQueries({ queryKey: ['migraines'] });
+    queryClient.invalidateQueries({ queryKey: ['migraine'] });
+    queryClient.invalidateQueries({ queryKey: ['migraine-stats'] });
+    queryClient.invalidateQueries({ queryKey: ['recent-migraines'] });
+  };
+
+  // Sync mutation
+  const syncMutation = useMutation({
+    mutationFn: () => vocabularyService.sync(),
+    onSuccess: (result) => {
+      setNotice(`Linked ${result.entriesProcessed} entries. Your vocabulary now has ${result.termCount} terms.`);
+      invalidateVocabulary();
+    },
+  });
+
+  // Merge mutation
+  const mergeMutation = useMutation({
+    mutationFn: () => vocabularyService.merge(
+      mergeTargetId,
+      selectedIds.filter(id => id !== mergeTargetId)
+    ),
+    onSuccess: (result) => {
+      setNotice(`Merged ${result.mergedTerms} terms into "${result.target.name}" (${result.affectedEntries} entries updated).`);
+      setSelectedIds([]);
+      setMergeTargetId('');
+      invalidateVocabulary();
+    },
+  });
+
+  // Create mutation
+  const createMutation = useMutation({
+    mutationFn: () => vocabularyService.create({
+      kind,
+      name: newTerm.name.trim(),
+      category: newTerm.category,
+      aliases: parseAliases(newTerm.aliases),
+    }),
+    onSuccess: () => {
+      setNewTerm({ name: '', category: 'other', aliases: '' });
+      invalidateVocabulary();
+    },
+  });
+
+  // Update mutation
+  const updateMutation = useMutation({
+    mutationFn: (id: string) => vocabularyService.update(id, {
+      name: editDraft.name.trim(),
+      category: editDraft.category,
+      aliases: parseAliases(editDraft.aliases),
+    }),
+    onSuccess: () => {
+      setEditingId(null);
+      invalidateVocabulary();
+    },
+  });
+
+  // Delete mutation
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => vocabularyService.delete(id),
+    onSuccess: (_, id) => {
+      setDeleteTarget(null);
+      setSelectedIds(ids => ids.filter(selectedId => selectedId !== id));
+      invalidateVocabulary();
+    },
+  });
+
+  const switchKind = (next: VocabularyKind) => {
+    setKind(next);
+    setSelectedIds([]);
+    setMergeTargetId('');
+    setEditingId(null);
+    setNewTerm({ name: '', category: 'other', aliases: '' });
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = selectedIds.includes(id)
+      ? selectedIds.filter(selectedId => selectedId !== id)
+      : [...selectedIds, id];
+    setSelectedIds(next);
+    // The first selected term is the default merge target
+    if (!next.includes(mergeTargetId)) setMergeTargetId(next[0] || '');
+  };
+
+  const startEditing = (term: VocabularyTerm) => {
+    setEditingId(term.id);
+    setEditDraft({ name: term.name, category: term.category, aliases: term.aliases.join(', ') });
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <Loading fullScreen text="Loading vocabulary..." />
+      </Layout>
+    );
+  }
+
+  const categories = vocabulary?.categories[kind] || {};
+  const terms = (vocabulary?.terms || []).filter(term => term.kind === kind);
+  const selectedTerms = terms.filter(term => selectedIds.includes(term.id));
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Triggers & Symptoms</h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-400">
+              Keep one name per trigger or symptom. Merge spelling variants, add aliases and group
+              terms into categories so statistics count them together.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            leftIcon={<RefreshCw size={16} />}
+            onClick={() => syncMutation.mutate()}
+            isLoading={syncMutation.isPending}
+            disabled={syncMutation.isPending}
+          >
+            Link Existing Entries
+          </Button>
+        </div>
+
+        {notice && (
+          <div className="flex items-center gap-3 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+            <CheckCircle2 className="w-5 h-5 text-green-600 dark:text-green-400" />
+            <p className="flex-1 text-sm text-green-800 dark:text-green-300">{notice}</p>
+            <button
+              onClick={() => setNotice(null)}
+              className="text-green-700 dark:text-green-400"
+              aria-label="Dismiss"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        )}
+        {(syncMutation.isError || mergeMutation.isError) && (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            {errorMessage(syncMutation.error || mergeMutation.error)}
+          </p>
+        )}
+
+        {/* Kind tabs */}
+        <div className="flex gap-2">
+          {(Object.keys(KIND_LABELS) as VocabularyKind[]).map(option => (
+            <Button
+              key={option}
+              variant={kind === option ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => switchKind(option)}
+            >
+              {KIND_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+
+        {/* Merge tool */}
+        {selectedTerms.length > 1 && (
+          <Card padding="md" className="bg-primary-50 dark:bg-primary-900/20 border-primary-200 dark:border-primary-800">
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                  Merge {selectedTerms.length} terms into
+                </label>
+                <select
+                  value={mergeTargetId}
+                  onChange={(e) => setMergeTargetId(e.target.value)}
+                  className={selectClassName}
+                >
+                  {selectedTerms.map(term => (
+                    <option key={term.id} value={term.id}>{term.name}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  The other names become aliases, and their entries are moved to this term.
+                </p>
+              </div>
+              <Button
+                variant="primary"
+                leftIcon={<Merge size={16} />}
+                onClick={() => mergeMutation.mutate()}
+                isLoading={mergeMutation.isPending}
+                disabled={mergeMutation.isPending || !mergeTargetId}
+              >
+                Merge
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {/* Terms */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Tags className="w-5 h-5" />
+              {KIND_LABELS[kind]}
+            </CardTitle>
+            <CardDescription>
+              Select two or more terms to merge them.
+            </CardDescription>
+          </CardHeader>
+          <div className="p-6">
+            {terms.length > 0 ? (
+              <div className="space-y-2">
+                {terms.map(term => (
+                  <div
+                    key={term.id}
+                    className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+                  >
+                    {editingId === term.id ? (
+                      <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_3fr_auto] gap-2 items-end">
+                        <Input
+                          label="Name"
+                          value={editDraft.name}
+                          onChange={(e) => setEditDraft({ ...editDraft, name: e.target.value })}
+                        />
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                            Category
+                          </label>
+                          <select
+                            value={editDraft.category}
+                            onChange={(e) => setEditDraft({ ...editDraft, category: e.target.value })}
+                            className={selectClassName}
+                          >
+                            {Object.entries(categories).map(([id, label]) => (
+                              <option key={id} value={id}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <Input
+                          label="Aliases"
+                          value={editDraft.aliases}
+                          onChange={(e) => setEditDraft({ ...editDraft, aliases: e.target.value })}
+                          placeholder="comma-separated"
+                        />
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="primary"
+                            onClick={() => updateMutation.mutate(term.id)}
+                            isLoading={updateMutation.isPending}
+                            disabled={updateMutation.isPending || !editDraft.name.trim()}
+                          >
+                            <Save className="w-4 h-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                        {updateMutation.isError && (
+                          <p className="md:col-span-4 text-sm text-red-600 dark:text-red-400">
+                            {errorMessage(updateMutation.error)}
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(term.id)}
+                          onChange={() => toggleSelected(term.id)}
+                          className="w-4 h-4 accent-primary-600"
+                          aria-label={`Select ${term.name}`}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium text-gray-900 dark:text-gray-100 truncate">{term.name}</p>
+                            <span className="px-2 py-0.5 text-xs rounded bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300">
+                              {categories[term.category] || term.category}
+                            </span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {term.usageCount ?? 0} {term.usageCount === 1 ? 'entry' : 'entries'}
+                            </span>
+                          </div>
+                          {term.aliases.length > 0 && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                              Also matches: {term.aliases.join(', ')}
+                            </p>
+                          )}
+                        </div>
+                        <Button variant="outline" size="sm" onClick={() => startEditing(term)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="danger" size="sm" onClick={() => setDeleteTarget(term)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                No {KIND_LABELS[kind].toLowerCase()} yet. They are added as you log entries, or use
+                "Link Existing Entries" to build the list from earlier entries.
+              </p>
+            )}
+          </div>
+        </Card>
+
+        {/* Add term */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Add {kind === 'trigger' ? 'Trigger' : 'Symptom'}</CardTitle>
+          </CardHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newTerm.name.trim()) createMutation.mutate();
+            }}
+            className="p-6 space-y-4"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                label="Name"
+                value={newTerm.name}
+                onChange={(e) => setNewTerm({ ...newTerm, name: e.target.value })}
+                required
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                  Category
+                </label>
+                <select
+                  value={newTerm.category}
+                  onChange={(e) => setNewTerm({ ...newTerm, category: e.target.value })}
+                  className={selectClassName}
+                >
+                  {Object.entries(categories).map(([id, label]) => (
+                    <option key={id} value={id}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <Input
+                label="Aliases"
+                value={newTerm.aliases}
+                onChange={(e) => setNewTerm({ ...newTerm, aliases: e.target.value })}
+                placeholder="comma-separated"
+              />
+            </div>
+            <Button
+              type="submit"
+              variant="primary"
+              leftIcon={<Plus size={16} />}
+              isLoading={createMutation.isPending}
+              disabled={createMutation.isPending || !newTerm.name.trim()}
+            >
+              Add
+            </Button>
+            {createMutation.isError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{errorMessage(createMutation.error)}</p>
+            )}
+          </form>
+        </Card>
+      </div>
+
+      <ConfirmDialog
+        isOpen={deleteTarget !== null}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+        title="Delete Term"
+        message={`"${deleteTarget?.name}" will be removed from ${deleteTarget?.usageCount ?? 0} entries. To keep those entries, merge it into another term instead.`}
+        confirmLabel="Delete"
+        variant="danger"
+        isLoading={deleteMutation.isPending}
+      />
+    </Layout>
+  );
+};
+
+export default VocabularyPage;
@@ -0,0 +1,317 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, RefreshCw, Save, Trash2 } from 'lucide-react';
+import {
+  getMappingTemplates,
+  createMappingTemplate,
+  updateMappingTemplate,
+  deleteMappingTemplate,
+  type WearablePreviewRow,
+  type WearableUploadPreview,
+} from '../../api/wearableService';
+import { Button, Input } from '../../components/common';
+
+// ============================================
+// WEARABLE MAPPING EDITOR
+// ============================================
+
+// Human readable labels for mapping targets
+const TARGET_LABELS: Record<string, string> = {
+  timestamp: 'Timestamp',
+  stress: 'Stress',
+  recovery: 'Recovery',
+  heartRate: 'Heart rate',
+  hrv: 'HRV',
+  sleepEfficiency: 'Sleep efficiency',
+  sleepHeartRate: 'Sleep heart rate',
+  skinTemperature: 'Skin temperature',
+  restlessPeriods: 'Restless periods',
+  additional: 'Keep as additional data',
+};
+
+// Where a value read in each unit ends up
+const SOURCE_LABELS: Record<string, string> = {
+  override: 'chosen',
+  column: 'from column name',
+  values: 'guessed from values',
+};
+
+// Preview row value for each field
+const ROW_FIELDS: Record<string, keyof WearablePreviewRow> = {
+  stress: 'stressValue',
+  recovery: 'recoveryValue',
+  heartRate: 'heartRate',
+  hrv: 'hrv',
+  sleepEfficiency: 'sleepEfficiency',
+  sleepHeartRate: 'sleepHeartRate',
+  skinTemperature: 'skinTemperature',
+  restlessPeriods: 'restlessPeriods',
+};
+
+const SELECT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm';
+
+const errorMessage = (error: unknown) => (error as Error)?.message || 'Something went wrong';
+
+interface WearableMappingEditorProps {
+  preview: WearableUploadPreview;
+  mapping: Record<string, string>;
+  units: Record<string, string>;
+  templateId: string | null;
+  isRefreshing: boolean;
+  onMappingChange: (column: string, target: string) => void;
+  onUnitChange: (field: string, unit: string) => void;
+  onApplyTemplate: (templateId: string | null) => void;
+  onRefresh: () => void;
+}
+
+/**
+ * Column mapping step of a wearable upload
+ * Shows where each column of the previewed file ends up, the unit each field is read in (values
+ * are converted to the stored unit) and the first parsed rows; mappings and unit choices can be
+ * saved as templates and reused for the same format.
+ */
+export const WearableMappingEditor = ({
+  preview,
+  mapping,
+  units,
+  templateId,
+  isRefreshing,
+  onMappingChange,
+  onUnitChange,
+  onApplyTemplate,
+  onRefresh,
+}: WearableMappingEditorProps) => {
+  const queryClient = useQueryClient();
+  const [templateName, setTemplateName] = useState('');
+
+  const { data: templates } = useQuery({
+    queryKey: ['wearable-mapping-templates', preview.format],
+    queryFn: () => getMappingTemplates(preview.format),
+  });
+  const selectedTemplate = templates?.find((template) => template.id === templateId);
+
+  const invalidateTemplates = () =>
+    queryClient.invalidateQueries({ queryKey: ['wearable-mapping-templates', preview.format] });
+
+  // Units chosen in this preview or by the applied template; inferred units are not saved
+  const unitOverrides = {
+    ...Object.fromEntries(
+      Object.entries(preview.units)
+        .filter(([, info]) => info.source === 'override')
+        .map(([field, info]) => [field, info.unit])
+    ),
+    ...units,
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      selectedTemplate && !templateName.trim()
+        ? updateMappingTemplate(selectedTemplate.id, { name: selectedTemplate.name, format: preview.format, mapping, units: unitOverrides })
+        : createMappingTemplate({ name: templateName.trim(), format: preview.format, mapping, units: unitOverrides }),
+    onSuccess: (template) => {
+      setTemplateName('');
+      invalidateTemplates();
+      onApplyTemplate(template.id);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteMappingTemplate(id),
+    onSuccess: () => {
+      invalidateTemplates();
+      onApplyTemplate(null);
+    },
+  });
+
+  // The preview reflects the mapping and units it was run with; edits need a refresh to show in the rows
+  const isStale =
+    preview.columns.some((column) => (mapping[column.name] ?? column.target) !== column.target) ||
+    Object.entries(preview.units).some(([field, info]) => (units[field] ?? info.unit) !== info.unit);
+  const sampleFields = Object.keys(ROW_FIELDS).filter((field) =>
+    preview.sampleRows.some((row) => row[ROW_FIELDS[field]] !== null)
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Templates */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Mapping template</label>
+          <select
+            value={templateId ?? ''}
+            onChange={(e) => onApplyTemplate(e.target.value || null)}
+            className={SELECT_CLASS}
+            disabled={isRefreshing}
+          >
+            <option value="">Automatic matching</option>
+            {(templates ?? []).map((template) => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+        </div>
+        <Input
+          label={selectedTemplate ? 'Save as new template (leave empty to update)' : 'Save as template'}
+          placeholder="Template name"
+          maxLength={100}
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => saveMutation.mutate()}
+            disabled={(!selectedTemplate && !templateName.trim()) || saveMutation.isPending}
+            isLoading={saveMutation.isPending}
+            leftIcon={<Save size={16} />}
+          >
+            {selectedTemplate && !templateName.trim() ? 'Update template' : 'Save template'}
+          </Button>
+          {selectedTemplate && (
+            <button
+              type="button"
+              onClick={() => deleteMutation.mutate(selectedTemplate.id)}
+              disabled={deleteMutation.isPending}
+              className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 rounded"
+              aria-label="Delete template"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+      {(saveMutation.isError || deleteMutation.isError) && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {errorMessage(saveMutation.error || deleteMutation.error)}
+        </p>
+      )}
+
+      {/* Column mapping */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {preview.columns.map((column) => (
+          <div key={column.name}>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 truncate" title={column.name}>
+              {column.name}
+            </label>
+            <select
+              value={mapping[column.name] ?? column.target}
+              onChange={(e) => onMappingChange(column.name, e.target.value)}
+              className={SELECT_CLASS}
+            >
+              <option value="">Ignore column</option>
+              {preview.targets.filter(Boolean).map((target) => (
+                <option key={target} value={target}>{TARGET_LABELS[target] || target}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button
+          type="button"
+          variant={isStale ? 'primary' : 'outline'}
+          onClick={onRefresh}
+          disabled={isRefreshing}
+          isLoading={isRefreshing}
+          leftIcon={<RefreshCw size={16} />}
+        >
+          Update Preview
+        </Button>
+        {isStale && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            The mapping or units changed; update the preview to check the parsed rows.
+          </span>
+        )}
+      </div>
+
+      {/* Units */}
+      {Object.keys(preview.units).length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">Units</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {Object.entries(preview.units).map(([field, info]) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {TARGET_LABELS[field] || field}
+                </label>
+                <select
+                  value={units[field] ?? info.unit}
+                  onChange={(e) => onUnitChange(field, e.target.value)}
+                  className={SELECT_CLASS}
+                  disabled={info.options.length < 2}
+                >
+                  {info.options.map((option) => (
+                    <option key={option.unit} value={option.unit}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Typical value {info.typicalValue} ({SOURCE_LABELS[info.source]})
+                  {info.converted && (info.unit === 'deviation' ? ', kept as additional data' : ', converted on import')}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Implausible values */}
+      {preview.invalidRows > 0 && (
+        <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+          <p className="flex items-start gap-2 text-sm font-medium text-yellow-900 dark:text-yellow-300">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            {preview.invalidRows} row{preview.invalidRows === 1 ? ' has' : 's have'} implausible values that will not be imported.
+            Check the units if this looks wrong.
+          </p>
+          <ul className="mt-2 space-y-1 text-xs text-yellow-800 dark:text-yellow-400 max-h-40 overflow-y-auto">
+            {preview.valueErrors.map((valueError) => (
+              <li key={valueError.timestamp}>
+                {new Date(valueError.timestamp).toLocaleString()}: {valueError.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Sample rows */}
+      <div>
+        <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">
+          First {preview.sampleRows.length} of {preview.totalRows} rows
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4">Time</th>
+                {sampleFields.map((field) => (
+                  <th key={field} className="py-2 pr-4">{TARGET_LABELS[field]}</th>
+                ))}
+                <th className="py-2">Additional</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.sampleRows.map((row) => (
+                <tr key={row.timestamp} className="border-b border-gray-100 dark:border-gray-800">
+                  <td className="py-2 pr-4 text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                    {new Date(row.timestamp).toLocaleString()}
+                  </td>
+                  {sampleFields.map((field) => (
+                    <td key={field} className="py-2 pr-4 text-gray-900 dark:text-gray-100">
+                      {String(row[ROW_FIELDS[field]] ?? '—')}
+                    </td>
+                  ))}
+                  <td className="py-2 text-gray-500 dark:text-gray-400">
+                    {Object.keys(row.additionalData).join(', ') || '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WearableMappingEditor;
@@ -1,8 +1,9 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
-import { Upload, FileText, CheckCircle2, AlertCircle, X, Loader2, Clock, Trash2, History, Calendar } from 'lucide-react';
-import { uploadWearableCSV, getUploadSessions, deleteUploadSession, deleteAllUploadSessions, cleanupOrphanedData, type UploadResponse, type UploadSession } from '../../api/wearableService';
+import { Upload, FileText, CheckCircle2, AlertCircle, X, Loader2, Trash2, History, Calendar, Eye } from 'lucide-react';
+import { uploadWearableCSV, previewWearableUpload, getUploadSession, getUploadSessions, getWearableImporters, deleteUploadSession, deleteAllUploadSessions, cleanupOrphanedData, FINISHED_UPLOAD_STATUSES, type UploadSession, type WearableUploadOptions, type WearableUploadPreview } from '../../api/wearableService';
+import { WearableMappingEditor } from './WearableMappingEditor';
 import {
   Layout,
   Card,
@@ -17,26 +18,64 @@ import {
 // WEARABLE UPLOAD PAGE
 // ============================================
 
+// Accepted until the importer list has loaded
+const DEFAULT_EXTENSIONS = ['.csv'];
+
+// How often a running import is polled for progress
+const IMPORT_POLL_INTERVAL_MS = 1000;
+
+const isUploadFinished = (upload?: UploadSession) =>
+  upload !== undefined && FINISHED_UPLOAD_STATUSES.includes(upload.status);
+
 export const WearableUploadPage = () => {
   const [file, setFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
-  const [uploadResult, setUploadResult] = useState<UploadResponse | null>(null);
+  const [uploadSessionId, setUploadSessionId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<WearableUploadPreview | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [units, setUnits] = useState<Record<string, string>>({});
+  const [templateId, setTemplateId] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
-  const [actualUploadProgress, setActualUploadProgress] = useState(0);
-  const [estimatedTime, setEstimatedTime] = useState<number | null>(null);
-  const [processingPhase, setProcessingPhase] = useState(false);
-  const uploadStartTime = useRef<number | null>(null);
-  const progressInterval = useRef<NodeJS.Timeout | null>(null);
-  const processingInterval = useRef<NodeJS.Timeout | null>(null);
   const queryClient = useQueryClient();
   const navigate = useNavigate();
 
-  // Fetch upload history
+  // Fetch upload history (refreshed while an import is running)
   const { data: uploadsData, refetch: refetchUploads } = useQuery({
     queryKey: ['upload-sessions'],
     queryFn: () => getUploadSessions(),
+    refetchInterval: (query) =>
+      query.state.data?.uploads.some((upload) => !isUploadFinished(upload)) ? IMPORT_POLL_INTERVAL_MS * 5 : false,
   });
 
+  // The upload being imported in the background, polled until it finishes
+  const { data: uploadSession } = useQuery({
+    queryKey: ['upload-session', uploadSessionId],
+    queryFn: async () => {
+      const session = await getUploadSession(uploadSessionId as string);
+      if (isUploadFinished(session)) {
+        queryClient.invalidateQueries({ queryKey: ['upload-sessions'] });
+        queryClient.invalidateQueries({ queryKey: ['wearable-data'] });
+        queryClient.invalidateQueries({ queryKey: ['wearable-statistics'] });
+      }
+      return session;
+    },
+    enabled: uploadSessionId !== null,
+    refetchInterval: (query) => (isUploadFinished(query.state.data) ? false : IMPORT_POLL_INTERVAL_MS),
+  });
+  const uploadResult = uploadSessionId && isUploadFinished(uploadSession) ? uploadSession : undefined;
+  const isImporting = uploadSessionId !== null && !uploadResult;
+
+  // Importers for vendor exports and generic CSV
+  const { data: importersData } = useQuery({
+    queryKey: ['wearable-importers'],
+    queryFn: () => getWearableImporters(),
+    staleTime: Infinity,
+  });
+  const acceptedExtensions = importersData?.extensions ?? DEFAULT_EXTENSIONS;
+  const importerLabels = Object.fromEntries(
+    (importersData?.importers ?? []).map((importer) => [importer.id, importer.label])
+  );
+
   // Delete upload mutation
   const deleteMutation = useMutation({
     mutationFn: (id: string) => deleteUploadSession(id),
@@ -67,105 +106,48 @@ export const WearableUploadPage = () => {
     },
   });
 
-  // Calculate estimated processing time based on file size
-  const estimateProcessingTime = (fileSize: number, rowCount?: number): number => {
-    // Base estimate: ~100ms per KB for upload + ~10ms per row for processing
-    // For a 542KB file with ~7000 rows: ~54s upload + ~70s processing = ~2 minutes
-    const uploadTime = (fileSize / 1024) * 100; // ms
-    const processingTime = rowCount ? rowCount * 10 : (fileSize / 1024) * 50; // ms
-    return Math.ceil((uploadTime + processingTime) / 1000); // seconds
-  };
+  // Preview mutation (parses the file, nothing is saved)
+  const previewMutation = useMutation({
+    mutationFn: (options: WearableUploadOptions) => previewWearableUpload(file as File, options),
+    onSuccess: (result) => {
+      setPreview(result);
+      setTemplateId(result.templateId);
+      // Every column is stored explicitly so the upload imports exactly what was previewed; units only
+      // hold the user's choices so the upload records which ones were inferred
+      setMapping(Object.fromEntries(result.columns.map((column) => [column.name, column.target])));
+    },
+  });
 
-  // Upload mutation
+  // Clear the preview and mapping of the previous file
+  const resetPreviewMutation = previewMutation.reset;
+  const clearPreview = useCallback(() => {
+    setPreview(null);
+    setMapping({});
+    setUnits({});
+    setTemplateId(null);
+    resetPreviewMutation();
+  }, [resetPreviewMutation]);
+
+  // Upload mutation: sends the file, which the server then imports in the background
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      uploadStartTime.current = Date.now();
+    mutationFn: (file: File) => {
       setUploadProgress(0);
-      setActualUploadProgress(0);
-      setProcessingPhase(false);
-      
-      // Estimate row count from file size (rough estimate: ~100 bytes per row)
-      const estimatedRows = Math.ceil(file.size / 100);
-      setEstimatedTime(estimateProcessingTime(file.size, estimatedRows));
-
-      return uploadWearableCSV(file, (progress) => {
-        setActualUploadProgress(progress);
-        // Upload phase: 0-20%, Processing phase: 20-100%
-        // We track upload progress, then show processing
-        if (progress < 100) {
-          // Scale upload progress to 0-20%
-          setUploadProgress(progress * 0.2);
-          setProcessingPhase(false);
-          
-          // Calculate estimated time remaining for upload
-          if (uploadStartTime.current && progress > 0) {
-            const elapsed = (Date.now() - uploadStartTime.current) / 1000; // seconds
-            const uploadTotalEstimated = elapsed / (progress / 100);
-            const uploadRemaining = Math.max(0, uploadTotalEstimated - elapsed);
-            
-            // Add estimated processing time
-            const estimatedRows = Math.ceil(file.size / 100);
-            const processingTime = estimatedRows * 0.01; // seconds per row
-            setEstimatedTime(Math.ceil(uploadRemaining + processingTime));
-          }
-        } else {
-          // Upload complete, now processing (starts at 20%)
-          setUploadProgress(20);
-          setProcessingPhase(true);
-          // Estimate processing time based on file size
-          const estimatedRows = Math.ceil(file.size / 100);
-          const processingTime = estimatedRows * 0.01; // seconds
-          setEstimatedTime(Math.ceil(processingTime));
-          
-          // Simulate processing progress (20% to 100%)
-          // This is an estimate since we don't have real-time processing updates
-          const processingStartTime = Date.now();
-          const simulateProcessing = () => {
-            const elapsed = (Date.now() - processingStartTime) / 1000;
-            const processingProgress = Math.min(100, 20 + (elapsed / processingTime) * 80);
-            setUploadProgress(processingProgress);
-            
-            if (processingProgress < 100) {
-              processingInterval.current = setTimeout(simulateProcessing, 100) as unknown as NodeJS.Timeout; // Update every 100ms
-            }
-          };
-          processingInterval.current = setTimeout(simulateProcessing, 100) as unknown as NodeJS.Timeout;
-        }
+      return uploadWearableCSV(file, setUploadProgress, {
+        mapping: preview ? mapping : undefined,
+        units: preview ? units : undefined,
+        templateId,
       });
     },
-    onSuccess: (response) => {
-      // Ensure progress shows 100% when complete
-      setUploadProgress(100);
-      setActualUploadProgress(100);
-      setProcessingPhase(false);
-      if (response.data?.data) {
-        setUploadResult(response.data.data);
-        setFile(null);
-      }
-      if (progressInterval.current) {
-        clearInterval(progressInterval.current);
-      }
-      if (processingInterval.current) {
-        clearTimeout(processingInterval.current);
-      }
-      uploadStartTime.current = null;
-      setEstimatedTime(null);
-      // Refresh upload history
+    onSuccess: (accepted) => {
+      setUploadSessionId(accepted.uploadSessionId);
+      setFile(null);
+      clearPreview();
+      setUploadProgress(0);
       refetchUploads();
     },
     onError: (error: Error) => {
       console.error('Upload error:', error);
       setUploadProgress(0);
-      setActualUploadProgress(0);
-      setEstimatedTime(null);
-      setProcessingPhase(false);
-      if (progressInterval.current) {
-        clearInterval(progressInterval.current);
-      }
-      if (processingInterval.current) {
-        clearTimeout(processingInterval.current);
-      }
-      uploadStartTime.current = null;
     },
   });
 
@@ -188,20 +170,22 @@ export const WearableUploadPage = () => {
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       const droppedFile = e.dataTransfer.files[0];
-      if (droppedFile.name.toLowerCase().endsWith('.csv')) {
+      if (acceptedExtensions.some((extension) => droppedFile.name.toLowerCase().endsWith(extension))) {
         setFile(droppedFile);
-        setUploadResult(null);
+        setUploadSessionId(null);
+        clearPreview();
       } else {
-        alert('Please upload a CSV file');
+        alert(`Please upload one of these file types: ${acceptedExtensions.join(', ')}`);
       }
     }
-  }, []);
+  }, [acceptedExtensions, clearPreview]);
 
   // Handle file input change
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setFile(e.target.files[0]);
-      setUploadResult(null);
+      setUploadSessionId(null);
+      clearPreview();
     }
   };
 
@@ -212,30 +196,19 @@ export const WearableUploadPage = () => {
     }
   };
 
+  // Apply a saved mapping template (or go back to automatic matching) and re-run the preview
+  const handleApplyTemplate = (id: string | null) => {
+    setTemplateId(id);
+    setUnits({});
+    previewMutation.mutate({ templateId: id });
+  };
+
   // Reset
   const handleReset = () => {
     setFile(null);
-    setUploadResult(null);
+    setUploadSessionId(null);
+    clearPreview();
     setUploadProgress(0);
-    setActualUploadProgress(0);
-    setEstimatedTime(null);
-    setProcessingPhase(false);
-    if (progressInterval.current) {
-      clearInterval(progressInterval.current);
-    }
-    if (processingInterval.current) {
-      clearTimeout(processingInterval.current);
-    }
-    uploadStartTime.current = null;
-  };
-
-  // Format time estimate
-  const formatTimeEstimate = (seconds: number | null): string => {
-    if (seconds === null || seconds === 0) return '';
-    if (seconds < 60) return `~${seconds}s remaining`;
-    const minutes = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `~${minutes}m ${secs}s remaining`;
   };
   
   // Navigate to calendar with earliest date
@@ -255,23 +228,23 @@ export const WearableUploadPage = () => {
         <div>
           <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Upload Wearable Data</h1>
           <p className="mt-2 text-gray-600 dark:text-gray-400">
-            Upload CSV files from your wearable devices (Oura Ring, Fitbit, Garmin, etc.)
-            to track metrics like stress, HRV, heart rate, and sleep data.
+            Upload CSV files or data exports from your wearable devices (Oura Ring, Fitbit, Garmin,
+            Apple Health, Whoop) to track metrics like stress, HRV, heart rate, and sleep data.
           </p>
         </div>
 
         <Card>
           <CardHeader>
-            <CardTitle>CSV File Upload</CardTitle>
+            <CardTitle>File Upload</CardTitle>
             <CardDescription>
-              Drag and drop your CSV file or click to browse. The system will automatically
-              recognize relevant fields like stress, HRV, heart rate, and more.
+              Drag and drop a CSV file or device export, or click to browse. The file format is
+              detected automatically and fields like stress, HRV and heart rate are recognized.
             </CardDescription>
           </CardHeader>
 
           <div className="p-6">
             {/* Upload Area */}
-            {!uploadResult && (
+            {!uploadSessionId && (
               <div
                 onDragEnter={handleDrag}
                 onDragLeave={handleDrag}
@@ -308,63 +281,64 @@ export const WearableUploadPage = () => {
                     {uploadMutation.isPending && (
                       <div className="space-y-2">
                         <div className="flex items-center justify-between text-sm">
-                          <span className="text-gray-600 dark:text-gray-400">
-                            {processingPhase ? 'Processing CSV file...' : 'Uploading file...'}
-                          </span>
+                          <span className="text-gray-600 dark:text-gray-400">Uploading file...</span>
                           <span className="text-gray-500 dark:text-gray-400">{Math.round(uploadProgress)}%</span>
                         </div>
-                        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3 overflow-hidden relative">
+                        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3 overflow-hidden">
                           <div
                             className="bg-blue-600 dark:bg-blue-500 h-full rounded-full transition-all duration-300 ease-out"
                             style={{ width: `${uploadProgress}%` }}
                           />
-                          {processingPhase && uploadProgress < 100 && (
-                            <div className="absolute inset-0 bg-blue-400 dark:bg-blue-600 animate-pulse" style={{ width: '80%' }} />
-                          )}
                         </div>
-                        {estimatedTime !== null && estimatedTime > 0 && (
-                          <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
-                            <Clock className="w-3 h-3" />
-                            <span>{formatTimeEstimate(estimatedTime)}</span>
-                          </div>
-                        )}
                         <p className="text-xs text-gray-400 dark:text-gray-500 text-center">
-                          {processingPhase ? (
+                          Uploading file ({((file.size / 1024) * uploadProgress / 100).toFixed(1)} KB of {(file.size / 1024).toFixed(1)} KB)
+                        </p>
+                      </div>
+                    )}
+
+                    <div className="flex gap-3 justify-center">
+                      {preview ? (
+                        <Button
+                          onClick={handleUpload}
+                          disabled={uploadMutation.isPending || previewMutation.isPending}
+                          className="bg-blue-600 hover:bg-blue-700"
+                        >
+                          {uploadMutation.isPending ? (
                             <>
-                              Parsing CSV and inserting {Math.ceil(file.size / 100)} estimated rows into database...
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              Uploading...
                             </>
                           ) : (
                             <>
-                              Uploading file ({((file.size / 1024) * actualUploadProgress / 100).toFixed(1)} KB of {(file.size / 1024).toFixed(1)} KB)
+                              <Upload className="w-4 h-4 mr-2" />
+                              Import {preview.totalRows} Rows
                             </>
                           )}
-                        </p>
-                      </div>
-                    )}
-
-                    <div className="flex gap-3 justify-center">
-                      <Button
-                        onClick={handleUpload}
-                        disabled={uploadMutation.isPending}
-                        className="bg-blue-600 hover:bg-blue-700"
-                      >
-                        {uploadMutation.isPending ? (
-                          <>
-                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                            Uploading...
-                          </>
-                        ) : (
-                          <>
-                            <Upload className="w-4 h-4 mr-2" />
-                            Upload File
-                          </>
-                        )}
-                      </Button>
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={() => previewMutation.mutate({})}
+                          disabled={previewMutation.isPending}
+                          className="bg-blue-600 hover:bg-blue-700"
+                        >
+                          {previewMutation.isPending ? (
+                            <>
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              Reading file...
+                            </>
+                          ) : (
+                            <>
+                              <Eye className="w-4 h-4 mr-2" />
+                              Preview File
+                            </>
+                          )}
+                        </Button>
+                      )}
                       <Button
                         onClick={() => {
                           setFile(null);
                           setUploadProgress(0);
-                          setEstimatedTime(null);
+                          clearPreview();
                         }}
                         variant="outline"
                         disabled={uploadMutation.isPending}
@@ -381,14 +355,14 @@ export const WearableUploadPage = () => {
                     </div>
                     <div>
                       <p className="text-lg font-medium text-gray-900 dark:text-gray-100">
-                        Drag and drop your CSV file here
+                        Drag and drop your file here
                       </p>
                       <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">or</p>
                       <label htmlFor="csv-file-input" className="inline-block mt-2 cursor-pointer">
                         <input
                           type="file"
                           id="csv-file-input"
-                          accept=".csv"
+                          accept={acceptedExtensions.join(',')}
                           onChange={handleFileChange}
                           className="hidden"
                         />
@@ -398,15 +372,103 @@ export const WearableUploadPage = () => {
                       </label>
                     </div>
                     <p className="text-xs text-gray-400 dark:text-gray-500 mt-4">
-                      Supported formats: CSV (comma or semicolon separated)
+                      Supported formats:{' '}
+                      {importersData
+                        ? importersData.importers.map((importer) => importer.label).join(', ')
+                        : 'CSV (comma or semicolon separated)'}
                     </p>
                   </div>
                 )}
               </div>
             )}
 
+            {previewMutation.isError && (
+              <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+                {(previewMutation.error as Error)?.message || 'Failed to read file'}
+              </p>
+            )}
+
+            {/* Column mapping and preview */}
+            {preview && !uploadResult && (
+              <div className="mt-6 space-y-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                    Read as {preview.formatLabel}
+                    {preview.source && <span className="capitalize"> ({preview.source})</span>}
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {preview.totalRows} rows
+                    {preview.dateRange &&
+                      ` from ${new Date(preview.dateRange.start).toLocaleDateString()} to ${new Date(preview.dateRange.end).toLocaleDateString()}`}
+                    . Choose where each column goes, then import.
+                  </p>
+                </div>
+                <WearableMappingEditor
+                  preview={preview}
+                  mapping={mapping}
+                  units={units}
+                  templateId={templateId}
+                  isRefreshing={previewMutation.isPending}
+                  onMappingChange={(column, target) => setMapping((current) => ({ ...current, [column]: target }))}
+                  onUnitChange={(field, unit) => setUnits((current) => ({ ...current, [field]: unit }))}
+                  onApplyTemplate={handleApplyTemplate}
+                  onRefresh={() => previewMutation.mutate({ mapping, units, templateId })}
+                />
+              </div>
+            )}
+
+            {/* Import Progress */}
+            {isImporting && (
+              <div className="space-y-3 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+                <div className="flex items-center gap-3">
+                  <Loader2 className="w-5 h-5 text-blue-600 dark:text-blue-400 animate-spin" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-blue-900 dark:text-blue-300 truncate">
+                      {uploadSession?.status === 'processing' ? 'Importing' : 'Waiting to import'} {uploadSession?.filename}
+                    </p>
+                    <p className="text-sm text-blue-700 dark:text-blue-400">
+                      {uploadSession && uploadSession.totalRows > 0
+                        ? `${uploadSession.processedRows} of ${uploadSession.totalRows} rows written`
+                        : 'Reading file...'}
+                    </p>
+                  </div>
+                  <span className="text-sm text-blue-700 dark:text-blue-400">{uploadSession?.progress ?? 0}%</span>
+                </div>
+                <div className="w-full bg-blue-100 dark:bg-gray-700 rounded-full h-3 overflow-hidden">
+                  <div
+                    className="bg-blue-600 dark:bg-blue-500 h-full rounded-full transition-all duration-300 ease-out"
+                    style={{ width: `${uploadSession?.progress ?? 0}%` }}
+                  />
+                </div>
+                <p className="text-xs text-blue-700 dark:text-blue-400">
+                  The import runs on the server; you can leave this page and follow it in the upload history.
+                </p>
+              </div>
+            )}
+
             {/* Upload Result */}
-            {uploadResult && (
+            {uploadResult && uploadResult.status === 'failed' && (
+              <div className="space-y-4">
+                <div className="flex items-start gap-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <AlertCircle className="w-6 h-6 text-red-600 dark:text-red-400 flex-shrink-0" />
+                  <div className="flex-1">
+                    <p className="font-medium text-red-900 dark:text-red-300">
+                      Import Failed
+                    </p>
+                    <p className="text-sm text-red-700 dark:text-red-400">
+                      {uploadResult.errorMessage || `None of the ${uploadResult.totalRows} rows could be imported.`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={handleReset} variant="outline">
+                    Upload Another File
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {uploadResult && uploadResult.status !== 'failed' && (
               <div className="space-y-4">
                 <div className="flex items-center gap-3 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
                   <CheckCircle2 className="w-6 h-6 text-green-600 dark:text-green-400" />
@@ -415,11 +477,11 @@ export const WearableUploadPage = () => {
                       Upload Successful!
                     </p>
                     <p className="text-sm text-green-700 dark:text-green-400">
-                      Successfully processed {uploadResult.inserted + (uploadResult.updated || 0)} of {uploadResult.total} rows
-                      {uploadResult.inserted > 0 && ` (${uploadResult.inserted} new`}
-                      {uploadResult.updated && uploadResult.updated > 0 && `, ${uploadResult.updated} updated`}
-                      {uploadResult.skipped && uploadResult.skipped > 0 && `, ${uploadResult.skipped} skipped`}
-                      {uploadResult.inserted > 0 && ')'}
+                      Successfully processed {uploadResult.insertedRows + uploadResult.updatedRows} of {uploadResult.totalRows} rows
+                      {uploadResult.insertedRows > 0 && ` (${uploadResult.insertedRows} new`}
+                      {uploadResult.updatedRows > 0 && `, ${uploadResult.updatedRows} updated`}
+                      {uploadResult.skippedRows > 0 && `, ${uploadResult.skippedRows} skipped`}
+                      {uploadResult.insertedRows > 0 && ')'}
                     </p>
                   </div>
                 </div>
@@ -427,36 +489,54 @@ export const WearableUploadPage = () => {
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
                     <p className="text-sm text-gray-600 dark:text-gray-400">Total Rows</p>
-                    <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{uploadResult.total}</p>
+                    <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{uploadResult.totalRows}</p>
                   </div>
                   <div className="p-4 bg-green-50 rounded-lg">
                     <p className="text-sm text-green-600">New</p>
-                    <p className="text-2xl font-bold text-green-900">{uploadResult.inserted}</p>
+                    <p className="text-2xl font-bold text-green-900">{uploadResult.insertedRows}</p>
                   </div>
-                  {uploadResult.updated !== undefined && uploadResult.updated > 0 && (
+                  {uploadResult.updatedRows > 0 && (
                     <div className="p-4 bg-blue-50 rounded-lg">
                       <p className="text-sm text-blue-600">Updated</p>
-                      <p className="text-2xl font-bold text-blue-900">{uploadResult.updated}</p>
+                      <p className="text-2xl font-bold text-blue-900">{uploadResult.updatedRows}</p>
                     </div>
                   )}
-                  {uploadResult.skipped !== undefined && uploadResult.skipped > 0 && (
+                  {uploadResult.skippedRows > 0 && (
                     <div className="p-4 bg-yellow-50 rounded-lg">
                       <p className="text-sm text-yellow-600">Skipped</p>
-                      <p className="text-2xl font-bold text-yellow-900">{uploadResult.skipped}</p>
+                      <p className="text-2xl font-bold text-yellow-900">{uploadResult.skippedRows}</p>
                     </div>
                   )}
-                  {uploadResult.errors > 0 && (
+                  {uploadResult.errorRows > 0 && (
                     <div className="p-4 bg-red-50 rounded-lg">
                       <p className="text-sm text-red-600">Errors</p>
-                      <p className="text-2xl font-bold text-red-900">{uploadResult.errors}</p>
+                      <p className="text-2xl font-bold text-red-900">{uploadResult.errorRows}</p>
                     </div>
                   )}
                 </div>
 
+                {uploadResult.errorDetails.length > 0 && (
+                  <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+                    <p className="text-sm font-medium text-yellow-900 dark:text-yellow-300 mb-2">
+                      Rows with errors{uploadResult.errorDetails.length < uploadResult.errorRows && ` (first ${uploadResult.errorDetails.length})`}:
+                    </p>
+                    <ul className="space-y-1 text-xs text-yellow-800 dark:text-yellow-400 max-h-40 overflow-y-auto">
+                      {uploadResult.errorDetails.map((errorDetail, index) => (
+                        <li key={`${errorDetail.timestamp}-${index}`}>
+                          {new Date(errorDetail.timestamp).toLocaleString()}: {errorDetail.error}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {uploadResult.source && (
                   <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
                     <p className="text-sm font-medium text-blue-900">
                       Detected Source: <span className="capitalize">{uploadResult.source}</span>
+                      {uploadResult.format && (
+                        <span className="font-normal"> (read as {importerLabels[uploadResult.format] ?? uploadResult.format})</span>
+                      )}
                     </p>
                   </div>
                 )}
@@ -481,6 +561,26 @@ export const WearableUploadPage = () => {
                   </div>
                 )}
 
+                {Object.values(uploadResult.units).some((info) => info.unit !== info.expectedUnit) && (
+                  <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">
+                      Converted Units:
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(uploadResult.units)
+                        .filter(([, info]) => info.unit !== info.expectedUnit)
+                        .map(([field, info]) => (
+                          <span
+                            key={field}
+                            className="px-2 py-1 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded text-xs text-gray-700 dark:text-gray-300"
+                          >
+                            {field}: {info.unit} → {info.unit === 'deviation' ? 'additional data' : info.expectedUnit}
+                          </span>
+                        ))}
+                    </div>
+                  </div>
+                )}
+
                 {uploadResult.unrecognizedFields.length > 0 && (
                   <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
                     <div className="flex items-start gap-2">
@@ -598,7 +698,7 @@ export const WearableUploadPage = () => {
                   Upload History
                 </CardTitle>
                 <CardDescription>
-                  View and manage your previous CSV uploads. You can delete uploads to remove all associated data.
+                  View and manage your previous uploads. You can delete uploads to remove all associated data.
                 </CardDescription>
               </div>
               <div className="flex flex-wrap gap-2">
@@ -630,9 +730,9 @@ export const WearableUploadPage = () => {
             </div>
           </CardHeader>
           <div className="p-6">
-            {uploadsData?.data?.data?.uploads && uploadsData.data.data.uploads.length > 0 ? (
+            {uploadsData?.uploads && uploadsData.uploads.length > 0 ? (
               <div className="space-y-3">
-                {uploadsData.data.data.uploads.map((upload: UploadSession) => (
+                {uploadsData.uploads.map((upload: UploadSession) => (
                   <div
                     key={upload.id}
                     className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:bg-gray-700 transition-colors"
@@ -642,7 +742,10 @@ export const WearableUploadPage = () => {
                         <FileText className="w-4 h-4 text-gray-500 dark:text-gray-400 flex-shrink-0" />
                         <p className="font-medium text-gray-900 dark:text-gray-100 truncate">{upload.filename}</p>
                         {upload.source && (
-                          <span className="px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded capitalize">
+                          <span
+                            className="px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded capitalize"
+                            title={upload.format ? importerLabels[upload.format] ?? upload.format : undefined}
+                          >
                             {upload.source}
                           </span>
                         )}
@@ -652,6 +755,7 @@ export const WearableUploadPage = () => {
                           'bg-yellow-100 text-yellow-700'
                         }`}>
                           {upload.status}
+                          {!isUploadFinished(upload) && ` ${upload.progress}%`}
                         </span>
                       </div>
                       <div className="flex items-center gap-4 text-sm text-gray-600 dark:text-gray-400 ml-6">
@@ -704,7 +808,7 @@ export const WearableUploadPage = () => {
               </div>
             ) : (
               <p className="text-center text-gray-500 dark:text-gray-400 py-8">
-                No uploads yet. Upload a CSV file to get started.
+                No uploads yet. Upload a CSV file or device export to get started.
               </p>
             )}
           </div>
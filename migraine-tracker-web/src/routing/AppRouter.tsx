@@ -5,10 +5,17 @@ import DashboardPage from '../features/dashboard/DashboardPage';
 import MigraineListPage from '../features/migraine/MigraineListPage';
 import MigraineDetailPage from '../features/migraine/MigraineDetailPage';
 import MigraineFormPage from '../features/migraine/MigraineFormPage';
+import MigraineImportPage from '../features/migraine/MigraineImportPage';
+import MedicationsPage from '../features/medications/MedicationsPage';
+import VocabularyPage from '../features/vocabulary/VocabularyPage';
 import ProfilePage from '../features/profile/ProfilePage';
 import WearableUploadPage from '../features/wearable/WearableUploadPage';
 import CalendarPage from '../features/calendar/CalendarPage';
 import PatternsPage from '../features/patterns/PatternsPage';
+import NotificationsPage from '../features/notifications/NotificationsPage';
+import PromptTemplatesPage from '../features/prompts/PromptTemplatesPage';
+import ChatPage from '../features/chat/ChatPage';
+import ScenariosPage from '../features/scenarios/ScenariosPage';
 
 // ============================================
 // APP ROUTER
@@ -59,6 +66,15 @@ export const AppRouter = () => {
         }
       />
       
+      <Route
+        path="/migraines/import"
+        element={
+          <ProtectedRoute>
+            <MigraineImportPage />
+          </ProtectedRoute>
+        }
+      />
+      
       <Route
         path="/migraines/:id"
         element={
@@ -77,6 +93,24 @@ export const AppRouter = () => {
         }
       />
       
+      <Route
+        path="/medications"
+        element={
+          <ProtectedRoute>
+            <MedicationsPage />
+          </ProtectedRoute>
+        }
+      />
+      
+      <Route
+        path="/vocabulary"
+        element={
+          <ProtectedRoute>
+            <VocabularyPage />
+          </ProtectedRoute>
+        }
+      />
+      
       <Route
         path="/profile"
         element={
@@ -113,6 +147,42 @@ export const AppRouter = () => {
         }
       />
 
+      <Route
+        path="/notifications"
+        element={
+          <ProtectedRoute>
+            <NotificationsPage />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/prompts"
+        element={
+          <ProtectedRoute>
+            <PromptTemplatesPage />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/chat"
+        element={
+          <ProtectedRoute>
+            <ChatPage />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/scenarios"
+        element={
+          <ProtectedRoute>
+            <ScenariosPage />
+          </ProtectedRoute>
+        }
+      />
+
       {/* Default Route - Redirect to dashboard */}
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
 
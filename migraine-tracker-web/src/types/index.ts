@@ -43,6 +43,8 @@ export interface UserProfile {
   // Family and diagnosis
   familyHistory?: 0 | 1;
   diagnosedType?: MigraineType;
+  // IANA timezone that days and zone-less timestamps are read in
+  timezone?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -113,6 +115,388 @@ export interface UpdateMigraineEntry extends Partial<CreateMigraineEntry> {
   id: string;
 }
 
+/**
+ * Structured search filters for migraine entries
+ */
+export interface MigraineSearchParams {
+  query?: string;
+  startDate?: string;
+  endDate?: string;
+  minIntensity?: number;
+  maxIntensity?: number;
+  triggers?: string[];
+  aura?: boolean;
+  nausea?: boolean;
+  photophobia?: boolean;
+  migraineType?: MigraineType;
+}
+
+export type MigraineExportFormat = 'csv' | 'json' | 'fhir';
+
+/**
+ * Trigger and symptom vocabulary types
+ */
+export type VocabularyKind = 'trigger' | 'symptom';
+
+export interface VocabularyTerm {
+  id: string;
+  kind: VocabularyKind;
+  name: string; // Canonical name
+  category: string;
+  aliases: string[]; // Normalized (lowercase) alternative spellings
+  usageCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateVocabularyTerm {
+  kind: VocabularyKind;
+  name: string;
+  category?: string;
+  aliases?: string[];
+}
+
+export type VocabularyCategories = Record<VocabularyKind, Record<string, string>>;
+
+/**
+ * Daily check-in (headache diary) types
+ */
+export interface DailyCheckin {
+  id: string;
+  date: string; // YYYY-MM-DD
+  hadHeadache: boolean;
+  sleepHours?: number;
+  caffeineServings?: number;
+  alcoholUnits?: number;
+  menstruation?: boolean;
+  skippedMeals?: boolean;
+  mood?: 1 | 2 | 3 | 4 | 5;
+  waterLiters?: number;
+  screenTimeHours?: number;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SaveDailyCheckin = Omit<DailyCheckin, 'id' | 'date' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Stored risk assessment types (dashboard predictions kept for later comparison)
+ */
+export interface RiskAssessment {
+  id: string;
+  windowStart: string;
+  windowEnd: string;
+  lookbackHours: number; // Hours of data before windowEnd
+  horizonHours: number; // Hours after windowEnd the forecast covers
+  engine: 'local' | 'llm';
+  provider: string;
+  model?: string;
+  promptHash?: string;
+  promptTemplateVersion?: string; // e.g. "concise v2" or "builtin v1" (LLM assessments)
+  promptExperimentId?: string;
+  promptVariant?: PromptVariant; // Experiment arm
+  riskLevel?: number; // 0-100
+  riskCategory?: string;
+  confidenceLevel?: string;
+  isSimulated: boolean;
+  simulatedData?: Record<string, unknown>; // Scenario definition used (flat metrics for older assessments)
+  scenarioId?: string; // Saved what-if scenario the assessment was made from
+  source: 'manual' | 'scheduled'; // Dashboard request or background forecast
+  createdAt: string;
+}
+
+export interface RiskHorizonForecast {
+  horizonHours: number;
+  riskLevel: number; // 0-100
+  riskCategory: string;
+}
+
+export interface RiskHorizons {
+  horizons: RiskHorizonForecast[]; // Local model risk for the next 6, 12, 24 and 72 hours
+  confidenceLevel: string;
+  modelType: 'logistic' | 'prior';
+  dataPointsCount: number;
+  generatedAt: string;
+}
+
+export interface RiskAssessmentHistory {
+  assessments: RiskAssessment[];
+  migraineDays: string[]; // YYYY-MM-DD
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Forecast accuracy types (stored predictions vs migraines within the forecast horizon)
+ */
+export interface CalibrationBucket {
+  range: string;
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number; // 0-1
+  observedRate: number; // 0-1
+}
+
+export interface RocPoint {
+  threshold: number | null; // Risk % at which forecasts are flagged
+  fpr: number;
+  tpr: number;
+}
+
+export interface ForecastMetrics {
+  forecasts: number;
+  migraines: number;
+  baseRate: number | null;
+  threshold: number;
+  hitRate: number | null;
+  falseAlarmRate: number | null;
+  accuracy: number | null;
+  brierScore: number | null;
+  brierSkillScore: number | null; // > 0 beats always predicting the base rate
+  auc: number | null;
+  calibration: CalibrationBucket[];
+  roc: RocPoint[];
+}
+
+export interface ForecastEvaluation {
+  overall: ForecastMetrics;
+  byEngine: Partial<Record<RiskAssessment['engine'], ForecastMetrics>>;
+  byPromptTemplate: Record<string, ForecastMetrics>; // LLM forecasts per template version label
+  byHorizon: Record<string, ForecastMetrics>; // Keyed by horizon in hours
+  pending: number; // Forecasts whose horizon has not passed yet
+}
+
+/**
+ * Scheduled forecast and notification types
+ */
+export interface NotificationSettings {
+  forecastsEnabled: boolean;
+  forecastEngine: RiskAssessment['engine'];
+  morningHour: number; // Hour in the profile timezone
+  eveningHour: number; // Hour in the profile timezone
+  riskThreshold: number; // Alert when a forecast reaches this risk (%)
+  pushEnabled: boolean;
+  emailEnabled: boolean;
+  emailAddress: string | null; // null = account email
+}
+
+export interface NotificationSettingsResponse extends NotificationSettings {
+  accountEmail: string | null;
+  channels: {
+    push: { transport: string; configured: boolean; publicKey: string | null };
+    email: { transport: string; configured: boolean };
+  };
+  schedulerEnabled: boolean;
+}
+
+export interface AppNotification {
+  id: string;
+  type: 'risk_alert' | 'test';
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  deliveries: Partial<Record<'push' | 'email', string>>; // Outcome per external channel
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationInbox {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+export interface ForecastJob {
+  id: string;
+  slot: 'morning' | 'evening' | null;
+  slotTime: string | null;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  result: { assessmentId: string; riskLevel: number | null; alerted: boolean } | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Backtest types (forecasts replayed over past days with only the data known at the time)
+ */
+export interface BacktestDay {
+  date: string; // YYYY-MM-DD
+  windowEnd: string; // Forecast time (end of the input window)
+  status: 'ok' | 'no_data' | 'unparseable';
+  riskLevel?: number;
+  riskCategory?: string;
+  confidenceLevel?: string;
+  patternsCount: number; // Correlations known at the forecast time
+  dataPoints?: number;
+  outcome?: boolean; // Migraine within the forecast horizon
+}
+
+export interface BacktestReport {
+  engine: RiskAssessment['engine'];
+  provider: string;
+  model: string | null;
+  promptTemplateVersion: string | null; // LLM backtests
+  startDate: string;
+  endDate: string;
+  hour: number; // Hour in the profile timezone
+  timezone: string;
+  lookbackHours: number;
+  horizonHours: number;
+  days: BacktestDay[];
+  metrics: ForecastMetrics;
+  skipped: {
+    noData: number;
+    unparseable: number;
+    pending: number; // Horizon not passed yet
+  };
+}
+
+/**
+ * Wearable lag analysis types (effect size by day offset relative to migraine onset)
+ */
+export interface LagProfilePoint {
+  offset: number; // -3..0, 0 = the migraine day itself
+  cohensD: number;
+  correlation: number;
+  migraineDays: number;
+  normalDays: number;
+}
+
+export interface WearablePatternDefinition {
+  metric: string;
+  operator: '>' | '<';
+  threshold: number;
+  lag?: number;
+  lagProfile?: LagProfilePoint[];
+}
+
+/**
+ * Lifestyle correlation types (odds ratios for check-in factors and trigger tags)
+ */
+export type LifestyleLag = 'same_day' | 'previous_day' | 'within_48h';
+
+export interface OddsRatioLagResult {
+  lag: LifestyleLag;
+  lagLabel: string;
+  oddsRatio: number;
+  ciLower: number;
+  ciUpper: number;
+  migraineDays: number;
+  controlDays: number;
+}
+
+export interface OddsRatioPatternDefinition {
+  kind: 'odds_ratio';
+  source: 'checkin' | 'trigger_tag';
+  exposure: string;
+  metric?: string;
+  operator?: string;
+  threshold?: number;
+  lag: LifestyleLag;
+  lagLabel: string;
+  oddsRatio: number;
+  ciLower: number;
+  ciUpper: number;
+  continuityCorrected: boolean;
+  counts: {
+    exposedMigraine: number;
+    exposedControl: number;
+    unexposedMigraine: number;
+    unexposedControl: number;
+  };
+  lags: OddsRatioLagResult[];
+}
+
+/**
+ * Medication catalog and per-episode intake types
+ */
+export type MedicationClass =
+  | 'triptan'
+  | 'nsaid'
+  | 'simple_analgesic'
+  | 'combination_analgesic'
+  | 'ergot'
+  | 'opioid'
+  | 'gepant'
+  | 'ditan'
+  | 'antiemetic'
+  | 'preventive'
+  | 'other';
+
+export interface MedicationClassInfo {
+  id: MedicationClass;
+  label: string;
+  acute: boolean;
+  threshold?: number; // Acute-medication days per month at which overuse is reached
+}
+
+export interface Medication {
+  id: string;
+  name: string;
+  medicationClass: MedicationClass;
+  defaultDose?: string;
+  notes?: string;
+  isActive: boolean;
+  isAcute: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateMedication {
+  name: string;
+  medicationClass: MedicationClass;
+  defaultDose?: string;
+  notes?: string;
+  isActive?: boolean;
+}
+
+export type ReliefRating = 0 | 1 | 2 | 3; // 0 = none, 3 = pain free after 2 hours
+
+export interface MedicationIntake {
+  id: string;
+  migraineEntryId: string;
+  medicationId: string;
+  medicationName: string;
+  medicationClass: MedicationClass;
+  takenAt: string;
+  dose?: string;
+  relief2h?: ReliefRating;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateMedicationIntake {
+  medicationId: string;
+  takenAt: string;
+  dose?: string;
+  relief2h?: ReliefRating;
+  notes?: string;
+}
+
+export type OveruseStatus = 'ok' | 'approaching' | 'overuse';
+
+export interface MedicationOveruseMonth {
+  month: string; // YYYY-MM
+  acuteDays: number;
+  classes: { group: string; days: number; threshold: number; status: OveruseStatus }[];
+  combined: { days: number; threshold: number; status: OveruseStatus };
+  status: OveruseStatus;
+}
+
+export interface MedicationOveruseReport {
+  currentMonth: MedicationOveruseMonth;
+  monthly: MedicationOveruseMonth[];
+  status: OveruseStatus;
+  consecutiveOveruseMonths: number;
+  meetsIchdDuration: boolean;
+}
+
 /**
  * API Response types
  */
@@ -136,13 +520,15 @@ export interface MigraineStats {
   migraineEntries?: number;
   wearableDays?: number;
   averageIntensity: number;
-  mostCommonTriggers: { trigger: string; count: number; correlationStrength?: number; confidenceScore?: number }[];
+  mostCommonTriggers: { trigger: string; count: number; category?: string; correlationStrength?: number; confidenceScore?: number }[];
   topTrigger?: { 
     trigger: string; 
     count: number; 
+    category?: string;
     correlationStrength?: number; 
     confidenceScore?: number;
   };
+  triggerCategories?: { category: string; label: string; count: number }[];
   frequencyByMonth: { month: string; count: number }[];
   intensityTrend: { date: string; intensity: number }[];
 }
@@ -164,3 +550,171 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+/**
+ * Prompt template types (versioned LLM prompts and A/B experiments)
+ */
+export type PromptVariant = 'A' | 'B';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  label: string; // "name vN"
+  body: string; // Text with {{variable}} placeholders
+  notes: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface PromptTemplateVariable {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptTemplateLibrary {
+  templates: PromptTemplate[]; // Newest version first within each name
+  builtIn: { label: string; body: string; isActive: boolean };
+  variables: PromptTemplateVariable[];
+}
+
+export interface SavePromptTemplate {
+  name: string;
+  body: string;
+  notes?: string;
+}
+
+export interface PromptExperiment {
+  id: string;
+  name: string;
+  templateA: { id: string; label: string };
+  templateB: { id: string; label: string };
+  splitPercent: number; // Share of assessments using B
+  status: 'running' | 'stopped';
+  startedAt: string;
+  stoppedAt: string | null;
+}
+
+export interface PromptExperimentWithResults extends PromptExperiment {
+  results: {
+    variants: Record<PromptVariant, ForecastMetrics>;
+    pending: Record<PromptVariant, number>;
+  };
+}
+
+export interface CreatePromptExperiment {
+  name: string;
+  templateAId: string;
+  templateBId: string;
+  splitPercent?: number;
+}
+
+/** Data assistant chat types */
+export type ChatMessageRole = 'user' | 'assistant' | 'tool';
+
+export interface ChatConversation {
+  id: string;
+  title: string;
+  provider: string | null; // Provider that answered the latest question
+  model: string | null;
+  messageCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: ChatMessageRole;
+  content: string;
+  // Set for tool calls made while answering
+  toolName: string | null;
+  toolArguments: Record<string, unknown> | null;
+  toolResult: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface ChatConversationDetail extends ChatConversation {
+  messages: ChatMessage[];
+}
+
+export interface ChatTurn {
+  conversation: ChatConversation;
+  messages: ChatMessage[]; // The question, tool calls and answer added by this turn
+}
+
+/** What-if scenario types (simulated 24 hours before a forecast) */
+export type ScenarioMetric = 'stress' | 'recovery' | 'hrv' | 'heartRate' | 'sleepEfficiency' | 'skinTemp';
+
+export interface ScenarioSegment {
+  metric: ScenarioMetric;
+  startHour: number; // 0-23, hour 0 starts 24 hours before the forecast
+  endHour: number; // 1-24 (exclusive), 24 is the forecast time
+  startValue: number;
+  endValue?: number; // Ramps from startValue to endValue when set
+}
+
+export interface ScenarioDefinition {
+  base: 'recorded' | 'constant'; // Start from recorded readings or from fixed values
+  constants: Partial<Record<ScenarioMetric, number>>; // Used when base is 'constant'
+  segments: ScenarioSegment[]; // Later segments win where they overlap
+}
+
+export interface RiskScenario {
+  id: string;
+  name: string;
+  description?: string;
+  scenario: ScenarioDefinition;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveRiskScenario {
+  name: string;
+  description?: string;
+  scenario: ScenarioDefinition;
+}
+
+export interface ScenarioReading {
+  timestamp: string;
+  stress: number | null;
+  recovery: number | null;
+  heartRate: number | null;
+  hrv: number | null;
+  sleepEfficiency: number | null;
+  sleepHeartRate: number | null;
+  skinTemperature: number | null;
+  restlessPeriods: number | null;
+}
+
+export interface ScenarioPreview {
+  wearableData: ScenarioReading[]; // Hourly series of the scenario
+  recordedData: ScenarioReading[]; // Recorded readings for the same 24 hours
+  timeRange: {
+    start: string;
+    end: string;
+  };
+}
+
+export interface ScenarioComparisonResult {
+  scenarioId: string | null; // null for the recorded data
+  name: string;
+  isSimulated: boolean;
+  riskLevel: number; // 0-100
+  riskCategory: string;
+  confidenceLevel: string;
+  keyRiskFactors: string[];
+  factors: {
+    feature: string;
+    label: string;
+    contribution: number; // Log-odds added to the score
+    description: string;
+  }[]; // Largest three contributions
+  dataPointsCount: number;
+}
+
+export interface ScenarioComparison {
+  results: ScenarioComparisonResult[];
+  lookbackHours: number;
+  horizonHours: number;
+  generatedAt: string;
+}
@@ -124,6 +124,23 @@ git update-index --assume-unchanged db/migration_004_upload_sessions.sql 2>/dev/
 git update-index --assume-unchanged db/migration_005_migraine_day_markers.sql 2>/dev/null || true
 git update-index --assume-unchanged db/migration_006_summary_indicators.sql 2>/dev/null || true
 git update-index --assume-unchanged db/migration_007_migraine_correlations.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_008_migraine_import_sessions.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_009_medications.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_010_trigger_symptom_vocabulary.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_011_daily_checkins.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_012_checkin_skipped_meals.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_013_summary_baselines.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_014_risk_assessments.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_015_scheduled_forecasts_notifications.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_016_prompt_templates.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_017_chat_conversations.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_018_forecast_horizons.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_019_risk_scenarios.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_020_upload_import_format.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_021_wearable_mapping_templates.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_022_wearable_units.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_023_user_timezone.sql 2>/dev/null || true
+git update-index --assume-unchanged db/migration_024_async_wearable_uploads.sql 2>/dev/null || true
 cd ..
 echo -e "${GREEN}✅ Database files marked as locally ignored${NC}"
 